@@ -1,4 +1,5 @@
 const esbuild = require("esbuild");
+const { version } = require('./package.json');
 
 const production = process.argv.includes('--production');
 const watch = process.argv.includes('--watch');
@@ -25,17 +26,21 @@ const esbuildProblemMatcherPlugin = {
 
 async function main() {
 	const ctx = await esbuild.context({
-		entryPoints: [
-			'src/extension.ts'
-		],
+		entryPoints: {
+			extension: 'src/extension.ts',
+			'mcp-server': 'src/mcp/main.ts',
+		},
 		bundle: true,
 		format: 'cjs',
 		minify: production,
 		sourcemap: !production,
 		sourcesContent: false,
 		platform: 'node',
-		outfile: 'dist/extension.js',
+		outdir: 'dist',
 		external: ['vscode'],
+		define: {
+			__NOTEEEES_VERSION__: JSON.stringify(version),
+		},
 		logLevel: 'silent',
 		plugins: [
 			/* add to the end of plugins array */
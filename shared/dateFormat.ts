@@ -0,0 +1,12 @@
+function pad2(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+/** Local-calendar `YYYY-MM-DD` (never UTC). */
+export function formatDateString(date: Date): string {
+  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+}
+
+export function formatTimeHM(date: Date): string {
+  return `${pad2(date.getHours())}:${pad2(date.getMinutes())}`;
+}
@@ -0,0 +1,295 @@
+import { formatDateString } from "./dateFormat.js";
+
+/**
+ * An entry time as written: `HH:mm`, optionally with seconds and a UTC offset
+ * (`09:15`, `09:15:30`, `09:15+09:00`, `23:40:05-05:00`, `07:00Z`).
+ */
+export const MOMENT_TIME_PATTERN = String.raw`\d{2}:\d{2}(?::\d{2})?(?:Z|[+-]\d{2}:\d{2})?`;
+
+const ENTRY_DONE_RE = new RegExp(String.raw`^-\s+\[x\]\s+(${MOMENT_TIME_PATTERN})\s+(.*)`, "i");
+const ENTRY_TODO_RE = new RegExp(String.raw`^-\s+\[ \]\s+(${MOMENT_TIME_PATTERN})\s+(.*)`, "i");
+const ENTRY_RE = new RegExp(String.raw`^-\s+(${MOMENT_TIME_PATTERN})\s+(.*)`);
+const REPLY_RE = new RegExp(String.raw`^\s+↳\s*(${MOMENT_TIME_PATTERN})\s+(.*)$`);
+const TIME_PARTS_RE = /^(\d{2}):(\d{2})(?::(\d{2}))?(Z|[+-]\d{2}:\d{2})?$/;
+const FRONT_MATTER_OFFSET_RE = /^utcOffset:\s*["']?(Z|[+-]\d{2}:\d{2})["']?\s*$/m;
+
+export interface MomentEntryStart {
+  time: string;
+  text: string;
+  done: boolean;
+}
+
+/** Parses the first line of a Moments entry: `- HH:mm text`, optionally as a task. */
+export function parseMomentEntryStart(line: string): MomentEntryStart | null {
+  const taskDone = line.match(ENTRY_DONE_RE);
+  if (taskDone) {
+    return {
+      time: taskDone[1],
+      text: taskDone[2],
+      done: true,
+    };
+  }
+
+  const taskTodo = line.match(ENTRY_TODO_RE);
+  if (taskTodo) {
+    return {
+      time: taskTodo[1],
+      text: taskTodo[2],
+      done: false,
+    };
+  }
+
+  const regular = line.match(ENTRY_RE);
+  if (regular) {
+    return {
+      time: regular[1],
+      text: regular[2],
+      done: false,
+    };
+  }
+
+  return null;
+}
+
+export interface MomentReply {
+  /** 0-based line of the reply within the body after front matter. */
+  index: number;
+  time: string;
+  text: string;
+}
+
+/** Parses the first line of a reply nested under an entry: `  ↳ HH:mm text`. */
+export function parseMomentReplyStart(line: string): Omit<MomentReply, "index"> | null {
+  const reply = line.match(REPLY_RE);
+  return reply ? { time: reply[1], text: reply[2] } : null;
+}
+
+export interface ParsedMomentEntry extends MomentEntryStart {
+  /** 0-based line of the entry within the body after front matter. */
+  index: number;
+  replies: MomentReply[];
+}
+
+function trimTrailingBlankLines(textLines: string[]): string {
+  while (textLines.length > 1 && textLines[textLines.length - 1].trim() === "") {
+    textLines.pop();
+  }
+  return textLines.join("\n");
+}
+
+/**
+ * Parses the entries of a Moments file. Continuation lines belong to the entry above until
+ * its first `↳` reply; after that they continue the latest reply.
+ */
+export function parseMomentEntries(raw: string): ParsedMomentEntry[] {
+  // Strip front matter only — do NOT trim, so line indices stay consistent with toggleTask
+  const body = raw.replace(/^---\n[\s\S]*?\n---\n/, "");
+  const lines = body.split("\n");
+  const entries: ParsedMomentEntry[] = [];
+
+  for (let i = 0; i < lines.length; ) {
+    const start = parseMomentEntryStart(lines[i]);
+    if (!start) {
+      i++;
+      continue;
+    }
+
+    let endIndex = i + 1;
+    while (endIndex < lines.length && !parseMomentEntryStart(lines[endIndex])) {
+      endIndex++;
+    }
+
+    const textLines = [start.text];
+    const replies: Array<{ index: number; time: string; textLines: string[] }> = [];
+    for (let j = i + 1; j < endIndex; j++) {
+      const reply = parseMomentReplyStart(lines[j]);
+      if (reply) {
+        replies.push({ index: j, time: reply.time, textLines: [reply.text] });
+      } else if (replies.length > 0) {
+        replies[replies.length - 1].textLines.push(lines[j].replace(/^ {1,4}/, ""));
+      } else {
+        textLines.push(lines[j]);
+      }
+    }
+
+    entries.push({
+      index: i,
+      time: start.time,
+      text: trimTrailingBlankLines(textLines),
+      done: start.done,
+      replies: replies.map((reply) => ({
+        index: reply.index,
+        time: reply.time,
+        text: trimTrailingBlankLines(reply.textLines),
+      })),
+    });
+    i = endIndex;
+  }
+
+  return entries;
+}
+
+/** `↗ [[target]]` appended to a Moment that was turned into a task or a note. */
+export const MOMENT_PROMOTION_RE = /\s*↗ \[\[([^\]|]+)\]\]/g;
+
+/** Appends a promotion marker to the first line of an entry, once per target. */
+export function addMomentPromotionMarker(line: string, target: string): string {
+  const marker = `↗ [[${target}]]`;
+  return line.includes(marker) ? line : `${line.trimEnd()} ${marker}`;
+}
+
+/** The entry text followed by its replies, for tag extraction and search. */
+export function getMomentThreadText(entry: Pick<ParsedMomentEntry, "text" | "replies">): string {
+  return [entry.text, ...entry.replies.map((reply) => reply.text)].join("\n");
+}
+
+/** Front matter of a new Moments file; `utcOffset` is the offset its times were written in. */
+export function buildMomentsFileHeader(date: string, utcOffset?: string): string {
+  const offset = utcOffset ? `utcOffset: "${utcOffset}"\n` : "";
+  return `---\ntype: moments\ndate: ${date}\n${offset}---\n\n`;
+}
+
+/** The `utcOffset` recorded in a Moments file's front matter, if any. */
+export function parseMomentsFileUtcOffset(raw: string): string | null {
+  const frontMatter = raw.match(/^---\n([\s\S]*?)\n---\n/);
+  return frontMatter?.[1].match(FRONT_MATTER_OFFSET_RE)?.[1] ?? null;
+}
+
+const ROLLUP_HEADING_RE = /^## (\d{4}-\d{2}-\d{2})$/;
+const ROLLUP_OFFSET_RE = /^<!-- utcOffset: (Z|[+-]\d{2}:\d{2}) -->$/;
+
+/** A Moments day as the content of its `YYYY-MM-DD.md` file. */
+export interface MomentsDayContent {
+  date: string;
+  content: string;
+}
+
+/** The lines after a Moments file's front matter and the blank line that follows it. */
+function getMomentsFileBody(raw: string): string {
+  const frontMatter = raw.match(/^---\n[\s\S]*?\n---\n/);
+  return frontMatter ? raw.slice(frontMatter[0].length).replace(/^\n/, "") : raw;
+}
+
+/**
+ * A monthly or yearly archive file: each day's entries under a `## YYYY-MM-DD` heading,
+ * oldest first, with the day's front matter offset kept in a comment below the heading.
+ * Days that appear twice are merged in the given order.
+ */
+export function buildMomentsRollup(period: string, days: MomentsDayContent[]): string {
+  const sections = new Map<string, { offset: string | null; body: string }>();
+  for (const day of [...days].sort((a, b) => a.date.localeCompare(b.date))) {
+    const body = getMomentsFileBody(day.content).trimEnd();
+    const existing = sections.get(day.date);
+    if (existing) {
+      existing.body = [existing.body, body].filter(Boolean).join("\n");
+    } else {
+      sections.set(day.date, { offset: parseMomentsFileUtcOffset(day.content), body });
+    }
+  }
+
+  const blocks = [...sections].map(([date, { offset, body }]) =>
+    [`## ${date}`, ...(offset ? [`<!-- utcOffset: ${offset} -->`] : []), "", body].join("\n"),
+  );
+  return `---\ntype: moments-archive\nperiod: ${period}\n---\n\n${blocks.join("\n\n")}\n`;
+}
+
+/** The days of a monthly or yearly archive file, each rebuilt as a regular day file. */
+export function splitMomentsRollup(raw: string): MomentsDayContent[] {
+  const days: Array<{ date: string; offset?: string; lines: string[] }> = [];
+  for (const line of getMomentsFileBody(raw).split("\n")) {
+    const heading = line.match(ROLLUP_HEADING_RE);
+    const current = days[days.length - 1];
+    if (heading) {
+      days.push({ date: heading[1], lines: [] });
+    } else if (!current) {
+      continue;
+    } else if (current.lines.length === 0 && !current.offset && ROLLUP_OFFSET_RE.test(line)) {
+      current.offset = line.match(ROLLUP_OFFSET_RE)![1];
+    } else {
+      current.lines.push(line);
+    }
+  }
+
+  return days.map(({ date, offset, lines }) => {
+    const body = lines.join("\n").replace(/^\n/, "").trimEnd();
+    return { date, content: `${buildMomentsFileHeader(date, offset)}${body ? `${body}\n` : ""}` };
+  });
+}
+
+export interface MomentTimeOptions {
+  seconds: boolean;
+  /**
+   * `off` writes local times only. `entry` appends the offset to every time. `frontMatter`
+   * records it once in the file header and appends it only to times written in another offset.
+   */
+  utcOffset: "off" | "entry" | "frontMatter";
+}
+
+/** `+09:00` / `-05:30` for the local offset at `date`. */
+export function formatUtcOffset(date: Date): string {
+  const minutes = -date.getTimezoneOffset();
+  const abs = Math.abs(minutes);
+  const hours = String(Math.floor(abs / 60)).padStart(2, "0");
+  return `${minutes < 0 ? "-" : "+"}${hours}:${String(abs % 60).padStart(2, "0")}`;
+}
+
+/** The time stamp of a new entry or reply; `fileOffset` is the `utcOffset` of its file. */
+export function formatMomentTime(
+  date: Date,
+  options: MomentTimeOptions,
+  fileOffset: string | null = null,
+): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  const withSeconds = options.seconds ? `${time}:${pad(date.getSeconds())}` : time;
+  if (options.utcOffset === "off") {
+    return withSeconds;
+  }
+
+  const offset = formatUtcOffset(date);
+  return options.utcOffset === "frontMatter" && offset === (fileOffset ?? offset)
+    ? withSeconds
+    : `${withSeconds}${offset}`;
+}
+
+/**
+ * The Moments day `date` belongs to. With a day start of 4, posts made before 04:00 count
+ * toward the previous day.
+ */
+export function getMomentDateString(date: Date, dayStartHour = 0): string {
+  const shifted = new Date(date);
+  shifted.setHours(shifted.getHours() - dayStartHour);
+  return formatDateString(shifted);
+}
+
+/**
+ * Milliseconds since the epoch of an entry of the Moments day `date`, for ordering entries
+ * written in different offsets. Times without an offset use `fileOffset`, or local time when
+ * the file has none; times before `dayStartHour` fall on the next calendar day.
+ */
+export function getMomentTimestamp(
+  date: string,
+  time: string,
+  fileOffset: string | null = null,
+  dayStartHour = 0,
+): number {
+  const parts = time.match(TIME_PARTS_RE);
+  if (!parts) {
+    return new Date(`${date}T00:00:00`).getTime();
+  }
+
+  const [, hours, minutes, seconds = "00", entryOffset] = parts;
+  const offset = entryOffset ?? fileOffset ?? "";
+  const timestamp = new Date(`${date}T${hours}:${minutes}:${seconds}${offset}`).getTime();
+  return Number(hours) < dayStartHour ? timestamp + 24 * 60 * 60 * 1000 : timestamp;
+}
+
+export function buildMomentEntryText(time: string, text: string): string {
+  return `- ${time} ${text.replace(/\r\n/g, "\n").trim()}\n`;
+}
+
+/** Lines of a reply: `  ↳ HH:mm text`, with further lines indented under it. */
+export function buildMomentReplyLines(time: string, text: string): string[] {
+  const [first, ...rest] = text.replace(/\r\n/g, "\n").trim().split("\n");
+  return [`  ↳ ${time} ${first}`, ...rest.map((line) => (line.trim() ? `    ${line}` : ""))];
+}
@@ -0,0 +1,152 @@
+export interface NoteMetadata {
+  title: string;
+  tags: string[];
+}
+
+export function stripFrontMatter(rawContent: string): string {
+  return rawContent.replace(/^---\s*\n[\s\S]*?\n---\s*\n?/, "").trim();
+}
+
+export function extractPreviewText(rawContent: string, maxLength: number = 140): string {
+  const preview = stripFrontMatter(rawContent).replace(/\n+/g, " ").trim();
+  if (preview.length <= maxLength) {
+    return preview;
+  }
+
+  return `${preview.slice(0, maxLength - 1).trimEnd()}…`;
+}
+
+export function normalizeSearchText(text: string): string {
+  return text.replace(/\n+/g, " ").trim();
+}
+
+function getSearchTerms(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .map((term) => term.trim())
+    .filter((term) => term.length > 0);
+}
+
+export function buildQueryExcerpt(text: string, query: string, maxLength: number = 100): string {
+  const normalized = normalizeSearchText(text);
+  if (!normalized) {
+    return "";
+  }
+
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) {
+    if (normalized.length <= maxLength) {
+      return normalized;
+    }
+
+    return `${normalized.slice(0, maxLength - 1).trimEnd()}…`;
+  }
+
+  const lowered = normalized.toLowerCase();
+  let matchIndex = -1;
+  let matchLength = 0;
+
+  for (const term of terms) {
+    const index = lowered.indexOf(term);
+    if (index !== -1 && (matchIndex === -1 || index < matchIndex)) {
+      matchIndex = index;
+      matchLength = term.length;
+    }
+  }
+
+  if (matchIndex === -1) {
+    if (normalized.length <= maxLength) {
+      return normalized;
+    }
+
+    return `${normalized.slice(0, maxLength - 1).trimEnd()}…`;
+  }
+
+  const contextPadding = Math.max(0, Math.floor((maxLength - matchLength) / 2));
+  const start = Math.max(0, matchIndex - contextPadding);
+  const end = Math.min(normalized.length, start + maxLength);
+  let adjustedStart = Math.max(0, end - maxLength);
+  let adjustedEnd = end;
+
+  if (adjustedStart > 0) {
+    const nextWordBoundary = normalized.indexOf(" ", adjustedStart);
+    if (nextWordBoundary !== -1 && nextWordBoundary < matchIndex) {
+      adjustedStart = nextWordBoundary + 1;
+    }
+  }
+
+  if (adjustedEnd < normalized.length) {
+    const previousWordBoundary = normalized.lastIndexOf(" ", adjustedEnd);
+    if (previousWordBoundary !== -1 && previousWordBoundary > matchIndex + matchLength) {
+      adjustedEnd = previousWordBoundary;
+    }
+  }
+
+  let excerpt = normalized.slice(adjustedStart, adjustedEnd).trim();
+
+  if (adjustedStart > 0) {
+    excerpt = `…${excerpt}`;
+  }
+
+  if (adjustedEnd < normalized.length) {
+    excerpt = `${excerpt}…`;
+  }
+
+  return excerpt;
+}
+
+function extractFrontMatterTags(rawContent: string): string[] {
+  const fmMatch = rawContent.match(/^---\s*\n([\s\S]*?)\n---/);
+  if (!fmMatch) {
+    return [];
+  }
+
+  const tagsLine = fmMatch[1].match(/^tags\s*:\s*(.+)$/m);
+  if (!tagsLine) {
+    return [];
+  }
+
+  const raw = tagsLine[1].replace(/[\[\]]/g, "");
+  return raw
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0)
+    .map((tag) => (tag.startsWith("#") ? tag : `#${tag}`));
+}
+
+/** Front matter `aliases: [a, b]` (or `alias: a`), the other names a note goes by. */
+export function extractFrontMatterAliases(rawContent: string): string[] {
+  const fmMatch = rawContent.match(/^---\s*\n([\s\S]*?)\n---/);
+  const aliasesLine = fmMatch?.[1].match(/^alias(?:es)?\s*:\s*(.+)$/m);
+  if (!aliasesLine) {
+    return [];
+  }
+
+  return aliasesLine[1]
+    .replace(/[\[\]]/g, "")
+    .split(",")
+    .map((alias) => alias.trim().replace(/^(["'])(.*)\1$/, "$2"))
+    .filter((alias) => alias.length > 0);
+}
+
+const INLINE_TAG_PATTERN = /#[\p{L}\p{M}\p{N}_\p{Pd}]+/gu;
+
+function normalizeInlineTag(tag: string): string {
+  return tag.normalize("NFKC");
+}
+
+function extractInlineTags(rawContent: string): string[] {
+  return [
+    ...new Set((rawContent.match(INLINE_TAG_PATTERN) || []).map((tag) => normalizeInlineTag(tag))),
+  ];
+}
+
+export function extractNoteMetadata(rawContent: string, fallbackTitle: string): NoteMetadata {
+  const headingMatch = rawContent.match(/^#\s+(.+)$/m);
+  const title = headingMatch?.[1]?.trim() || fallbackTitle;
+  const tags = [
+    ...new Set([...extractFrontMatterTags(rawContent), ...extractInlineTags(rawContent)]),
+  ];
+  return { title, tags };
+}
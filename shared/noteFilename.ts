@@ -1,3 +1,5 @@
+import * as path from "path";
+
 /**
  * Strip a leading date/datetime prefix from a filename stem.
  * Recognised patterns (separator = '-' or '_'):
@@ -24,3 +26,14 @@ export function stripDatePrefix(
 export function stripDatePrefixTitle(stem: string): string {
   return stripDatePrefix(stem).title;
 }
+
+/** `YYYY-MM-DD_daily.md` in the notes directory, the daily note of `date`. */
+export function getDailyNoteFilePath(notesDir: string, date: string): string {
+  return path.join(notesDir, `${date}_daily.md`);
+}
+
+/** Returns the leading YYYY-MM-DD of a note's filename, if any. */
+export function dateFromFilePath(filePath: string): string | null {
+  const m = path.basename(filePath, ".md").match(/^(\d{4}-\d{2}-\d{2})/);
+  return m ? m[1] : null;
+}
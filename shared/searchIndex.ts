@@ -0,0 +1,411 @@
+export type SearchDocumentKind = "note" | "moment" | "task";
+
+export interface SearchDocument {
+  id: string;
+  kind: SearchDocumentKind;
+  /** Path relative to the notes directory. */
+  path: string;
+  /** `YYYY-MM-DD` used by `before:` / `after:` (note filename date, Moments day, or mtime). */
+  date: string;
+  /** Lower-case tags including the `#`. */
+  tags: string[];
+  title: string;
+  text: string;
+  /** 0-based line of the task, or the body line of a Moments entry; 0 for notes. */
+  line: number;
+}
+
+export interface ParsedSearchQuery {
+  /** Plain words, ANDed; each may match as a prefix. */
+  terms: string[];
+  /** Quoted phrases, matched contiguously. */
+  phrases: string[];
+  tags: string[];
+  paths: string[];
+  before: string | null;
+  after: string | null;
+}
+
+export interface SearchHit {
+  document: SearchDocument;
+  score: number;
+}
+
+export interface SearchOptions {
+  kinds?: SearchDocumentKind[];
+  limit?: number;
+}
+
+/** Serialized without `text`, which only phrase checks read; see `restoreText`. */
+interface SerializedSearchDocument extends Omit<SearchDocument, "text"> {
+  terms: Record<string, number>;
+}
+
+export interface SerializedSearchIndex {
+  version: number;
+  documents: SerializedSearchDocument[];
+}
+
+interface IndexedDocument {
+  document: SearchDocument;
+  terms: Map<string, number>;
+  length: number;
+  /** Normalized title and text, for phrase checks. */
+  phraseText: string;
+}
+
+/** Bumped when documents are built differently (2: nested Moments tags), so old indexes rebuild. */
+const SEARCH_INDEX_VERSION = 2;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+/** Title tokens count this many times, so title hits outrank body hits. */
+const TITLE_WEIGHT = 3;
+/** Prefix matches (`road` → `roadmap`) score lower than exact token matches. */
+const PREFIX_WEIGHT = 0.5;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const CJK_CHAR_RE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々]/u;
+const TOKEN_RUN_RE =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々]+|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々])[\p{L}\p{M}\p{N}_])+/gu;
+
+export function normalizeForSearch(text: string): string {
+  return String(text ?? "")
+    .normalize("NFKC")
+    .toLowerCase();
+}
+
+/**
+ * Splits text into index tokens: Latin words as-is, and Japanese / Chinese runs (which have
+ * no spaces) as overlapping character bigrams, so `議事録` matches inside `週次議事録`.
+ */
+export function tokenizeForSearch(text: string): string[] {
+  const tokens: string[] = [];
+  for (const [run] of normalizeForSearch(text).matchAll(TOKEN_RUN_RE)) {
+    if (!CJK_CHAR_RE.test(run)) {
+      tokens.push(run);
+      continue;
+    }
+
+    const chars = Array.from(run);
+    if (chars.length === 1) {
+      tokens.push(run);
+      continue;
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(chars[i] + chars[i + 1]);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parses `word "exact phrase" tag:project path:meetings before:2026-04-01 after:2026-03-01`.
+ * Operators with an invalid value are searched as plain words.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    tags: [],
+    paths: [],
+    before: null,
+    after: null,
+  };
+
+  for (const match of String(query ?? "").matchAll(/"([^"]*)"?|(\S+)/g)) {
+    if (match[1] !== undefined) {
+      const phrase = normalizeForSearch(match[1]).replace(/\s+/g, " ").trim();
+      if (phrase) {
+        parsed.phrases.push(phrase);
+      }
+      continue;
+    }
+
+    const word = match[2];
+    const operator = /^(tag|path|before|after):(.+)$/i.exec(word);
+    const key = operator?.[1].toLowerCase();
+    const value = operator ? normalizeForSearch(operator[2]) : "";
+    if (key === "tag") {
+      parsed.tags.push(value.startsWith("#") ? value : `#${value}`);
+    } else if (key === "path") {
+      parsed.paths.push(value.replace(/\\/g, "/"));
+    } else if ((key === "before" || key === "after") && DATE_RE.test(value)) {
+      parsed[key] = value;
+    } else {
+      parsed.terms.push(normalizeForSearch(word));
+    }
+  }
+
+  return parsed;
+}
+
+/** Plain words and phrases of a query, without operators — for highlighting excerpts. */
+export function getSearchQueryText(query: string): string {
+  const parsed = parseSearchQuery(query);
+  return [...parsed.terms, ...parsed.phrases].join(" ");
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ");
+}
+
+function buildPhraseText(document: SearchDocument): string {
+  return collapseWhitespace(normalizeForSearch(`${document.title}\n${document.text}`));
+}
+
+/**
+ * In-memory inverted index over notes, Moments entries and tasks with BM25 ranking.
+ * Callers add and remove documents as files change; the index can be serialized to JSON
+ * and restored without re-tokenizing, leaving out document text until `restoreText`.
+ */
+export class SearchIndex {
+  private readonly documents = new Map<string, IndexedDocument>();
+  private readonly postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  add(document: SearchDocument): void {
+    const terms = new Map<string, number>();
+    const count = (text: string, weight: number) => {
+      for (const token of tokenizeForSearch(text)) {
+        terms.set(token, (terms.get(token) ?? 0) + weight);
+      }
+    };
+    count(document.title, TITLE_WEIGHT);
+    count(document.path, 1);
+    count(document.tags.join(" "), 1);
+    count(document.text, 1);
+    this.insert(document, terms);
+  }
+
+  remove(id: string): void {
+    const entry = this.documents.get(id);
+    if (!entry) {
+      return;
+    }
+
+    for (const token of entry.terms.keys()) {
+      const posting = this.postings.get(token);
+      posting?.delete(id);
+      if (posting && posting.size === 0) {
+        this.postings.delete(token);
+      }
+    }
+    this.totalLength -= entry.length;
+    this.documents.delete(id);
+  }
+
+  get(id: string): SearchDocument | undefined {
+    return this.documents.get(id)?.document;
+  }
+
+  /** Puts back the text of a restored document, so quoted phrases match it again. */
+  restoreText(document: SearchDocument): void {
+    const entry = this.documents.get(document.id);
+    if (!entry) {
+      return;
+    }
+    entry.document = { ...entry.document, text: document.text };
+    entry.phraseText = buildPhraseText(entry.document);
+  }
+
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const parsed = parseSearchQuery(query);
+    const kinds = options.kinds ? new Set(options.kinds) : null;
+    const queryTokens = [...new Set(parsed.terms.flatMap((term) => tokenizeForSearch(term)))];
+    const phraseTokens = [
+      ...new Set(parsed.phrases.flatMap((phrase) => tokenizeForSearch(phrase))),
+    ];
+    const hasFilter =
+      parsed.tags.length > 0 || parsed.paths.length > 0 || parsed.before || parsed.after;
+    if (queryTokens.length === 0 && phraseTokens.length === 0 && !hasFilter) {
+      return [];
+    }
+
+    // Every query token must match (AND); phrase tokens match exactly, words also by prefix.
+    const allMatches = [
+      ...queryTokens.map((token) => this.expandToken(token)),
+      ...phraseTokens.map((token) => new Map([[token, 1]])),
+    ];
+
+    let candidateIds: Iterable<string>;
+    if (allMatches.length > 0) {
+      const [first, ...rest] = allMatches.map((matches) => this.collectDocumentIds(matches));
+      candidateIds = [...first].filter((id) => rest.every((ids) => ids.has(id)));
+    } else {
+      candidateIds = this.documents.keys();
+    }
+
+    const averageLength = this.documents.size > 0 ? this.totalLength / this.documents.size : 0;
+    const hits: SearchHit[] = [];
+    for (const id of candidateIds) {
+      const entry = this.documents.get(id);
+      if (!entry || (kinds && !kinds.has(entry.document.kind))) {
+        continue;
+      }
+      if (!this.matchesFilters(entry, parsed)) {
+        continue;
+      }
+
+      let score = 0;
+      for (const matches of allMatches) {
+        score += this.scoreTokenMatches(entry, id, matches, averageLength);
+      }
+      hits.push({ document: entry.document, score });
+    }
+
+    hits.sort(
+      (left, right) =>
+        right.score - left.score ||
+        right.document.date.localeCompare(left.document.date) ||
+        left.document.path.localeCompare(right.document.path) ||
+        left.document.line - right.document.line,
+    );
+    return options.limit !== undefined ? hits.slice(0, options.limit) : hits;
+  }
+
+  /** How many documents carry each tag, optionally only among some kinds. */
+  countTags(kinds?: SearchDocumentKind[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const { document } of this.documents.values()) {
+      if (kinds && !kinds.includes(document.kind)) {
+        continue;
+      }
+      for (const tag of document.tags) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }
+
+  toJSON(): SerializedSearchIndex {
+    return {
+      version: SEARCH_INDEX_VERSION,
+      documents: [...this.documents.values()].map(
+        ({ document: { text: _text, ...document }, terms }) => ({
+          ...document,
+          terms: Object.fromEntries(terms),
+        }),
+      ),
+    };
+  }
+
+  /** Restores a serialized index; returns null when the data is from another format version. */
+  static fromJSON(data: unknown): SearchIndex | null {
+    const serialized = data as Partial<SerializedSearchIndex> | null;
+    if (
+      !serialized ||
+      serialized.version !== SEARCH_INDEX_VERSION ||
+      !Array.isArray(serialized.documents)
+    ) {
+      return null;
+    }
+
+    const index = new SearchIndex();
+    for (const { terms, ...document } of serialized.documents) {
+      index.insert({ ...document, text: "" }, new Map(Object.entries(terms ?? {})));
+    }
+    return index;
+  }
+
+  private insert(document: SearchDocument, terms: Map<string, number>): void {
+    this.remove(document.id);
+
+    let length = 0;
+    for (const [token, frequency] of terms) {
+      let posting = this.postings.get(token);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(token, posting);
+      }
+      posting.set(document.id, frequency);
+      length += frequency;
+    }
+
+    this.documents.set(document.id, {
+      document,
+      terms,
+      length,
+      phraseText: buildPhraseText(document),
+    });
+    this.totalLength += length;
+  }
+
+  /**
+   * Index tokens a query token stands for, with their weight: the token itself, longer
+   * tokens it is a prefix of, and — for a single CJK character — every bigram containing it.
+   */
+  private expandToken(token: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    if (this.postings.has(token)) {
+      matches.set(token, 1);
+    }
+
+    const singleCjk = Array.from(token).length === 1 && CJK_CHAR_RE.test(token);
+    for (const candidate of this.postings.keys()) {
+      if (candidate === token) {
+        continue;
+      }
+      if (singleCjk ? candidate.includes(token) : candidate.startsWith(token)) {
+        matches.set(candidate, PREFIX_WEIGHT);
+      }
+    }
+    return matches;
+  }
+
+  private collectDocumentIds(matches: Map<string, number>): Set<string> {
+    const ids = new Set<string>();
+    for (const token of matches.keys()) {
+      for (const id of this.postings.get(token)?.keys() ?? []) {
+        ids.add(id);
+      }
+    }
+    return ids;
+  }
+
+  private scoreTokenMatches(
+    entry: IndexedDocument,
+    id: string,
+    matches: Map<string, number>,
+    averageLength: number,
+  ): number {
+    const total = this.documents.size;
+    let score = 0;
+    for (const [token, weight] of matches) {
+      const posting = this.postings.get(token);
+      const frequency = posting?.get(id);
+      if (!posting || !frequency) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (total - posting.size + 0.5) / (posting.size + 0.5));
+      const norm = 1 - BM25_B + (BM25_B * entry.length) / (averageLength || 1);
+      score += weight * idf * ((frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * norm));
+    }
+    return score;
+  }
+
+  private matchesFilters(entry: IndexedDocument, parsed: ParsedSearchQuery): boolean {
+    const { document } = entry;
+    // `tag:#work` also matches nested tags such as `#work/projecta`.
+    const hasTag = (tag: string) =>
+      document.tags.some((candidate) => candidate === tag || candidate.startsWith(`${tag}/`));
+    if (parsed.tags.some((tag) => !hasTag(tag))) {
+      return false;
+    }
+    const documentPath = document.path.replace(/\\/g, "/").toLowerCase();
+    if (parsed.paths.some((fragment) => !documentPath.includes(fragment))) {
+      return false;
+    }
+    if (parsed.before && !(document.date < parsed.before)) {
+      return false;
+    }
+    if (parsed.after && !(document.date > parsed.after)) {
+      return false;
+    }
+    return parsed.phrases.every((phrase) => entry.phraseText.includes(phrase));
+  }
+}
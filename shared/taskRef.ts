@@ -0,0 +1,101 @@
+import * as crypto from "crypto";
+import * as path from "path";
+import { isPathInside } from "./pathSafety.js";
+import { parseTaskLine } from "./taskSyntax.js";
+
+export interface TaskRef {
+  relativePath: string;
+  filePath: string;
+  lineIndex: number;
+  /** `^block-id` or a content hash of the task text; null for legacy position-only ids. */
+  fingerprint: string | null;
+}
+
+const TASK_ID_RE = /^(.*):(\d+)(?:@([^@:]+))?$/;
+const BLOCK_ID_RE = /\s\^([A-Za-z0-9-]+)\s*$/;
+
+/** Returns the trailing `^block-id` anchor of a task text, if any. */
+export function extractBlockId(text: string): string | null {
+  const match = BLOCK_ID_RE.exec(text);
+  return match ? match[1] : null;
+}
+
+/**
+ * Identity of a task that does not depend on its line number: the `^block-id` anchor
+ * when present, otherwise a short hash of the task text (the checkbox state is ignored).
+ */
+export function buildTaskFingerprint(text: string): string {
+  const blockId = extractBlockId(text);
+  if (blockId) {
+    return `^${blockId}`;
+  }
+  return crypto.createHash("sha1").update(text.trim()).digest("hex").slice(0, 12);
+}
+
+/** Builds a `relative/path.md:lineIndex@fingerprint` task id. */
+export function buildTaskId(relativePath: string, lineIndex: number, text: string): string {
+  return `${relativePath}:${lineIndex}@${buildTaskFingerprint(text)}`;
+}
+
+/**
+ * Resolves a `relative/path.md:lineIndex[@fingerprint]` task id against the notes directory.
+ * Returns null for malformed ids or paths that escape the notes directory.
+ */
+export function resolveTaskRef(notesDir: string, taskId: string): TaskRef | null {
+  const match = TASK_ID_RE.exec(taskId);
+  if (!match || !match[1]) {
+    return null;
+  }
+
+  const relativePath = match[1];
+  const lineIndex = Number.parseInt(match[2], 10);
+  if (!Number.isInteger(lineIndex) || lineIndex < 0) {
+    return null;
+  }
+
+  const filePath = path.resolve(notesDir, relativePath);
+  if (!isPathInside(notesDir, filePath)) {
+    return null;
+  }
+
+  return {
+    relativePath,
+    filePath,
+    lineIndex,
+    fingerprint: match[3] ?? null,
+  };
+}
+
+/**
+ * Finds the current line of the referenced task. The recorded line wins when it still
+ * matches the fingerprint; otherwise the nearest task line with the same fingerprint is
+ * used (lines shifted by edits above it). Returns null when the task can no longer be
+ * found, so callers refuse to write instead of touching the wrong line.
+ */
+export function locateTaskLine(lines: string[], ref: TaskRef): number | null {
+  const matchesAt = (index: number): boolean => {
+    const parsed = parseTaskLine((lines[index] ?? "").replace(/\r$/, ""));
+    if (!parsed) {
+      return false;
+    }
+    return ref.fingerprint === null || buildTaskFingerprint(parsed.text) === ref.fingerprint;
+  };
+
+  if (matchesAt(ref.lineIndex)) {
+    return ref.lineIndex;
+  }
+  if (ref.fingerprint === null) {
+    return null;
+  }
+
+  const maxDistance = Math.max(ref.lineIndex, lines.length);
+  for (let distance = 1; distance <= maxDistance; distance++) {
+    if (ref.lineIndex + distance < lines.length && matchesAt(ref.lineIndex + distance)) {
+      return ref.lineIndex + distance;
+    }
+    if (ref.lineIndex - distance >= 0 && matchesAt(ref.lineIndex - distance)) {
+      return ref.lineIndex - distance;
+    }
+  }
+  return null;
+}
@@ -1,10 +1,66 @@
-export const TASK_RE = /^- \[([ xX])\] (.+)$/;
+import { formatDateString } from "./dateFormat.js";
+
+/** `- [ ] text` / `- [x] text`, optionally indented (a subtask of the task above it). */
+export const TASK_RE = /^([ \t]*)- \[([ xX])\] (.+)$/;
 export const TAG_RE = /#[\w\u3040-\u9FFF\u4E00-\u9FFF-]+/g;
 export const DUE_DATE_RE = /(?:📅|#?due:|@)(\d{4}-\d{2}-\d{2})/i;
 export const DUE_DATE_TOKEN_RE = /^(?:📅|#?due:|@)(\d{4}-\d{2}-\d{2})$/i;
 
 const DUE_DATE_STRIP_RE = /\s*(?:📅|#?due:|@)(\d{4}-\d{2}-\d{2})\b/gi;
 
+/** Due date, tag, priority, estimate, category, provenance or block id token. */
+const TASK_METADATA_TOKEN = String.raw`(?:(?:📅|#?due:|@)\d{4}-\d{2}-\d{2}|#[\w\u3040-\u9FFF-]+|!(?:high|medium|low)|⏫|🔺|🔼|🔽|~\d+[hm]\w*|category:\S+|\(from \d{4}-\d{2}-\d{2}\)|\^[A-Za-z0-9-]+)`;
+
+/**
+ * Recurrence tokens: `🔁 every week`, `🔁 every 2 months`, `repeat:monthly`, or a bare
+ * `every 2 weekdays` / `every day` phrase. The bare phrase only counts at the end of the
+ * task or before its metadata tokens, so prose such as "what we ship every week and why"
+ * does not recur.
+ */
+export const RECURRENCE_RE = new RegExp(
+  String.raw`(?:🔁\s*|\brepeat:)(?:every\s+)?(?:(\d+)\s*)?(daily|weekly|monthly|yearly|weekdays?|days?|weeks?|months?|years?)\b|(?:^|\s)every\s+(?:(\d+)\s+)?(weekdays?|days?|weeks?|months?|years?)(?=(?:\s+${TASK_METADATA_TOKEN})*\s*$)`,
+  "i",
+);
+
+/** Priority: `!high` / `!medium` / `!low`, or the emoji `⏫` (`🔺`) / `🔼` / `🔽`. */
+export const PRIORITY_RE = /(?:^|\s)(?:!(high|medium|low)\b|(⏫|🔺|🔼|🔽))/i;
+/** Time estimate: `~30m`, `~2h`, `~1h30m`. */
+export const ESTIMATE_RE = /(?:^|\s)~(?=\d)(?:(\d+)h)?(?:(\d+)m)?(?=\s|$)/i;
+/** Category: `category:work`. */
+export const CATEGORY_RE = /(?:^|\s)category:([\w\u3040-\u9FFF-]+)/i;
+/** Provenance of a moved task: `(from 2026-03-01)`. */
+export const PROVENANCE_RE = /(?:^|\s)\(from (\d{4}-\d{2}-\d{2})\)/i;
+
+export type TaskPriority = "high" | "medium" | "low";
+
+export interface TaskMetadata {
+  priority: TaskPriority | null;
+  timeEstimateMin: number | null;
+  category: string | null;
+}
+
+export type RecurrenceUnit = "day" | "weekday" | "week" | "month" | "year";
+
+export interface TaskRecurrence {
+  interval: number;
+  unit: RecurrenceUnit;
+  /** The recurrence token as written, e.g. `🔁 every week`. */
+  rule: string;
+}
+
+export interface ParsedTaskLine {
+  /** Leading whitespace; non-empty for subtasks. */
+  indent: string;
+  done: boolean;
+  text: string;
+  tags: string[];
+  dueDate: string | null;
+  recurrence: TaskRecurrence | null;
+  priority: TaskPriority | null;
+  timeEstimateMin: number | null;
+  category: string | null;
+}
+
 export function extractDueDate(text: string): string | null {
   const match = DUE_DATE_RE.exec(String(text ?? ""));
   return match ? match[1] : null;
@@ -16,3 +72,261 @@ export function stripDueDateTokens(text: string): string {
     .replace(/\s{2,}/g, " ")
     .trim();
 }
+
+const PRIORITY_EMOJI: Record<string, TaskPriority> = {
+  "⏫": "high",
+  "🔺": "high",
+  "🔼": "medium",
+  "🔽": "low",
+};
+
+export function extractTaskMetadata(text: string): TaskMetadata {
+  const value = String(text ?? "");
+  const priorityMatch = PRIORITY_RE.exec(value);
+  const estimateMatch = ESTIMATE_RE.exec(value);
+  const categoryMatch = CATEGORY_RE.exec(value);
+
+  let timeEstimateMin: number | null = null;
+  if (estimateMatch && (estimateMatch[1] || estimateMatch[2])) {
+    timeEstimateMin =
+      Number.parseInt(estimateMatch[1] ?? "0", 10) * 60 +
+      Number.parseInt(estimateMatch[2] ?? "0", 10);
+  }
+
+  return {
+    priority: priorityMatch
+      ? ((priorityMatch[1]?.toLowerCase() as TaskPriority | undefined) ??
+        PRIORITY_EMOJI[priorityMatch[2]])
+      : null,
+    timeEstimateMin,
+    category: categoryMatch ? categoryMatch[1].toLowerCase() : null,
+  };
+}
+
+export function stripTaskMetadataTokens(text: string): string {
+  return String(text ?? "")
+    .replace(new RegExp(PRIORITY_RE.source, "gi"), " ")
+    .replace(new RegExp(ESTIMATE_RE.source, "gi"), " ")
+    .replace(new RegExp(CATEGORY_RE.source, "gi"), " ")
+    .replace(new RegExp(PROVENANCE_RE.source, "gi"), " ")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+function formatEstimate(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) {
+    return `~${rest}m`;
+  }
+  return rest === 0 ? `~${hours}h` : `~${hours}h${rest}m`;
+}
+
+/**
+ * Appends inline tokens for the metadata fields the task text does not already carry,
+ * e.g. `Write report` + {priority: "high", timeEstimateMin: 90} → `Write report !high ~1h30m`.
+ */
+export function appendTaskMetadataTokens(text: string, metadata: Partial<TaskMetadata>): string {
+  const existing = extractTaskMetadata(text);
+  const tokens: string[] = [];
+  if (!existing.priority && metadata.priority) {
+    tokens.push(`!${metadata.priority}`);
+  }
+  if (
+    existing.timeEstimateMin === null &&
+    metadata.timeEstimateMin &&
+    metadata.timeEstimateMin > 0
+  ) {
+    tokens.push(formatEstimate(Math.round(metadata.timeEstimateMin)));
+  }
+  if (!existing.category && metadata.category) {
+    tokens.push(`category:${metadata.category}`);
+  }
+  return tokens.length > 0 ? `${text} ${tokens.join(" ")}` : text;
+}
+
+function toRecurrenceUnit(word: string): RecurrenceUnit {
+  const normalized = word.toLowerCase();
+  if (normalized.startsWith("weekday")) {
+    return "weekday";
+  }
+  if (normalized === "daily" || normalized.startsWith("day")) {
+    return "day";
+  }
+  if (normalized === "weekly" || normalized.startsWith("week")) {
+    return "week";
+  }
+  if (normalized === "monthly" || normalized.startsWith("month")) {
+    return "month";
+  }
+  return "year";
+}
+
+export function parseRecurrence(text: string): TaskRecurrence | null {
+  const match = RECURRENCE_RE.exec(String(text ?? ""));
+  if (!match) {
+    return null;
+  }
+
+  const interval = Number.parseInt(match[1] ?? match[3] ?? "1", 10);
+  return {
+    interval: Number.isInteger(interval) && interval > 0 ? interval : 1,
+    unit: toRecurrenceUnit(match[2] ?? match[4]),
+    rule: match[0].trim(),
+  };
+}
+
+/**
+ * Returns the occurrence after `fromDate`. Month and year steps clamp to the last day of
+ * the target month (Jan 31 + 1 month = Feb 28/29); weekday steps skip Saturdays and Sundays.
+ */
+export function getNextOccurrenceDate(fromDate: string, recurrence: TaskRecurrence): string {
+  const [year, month, day] = fromDate.split("-").map(Number);
+  const next = new Date(year, month - 1, day);
+
+  switch (recurrence.unit) {
+    case "day":
+      next.setDate(day + recurrence.interval);
+      break;
+    case "week":
+      next.setDate(day + recurrence.interval * 7);
+      break;
+    case "weekday": {
+      let remaining = recurrence.interval;
+      while (remaining > 0) {
+        next.setDate(next.getDate() + 1);
+        if (next.getDay() !== 0 && next.getDay() !== 6) {
+          remaining--;
+        }
+      }
+      break;
+    }
+    case "month":
+    case "year": {
+      const months = recurrence.unit === "month" ? recurrence.interval : recurrence.interval * 12;
+      const target = new Date(year, month - 1 + months, 1);
+      const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+      target.setDate(Math.min(day, lastDay));
+      return formatDateString(target);
+    }
+  }
+
+  return formatDateString(next);
+}
+
+/**
+ * Text of the next open occurrence of a recurring task: the due date moves one step
+ * forward (counted from `today` when the task has no due date). Null for one-off tasks.
+ */
+export function buildNextRecurringTaskText(text: string, today: string): string | null {
+  const recurrence = parseRecurrence(text);
+  if (!recurrence) {
+    return null;
+  }
+
+  const dueDate = extractDueDate(text);
+  const nextDueDate = getNextOccurrenceDate(dueDate ?? today, recurrence);
+  return dueDate
+    ? text.replace(DUE_DATE_RE, (token) => token.replace(dueDate, nextDueDate))
+    : `${text} @${nextDueDate}`;
+}
+
+/** Parses a `- [ ] text` / `- [x] text` line; returns null for anything else. */
+export function parseTaskLine(line: string): ParsedTaskLine | null {
+  const match = TASK_RE.exec(line);
+  if (!match) {
+    return null;
+  }
+
+  const text = match[3].trim();
+  return {
+    indent: match[1],
+    done: match[2].toLowerCase() === "x",
+    text,
+    tags: [...new Set(text.match(TAG_RE) ?? [])],
+    dueDate: extractDueDate(text),
+    recurrence: parseRecurrence(text),
+    ...extractTaskMetadata(text),
+  };
+}
+
+const TAG_BODY_RE = /^[\w\u3040-\u9FFF\u4E00-\u9FFF-]+$/;
+const TRAILING_BLOCK_ID_RE = /\s\^[A-Za-z0-9-]+\s*$/;
+
+/** Normalizes `work` / `#work` to `#work`; null when the rest is not a valid tag. */
+export function normalizeTaskTag(tag: string): string | null {
+  const body = String(tag ?? "")
+    .trim()
+    .replace(/^#/, "");
+  return TAG_BODY_RE.test(body) ? `#${body}` : null;
+}
+
+/** Appends a token to a task text, keeping a trailing `^block-id` last. */
+function appendTaskToken(text: string, token: string): string {
+  const anchor = TRAILING_BLOCK_ID_RE.exec(text);
+  const body = anchor ? text.slice(0, anchor.index) : text;
+  return `${body.trimEnd()} ${token}${anchor ? anchor[0].trimEnd() : ""}`;
+}
+
+/** Appends `#tag` unless the task already has it. */
+export function addTaskTag(text: string, tag: string): string {
+  const existing = text.match(TAG_RE) ?? [];
+  if (existing.some((candidate) => candidate.toLowerCase() === tag.toLowerCase())) {
+    return text;
+  }
+  return appendTaskToken(text, tag);
+}
+
+/** Marks where a moved task came from, unless it already carries its original provenance. */
+export function addTaskProvenance(text: string, date: string): string {
+  return PROVENANCE_RE.test(text) ? text : appendTaskToken(text, `(from ${date})`);
+}
+
+/** Removes every `#tag` token (case-insensitive) from a task text. */
+export function removeTaskTag(text: string, tag: string): string {
+  const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return text
+    .replace(new RegExp(`(^|\\s)${escaped}(?![\\w\\u3040-\\u9FFF\\u4E00-\\u9FFF-])`, "gi"), "")
+    .trim();
+}
+
+export function buildTaskMarkdownLine(done: boolean, text: string, indent = ""): string {
+  return `${indent}- [${done ? "x" : " "}] ${text}`;
+}
+
+/** Width of the leading whitespace of a line, counting a tab as four columns. */
+export function getIndentWidth(line: string): number {
+  let width = 0;
+  for (const char of line) {
+    if (char === " ") {
+      width++;
+    } else if (char === "\t") {
+      width += 4;
+    } else {
+      break;
+    }
+  }
+  return width;
+}
+
+/**
+ * Line indexes of the tasks nested under the task at `parentIndex`: every task line below
+ * it that is indented deeper, up to the first non-blank line that is not.
+ */
+export function findSubtaskLineIndexes(lines: string[], parentIndex: number): number[] {
+  const parentWidth = getIndentWidth(lines[parentIndex] ?? "");
+  const indexes: number[] = [];
+  for (let i = parentIndex + 1; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, "");
+    if (!line.trim()) {
+      continue;
+    }
+    if (getIndentWidth(line) <= parentWidth) {
+      break;
+    }
+    if (TASK_RE.test(line)) {
+      indexes.push(i);
+    }
+  }
+  return indexes;
+}
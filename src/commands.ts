@@ -1,18 +1,42 @@
 import * as fs from "fs/promises";
+import * as path from "path";
 import * as vscode from "vscode";
 import { DashboardPanel } from "./dashboardPanel.js";
-import { isPathInside } from "./dashboardTaskUtils.js";
-import { archiveMoments } from "./moments/fileIo.js";
+import { loadSavedViews } from "./dashboardSavedViews.js";
+import { collectRollOverTasks, rollOverDashboardTasks } from "./dashboardTaskPersistence.js";
+import {
+  isPathInside,
+  resolveDashboardTaskFile,
+  resolveTaskRef,
+  shiftDate,
+  todayDateString,
+} from "./dashboardTaskUtils.js";
+import { isMomentTag } from "./moments/config.js";
+import {
+  archiveMoments,
+  collectMomentsTagCounts,
+  getMomentsArchivePlanPaths,
+  listMomentsToArchive,
+  listMomentsFiles,
+  listMomentsToUnarchive,
+  renameMomentsTag,
+  unarchiveMoments,
+} from "./moments/fileIo.js";
+import { exportMomentsRange, promptMomentsRange } from "./moments/export.js";
 import { showOpenTasksOverview } from "./moments/taskOverview.js";
-import { createNewNote, listNotes, openDailyNote } from "./noteCommands";
+import { createNewNote, listNotes, openDailyNote, renameNote } from "./noteCommands";
 import {
   getDailyNoteTemplateSetting,
+  getDashboardAutoRollOverSetting,
+  getDashboardRollOverTargetSetting,
   getMomentsArchiveAfterDaysSetting,
   getSidebarTagSortSetting,
   updateSidebarTagSortSetting,
 } from "./notesConfig.js";
 import { movePinnedItem, type SidebarTagSortMode } from "./sidebarProvider";
 import { t } from "./i18n.js";
+import { linkUnlinkedMention, type UnlinkedMention } from "./wikiLinks.js";
+import { recordMutation, redoLastMutation, undoLastMutation } from "./mutationJournal.js";
 
 export interface NotesCommandDeps {
   getNotesDir(): string | undefined;
@@ -24,6 +48,7 @@ export interface NotesCommandDeps {
   refreshNotesTree(): void;
   refreshMoments(): void;
   refreshMarkdownWatcher(): void;
+  refreshBacklinks(): void;
   searchTags(notesDir: string): Promise<void>;
 }
 
@@ -42,6 +67,7 @@ export function registerNotesCommands(
     refreshNotesTree,
     refreshMoments,
     refreshMarkdownWatcher,
+    refreshBacklinks,
     searchTags,
   } = deps;
 
@@ -128,6 +154,53 @@ export function registerNotesCommands(
     await listNotes(notesDir);
   });
 
+  // Rename Note command (the active note, or a note in the sidebar)
+  const renameNoteDisposable = vscode.commands.registerCommand(
+    "notes.renameNote",
+    async (item?: { filePath?: string }) => {
+      const notesDir = await ensureNotesDirectory();
+      if (!notesDir) {
+        return;
+      }
+
+      const filePath = item?.filePath ?? vscode.window.activeTextEditor?.document.uri.fsPath;
+      if (!filePath?.endsWith(".md") || !isPathInside(notesDir, filePath)) {
+        vscode.window.showInformationMessage(t("renameNoteNoFile"));
+        return;
+      }
+      await renameNote(notesDir, filePath);
+      refreshNotesTree();
+    },
+  );
+
+  // Create Linked Note command (quick fix for a link that matches no note)
+  const createLinkedNoteDisposable = vscode.commands.registerCommand(
+    "notes.createLinkedNote",
+    async (title?: string) => {
+      const notesDir = await ensureNotesDirectory();
+      if (!notesDir || typeof title !== "string" || !title) {
+        return;
+      }
+      await createNewNote(notesDir, title);
+      refreshNotesTree();
+    },
+  );
+
+  // Link Mention command (inline action on an unlinked mention in the Backlinks view)
+  const linkMentionDisposable = vscode.commands.registerCommand(
+    "notes.linkMention",
+    async (item?: { mention?: UnlinkedMention; targetFile?: string }) => {
+      const notesDir = getNotesDir();
+      if (!notesDir || !item?.mention || !item.targetFile) {
+        return;
+      }
+      if (!(await linkUnlinkedMention(item.mention, item.targetFile, notesDir))) {
+        vscode.window.showWarningMessage(t("unlinkedMentionChanged"));
+      }
+      refreshBacklinks();
+    },
+  );
+
   // Focus Moments panel command
   const focusMomentsDisposable = vscode.commands.registerCommand("notes.focusMoments", async () => {
     await ensureNotesDirectory();
@@ -252,6 +325,32 @@ export function registerNotesCommands(
     },
   );
 
+  const openDashboardViewDisposable = vscode.commands.registerCommand(
+    "notes.openDashboardView",
+    async () => {
+      const notesDir = await ensureNotesDirectory();
+      if (!notesDir) {
+        return;
+      }
+
+      const views = loadSavedViews(context.globalState, notesDir);
+      if (views.length === 0) {
+        vscode.window.showInformationMessage(t("noSavedViews"));
+        return;
+      }
+
+      const picked = await vscode.window.showQuickPick(
+        views.map((view) => ({ label: view.name, description: view.query, view })),
+        { placeHolder: t("pickViewPlaceholder"), matchOnDescription: true },
+      );
+      if (!picked) {
+        return;
+      }
+      await DashboardPanel.createOrShow(getNotesDir, context.globalState);
+      DashboardPanel.showView(picked.view.query);
+    },
+  );
+
   const aiExtractTasksDisposable = vscode.commands.registerCommand(
     "notes.aiExtractTasks",
     async () => {
@@ -264,6 +363,82 @@ export function registerNotesCommands(
     },
   );
 
+  /** Moves unfinished tasks from past day task files; `automatic` runs stay quiet when idle. */
+  async function rollOverTasks(notesDir: string, automatic: boolean): Promise<void> {
+    const today = todayDateString();
+    const target = getDashboardRollOverTargetSetting();
+    const sources = (await collectRollOverTasks(notesDir, today)).flatMap(
+      (taskId) => resolveTaskRef(notesDir, taskId)?.filePath ?? [],
+    );
+    if (sources.length === 0) {
+      if (!automatic) {
+        vscode.window.showInformationMessage(t("noTasksToRollOver"));
+      }
+      return;
+    }
+
+    const targetFile = resolveDashboardTaskFile(notesDir, target === "today" ? today : null);
+    const { applied } = await recordMutation(
+      t("journalRollOverTasks"),
+      [...sources, targetFile],
+      () => rollOverDashboardTasks(notesDir, today, target),
+    );
+    vscode.window.showInformationMessage(
+      t("rolledOverTasks", {
+        count: applied,
+        target: path.relative(notesDir, targetFile).replace(/\\/g, "/"),
+      }),
+    );
+    DashboardPanel.refresh();
+  }
+
+  const rollOverTasksDisposable = vscode.commands.registerCommand(
+    "notes.rollOverTasks",
+    async () => {
+      const notesDir = await ensureNotesDirectory();
+      if (notesDir) {
+        await rollOverTasks(notesDir, false);
+      }
+    },
+  );
+
+  const autoRollOverNotesDir = getNotesDir();
+  if (autoRollOverNotesDir && getDashboardAutoRollOverSetting()) {
+    void rollOverTasks(autoRollOverNotesDir, true);
+  }
+
+  async function replayJournal(undo: boolean): Promise<void> {
+    const result = undo ? await undoLastMutation() : await redoLastMutation();
+    if (result.status === "empty") {
+      vscode.window.showInformationMessage(t(undo ? "nothingToUndo" : "nothingToRedo"));
+      return;
+    }
+    if (result.status === "conflict") {
+      vscode.window.showWarningMessage(
+        t(undo ? "undoConflict" : "redoConflict", {
+          label: result.label,
+          name: path.basename(result.filePath),
+        }),
+      );
+      return;
+    }
+
+    vscode.window.setStatusBarMessage(
+      t(undo ? "undoneChange" : "redoneChange", { label: result.label }),
+      3000,
+    );
+    DashboardPanel.refresh();
+    refreshMoments();
+  }
+
+  const undoLastChangeDisposable = vscode.commands.registerCommand("notes.undoLastChange", () =>
+    replayJournal(true),
+  );
+
+  const redoLastChangeDisposable = vscode.commands.registerCommand("notes.redoLastChange", () =>
+    replayJournal(false),
+  );
+
   const archiveMomentsDisposable = vscode.commands.registerCommand(
     "notes.archiveMoments",
     async () => {
@@ -283,7 +458,11 @@ export function registerNotesCommands(
         return;
       }
 
-      const { archived, skipped } = await archiveMoments(notesDir);
+      const { archived, skipped } = await recordMutation(
+        t("journalArchiveMoments"),
+        getMomentsArchivePlanPaths(await listMomentsToArchive(notesDir)),
+        () => archiveMoments(notesDir),
+      );
       if (archived === 0) {
         vscode.window.showInformationMessage(t("noMomentsToArchive", { skipped }));
       } else {
@@ -293,6 +472,101 @@ export function registerNotesCommands(
     },
   );
 
+  const unarchiveMomentsDisposable = vscode.commands.registerCommand(
+    "notes.unarchiveMoments",
+    async () => {
+      const notesDir = await ensureNotesDirectory();
+      if (!notesDir) {
+        return;
+      }
+
+      const range = await promptMomentsRange(
+        t("unarchiveFromPrompt"),
+        t("unarchiveToPrompt"),
+        shiftDate(todayDateString(), -365),
+      );
+      if (!range) {
+        return;
+      }
+
+      const { from, to } = range;
+      const { restored, skipped } = await recordMutation(
+        t("journalUnarchiveMoments"),
+        getMomentsArchivePlanPaths(await listMomentsToUnarchive(notesDir, from, to)),
+        () => unarchiveMoments(notesDir, from, to),
+      );
+      if (restored === 0) {
+        vscode.window.showInformationMessage(t("noMomentsToUnarchive", { from, to, skipped }));
+      } else {
+        vscode.window.showInformationMessage(t("unarchivedMoments", { count: restored, skipped }));
+        refreshMoments();
+      }
+    },
+  );
+
+  const renameMomentsTagDisposable = vscode.commands.registerCommand(
+    "notes.renameMomentsTag",
+    async (tag?: string) => {
+      const notesDir = await ensureNotesDirectory();
+      if (!notesDir) {
+        return;
+      }
+
+      let from = typeof tag === "string" ? tag : undefined;
+      if (!from) {
+        const tags = await collectMomentsTagCounts(notesDir);
+        if (tags.length === 0) {
+          vscode.window.showInformationMessage(t("noMomentsTags"));
+          return;
+        }
+        const picked = await vscode.window.showQuickPick(
+          tags.map((item) => ({
+            label: item.tag,
+            description: t("momentsTagCount", { count: item.count }),
+          })),
+          { placeHolder: t("renameTagPickPlaceholder") },
+        );
+        from = picked?.label;
+      }
+      if (!from) {
+        return;
+      }
+
+      const source = from;
+      const input = await vscode.window.showInputBox({
+        prompt: t("renameTagPrompt", { tag: source }),
+        value: source,
+        validateInput: (value) => (isMomentTag(value.trim()) ? undefined : t("renameTagInvalid")),
+      });
+      const to = input?.trim();
+      if (!to || to === source) {
+        return;
+      }
+
+      const { count, files } = await recordMutation(
+        t("journalRenameMomentsTag"),
+        await listMomentsFiles(notesDir),
+        () => renameMomentsTag(notesDir, source, to),
+      );
+      vscode.window.showInformationMessage(
+        t("momentsTagRenamed", { from: source, to, count, files }),
+      );
+      if (count > 0) {
+        refreshMoments();
+      }
+    },
+  );
+
+  const exportMomentsDisposable = vscode.commands.registerCommand(
+    "notes.exportMoments",
+    async () => {
+      const notesDir = await ensureNotesDirectory();
+      if (notesDir) {
+        await exportMomentsRange(notesDir);
+      }
+    },
+  );
+
   return [
     runSetupDisposable,
     refreshDisposable,
@@ -300,6 +574,9 @@ export function registerNotesCommands(
     searchTagsDisposable,
     newNoteDisposable,
     listNotesDisposable,
+    renameNoteDisposable,
+    createLinkedNoteDisposable,
+    linkMentionDisposable,
     focusMomentsDisposable,
     showOpenTasksOverviewDisposable,
     openNoteFileDisposable,
@@ -309,7 +586,14 @@ export function registerNotesCommands(
     movePinnedNoteDownDisposable,
     openDailyNoteDisposable,
     openDashboardDisposable,
+    openDashboardViewDisposable,
     aiExtractTasksDisposable,
     archiveMomentsDisposable,
+    unarchiveMomentsDisposable,
+    renameMomentsTagDisposable,
+    exportMomentsDisposable,
+    rollOverTasksDisposable,
+    undoLastChangeDisposable,
+    redoLastChangeDisposable,
   ];
 }
@@ -1,9 +1,20 @@
 import * as fs from "fs/promises";
 import * as vscode from "vscode";
 import type { Memento, CancellationToken } from "vscode";
-import { TASK_RE, normalizeExtractedTaskIdentity, notesDirHash } from "./dashboardTaskUtils.js";
+import {
+  appendTaskMetadataTokens,
+  extractTaskMetadata,
+  type TaskPriority,
+} from "../shared/taskSyntax.js";
+import {
+  buildTaskMarkdownLine,
+  TASK_RE,
+  normalizeExtractedTaskIdentity,
+  notesDirHash,
+} from "./dashboardTaskUtils.js";
 import { extractJsonPayload } from "./aiTaskProcessor.js";
 import { t } from "./i18n.js";
+import { recordMutation } from "./mutationJournal.js";
 
 export interface AiTaskEnrichment {
   category: string;
@@ -40,11 +51,56 @@ export function saveAiTaskEnrichment(
   void stateStore.update(storageKey, all);
 }
 
+const TASK_PRIORITIES = new Set<string>(["high", "medium", "low"]);
+
+/**
+ * Persists AI enrichment as inline tokens (`!high ~30m category:work`) on the open task
+ * lines it belongs to. Fields the line already carries are left untouched. Returns true
+ * when any line changed.
+ */
+export function applyAiEnrichmentsToLines(
+  lines: string[],
+  enrichments: Record<string, Omit<AiTaskEnrichment, "enrichedAt">>,
+): boolean {
+  let changed = false;
+  for (let i = 0; i < lines.length; i++) {
+    const match = TASK_RE.exec(lines[i]);
+    if (!match || match[2].toLowerCase() === "x") {
+      continue;
+    }
+
+    const text = match[3].trim();
+    const enrichment = enrichments[normalizeExtractedTaskIdentity(text)];
+    if (!enrichment) {
+      continue;
+    }
+
+    const nextText = appendTaskMetadataTokens(text, {
+      priority: TASK_PRIORITIES.has(enrichment.priority)
+        ? (enrichment.priority as TaskPriority)
+        : null,
+      timeEstimateMin: enrichment.timeEstimateMin,
+      category: /^[\w-]+$/.test(enrichment.category) ? enrichment.category : null,
+    });
+    if (nextText !== text) {
+      lines[i] = buildTaskMarkdownLine(false, nextText, match[1]);
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+function hasCompleteInlineMetadata(text: string): boolean {
+  const metadata = extractTaskMetadata(text);
+  return Boolean(metadata.priority && metadata.category && metadata.timeEstimateMin !== null);
+}
+
 export async function enrichTasksInFile(
   filePath: string,
   notesDir: string,
   stateStore: Memento,
   token: CancellationToken,
+  writeBack = false,
 ): Promise<void> {
   try {
     const content = await fs.readFile(filePath, "utf8");
@@ -57,11 +113,16 @@ export async function enrichTasksInFile(
     for (const line of lines) {
       const match = TASK_RE.exec(line);
       if (match) {
-        const isDone = match[1].toLowerCase() === "x";
+        const isDone = match[2].toLowerCase() === "x";
         if (!isDone) {
-          const text = match[2].trim();
+          const text = match[3].trim();
           const key = normalizeExtractedTaskIdentity(text);
-          if (key && !allEnrichments[key] && !seenKeys.has(key)) {
+          if (
+            key &&
+            !allEnrichments[key] &&
+            !seenKeys.has(key) &&
+            !hasCompleteInlineMetadata(text)
+          ) {
             seenKeys.add(key);
             tasksToEnrich.push(text);
           }
@@ -94,6 +155,7 @@ export async function enrichTasksInFile(
 
     const payload = extractJsonPayload(raw);
     const parsed = JSON.parse(payload);
+    const results: Record<string, Omit<AiTaskEnrichment, "enrichedAt">> = {};
     if (Array.isArray(parsed)) {
       for (const item of parsed) {
         if (item && typeof item === "object" && typeof item.text === "string") {
@@ -103,14 +165,26 @@ export async function enrichTasksInFile(
           const timeEstimateMin =
             typeof item.timeEstimateMin === "number" ? item.timeEstimateMin : 0;
 
-          saveAiTaskEnrichment(stateStore, notesDir, key, {
-            category,
-            priority,
-            timeEstimateMin,
-          });
+          results[key] = { category, priority, timeEstimateMin };
+          saveAiTaskEnrichment(stateStore, notesDir, key, results[key]);
         }
       }
     }
+
+    // A disk write would clash with unsaved edits, so a dirty file keeps the enrichment in
+    // the dashboard state only.
+    const dirty = vscode.workspace.textDocuments.some(
+      (doc) => doc.uri.fsPath === filePath && doc.isDirty,
+    );
+    if (writeBack && !dirty && Object.keys(results).length > 0) {
+      await recordMutation(t("journalEnrichTasks"), [filePath], async () => {
+        // Re-read: the file may have been edited while the model was answering.
+        const latestLines = (await fs.readFile(filePath, "utf8")).split("\n");
+        if (applyAiEnrichmentsToLines(latestLines, results)) {
+          await fs.writeFile(filePath, latestLines.join("\n"), "utf8");
+        }
+      });
+    }
   } catch (e) {
     console.error("Failed to auto-enrich tasks in file:", e);
   }
@@ -37,6 +37,11 @@ export function buildCategoryCounts(tasks: DashboardTaskView[]): Record<string,
       continue;
     }
 
+    if (task.category && task.category in counts) {
+      counts[task.category]++;
+      continue;
+    }
+
     let matched = false;
     for (const tag of task.tags) {
       const normalized = tag.replace("#", "").toLowerCase();
@@ -0,0 +1,38 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { DashboardCalendarMarks } from "./dashboardTypes.js";
+import { listArchivedMomentDays } from "./moments/archive.js";
+
+const DAILY_NOTE_FILE_RE = /^(\d{4}-\d{2}-\d{2})_daily\.md$/;
+const MOMENTS_FILE_RE = /^(\d{4}-\d{2}-\d{2})\.md$/;
+
+async function listDatedFiles(dir: string, pattern: RegExp): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile())
+      .map((entry) => pattern.exec(entry.name)?.[1])
+      .filter((date): date is string => Boolean(date))
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Dates that have a `YYYY-MM-DD_daily.md` note or a Moments file, for the calendar markers.
+ * With `includeArchive`, archived Moments days are marked too.
+ */
+export async function collectCalendarMarks(
+  notesDir: string,
+  momentsSubfolder: string,
+  includeArchive = false,
+): Promise<DashboardCalendarMarks> {
+  const momentsDir = path.join(notesDir, momentsSubfolder);
+  const [dailyNotes, moments, archived] = await Promise.all([
+    listDatedFiles(notesDir, DAILY_NOTE_FILE_RE),
+    listDatedFiles(momentsDir, MOMENTS_FILE_RE),
+    includeArchive ? listArchivedMomentDays(momentsDir) : new Map<string, unknown>(),
+  ]);
+  return { dailyNotes, moments: [...new Set([...moments, ...archived.keys()])].sort() };
+}
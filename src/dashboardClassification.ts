@@ -1,3 +1,4 @@
+import { getNextOccurrenceDate } from "../shared/taskSyntax.js";
 import type {
   DashTask,
   DashboardTaskSection,
@@ -11,6 +12,25 @@ import {
   todayDateString,
 } from "./dashboardTaskUtils.js";
 
+/**
+ * The date a task counts toward. Open recurring tasks without any date are projected onto
+ * their first occurrence, which starts today (or the next weekday for weekday rules).
+ */
+function getEffectiveTaskDate(task: DashTask, today: string): string | null {
+  const date = task.dueDate ?? task.date;
+  if (date || task.done || !task.recurrence) {
+    return date;
+  }
+
+  if (task.recurrence.unit === "weekday") {
+    const day = new Date(`${today}T00:00:00`).getDay();
+    if (day === 0 || day === 6) {
+      return getNextOccurrenceDate(today, { ...task.recurrence, interval: 1 });
+    }
+  }
+  return today;
+}
+
 export function buildUpcomingWeek(tasks: DashTask[], today = todayDateString()): WeekDay[] {
   const days: WeekDay[] = [];
   const labels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
@@ -26,21 +46,35 @@ export function buildUpcomingWeek(tasks: DashTask[], today = todayDateString()):
   }
 
   const weekDaysByDate = new Map(days.map((day) => [day.date, day]));
+  const lastDate = days[days.length - 1].date;
   for (const task of tasks) {
-    const effectiveDate = task.dueDate ?? task.date;
+    const effectiveDate = getEffectiveTaskDate(task, today);
     if (!effectiveDate) {
       continue;
     }
 
     const day = weekDaysByDate.get(effectiveDate);
-    if (!day) {
-      continue;
+    if (day) {
+      if (task.done) {
+        day.done++;
+      } else {
+        day.open++;
+      }
     }
 
-    if (task.done) {
-      day.done++;
-    } else {
-      day.open++;
+    // Project the future occurrences of open recurring tasks into the week.
+    if (task.done || !task.recurrence) {
+      continue;
+    }
+    for (
+      let occurrence = getNextOccurrenceDate(effectiveDate, task.recurrence);
+      occurrence <= lastDate;
+      occurrence = getNextOccurrenceDate(occurrence, task.recurrence)
+    ) {
+      const projectedDay = occurrence >= today ? weekDaysByDate.get(occurrence) : undefined;
+      if (projectedDay) {
+        projectedDay.open++;
+      }
     }
   }
 
@@ -56,7 +90,7 @@ export function classifyDashboardTask(
     return "done";
   }
 
-  const effectiveDate = task.dueDate ?? task.date;
+  const effectiveDate = getEffectiveTaskDate(task, today);
   if (!effectiveDate) {
     return "backlog";
   }
@@ -113,7 +147,7 @@ export function buildDashboardTaskViews(tasks: DashTask[], today: string): Dashb
   return tasks
     .map((task): DashboardTaskView => {
       const relativePath = getRelativePathFromTaskId(task.id, task.filePath);
-      const effectiveDate = task.dueDate ?? task.date;
+      const effectiveDate = getEffectiveTaskDate(task, today);
       return {
         ...task,
         kind: "task",
@@ -8,6 +8,7 @@ import {
   type ExtractedTaskWithSource,
   type NoteContent,
 } from "./aiTaskProcessor.js";
+import { MOMENT_TIME_PATTERN } from "../shared/momentSyntax.js";
 import { collectTasksFromNotes } from "./dashboardTaskCollector.js";
 import {
   buildExtractedTaskFailureMessage,
@@ -16,8 +17,12 @@ import {
   formatDateString,
 } from "./dashboardTaskUtils.js";
 import { t } from "./i18n.js";
+import { listArchivedMomentDays, readArchivedMomentsDayContent } from "./moments/archive.js";
+import { getMomentsIncludeArchiveSetting } from "./notesConfig.js";
 import type { DashTask, DashboardCandidateTask, DismissedExtractedTask } from "./dashboardTypes.js";
 
+const MOMENT_LINE_PREFIX_RE = new RegExp(String.raw`^- (${MOMENT_TIME_PATTERN} )?`);
+
 export function buildMomentsCandidateSummary(dayCount: number, candidateCount: number): string {
   return t("extractedMomentsCount", { days: dayCount, count: candidateCount });
 }
@@ -57,11 +62,15 @@ export async function collectDashboardMomentsText(
   momentsSubfolder: string,
   fromDate: string,
   toDate: string,
+  includeArchive = false,
 ): Promise<{ combinedText: string; datesWithContent: string[] }> {
   const allCleanTexts: string[] = [];
   const datesWithContent: string[] = [];
   const startDate = parseLocalDate(fromDate);
   const endDate = parseLocalDate(toDate);
+  const archivedDays = includeArchive
+    ? await listArchivedMomentDays(path.join(notesDir, momentsSubfolder))
+    : new Map();
 
   for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
     const dateStr = formatDateString(d);
@@ -71,14 +80,19 @@ export async function collectDashboardMomentsText(
     try {
       content = await fs.readFile(momentsFile, "utf8");
     } catch {
-      continue;
+      const archived = archivedDays.get(dateStr);
+      const archivedContent = archived ? await readArchivedMomentsDayContent(archived) : null;
+      if (archivedContent === null) {
+        continue;
+      }
+      content = archivedContent;
     }
 
     const body = content.replace(/^---[\s\S]*?---\s*/m, "").trim();
     const cleanText = body
       .split("\n")
       .filter((line) => line.startsWith("- "))
-      .map((line) => line.replace(/^- (\d{2}:\d{2} )?/, "").trim())
+      .map((line) => line.replace(MOMENT_LINE_PREFIX_RE, "").trim())
       .filter(Boolean)
       .join("\n");
 
@@ -160,6 +174,7 @@ export async function extractDashboardMomentsCandidates({
   dismissedTasks,
   extractTasksFromText = extractTasksFromTextWithStatus,
   collectExistingTasks = collectTasksFromNotes,
+  includeArchive = getMomentsIncludeArchiveSetting(),
 }: {
   notesDir: string;
   momentsSubfolder: string;
@@ -170,12 +185,14 @@ export async function extractDashboardMomentsCandidates({
   dismissedTasks: DismissedExtractedTask[];
   extractTasksFromText?: ExtractTasksFromTextFn;
   collectExistingTasks?: CollectExistingTasksFn;
+  includeArchive?: boolean;
 }): Promise<DashboardExtractionResult> {
   const { combinedText, datesWithContent } = await collectDashboardMomentsText(
     notesDir,
     momentsSubfolder,
     fromDate,
     toDate,
+    includeArchive,
   );
 
   if (!combinedText) {
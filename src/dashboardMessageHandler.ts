@@ -1,21 +1,42 @@
 import * as fs from "fs/promises";
+import * as path from "path";
 import * as vscode from "vscode";
+import { getDailyNoteFilePath } from "../shared/noteFilename.js";
+import { normalizeTaskTag } from "../shared/taskSyntax.js";
 import {
   extractDashboardMomentsCandidates,
   extractDashboardNotesCandidates,
 } from "./dashboardExtraction.js";
+import { matchesDashboardQuery, parseDashboardQuery } from "./dashboardQuery.js";
+import { deleteView, loadSavedViews, saveView } from "./dashboardSavedViews.js";
 import {
+  applyDashboardBulkOperation,
   createDashboardTask,
   deleteDashboardTask,
+  type DashboardBulkOperation,
   hasExistingDashboardTask,
   toggleDashboardTask,
   updateDashboardTask,
 } from "./dashboardTaskPersistence.js";
-import { isPathInside, normalizeOptionalDate } from "./dashboardTaskUtils.js";
+import {
+  isPathInside,
+  normalizeOptionalDate,
+  resolveDashboardTaskFile,
+  resolveTaskRef,
+  todayDateString,
+} from "./dashboardTaskUtils.js";
 import { t } from "./i18n.js";
-import type { DashboardCandidateAddAck } from "./dashboardTypes.js";
+import type { DashboardCandidateAddAck, DashboardTaskView } from "./dashboardTypes.js";
 import type { loadDismissedExtractedTasks } from "./dashboardDismissedTasks.js";
-import { getMomentsSubfolderSetting } from "./notesConfig.js";
+import { findMomentsDayFile } from "./moments/fileIo.js";
+import { openDailyNote } from "./noteCommands.js";
+import {
+  getDailyNoteTemplateSetting,
+  getDashboardCompleteSubtasksSetting,
+  getMomentsSubfolderSetting,
+} from "./notesConfig.js";
+import { getNotesSearchIndex } from "./notesSearchIndex.js";
+import { recordMutation } from "./mutationJournal.js";
 
 export interface DashboardMessageHandlerDeps {
   getNotesDir: () => string | undefined;
@@ -34,6 +55,8 @@ export interface DashboardMessageHandlerDeps {
   dismissExtractedTaskInStore: (notesDir: string, text: string) => void;
   /** Loads dismissed extracted tasks from the store. */
   loadDismissed: () => ReturnType<typeof loadDismissedExtractedTasks>;
+  /** The task views of the last render, which dashboard query filters are evaluated against. */
+  getTaskViews: () => DashboardTaskView[];
   /** Optional test hook for task creation persistence. */
   createTask?: typeof createDashboardTask;
   /** Optional test hook for duplicate detection. */
@@ -65,24 +88,284 @@ export function createDashboardMessageHandler(deps: DashboardMessageHandlerDeps)
     });
   }
 
+  /** The task moved away or its text changed on disk: tell the user and re-sync. */
+  function _reportStaleTask(): void {
+    void vscode.window.showWarningMessage(t("taskChangedOnDisk"));
+    void deps.onRefresh();
+  }
+
+  /** Files the given tasks live in, for the undo journal. */
+  function _taskFiles(notesDir: string, taskIds: string[]): string[] {
+    return taskIds.flatMap((taskId) => resolveTaskRef(notesDir, taskId)?.filePath ?? []);
+  }
+
   async function _toggleTask(taskId: string, done: boolean): Promise<void> {
     const notesDir = deps.getNotesDir();
     if (!notesDir) {
       return;
     }
 
-    if (await toggleDashboardTask(notesDir, taskId, done)) {
+    const toggled = await recordMutation(
+      t(done ? "journalCompleteTask" : "journalReopenTask"),
+      _taskFiles(notesDir, [taskId]),
+      () => toggleDashboardTask(notesDir, taskId, done, getDashboardCompleteSubtasksSetting()),
+    );
+    if (toggled) {
       void deps.onRefresh();
+    } else {
+      _reportStaleTask();
     }
   }
 
+  /**
+   * Applies a board drag: `done` goes through the toggle (so recurrence and subtasks behave as
+   * with the checkbox), then `dueDate` (null clears it) rewrites the task line.
+   */
+  async function _moveTask(
+    taskId: string,
+    done: boolean | undefined,
+    dueDate: string | null | undefined,
+  ): Promise<void> {
+    const notesDir = deps.getNotesDir();
+    if (!notesDir) {
+      return;
+    }
+
+    // Both writes form one journal entry, so a single undo reverts the whole drop.
+    const moved = await recordMutation(
+      t("journalMoveTask"),
+      _taskFiles(notesDir, [taskId]),
+      async () => {
+        if (
+          done !== undefined &&
+          !(await toggleDashboardTask(
+            notesDir,
+            taskId,
+            done,
+            getDashboardCompleteSubtasksSetting(),
+          ))
+        ) {
+          return false;
+        }
+        if (dueDate === undefined) {
+          return true;
+        }
+        const task = deps.getTaskViews().find((view) => view.id === taskId);
+        const result = task
+          ? await updateDashboardTask(notesDir, taskId, task.text, dueDate)
+          : "missing";
+        return result === "updated";
+      },
+    );
+    if (!moved) {
+      _reportStaleTask();
+      return;
+    }
+
+    void deps.onRefresh();
+  }
+
+  /**
+   * Answers a search box query with matching task ids: words are ranked by the notes search
+   * index, and query filters (`tag:`, `due<+7d`, `-done`, …) narrow the rendered tasks.
+   */
+  async function _searchTasks(query: string): Promise<void> {
+    const notesDir = deps.getNotesDir();
+    if (!notesDir) {
+      return;
+    }
+
+    const parsed = parseDashboardQuery(query, todayDateString());
+    let ids: string[] | null = null;
+    if (parsed.text) {
+      const index = await getNotesSearchIndex(notesDir, getMomentsSubfolderSetting());
+      ids = index.search(parsed.text, { kinds: ["task"] }).map((hit) => hit.document.id);
+    }
+    if (parsed.clauses.length > 0) {
+      const matching = deps
+        .getTaskViews()
+        .filter((task) => matchesDashboardQuery(task, parsed.clauses))
+        .map((task) => task.id);
+      const matchingIds = new Set(matching);
+      ids = ids ? ids.filter((id) => matchingIds.has(id)) : matching;
+    }
+
+    void deps.postMessage({ type: "taskSearchResults", query, ids: ids ?? [] });
+  }
+
+  /** Asks for a name and saves the query as a dashboard view tab. */
+  async function _saveView(query: string): Promise<void> {
+    const notesDir = deps.getNotesDir();
+    if (!notesDir || !query.trim()) {
+      return;
+    }
+
+    const existing = loadSavedViews(deps.stateStore, notesDir).find(
+      (view) => view.query === query.trim(),
+    );
+    const name = await vscode.window.showInputBox({
+      prompt: t("saveViewPrompt"),
+      placeHolder: t("saveViewPlaceholder"),
+      value: existing?.name ?? "",
+      validateInput: (value) => (value.trim() ? null : t("viewNameEmpty")),
+    });
+    if (!name?.trim()) {
+      return;
+    }
+
+    await saveView(deps.stateStore, notesDir, { name, query });
+    void deps.onRefresh();
+  }
+
+  async function _deleteView(name: string): Promise<void> {
+    const notesDir = deps.getNotesDir();
+    if (!notesDir) {
+      return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      t("deleteViewConfirm", { name }),
+      t("deleteBtn"),
+      t("cancelBtn"),
+    );
+    if (confirm !== t("deleteBtn")) {
+      return;
+    }
+
+    await deleteView(deps.stateStore, notesDir, name);
+    void deps.onRefresh();
+  }
+
+  /**
+   * Asks for whatever a bulk action still needs (tag, target file, confirmation) and turns
+   * it into an operation; undefined when the user cancels.
+   */
+  async function _promptBulkOperation(
+    notesDir: string,
+    taskIds: string[],
+    action: string,
+    dueDate: string | null,
+  ): Promise<DashboardBulkOperation | undefined> {
+    const selected = deps.getTaskViews().filter((task) => taskIds.includes(task.id));
+    switch (action) {
+      case "complete":
+        return { kind: "complete" };
+
+      case "reschedule":
+        return { kind: "reschedule", dueDate };
+
+      case "addTag": {
+        const tag = await vscode.window.showInputBox({
+          prompt: t("bulkAddTagPrompt", { count: taskIds.length }),
+          placeHolder: "#project",
+          validateInput: (value) => (normalizeTaskTag(value) ? null : t("bulkTagInvalid")),
+        });
+        const normalized = tag ? normalizeTaskTag(tag) : null;
+        return normalized ? { kind: "addTag", tag: normalized } : undefined;
+      }
+
+      case "removeTag": {
+        const tags = [...new Set(selected.flatMap((task) => task.tags))].sort();
+        if (tags.length === 0) {
+          void vscode.window.showInformationMessage(t("bulkNoTags"));
+          return undefined;
+        }
+        const tag = await vscode.window.showQuickPick(tags, {
+          placeHolder: t("bulkRemoveTagPlaceholder", { count: taskIds.length }),
+        });
+        return tag ? { kind: "removeTag", tag } : undefined;
+      }
+
+      case "move": {
+        // The inbox and today's task file are offered even before they exist.
+        const created = new Map(
+          [null, todayDateString()].map((date) => [
+            path.relative(notesDir, resolveDashboardTaskFile(notesDir, date)),
+            date,
+          ]),
+        );
+        const files = [
+          ...new Set([...created.keys(), ...deps.getTaskViews().map((task) => task.relativePath)]),
+        ];
+        const targetFile = await vscode.window.showQuickPick(files.sort(), {
+          placeHolder:
+            taskIds.length === 1
+              ? t("moveTaskPlaceholder")
+              : t("bulkMovePlaceholder", { count: taskIds.length }),
+        });
+        if (!targetFile) {
+          return undefined;
+        }
+        // Created within the journaled bulk operation, so undo removes it again.
+        return created.has(targetFile)
+          ? { kind: "move", targetFile, createDate: created.get(targetFile) ?? null }
+          : { kind: "move", targetFile };
+      }
+
+      case "delete": {
+        const confirm = await vscode.window.showWarningMessage(
+          t("bulkDeleteConfirm", { count: taskIds.length }),
+          t("deleteBtn"),
+          t("cancelBtn"),
+        );
+        return confirm === t("deleteBtn") ? { kind: "delete" } : undefined;
+      }
+    }
+    return undefined;
+  }
+
+  /** Applies one action to every selected task, rewriting each affected file once. */
+  async function _bulkTasks(
+    taskIds: string[],
+    action: string,
+    dueDate: string | null,
+  ): Promise<void> {
+    const notesDir = deps.getNotesDir();
+    if (!notesDir || taskIds.length === 0) {
+      return;
+    }
+
+    const operation = await _promptBulkOperation(notesDir, taskIds, action, dueDate);
+    if (!operation) {
+      return;
+    }
+
+    const files = _taskFiles(notesDir, taskIds);
+    if (operation.kind === "move") {
+      files.push(path.resolve(notesDir, operation.targetFile));
+    }
+    const result = await recordMutation(
+      taskIds.length === 1 && operation.kind === "move"
+        ? t("journalMoveTaskToFile")
+        : t("journalBulkTasks", { count: taskIds.length }),
+      files,
+      () =>
+        applyDashboardBulkOperation(
+          notesDir,
+          taskIds,
+          operation,
+          getDashboardCompleteSubtasksSetting(),
+        ),
+    );
+    if (result.missing > 0 && taskIds.length === 1) {
+      _reportStaleTask();
+      return;
+    }
+    if (result.missing > 0) {
+      void vscode.window.showWarningMessage(t("bulkTasksSkipped", { count: result.missing }));
+    }
+    void deps.onRefresh();
+  }
+
   async function _updateTask(taskId: string, text: string, dueDate: string | null): Promise<void> {
     const notesDir = deps.getNotesDir();
     if (!notesDir) {
       return;
     }
 
-    const result = await updateDashboardTask(notesDir, taskId, text, dueDate);
+    const result = await recordMutation(t("journalEditTask"), _taskFiles(notesDir, [taskId]), () =>
+      updateDashboardTask(notesDir, taskId, text, dueDate),
+    );
     if (result === "invalid-text") {
       void vscode.window.showErrorMessage(t("taskTextEmpty"));
       return;
@@ -90,6 +373,8 @@ export function createDashboardMessageHandler(deps: DashboardMessageHandlerDeps)
 
     if (result === "updated") {
       void deps.onRefresh();
+    } else {
+      _reportStaleTask();
     }
   }
 
@@ -99,8 +384,15 @@ export function createDashboardMessageHandler(deps: DashboardMessageHandlerDeps)
       return;
     }
 
-    if (await deleteDashboardTask(notesDir, taskId)) {
+    const deleted = await recordMutation(
+      t("journalDeleteTask"),
+      _taskFiles(notesDir, [taskId]),
+      () => deleteDashboardTask(notesDir, taskId),
+    );
+    if (deleted) {
       void deps.onRefresh();
+    } else {
+      _reportStaleTask();
     }
   }
 
@@ -115,7 +407,11 @@ export function createDashboardMessageHandler(deps: DashboardMessageHandlerDeps)
     }
 
     const createTask = deps.createTask ?? createDashboardTask;
-    const result = await createTask(notesDir, text, targetDate, dueDate);
+    const result = await recordMutation(
+      t("journalAddTask"),
+      [resolveDashboardTaskFile(notesDir, targetDate)],
+      () => createTask(notesDir, text, targetDate, dueDate),
+    );
     if (result === "invalid-text") {
       void vscode.window.showErrorMessage(t("taskTextEmpty"));
       return false;
@@ -187,6 +483,51 @@ export function createDashboardMessageHandler(deps: DashboardMessageHandlerDeps)
     editor.revealRange(new vscode.Range(position, position));
   }
 
+  /**
+   * Opens the file holding a day's Moments, at the day's `## YYYY-MM-DD` heading when it is
+   * a monthly or yearly archive. Returns false when the day has no Moments.
+   */
+  async function _openMomentsDay(notesDir: string, date: string): Promise<boolean> {
+    const filePath = await findMomentsDayFile(notesDir, date);
+    if (!filePath) {
+      return false;
+    }
+
+    const doc = await vscode.workspace.openTextDocument(filePath);
+    const editor = await vscode.window.showTextDocument(doc, { preview: true });
+    const line = doc.getText().split("\n").indexOf(`## ${date}`);
+    if (line >= 0) {
+      const position = new vscode.Position(line, 0);
+      editor.selection = new vscode.Selection(position, position);
+      editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.AtTop);
+    }
+    return true;
+  }
+
+  /** Opens the day's daily note, else its Moments file, else creates the daily note. */
+  async function _openCalendarDay(date: string): Promise<void> {
+    const notesDir = deps.getNotesDir();
+    if (!notesDir) {
+      return;
+    }
+
+    const dailyNotePath = getDailyNoteFilePath(notesDir, date);
+    try {
+      await fs.access(dailyNotePath);
+      const doc = await vscode.workspace.openTextDocument(dailyNotePath);
+      await vscode.window.showTextDocument(doc, { preview: true });
+      return;
+    } catch {
+      // No daily note; fall back to the day's Moments.
+    }
+    if (await _openMomentsDay(notesDir, date)) {
+      return;
+    }
+
+    await openDailyNote(notesDir, getDailyNoteTemplateSetting(), new Date(`${date}T00:00:00`));
+    void deps.onRefresh();
+  }
+
   async function _runCandidateExtraction(options: {
     fromDate: string;
     toDate: string;
@@ -282,6 +623,72 @@ export function createDashboardMessageHandler(deps: DashboardMessageHandlerDeps)
         return;
       }
 
+      case "moveTask": {
+        if (typeof message.taskId !== "string") {
+          return;
+        }
+        void _moveTask(
+          message.taskId,
+          typeof message.done === "boolean" ? message.done : undefined,
+          "dueDate" in message
+            ? normalizeOptionalDate(message.dueDate as string | null | undefined)
+            : undefined,
+        );
+        return;
+      }
+
+      case "bulkTasks": {
+        if (!Array.isArray(message.taskIds) || typeof message.action !== "string") {
+          return;
+        }
+        void _bulkTasks(
+          message.taskIds.filter((taskId): taskId is string => typeof taskId === "string"),
+          message.action,
+          normalizeOptionalDate(message.dueDate as string | null | undefined),
+        );
+        return;
+      }
+
+      case "undoChange":
+        void vscode.commands.executeCommand("notes.undoLastChange");
+        return;
+
+      case "redoChange":
+        void vscode.commands.executeCommand("notes.redoLastChange");
+        return;
+
+      case "moveTaskToFile": {
+        if (typeof message.taskId !== "string") {
+          return;
+        }
+        void _bulkTasks([message.taskId], "move", null);
+        return;
+      }
+
+      case "searchTasks": {
+        if (typeof message.query !== "string") {
+          return;
+        }
+        void _searchTasks(message.query);
+        return;
+      }
+
+      case "saveView": {
+        if (typeof message.query !== "string") {
+          return;
+        }
+        void _saveView(message.query);
+        return;
+      }
+
+      case "deleteView": {
+        if (typeof message.name !== "string") {
+          return;
+        }
+        void _deleteView(message.name);
+        return;
+      }
+
       case "openFile": {
         if (typeof message.filePath !== "string" || typeof message.lineIndex !== "number") {
           return;
@@ -290,6 +697,25 @@ export function createDashboardMessageHandler(deps: DashboardMessageHandlerDeps)
         return;
       }
 
+      case "openCalendarDay": {
+        const date = normalizeOptionalDate(message.date);
+        if (!date) {
+          return;
+        }
+        void _openCalendarDay(date);
+        return;
+      }
+
+      case "openMomentsDay": {
+        const notesDir = deps.getNotesDir();
+        const date = normalizeOptionalDate(message.date);
+        if (!notesDir || !date) {
+          return;
+        }
+        void _openMomentsDay(notesDir, date);
+        return;
+      }
+
       case "createTask": {
         if (typeof message.text !== "string") {
           return;
@@ -8,15 +8,20 @@ import {
 import { buildDashboardLoadingHtml, buildDashboardPanelHtml } from "./dashboardPanelHtml.js";
 import { shiftDate, todayDateString } from "./dashboardTaskUtils.js";
 import { resolveLocale } from "./i18n.js";
-import type { DashboardData } from "./dashboardTypes.js";
-import { getMomentsSubfolderSetting } from "./notesConfig.js";
+import type { DashboardData, DashboardTaskView } from "./dashboardTypes.js";
+import { onDidChangeMutationJournal } from "./mutationJournal.js";
+import { getMomentsIncludeArchiveSetting, getMomentsSubfolderSetting } from "./notesConfig.js";
 
 import { loadAllAiTaskEnrichments } from "./dashboardAiEnrichment.js";
 import { buildCategoryCounts, buildSectionCounts, buildSummary } from "./dashboardAnalytics.js";
+import { collectCalendarMarks } from "./dashboardCalendar.js";
 import { buildDashboardTaskViews, buildUpcomingWeek } from "./dashboardClassification.js";
 import { dismissExtractedTask as dismissExtractedTaskInStore } from "./dashboardDismissedTasks.js";
+import { loadSavedViews } from "./dashboardSavedViews.js";
 import { collectTasksFromNotes } from "./dashboardTaskCollector.js";
 import { normalizeExtractedTaskIdentity } from "./dashboardTaskUtils.js";
+import { momentsTodayDateString } from "./moments/config.js";
+import { collectMomentsStats } from "./moments/stats.js";
 
 // ---------------------------------------------------------------------------
 // Dashboard Panel class
@@ -35,6 +40,7 @@ export class DashboardPanel {
   private _cancelToken: vscode.CancellationTokenSource | undefined;
   private _initialized = false;
   private _readyPromise: Promise<void> | undefined;
+  private _taskViews: DashboardTaskView[] = [];
 
   static createOrShow(
     getNotesDir: () => string | undefined,
@@ -70,6 +76,11 @@ export class DashboardPanel {
     DashboardPanel._statusListener = cb;
   }
 
+  /** Shows the tasks matching a saved view's query in the open dashboard. */
+  static showView(query: string): void {
+    void DashboardPanel._instance?._panel.webview.postMessage({ type: "applyView", query });
+  }
+
   static runAiExtract(fromDate?: string, toDate?: string): void {
     if (DashboardPanel._instance) {
       const today = todayDateString();
@@ -103,6 +114,7 @@ export class DashboardPanel {
       dismissExtractedTaskInStore: (notesDir, text) =>
         dismissExtractedTaskInStore(this._stateStore, notesDir, text),
       loadDismissed: () => loadDismissedExtractedTasks(this._stateStore, this._getNotesDir()!),
+      getTaskViews: () => this._taskViews,
     };
 
     const handler = createDashboardMessageHandler(deps);
@@ -115,6 +127,11 @@ export class DashboardPanel {
       null,
       this._disposables,
     );
+    this._disposables.push(
+      onDidChangeMutationJournal((event) => {
+        void this._panel.webview.postMessage({ type: "journal", ...event });
+      }),
+    );
 
     // Kick off the first render immediately so `createOrShow` can await it.
     this._readyPromise = this._update();
@@ -146,15 +163,16 @@ export class DashboardPanel {
     const tasks = await collectTasksFromNotes(notesDir, momentsSubfolder);
 
     const enrichments = loadAllAiTaskEnrichments(this._stateStore, notesDir);
+    // Inline Markdown metadata wins over AI results cached in globalState.
     const enrichedTasks = tasks.map((task) => {
       const key = normalizeExtractedTaskIdentity(task.text);
       const enrich = enrichments[key];
       if (enrich) {
         return {
           ...task,
-          category: enrich.category,
-          priority: enrich.priority,
-          timeEstimateMin: enrich.timeEstimateMin,
+          category: task.category ?? enrich.category,
+          priority: task.priority ?? enrich.priority,
+          timeEstimateMin: task.timeEstimateMin ?? enrich.timeEstimateMin,
         };
       }
       return task;
@@ -162,6 +180,7 @@ export class DashboardPanel {
 
     const week = buildUpcomingWeek(enrichedTasks, today);
     const taskViews = buildDashboardTaskViews(enrichedTasks, today);
+    this._taskViews = taskViews;
     const sectionCounts = buildSectionCounts(taskViews);
     const catCount = buildCategoryCounts(taskViews);
     const summary = buildSummary(taskViews, sectionCounts);
@@ -176,6 +195,13 @@ export class DashboardPanel {
       sectionCounts,
       summary,
       availableModels: availableModels.map((m) => ({ id: m.id, name: m.name })),
+      savedViews: loadSavedViews(this._stateStore, notesDir),
+      calendar: await collectCalendarMarks(
+        notesDir,
+        momentsSubfolder,
+        getMomentsIncludeArchiveSetting(),
+      ),
+      momentsStats: await collectMomentsStats(notesDir, momentsTodayDateString()),
     };
 
     if (!this._initialized) {
@@ -106,14 +106,19 @@ export function buildDashboardPanelHtml(data: DashboardData): string {
     <section class="dash-list-bar" id="dash-list-bar">
       <label class="search-shell" aria-label="${escAttr(t("searchTasksPlaceholder"))}">
         <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="search-icon"><circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line></svg>
-        <input id="task-search" type="search" placeholder="${escAttr(t("searchTasksPlaceholder"))}" />
+        <input id="task-search" type="search" placeholder="${escAttr(t("searchTasksPlaceholder"))}" title="${escAttr(t("searchQueryHint"))}" />
       </label>
       <div class="filter-row" id="filter-row"></div>
+      <div class="layout-switch" id="layout-switch"></div>
     </section>
 
+    <nav class="view-tabs" id="view-tabs" role="tablist"></nav>
+    <section class="bulk-bar" id="bulk-bar" hidden></section>
+
     <section class="list-surface">
       <div class="dashboard-main-list" id="dashboard-main-list"></div>
     </section>
+    <div class="undo-toast" id="undo-toast" role="status" hidden></div>
   </div>
 
 <script nonce="${nonce}">${i18nScript}</script>
@@ -0,0 +1,199 @@
+import { normalizeForSearch } from "../shared/searchIndex.js";
+import type { DashboardTaskView } from "./dashboardTypes.js";
+import { shiftDate } from "./dashboardTaskUtils.js";
+
+export type DashboardQueryField =
+  | "text"
+  | "tag"
+  | "path"
+  | "status"
+  | "is"
+  | "due"
+  | "date"
+  | "priority"
+  | "category";
+
+export type DashboardQueryOperator = ":" | "=" | "<" | "<=" | ">" | ">=";
+
+export interface DashboardQueryClause {
+  field: DashboardQueryField;
+  operator: DashboardQueryOperator;
+  /** Lower-case value; `due` / `date` comparisons hold a resolved `YYYY-MM-DD`. */
+  value: string;
+  negated: boolean;
+}
+
+export interface ParsedDashboardQuery {
+  /** Words and quoted phrases, ranked by the notes search index. */
+  text: string;
+  /** Structured filters, all of which a task must satisfy. */
+  clauses: DashboardQueryClause[];
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const RELATIVE_DATE_RE = /^([+-])(\d+)([dw])$/;
+const CLAUSE_RE = /^(tag|path|is|due|date|priority|category)(:|<=|>=|<|>|=)(.+)$/;
+const IS_VALUES = new Set(["done", "open", "overdue", "today", "recurring", "subtask"]);
+
+/** Resolves `today`, `tomorrow`, `yesterday`, `+7d`, `-2w` or `YYYY-MM-DD` to a date. */
+function resolveQueryDate(value: string, today: string): string | null {
+  if (DATE_RE.test(value)) {
+    return value;
+  }
+  if (value === "today") {
+    return today;
+  }
+  if (value === "tomorrow") {
+    return shiftDate(today, 1);
+  }
+  if (value === "yesterday") {
+    return shiftDate(today, -1);
+  }
+
+  const relative = RELATIVE_DATE_RE.exec(value);
+  if (!relative) {
+    return null;
+  }
+  const days = Number(relative[2]) * (relative[3] === "w" ? 7 : 1);
+  return shiftDate(today, relative[1] === "-" ? -days : days);
+}
+
+function parseClause(word: string, negated: boolean, today: string): DashboardQueryClause | null {
+  if (word === "done" || word === "open") {
+    return { field: "status", operator: ":", value: word, negated };
+  }
+
+  const match = CLAUSE_RE.exec(word);
+  if (!match) {
+    return null;
+  }
+
+  const field = match[1] as DashboardQueryField;
+  const operator = match[2] as DashboardQueryOperator;
+  let value = match[3];
+  if (field === "due" || field === "date") {
+    if (operator === ":" && (value === "none" || value === "any")) {
+      return { field, operator, value, negated };
+    }
+    const date = resolveQueryDate(value, today);
+    return date
+      ? { field, operator: operator === ":" ? "=" : operator, value: date, negated }
+      : null;
+  }
+
+  if (operator !== ":") {
+    return null;
+  }
+  if (field === "is" && !IS_VALUES.has(value)) {
+    return null;
+  }
+  if (field === "tag" && !value.startsWith("#")) {
+    value = `#${value}`;
+  }
+  if (field === "path") {
+    value = value.replace(/\\/g, "/");
+  }
+  return { field, operator, value, negated };
+}
+
+/**
+ * Parses a dashboard query such as `tag:#work due<+7d -done path:projects/ "weekly review"`.
+ *
+ * - `tag:`, `path:`, `priority:`, `category:` match task metadata; `done` / `open` the checkbox
+ * - `is:overdue|today|recurring|subtask` match the dashboard classification
+ * - `due` and `date` (the note date) compare with `:` `=` `<` `<=` `>` `>=` against
+ *   `today`, `tomorrow`, `yesterday`, `+Nd`, `-Nw` or `YYYY-MM-DD`; `due:none` / `due:any`
+ * - a leading `-` negates any filter or word
+ *
+ * Filters with an invalid value are searched as plain words.
+ */
+export function parseDashboardQuery(query: string, today: string): ParsedDashboardQuery {
+  const textParts: string[] = [];
+  const clauses: DashboardQueryClause[] = [];
+
+  for (const match of String(query ?? "").matchAll(/"([^"]*)"?|(\S+)/g)) {
+    if (match[1] !== undefined) {
+      if (match[1].trim()) {
+        textParts.push(`"${match[1].trim()}"`);
+      }
+      continue;
+    }
+
+    const raw = normalizeForSearch(match[2]);
+    const negated = raw.length > 1 && raw.startsWith("-");
+    const word = negated ? raw.slice(1) : raw;
+    const clause = parseClause(word, negated, today);
+    if (clause) {
+      clauses.push(clause);
+    } else if (negated) {
+      clauses.push({ field: "text", operator: ":", value: word, negated: true });
+    } else {
+      textParts.push(match[2]);
+    }
+  }
+
+  return { text: textParts.join(" "), clauses };
+}
+
+function compareDate(date: string | null, clause: DashboardQueryClause): boolean {
+  if (clause.operator === ":") {
+    return clause.value === "none" ? !date : Boolean(date);
+  }
+  if (!date) {
+    return false;
+  }
+
+  switch (clause.operator) {
+    case "<":
+      return date < clause.value;
+    case "<=":
+      return date <= clause.value;
+    case ">":
+      return date > clause.value;
+    case ">=":
+      return date >= clause.value;
+    default:
+      return date === clause.value;
+  }
+}
+
+function matchesClause(task: DashboardTaskView, clause: DashboardQueryClause): boolean {
+  switch (clause.field) {
+    case "text":
+      return normalizeForSearch(task.text).includes(clause.value);
+    case "tag":
+      return task.tags.some((tag) => normalizeForSearch(tag) === clause.value);
+    case "path":
+      return normalizeForSearch(task.relativePath.replace(/\\/g, "/")).includes(clause.value);
+    case "status":
+      return clause.value === "done" ? task.done : !task.done;
+    case "priority":
+      return normalizeForSearch(task.priority ?? "") === clause.value;
+    case "category":
+      return normalizeForSearch(task.category ?? "") === clause.value;
+    case "due":
+      return compareDate(task.dueDate, clause);
+    case "date":
+      return compareDate(task.date, clause);
+    case "is":
+      switch (clause.value) {
+        case "done":
+          return task.done;
+        case "open":
+          return !task.done;
+        case "recurring":
+          return Boolean(task.recurrence);
+        case "subtask":
+          return Boolean(task.parentId);
+        default:
+          return task.section === clause.value;
+      }
+  }
+}
+
+export function matchesDashboardQuery(
+  task: DashboardTaskView,
+  clauses: DashboardQueryClause[],
+): boolean {
+  return clauses.every((clause) => matchesClause(task, clause) !== clause.negated);
+}
@@ -0,0 +1,63 @@
+import type { Memento } from "vscode";
+import { notesDirHash } from "./dashboardTaskUtils.js";
+import type { DashboardSavedView } from "./dashboardTypes.js";
+
+export function getSavedViewsStorageKey(notesDir: string): string {
+  return `dashboard.savedViews.${notesDirHash(notesDir)}`;
+}
+
+export function normalizeSavedViews(value: unknown): DashboardSavedView[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const views: DashboardSavedView[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object") {
+      continue;
+    }
+    const name = "name" in entry && typeof entry.name === "string" ? entry.name.trim() : "";
+    const query = "query" in entry && typeof entry.query === "string" ? entry.query.trim() : "";
+    if (name && query && !views.some((view) => view.name === name)) {
+      views.push({ name, query });
+    }
+  }
+  return views;
+}
+
+export function loadSavedViews(stateStore: Memento, notesDir: string): DashboardSavedView[] {
+  return normalizeSavedViews(stateStore.get(getSavedViewsStorageKey(notesDir), []));
+}
+
+/** Adds a view, or replaces the query of the view with the same name in place. */
+export async function saveView(
+  stateStore: Memento,
+  notesDir: string,
+  view: DashboardSavedView,
+): Promise<DashboardSavedView[]> {
+  const name = view.name.trim();
+  const query = view.query.trim();
+  const views = loadSavedViews(stateStore, notesDir);
+  if (!name || !query) {
+    return views;
+  }
+
+  const index = views.findIndex((existing) => existing.name === name);
+  if (index >= 0) {
+    views[index] = { name, query };
+  } else {
+    views.push({ name, query });
+  }
+  await stateStore.update(getSavedViewsStorageKey(notesDir), views);
+  return views;
+}
+
+export async function deleteView(
+  stateStore: Memento,
+  notesDir: string,
+  name: string,
+): Promise<DashboardSavedView[]> {
+  const views = loadSavedViews(stateStore, notesDir).filter((view) => view.name !== name);
+  await stateStore.update(getSavedViewsStorageKey(notesDir), views);
+  return views;
+}
@@ -1,6 +1,7 @@
 import * as fs from "fs/promises";
 import * as path from "path";
-import { DUE_DATE_RE, TAG_RE, TASK_RE } from "../shared/taskSyntax.js";
+import { buildTaskId } from "../shared/taskRef.js";
+import { getIndentWidth, parseTaskLine } from "../shared/taskSyntax.js";
 import { dateFromFilePath } from "./dashboardTaskUtils.js";
 import type { DashTask } from "./dashboardTypes.js";
 
@@ -43,25 +44,51 @@ export async function collectTasksFromNotes(
 
       const lines = content.split("\n");
       const relPath = path.relative(notesDir, fullPath);
+      // Open ancestors of the current line, innermost last. An indented task becomes a
+      // subtask of the nearest task above it with a smaller indent.
+      const ancestors: Array<{ width: number; task: DashTask }> = [];
       for (let i = 0; i < lines.length; i++) {
-        const match = TASK_RE.exec(lines[i]);
-        if (!match) {
+        const line = lines[i];
+        if (!line.trim()) {
           continue;
         }
 
-        const text = match[2].trim();
-        const tags = [...new Set(text.match(TAG_RE) ?? [])];
-        const dueDateMatch = DUE_DATE_RE.exec(text);
-        tasks.push({
-          id: `${relPath}:${i}`,
+        const width = getIndentWidth(line);
+        while (ancestors.length > 0 && ancestors[ancestors.length - 1].width >= width) {
+          ancestors.pop();
+        }
+
+        const parsed = parseTaskLine(line);
+        if (!parsed) {
+          continue;
+        }
+
+        const parent = ancestors[ancestors.length - 1]?.task;
+        const task: DashTask = {
+          id: buildTaskId(relPath, i, parsed.text),
           filePath: fullPath,
           lineIndex: i,
-          text,
-          done: match[1].toLowerCase() === "x",
+          text: parsed.text,
+          done: parsed.done,
           date,
-          dueDate: dueDateMatch ? dueDateMatch[1] : null,
-          tags,
-        });
+          dueDate: parsed.dueDate,
+          tags: parsed.tags,
+          ...(parent ? { parentId: parent.id } : {}),
+          ...(parsed.recurrence ? { recurrence: parsed.recurrence } : {}),
+          ...(parsed.category ? { category: parsed.category } : {}),
+          ...(parsed.priority ? { priority: parsed.priority } : {}),
+          ...(parsed.timeEstimateMin !== null ? { timeEstimateMin: parsed.timeEstimateMin } : {}),
+        };
+        for (const ancestor of ancestors) {
+          const progress = (ancestor.task.subtaskProgress ??= { done: 0, total: 0 });
+          progress.total++;
+          if (task.done) {
+            progress.done++;
+          }
+        }
+
+        tasks.push(task);
+        ancestors.push({ width, task });
       }
     }
   }
@@ -1,17 +1,47 @@
 import * as fs from "fs/promises";
+import * as path from "path";
+import { buildTaskId, locateTaskLine } from "../shared/taskRef.js";
+import {
+  addTaskProvenance,
+  addTaskTag,
+  buildNextRecurringTaskText,
+  findSubtaskLineIndexes,
+  getIndentWidth,
+  parseTaskLine,
+  removeTaskTag,
+} from "../shared/taskSyntax.js";
 import { collectTasksFromNotes } from "./dashboardTaskCollector.js";
 import {
   buildTaskMarkdownLine,
+  dateFromFilePath,
   ensureDashboardTaskFile,
+  isPathInside,
   normalizeExtractedTaskIdentity,
   resolveTaskRef,
   TASK_RE,
+  todayDateString,
   upsertDashboardDueDate,
 } from "./dashboardTaskUtils.js";
 
 export type DashboardTaskCreateResult = "created" | "invalid-text";
 export type DashboardTaskUpdateResult = "updated" | "missing" | "invalid-text";
 
+export type DashboardBulkOperation =
+  | { kind: "complete" }
+  | { kind: "reschedule"; dueDate: string | null }
+  | { kind: "addTag"; tag: string }
+  | { kind: "removeTag"; tag: string }
+  /** `createDate` marks the inbox (null) or that day's task file, given a header if missing. */
+  | { kind: "move"; targetFile: string; createDate?: string | null }
+  | { kind: "delete" };
+
+export interface DashboardBulkResult {
+  /** Tasks the operation was applied to. */
+  applied: number;
+  /** Tasks that were gone or changed on disk and were left alone. */
+  missing: number;
+}
+
 async function readTaskLines(filePath: string): Promise<string[] | null> {
   try {
     await fs.access(filePath);
@@ -22,33 +52,95 @@ async function readTaskLines(filePath: string): Promise<string[] | null> {
   return (await fs.readFile(filePath, "utf8")).split("\n");
 }
 
-export async function toggleDashboardTask(
-  notesDir: string,
-  taskId: string,
-  done: boolean,
-): Promise<boolean> {
+interface TaskTarget {
+  filePath: string;
+  lines: string[];
+  lineIndex: number;
+  match: RegExpExecArray;
+}
+
+/**
+ * Reads the task's file and re-locates its line by fingerprint, so edits that shifted
+ * lines since the dashboard rendered do not redirect a write to the wrong task. Returns
+ * null when the task is gone or its text no longer matches.
+ */
+async function readTaskTarget(notesDir: string, taskId: string): Promise<TaskTarget | null> {
   const ref = resolveTaskRef(notesDir, taskId);
   if (!ref) {
-    return false;
+    return null;
   }
 
   const lines = await readTaskLines(ref.filePath);
   if (!lines) {
-    return false;
+    return null;
   }
 
-  const line = lines[ref.lineIndex];
-  if (!line) {
-    return false;
+  const lineIndex = locateTaskLine(lines, ref);
+  const match = lineIndex === null ? null : TASK_RE.exec(lines[lineIndex]);
+  if (lineIndex === null || !match) {
+    return null;
   }
 
-  const match = TASK_RE.exec(line);
+  return { filePath: ref.filePath, lines, lineIndex, match };
+}
+
+/**
+ * Sets the checkbox of the task at `lineIndex`. With `completeSubtasks`, checking a task
+ * also checks every task nested under it.
+ */
+function setTaskLineDone(
+  lines: string[],
+  lineIndex: number,
+  done: boolean,
+  completeSubtasks: boolean,
+): void {
+  const match = TASK_RE.exec(lines[lineIndex]);
   if (!match) {
+    return;
+  }
+
+  const indent = match[1];
+  const text = match[3].trim();
+  lines[lineIndex] = buildTaskMarkdownLine(done, text, indent);
+
+  const subtaskIndexes = findSubtaskLineIndexes(lines, lineIndex);
+  if (done && completeSubtasks) {
+    for (const index of subtaskIndexes) {
+      const subtask = TASK_RE.exec(lines[index]);
+      if (subtask) {
+        lines[index] = buildTaskMarkdownLine(true, subtask[3].trim(), subtask[1]);
+      }
+    }
+  }
+
+  // Completing a recurring task inserts its next open occurrence below it (after its
+  // subtasks), unless that line is already there (e.g. the task was un-checked and
+  // checked again).
+  const wasDone = match[2].toLowerCase() === "x";
+  const nextText = done && !wasDone ? buildNextRecurringTaskText(text, todayDateString()) : null;
+  if (nextText) {
+    const insertAt = (subtaskIndexes.at(-1) ?? lineIndex) + 1;
+    const nextLine = buildTaskMarkdownLine(false, nextText, indent);
+    if (lines[insertAt] !== nextLine) {
+      lines.splice(insertAt, 0, nextLine);
+    }
+  }
+}
+
+/** Sets the checkbox of a task; see `setTaskLineDone` for subtasks and recurrence. */
+export async function toggleDashboardTask(
+  notesDir: string,
+  taskId: string,
+  done: boolean,
+  completeSubtasks = false,
+): Promise<boolean> {
+  const target = await readTaskTarget(notesDir, taskId);
+  if (!target) {
     return false;
   }
 
-  lines[ref.lineIndex] = buildTaskMarkdownLine(done, match[2].trim());
-  await fs.writeFile(ref.filePath, lines.join("\n"), "utf8");
+  setTaskLineDone(target.lines, target.lineIndex, done, completeSubtasks);
+  await fs.writeFile(target.filePath, target.lines.join("\n"), "utf8");
   return true;
 }
 
@@ -63,50 +155,234 @@ export async function updateDashboardTask(
     return "invalid-text";
   }
 
-  const ref = resolveTaskRef(notesDir, taskId);
-  if (!ref) {
+  const target = await readTaskTarget(notesDir, taskId);
+  if (!target) {
     return "missing";
   }
 
-  const lines = await readTaskLines(ref.filePath);
-  if (!lines) {
-    return "missing";
+  const { lines, lineIndex, match } = target;
+  lines[lineIndex] = buildTaskMarkdownLine(
+    match[2].toLowerCase() === "x",
+    normalizedText,
+    match[1],
+  );
+  await fs.writeFile(target.filePath, lines.join("\n"), "utf8");
+  return "updated";
+}
+
+export async function deleteDashboardTask(notesDir: string, taskId: string): Promise<boolean> {
+  const target = await readTaskTarget(notesDir, taskId);
+  if (!target) {
+    return false;
   }
 
-  const line = lines[ref.lineIndex];
-  if (!line) {
-    return "missing";
+  // Subtasks go with their parent rather than falling under the task above it.
+  target.lines.splice(
+    target.lineIndex,
+    takeTaskBlock(target.lines, target.lineIndex).indexes.length,
+  );
+  await fs.writeFile(target.filePath, target.lines.join("\n"), "utf8");
+  return true;
+}
+
+function rewriteTaskText(lines: string[], lineIndex: number, rewrite: (text: string) => string) {
+  const match = TASK_RE.exec(lines[lineIndex]);
+  const text = match ? rewrite(match[3].trim()) : "";
+  if (match && text) {
+    lines[lineIndex] = buildTaskMarkdownLine(match[2].toLowerCase() === "x", text, match[1]);
   }
+}
 
-  const match = TASK_RE.exec(line);
-  if (!match) {
-    return "missing";
+/** A task line and its nested subtask lines, re-indented to the top level. */
+function takeTaskBlock(lines: string[], lineIndex: number): { indexes: number[]; text: string[] } {
+  const subtaskIndexes = findSubtaskLineIndexes(lines, lineIndex);
+  const lastIndex = subtaskIndexes.at(-1) ?? lineIndex;
+  const indexes: number[] = [];
+  for (let i = lineIndex; i <= lastIndex; i++) {
+    indexes.push(i);
   }
 
-  lines[ref.lineIndex] = buildTaskMarkdownLine(match[1].toLowerCase() === "x", normalizedText);
-  await fs.writeFile(ref.filePath, lines.join("\n"), "utf8");
-  return "updated";
+  const baseWidth = getIndentWidth(lines[lineIndex]);
+  const text = indexes.map((index) => {
+    const line = lines[index];
+    let removed = 0;
+    let cut = 0;
+    while (cut < line.length && removed < baseWidth && (line[cut] === " " || line[cut] === "\t")) {
+      removed += line[cut] === "\t" ? 4 : 1;
+      cut++;
+    }
+    return line.slice(cut);
+  });
+  return { indexes, text };
 }
 
-export async function deleteDashboardTask(notesDir: string, taskId: string): Promise<boolean> {
-  const ref = resolveTaskRef(notesDir, taskId);
-  if (!ref) {
-    return false;
+/**
+ * Applies one operation to many tasks. Tasks are re-located by fingerprint like single
+ * edits, and every touched file (including a move target, relative to `notesDir`) is read
+ * and written once. Moved and deleted tasks take their subtasks with them; moved ones get a
+ * `(from YYYY-MM-DD)` provenance marker.
+ */
+export async function applyDashboardBulkOperation(
+  notesDir: string,
+  taskIds: string[],
+  operation: DashboardBulkOperation,
+  completeSubtasks = false,
+): Promise<DashboardBulkResult> {
+  const targetPath =
+    operation.kind === "move" ? path.resolve(notesDir, operation.targetFile) : undefined;
+  if (targetPath && !isPathInside(notesDir, targetPath)) {
+    return { applied: 0, missing: taskIds.length };
   }
 
-  const lines = await readTaskLines(ref.filePath);
-  if (!lines) {
-    return false;
+  const files = new Map<string, { lines: string[]; lineIndexes: Set<number> }>();
+  let missing = 0;
+
+  for (const taskId of new Set(taskIds)) {
+    const ref = resolveTaskRef(notesDir, taskId);
+    let file = ref ? files.get(ref.filePath) : undefined;
+    if (ref && !file) {
+      const lines = await readTaskLines(ref.filePath);
+      if (lines) {
+        file = { lines, lineIndexes: new Set() };
+        files.set(ref.filePath, file);
+      }
+    }
+
+    const lineIndex = ref && file ? locateTaskLine(file.lines, ref) : null;
+    if (!file || lineIndex === null || !TASK_RE.test(file.lines[lineIndex])) {
+      missing++;
+      continue;
+    }
+    file.lineIndexes.add(lineIndex);
   }
 
-  const line = lines[ref.lineIndex];
-  if (!line || !TASK_RE.exec(line)) {
-    return false;
+  const moved: string[] = [];
+  let applied = 0;
+  for (const [filePath, file] of files) {
+    // Bottom-up, so inserting or removing lines never shifts a line still to be processed.
+    const lineIndexes = [...file.lineIndexes].sort((left, right) => right - left);
+    applied += lineIndexes.length;
+    if (filePath === targetPath) {
+      continue;
+    }
+
+    if (operation.kind === "move" || operation.kind === "delete") {
+      // Undated sources such as the inbox record the day the task left them.
+      const sourceDate = dateFromFilePath(filePath) ?? todayDateString();
+      const removed = new Set<number>();
+      for (const lineIndex of lineIndexes.reverse()) {
+        // A selected subtask already goes with its selected parent.
+        if (removed.has(lineIndex)) {
+          continue;
+        }
+        const block = takeTaskBlock(file.lines, lineIndex);
+        block.indexes.forEach((index) => removed.add(index));
+        if (operation.kind === "move") {
+          rewriteTaskText(block.text, 0, (text) => addTaskProvenance(text, sourceDate));
+          moved.push(...block.text);
+        }
+      }
+      file.lines = file.lines.filter((_line, index) => !removed.has(index));
+      continue;
+    }
+
+    for (const lineIndex of lineIndexes) {
+      switch (operation.kind) {
+        case "complete":
+          setTaskLineDone(file.lines, lineIndex, true, completeSubtasks);
+          break;
+        case "reschedule":
+          rewriteTaskText(file.lines, lineIndex, (text) =>
+            upsertDashboardDueDate(text, operation.dueDate),
+          );
+          break;
+        case "addTag":
+          rewriteTaskText(file.lines, lineIndex, (text) => addTaskTag(text, operation.tag));
+          break;
+        case "removeTag":
+          rewriteTaskText(file.lines, lineIndex, (text) => removeTaskTag(text, operation.tag));
+          break;
+      }
+    }
   }
 
-  lines.splice(ref.lineIndex, 1);
-  await fs.writeFile(ref.filePath, lines.join("\n"), "utf8");
-  return true;
+  if (targetPath && moved.length > 0) {
+    let target = files.get(targetPath);
+    if (!target) {
+      if (operation.kind === "move" && operation.createDate !== undefined) {
+        await ensureDashboardTaskFile(notesDir, operation.createDate);
+      } else {
+        await fs.mkdir(path.dirname(targetPath), { recursive: true });
+      }
+      target = { lines: (await readTaskLines(targetPath)) ?? [], lineIndexes: new Set() };
+      files.set(targetPath, target);
+    }
+    const lines = target.lines;
+    if (lines.at(-1) === "") {
+      lines.pop();
+    }
+    lines.push(...moved, "");
+  }
+
+  for (const [filePath, file] of files) {
+    if (file.lineIndexes.size > 0 || filePath === targetPath) {
+      await fs.writeFile(filePath, file.lines.join("\n"), "utf8");
+    }
+  }
+  return { applied, missing };
+}
+
+export type DashboardRollOverTarget = "today" | "inbox";
+
+const DAY_TASK_FILE_RE = /^(\d{4}-\d{2}-\d{2})\.md$/;
+
+/** Unfinished top-level tasks (with their subtasks) in `tasks/YYYY-MM-DD.md` files before `today`. */
+export async function collectRollOverTasks(notesDir: string, today: string): Promise<string[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(path.join(notesDir, "tasks"));
+  } catch {
+    return [];
+  }
+
+  const taskIds: string[] = [];
+  for (const name of names.sort()) {
+    const match = DAY_TASK_FILE_RE.exec(name);
+    if (!match || match[1] >= today) {
+      continue;
+    }
+
+    const relativePath = path.join("tasks", name);
+    const lines = (await readTaskLines(path.join(notesDir, relativePath))) ?? [];
+    lines.forEach((line, lineIndex) => {
+      const parsed = parseTaskLine(line.replace(/\r$/, ""));
+      if (parsed && !parsed.done && !parsed.indent) {
+        taskIds.push(buildTaskId(relativePath, lineIndex, parsed.text));
+      }
+    });
+  }
+  return taskIds;
+}
+
+/**
+ * Moves unfinished tasks out of past day task files into today's task file or the inbox,
+ * each marked with the day it came from.
+ */
+export async function rollOverDashboardTasks(
+  notesDir: string,
+  today: string,
+  target: DashboardRollOverTarget,
+): Promise<DashboardBulkResult> {
+  const taskIds = await collectRollOverTasks(notesDir, today);
+  if (taskIds.length === 0) {
+    return { applied: 0, missing: 0 };
+  }
+
+  const targetFile = await ensureDashboardTaskFile(notesDir, target === "today" ? today : null);
+  return applyDashboardBulkOperation(notesDir, taskIds, {
+    kind: "move",
+    targetFile: path.relative(notesDir, targetFile),
+  });
 }
 
 export async function createDashboardTask(
@@ -13,11 +13,14 @@ import type {
   ExtractedTaskWithSource,
   ExtractTasksFailureReason,
 } from "./aiTaskProcessor.js";
-import { isPathInside } from "../shared/pathSafety.js";
-import { stripDueDateTokens } from "../shared/taskSyntax.js";
+import { formatDateString } from "../shared/dateFormat.js";
+import { stripDueDateTokens, stripTaskMetadataTokens } from "../shared/taskSyntax.js";
 import { t } from "./i18n.js";
-export { DUE_DATE_RE, TAG_RE, TASK_RE } from "../shared/taskSyntax.js";
+export { formatDateString, formatTimeHM } from "../shared/dateFormat.js";
+export { buildTaskMarkdownLine, DUE_DATE_RE, TAG_RE, TASK_RE } from "../shared/taskSyntax.js";
+export { dateFromFilePath } from "../shared/noteFilename.js";
 export { isPathInside } from "../shared/pathSafety.js";
+export { resolveTaskRef } from "../shared/taskRef.js";
 
 const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
 const EXTRACTED_TASK_DISMISS_WINDOW_DAYS = 30;
@@ -33,22 +36,10 @@ export const SECTION_ORDER: Record<DashboardTaskSection, number> = {
 };
 export const ATTENTION_SECTIONS = new Set<DashboardTaskSection>(["overdue", "today", "upcoming"]);
 
-function pad2(n: number): string {
-  return String(n).padStart(2, "0");
-}
-
 export function notesDirHash(notesDir: string): string {
   return crypto.createHash("sha1").update(path.resolve(notesDir)).digest("hex");
 }
 
-export function formatDateString(date: Date): string {
-  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
-}
-
-export function formatTimeHM(date: Date): string {
-  return `${pad2(date.getHours())}:${pad2(date.getMinutes())}`;
-}
-
 export function todayDateString(): string {
   return formatDateString(new Date());
 }
@@ -61,11 +52,6 @@ export function normalizeOptionalDate(value: unknown): string | null {
   return typeof value === "string" && ISO_DATE_RE.test(value) ? value : null;
 }
 
-export function dateFromFilePath(filePath: string): string | null {
-  const m = path.basename(filePath, ".md").match(/^(\d{4}-\d{2}-\d{2})/);
-  return m ? m[1] : null;
-}
-
 export function getRelativePathFromTaskId(taskId: string, fallbackFilePath: string): string {
   const colonIdx = taskId.lastIndexOf(":");
   return colonIdx >= 0 ? taskId.slice(0, colonIdx) : path.basename(fallbackFilePath);
@@ -83,7 +69,7 @@ function sanitizeTaskInputText(text: string): string {
 }
 
 export function normalizeExtractedTaskIdentity(text: string): string {
-  return stripDashboardDueDate(text).normalize("NFKC").toLowerCase();
+  return stripTaskMetadataTokens(stripDashboardDueDate(text)).normalize("NFKC").toLowerCase();
 }
 
 function stripDashboardDueDate(text: string): string {
@@ -128,37 +114,6 @@ export async function ensureDashboardTaskFile(
   return filePath;
 }
 
-export function resolveTaskRef(
-  notesDir: string,
-  taskId: string,
-): { relativePath: string; filePath: string; lineIndex: number } | null {
-  const colonIdx = taskId.lastIndexOf(":");
-  if (colonIdx < 0) {
-    return null;
-  }
-
-  const relativePath = taskId.slice(0, colonIdx);
-  const lineIndex = Number.parseInt(taskId.slice(colonIdx + 1), 10);
-  if (!Number.isInteger(lineIndex) || lineIndex < 0) {
-    return null;
-  }
-
-  const filePath = path.resolve(notesDir, relativePath);
-  if (!isPathInside(notesDir, filePath)) {
-    return null;
-  }
-
-  return {
-    relativePath,
-    filePath,
-    lineIndex,
-  };
-}
-
-export function buildTaskMarkdownLine(done: boolean, text: string): string {
-  return `- [${done ? "x" : " "}] ${text}`;
-}
-
 export function shiftDate(baseDate: string, days: number): string {
   const d = new Date(`${baseDate}T00:00:00`);
   d.setDate(d.getDate() + days);
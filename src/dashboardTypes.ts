@@ -1,7 +1,17 @@
+import type { TaskRecurrence } from "../shared/taskSyntax.js";
 import type { BaseTask } from "../shared/taskTypes.js";
+import type { MomentsStats } from "./moments/types.js";
 
 export interface DashTask extends BaseTask {
   dueDate: string | null;
+  /** Id of the task this one is indented under. */
+  parentId?: string;
+  /** Checked / total tasks nested under this one, at any depth. */
+  subtaskProgress?: { done: number; total: number };
+  recurrence?: TaskRecurrence;
+  category?: string;
+  priority?: string;
+  timeEstimateMin?: number;
 }
 
 export interface WeekDay {
@@ -51,9 +61,6 @@ export interface DashboardTaskView extends DashTask {
   relativePath: string;
   effectiveDate: string | null;
   section: DashboardTaskSection;
-  category?: string;
-  priority?: string;
-  timeEstimateMin?: number;
 }
 
 export interface DashboardCandidateView extends DashboardCandidateTask {
@@ -95,6 +102,18 @@ export interface DashboardSummary {
   completionRate: number;
 }
 
+/** A named dashboard query, saved per notes directory. */
+export interface DashboardSavedView {
+  name: string;
+  query: string;
+}
+
+/** `YYYY-MM-DD` dates with a daily note / a Moments file. */
+export interface DashboardCalendarMarks {
+  dailyNotes: string[];
+  moments: string[];
+}
+
 export interface DashboardData {
   today: string;
   locale: string;
@@ -104,4 +123,7 @@ export interface DashboardData {
   sectionCounts: Record<DashboardTaskSection, number>;
   summary: DashboardSummary;
   availableModels: Array<{ id: string; name: string }>;
+  savedViews: DashboardSavedView[];
+  calendar: DashboardCalendarMarks;
+  momentsStats: MomentsStats;
 }
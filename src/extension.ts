@@ -1,3 +1,4 @@
+import * as path from "path";
 import * as vscode from "vscode";
 import { registerNotesCommands } from "./commands.js";
 import { enrichTasksInFile } from "./dashboardAiEnrichment.js";
@@ -6,14 +7,17 @@ import { isPathInside } from "./dashboardTaskUtils.js";
 import { MomentsViewProvider } from "./moments/panel.js";
 import { createNewNote, type IndexedNote, pickIndexedNote } from "./noteCommands";
 import { getIndexedNotesCached } from "./notesIndexCache.js";
+import { flushSearchIndexStorage, setSearchIndexStorageDir } from "./notesSearchIndex.js";
 import { t } from "./i18n.js";
 import {
   affectsNotesConfiguration,
   getAiAutoEnrichSetting,
+  getAiWriteEnrichmentToFileSetting,
   getLegacyNotesDirectorySetting,
   getMomentsSubfolderSetting,
   getSidebarTagSortSetting,
   getStatusBarTasksSetting,
+  getUpdateLinksOnRenameSetting,
   getWorkspaceNotesDirectorySetting,
   updateLegacyNotesDirectorySetting,
   updateWorkspaceNotesDirectorySetting,
@@ -28,6 +32,12 @@ import {
   WikiLinkCompletionProvider,
   WikiLinkDefinitionProvider,
   WikiLinkDocumentLinkProvider,
+  expandRenamedNotes,
+  skipRenamesWithLinkEdits,
+  updateWikiLinksAfterRename,
+  WikiLinkCodeActionProvider,
+  WikiLinkDiagnostics,
+  WikiLinkHoverProvider,
 } from "./wikiLinks";
 
 const NOTES_DIRECTORY_STORAGE_KEY = "notesDirectory";
@@ -79,6 +89,8 @@ export function buildTagSearchItems(
 }
 
 export function activate(context: vscode.ExtensionContext) {
+  setSearchIndexStorageDir(context.globalStorageUri.fsPath);
+
   function getConfiguredNotesDir(): string | undefined {
     return getLegacyNotesDirectorySetting();
   }
@@ -195,6 +207,7 @@ export function activate(context: vscode.ExtensionContext) {
     const selectedNote = await pickIndexedNote(
       matchingNotes,
       t("notesTagged", { tag: selectedTag.label }),
+      notesDir,
     );
 
     if (!selectedNote) {
@@ -229,6 +242,7 @@ export function activate(context: vscode.ExtensionContext) {
   // Register Moments webview view
   const momentsProvider = new MomentsViewProvider(getNotesDir, context);
   context.subscriptions.push(
+    momentsProvider,
     vscode.window.registerWebviewViewProvider(MomentsViewProvider.viewType, momentsProvider),
   );
 
@@ -243,12 +257,24 @@ export function activate(context: vscode.ExtensionContext) {
       markdownSelector,
       new WikiLinkCompletionProvider(getNotesDir),
       "[",
+      "#",
     ),
     vscode.languages.registerDefinitionProvider(
       markdownSelector,
       new WikiLinkDefinitionProvider(getNotesDir),
     ),
+    vscode.languages.registerHoverProvider(
+      markdownSelector,
+      new WikiLinkHoverProvider(getNotesDir),
+    ),
+    vscode.languages.registerCodeActionsProvider(
+      markdownSelector,
+      new WikiLinkCodeActionProvider(getNotesDir),
+      { providedCodeActionKinds: WikiLinkCodeActionProvider.providedCodeActionKinds },
+    ),
   );
+  const wikiLinkDiagnostics = new WikiLinkDiagnostics(getNotesDir);
+  context.subscriptions.push(wikiLinkDiagnostics);
 
   // Register backlinks tree view
   const backlinksProvider = new BacklinksProvider(getNotesDir);
@@ -257,6 +283,36 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.window.onDidChangeActiveTextEditor(() => backlinksProvider.refresh()),
   );
 
+  // Keep wiki links and pins pointing at renamed or moved notes
+  context.subscriptions.push(
+    vscode.workspace.onDidRenameFiles(async (event) => {
+      const notesDir = getNotesDir();
+      if (!notesDir) {
+        return;
+      }
+
+      const renames = await expandRenamedNotes(event.files, notesDir);
+      const renamedPins = new Map(
+        renames.map(({ oldPath, newPath }) => [
+          path.relative(notesDir, oldPath),
+          path.relative(notesDir, newPath),
+        ]),
+      );
+      const pinned = getPinnedRelativePaths();
+      if (pinned.some((relativePath) => renamedPins.has(relativePath))) {
+        await setPinnedRelativePaths(
+          pinned.map((relativePath) => renamedPins.get(relativePath) ?? relativePath),
+        );
+        notesTreeProvider.refresh();
+      }
+
+      const linkRenames = skipRenamesWithLinkEdits(renames);
+      if (getUpdateLinksOnRenameSetting()) {
+        await updateWikiLinksAfterRename(linkRenames, notesDir);
+      }
+    }),
+  );
+
   void migrateNotesDirectoryStorage().then(() => {
     notesTreeProvider.refresh();
   });
@@ -298,10 +354,12 @@ export function activate(context: vscode.ExtensionContext) {
     mdWatcher.onDidCreate((uri) => {
       refreshNotesViews();
       scheduleDashboardRefresh(uri);
+      wikiLinkDiagnostics.refresh();
     });
     mdWatcher.onDidDelete((uri) => {
       refreshNotesViews();
       scheduleDashboardRefresh(uri);
+      wikiLinkDiagnostics.refresh();
     });
     mdWatcher.onDidChange((uri) => {
       refreshNotesViews();
@@ -364,7 +422,13 @@ export function activate(context: vscode.ExtensionContext) {
     const cts = new vscode.CancellationTokenSource();
 
     try {
-      await enrichTasksInFile(filePath, notesDir, context.globalState, cts.token);
+      await enrichTasksInFile(
+        filePath,
+        notesDir,
+        context.globalState,
+        cts.token,
+        getAiWriteEnrichmentToFileSetting(),
+      );
     } catch (e) {
       console.error("Error during auto-enrichment on save:", e);
     } finally {
@@ -385,6 +449,14 @@ export function activate(context: vscode.ExtensionContext) {
       DashboardPanel.refresh();
     }
 
+    if (
+      affectsNotesConfiguration(event, "wikiLinkDiagnostics") ||
+      affectsNotesConfiguration(event, "noteTitleConvertSpaces") ||
+      affectsNotesConfiguration(event, "locale")
+    ) {
+      wikiLinkDiagnostics.refresh();
+    }
+
     if (
       affectsNotesConfiguration(event, "notesDirectory") ||
       affectsNotesConfiguration(event, WORKSPACE_NOTES_DIRECTORY_KEY)
@@ -392,6 +464,7 @@ export function activate(context: vscode.ExtensionContext) {
       void migrateNotesDirectoryStorage().then(() => {
         refreshMarkdownWatcher();
         refreshNotesViews();
+        wikiLinkDiagnostics.refresh();
       });
       return;
     }
@@ -421,9 +494,12 @@ export function activate(context: vscode.ExtensionContext) {
       refreshNotesTree: () => notesTreeProvider.refresh(),
       refreshMoments: () => momentsProvider.refresh(),
       refreshMarkdownWatcher,
+      refreshBacklinks: () => backlinksProvider.refresh(),
       searchTags,
     }),
   );
 }
 
-export function deactivate() {}
+export function deactivate() {
+  return flushSearchIndexStorage();
+}
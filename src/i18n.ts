@@ -20,6 +20,32 @@ const en = {
   cancelBtn: "Cancel",
   noMomentsToArchive: "No Moments files to archive ({skipped} recent files kept).",
   archivedMoments: "Archived {count} Moments files ({skipped} recent files kept).",
+  noMomentsTags: "No hashtags are used in Moments yet.",
+  momentsTagCount: "{count} moments",
+  renameTagPickPlaceholder: "Hashtag to rename",
+  renameTagPrompt: "New name for {tag} (tags nested below it are renamed too)",
+  renameTagInvalid: "Enter a hashtag such as #idea or #work/projectA.",
+  momentsTagRenamed: "Renamed {from} to {to}: {count} occurrences in {files} Moments files.",
+  renameNotePrompt: "New title for {name} (the date prefix is kept)",
+  renameNoteInvalid: 'Enter a title without \\ / : * ? " < > | # ^ [ ].',
+  renameNoteExists: "{name} already exists.",
+  renameNoteNoFile: "Open or select a note in the notes directory to rename it.",
+  wikiLinkRenameLabel: "Update links to {name}",
+  wikiLinkUnresolved: "No note matches [[{target}]].",
+  wikiLinkAmbiguous: "[[{target}]] matches {count} notes and opens {name}.",
+  wikiLinkCreateNote: 'Create note "{title}"',
+  wikiLinkUsePath: "Link to {path}",
+  wikiLinkHoverUpdated: "Updated {time}",
+  unlinkedMentions: "Unlinked mentions",
+  unlinkedMentionCount: "{count} mentions",
+  unlinkedMentionChanged:
+    "The text changed since the mention was found. The Backlinks view was refreshed.",
+  unarchiveFromPrompt: "Unarchive Moments from (YYYY-MM-DD)",
+  unarchiveToPrompt: "Unarchive Moments until (YYYY-MM-DD)",
+  noMomentsToUnarchive:
+    "No archived Moments between {from} and {to} to restore ({skipped} days already in the Moments folder).",
+  unarchivedMoments:
+    "Restored {count} archived Moments days ({skipped} days already in the Moments folder were left archived).",
   tasksStatusBar: "Tasks",
   tasksAnalyzing: "Tasks: analyzing…",
   noteTitlePrompt: "Enter note title (use / for subfolders)",
@@ -52,6 +78,76 @@ const en = {
   open: "Open",
   done: "Done",
   taskTextEmpty: "Task text cannot be empty.",
+  taskChangedOnDisk:
+    "The task was changed or removed in its file. The dashboard has been refreshed.",
+  momentChangedOnDisk: "The entry was changed or removed in its file. The list has been refreshed.",
+  saveViewPrompt: "Name this dashboard view",
+  saveViewPlaceholder: "Work this week",
+  viewNameEmpty: "View name cannot be empty.",
+  deleteViewConfirm: 'Delete the dashboard view "{name}"?',
+  deleteBtn: "Delete",
+  noSavedViews: "No saved dashboard views. Type a query in the dashboard search box and save it.",
+  pickViewPlaceholder: "Open a saved dashboard view",
+  bulkAddTagPrompt: "Tag to add to {count} tasks",
+  bulkTagInvalid: "Enter a tag such as #project (letters, digits, - and _).",
+  bulkNoTags: "None of the selected tasks has a tag.",
+  bulkRemoveTagPlaceholder: "Tag to remove from {count} tasks",
+  bulkMovePlaceholder: "Move {count} tasks to",
+  moveTaskPlaceholder: "Move the task to",
+  bulkDeleteConfirm: "Delete {count} tasks and their subtasks from their files?",
+  bulkTasksSkipped:
+    "{count} tasks were changed or removed in their files and were skipped. The dashboard has been refreshed.",
+  journalCompleteTask: "Complete task",
+  journalReopenTask: "Reopen task",
+  journalMoveTask: "Move task",
+  journalEditTask: "Edit task",
+  journalDeleteTask: "Delete task",
+  journalAddTask: "Add task",
+  journalBulkTasks: "Change {count} tasks",
+  journalMoveTaskToFile: "Move task to file",
+  journalRollOverTasks: "Roll over tasks",
+  journalEnrichTasks: "Add AI task metadata",
+  rolledOverTasks: "Moved {count} unfinished tasks from past task files to {target}.",
+  noTasksToRollOver: "No unfinished tasks in past task files.",
+  journalAddMoment: "Add Moment",
+  journalEditMoment: "Edit Moment",
+  journalDeleteMoment: "Delete Moment",
+  journalReplyMoment: "Reply to Moment",
+  journalMomentToTask: "Turn Moment into task",
+  journalMomentToNote: "Turn Moment into note",
+  momentTaskCreated: "Added the Moment as a task to {file}.",
+  momentTaskDuePlaceholder: "Due date for the new task",
+  momentNoteSource: "From {link} at {time}",
+  dueKeep: "Keep due date {date}",
+  dueNone: "No due date",
+  dueToday: "Today",
+  dueTomorrow: "Tomorrow",
+  dueNextWeek: "Next week",
+  duePickDate: "Pick a date…",
+  dueDatePrompt: "Due date (YYYY-MM-DD)",
+  dueDateInvalid: "Enter a date as YYYY-MM-DD.",
+  exportTargetPlaceholder: "Where should the Moments go?",
+  exportTargetNewNote: "New note…",
+  exportTargetDaily: "Append to today's daily note",
+  exportTargetExisting: "Append to an existing note…",
+  exportFolderPlaceholder: "Folder for the new note",
+  exportRootFolder: "(notes root)",
+  exportNotePlaceholder: "Note to append the Moments to",
+  exportFormatPlaceholder: "Export format",
+  exportFormatMarkdown: "Markdown note (uses notes.momentsExportTemplate)",
+  exportFormatJson: "JSON file",
+  exportFormatCsv: "CSV file",
+  exportFromPrompt: "Export Moments from (YYYY-MM-DD)",
+  exportToPrompt: "Export Moments until (YYYY-MM-DD)",
+  journalExportMoments: "Export Moments",
+  journalArchiveMoments: "Archive Moments",
+  journalUnarchiveMoments: "Unarchive Moments",
+  journalRenameMomentsTag: "Rename Moments tag",
+  journalToggleMoment: "Toggle Moments task",
+  nothingToUndo: "There is no Noteeees change to undo.",
+  nothingToRedo: "There is no undone Noteeees change to redo.",
+  undoConflict: '"{name}" changed after "{label}", so it was not undone.',
+  redoConflict: '"{name}" changed after "{label}" was undone, so it was not redone.',
   addCandidateFailed: "Failed to add candidate task.",
   aiMomentsProcessing: "Analyzing Moments from {from} to {to}...",
   aiNotesProcessing: "Analyzing notes from {from} to {to}...",
@@ -77,6 +173,14 @@ const en = {
   backToToday: "Back to today",
   todaySuffix: "· Today",
   pinnedHeader: "Pinned",
+  archivedBadge: "Archived",
+  tagModeAll: "All tags",
+  tagModeAny: "Any tag",
+  tagModeToggle: "Match entries with all of the selected tags or any of them",
+  removeTagFilter: "Remove {tag} from the filter",
+  renameTag: "Rename {tag} in all Moments",
+  tagSuggestions: "Tag suggestions",
+  archivedReadOnly: "Archived day — unarchive it to edit",
   emptyToday: "No moments yet today",
   emptyHint: "Capture ideas, or add #tags to categorize",
   capturePlaceholder: "Capture a thought... (#tag to categorize)",
@@ -99,11 +203,22 @@ const en = {
   momentSaveFailed: "Could not save that Moment entry.",
   momentDeleteFailed: "Could not delete that Moment entry.",
   momentDeleteConfirm: "Delete this Moment entry?",
+  attachmentSaveFailed: 'Could not save the attachment "{name}".',
+  momentDeleteThreadConfirm: "Delete this Moment entry and its {count} replies?",
   momentDeleteBtn: "Delete",
   momentsExported: "Exported {count} moment(s) to {name}",
   momentCount: "{count} moment(s)",
   listSeparator: ", ",
   todayBadge: "Today",
+  reply: "Reply",
+  makeTask: "Make task",
+  makeNote: "Make note",
+  promotedTask: "Turned into a task in {target}",
+  promotedNote: "Turned into the note {target}",
+  attachmentTooLarge: '"{name}" is larger than 25 MB and was not attached.',
+  replyPlaceholder: "Write a reply...",
+  showReplies: "{count} replies",
+  hideReplies: "Hide replies",
 
   // --- Sidebar ---
   sidebarPinned: "Pinned",
@@ -135,6 +250,8 @@ const en = {
   autoSelect: "Auto select",
   periodLabel: "Period:",
   searchTasksPlaceholder: "Search tasks…",
+  searchQueryHint:
+    'Words, "phrases", tag:#work path:projects/ due<+7d date>=-1w priority:high is:overdue -done',
   sectionToday: "Today",
   sectionPlanned: "Planned",
   sectionUnsorted: "Unsorted",
@@ -169,6 +286,68 @@ const en = {
   aiBadge: "AI",
   taskTextRequired: "Task text is required.",
   due: "Due",
+  repeats: "Repeats",
+  subtasks: "Subtasks done",
+  expandSubtasks: "Show subtasks",
+  collapseSubtasks: "Hide subtasks",
+  saveView: "Save view",
+  saveViewTitle: "Save the current query as a view tab",
+  removeView: "Remove view",
+  layoutList: "List",
+  layoutBoard: "Board",
+  boardGroupLabel: "Board columns",
+  boardGroupBySection: "By date",
+  boardGroupByTag: "By tag",
+  boardOverdue: "Overdue",
+  boardToday: "Today",
+  boardUpcoming: "Next 7 days",
+  boardScheduled: "Later",
+  boardBacklog: "No date",
+  boardDone: "Done",
+  boardNoTag: "No tag",
+  layoutCalendar: "Calendar",
+  calendarPrevMonth: "Previous month",
+  calendarNextMonth: "Next month",
+  calendarThisMonth: "This month",
+  calendarDailyNote: "Daily note",
+  calendarMoments: "Moments",
+  calendarMore: "+{count} more",
+  calendarOpenDay:
+    "Click to open this day's daily note or Moments; drop a task here to reschedule it",
+  layoutMoments: "Moments stats",
+  momentsStatsEmpty:
+    "No Moments in the past year||Post in the Moments panel to see your activity here.",
+  momentsStatsPosts: "Posts in the past year",
+  momentsStatsActiveDays: "Days with posts",
+  momentsStatsCurrentStreak: "Current streak",
+  momentsStatsLongestStreak: "Longest streak",
+  momentsStatsDays: "{count} day(s)",
+  momentsStatsHeatmap: "Posting activity",
+  momentsStatsDayPosts: "{date}: {count} post(s)",
+  momentsStatsHours: "Posts per hour of day",
+  momentsStatsHourPosts: "{hour}:00 - {count} post(s)",
+  momentsStatsTags: "Top hashtags by month",
+  momentsStatsNoTags: "No hashtags in the last six months.",
+  momentsStatsTotal: "Total",
+  selectTasks: "Select",
+  selectTasksTitle: "Select several tasks to change them at once",
+  selectTask: "Select task",
+  bulkSelected: "{count} selected",
+  bulkComplete: "Complete",
+  bulkToday: "Today",
+  bulkTomorrow: "Tomorrow",
+  bulkNextWeek: "Next week",
+  bulkPickDate: "Reschedule to date",
+  bulkAddTag: "Add tag",
+  bulkRemoveTag: "Remove tag",
+  bulkMove: "Move…",
+  bulkDelete: "Delete",
+  bulkClear: "Clear selection",
+  moveToFile: "Move to file…",
+  undoneChange: "Undone: {label}",
+  redoneChange: "Redone: {label}",
+  undoBtn: "Undo",
+  redoBtn: "Redo",
   noDate: "No date",
   dismissError: "Dismiss error",
 
@@ -198,6 +377,33 @@ const ja: Record<keyof typeof en, string> = {
     "アーカイブ対象の Moments ファイルはありません（{skipped} 件の新しいファイルを保持）。",
   archivedMoments:
     "{count} 件の Moments ファイルをアーカイブしました（{skipped} 件の新しいファイルを保持）。",
+  noMomentsTags: "Moments で使われているハッシュタグはまだありません。",
+  momentsTagCount: "{count} 件のモーメント",
+  renameTagPickPlaceholder: "名前を変更するハッシュタグ",
+  renameTagPrompt: "{tag} の新しい名前（その下のネストしたタグも変更されます）",
+  renameTagInvalid: "#idea や #work/projectA のようなハッシュタグを入力してください。",
+  momentsTagRenamed:
+    "{from} を {to} に変更しました（{files} 件の Moments ファイルで {count} 箇所）。",
+  renameNotePrompt: "{name} の新しいタイトル（日付の接頭辞はそのまま残ります）",
+  renameNoteInvalid: '\\ / : * ? " < > | # ^ [ ] を含まないタイトルを入力してください。',
+  renameNoteExists: "{name} は既に存在します。",
+  renameNoteNoFile: "名前を変更するノートをノートディレクトリで開くか選択してください。",
+  wikiLinkRenameLabel: "{name} へのリンクを更新",
+  wikiLinkUnresolved: "[[{target}]] に一致するノートがありません。",
+  wikiLinkAmbiguous: "[[{target}]] は {count} 件のノートに一致し、{name} を開きます。",
+  wikiLinkCreateNote: "ノート「{title}」を作成",
+  wikiLinkUsePath: "{path} へのリンクにする",
+  wikiLinkHoverUpdated: "更新日時 {time}",
+  unlinkedMentions: "リンクされていない言及",
+  unlinkedMentionCount: "{count} 件の言及",
+  unlinkedMentionChanged:
+    "言及が見つかった後に本文が変更されました。バックリンクビューを更新しました。",
+  unarchiveFromPrompt: "アーカイブを解除する開始日（YYYY-MM-DD）",
+  unarchiveToPrompt: "アーカイブを解除する終了日（YYYY-MM-DD）",
+  noMomentsToUnarchive:
+    "{from} から {to} までに戻せるアーカイブ済み Moments はありません（{skipped} 日は Moments フォルダーに既にあります）。",
+  unarchivedMoments:
+    "アーカイブ済み Moments を {count} 日分戻しました（Moments フォルダーに既にある {skipped} 日はアーカイブに残しました）。",
   tasksStatusBar: "タスク",
   tasksAnalyzing: "タスク: 解析中…",
   noteTitlePrompt: "ノートのタイトルを入力してください（/ でサブフォルダ指定）",
@@ -230,6 +436,77 @@ const ja: Record<keyof typeof en, string> = {
   open: "未完了",
   done: "完了",
   taskTextEmpty: "タスクのテキストを入力してください。",
+  taskChangedOnDisk:
+    "タスクがファイル上で変更または削除されていました。ダッシュボードを更新しました。",
+  momentChangedOnDisk: "エントリがファイル上で変更または削除されていました。一覧を更新しました。",
+  saveViewPrompt: "ダッシュボードビューの名前",
+  saveViewPlaceholder: "今週の仕事",
+  viewNameEmpty: "ビュー名を入力してください。",
+  deleteViewConfirm: "ダッシュボードビュー「{name}」を削除しますか？",
+  deleteBtn: "削除",
+  noSavedViews:
+    "保存されたダッシュボードビューはありません。ダッシュボードの検索欄にクエリを入力して保存してください。",
+  pickViewPlaceholder: "保存したダッシュボードビューを開く",
+  bulkAddTagPrompt: "{count} 件のタスクに追加するタグ",
+  bulkTagInvalid: "#project のようなタグを入力してください（英数字・-・_）。",
+  bulkNoTags: "選択したタスクにタグはありません。",
+  bulkRemoveTagPlaceholder: "{count} 件のタスクから削除するタグ",
+  bulkMovePlaceholder: "{count} 件のタスクの移動先",
+  moveTaskPlaceholder: "タスクの移動先",
+  bulkDeleteConfirm: "{count} 件のタスクとそのサブタスクをファイルから削除しますか？",
+  bulkTasksSkipped:
+    "{count} 件のタスクはファイル上で変更または削除されていたためスキップしました。ダッシュボードを更新しました。",
+  journalCompleteTask: "タスクを完了",
+  journalReopenTask: "タスクを未完了に戻す",
+  journalMoveTask: "タスクを移動",
+  journalEditTask: "タスクを編集",
+  journalDeleteTask: "タスクを削除",
+  journalAddTask: "タスクを追加",
+  journalBulkTasks: "{count} 件のタスクを変更",
+  journalMoveTaskToFile: "タスクをファイルへ移動",
+  journalRollOverTasks: "タスクを繰り越し",
+  journalEnrichTasks: "AI のタスクメタデータを追加",
+  rolledOverTasks: "過去のタスクファイルから未完了のタスク {count} 件を {target} に移動しました。",
+  noTasksToRollOver: "過去のタスクファイルに未完了のタスクはありません。",
+  journalAddMoment: "Moment を追加",
+  journalEditMoment: "Moment を編集",
+  journalDeleteMoment: "Moment を削除",
+  journalReplyMoment: "Moment に返信",
+  journalMomentToTask: "Moment をタスクに変換",
+  journalMomentToNote: "Moment をノートに変換",
+  momentTaskCreated: "Moment をタスクとして {file} に追加しました。",
+  momentTaskDuePlaceholder: "新しいタスクの期限",
+  momentNoteSource: "{link} の {time} から",
+  dueKeep: "期限 {date} のまま",
+  dueNone: "期限なし",
+  dueToday: "今日",
+  dueTomorrow: "明日",
+  dueNextWeek: "来週",
+  duePickDate: "日付を指定…",
+  dueDatePrompt: "期限（YYYY-MM-DD）",
+  dueDateInvalid: "日付を YYYY-MM-DD 形式で入力してください。",
+  exportTargetPlaceholder: "Moments のエクスポート先を選択",
+  exportTargetNewNote: "新しいノート…",
+  exportTargetDaily: "今日のデイリーノートに追記",
+  exportTargetExisting: "既存のノートに追記…",
+  exportFolderPlaceholder: "新しいノートを作成するフォルダー",
+  exportRootFolder: "（ノートのルート）",
+  exportNotePlaceholder: "Moments を追記するノート",
+  exportFormatPlaceholder: "エクスポート形式",
+  exportFormatMarkdown: "Markdown ノート（notes.momentsExportTemplate を使用）",
+  exportFormatJson: "JSON ファイル",
+  exportFormatCsv: "CSV ファイル",
+  exportFromPrompt: "エクスポートする開始日（YYYY-MM-DD）",
+  exportToPrompt: "エクスポートする終了日（YYYY-MM-DD）",
+  journalExportMoments: "Moments をエクスポート",
+  journalArchiveMoments: "Moments をアーカイブ",
+  journalUnarchiveMoments: "Moments のアーカイブを解除",
+  journalRenameMomentsTag: "Moments のタグ名を変更",
+  journalToggleMoment: "Moments のタスクを切り替え",
+  nothingToUndo: "元に戻せる Noteeees の変更はありません。",
+  nothingToRedo: "やり直せる Noteeees の変更はありません。",
+  undoConflict: "「{label}」の後に「{name}」が変更されたため、元に戻しませんでした。",
+  redoConflict: "「{label}」を元に戻した後に「{name}」が変更されたため、やり直しませんでした。",
   addCandidateFailed: "候補タスクの追加に失敗しました。",
   aiMomentsProcessing: "{from} ～ {to} の Moments を分析しています...",
   aiNotesProcessing: "{from} ～ {to} のノートを分析しています...",
@@ -255,6 +532,14 @@ const ja: Record<keyof typeof en, string> = {
   backToToday: "今日に戻る",
   todaySuffix: "・今日",
   pinnedHeader: "固定",
+  archivedBadge: "アーカイブ済み",
+  tagModeAll: "すべてのタグ",
+  tagModeAny: "いずれかのタグ",
+  tagModeToggle: "選択したタグをすべて含むか、いずれかを含むエントリーを表示するかを切り替えます",
+  removeTagFilter: "{tag} をフィルターから外す",
+  renameTag: "すべての Moments で {tag} の名前を変更",
+  tagSuggestions: "タグの候補",
+  archivedReadOnly: "アーカイブ済みの日です。編集するにはアーカイブを解除してください",
   emptyToday: "今日はまだモーメントがありません",
   emptyHint: "アイデアを記録するか、#タグ で分類しましょう",
   capturePlaceholder: "ひらめきをメモ...（#タグで分類）",
@@ -277,11 +562,22 @@ const ja: Record<keyof typeof en, string> = {
   momentSaveFailed: "そのモーメントを保存できませんでした。",
   momentDeleteFailed: "そのモーメントを削除できませんでした。",
   momentDeleteConfirm: "このモーメントを削除しますか？",
+  attachmentSaveFailed: "添付ファイル「{name}」を保存できませんでした。",
+  momentDeleteThreadConfirm: "このモーメントと {count} 件の返信を削除しますか？",
   momentDeleteBtn: "削除",
   momentsExported: "{count} 件のモーメントを {name} にエクスポートしました。",
   momentCount: "{count} 件のモーメント",
   listSeparator: "、",
   todayBadge: "今日",
+  reply: "返信",
+  makeTask: "タスクにする",
+  makeNote: "ノートにする",
+  promotedTask: "{target} のタスクに変換済み",
+  promotedNote: "ノート {target} に変換済み",
+  attachmentTooLarge: "「{name}」は 25 MB を超えるため添付しませんでした。",
+  replyPlaceholder: "返信を入力...",
+  showReplies: "{count} 件の返信",
+  hideReplies: "返信を隠す",
 
   // --- Sidebar ---
   sidebarPinned: "固定",
@@ -312,6 +608,8 @@ const ja: Record<keyof typeof en, string> = {
   autoSelect: "自動選択",
   periodLabel: "期間:",
   searchTasksPlaceholder: "タスクを検索…",
+  searchQueryHint:
+    '語句、"フレーズ"、tag:#work path:projects/ due<+7d date>=-1w priority:high is:overdue -done',
   sectionToday: "今日",
   sectionPlanned: "予定",
   sectionUnsorted: "未分類",
@@ -346,6 +644,68 @@ const ja: Record<keyof typeof en, string> = {
   aiBadge: "AI",
   taskTextRequired: "タスクのテキストを入力してください。",
   due: "期限",
+  repeats: "繰り返し",
+  subtasks: "完了したサブタスク",
+  expandSubtasks: "サブタスクを表示",
+  collapseSubtasks: "サブタスクを隠す",
+  saveView: "ビューを保存",
+  saveViewTitle: "現在のクエリをビュータブとして保存",
+  removeView: "ビューを削除",
+  layoutList: "リスト",
+  layoutBoard: "ボード",
+  boardGroupLabel: "ボードの列",
+  boardGroupBySection: "日付別",
+  boardGroupByTag: "タグ別",
+  boardOverdue: "期限超過",
+  boardToday: "今日",
+  boardUpcoming: "7日以内",
+  boardScheduled: "それ以降",
+  boardBacklog: "日付なし",
+  boardDone: "完了",
+  boardNoTag: "タグなし",
+  layoutCalendar: "カレンダー",
+  calendarPrevMonth: "前の月",
+  calendarNextMonth: "次の月",
+  calendarThisMonth: "今月",
+  calendarDailyNote: "デイリーノート",
+  calendarMoments: "Moments",
+  calendarMore: "他 {count} 件",
+  calendarOpenDay:
+    "クリックでこの日のデイリーノートまたは Moments を開く。タスクをドロップすると期日を変更",
+  layoutMoments: "Moments 統計",
+  momentsStatsEmpty:
+    "過去 1 年間の Moments はありません||Moments パネルに投稿すると、ここに記録が表示されます。",
+  momentsStatsPosts: "過去 1 年間の投稿数",
+  momentsStatsActiveDays: "投稿した日数",
+  momentsStatsCurrentStreak: "現在の連続日数",
+  momentsStatsLongestStreak: "最長連続日数",
+  momentsStatsDays: "{count} 日",
+  momentsStatsHeatmap: "投稿アクティビティ",
+  momentsStatsDayPosts: "{date}: {count} 件の投稿",
+  momentsStatsHours: "時間帯別の投稿数",
+  momentsStatsHourPosts: "{hour}:00 台 - {count} 件",
+  momentsStatsTags: "月別の上位ハッシュタグ",
+  momentsStatsNoTags: "過去 6 か月間にハッシュタグはありません。",
+  momentsStatsTotal: "合計",
+  selectTasks: "選択",
+  selectTasksTitle: "複数のタスクを選択してまとめて変更",
+  selectTask: "タスクを選択",
+  bulkSelected: "{count} 件を選択中",
+  bulkComplete: "完了にする",
+  bulkToday: "今日",
+  bulkTomorrow: "明日",
+  bulkNextWeek: "来週",
+  bulkPickDate: "指定日に変更",
+  bulkAddTag: "タグを追加",
+  bulkRemoveTag: "タグを削除",
+  bulkMove: "移動…",
+  bulkDelete: "削除",
+  bulkClear: "選択を解除",
+  moveToFile: "ファイルへ移動…",
+  undoneChange: "元に戻しました: {label}",
+  redoneChange: "やり直しました: {label}",
+  undoBtn: "元に戻す",
+  redoBtn: "やり直す",
   noDate: "日付なし",
   dismissError: "エラーを閉じる",
 
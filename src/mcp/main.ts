@@ -0,0 +1,71 @@
+import * as path from "path";
+import type { MomentTimeOptions } from "../../shared/momentSyntax.js";
+import { runStdioServer } from "./server.js";
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index >= 0 && index + 1 < args.length) {
+    return args[index + 1];
+  }
+  const inline = args.find((arg) => arg.startsWith(`${name}=`));
+  return inline?.slice(name.length + 1);
+}
+
+/** Read like `notes.momentsTimeFormat` / `notes.momentsUtcOffset`: unknown values fall back to the defaults. */
+function readMomentTimeOptions(args: string[]): MomentTimeOptions {
+  const timeFormat =
+    readOption(args, "--moments-time-format") ?? process.env.NOTEEEES_MOMENTS_TIME_FORMAT;
+  const utcOffset =
+    readOption(args, "--moments-utc-offset") ?? process.env.NOTEEEES_MOMENTS_UTC_OFFSET;
+  return {
+    seconds: timeFormat === "HH:mm:ss",
+    utcOffset: utcOffset === "entry" || utcOffset === "frontMatter" ? utcOffset : "off",
+  };
+}
+
+/** Read like `notes.momentsDayStartHour`: clamped to 0–23, 0 when unset. */
+function readMomentsDayStartHour(args: string[]): number {
+  const hour = Math.floor(
+    Number(
+      readOption(args, "--moments-day-start-hour") ??
+        process.env.NOTEEEES_MOMENTS_DAY_START_HOUR ??
+        0,
+    ),
+  );
+  return Number.isFinite(hour) ? Math.min(23, Math.max(0, hour)) : 0;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const notesDir = readOption(args, "--notes-dir") ?? process.env.NOTEEEES_NOTES_DIR;
+  if (!notesDir) {
+    console.error(
+      "Usage: node mcp-server.js --notes-dir <path> [--moments-subfolder <name>]\n" +
+        "       [--moments-time-format HH:mm|HH:mm:ss] [--moments-utc-offset off|entry|frontMatter]\n" +
+        "       [--moments-day-start-hour <0-23>]\n" +
+        "       (or set NOTEEEES_NOTES_DIR / NOTEEEES_MOMENTS_SUBFOLDER / NOTEEEES_MOMENTS_TIME_FORMAT /\n" +
+        "        NOTEEEES_MOMENTS_UTC_OFFSET / NOTEEEES_MOMENTS_DAY_START_HOUR)",
+    );
+    process.exit(1);
+  }
+
+  const momentsSubfolder =
+    readOption(args, "--moments-subfolder") ?? process.env.NOTEEEES_MOMENTS_SUBFOLDER ?? "moments";
+
+  console.error(`[noteeees-mcp] serving ${path.resolve(notesDir)}`);
+  await runStdioServer(
+    {
+      notesDir: path.resolve(notesDir),
+      momentsSubfolder,
+      momentTimeOptions: readMomentTimeOptions(args),
+      momentsDayStartHour: readMomentsDayStartHour(args),
+    },
+    process.stdin,
+    process.stdout,
+  );
+}
+
+main().catch((error: unknown) => {
+  console.error("[noteeees-mcp]", error);
+  process.exit(1);
+});
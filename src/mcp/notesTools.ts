@@ -0,0 +1,330 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { collectNoteFiles } from "../../shared/collectNoteFiles.js";
+import { formatDateString } from "../../shared/dateFormat.js";
+import {
+  buildMomentEntryText,
+  buildMomentsFileHeader,
+  formatMomentTime,
+  formatUtcOffset,
+  getMomentDateString,
+  parseMomentsFileUtcOffset,
+  type MomentTimeOptions,
+} from "../../shared/momentSyntax.js";
+import {
+  buildQueryExcerpt,
+  extractNoteMetadata,
+  stripFrontMatter,
+} from "../../shared/noteContent.js";
+import { dateFromFilePath } from "../../shared/noteFilename.js";
+import { isPathInside } from "../../shared/pathSafety.js";
+import { buildTaskId, locateTaskLine, resolveTaskRef } from "../../shared/taskRef.js";
+import {
+  buildNextRecurringTaskText,
+  buildTaskMarkdownLine,
+  findSubtaskLineIndexes,
+  parseTaskLine,
+} from "../../shared/taskSyntax.js";
+
+export interface NotesToolContext {
+  notesDir: string;
+  momentsSubfolder: string;
+  /** `notes.momentsTimeFormat` / `notes.momentsUtcOffset`; local `HH:mm` when unset. */
+  momentTimeOptions?: MomentTimeOptions;
+  /** `notes.momentsDayStartHour`; midnight when unset. */
+  momentsDayStartHour?: number;
+}
+
+export interface NoteSearchResult {
+  path: string;
+  title: string;
+  tags: string[];
+  excerpt: string;
+  mtime: string;
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export interface TaskListItem {
+  id: string;
+  path: string;
+  line: number;
+  text: string;
+  done: boolean;
+  tags: string[];
+  dueDate: string | null;
+  recurrence: string | null;
+  priority: string | null;
+  timeEstimateMin: number | null;
+  category: string | null;
+  noteDate: string | null;
+}
+
+export type TaskStatusFilter = "open" | "done" | "all";
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+interface LoadedNote {
+  relativePath: string;
+  mtime: number;
+  content: string;
+}
+
+async function loadNotes(
+  context: NotesToolContext,
+  includeMoments: boolean,
+): Promise<LoadedNote[]> {
+  const files = await collectNoteFiles(
+    context.notesDir,
+    includeMoments ? [] : [context.momentsSubfolder],
+  );
+  const notes: LoadedNote[] = [];
+  for (const file of files) {
+    try {
+      notes.push({
+        relativePath: file.relativePath,
+        mtime: file.mtime,
+        content: await fs.readFile(file.filePath, "utf8"),
+      });
+    } catch {
+      // skip files removed between listing and reading
+    }
+  }
+  return notes;
+}
+
+function normalizeTag(tag: string): string {
+  const trimmed = tag.trim().normalize("NFKC").toLowerCase();
+  return trimmed.startsWith("#") ? trimmed : `#${trimmed}`;
+}
+
+function clampLimit(limit: number | undefined): number {
+  if (limit === undefined || !Number.isFinite(limit)) {
+    return DEFAULT_SEARCH_LIMIT;
+  }
+  return Math.min(MAX_SEARCH_LIMIT, Math.max(1, Math.floor(limit)));
+}
+
+/**
+ * Case-insensitive AND search over titles, tags and bodies. Title hits weigh
+ * more than body hits; ties fall back to the most recently modified note.
+ */
+export async function searchNotes(
+  context: NotesToolContext,
+  options: { query: string; tag?: string; limit?: number; includeMoments?: boolean },
+): Promise<NoteSearchResult[]> {
+  const terms = options.query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((term) => term.length > 0);
+  const tagFilter = options.tag ? normalizeTag(options.tag) : undefined;
+  const notes = await loadNotes(context, options.includeMoments ?? false);
+
+  const scored: Array<{ result: NoteSearchResult; score: number; mtime: number }> = [];
+  for (const note of notes) {
+    const metadata = extractNoteMetadata(note.content, path.basename(note.relativePath, ".md"));
+    if (tagFilter && !metadata.tags.some((tag) => tag.toLowerCase() === tagFilter)) {
+      continue;
+    }
+
+    const body = stripFrontMatter(note.content);
+    const title = metadata.title.toLowerCase();
+    const haystack =
+      `${note.relativePath}\n${title}\n${metadata.tags.join(" ")}\n${body}`.toLowerCase();
+    if (!terms.every((term) => haystack.includes(term))) {
+      continue;
+    }
+
+    let score = 0;
+    for (const term of terms) {
+      if (title.includes(term)) {
+        score += 3;
+      }
+      score += haystack.split(term).length - 1;
+    }
+
+    scored.push({
+      score,
+      mtime: note.mtime,
+      result: {
+        path: note.relativePath,
+        title: metadata.title,
+        tags: metadata.tags,
+        excerpt: buildQueryExcerpt(body, options.query, 160),
+        mtime: new Date(note.mtime).toISOString(),
+      },
+    });
+  }
+
+  scored.sort((left, right) => right.score - left.score || right.mtime - left.mtime);
+  return scored.slice(0, clampLimit(options.limit)).map((entry) => entry.result);
+}
+
+export async function readNote(context: NotesToolContext, relativePath: string): Promise<string> {
+  const filePath = path.resolve(context.notesDir, relativePath);
+  if (!isPathInside(context.notesDir, filePath) || !filePath.endsWith(".md")) {
+    throw new Error(`Path is outside the notes directory or not a Markdown file: ${relativePath}`);
+  }
+  return fs.readFile(filePath, "utf8");
+}
+
+export async function listTags(context: NotesToolContext): Promise<TagCount[]> {
+  const notes = await loadNotes(context, false);
+  const counts = new Map<string, number>();
+  for (const note of notes) {
+    const { tags } = extractNoteMetadata(note.content, "");
+    for (const tag of tags) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((left, right) => right.count - left.count || left.tag.localeCompare(right.tag));
+}
+
+/** Lists Markdown checkbox tasks the same way the Task Dashboard collects them. */
+export async function listTasks(
+  context: NotesToolContext,
+  options: { status?: TaskStatusFilter; tag?: string } = {},
+): Promise<TaskListItem[]> {
+  const status = options.status ?? "open";
+  const tagFilter = options.tag ? normalizeTag(options.tag) : undefined;
+  const notes = await loadNotes(context, false);
+  const tasks: TaskListItem[] = [];
+
+  for (const note of notes) {
+    const noteDate = dateFromFilePath(note.relativePath);
+    const lines = note.content.split("\n");
+    lines.forEach((line, lineIndex) => {
+      const parsed = parseTaskLine(line.replace(/\r$/, ""));
+      if (!parsed) {
+        return;
+      }
+      if ((status === "open" && parsed.done) || (status === "done" && !parsed.done)) {
+        return;
+      }
+      if (tagFilter && !parsed.tags.some((tag) => tag.toLowerCase() === tagFilter)) {
+        return;
+      }
+
+      tasks.push({
+        id: buildTaskId(note.relativePath, lineIndex, parsed.text),
+        path: note.relativePath,
+        line: lineIndex + 1,
+        text: parsed.text,
+        done: parsed.done,
+        tags: parsed.tags,
+        dueDate: parsed.dueDate,
+        recurrence: parsed.recurrence?.rule ?? null,
+        priority: parsed.priority,
+        timeEstimateMin: parsed.timeEstimateMin,
+        category: parsed.category,
+        noteDate,
+      });
+    });
+  }
+
+  return tasks;
+}
+
+/**
+ * Appends a `- HH:mm text` entry to the Moments file of the given (or current) day, stamped
+ * and dated as the extension would with the context's Moments time settings.
+ */
+export async function appendMoment(
+  context: NotesToolContext,
+  options: { text: string; date?: string },
+): Promise<{ path: string; entry: string }> {
+  const text = options.text.trim();
+  if (!text) {
+    throw new Error("Moment text must not be empty.");
+  }
+
+  const now = new Date();
+  const timeOptions = context.momentTimeOptions ?? { seconds: false, utcOffset: "off" };
+  const date = options.date ?? getMomentDateString(now, context.momentsDayStartHour ?? 0);
+  if (!DATE_RE.test(date)) {
+    throw new Error(`Invalid date (expected YYYY-MM-DD): ${date}`);
+  }
+
+  const momentsDir = path.resolve(context.notesDir, context.momentsSubfolder);
+  if (!isPathInside(context.notesDir, momentsDir)) {
+    throw new Error(`Moments folder is outside the notes directory: ${context.momentsSubfolder}`);
+  }
+  await fs.mkdir(momentsDir, { recursive: true });
+
+  const filePath = path.join(momentsDir, `${date}.md`);
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf8");
+  } catch {
+    const offset = timeOptions.utcOffset === "frontMatter" ? formatUtcOffset(now) : undefined;
+    content = buildMomentsFileHeader(date, offset);
+    await fs.writeFile(filePath, content, "utf8");
+  }
+
+  const time = formatMomentTime(now, timeOptions, parseMomentsFileUtcOffset(content));
+  const entry = buildMomentEntryText(time, text);
+  const prefix = content.length > 0 && !content.endsWith("\n") ? "\n" : "";
+  await fs.appendFile(filePath, prefix + entry, "utf8");
+
+  return { path: path.relative(context.notesDir, filePath), entry: entry.trimEnd() };
+}
+
+/** Flips (or sets) the checkbox of a `list_tasks` task, re-locating it if its line moved. */
+export async function toggleTask(
+  context: NotesToolContext,
+  options: { id: string; done?: boolean },
+): Promise<TaskListItem> {
+  const ref = resolveTaskRef(context.notesDir, options.id);
+  if (!ref) {
+    throw new Error(`Invalid task id: ${options.id}`);
+  }
+
+  const content = await fs.readFile(ref.filePath, "utf8");
+  const lines = content.split("\n");
+  const lineIndex = locateTaskLine(lines, ref);
+  const line = lineIndex === null ? undefined : lines[lineIndex];
+  const parsed = line === undefined ? null : parseTaskLine(line.replace(/\r$/, ""));
+  if (lineIndex === null || line === undefined || !parsed) {
+    throw new Error(`Task not found or changed since it was listed: ${options.id}`);
+  }
+
+  const done = options.done ?? !parsed.done;
+  const eol = line.endsWith("\r") ? "\r" : "";
+  lines[lineIndex] = buildTaskMarkdownLine(done, parsed.text, parsed.indent) + eol;
+
+  const nextText =
+    done && !parsed.done
+      ? buildNextRecurringTaskText(parsed.text, formatDateString(new Date()))
+      : null;
+  if (nextText) {
+    const insertAt = (findSubtaskLineIndexes(lines, lineIndex).at(-1) ?? lineIndex) + 1;
+    const nextLine = buildTaskMarkdownLine(false, nextText, parsed.indent) + eol;
+    if (lines[insertAt] !== nextLine) {
+      lines.splice(insertAt, 0, nextLine);
+    }
+  }
+  await fs.writeFile(ref.filePath, lines.join("\n"), "utf8");
+
+  return {
+    id: buildTaskId(ref.relativePath, lineIndex, parsed.text),
+    path: ref.relativePath,
+    line: lineIndex + 1,
+    text: parsed.text,
+    done,
+    tags: parsed.tags,
+    dueDate: parsed.dueDate,
+    recurrence: parsed.recurrence?.rule ?? null,
+    priority: parsed.priority,
+    timeEstimateMin: parsed.timeEstimateMin,
+    category: parsed.category,
+    noteDate: dateFromFilePath(ref.relativePath),
+  };
+}
@@ -0,0 +1,367 @@
+import * as readline from "readline";
+import type { Readable, Writable } from "stream";
+import {
+  appendMoment,
+  listTags,
+  listTasks,
+  readNote,
+  searchNotes,
+  toggleTask,
+  type NotesToolContext,
+  type TaskStatusFilter,
+} from "./notesTools.js";
+
+/** The package.json version, injected by esbuild; unset when the sources run unbundled. */
+declare const __NOTEEEES_VERSION__: string | undefined;
+
+export const MCP_SERVER_NAME = "noteeees";
+export const MCP_SERVER_VERSION =
+  typeof __NOTEEEES_VERSION__ === "string" ? __NOTEEEES_VERSION__ : "0.0.0-dev";
+const DEFAULT_PROTOCOL_VERSION = "2024-11-05";
+
+const JSON_RPC_PARSE_ERROR = -32700;
+const JSON_RPC_INVALID_REQUEST = -32600;
+const JSON_RPC_METHOD_NOT_FOUND = -32601;
+const JSON_RPC_INVALID_PARAMS = -32602;
+const JSON_RPC_INTERNAL_ERROR = -32603;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface McpToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+interface McpToolResult {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}
+
+export const MCP_TOOLS: McpToolDefinition[] = [
+  {
+    name: "search_notes",
+    description:
+      "Search notes by keywords (all terms must match). Moments are excluded unless include_moments is true.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Space-separated search terms" },
+        tag: { type: "string", description: "Only return notes with this tag, e.g. #project" },
+        limit: { type: "number", description: "Maximum results (default 20, max 100)" },
+        include_moments: { type: "boolean", description: "Also search Moments files" },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "read_note",
+    description:
+      "Read the full Markdown content of a note by its path relative to the notes directory.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Relative path, e.g. 2026-03-07_meeting.md" },
+      },
+      required: ["path"],
+    },
+  },
+  {
+    name: "list_tags",
+    description: "List front-matter and inline tags across all notes with their note counts.",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "list_tasks",
+    description:
+      "List Markdown checkbox tasks from notes. Each task has an id usable with toggle_task.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        status: { type: "string", enum: ["open", "done", "all"], description: "Default: open" },
+        tag: { type: "string", description: "Only return tasks with this tag" },
+      },
+    },
+  },
+  {
+    name: "append_moment",
+    description: "Append a timestamped entry to the Moments file of today (or the given date).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        text: { type: "string", description: "Moment text; #tags are kept as-is" },
+        date: { type: "string", description: "Target date as YYYY-MM-DD (default: today)" },
+      },
+      required: ["text"],
+    },
+  },
+  {
+    name: "toggle_task",
+    description:
+      "Toggle a task's checkbox, or set it explicitly with done. Completing a recurring task inserts its next occurrence.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Task id from list_tasks (relative/path.md:lineIndex@fingerprint)",
+        },
+        done: { type: "boolean", description: "Set the state instead of toggling" },
+      },
+      required: ["id"],
+    },
+  },
+];
+
+function requireString(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== "string" || value.length === 0) {
+    throw new Error(`"${key}" must be a non-empty string`);
+  }
+  return value;
+}
+
+function optionalString(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new Error(`"${key}" must be a string`);
+  }
+  return value;
+}
+
+function optionalNumber(args: Record<string, unknown>, key: string): number | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "number") {
+    throw new Error(`"${key}" must be a number`);
+  }
+  return value;
+}
+
+function optionalBoolean(args: Record<string, unknown>, key: string): boolean | undefined {
+  const value = args[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "boolean") {
+    throw new Error(`"${key}" must be a boolean`);
+  }
+  return value;
+}
+
+function parseStatus(value: string | undefined): TaskStatusFilter | undefined {
+  if (value === undefined || value === "open" || value === "done" || value === "all") {
+    return value;
+  }
+  throw new Error(`"status" must be one of open, done, all`);
+}
+
+async function runTool(
+  context: NotesToolContext,
+  name: string,
+  args: Record<string, unknown>,
+): Promise<unknown> {
+  switch (name) {
+    case "search_notes":
+      return searchNotes(context, {
+        query: requireString(args, "query"),
+        tag: optionalString(args, "tag"),
+        limit: optionalNumber(args, "limit"),
+        includeMoments: optionalBoolean(args, "include_moments"),
+      });
+    case "read_note":
+      return readNote(context, requireString(args, "path"));
+    case "list_tags":
+      return listTags(context);
+    case "list_tasks":
+      return listTasks(context, {
+        status: parseStatus(optionalString(args, "status")),
+        tag: optionalString(args, "tag"),
+      });
+    case "append_moment":
+      return appendMoment(context, {
+        text: requireString(args, "text"),
+        date: optionalString(args, "date"),
+      });
+    case "toggle_task":
+      return toggleTask(context, {
+        id: requireString(args, "id"),
+        done: optionalBoolean(args, "done"),
+      });
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
+async function callTool(
+  context: NotesToolContext,
+  params: Record<string, unknown>,
+): Promise<McpToolResult> {
+  const name = typeof params.name === "string" ? params.name : "";
+  const args =
+    params.arguments && typeof params.arguments === "object"
+      ? (params.arguments as Record<string, unknown>)
+      : {};
+
+  try {
+    const result = await runTool(context, name, args);
+    const text = typeof result === "string" ? result : JSON.stringify(result, null, 2);
+    return { content: [{ type: "text", text }] };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { content: [{ type: "text", text: message }], isError: true };
+  }
+}
+
+/**
+ * Handles a single JSON-RPC message. Returns null for notifications, which
+ * must not be answered.
+ */
+export async function handleMcpMessage(
+  context: NotesToolContext,
+  message: JsonRpcRequest,
+): Promise<JsonRpcResponse | null> {
+  const id = message.id ?? null;
+  const isNotification = message.id === undefined;
+  const params = message.params ?? {};
+
+  let result: unknown;
+  switch (message.method) {
+    case "initialize":
+      result = {
+        protocolVersion:
+          typeof params.protocolVersion === "string"
+            ? params.protocolVersion
+            : DEFAULT_PROTOCOL_VERSION,
+        capabilities: { tools: {} },
+        serverInfo: { name: MCP_SERVER_NAME, version: MCP_SERVER_VERSION },
+      };
+      break;
+    case "ping":
+      result = {};
+      break;
+    case "tools/list":
+      result = { tools: MCP_TOOLS };
+      break;
+    case "tools/call":
+      result = await callTool(context, params);
+      break;
+    default:
+      if (isNotification) {
+        return null;
+      }
+      return {
+        jsonrpc: "2.0",
+        id,
+        error: { code: JSON_RPC_METHOD_NOT_FOUND, message: `Method not found: ${message.method}` },
+      };
+  }
+
+  return isNotification ? null : { jsonrpc: "2.0", id, result };
+}
+
+function parseMessage(line: string): JsonRpcRequest | JsonRpcResponse {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(line);
+  } catch {
+    return {
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: JSON_RPC_PARSE_ERROR, message: "Parse error" },
+    };
+  }
+
+  if (
+    !parsed ||
+    typeof parsed !== "object" ||
+    typeof (parsed as { method?: unknown }).method !== "string"
+  ) {
+    return {
+      jsonrpc: "2.0",
+      id: (parsed as { id?: string | number } | null)?.id ?? null,
+      error: { code: JSON_RPC_INVALID_REQUEST, message: "Invalid request" },
+    };
+  }
+
+  const request = parsed as JsonRpcRequest;
+  if (request.params !== undefined && (typeof request.params !== "object" || !request.params)) {
+    return {
+      jsonrpc: "2.0",
+      id: request.id ?? null,
+      error: { code: JSON_RPC_INVALID_PARAMS, message: "Invalid params" },
+    };
+  }
+  return request;
+}
+
+/** Serves newline-delimited JSON-RPC (the MCP stdio transport) until input ends. */
+export function runStdioServer(
+  context: NotesToolContext,
+  input: Readable,
+  output: Writable,
+): Promise<void> {
+  const reader = readline.createInterface({ input, crlfDelay: Infinity });
+  const pending = new Set<Promise<void>>();
+
+  const write = (response: JsonRpcResponse) => {
+    output.write(`${JSON.stringify(response)}\n`);
+  };
+
+  reader.on("line", (line) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    const message = parseMessage(line);
+    if (!("method" in message)) {
+      write(message);
+      return;
+    }
+
+    const task = handleMcpMessage(context, message)
+      .then((response) => {
+        if (response) {
+          write(response);
+        }
+      })
+      .catch((error: unknown) => {
+        console.error("[noteeees-mcp]", error);
+        if (message.id !== undefined) {
+          write({
+            jsonrpc: "2.0",
+            id: message.id,
+            error: {
+              code: JSON_RPC_INTERNAL_ERROR,
+              message: error instanceof Error ? error.message : "Internal error",
+            },
+          });
+        }
+      })
+      .finally(() => pending.delete(task));
+    pending.add(task);
+  });
+
+  return new Promise((resolve) => {
+    reader.on("close", () => {
+      void Promise.all(pending).then(() => resolve());
+    });
+  });
+}
@@ -0,0 +1,143 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { splitMomentsRollup, type MomentsDayContent } from "../../shared/momentSyntax.js";
+
+/** Where `notes.archiveMoments` keeps a day, by `notes.momentsArchiveMode`. */
+export type MomentsArchiveMode = "daily" | "monthly" | "yearly";
+
+export interface ArchivedMomentsDay {
+  date: string;
+  /** The archived day file, or the monthly / yearly file holding the day. */
+  filePath: string;
+  rollup: boolean;
+  /** The day's section of a monthly / yearly file; day files are read when needed. */
+  content?: string;
+}
+
+const DAY_FILE_RE = /^(\d{4}-\d{2}-\d{2})\.md$/;
+const MONTH_DIR_RE = /^\d{4}-\d{2}$/;
+const ROLLUP_FILE_RE = /^(\d{4}(?:-\d{2})?)\.md$/;
+
+export function getMomentsArchiveDirectory(momentsDir: string): string {
+  return path.join(momentsDir, "archive");
+}
+
+/** `archive/YYYY-MM/YYYY-MM-DD.md`, where daily mode moves a day. */
+export function getArchivedMomentsDayPath(momentsDir: string, date: string): string {
+  return path.join(getMomentsArchiveDirectory(momentsDir), date.slice(0, 7), `${date}.md`);
+}
+
+/** `archive/YYYY-MM.md` or `archive/YYYY.md`, the file a monthly or yearly archive merges a day into. */
+export function getMomentsRollupPath(
+  momentsDir: string,
+  date: string,
+  mode: Exclude<MomentsArchiveMode, "daily">,
+): string {
+  const period = mode === "monthly" ? date.slice(0, 7) : date.slice(0, 4);
+  return path.join(getMomentsArchiveDirectory(momentsDir), `${period}.md`);
+}
+
+async function readDirectoryEntries(dir: string) {
+  try {
+    return await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+}
+
+/** The days of a monthly or yearly archive file; none when it does not exist. */
+export async function readMomentsRollupDays(filePath: string): Promise<MomentsDayContent[]> {
+  try {
+    return splitMomentsRollup(await fs.readFile(filePath, "utf8"));
+  } catch {
+    return [];
+  }
+}
+
+/** Archived day files (`archive/YYYY-MM/YYYY-MM-DD.md`) and monthly / yearly files. */
+export async function listMomentsArchiveFiles(
+  momentsDir: string,
+): Promise<Array<{ filePath: string; rollup: boolean }>> {
+  const archiveDir = getMomentsArchiveDirectory(momentsDir);
+  const files: Array<{ filePath: string; rollup: boolean }> = [];
+
+  for (const entry of await readDirectoryEntries(archiveDir)) {
+    const filePath = path.join(archiveDir, entry.name);
+    if (entry.isFile() && ROLLUP_FILE_RE.test(entry.name)) {
+      files.push({ filePath, rollup: true });
+      continue;
+    }
+    if (!entry.isDirectory() || !MONTH_DIR_RE.test(entry.name)) {
+      continue;
+    }
+    for (const file of await readDirectoryEntries(filePath)) {
+      if (file.isFile() && DAY_FILE_RE.test(file.name)) {
+        files.push({ filePath: path.join(filePath, file.name), rollup: false });
+      }
+    }
+  }
+
+  return files;
+}
+
+/** Every archived day, whichever mode archived it. A day file wins over a rollup section. */
+export async function listArchivedMomentDays(
+  momentsDir: string,
+): Promise<Map<string, ArchivedMomentsDay>> {
+  const days = new Map<string, ArchivedMomentsDay>();
+
+  for (const { filePath, rollup } of await listMomentsArchiveFiles(momentsDir)) {
+    if (!rollup) {
+      const date = path.basename(filePath, ".md");
+      days.set(date, { date, filePath, rollup });
+      continue;
+    }
+    for (const { date, content } of await readMomentsRollupDays(filePath)) {
+      if (!days.has(date)) {
+        days.set(date, { date, filePath, rollup, content });
+      }
+    }
+  }
+
+  return days;
+}
+
+/** The content of a day listed by `listArchivedMomentDays`; null when its file is gone. */
+export async function readArchivedMomentsDayContent(
+  day: ArchivedMomentsDay,
+): Promise<string | null> {
+  if (day.content !== undefined) {
+    return day.content;
+  }
+  try {
+    return await fs.readFile(day.filePath, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The archived content of `date` as a regular day file, looked up in the day file, then
+ * the monthly and yearly files; null when the day is not archived.
+ */
+export async function readArchivedMomentsDay(
+  momentsDir: string,
+  date: string,
+): Promise<{ content: string; day: ArchivedMomentsDay } | null> {
+  const dayPath = getArchivedMomentsDayPath(momentsDir, date);
+  try {
+    const content = await fs.readFile(dayPath, "utf8");
+    return { content, day: { date, filePath: dayPath, rollup: false } };
+  } catch {
+    // Not archived as a day file.
+  }
+
+  for (const mode of ["monthly", "yearly"] as const) {
+    const filePath = getMomentsRollupPath(momentsDir, date, mode);
+    const section = (await readMomentsRollupDays(filePath)).find((day) => day.date === date);
+    if (section) {
+      return { content: section.content, day: { date, filePath, rollup: true } };
+    }
+  }
+  return null;
+}
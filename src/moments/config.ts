@@ -1,8 +1,12 @@
 import {
+  getMomentsDayStartHourSetting,
   getMomentsFeedDaysSetting,
   getMomentsInboxFilterSetting,
+  getMomentsTimeFormatSetting,
+  getMomentsUtcOffsetSetting,
   updateMomentsInboxFilterSetting,
 } from "../notesConfig.js";
+import { getMomentDateString, type MomentTimeOptions } from "../../shared/momentSyntax.js";
 import { extractDueDate } from "../../shared/taskSyntax.js";
 import { todayDateString } from "../dashboardTaskUtils.js";
 import type {
@@ -15,7 +19,8 @@ import type {
 } from "./types.js";
 
 const MOMENTS_FEED_DAY_COUNT = 7;
-export const MOMENT_TAG_PATTERN = String.raw`#[\p{L}\p{M}\p{N}_\p{Pd}]+`;
+/** A hashtag, optionally nested with `/`: `#work/projectA` is a child of `#work`. */
+export const MOMENT_TAG_PATTERN = String.raw`#[\p{L}\p{M}\p{N}_\p{Pd}]+(?:/[\p{L}\p{M}\p{N}_\p{Pd}]+)*`;
 
 function matchMomentTags(text: string): string[] {
   return text.match(new RegExp(MOMENT_TAG_PATTERN, "gu")) ?? [];
@@ -25,6 +30,18 @@ function normalizeMomentTag(tag: string): string {
   return tag.normalize("NFKC").toLowerCase();
 }
 
+export function getMomentTimeOptions(): MomentTimeOptions {
+  return {
+    seconds: getMomentsTimeFormatSetting() === "HH:mm:ss",
+    utcOffset: getMomentsUtcOffsetSetting(),
+  };
+}
+
+/** Today's Moments day, which starts at `notes.momentsDayStartHour`. */
+export function momentsTodayDateString(now = new Date()): string {
+  return getMomentDateString(now, getMomentsDayStartHourSetting());
+}
+
 export function normalizeInboxTaskFilter(filter: string | undefined): InboxTaskFilter {
   if (filter === "open" || filter === "done" || filter === "all" || filter === "overdue") {
     return filter;
@@ -37,6 +54,38 @@ export function extractMomentTags(text: string): string[] {
   return [...new Set(matchMomentTags(text).map((tag) => normalizeMomentTag(tag)))];
 }
 
+/** Whether `tag` is `filter` or nested below it; both are normalized tags. */
+export function momentTagMatches(tag: string, filter: string): boolean {
+  return tag === filter || tag.startsWith(`${filter}/`);
+}
+
+/** True for a valid hashtag such as `#idea` or `#work/projectA`. */
+export function isMomentTag(text: string): boolean {
+  return new RegExp(`^${MOMENT_TAG_PATTERN}$`, "u").test(text);
+}
+
+/**
+ * Renames `from` to `to` in `text`, including the tags nested below it (`#work/projectA`
+ * becomes `#job/projectA`). Tags are compared normalized; the nested part keeps its spelling.
+ */
+export function renameMomentTagInText(
+  text: string,
+  from: string,
+  to: string,
+): { text: string; count: number } {
+  const normalizedFrom = normalizeMomentTag(from);
+  const depth = normalizedFrom.split("/").length;
+  let count = 0;
+  const renamed = text.replace(new RegExp(MOMENT_TAG_PATTERN, "gu"), (tag) => {
+    if (!momentTagMatches(normalizeMomentTag(tag), normalizedFrom)) {
+      return tag;
+    }
+    count++;
+    return [to, ...tag.split("/").slice(depth)].join("/");
+  });
+  return { text: renamed, count };
+}
+
 export function filterTaskOverviewItems(
   items: TaskOverviewItem[],
   filter: InboxTaskFilter,
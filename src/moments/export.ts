@@ -0,0 +1,263 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as vscode from "vscode";
+import { collectNoteFiles } from "../../shared/collectNoteFiles.js";
+import { getDailyNoteFilePath } from "../../shared/noteFilename.js";
+import { formatDateString, shiftDate, todayDateString } from "../dashboardTaskUtils.js";
+import { t } from "../i18n.js";
+import { recordMutation } from "../mutationJournal.js";
+import { ensureDailyNote } from "../noteCommands.js";
+import {
+  getDailyNoteTemplateSetting,
+  getMomentsExportTemplateSetting,
+  getMomentsSubfolderSetting,
+} from "../notesConfig.js";
+import { collectMomentsInRange } from "./fileIo.js";
+import type { MomentEntry } from "./types.js";
+
+export type ExportedMoment = MomentEntry & { date: string };
+
+type ExportTarget =
+  | { kind: "new"; folder: string }
+  | { kind: "daily" }
+  | { kind: "append"; filePath: string };
+
+interface ExportTargetQuickPickItem extends vscode.QuickPickItem {
+  target: ExportTarget["kind"];
+}
+
+interface PathQuickPickItem extends vscode.QuickPickItem {
+  filePath: string;
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** The entry text followed by its replies, one `↳ HH:mm text` line each. */
+function getExportText(entry: ExportedMoment): string {
+  const replies = (entry.replies ?? []).map((reply) => `↳ ${reply.time} ${reply.text}`);
+  return [entry.text, ...replies].join("\n");
+}
+
+/**
+ * Renders each entry with the `notes.momentsExportTemplate` placeholders `{date}`, `{time}`,
+ * `{text}` and `{tags}`. Lines after the first of a multi-line entry are indented so they stay
+ * inside a list item.
+ */
+export function renderMomentsExport(entries: ExportedMoment[], template: string): string {
+  return entries
+    .map((entry) => {
+      const text = getExportText(entry).replace(/\n/g, "\n  ");
+      return template
+        .replace(/\{date\}/g, entry.date)
+        .replace(/\{time\}/g, entry.time)
+        .replace(/\{tags\}/g, (entry.tags ?? []).join(" "))
+        .replace(/\{text\}/g, () => text)
+        .split("\n")
+        .map((line) => line.trimEnd())
+        .join("\n");
+    })
+    .join("\n");
+}
+
+export function buildMomentsJson(entries: ExportedMoment[]): string {
+  const data = entries.map((entry) => ({
+    date: entry.date,
+    time: entry.time,
+    done: entry.done,
+    tags: entry.tags ?? [],
+    text: entry.text,
+    replies: (entry.replies ?? []).map((reply) => ({ time: reply.time, text: reply.text })),
+  }));
+  return `${JSON.stringify(data, null, 2)}\n`;
+}
+
+function toCsvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** One `moment` row per entry followed by a `reply` row per reply, CRLF-separated (RFC 4180). */
+export function buildMomentsCsv(entries: ExportedMoment[]): string {
+  const rows = [["date", "time", "type", "done", "tags", "text"]];
+  for (const entry of entries) {
+    rows.push([
+      entry.date,
+      entry.time,
+      "moment",
+      String(entry.done),
+      (entry.tags ?? []).join(" "),
+      entry.text,
+    ]);
+    for (const reply of entry.replies ?? []) {
+      rows.push([entry.date, reply.time, "reply", "", "", reply.text]);
+    }
+  }
+  return `${rows.map((row) => row.map(toCsvCell).join(",")).join("\r\n")}\r\n`;
+}
+
+async function pickExportTarget(notesDir: string): Promise<ExportTarget | undefined> {
+  const items: ExportTargetQuickPickItem[] = [
+    { target: "new", label: t("exportTargetNewNote") },
+    { target: "daily", label: t("exportTargetDaily") },
+    { target: "append", label: t("exportTargetExisting") },
+  ];
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: t("exportTargetPlaceholder"),
+  });
+  if (!picked) {
+    return undefined;
+  }
+  if (picked.target === "daily") {
+    return { kind: "daily" };
+  }
+
+  const notes = await collectNoteFiles(notesDir, [getMomentsSubfolderSetting()]);
+  if (picked.target === "new") {
+    const folders = [...new Set(notes.map((note) => path.dirname(note.relativePath)))]
+      .filter((folder) => folder !== ".")
+      .sort();
+    const folder = await vscode.window.showQuickPick<PathQuickPickItem>(
+      [
+        { label: t("exportRootFolder"), filePath: notesDir },
+        ...folders.map((relative) => ({
+          label: relative,
+          filePath: path.join(notesDir, relative),
+        })),
+      ],
+      { placeHolder: t("exportFolderPlaceholder") },
+    );
+    return folder ? { kind: "new", folder: folder.filePath } : undefined;
+  }
+
+  const note = await vscode.window.showQuickPick<PathQuickPickItem>(
+    notes
+      .sort((a, b) => b.mtime - a.mtime)
+      .map((entry) => ({
+        label: path.basename(entry.filePath, ".md"),
+        description:
+          path.dirname(entry.relativePath) === "." ? "" : path.dirname(entry.relativePath),
+        filePath: entry.filePath,
+      })),
+    { placeHolder: t("exportNotePlaceholder"), matchOnDescription: true },
+  );
+  return note ? { kind: "append", filePath: note.filePath } : undefined;
+}
+
+async function appendToNote(filePath: string, body: string): Promise<void> {
+  const existing = await fs.readFile(filePath, "utf8");
+  let separator = "";
+  if (existing.trim()) {
+    separator = existing.endsWith("\n\n") ? "" : existing.endsWith("\n") ? "\n" : "\n\n";
+  }
+  await fs.writeFile(filePath, `${existing}${separator}${body}\n`, "utf8");
+}
+
+/** Writes `entries` to a new note, today's daily note or an existing note, as the user picks. */
+export async function exportMomentsToNote(
+  notesDir: string,
+  entries: ExportedMoment[],
+): Promise<void> {
+  const target = await pickExportTarget(notesDir);
+  if (!target) {
+    return;
+  }
+
+  const body = renderMomentsExport(entries, getMomentsExportTemplateSetting());
+  let filePath: string;
+  let write: () => Promise<unknown>;
+  if (target.kind === "new") {
+    const now = new Date();
+    const pad = (n: number) => String(n).padStart(2, "0");
+    const stamp = `${formatDateString(now)}_${pad(now.getHours())}-${pad(now.getMinutes())}-${pad(now.getSeconds())}`;
+    filePath = path.join(target.folder, `${stamp}_exported-moments.md`);
+    write = () => fs.writeFile(filePath, `# Exported Moments\n\n${body}\n`, "utf8");
+  } else if (target.kind === "daily") {
+    filePath = getDailyNoteFilePath(notesDir, todayDateString());
+    write = async () =>
+      appendToNote(await ensureDailyNote(notesDir, getDailyNoteTemplateSetting()), body);
+  } else {
+    filePath = target.filePath;
+    write = () => appendToNote(filePath, body);
+  }
+
+  await recordMutation(t("journalExportMoments"), [filePath], write);
+
+  const doc = await vscode.workspace.openTextDocument(filePath);
+  await vscode.window.showTextDocument(doc);
+  void vscode.window.showInformationMessage(
+    t("momentsExported", { count: entries.length, name: path.basename(filePath) }),
+  );
+}
+
+async function promptMomentsDate(prompt: string, value: string): Promise<string | undefined> {
+  const input = await vscode.window.showInputBox({
+    prompt,
+    value,
+    validateInput: (text) => (DATE_RE.test(text.trim()) ? undefined : t("dueDateInvalid")),
+  });
+  return input?.trim();
+}
+
+/** Asks for a first and last date (up to today by default); swapped when given in reverse. */
+export async function promptMomentsRange(
+  fromPrompt: string,
+  toPrompt: string,
+  defaultFrom: string,
+): Promise<{ from: string; to: string } | undefined> {
+  const from = await promptMomentsDate(fromPrompt, defaultFrom);
+  if (!from) {
+    return undefined;
+  }
+  const to = await promptMomentsDate(toPrompt, todayDateString());
+  if (!to) {
+    return undefined;
+  }
+  return from > to ? { from: to, to: from } : { from, to };
+}
+
+/** `notes.exportMoments`: exports a date range as Markdown (through the template), JSON or CSV. */
+export async function exportMomentsRange(notesDir: string): Promise<void> {
+  const range = await promptMomentsRange(
+    t("exportFromPrompt"),
+    t("exportToPrompt"),
+    shiftDate(todayDateString(), -6),
+  );
+  if (!range) {
+    return;
+  }
+
+  const { from, to } = range;
+  const entries = await collectMomentsInRange(notesDir, from, to);
+  if (entries.length === 0) {
+    void vscode.window.showInformationMessage(t("noMomentsInRange", { from, to }));
+    return;
+  }
+
+  const format = await vscode.window.showQuickPick(
+    [
+      { label: t("exportFormatMarkdown"), format: "md" },
+      { label: t("exportFormatJson"), format: "json" },
+      { label: t("exportFormatCsv"), format: "csv" },
+    ],
+    { placeHolder: t("exportFormatPlaceholder") },
+  );
+  if (!format) {
+    return;
+  }
+  if (format.format === "md") {
+    await exportMomentsToNote(notesDir, entries);
+    return;
+  }
+
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(notesDir, `moments_${from}_${to}.${format.format}`)),
+    filters: { [format.format.toUpperCase()]: [format.format] },
+  });
+  if (!uri) {
+    return;
+  }
+  const content = format.format === "json" ? buildMomentsJson(entries) : buildMomentsCsv(entries);
+  await fs.writeFile(uri.fsPath, content, "utf8");
+  void vscode.window.showInformationMessage(
+    t("momentsExported", { count: entries.length, name: path.basename(uri.fsPath) }),
+  );
+}
@@ -1,13 +1,59 @@
 import * as fs from "fs/promises";
 import * as path from "path";
-import { formatDateString, formatTimeHM, todayDateString } from "../dashboardTaskUtils.js";
-import { getMomentsArchiveAfterDaysSetting, getMomentsSubfolderSetting } from "../notesConfig.js";
+import {
+  addMomentPromotionMarker,
+  buildMomentEntryText,
+  buildMomentReplyLines,
+  buildMomentsFileHeader,
+  buildMomentsRollup,
+  formatMomentTime,
+  formatUtcOffset,
+  getMomentThreadText,
+  MOMENT_PROMOTION_RE,
+  MOMENT_TIME_PATTERN,
+  parseMomentEntries,
+  parseMomentEntryStart,
+  parseMomentReplyStart,
+  parseMomentsFileUtcOffset,
+} from "../../shared/momentSyntax.js";
+import { resolveUniqueFilePath } from "../../shared/pathSafety.js";
+import { buildNextRecurringTaskText } from "../../shared/taskSyntax.js";
+import { formatDateString } from "../dashboardTaskUtils.js";
+import {
+  getMomentsArchiveAfterDaysSetting,
+  getMomentsArchiveModeSetting,
+  getMomentsIncludeArchiveSetting,
+  getMomentsSubfolderSetting,
+} from "../notesConfig.js";
+import { getNotesSearchIndex, normalizeMomentsSubfolder } from "../notesSearchIndex.js";
 import {
   extractMomentTags,
   getMomentsFeedDayCount,
+  getMomentTimeOptions,
+  momentsTodayDateString,
   normalizeMomentsFeedDayCount,
+  renameMomentTagInText,
 } from "./config.js";
 import type { MomentDaySection, MomentEntry } from "./types.js";
+import {
+  type ArchivedMomentsDay,
+  getArchivedMomentsDayPath,
+  getMomentsArchiveDirectory,
+  getMomentsRollupPath,
+  listArchivedMomentDays,
+  listMomentsArchiveFiles,
+  readArchivedMomentsDay,
+  readArchivedMomentsDayContent,
+  readMomentsRollupDays,
+} from "./archive.js";
+
+const ENTRY_DONE_LINE_RE = new RegExp(
+  String.raw`^-\s+\[x\]\s+(${MOMENT_TIME_PATTERN})\s+(.*)$`,
+  "i",
+);
+const ENTRY_TODO_LINE_RE = new RegExp(String.raw`^-\s+\[ \]\s+(${MOMENT_TIME_PATTERN})\s+(.*)$`);
+const ENTRY_LINE_RE = new RegExp(String.raw`^(-\s+)(${MOMENT_TIME_PATTERN})\s+(.*)$`);
+const ENTRY_TOGGLE_RE = new RegExp(String.raw`^(-\s+)(${MOMENT_TIME_PATTERN}\s+.*)$`);
 
 // ---------------------------------------------------------------------------
 // File path helpers
@@ -22,70 +68,76 @@ export function getMomentsDirectory(notesDir: string): string {
   return path.join(notesDir, getMomentsSubfolderSetting());
 }
 
-async function listMomentFileDates(notesDir: string): Promise<string[]> {
+/** Attachments pasted into a day's Moments, linked as `assets/YYYY-MM-DD/name`. */
+export function getMomentsAssetsDirectory(notesDir: string, date: string): string {
+  return path.join(getMomentsDirectory(notesDir), "assets", date);
+}
+
+/**
+ * Dates with a Moments file, newest first, including archived days unless `includeArchive` is
+ * off, and the archived days read on the way so callers do not split the rollups again.
+ */
+async function listMomentDays(
+  notesDir: string,
+  includeArchive = getMomentsIncludeArchiveSetting(),
+): Promise<{ dates: string[]; archived: Map<string, ArchivedMomentsDay> }> {
   const momentsDir = getMomentsDirectory(notesDir);
+  const archived = new Map<string, ArchivedMomentsDay>();
   try {
     await fs.access(momentsDir);
   } catch {
-    return [];
+    return { dates: [], archived };
   }
 
   const dateFilePattern = /^(\d{4}-\d{2}-\d{2})\.md$/;
   const entries = await fs.readdir(momentsDir, { withFileTypes: true });
-  return entries
-    .filter((entry) => entry.isFile())
-    .map((entry) => entry.name.match(dateFilePattern)?.[1])
-    .filter((date): date is string => Boolean(date))
-    .sort((a, b) => b.localeCompare(a));
-}
-
-function parseMomentEntryStart(line: string): { time: string; text: string; done: boolean } | null {
-  const taskDone = line.match(/^-\s+\[x\]\s+(\d{2}:\d{2})\s+(.*)/i);
-  if (taskDone) {
-    return {
-      time: taskDone[1],
-      text: taskDone[2],
-      done: true,
-    };
-  }
-
-  const taskTodo = line.match(/^-\s+\[ \]\s+(\d{2}:\d{2})\s+(.*)/i);
-  if (taskTodo) {
-    return {
-      time: taskTodo[1],
-      text: taskTodo[2],
-      done: false,
-    };
-  }
-
-  const regular = line.match(/^-\s+(\d{2}:\d{2})\s+(.*)/);
-  if (regular) {
-    return {
-      time: regular[1],
-      text: regular[2],
-      done: false,
-    };
+  const dates = new Set(
+    entries
+      .filter((entry) => entry.isFile())
+      .map((entry) => entry.name.match(dateFilePattern)?.[1])
+      .filter((date): date is string => Boolean(date)),
+  );
+  if (includeArchive) {
+    for (const [date, day] of await listArchivedMomentDays(momentsDir)) {
+      archived.set(date, day);
+      dates.add(date);
+    }
   }
-
-  return null;
+  return { dates: [...dates].sort((a, b) => b.localeCompare(a)), archived };
 }
 
+/**
+ * Lines of the entry or `↳` reply starting at `startIndex`. An entry's range includes its
+ * replies unless `textOnly` is set; a reply's range ends before the next reply or entry and
+ * the blank lines leading up to it.
+ */
 function findMomentEntryRange(
   lines: string[],
   startIndex: number,
+  textOnly = false,
 ): { startIndex: number; endIndex: number } | null {
   if (startIndex < 0 || startIndex >= lines.length) {
     return null;
   }
 
-  if (!parseMomentEntryStart(lines[startIndex])) {
+  const isReply = Boolean(parseMomentReplyStart(lines[startIndex]));
+  if (!isReply && !parseMomentEntryStart(lines[startIndex])) {
     return null;
   }
 
+  const stopAtReply = isReply || textOnly;
   let endIndex = startIndex + 1;
-  while (endIndex < lines.length && !parseMomentEntryStart(lines[endIndex])) {
+  while (
+    endIndex < lines.length &&
+    !parseMomentEntryStart(lines[endIndex]) &&
+    !(stopAtReply && parseMomentReplyStart(lines[endIndex]))
+  ) {
     endIndex++;
   }
+  // Blank lines after the last reply separate the thread from the next entry.
+  while (isReply && endIndex > startIndex + 1 && lines[endIndex - 1].trim() === "") {
+    endIndex--;
+  }
 
   return { startIndex, endIndex };
 }
@@ -99,22 +151,28 @@ function buildMomentEntryLines(
     return { lines: [startLine], changed: false };
   }
 
+  const reply = parseMomentReplyStart(startLine);
+  if (reply) {
+    const lines = buildMomentReplyLines(reply.time, normalizedText);
+    return { lines, changed: lines.join("\n") !== startLine };
+  }
+
   const textLines = normalizedText.split("\n");
 
   // All patterns (task done, task todo, regular) are rewritten as plain `- HH:MM text`
-  const taskDone = startLine.match(/^-\s+\[x\]\s+(\d{2}:\d{2})\s+(.*)$/i);
+  const taskDone = startLine.match(ENTRY_DONE_LINE_RE);
   if (taskDone) {
     const lines = [`- ${taskDone[1]} ${textLines[0]}`, ...textLines.slice(1)];
     return { lines, changed: true };
   }
 
-  const taskTodo = startLine.match(/^-\s+\[ \]\s+(\d{2}:\d{2})\s+(.*)$/);
+  const taskTodo = startLine.match(ENTRY_TODO_LINE_RE);
   if (taskTodo) {
     const lines = [`- ${taskTodo[1]} ${textLines[0]}`, ...textLines.slice(1)];
     return { lines, changed: true };
   }
 
-  const regular = startLine.match(/^(-\s+)(\d{2}:\d{2})\s+(.*)$/);
+  const regular = startLine.match(ENTRY_LINE_RE);
   if (regular) {
     const lines = [`${regular[1]}${regular[2]} ${textLines[0]}`, ...textLines.slice(1)];
     return {
@@ -152,48 +210,92 @@ function replaceMomentEntryBlock(
 // Read/write operations
 // ---------------------------------------------------------------------------
 
-export async function readMoments(notesDir: string, date: string): Promise<MomentEntry[]> {
-  const filePath = getMomentsFilePath(notesDir, date);
+function parseMomentsDay(raw: string): MomentEntry[] {
+  return parseMomentEntries(raw).map((entry) => ({
+    ...entry,
+    tags: extractMomentTags(getMomentThreadText(entry)),
+  }));
+}
+
+/**
+ * Entries of a day and, when they come from the archive, the archived file's folder relative
+ * to the Moments folder. A day file in the Moments folder wins over an archived copy.
+ * `archivedDays`, from `listMomentDays`, spares reading the rollups again for every day.
+ */
+async function readMomentsDay(
+  notesDir: string,
+  date: string,
+  archivedDays?: Map<string, ArchivedMomentsDay>,
+): Promise<{ entries: MomentEntry[]; archive?: string }> {
   try {
-    await fs.access(filePath);
+    return {
+      entries: parseMomentsDay(await fs.readFile(getMomentsFilePath(notesDir, date), "utf8")),
+    };
   } catch {
-    return [];
+    // Not in the Moments folder; look in the archive.
   }
 
-  const raw = await fs.readFile(filePath, "utf8");
-  // Strip front matter only — do NOT trim, so line indices stay consistent with toggleTask
-  const body = raw.replace(/^---\n[\s\S]*?\n---\n/, "");
-  const lines = body.split("\n");
-  const entries: MomentEntry[] = [];
-
-  for (let i = 0; i < lines.length; ) {
-    const start = parseMomentEntryStart(lines[i]);
-    if (!start) {
-      i++;
-      continue;
-    }
+  if (!getMomentsIncludeArchiveSetting()) {
+    return { entries: [] };
+  }
+  const momentsDir = getMomentsDirectory(notesDir);
+  const archived = archivedDays
+    ? await readListedArchivedDay(archivedDays.get(date))
+    : await readArchivedMomentsDay(momentsDir, date);
+  if (!archived) {
+    return { entries: [] };
+  }
+  return {
+    entries: parseMomentsDay(archived.content),
+    archive: path
+      .relative(momentsDir, path.dirname(archived.day.filePath))
+      .split(path.sep)
+      .join("/"),
+  };
+}
 
-    const range = findMomentEntryRange(lines, i);
-    if (!range) {
-      i++;
-      continue;
-    }
+async function readListedArchivedDay(
+  day: ArchivedMomentsDay | undefined,
+): Promise<{ content: string; day: ArchivedMomentsDay } | null> {
+  const content = day ? await readArchivedMomentsDayContent(day) : null;
+  return day && content !== null ? { content, day } : null;
+}
 
-    const textLines = [start.text, ...lines.slice(range.startIndex + 1, range.endIndex)];
-    while (textLines.length > 1 && textLines[textLines.length - 1].trim() === "") {
-      textLines.pop();
+/**
+ * The file holding a day's Moments: its day file, else the archived day file or monthly /
+ * yearly file while archived days are shown; null when there is none.
+ */
+export async function findMomentsDayFile(notesDir: string, date: string): Promise<string | null> {
+  const filePath = getMomentsFilePath(notesDir, date);
+  try {
+    await fs.access(filePath);
+    return filePath;
+  } catch {
+    if (!getMomentsIncludeArchiveSetting()) {
+      return null;
     }
-    const text = textLines.join("\n");
-    entries.push({
-      index: range.startIndex,
-      time: start.time,
-      text,
-      done: start.done,
-      tags: extractMomentTags(text),
-    });
-    i = range.endIndex;
+    const archived = await readArchivedMomentsDay(getMomentsDirectory(notesDir), date);
+    return archived?.day.filePath ?? null;
   }
+}
+
+export async function readMoments(notesDir: string, date: string): Promise<MomentEntry[]> {
+  return (await readMomentsDay(notesDir, date)).entries;
+}
 
+/** Entries of every Moments file dated `from`..`to` (inclusive), oldest day first. */
+export async function collectMomentsInRange(
+  notesDir: string,
+  from: string,
+  to: string,
+): Promise<Array<MomentEntry & { date: string }>> {
+  const { dates, archived } = await listMomentDays(notesDir);
+  const entries: Array<MomentEntry & { date: string }> = [];
+  for (const date of dates.filter((date) => date >= from && date <= to).sort()) {
+    for (const entry of (await readMomentsDay(notesDir, date, archived)).entries) {
+      entries.push({ ...entry, date });
+    }
+  }
   return entries;
 }
 
@@ -224,7 +326,7 @@ export function toggleMomentTaskLine(line: string): { line: string; changed: boo
     };
   }
 
-  const regular = line.match(/^(-\s+)(\d{2}:\d{2}\s+.*)$/);
+  const regular = line.match(ENTRY_TOGGLE_RE);
   if (regular) {
     return {
       line: `${regular[1]}[x] ${regular[2]}`,
@@ -235,6 +337,41 @@ export function toggleMomentTaskLine(line: string): { line: string; changed: boo
   return { line, changed: false };
 }
 
+/**
+ * Inserts the next open occurrence of the recurring Moments task starting at `startIndex`
+ * after its entry (keeping the entry time). Returns false for non-recurring entries or
+ * when that occurrence already follows the entry.
+ */
+export function insertNextRecurringMoment(
+  lines: string[],
+  startIndex: number,
+  today: string,
+): boolean {
+  const start = parseMomentEntryStart(lines[startIndex] ?? "");
+  const range = findMomentEntryRange(lines, startIndex);
+  if (!start || !range) {
+    return false;
+  }
+
+  const nextText = buildNextRecurringTaskText(start.text.trim(), today);
+  if (!nextText) {
+    return false;
+  }
+
+  let insertAt = range.endIndex;
+  while (insertAt > startIndex + 1 && lines[insertAt - 1].trim() === "") {
+    insertAt--;
+  }
+
+  const nextLine = `- [ ] ${start.time} ${nextText}`;
+  if (lines[insertAt] === nextLine) {
+    return false;
+  }
+
+  lines.splice(insertAt, 0, nextLine);
+  return true;
+}
+
 export function buildMomentsDateLabel(date: string, today: string): string {
   if (date === today) {
     return `Today · ${date}`;
@@ -253,23 +390,24 @@ export async function collectMomentsFeed(
   anchorDate: string,
   sectionCount: number = getMomentsFeedDayCount(),
 ): Promise<MomentsFeedData> {
-  const today = todayDateString();
+  const today = momentsTodayDateString();
   const safeSectionCount = normalizeMomentsFeedDayCount(sectionCount);
-  const fileDates = (await listMomentFileDates(notesDir)).filter((date) => date < anchorDate);
-  const firstEntries = await readMoments(notesDir, anchorDate);
+  const { dates, archived } = await listMomentDays(notesDir);
+  const fileDates = dates.filter((date) => date < anchorDate);
+  const first = await readMomentsDay(notesDir, anchorDate, archived);
   const sections: MomentDaySection[] = [
     {
       date: anchorDate,
       dateLabel: buildMomentsDateLabel(anchorDate, today),
       isToday: anchorDate === today,
-      entries: firstEntries,
+      ...first,
     },
   ];
   let hasMoreOlder = false;
 
   for (const date of fileDates) {
-    const entries = await readMoments(notesDir, date);
-    if (entries.length === 0) {
+    const day = await readMomentsDay(notesDir, date, archived);
+    if (day.entries.length === 0) {
       continue;
     }
 
@@ -278,7 +416,7 @@ export async function collectMomentsFeed(
         date,
         dateLabel: buildMomentsDateLabel(date, today),
         isToday: date === today,
-        entries,
+        ...day,
       });
       continue;
     }
@@ -294,24 +432,39 @@ export async function collectMomentsFeed(
 }
 
 /**
- * Searches every Moments file (not just the recent feed) for entries whose
- * text contains the query. Sections are returned newest date first.
+ * Searches every Moments entry (not just the recent feed) through the notes search index,
+ * so words, `"phrases"`, `tag:` and `before:` / `after:` work. Sections are returned newest
+ * date first, entries in file order.
  */
 export async function searchMomentsFeed(notesDir: string, query: string): Promise<MomentsFeedData> {
-  const today = todayDateString();
-  const needle = query.trim().toLowerCase();
+  const today = momentsTodayDateString();
   const sections: MomentDaySection[] = [];
 
-  if (!needle) {
+  if (!query.trim()) {
     return { sections, hasMoreOlder: false };
   }
 
-  const fileDates = await listMomentFileDates(notesDir);
-
-  for (const date of fileDates) {
-    const entries = (await readMoments(notesDir, date)).filter((entry) =>
-      entry.text.toLowerCase().includes(needle),
-    );
+  // Hits are kept apart by whether they come from the archive, since a day read from the
+  // Moments folder hides its archived copy.
+  const subfolder = getMomentsSubfolderSetting();
+  const index = await getNotesSearchIndex(notesDir, subfolder);
+  const linesByDate = new Map<string, { current: Set<number>; archived: Set<number> }>();
+  for (const { document } of index.search(query, { kinds: ["moment"] })) {
+    const lines = linesByDate.get(document.date) ?? { current: new Set(), archived: new Set() };
+    const archived = path.dirname(document.path) !== normalizeMomentsSubfolder(subfolder);
+    (archived ? lines.archived : lines.current).add(document.line);
+    linesByDate.set(document.date, lines);
+  }
+
+  const dates = [...linesByDate.keys()].sort((a, b) => b.localeCompare(a));
+  const archivedDays = [...linesByDate.values()].some((lines) => lines.archived.size > 0)
+    ? await listArchivedMomentDays(getMomentsDirectory(notesDir))
+    : new Map<string, ArchivedMomentsDay>();
+  for (const date of dates) {
+    const { current, archived } = linesByDate.get(date)!;
+    const day = await readMomentsDay(notesDir, date, archivedDays);
+    const lines = day.archive ? archived : current;
+    const entries = day.entries.filter((entry) => lines.has(entry.index));
     if (entries.length === 0) {
       continue;
     }
@@ -321,12 +474,52 @@ export async function searchMomentsFeed(notesDir: string, query: string): Promis
       dateLabel: buildMomentsDateLabel(date, today),
       isToday: date === today,
       entries,
+      ...(day.archive ? { archive: day.archive } : {}),
     });
   }
 
   return { sections, hasMoreOlder: false };
 }
 
+/** Every Moments file: the day files in the Moments folder and the archived files. */
+export async function listMomentsFiles(notesDir: string): Promise<string[]> {
+  const { dates } = await listMomentDays(notesDir, false);
+  const archived = await listMomentsArchiveFiles(getMomentsDirectory(notesDir));
+  return [
+    ...dates.map((date) => getMomentsFilePath(notesDir, date)),
+    ...archived.map((file) => file.filePath),
+  ];
+}
+
+/** Hashtags used in Moments with the number of entries carrying each, most used first. */
+export async function collectMomentsTagCounts(
+  notesDir: string,
+): Promise<Array<{ tag: string; count: number }>> {
+  const index = await getNotesSearchIndex(notesDir, getMomentsSubfolderSetting());
+  return [...index.countTags(["moment"])]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/** Renames a hashtag and the tags nested below it in every Moments file, archived ones included. */
+export async function renameMomentsTag(
+  notesDir: string,
+  from: string,
+  to: string,
+): Promise<{ count: number; files: number }> {
+  let count = 0;
+  let files = 0;
+  for (const filePath of await listMomentsFiles(notesDir)) {
+    const renamed = renameMomentTagInText(await fs.readFile(filePath, "utf8"), from, to);
+    if (renamed.count > 0) {
+      await fs.writeFile(filePath, renamed.text, "utf8");
+      count += renamed.count;
+      files++;
+    }
+  }
+  return { count, files };
+}
+
 export async function ensureMomentsFile(notesDir: string, date: string): Promise<string> {
   const filePath = getMomentsFilePath(notesDir, date);
   const dir = path.dirname(filePath);
@@ -339,22 +532,60 @@ export async function ensureMomentsFile(notesDir: string, date: string): Promise
   try {
     await fs.access(filePath);
   } catch {
-    await fs.writeFile(filePath, `---\ntype: moments\ndate: ${date}\n---\n\n`, "utf8");
+    const offset =
+      getMomentTimeOptions().utcOffset === "frontMatter" ? formatUtcOffset(new Date()) : undefined;
+    await fs.writeFile(filePath, buildMomentsFileHeader(date, offset), "utf8");
   }
   return filePath;
 }
 
 export async function appendMoment(notesDir: string, date: string, text: string): Promise<void> {
   const filePath = await ensureMomentsFile(notesDir, date);
-  const time = formatTimeHM(new Date());
-  const entryText = text.replace(/\r\n/g, "\n").trim();
-  const entry = `- ${time} ${entryText}\n`;
+  const content = await fs.readFile(filePath, "utf8");
+  const time = formatMomentTime(
+    new Date(),
+    getMomentTimeOptions(),
+    parseMomentsFileUtcOffset(content),
+  );
+  const entry = buildMomentEntryText(time, text);
 
-  let content = await fs.readFile(filePath, "utf8");
   const prefix = content.endsWith("\n") ? "" : "\n";
   await fs.appendFile(filePath, `${prefix}${entry}`, "utf8");
 }
 
+const IMAGE_ATTACHMENT_RE = /\.(?:png|jpe?g|gif|webp|svg|bmp|avif)$/i;
+
+function sanitizeAttachmentName(fileName: string): string {
+  const name = path
+    .basename(fileName.replace(/\\/g, "/"))
+    .normalize("NFC")
+    .replace(/[^\p{L}\p{N}._-]+/gu, "-")
+    .replace(/^[-.]+/, "");
+  return name || "attachment";
+}
+
+/**
+ * Saves a pasted or dropped file under `moments/assets/YYYY-MM-DD/` without overwriting an
+ * existing one, and returns the Markdown image or link that references it from that day.
+ * The file is written on paste, outside the undo journal, so a discarded draft or an undone
+ * Moment leaves it unlinked until `archiveMoments` removes it.
+ */
+export async function saveMomentAttachment(
+  notesDir: string,
+  date: string,
+  fileName: string,
+  data: Uint8Array,
+): Promise<string> {
+  const assetsDir = getMomentsAssetsDirectory(notesDir, date);
+  await fs.mkdir(assetsDir, { recursive: true });
+  const filePath = await resolveUniqueFilePath(assetsDir, sanitizeAttachmentName(fileName));
+  await fs.writeFile(filePath, data);
+
+  const name = path.basename(filePath);
+  const link = `[${name}](assets/${date}/${name})`;
+  return IMAGE_ATTACHMENT_RE.test(name) ? `!${link}` : link;
+}
+
 export async function saveMomentEdit(
   notesDir: string,
   date: string,
@@ -375,7 +606,7 @@ export async function saveMomentEdit(
     return false;
   }
 
-  const range = findMomentEntryRange(lines, fileLineIdx);
+  const range = findMomentEntryRange(lines, fileLineIdx, true);
   if (!range) {
     return false;
   }
@@ -389,6 +620,83 @@ export async function saveMomentEdit(
   return true;
 }
 
+/** Adds a `↳ HH:mm` reply at the end of the thread of the entry at body line `index`. */
+export async function appendMomentReply(
+  notesDir: string,
+  date: string,
+  index: number,
+  text: string,
+): Promise<boolean> {
+  const filePath = getMomentsFilePath(notesDir, date);
+  if (!text.trim()) {
+    return false;
+  }
+
+  try {
+    await fs.access(filePath);
+  } catch {
+    return false;
+  }
+
+  const raw = await fs.readFile(filePath, "utf8");
+  const lines = raw.split("\n");
+  const fileLineIdx = mapMomentBodyIndexToFileLine(raw, index);
+  const range = findMomentEntryRange(lines, fileLineIdx);
+  if (!range || !parseMomentEntryStart(lines[fileLineIdx])) {
+    return false;
+  }
+
+  let insertAt = range.endIndex;
+  while (insertAt > range.startIndex + 1 && lines[insertAt - 1].trim() === "") {
+    insertAt--;
+  }
+
+  const time = formatMomentTime(new Date(), getMomentTimeOptions(), parseMomentsFileUtcOffset(raw));
+  lines.splice(insertAt, 0, ...buildMomentReplyLines(time, text));
+  await fs.writeFile(filePath, lines.join("\n"), "utf8");
+  return true;
+}
+
+/** First line of a Moment without promotion markers, used as task text or note title. */
+export function getMomentHeadline(text: string): string {
+  return (text.split("\n")[0] ?? "").replace(MOMENT_PROMOTION_RE, "").trim();
+}
+
+/** Wiki link target of a day's Moments file, e.g. `moments/2026-03-07`. */
+export function getMomentsLinkTarget(date: string): string {
+  return `${getMomentsSubfolderSetting()}/${date}`;
+}
+
+/** Marks the entry at body line `index` as promoted to `target` (a task file or note name). */
+export async function markMomentPromoted(
+  notesDir: string,
+  date: string,
+  index: number,
+  target: string,
+): Promise<boolean> {
+  const filePath = getMomentsFilePath(notesDir, date);
+  try {
+    await fs.access(filePath);
+  } catch {
+    return false;
+  }
+
+  const raw = await fs.readFile(filePath, "utf8");
+  const lines = raw.split("\n");
+  const fileLineIdx = mapMomentBodyIndexToFileLine(raw, index);
+  if (!parseMomentEntryStart(lines[fileLineIdx] ?? "")) {
+    return false;
+  }
+
+  const marked = addMomentPromotionMarker(lines[fileLineIdx], target);
+  if (marked === lines[fileLineIdx]) {
+    return false;
+  }
+  lines[fileLineIdx] = marked;
+  await fs.writeFile(filePath, lines.join("\n"), "utf8");
+  return true;
+}
+
 export async function deleteMomentEntry(
   notesDir: string,
   date: string,
@@ -414,16 +722,74 @@ export async function deleteMomentEntry(
   return true;
 }
 
-export async function archiveMoments(
-  notesDir: string,
-): Promise<{ archived: number; skipped: number }> {
+export interface MomentsArchivePlan {
+  /** Day files moved as they are (daily mode). */
+  moves: Array<{ src: string; dest: string }>;
+  /**
+   * Attachments of the archived days. They keep their `assets/YYYY-MM-DD/` path next to the
+   * archived file: under `archive/YYYY-MM/` in daily mode, under `archive/` otherwise.
+   */
+  assetMoves: Array<{ src: string; dest: string }>;
+  /** Attachments of days past the threshold that no Moment links to; they are removed. */
+  orphanAssets: string[];
+  /** Monthly or yearly files the day files are merged into; the day files are removed. */
+  rollups: Array<{
+    filePath: string;
+    period: string;
+    sources: Array<{ date: string; filePath: string }>;
+  }>;
+  archived: number;
+  skipped: number;
+}
+
+async function listAttachmentFiles(assetsDir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(assetsDir, { withFileTypes: true });
+    return entries.filter((entry) => entry.isFile()).map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+}
+
+/** The `YYYY-MM-DD` folders under `moments/assets/`. */
+async function listAttachmentDates(momentsDir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(path.join(momentsDir, "assets"), { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isDirectory() && /^\d{4}-\d{2}-\d{2}$/.test(entry.name))
+      .map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+}
+
+/** Every file an archive or unarchive plan writes, moves or removes, for the undo journal. */
+export function getMomentsArchivePlanPaths(
+  plan: MomentsArchivePlan | MomentsUnarchivePlan,
+): string[] {
+  return [
+    ...[...plan.moves, ...plan.assetMoves].flatMap((move) => [move.src, move.dest]),
+    ...("orphanAssets" in plan ? plan.orphanAssets : []),
+    ...plan.rollups.flatMap((rollup) => [
+      rollup.filePath,
+      ...rollup.sources.map((source) => source.filePath),
+    ]),
+  ];
+}
+
+/**
+ * Moments files older than the archive threshold, with where each goes by
+ * `notes.momentsArchiveMode`.
+ */
+export async function listMomentsToArchive(notesDir: string): Promise<MomentsArchivePlan> {
   const afterDays = getMomentsArchiveAfterDaysSetting();
+  const mode = getMomentsArchiveModeSetting();
 
   const momentsDir = getMomentsDirectory(notesDir);
   try {
     await fs.access(momentsDir);
   } catch {
-    return { archived: 0, skipped: 0 };
+    return { moves: [], assetMoves: [], orphanAssets: [], rollups: [], archived: 0, skipped: 0 };
   }
 
   const cutoffDate = new Date();
@@ -433,6 +799,12 @@ export async function archiveMoments(
   const entries = await fs.readdir(momentsDir, { withFileTypes: true });
   const dateFilePattern = /^(\d{4}-\d{2}-\d{2})\.md$/;
 
+  const moves: Array<{ src: string; dest: string }> = [];
+  const assetMoves: Array<{ src: string; dest: string }> = [];
+  const orphanAssets: string[] = [];
+  const dayTexts: string[] = [];
+  const assetsBases = new Map<string, string>();
+  const rollups = new Map<string, MomentsArchivePlan["rollups"][number]>();
   let archived = 0;
   let skipped = 0;
 
@@ -446,20 +818,197 @@ export async function archiveMoments(
     }
 
     const fileDate = match[1];
+    const src = path.join(momentsDir, entry.name);
+    dayTexts.push(await fs.readFile(src, "utf8"));
     if (fileDate >= cutoffStr) {
       skipped++;
       continue;
     }
 
-    const yearMonth = fileDate.slice(0, 7);
-    const archiveDir = path.join(momentsDir, "archive", yearMonth);
-    await fs.mkdir(archiveDir, { recursive: true });
+    archived++;
+    let assetsBase: string;
+    if (mode === "daily") {
+      const dest = getArchivedMomentsDayPath(momentsDir, fileDate);
+      moves.push({ src, dest });
+      assetsBase = path.dirname(dest);
+    } else {
+      const filePath = getMomentsRollupPath(momentsDir, fileDate, mode);
+      const rollup = rollups.get(filePath) ?? {
+        filePath,
+        period: path.basename(filePath, ".md"),
+        sources: [],
+      };
+      rollup.sources.push({ date: fileDate, filePath: src });
+      rollups.set(filePath, rollup);
+      assetsBase = getMomentsArchiveDirectory(momentsDir);
+    }
 
-    const src = path.join(momentsDir, entry.name);
-    const dest = path.join(archiveDir, entry.name);
+    assetsBases.set(fileDate, assetsBase);
+  }
+
+  // An attachment may be linked from a later day when its draft was posted after midnight.
+  const linkedText = dayTexts.join("\n");
+  for (const date of await listAttachmentDates(momentsDir)) {
+    if (date >= cutoffStr) {
+      continue;
+    }
+    const assetsDir = getMomentsAssetsDirectory(notesDir, date);
+    const assetsBase = assetsBases.get(date);
+    for (const name of await listAttachmentFiles(assetsDir)) {
+      const src = path.join(assetsDir, name);
+      if (!linkedText.includes(`assets/${date}/${name}`)) {
+        orphanAssets.push(src);
+      } else if (assetsBase) {
+        assetMoves.push({ src, dest: path.join(assetsBase, "assets", date, name) });
+      }
+    }
+  }
+
+  return {
+    moves,
+    assetMoves,
+    orphanAssets,
+    rollups: [...rollups.values()],
+    archived,
+    skipped,
+  };
+}
+
+async function moveFiles(moves: Array<{ src: string; dest: string }>): Promise<void> {
+  for (const { src, dest } of moves) {
+    await fs.mkdir(path.dirname(dest), { recursive: true });
     await fs.rename(src, dest);
-    archived++;
   }
+}
+
+/** Removes the folders `moves` emptied; folders with anything else left in them stay. */
+async function removeEmptiedFolders(moves: Array<{ src: string }>): Promise<void> {
+  for (const dir of new Set(moves.map((move) => path.dirname(move.src)))) {
+    try {
+      await fs.rmdir(dir);
+    } catch {
+      // Keep the folder when something other than moved files is left in it.
+    }
+  }
+}
+
+export async function archiveMoments(
+  notesDir: string,
+): Promise<{ archived: number; skipped: number }> {
+  const { moves, assetMoves, orphanAssets, rollups, archived, skipped } =
+    await listMomentsToArchive(notesDir);
+  await moveFiles([...moves, ...assetMoves]);
+  for (const filePath of orphanAssets) {
+    await fs.rm(filePath, { force: true });
+  }
+  for (const rollup of rollups) {
+    const days = await readMomentsRollupDays(rollup.filePath);
+    for (const source of rollup.sources) {
+      days.push({ date: source.date, content: await fs.readFile(source.filePath, "utf8") });
+    }
+    await fs.mkdir(path.dirname(rollup.filePath), { recursive: true });
+    await fs.writeFile(rollup.filePath, buildMomentsRollup(rollup.period, days), "utf8");
+    for (const source of rollup.sources) {
+      await fs.rm(source.filePath);
+    }
+  }
+  await removeEmptiedFolders([...assetMoves, ...orphanAssets.map((src) => ({ src }))]);
 
   return { archived, skipped };
 }
+
+export interface MomentsUnarchivePlan {
+  /** Archived day files moved back into the Moments folder. */
+  moves: Array<{ src: string; dest: string }>;
+  assetMoves: Array<{ src: string; dest: string }>;
+  /** Monthly or yearly files the `sources` day files are taken out of. */
+  rollups: Array<{ filePath: string; sources: Array<{ date: string; filePath: string }> }>;
+  restored: number;
+  /** Archived days left alone because the Moments folder already has a file for them. */
+  skipped: number;
+}
+
+/** Archived days dated `from`..`to` (inclusive), with where each is restored to. */
+export async function listMomentsToUnarchive(
+  notesDir: string,
+  from: string,
+  to: string,
+): Promise<MomentsUnarchivePlan> {
+  const momentsDir = getMomentsDirectory(notesDir);
+  const moves: Array<{ src: string; dest: string }> = [];
+  const assetMoves: Array<{ src: string; dest: string }> = [];
+  const rollups = new Map<string, MomentsUnarchivePlan["rollups"][number]>();
+  let restored = 0;
+  let skipped = 0;
+
+  const archivedDays = [...(await listArchivedMomentDays(momentsDir)).values()]
+    .filter((day) => day.date >= from && day.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  for (const day of archivedDays) {
+    const dest = getMomentsFilePath(notesDir, day.date);
+    try {
+      await fs.access(dest);
+      skipped++;
+      continue;
+    } catch {
+      restored++;
+    }
+
+    if (day.rollup) {
+      const rollup = rollups.get(day.filePath) ?? { filePath: day.filePath, sources: [] };
+      rollup.sources.push({ date: day.date, filePath: dest });
+      rollups.set(day.filePath, rollup);
+    } else {
+      moves.push({ src: day.filePath, dest });
+    }
+
+    const assetsDir = path.join(path.dirname(day.filePath), "assets", day.date);
+    for (const name of await listAttachmentFiles(assetsDir)) {
+      assetMoves.push({
+        src: path.join(assetsDir, name),
+        dest: path.join(getMomentsAssetsDirectory(notesDir, day.date), name),
+      });
+    }
+  }
+
+  return { moves, assetMoves, rollups: [...rollups.values()], restored, skipped };
+}
+
+/**
+ * Moves archived days dated `from`..`to` back into the Moments folder. Days are taken out of
+ * monthly and yearly files, which are removed once empty.
+ */
+export async function unarchiveMoments(
+  notesDir: string,
+  from: string,
+  to: string,
+): Promise<{ restored: number; skipped: number }> {
+  const { moves, assetMoves, rollups, restored, skipped } = await listMomentsToUnarchive(
+    notesDir,
+    from,
+    to,
+  );
+  await moveFiles([...moves, ...assetMoves]);
+  for (const rollup of rollups) {
+    const restoredDates = new Set(rollup.sources.map((source) => source.date));
+    const days = await readMomentsRollupDays(rollup.filePath);
+    for (const source of rollup.sources) {
+      const day = days.find((candidate) => candidate.date === source.date);
+      if (day) {
+        await fs.mkdir(path.dirname(source.filePath), { recursive: true });
+        await fs.writeFile(source.filePath, day.content, "utf8");
+      }
+    }
+
+    const remaining = days.filter((day) => !restoredDates.has(day.date));
+    if (remaining.length === 0) {
+      await fs.rm(rollup.filePath);
+    } else {
+      const period = path.basename(rollup.filePath, ".md");
+      await fs.writeFile(rollup.filePath, buildMomentsRollup(period, remaining), "utf8");
+    }
+  }
+  await removeEmptiedFolders([...moves, ...assetMoves]);
+
+  return { restored, skipped };
+}
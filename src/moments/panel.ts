@@ -2,23 +2,47 @@ import * as crypto from "crypto";
 import * as fs from "fs/promises";
 import * as path from "path";
 import * as vscode from "vscode";
-import { DUE_DATE_RE } from "../../shared/taskSyntax.js";
-import { MOMENT_TAG_PATTERN, getMomentsFeedDayCount, resolvePinnedEntries } from "./config.js";
+import { MOMENT_PROMOTION_RE } from "../../shared/momentSyntax.js";
+import { DUE_DATE_RE, extractDueDate } from "../../shared/taskSyntax.js";
+import { createDashboardTask } from "../dashboardTaskPersistence.js";
+import {
+  MOMENT_TAG_PATTERN,
+  getMomentsFeedDayCount,
+  momentsTodayDateString,
+  resolvePinnedEntries,
+} from "./config.js";
 import { getMomentsSendOnEnterSetting } from "../notesConfig.js";
 import {
   appendMoment,
+  appendMomentReply,
   collectMomentsFeed,
+  collectMomentsTagCounts,
   deleteMomentEntry,
   ensureMomentsFile,
+  getMomentsDirectory,
+  getMomentHeadline,
   getMomentsFilePath,
+  getMomentsLinkTarget,
+  markMomentPromoted,
+  readMoments,
+  saveMomentAttachment,
   saveMomentEdit,
   searchMomentsFeed,
 } from "./fileIo.js";
-import { formatDateString } from "../dashboardTaskUtils.js";
+import {
+  formatDateString,
+  isPathInside,
+  resolveDashboardTaskFile,
+  shiftDate,
+} from "../dashboardTaskUtils.js";
 import { buildWebviewI18nScript, resolveLocale, t } from "../i18n.js";
+import { onDidChangeMutationJournal, recordMutation } from "../mutationJournal.js";
+import { createNewNote } from "../noteCommands.js";
+import { getMomentsArchiveDirectory } from "./archive.js";
+import { exportMomentsToNote, type ExportedMoment } from "./export.js";
 import { momentsScript, momentsStyle } from "../webview/generated.js";
 
-import type { PinnedEntryData } from "./types.js";
+import type { MomentEntry, PinnedEntryData } from "./types.js";
 
 // ---------------------------------------------------------------------------
 // WebviewViewProvider
@@ -31,13 +55,22 @@ export class MomentsViewProvider implements vscode.WebviewViewProvider {
   private readonly _getNotesDir: () => string | undefined;
   private readonly _context: vscode.ExtensionContext;
   private _feedSectionCount = getMomentsFeedDayCount();
-  private _anchorDate = formatDateString(new Date());
+  private _anchorDate = momentsTodayDateString();
+  /** The Moments folder the webview may load attachments from, once it is known. */
+  private _resourceRoot?: string;
+  private readonly _journalListener = onDidChangeMutationJournal((event) => {
+    void this._view?.webview.postMessage({ command: "journal", ...event });
+  });
 
   constructor(getNotesDir: () => string | undefined, context: vscode.ExtensionContext) {
     this._getNotesDir = getNotesDir;
     this._context = context;
   }
 
+  dispose(): void {
+    this._journalListener.dispose();
+  }
+
   resolveWebviewView(
     webviewView: vscode.WebviewView,
     _context: vscode.WebviewViewResolveContext,
@@ -45,11 +78,10 @@ export class MomentsViewProvider implements vscode.WebviewViewProvider {
   ): void {
     this._view = webviewView;
 
-    webviewView.webview.options = {
-      enableScripts: true,
-    };
+    this._resourceRoot = undefined;
+    this._syncResourceRoots(this._getNotesDir());
 
-    webviewView.webview.html = this._getHtml();
+    webviewView.webview.html = this._getHtml(webviewView.webview.cspSource);
 
     webviewView.webview.onDidReceiveMessage(async (message) => {
       const notesDir = this._getNotesDir();
@@ -85,7 +117,7 @@ export class MomentsViewProvider implements vscode.WebviewViewProvider {
         }
 
         case "jumpToToday": {
-          this._anchorDate = formatDateString(new Date());
+          this._anchorDate = momentsTodayDateString();
           this._feedSectionCount = Math.max(1, getMomentsFeedDayCount());
           this._sendEntries();
           break;
@@ -99,8 +131,9 @@ export class MomentsViewProvider implements vscode.WebviewViewProvider {
           this._view?.webview.postMessage({
             command: "update",
             sections: feed.sections,
+            assetsBaseUri: this._getAssetsBaseUri(notesDir),
             sendOnEnter: getMomentsSendOnEnterSetting(),
-            todayDate: formatDateString(new Date()),
+            todayDate: momentsTodayDateString(),
             anchorDate: this._anchorDate,
             locale: resolveLocale(),
             pinnedEntries: [],
@@ -118,14 +151,46 @@ export class MomentsViewProvider implements vscode.WebviewViewProvider {
             this._showError(t("momentTextEmpty"));
             return;
           }
-          await appendMoment(notesDir, formatDateString(new Date()), message.text);
+          const today = momentsTodayDateString();
+          await recordMutation(t("journalAddMoment"), [getMomentsFilePath(notesDir, today)], () =>
+            appendMoment(notesDir, today, message.text),
+          );
           // Jump back to today so the new entry is visible.
-          this._anchorDate = formatDateString(new Date());
+          this._anchorDate = momentsTodayDateString();
           this._feedSectionCount = Math.max(this._feedSectionCount, getMomentsFeedDayCount());
           this._sendEntries();
           break;
         }
 
+        case "addReply": {
+          if (!notesDir) {
+            this._showError(t("notesDirNotConfigured"));
+            return;
+          }
+          if (typeof message.date !== "string" || typeof message.index !== "number") {
+            this._showError(t("momentEditInvalid"));
+            return;
+          }
+          if (typeof message.text !== "string" || !message.text.trim()) {
+            this._showError(t("momentTextEmpty"));
+            return;
+          }
+
+          if (
+            !(await recordMutation(
+              t("journalReplyMoment"),
+              [getMomentsFilePath(notesDir, message.date)],
+              () => appendMomentReply(notesDir, message.date, message.index, message.text),
+            ))
+          ) {
+            this._showError(t("momentSaveFailed"));
+            return;
+          }
+
+          this._sendEntries();
+          break;
+        }
+
         case "saveEdit": {
           if (!notesDir) {
             this._showError(t("notesDirNotConfigured"));
@@ -137,12 +202,12 @@ export class MomentsViewProvider implements vscode.WebviewViewProvider {
             return;
           }
 
+          const editDate = message.date ?? momentsTodayDateString();
           if (
-            !(await saveMomentEdit(
-              notesDir,
-              message.date ?? formatDateString(new Date()),
-              message.index,
-              message.text,
+            !(await recordMutation(
+              t("journalEditMoment"),
+              [getMomentsFilePath(notesDir, editDate)],
+              () => saveMomentEdit(notesDir, editDate, message.index, message.text),
             ))
           ) {
             this._showError(t("momentSaveFailed"));
@@ -162,18 +227,26 @@ export class MomentsViewProvider implements vscode.WebviewViewProvider {
             return;
           }
 
+          const replyCount = typeof message.replyCount === "number" ? message.replyCount : 0;
           void vscode.window
-            .showWarningMessage(t("momentDeleteConfirm"), { modal: true }, t("momentDeleteBtn"))
+            .showWarningMessage(
+              replyCount > 0
+                ? t("momentDeleteThreadConfirm", { count: replyCount })
+                : t("momentDeleteConfirm"),
+              { modal: true },
+              t("momentDeleteBtn"),
+            )
             .then(async (selection) => {
               if (selection !== t("momentDeleteBtn")) {
                 return;
               }
 
+              const deleteDate = message.date ?? momentsTodayDateString();
               if (
-                !(await deleteMomentEntry(
-                  notesDir,
-                  message.date ?? formatDateString(new Date()),
-                  message.index,
+                !(await recordMutation(
+                  t("journalDeleteMoment"),
+                  [getMomentsFilePath(notesDir, deleteDate)],
+                  () => deleteMomentEntry(notesDir, deleteDate, message.index),
                 ))
               ) {
                 this._showError(t("momentDeleteFailed"));
@@ -185,6 +258,99 @@ export class MomentsViewProvider implements vscode.WebviewViewProvider {
           break;
         }
 
+        case "saveAttachment": {
+          if (!notesDir) {
+            this._showError(t("notesDirNotConfigured"));
+            return;
+          }
+          if (typeof message.name !== "string" || typeof message.data !== "string") {
+            return;
+          }
+
+          try {
+            const markdown = await saveMomentAttachment(
+              notesDir,
+              momentsTodayDateString(),
+              message.name,
+              Buffer.from(message.data, "base64"),
+            );
+            this._view?.webview.postMessage({ command: "attachmentSaved", markdown });
+          } catch {
+            this._showError(t("attachmentSaveFailed", { name: message.name }));
+          }
+          break;
+        }
+
+        case "openAttachment": {
+          if (!notesDir || typeof message.path !== "string") {
+            return;
+          }
+          const momentsDir = getMomentsDirectory(notesDir);
+          const attachmentPath = path.join(momentsDir, message.path);
+          // Archived days keep their attachments next to the archived file.
+          if (
+            !isPathInside(path.join(momentsDir, "assets"), attachmentPath) &&
+            !isPathInside(getMomentsArchiveDirectory(momentsDir), attachmentPath)
+          ) {
+            return;
+          }
+          void vscode.commands.executeCommand("vscode.open", vscode.Uri.file(attachmentPath));
+          break;
+        }
+
+        case "makeTask":
+        case "makeNote": {
+          if (!notesDir) {
+            this._showError(t("notesDirNotConfigured"));
+            return;
+          }
+          if (typeof message.date !== "string" || typeof message.index !== "number") {
+            return;
+          }
+
+          const entry = (await readMoments(notesDir, message.date)).find(
+            (candidate) => candidate.index === message.index,
+          );
+          if (!entry) {
+            this._showError(t("momentSaveFailed"));
+            return;
+          }
+
+          if (message.command === "makeTask") {
+            await this._makeTask(notesDir, message.date, entry);
+          } else {
+            await this._makeNote(notesDir, message.date, entry);
+          }
+          this._sendEntries();
+          break;
+        }
+
+        case "undoChange":
+          void vscode.commands.executeCommand("notes.undoLastChange");
+          break;
+
+        case "redoChange":
+          void vscode.commands.executeCommand("notes.redoLastChange");
+          break;
+
+        case "requestTags": {
+          if (!notesDir) {
+            return;
+          }
+          this._view?.webview.postMessage({
+            command: "tagSuggestions",
+            tags: await collectMomentsTagCounts(notesDir),
+          });
+          break;
+        }
+
+        case "renameTag": {
+          if (typeof message.tag === "string") {
+            void vscode.commands.executeCommand("notes.renameMomentsTag", message.tag);
+          }
+          break;
+        }
+
         case "openInbox": {
           if (!notesDir) {
             this._showError(t("notesDirNotConfigured"));
@@ -198,7 +364,7 @@ export class MomentsViewProvider implements vscode.WebviewViewProvider {
           if (!notesDir) {
             return;
           }
-          const currentDate = formatDateString(new Date());
+          const currentDate = momentsTodayDateString();
           const filePath = getMomentsFilePath(notesDir, currentDate);
           try {
             await fs.access(filePath);
@@ -226,48 +392,23 @@ export class MomentsViewProvider implements vscode.WebviewViewProvider {
             return;
           }
 
-          entries.sort((a, b) => {
-            if (a.date < b.date) {
-              return -1;
-            }
-            if (a.date > b.date) {
-              return 1;
-            }
-            return a.index - b.index;
-          });
+          entries.sort((a, b) => a.date.localeCompare(b.date) || a.index - b.index);
 
-          const byDate = new Map<string, string[]>();
-          for (const e of entries) {
-            if (!byDate.has(e.date)) {
-              byDate.set(e.date, []);
+          // Re-read the entries so the export carries their tags and replies.
+          const exported: ExportedMoment[] = [];
+          const byDate = new Map<string, MomentEntry[]>();
+          for (const selected of entries) {
+            if (!byDate.has(selected.date)) {
+              byDate.set(selected.date, await readMoments(notesDir, selected.date));
             }
-            byDate.get(e.date)!.push(e.text);
-          }
-
-          const lines: string[] = ["# Exported Moments", ""];
-          for (const [date, texts] of byDate) {
-            lines.push(`## ${date}`);
-            for (const text of texts) {
-              lines.push(`- ${text}`);
+            const entry = byDate.get(selected.date)!.find((e) => e.index === selected.index);
+            if (entry) {
+              exported.push({ ...entry, date: selected.date });
             }
-            lines.push("");
           }
-
-          const content = lines.join("\n");
-          const now = new Date();
-          const pad = (n: number) => String(n).padStart(2, "0");
-          const stamp = `${formatDateString(now)}_${pad(now.getHours())}-${pad(now.getMinutes())}-${pad(now.getSeconds())}`;
-          const fileName = `${stamp}_exported-moments.md`;
-          const filePath = path.join(notesDir, fileName);
-
-          await fs.writeFile(filePath, content, "utf8");
-
-          void vscode.workspace.openTextDocument(filePath).then((doc) => {
-            void vscode.window.showTextDocument(doc);
-            void vscode.window.showInformationMessage(
-              t("momentsExported", { count: entries.length, name: fileName }),
-            );
-          });
+          if (exported.length > 0) {
+            await exportMomentsToNote(notesDir, exported);
+          }
           break;
         }
 
@@ -316,7 +457,7 @@ export class MomentsViewProvider implements vscode.WebviewViewProvider {
       return;
     }
     const notesDir = this._getNotesDir();
-    const today = formatDateString(new Date());
+    const today = momentsTodayDateString();
     const feedSectionCount = Math.max(this._feedSectionCount, getMomentsFeedDayCount());
     this._feedSectionCount = feedSectionCount;
     const anchorDate = this._anchorDate;
@@ -329,6 +470,7 @@ export class MomentsViewProvider implements vscode.WebviewViewProvider {
     this._view.webview.postMessage({
       command: "update",
       sections,
+      assetsBaseUri: this._getAssetsBaseUri(notesDir),
       sendOnEnter,
       todayDate: today,
       anchorDate,
@@ -338,6 +480,120 @@ export class MomentsViewProvider implements vscode.WebviewViewProvider {
     });
   }
 
+  /** Webview URI of the Moments folder; `assets/…` links in entries resolve against it. */
+  private _getAssetsBaseUri(notesDir: string | undefined): string {
+    if (!this._view) {
+      return "";
+    }
+    this._syncResourceRoots(notesDir);
+    if (!notesDir) {
+      return "";
+    }
+    return this._view.webview
+      .asWebviewUri(vscode.Uri.file(getMomentsDirectory(notesDir)))
+      .toString();
+  }
+
+  /**
+   * Points the webview's resource root at the current Moments folder, which may be set up
+   * after the view resolves or change with the notes directory or `momentsSubfolder`.
+   */
+  private _syncResourceRoots(notesDir: string | undefined): void {
+    const root = notesDir ? getMomentsDirectory(notesDir) : "";
+    if (!this._view || root === this._resourceRoot) {
+      return;
+    }
+    this._resourceRoot = root;
+    this._view.webview.options = {
+      enableScripts: true,
+      localResourceRoots: root ? [vscode.Uri.file(root)] : [],
+    };
+  }
+
+  /** Resolves to the picked due date, null for none, or undefined when cancelled. */
+  private async _pickDueDate(text: string): Promise<string | null | undefined> {
+    const today = formatDateString(new Date());
+    const existing = extractDueDate(text);
+    const items: Array<vscode.QuickPickItem & { dueDate?: string | null }> = [
+      ...(existing ? [{ label: t("dueKeep", { date: existing }), dueDate: existing }] : []),
+      { label: t("dueNone"), dueDate: null },
+      { label: t("dueToday"), description: today, dueDate: today },
+      { label: t("dueTomorrow"), description: shiftDate(today, 1), dueDate: shiftDate(today, 1) },
+      { label: t("dueNextWeek"), description: shiftDate(today, 7), dueDate: shiftDate(today, 7) },
+      { label: t("duePickDate") },
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: t("momentTaskDuePlaceholder"),
+    });
+    if (!picked) {
+      return undefined;
+    }
+    if (picked.dueDate !== undefined) {
+      return picked.dueDate;
+    }
+
+    const typed = await vscode.window.showInputBox({
+      prompt: t("dueDatePrompt"),
+      value: existing ?? today,
+      validateInput: (value) =>
+        /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? undefined : t("dueDateInvalid"),
+    });
+    return typed ? typed.trim() : undefined;
+  }
+
+  /** Adds the Moment as a task in the task file of its day, linking back to the Moment. */
+  private async _makeTask(notesDir: string, date: string, entry: MomentEntry): Promise<void> {
+    const dueDate = await this._pickDueDate(entry.text);
+    if (dueDate === undefined) {
+      return;
+    }
+
+    const taskFile = resolveDashboardTaskFile(notesDir, date);
+    const taskText = `${getMomentHeadline(entry.text)} [[${getMomentsLinkTarget(date)}]]`;
+    const result = await recordMutation(
+      t("journalMomentToTask"),
+      [taskFile, getMomentsFilePath(notesDir, date)],
+      async () => {
+        const created = await createDashboardTask(notesDir, taskText, date, dueDate);
+        if (created === "created") {
+          await markMomentPromoted(notesDir, date, entry.index, `tasks/${date}`);
+        }
+        return created;
+      },
+    );
+    if (result !== "created") {
+      this._showError(t("momentSaveFailed"));
+      return;
+    }
+    void vscode.window.showInformationMessage(
+      t("momentTaskCreated", { file: path.relative(notesDir, taskFile).replace(/\\/g, "/") }),
+    );
+  }
+
+  /** Creates a note holding the Moment text and a link to its day, then marks the Moment. */
+  private async _makeNote(notesDir: string, date: string, entry: MomentEntry): Promise<void> {
+    const title = await vscode.window.showInputBox({
+      prompt: t("noteTitlePrompt"),
+      value: getMomentHeadline(entry.text).replace(/\//g, "-").slice(0, 60),
+    });
+    if (!title) {
+      return;
+    }
+
+    const body = `${entry.text.replace(MOMENT_PROMOTION_RE, "").trim()}\n\n${t("momentNoteSource", {
+      link: `[[${getMomentsLinkTarget(date)}]]`,
+      time: entry.time,
+    })}\n`;
+    const filePath = await createNewNote(notesDir, title, body);
+    if (!filePath) {
+      return;
+    }
+    await recordMutation(t("journalMomentToNote"), [getMomentsFilePath(notesDir, date)], () =>
+      markMomentPromoted(notesDir, date, entry.index, path.basename(filePath, ".md")),
+    );
+  }
+
   private _showError(msg: string): void {
     this._view?.webview.postMessage({ command: "error", message: msg });
   }
@@ -350,7 +606,7 @@ export class MomentsViewProvider implements vscode.WebviewViewProvider {
     void this._context.globalState.update("moments.pinnedEntries", entries);
   }
 
-  private _getHtml(): string {
+  private _getHtml(cspSource: string): string {
     const nonce = crypto.randomBytes(16).toString("hex");
     const dueDatePatternSource = JSON.stringify(DUE_DATE_RE.source);
     const momentTagPatternSource = JSON.stringify(MOMENT_TAG_PATTERN);
@@ -364,7 +620,7 @@ export class MomentsViewProvider implements vscode.WebviewViewProvider {
 <head>
 <meta charset="UTF-8">
 <meta name="viewport" content="width=device-width, initial-scale=1.0">
-<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}' 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${cspSource}; style-src 'nonce-${nonce}' 'unsafe-inline'; script-src 'nonce-${nonce}';">
 <title>Moments</title>
 <style nonce="${nonce}">
 ${momentsStyle}
@@ -405,14 +661,16 @@ ${momentsStyle}
         <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
       </button>
     </div>
-    <button class="filter-chip-btn" id="activeTagBtn" title="Clear active hashtag filter" style="display:none"></button>
   </div>
+  <div class="topbar-row tag-filter-bar" id="tagFilterBar" hidden></div>
 </div>
 
 <div class="input-area">
   <div id="errorBanner" style="display:none"></div>
+  <div id="undoToast" class="undo-toast" role="status" hidden></div>
   <div class="input-container" id="inputContainer">
     <textarea id="inputBox" rows="1" placeholder="Capture a thought... (#tag to categorize)"></textarea>
+    <div class="tag-suggestions" id="tagSuggestions" role="listbox" hidden></div>
     <div class="input-actions">
       <button class="send-icon-btn" id="sendBtn" title="Send (Enter)">
         <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><line x1="22" y1="2" x2="11" y2="13"></line><polygon points="22 2 15 22 11 13 2 9 22 2"></polygon></svg>
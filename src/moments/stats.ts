@@ -0,0 +1,132 @@
+import * as fs from "fs/promises";
+import { shiftDate } from "../dashboardTaskUtils.js";
+import { getMomentsIncludeArchiveSetting } from "../notesConfig.js";
+import { collectMomentsInRange, listMomentsFiles } from "./fileIo.js";
+import type { MomentEntry, MomentsStats } from "./types.js";
+
+/** 53 weeks, so the heatmap always has a full year of columns. */
+const HEATMAP_DAYS = 53 * 7;
+const TAG_MONTHS = 6;
+const TOP_TAG_COUNT = 8;
+
+let cachedStats: { key: string; stats: MomentsStats } | undefined;
+
+function shiftMonth(month: string, delta: number): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const date = new Date(year, monthIndex - 1 + delta, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/** Consecutive days with posts ending on `today`, or on yesterday while today has none yet. */
+function countCurrentStreak(days: Record<string, number>, today: string): number {
+  let date = days[today] ? today : shiftDate(today, -1);
+  let streak = 0;
+  while (days[date]) {
+    streak++;
+    date = shiftDate(date, -1);
+  }
+  return streak;
+}
+
+function countLongestStreak(dates: string[]): number {
+  let longest = 0;
+  let current = 0;
+  let previous = "";
+  for (const date of dates) {
+    current = previous && shiftDate(previous, 1) === date ? current + 1 : 1;
+    longest = Math.max(longest, current);
+    previous = date;
+  }
+  return longest;
+}
+
+/** Heatmap, hour-of-day, hashtag and streak figures for entries of the year up to `today`. */
+export function buildMomentsStats(
+  entries: Array<MomentEntry & { date: string }>,
+  today: string,
+): MomentsStats {
+  const from = shiftDate(today, -(HEATMAP_DAYS - 1));
+  const lastMonth = today.slice(0, 7);
+  const months = Array.from({ length: TAG_MONTHS }, (_, index) =>
+    shiftMonth(lastMonth, index - TAG_MONTHS + 1),
+  );
+  const days: Record<string, number> = {};
+  const hours = Array.from({ length: 24 }, () => 0);
+  const tagMonths = new Map<string, number[]>();
+  let totalPosts = 0;
+
+  for (const entry of entries) {
+    if (entry.date < from || entry.date > today) {
+      continue;
+    }
+
+    const posts = [entry.time, ...(entry.replies ?? []).map((reply) => reply.time)];
+    days[entry.date] = (days[entry.date] ?? 0) + posts.length;
+    totalPosts += posts.length;
+    for (const time of posts) {
+      hours[Number(time.slice(0, 2)) % 24]++;
+    }
+
+    const monthIndex = months.indexOf(entry.date.slice(0, 7));
+    if (monthIndex < 0) {
+      continue;
+    }
+    for (const tag of entry.tags ?? []) {
+      const counts = tagMonths.get(tag) ?? months.map(() => 0);
+      counts[monthIndex]++;
+      tagMonths.set(tag, counts);
+    }
+  }
+
+  const topTags = [...tagMonths]
+    .map(([tag, counts]) => ({
+      tag,
+      total: counts.reduce((sum, count) => sum + count, 0),
+      months: counts,
+    }))
+    .sort((a, b) => b.total - a.total || a.tag.localeCompare(b.tag))
+    .slice(0, TOP_TAG_COUNT);
+
+  const activeDates = Object.keys(days).sort();
+  return {
+    today,
+    days,
+    hours,
+    months,
+    topTags,
+    totalPosts,
+    activeDays: activeDates.length,
+    currentStreak: countCurrentStreak(days, today),
+    longestStreak: countLongestStreak(activeDates),
+  };
+}
+
+/** Every Moments file with its mtime, so the stats are rebuilt only after a file changed. */
+async function buildMomentsStatsKey(notesDir: string, today: string): Promise<string> {
+  const files = await Promise.all(
+    (await listMomentsFiles(notesDir)).map(async (filePath) => {
+      try {
+        return `${filePath}:${(await fs.stat(filePath)).mtimeMs}`;
+      } catch {
+        return filePath;
+      }
+    }),
+  );
+  return [today, String(getMomentsIncludeArchiveSetting()), ...files].join("\u0000");
+}
+
+/**
+ * Stats for the dashboard, which refreshes on every note save; they are reused while no
+ * Moments file changed and the day is the same.
+ */
+export async function collectMomentsStats(notesDir: string, today: string): Promise<MomentsStats> {
+  const key = await buildMomentsStatsKey(notesDir, today);
+  if (cachedStats?.key === key) {
+    return cachedStats.stats;
+  }
+
+  const from = shiftDate(today, -(HEATMAP_DAYS - 1));
+  const stats = buildMomentsStats(await collectMomentsInRange(notesDir, from, today), today);
+  cachedStats = { key, stats };
+  return stats;
+}
@@ -1,8 +1,16 @@
 import * as fs from "fs/promises";
 import * as path from "path";
 import * as vscode from "vscode";
+import {
+  getMomentTimestamp,
+  parseMomentEntryStart,
+  parseMomentsFileUtcOffset,
+} from "../../shared/momentSyntax.js";
+import { todayDateString } from "../dashboardTaskUtils.js";
 import { buildQueryExcerpt } from "../noteCommands.js";
 import { t } from "../i18n.js";
+import { recordMutation } from "../mutationJournal.js";
+import { getMomentsDayStartHourSetting } from "../notesConfig.js";
 import type { TaskOverviewItem, InboxTaskFilter } from "./types.js";
 import {
   filterTaskOverviewItems,
@@ -12,6 +20,7 @@ import {
 } from "./config.js";
 import {
   getMomentsDirectory,
+  insertNextRecurringMoment,
   readMoments,
   mapMomentBodyIndexToFileLine,
   toggleMomentTaskLine,
@@ -21,9 +30,18 @@ interface OpenTaskQuickPickItem extends vscode.QuickPickItem {
   task: TaskOverviewItem;
 }
 
-function compareOpenTaskOverview<T extends { date: string; time: string; done?: boolean }>(
+interface SortableMoment {
+  date: string;
+  time: string;
+  done?: boolean;
+  /** Front matter offset of the entry's file, for times written without one. */
+  utcOffset?: string | null;
+}
+
+function compareOpenTaskOverview<T extends SortableMoment>(
   a: T,
   b: T,
+  dayStartHour: number,
 ): number {
   if ((a.done ?? false) !== (b.done ?? false)) {
     return Number(a.done ?? false) - Number(b.done ?? false);
@@ -34,7 +52,10 @@ function compareOpenTaskOverview<T extends { date: string; time: string; done?:
     return dateCompare;
   }
 
-  return b.time.localeCompare(a.time);
+  return (
+    getMomentTimestamp(b.date, b.time, b.utcOffset, dayStartHour) -
+    getMomentTimestamp(a.date, a.time, a.utcOffset, dayStartHour)
+  );
 }
 
 function normalizeMomentTextForSearch(text: string): string {
@@ -44,10 +65,11 @@ function normalizeMomentTextForSearch(text: string): string {
     .trim();
 }
 
-export function sortOpenTaskOverview<T extends { date: string; time: string; done?: boolean }>(
+export function sortOpenTaskOverview<T extends SortableMoment>(
   items: T[],
+  dayStartHour = getMomentsDayStartHourSetting(),
 ): T[] {
-  return [...items].sort((a, b) => compareOpenTaskOverview(a, b));
+  return [...items].sort((a, b) => compareOpenTaskOverview(a, b, dayStartHour));
 }
 
 export function buildTaskSearchDetail(item: TaskOverviewItem, query: string = ""): string {
@@ -134,6 +156,7 @@ async function collectOpenTaskOverview(notesDir: string): Promise<TaskOverviewIt
     const filePath = path.join(momentsDir, file.name);
     const raw = await fs.readFile(filePath, "utf8");
     const entries = await readMoments(notesDir, date);
+    const utcOffset = parseMomentsFileUtcOffset(raw);
 
     for (const entry of entries) {
       items.push({
@@ -144,6 +167,7 @@ async function collectOpenTaskOverview(notesDir: string): Promise<TaskOverviewIt
         relativePath: path.relative(notesDir, filePath),
         fileLineIndex: mapMomentBodyIndexToFileLine(raw, entry.index),
         done: entry.done,
+        utcOffset,
       });
     }
   }
@@ -163,7 +187,8 @@ function openOpenTaskItem(item: TaskOverviewItem): Thenable<vscode.TextEditor> {
   });
 }
 
-async function toggleTaskAtFileLine(filePath: string, fileLineIndex: number): Promise<boolean> {
+async function toggleTaskAtFileLine(item: TaskOverviewItem): Promise<boolean> {
+  const { filePath, fileLineIndex } = item;
   try {
     await fs.access(filePath);
   } catch {
@@ -176,12 +201,21 @@ async function toggleTaskAtFileLine(filePath: string, fileLineIndex: number): Pr
     return false;
   }
 
+  // Refuse when the file changed since the inbox was listed and the line holds another entry.
+  const start = parseMomentEntryStart(lines[fileLineIndex]);
+  if (!start || start.time !== item.time || start.text !== item.text.split("\n")[0]) {
+    return false;
+  }
+
   const result = toggleMomentTaskLine(lines[fileLineIndex]);
   if (!result.changed) {
     return false;
   }
 
   lines[fileLineIndex] = result.line;
+  if (!start.done && parseMomentEntryStart(result.line)?.done) {
+    insertNextRecurringMoment(lines, fileLineIndex, todayDateString());
+  }
   await fs.writeFile(filePath, lines.join("\n"), "utf8");
   return true;
 }
@@ -242,7 +276,14 @@ export async function showOpenTasksOverview(notesDir: string): Promise<void> {
     quickPick.enabled = false;
 
     try {
-      await toggleTaskAtFileLine(event.item.task.filePath, event.item.task.fileLineIndex);
+      const item = event.item.task;
+      if (
+        !(await recordMutation(t("journalToggleMoment"), [item.filePath], () =>
+          toggleTaskAtFileLine(item),
+        ))
+      ) {
+        void vscode.window.showWarningMessage(t("momentChangedOnDisk"));
+      }
       await refreshItems(quickPick.value);
     } finally {
       quickPick.busy = false;
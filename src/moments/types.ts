@@ -1,9 +1,12 @@
+import type { MomentReply } from "../../shared/momentSyntax.js";
+
 export interface MomentEntry {
   index: number; // 0-based line index in the body
   time: string; // HH:mm
   text: string; // content after the time
   done: boolean;
   tags?: string[];
+  replies?: MomentReply[]; // `↳ HH:mm` follow-ups, oldest first
 }
 
 export interface MomentDaySection {
@@ -11,6 +14,20 @@ export interface MomentDaySection {
   dateLabel: string;
   isToday: boolean;
   entries: MomentEntry[];
+  archive?: string; // folder of the archived file, relative to the Moments folder; read-only
+}
+
+/** Posting activity for the dashboard's Moments layout; posts count entries and replies. */
+export interface MomentsStats {
+  today: string; // last day of the heatmap, in Moments days
+  days: Record<string, number>; // YYYY-MM-DD → posts, only days with posts
+  hours: number[]; // 24 buckets by the hour written on the post
+  months: string[]; // YYYY-MM, oldest first, for topTags
+  topTags: Array<{ tag: string; total: number; months: number[] }>;
+  totalPosts: number;
+  activeDays: number;
+  currentStreak: number;
+  longestStreak: number;
 }
 
 export interface PinnedEntryData {
@@ -33,6 +50,7 @@ export interface TaskOverviewItem {
   relativePath: string;
   fileLineIndex: number;
   done: boolean;
+  utcOffset?: string | null; // front matter offset of the file, for times without one
 }
 
 export type InboxTaskFilter = "all" | "open" | "done" | "overdue";
@@ -0,0 +1,141 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+
+/**
+ * A file's bytes before and after an operation; null when the file did not exist. Bytes
+ * rather than text so Moments attachments moved by the archive survive an undo.
+ */
+export interface JournalFileChange {
+  filePath: string;
+  before: Buffer | null;
+  after: Buffer | null;
+}
+
+export interface JournalEntry {
+  /** Localized description shown in the undo toast, e.g. "Delete task". */
+  label: string;
+  files: JournalFileChange[];
+}
+
+export type JournalEvent = { kind: "record" | "undo" | "redo"; label: string };
+
+export type JournalReplayResult =
+  | { status: "done"; label: string }
+  | { status: "empty" }
+  | { status: "conflict"; label: string; filePath: string };
+
+const MAX_JOURNAL_ENTRIES = 50;
+const undoStack: JournalEntry[] = [];
+const redoStack: JournalEntry[] = [];
+const listeners = new Set<(event: JournalEvent) => void>();
+
+async function readSnapshot(filePath: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(filePath);
+  } catch {
+    return null;
+  }
+}
+
+function sameSnapshot(a: Buffer | null, b: Buffer | null): boolean {
+  return a === null || b === null ? a === b : a.equals(b);
+}
+
+async function writeSnapshot(filePath: string, content: Buffer | null): Promise<void> {
+  if (content === null) {
+    await fs.rm(filePath, { force: true });
+    return;
+  }
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content);
+}
+
+function notify(event: JournalEvent): void {
+  for (const listener of listeners) {
+    listener(event);
+  }
+}
+
+/** Listens for recorded, undone and redone operations (to offer an undo toast). */
+export function onDidChangeMutationJournal(listener: (event: JournalEvent) => void): {
+  dispose(): void;
+} {
+  listeners.add(listener);
+  return { dispose: () => listeners.delete(listener) };
+}
+
+/**
+ * Runs `mutate`, which may only write the given files, and journals their content before
+ * and after so the operation can be undone. Nothing is journaled when no file changed.
+ */
+export async function recordMutation<T>(
+  label: string,
+  filePaths: string[],
+  mutate: () => Promise<T>,
+): Promise<T> {
+  const uniquePaths = [...new Set(filePaths.map((filePath) => path.resolve(filePath)))];
+  const before = await Promise.all(uniquePaths.map(readSnapshot));
+  const result = await mutate();
+  const after = await Promise.all(uniquePaths.map(readSnapshot));
+
+  const files = uniquePaths
+    .map((filePath, index) => ({ filePath, before: before[index], after: after[index] }))
+    .filter((change) => !sameSnapshot(change.before, change.after));
+  if (files.length > 0) {
+    undoStack.push({ label, files });
+    undoStack.splice(0, Math.max(0, undoStack.length - MAX_JOURNAL_ENTRIES));
+    redoStack.length = 0;
+    notify({ kind: "record", label });
+  }
+  return result;
+}
+
+/**
+ * Restores one side of the newest entry of `from`. The entry is dropped without writing
+ * anything when a file no longer holds the content the operation left, so edits made
+ * since are never clobbered.
+ */
+async function replay(
+  from: JournalEntry[],
+  to: JournalEntry[],
+  side: "before" | "after",
+): Promise<JournalReplayResult> {
+  const entry = from.pop();
+  if (!entry) {
+    return { status: "empty" };
+  }
+
+  const expected = side === "before" ? "after" : "before";
+  for (const change of entry.files) {
+    if (!sameSnapshot(await readSnapshot(change.filePath), change[expected])) {
+      return { status: "conflict", label: entry.label, filePath: change.filePath };
+    }
+  }
+
+  for (const change of entry.files) {
+    await writeSnapshot(change.filePath, change[side]);
+  }
+  to.push(entry);
+  return { status: "done", label: entry.label };
+}
+
+export async function undoLastMutation(): Promise<JournalReplayResult> {
+  const result = await replay(undoStack, redoStack, "before");
+  if (result.status === "done") {
+    notify({ kind: "undo", label: result.label });
+  }
+  return result;
+}
+
+export async function redoLastMutation(): Promise<JournalReplayResult> {
+  const result = await replay(redoStack, undoStack, "after");
+  if (result.status === "done") {
+    notify({ kind: "redo", label: result.label });
+  }
+  return result;
+}
+
+export function clearMutationJournal(): void {
+  undoStack.length = 0;
+  redoStack.length = 0;
+}
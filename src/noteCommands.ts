@@ -1,17 +1,30 @@
 import * as fs from "fs/promises";
 import * as path from "path";
 import * as vscode from "vscode";
+import {
+  buildQueryExcerpt,
+  extractNoteMetadata,
+  extractPreviewText,
+  normalizeSearchText,
+  stripFrontMatter,
+  type NoteMetadata,
+} from "../shared/noteContent.js";
+import { getDailyNoteFilePath, stripDatePrefix } from "../shared/noteFilename.js";
 import { resolveUniqueFilePath } from "../shared/pathSafety.js";
+import { getSearchQueryText } from "../shared/searchIndex.js";
 import { formatDateString, formatTimeHM } from "./dashboardTaskUtils.js";
 import { t } from "./i18n.js";
 import { getIndexedNotesCached } from "./notesIndexCache.js";
+import { getNotesSearchIndex } from "./notesSearchIndex.js";
 import {
   getDefaultNoteTitleSetting,
   getDefaultSnippetSetting,
   getMomentsSubfolderSetting,
   getNoteTitleConvertSpacesSetting,
   getTemplatesSetting,
+  type NotesDefaultSnippetSetting,
 } from "./notesConfig.js";
+import { renameNoteWithLinks } from "./wikiLinks.js";
 
 const SNIPPET_PREFIX = "noteeees_template_";
 
@@ -24,110 +37,12 @@ interface FilenameToken {
   format: string;
 }
 
-export interface NoteMetadata {
-  title: string;
-  tags: string[];
-}
-
 export interface NoteFile {
   relativePath: string;
   absolutePath: string;
   mtime: number;
 }
 
-function stripFrontMatter(rawContent: string): string {
-  return rawContent.replace(/^---\s*\n[\s\S]*?\n---\s*\n?/, "").trim();
-}
-
-export function extractPreviewText(rawContent: string, maxLength: number = 140): string {
-  const preview = stripFrontMatter(rawContent).replace(/\n+/g, " ").trim();
-  if (preview.length <= maxLength) {
-    return preview;
-  }
-
-  return `${preview.slice(0, maxLength - 1).trimEnd()}…`;
-}
-
-function normalizeSearchText(text: string): string {
-  return text.replace(/\n+/g, " ").trim();
-}
-
-function getSearchTerms(query: string): string[] {
-  return query
-    .toLowerCase()
-    .split(/\s+/)
-    .map((term) => term.trim())
-    .filter((term) => term.length > 0);
-}
-
-export function buildQueryExcerpt(text: string, query: string, maxLength: number = 100): string {
-  const normalized = normalizeSearchText(text);
-  if (!normalized) {
-    return "";
-  }
-
-  const terms = getSearchTerms(query);
-  if (terms.length === 0) {
-    if (normalized.length <= maxLength) {
-      return normalized;
-    }
-
-    return `${normalized.slice(0, maxLength - 1).trimEnd()}…`;
-  }
-
-  const lowered = normalized.toLowerCase();
-  let matchIndex = -1;
-  let matchLength = 0;
-
-  for (const term of terms) {
-    const index = lowered.indexOf(term);
-    if (index !== -1 && (matchIndex === -1 || index < matchIndex)) {
-      matchIndex = index;
-      matchLength = term.length;
-    }
-  }
-
-  if (matchIndex === -1) {
-    if (normalized.length <= maxLength) {
-      return normalized;
-    }
-
-    return `${normalized.slice(0, maxLength - 1).trimEnd()}…`;
-  }
-
-  const contextPadding = Math.max(0, Math.floor((maxLength - matchLength) / 2));
-  const start = Math.max(0, matchIndex - contextPadding);
-  const end = Math.min(normalized.length, start + maxLength);
-  let adjustedStart = Math.max(0, end - maxLength);
-  let adjustedEnd = end;
-
-  if (adjustedStart > 0) {
-    const nextWordBoundary = normalized.indexOf(" ", adjustedStart);
-    if (nextWordBoundary !== -1 && nextWordBoundary < matchIndex) {
-      adjustedStart = nextWordBoundary + 1;
-    }
-  }
-
-  if (adjustedEnd < normalized.length) {
-    const previousWordBoundary = normalized.lastIndexOf(" ", adjustedEnd);
-    if (previousWordBoundary !== -1 && previousWordBoundary > matchIndex + matchLength) {
-      adjustedEnd = previousWordBoundary;
-    }
-  }
-
-  let excerpt = normalized.slice(adjustedStart, adjustedEnd).trim();
-
-  if (adjustedStart > 0) {
-    excerpt = `…${excerpt}`;
-  }
-
-  if (adjustedEnd < normalized.length) {
-    excerpt = `${excerpt}…`;
-  }
-
-  return excerpt;
-}
-
 const DEFAULT_TOKENS: FilenameToken[] = [
   { type: "datetime", token: "{dt}", format: "YYYY-MM-DD_HH-mm-ss" },
   { type: "title", token: "{title}", format: "Untitled" },
@@ -194,6 +109,7 @@ function resolveFilename(titleInput: string, now: Date): string {
 }
 
 export { resolveUniqueFilePath };
+export { buildQueryExcerpt, extractNoteMetadata, extractPreviewText, type NoteMetadata };
 
 async function insertSnippetByName(
   editor: vscode.TextEditor,
@@ -229,46 +145,6 @@ export function shouldPromptForTemplateSelection(templates: string[]): boolean {
   return templates.length > 0;
 }
 
-function extractFrontMatterTags(rawContent: string): string[] {
-  const fmMatch = rawContent.match(/^---\s*\n([\s\S]*?)\n---/);
-  if (!fmMatch) {
-    return [];
-  }
-
-  const tagsLine = fmMatch[1].match(/^tags\s*:\s*(.+)$/m);
-  if (!tagsLine) {
-    return [];
-  }
-
-  const raw = tagsLine[1].replace(/[\[\]]/g, "");
-  return raw
-    .split(",")
-    .map((tag) => tag.trim())
-    .filter((tag) => tag.length > 0)
-    .map((tag) => (tag.startsWith("#") ? tag : `#${tag}`));
-}
-
-const INLINE_TAG_PATTERN = /#[\p{L}\p{M}\p{N}_\p{Pd}]+/gu;
-
-function normalizeInlineTag(tag: string): string {
-  return tag.normalize("NFKC");
-}
-
-function extractInlineTags(rawContent: string): string[] {
-  return [
-    ...new Set((rawContent.match(INLINE_TAG_PATTERN) || []).map((tag) => normalizeInlineTag(tag))),
-  ];
-}
-
-export function extractNoteMetadata(rawContent: string, fallbackTitle: string): NoteMetadata {
-  const headingMatch = rawContent.match(/^#\s+(.+)$/m);
-  const title = headingMatch?.[1]?.trim() || fallbackTitle;
-  const tags = [
-    ...new Set([...extractFrontMatterTags(rawContent), ...extractInlineTags(rawContent)]),
-  ];
-  return { title, tags };
-}
-
 function formatModifiedAt(mtime: number): string {
   return new Date(mtime).toLocaleString();
 }
@@ -312,9 +188,31 @@ function toNoteQuickPickItem(note: IndexedNote, query: string = ""): NoteQuickPi
   };
 }
 
+/**
+ * Ranks the given notes for a query with the notes search index (BM25, phrases, `tag:` /
+ * `path:` / `before:` / `after:`). Notes that do not match are dropped.
+ */
+async function rankNotesForQuery(
+  notes: IndexedNote[],
+  notesDir: string,
+  query: string,
+): Promise<IndexedNote[]> {
+  const index = await getNotesSearchIndex(notesDir, getMomentsSubfolderSetting());
+  const notesByPath = new Map(notes.map((note) => [note.relativePath, note]));
+  return index
+    .search(query, { kinds: ["note"] })
+    .map((hit) => notesByPath.get(hit.document.path))
+    .filter((note): note is IndexedNote => note !== undefined);
+}
+
+/**
+ * Shows a quick pick over `notes`. With `notesDir`, typed queries go through the notes
+ * search index instead of the quick pick's own fuzzy filter.
+ */
 export async function pickIndexedNote(
   notes: IndexedNote[],
   placeHolder: string,
+  notesDir?: string,
 ): Promise<IndexedNote | string | undefined> {
   return new Promise<IndexedNote | string | undefined>((resolve) => {
     const quickPick = vscode.window.createQuickPick<NoteQuickPickItem>();
@@ -331,8 +229,15 @@ export async function pickIndexedNote(
       resolve(result);
     };
 
-    const updateItems = (query: string) => {
-      const items: NoteQuickPickItem[] = notes.map((note) => toNoteQuickPickItem(note, query));
+    let searchGeneration = 0;
+
+    const setItems = (query: string, visibleNotes: IndexedNote[], ranked: boolean) => {
+      const excerptQuery = getSearchQueryText(query);
+      const items: NoteQuickPickItem[] = visibleNotes.map((note) => ({
+        ...toNoteQuickPickItem(note, excerptQuery),
+        // Ranked results must survive the quick pick's own filter, which knows no operators.
+        alwaysShow: ranked,
+      }));
       if (query.trim()) {
         items.unshift({
           label: `$(plus) ${t("createNewNote", { title: query.trim() })}`,
@@ -344,6 +249,32 @@ export async function pickIndexedNote(
       quickPick.items = items;
     };
 
+    const updateItems = (query: string) => {
+      const generation = ++searchGeneration;
+      if (!notesDir || !query.trim()) {
+        quickPick.busy = false;
+        setItems(query, notes, false);
+        return;
+      }
+
+      quickPick.busy = true;
+      rankNotesForQuery(notes, notesDir, query).then(
+        (ranked) => {
+          if (generation === searchGeneration) {
+            quickPick.busy = false;
+            setItems(query, ranked, true);
+          }
+        },
+        (error: unknown) => {
+          console.error("[noteeees] Note search failed:", error);
+          if (generation === searchGeneration) {
+            quickPick.busy = false;
+            setItems(query, notes, false);
+          }
+        },
+      );
+    };
+
     quickPick.matchOnDescription = true;
     quickPick.matchOnDetail = true;
     quickPick.placeholder = placeHolder;
@@ -388,7 +319,15 @@ export async function buildIndexedNotes(noteFiles: NoteFile[]): Promise<IndexedN
   return Promise.all(readTasks);
 }
 
-export async function createNewNote(notesDir: string, initialTitle?: string): Promise<void> {
+/**
+ * Creates a note from the title (prompting when none is given), applies the template and
+ * appends `initialBody` below it. Returns the new file, or undefined when cancelled.
+ */
+export async function createNewNote(
+  notesDir: string,
+  initialTitle?: string,
+  initialBody?: string,
+): Promise<string | undefined> {
   // Step 1: Ask for note title
   const titleInput =
     initialTitle ||
@@ -398,7 +337,7 @@ export async function createNewNote(notesDir: string, initialTitle?: string): Pr
     }));
 
   if (!titleInput) {
-    return;
+    return undefined;
   }
 
   // Step 2: Detect file path
@@ -432,7 +371,7 @@ export async function createNewNote(notesDir: string, initialTitle?: string): Pr
       t("noBtn"),
     );
     if (overwrite !== t("yesBtn")) {
-      return;
+      return undefined;
     }
   } catch {
     // File doesn't exist, proceed normally
@@ -448,12 +387,30 @@ export async function createNewNote(notesDir: string, initialTitle?: string): Pr
   const defaultSnippet = getDefaultSnippetSetting();
   const templates = getTemplatesSetting();
 
+  await applyNoteTemplate(editor, defaultSnippet, templates);
+
+  if (initialBody) {
+    const { document } = editor;
+    const end = document.lineAt(document.lineCount - 1).range.end;
+    const separator = document.getText().trim() ? "\n\n" : "";
+    await editor.edit((builder) => builder.insert(end, `${separator}${initialBody}`));
+    await document.save();
+  }
+
+  vscode.window.showInformationMessage(t("noteCreated", { name: path.basename(filePath) }));
+  return filePath;
+}
+
+async function applyNoteTemplate(
+  editor: vscode.TextEditor,
+  defaultSnippet: NotesDefaultSnippetSetting | undefined,
+  templates: string[],
+): Promise<void> {
   if (!shouldPromptForTemplateSelection(templates)) {
     if (defaultSnippet?.name) {
       const langId = defaultSnippet.langId || "markdown";
       await insertSnippetByName(editor, langId, defaultSnippet.name);
     }
-    vscode.window.showInformationMessage(t("noteCreated", { name: path.basename(filePath) }));
     return;
   }
 
@@ -485,8 +442,6 @@ export async function createNewNote(notesDir: string, initialTitle?: string): Pr
     await insertSnippetByName(editor, langId, snippetName);
   }
   // "Empty" selected: do nothing (empty file)
-
-  vscode.window.showInformationMessage(t("noteCreated", { name: path.basename(filePath) }));
 }
 
 const DAILY_NOTE_DEFAULT_TEMPLATE = "# {date}\n\n## Tasks\n\n## Notes\n\n## Journal\n";
@@ -505,9 +460,8 @@ function applyDailyNoteTokens(template: string, date: Date): string {
 export async function buildDailyNoteContent(
   templatePath: string | undefined,
   notesDir: string,
+  now = new Date(),
 ): Promise<string> {
-  const now = new Date();
-
   if (templatePath) {
     const resolvedPath = path.isAbsolute(templatePath)
       ? templatePath
@@ -525,18 +479,30 @@ export async function buildDailyNoteContent(
   return applyDailyNoteTokens(DAILY_NOTE_DEFAULT_TEMPLATE, now);
 }
 
-export async function openDailyNote(notesDir: string, templatePath?: string): Promise<void> {
-  const today = formatDateString(new Date());
-  const fileName = `${today}_daily.md`;
-  const filePath = path.join(notesDir, fileName);
+/** Returns the daily note of `date`, creating it from the template when missing. */
+export async function ensureDailyNote(
+  notesDir: string,
+  templatePath?: string,
+  date = new Date(),
+): Promise<string> {
+  const filePath = getDailyNoteFilePath(notesDir, formatDateString(date));
 
   try {
     await fs.access(filePath);
   } catch {
-    const content = await buildDailyNoteContent(templatePath, notesDir);
+    const content = await buildDailyNoteContent(templatePath, notesDir, date);
     await fs.writeFile(filePath, content, "utf8");
   }
+  return filePath;
+}
 
+/** Opens (creating it from the template if needed) the daily note of today or `date`. */
+export async function openDailyNote(
+  notesDir: string,
+  templatePath?: string,
+  date = new Date(),
+): Promise<void> {
+  const filePath = await ensureDailyNote(notesDir, templatePath, date);
   const doc = await vscode.workspace.openTextDocument(filePath);
   await vscode.window.showTextDocument(doc);
 }
@@ -556,6 +522,7 @@ export async function listNotes(notesDir: string): Promise<void> {
   const selected = await pickIndexedNote(
     indexedNotes,
     t("notesFound", { count: indexedNotes.length }),
+    notesDir,
   );
 
   if (selected) {
@@ -567,3 +534,39 @@ export async function listNotes(notesDir: string): Promise<void> {
     }
   }
 }
+
+/**
+ * `notes.renameNote`: asks for a new title, keeps the date prefix of the file name and
+ * renames the note together with the `[[...]]` links to it.
+ */
+export async function renameNote(notesDir: string, filePath: string): Promise<void> {
+  const stem = path.basename(filePath, ".md");
+  const { title } = stripDatePrefix(stem);
+  const prefix = stem.slice(0, stem.length - title.length);
+  const input = await vscode.window.showInputBox({
+    prompt: t("renameNotePrompt", { name: stem }),
+    value: title,
+    // `#`, `^`, `[`, `]` and `|` would break the `[[...]]` links rewritten to the new title.
+    validateInput: (text) =>
+      !text.trim() || /[\\/:*?"<>|#^[\]]/.test(text) ? t("renameNoteInvalid") : undefined,
+  });
+  const newTitle = input?.trim();
+  if (!newTitle || newTitle === title) {
+    return;
+  }
+
+  const convertSpaces = getNoteTitleConvertSpacesSetting();
+  const newStem = `${prefix}${convertSpaces ? newTitle.replace(/ /g, convertSpaces) : newTitle}`;
+  const newPath = path.join(path.dirname(filePath), `${newStem}.md`);
+  if (newPath.toLowerCase() !== filePath.toLowerCase()) {
+    try {
+      await fs.access(newPath);
+      vscode.window.showErrorMessage(t("renameNoteExists", { name: path.basename(newPath) }));
+      return;
+    } catch {
+      // The new name is free.
+    }
+  }
+
+  await renameNoteWithLinks(filePath, newPath, notesDir);
+}
@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import type { MomentsArchiveMode } from "./moments/archive.js";
 import type { SidebarTagSortMode } from "./sidebarProvider.js";
 
 export type { SidebarTagSortMode };
@@ -12,6 +13,8 @@ export type NotesConfigKey =
   | "notesDirectory"
   | "defaultNoteTitle"
   | "noteTitleConvertSpaces"
+  | "updateLinksOnRename"
+  | "wikiLinkDiagnostics"
   | "defaultSnippet"
   | "templates"
   | "sidebarRecentLimit"
@@ -21,9 +24,19 @@ export type NotesConfigKey =
   | "momentsFeedDays"
   | "momentsInboxFilter"
   | "momentsArchiveAfterDays"
+  | "momentsArchiveMode"
+  | "momentsIncludeArchive"
+  | "momentsExportTemplate"
+  | "momentsTimeFormat"
+  | "momentsUtcOffset"
+  | "momentsDayStartHour"
   | "dailyNoteTemplate"
   | "workspaceNotesDirectory"
   | "ai.autoEnrich"
+  | "ai.writeEnrichmentToFile"
+  | "dashboard.completeSubtasks"
+  | "dashboard.rollOverTarget"
+  | "dashboard.autoRollOver"
   | "statusBarTasks"
   | "locale";
 
@@ -68,6 +81,14 @@ export function getNoteTitleConvertSpacesSetting(): string {
   return getNotesConfiguration().get<string>("noteTitleConvertSpaces") ?? "_";
 }
 
+export function getUpdateLinksOnRenameSetting(): boolean {
+  return getNotesConfiguration().get<boolean>("updateLinksOnRename") ?? true;
+}
+
+export function getWikiLinkDiagnosticsSetting(): boolean {
+  return getNotesConfiguration().get<boolean>("wikiLinkDiagnostics") ?? true;
+}
+
 export function getDefaultSnippetSetting(): NotesDefaultSnippetSetting | undefined {
   return getNotesConfiguration().get<NotesDefaultSnippetSetting>("defaultSnippet");
 }
@@ -118,6 +139,35 @@ export function getMomentsArchiveAfterDaysSetting(): number {
   return Math.max(1, getNotesConfiguration().get<number>("momentsArchiveAfterDays") ?? 90);
 }
 
+export function getMomentsArchiveModeSetting(): MomentsArchiveMode {
+  const value = getNotesConfiguration().get<string>("momentsArchiveMode");
+  return value === "monthly" || value === "yearly" ? value : "daily";
+}
+
+export function getMomentsIncludeArchiveSetting(): boolean {
+  return getNotesConfiguration().get<boolean>("momentsIncludeArchive") ?? true;
+}
+
+export function getMomentsExportTemplateSetting(): string {
+  return getNotesConfiguration().get<string>("momentsExportTemplate") || "- {date} {time} {text}";
+}
+
+export function getMomentsTimeFormatSetting(): "HH:mm" | "HH:mm:ss" {
+  return getNotesConfiguration().get<string>("momentsTimeFormat") === "HH:mm:ss"
+    ? "HH:mm:ss"
+    : "HH:mm";
+}
+
+export function getMomentsUtcOffsetSetting(): "off" | "entry" | "frontMatter" {
+  const value = getNotesConfiguration().get<string>("momentsUtcOffset");
+  return value === "entry" || value === "frontMatter" ? value : "off";
+}
+
+export function getMomentsDayStartHourSetting(): number {
+  const hour = Math.floor(getNotesConfiguration().get<number>("momentsDayStartHour") ?? 0);
+  return Number.isFinite(hour) ? Math.min(23, Math.max(0, hour)) : 0;
+}
+
 export function getDailyNoteTemplateSetting(): string | undefined {
   return getNotesConfiguration().get<string>("dailyNoteTemplate") || undefined;
 }
@@ -126,6 +176,24 @@ export function getAiAutoEnrichSetting(): boolean {
   return getNotesConfiguration().get<boolean>("ai.autoEnrich") ?? false;
 }
 
+export function getAiWriteEnrichmentToFileSetting(): boolean {
+  return getNotesConfiguration().get<boolean>("ai.writeEnrichmentToFile") ?? false;
+}
+
+export function getDashboardCompleteSubtasksSetting(): boolean {
+  return getNotesConfiguration().get<boolean>("dashboard.completeSubtasks") ?? false;
+}
+
+export function getDashboardRollOverTargetSetting(): "today" | "inbox" {
+  return getNotesConfiguration().get<string>("dashboard.rollOverTarget") === "inbox"
+    ? "inbox"
+    : "today";
+}
+
+export function getDashboardAutoRollOverSetting(): boolean {
+  return getNotesConfiguration().get<boolean>("dashboard.autoRollOver") ?? false;
+}
+
 export function getStatusBarTasksSetting(): boolean {
   return getNotesConfiguration().get<boolean>("statusBarTasks") ?? true;
 }
@@ -0,0 +1,339 @@
+import * as crypto from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { collectNoteFiles } from "../shared/collectNoteFiles.js";
+import { formatDateString } from "../shared/dateFormat.js";
+import { extractNoteMetadata, stripFrontMatter } from "../shared/noteContent.js";
+import {
+  getMomentThreadText,
+  parseMomentEntries,
+  splitMomentsRollup,
+} from "../shared/momentSyntax.js";
+import { dateFromFilePath } from "../shared/noteFilename.js";
+import { SearchIndex, type SearchDocument } from "../shared/searchIndex.js";
+import { buildTaskId } from "../shared/taskRef.js";
+import { parseTaskLine } from "../shared/taskSyntax.js";
+import { extractMomentTags } from "./moments/config.js";
+
+interface IndexedFileState {
+  mtime: number;
+  documentIds: string[];
+}
+
+interface NotesSearchState {
+  index: SearchIndex;
+  files: Map<string, IndexedFileState>;
+  loaded: boolean;
+  /** Files restored from storage, whose document text is read back on the next refresh. */
+  textPending: Set<string>;
+  /** Refreshes run one after another so concurrent callers never index a file twice. */
+  queue: Promise<void>;
+  persistTimer?: ReturnType<typeof setTimeout>;
+}
+
+interface PersistedNotesSearchIndex {
+  files: Record<string, IndexedFileState>;
+  index: unknown;
+}
+
+const MOMENTS_FILE_RE = /^(\d{4}-\d{2}-\d{2})\.md$/;
+const MOMENTS_ARCHIVE_MONTH_RE = /^\d{4}-\d{2}$/;
+const MOMENTS_ROLLUP_FILE_RE = /^\d{4}(?:-\d{2})?\.md$/;
+/** Searches right after a save come in bursts; the index is written once they settle. */
+const PERSIST_DELAY_MS = 2000;
+const statesByKey = new Map<string, NotesSearchState>();
+let storageDir: string | undefined;
+
+/** Where the index is persisted between sessions; unset keeps it in memory only. */
+export function setSearchIndexStorageDir(dir: string | undefined): void {
+  storageDir = dir;
+}
+
+function buildStateKey(notesDir: string, momentsSubfolder: string): string {
+  return `${path.resolve(notesDir)}\u0000${momentsSubfolder}`;
+}
+
+function getStorageFilePath(key: string): string | undefined {
+  if (!storageDir) {
+    return undefined;
+  }
+  const hash = crypto.createHash("sha1").update(key).digest("hex").slice(0, 16);
+  return path.join(storageDir, `search-index-${hash}.json`);
+}
+
+function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.normalize("NFKC").toLowerCase()))];
+}
+
+/** One document for the note itself plus one per task line. */
+export function buildNoteSearchDocuments(
+  relativePath: string,
+  content: string,
+  mtime: number,
+): SearchDocument[] {
+  const date = dateFromFilePath(relativePath) ?? formatDateString(new Date(mtime));
+  const metadata = extractNoteMetadata(content, path.basename(relativePath, ".md"));
+  const documents: SearchDocument[] = [
+    {
+      id: relativePath,
+      kind: "note",
+      path: relativePath,
+      date,
+      tags: normalizeTags(metadata.tags),
+      title: metadata.title,
+      text: stripFrontMatter(content),
+      line: 0,
+    },
+  ];
+
+  content.split("\n").forEach((line, lineIndex) => {
+    const parsed = parseTaskLine(line.replace(/\r$/, ""));
+    if (!parsed) {
+      return;
+    }
+    documents.push({
+      id: buildTaskId(relativePath, lineIndex, parsed.text),
+      kind: "task",
+      path: relativePath,
+      date,
+      tags: normalizeTags(parsed.tags),
+      title: "",
+      text: parsed.text,
+      line: lineIndex,
+    });
+  });
+
+  return documents;
+}
+
+/** One document per Moments entry, keyed by `path#bodyLine`. */
+export function buildMomentSearchDocuments(
+  relativePath: string,
+  date: string,
+  content: string,
+): SearchDocument[] {
+  return parseMomentEntries(content).map((entry) => ({
+    id: `${relativePath}#${entry.index}`,
+    kind: "moment",
+    path: relativePath,
+    date,
+    tags: extractMomentTags(getMomentThreadText(entry)),
+    title: "",
+    text: getMomentThreadText(entry),
+    line: entry.index,
+  }));
+}
+
+/**
+ * Documents for the days of a monthly or yearly Moments archive, keyed by
+ * `path#date#bodyLine`; lines count within the day as if it were still a day file.
+ */
+function buildMomentRollupSearchDocuments(relativePath: string, content: string): SearchDocument[] {
+  return splitMomentsRollup(content).flatMap((day) =>
+    buildMomentSearchDocuments(relativePath, day.date, day.content).map((document) => ({
+      ...document,
+      id: `${relativePath}#${day.date}#${document.line}`,
+    })),
+  );
+}
+
+/**
+ * How a file under the Moments folder is indexed: a day file (in the folder itself or a
+ * daily archive `archive/YYYY-MM/`), a monthly / yearly archive, or not at all.
+ */
+function classifyMomentsFile(
+  relativePath: string,
+  momentsDir: string,
+): { kind: "day"; date: string } | { kind: "rollup" } | null {
+  const dir = path.dirname(relativePath);
+  const name = path.basename(relativePath);
+  const archiveDir = path.join(momentsDir, "archive");
+  const date = MOMENTS_FILE_RE.exec(name)?.[1];
+  if (
+    date &&
+    (dir === momentsDir ||
+      (path.dirname(dir) === archiveDir && MOMENTS_ARCHIVE_MONTH_RE.test(path.basename(dir))))
+  ) {
+    return { kind: "day", date };
+  }
+  return dir === archiveDir && MOMENTS_ROLLUP_FILE_RE.test(name) ? { kind: "rollup" } : null;
+}
+
+async function loadPersistedState(state: NotesSearchState, key: string): Promise<void> {
+  const filePath = getStorageFilePath(key);
+  if (!filePath) {
+    return;
+  }
+
+  try {
+    const persisted = JSON.parse(await fs.readFile(filePath, "utf8")) as PersistedNotesSearchIndex;
+    const index = SearchIndex.fromJSON(persisted.index);
+    if (!index || !persisted.files) {
+      return;
+    }
+    state.index = index;
+    state.files = new Map(Object.entries(persisted.files));
+    state.textPending = new Set(state.files.keys());
+  } catch {
+    // missing or unreadable index: rebuild from the notes
+  }
+}
+
+async function persistState(state: NotesSearchState, key: string): Promise<void> {
+  const filePath = getStorageFilePath(key);
+  if (!filePath) {
+    return;
+  }
+
+  const persisted: PersistedNotesSearchIndex = {
+    files: Object.fromEntries(state.files),
+    index: state.index.toJSON(),
+  };
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(persisted), "utf8");
+  } catch (error) {
+    console.error("[noteeees] Failed to persist the search index:", error);
+  }
+}
+
+function schedulePersist(state: NotesSearchState, key: string): void {
+  clearTimeout(state.persistTimer);
+  state.persistTimer = setTimeout(() => {
+    state.persistTimer = undefined;
+    void persistState(state, key);
+  }, PERSIST_DELAY_MS);
+}
+
+/** Writes any index whose write is still waiting, e.g. when the extension deactivates. */
+export async function flushSearchIndexStorage(): Promise<void> {
+  for (const [key, state] of statesByKey) {
+    if (state.persistTimer !== undefined) {
+      clearTimeout(state.persistTimer);
+      state.persistTimer = undefined;
+      await persistState(state, key);
+    }
+  }
+}
+
+function buildFileSearchDocuments(
+  relativePath: string,
+  content: string,
+  mtime: number,
+  momentsFile: ReturnType<typeof classifyMomentsFile>,
+): SearchDocument[] {
+  if (!momentsFile) {
+    return buildNoteSearchDocuments(relativePath, content, mtime);
+  }
+  return momentsFile.kind === "day"
+    ? buildMomentSearchDocuments(relativePath, momentsFile.date, content)
+    : buildMomentRollupSearchDocuments(relativePath, content);
+}
+
+/** The Moments subfolder as a relative path; `"moments/"` loses its trailing separator. */
+export function normalizeMomentsSubfolder(momentsSubfolder: string): string {
+  return path.normalize(momentsSubfolder).replace(/[\\/]+$/, "");
+}
+
+async function refreshState(
+  state: NotesSearchState,
+  key: string,
+  notesDir: string,
+  momentsSubfolder: string,
+): Promise<void> {
+  if (!state.loaded) {
+    state.loaded = true;
+    await loadPersistedState(state, key);
+  }
+
+  const momentsDir = normalizeMomentsSubfolder(momentsSubfolder);
+  const files = await collectNoteFiles(notesDir);
+  const stalePaths = new Set(state.files.keys());
+  let changed = false;
+
+  for (const file of files) {
+    // Only Moments day files and archives are indexed under the Moments folder; anything
+    // else there (attachments, stray notes) is skipped, as the dashboard does.
+    const inMomentsDir = file.relativePath.startsWith(momentsDir + path.sep);
+    const momentsFile = inMomentsDir ? classifyMomentsFile(file.relativePath, momentsDir) : null;
+    if (inMomentsDir && !momentsFile) {
+      continue;
+    }
+
+    stalePaths.delete(file.relativePath);
+    const unchanged = state.files.get(file.relativePath)?.mtime === file.mtime;
+    const restoreText = state.textPending.delete(file.relativePath);
+    if (unchanged && !restoreText) {
+      continue;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(file.filePath, "utf8");
+    } catch {
+      continue;
+    }
+
+    const documents = buildFileSearchDocuments(file.relativePath, content, file.mtime, momentsFile);
+    if (unchanged) {
+      for (const document of documents) {
+        state.index.restoreText(document);
+      }
+      continue;
+    }
+
+    for (const id of state.files.get(file.relativePath)?.documentIds ?? []) {
+      state.index.remove(id);
+    }
+    for (const document of documents) {
+      state.index.add(document);
+    }
+    state.files.set(file.relativePath, {
+      mtime: file.mtime,
+      documentIds: documents.map((document) => document.id),
+    });
+    changed = true;
+  }
+
+  for (const stalePath of stalePaths) {
+    for (const id of state.files.get(stalePath)?.documentIds ?? []) {
+      state.index.remove(id);
+    }
+    state.files.delete(stalePath);
+    state.textPending.delete(stalePath);
+    changed = true;
+  }
+
+  if (changed && getStorageFilePath(key)) {
+    schedulePersist(state, key);
+  }
+}
+
+/**
+ * Returns the search index for a notes directory, first re-indexing only the files whose
+ * mtime changed since the last call (or since the persisted index was written).
+ */
+export async function getNotesSearchIndex(
+  notesDir: string,
+  momentsSubfolder: string,
+): Promise<SearchIndex> {
+  const key = buildStateKey(notesDir, momentsSubfolder);
+  let state = statesByKey.get(key);
+  if (!state) {
+    state = {
+      index: new SearchIndex(),
+      files: new Map(),
+      loaded: false,
+      textPending: new Set(),
+      queue: Promise.resolve(),
+    };
+    statesByKey.set(key, state);
+  }
+
+  const current = state;
+  current.queue = current.queue
+    .catch(() => undefined)
+    .then(() => refreshState(current, key, notesDir, momentsSubfolder));
+  await current.queue;
+  return current.index;
+}
@@ -3,7 +3,11 @@ import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
 import * as vscode from "vscode";
-import { enrichTasksInFile, loadAllAiTaskEnrichments } from "../dashboardAiEnrichment";
+import {
+  applyAiEnrichmentsToLines,
+  enrichTasksInFile,
+  loadAllAiTaskEnrichments,
+} from "../dashboardAiEnrichment";
 import { createMementoStub } from "./dashboardTestHelpers";
 
 suite("Dashboard AI Enrichment Test Suite", () => {
@@ -79,4 +83,33 @@ suite("Dashboard AI Enrichment Test Suite", () => {
       fs.rmSync(tmpDir, { recursive: true, force: true });
     }
   });
+
+  test("applyAiEnrichmentsToLines writes inline tokens onto matching open tasks", () => {
+    const lines = [
+      "# Tasks",
+      "- [ ] Read a book !low",
+      "- [x] Buy milk",
+      "- [ ] Call mom @2026-03-10",
+    ];
+
+    const changed = applyAiEnrichmentsToLines(lines, {
+      "read a book": { category: "learning", priority: "high", timeEstimateMin: 30 },
+      "buy milk": { category: "personal", priority: "low", timeEstimateMin: 10 },
+      "call mom": { category: "personal", priority: "urgent", timeEstimateMin: 0 },
+    });
+
+    assert.strictEqual(changed, true);
+    assert.deepStrictEqual(lines, [
+      "# Tasks",
+      "- [ ] Read a book !low ~30m category:learning",
+      "- [x] Buy milk",
+      "- [ ] Call mom @2026-03-10 category:personal",
+    ]);
+    assert.strictEqual(
+      applyAiEnrichmentsToLines(lines, {
+        "read a book": { category: "learning", priority: "high", timeEstimateMin: 30 },
+      }),
+      false,
+    );
+  });
 });
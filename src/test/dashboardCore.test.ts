@@ -1,6 +1,12 @@
 import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import { type ExtractedTask } from "../aiTaskProcessor";
+import { collectCalendarMarks } from "../dashboardCalendar";
+import { buildDashboardTaskViews, buildUpcomingWeek } from "../dashboardClassification";
 import { createDashboardMessageHandler } from "../dashboardMessageHandler";
+import { collectTasksFromNotes } from "../dashboardTaskCollector";
 import {
   canAddDashboardCandidate,
   filterExtractedTasksForDisplay,
@@ -25,6 +31,7 @@ suite("Dashboard Core Test Suite", () => {
       notifyStatus: () => undefined,
       dismissExtractedTaskInStore: () => undefined,
       loadDismissed: () => [],
+      getTaskViews: () => [],
       hasExistingTask: async () => false,
       createTask: async () => {
         throw new Error("disk full");
@@ -63,6 +70,139 @@ suite("Dashboard Core Test Suite", () => {
     );
   });
 
+  test("recurring tasks project future occurrences into the week and sections", () => {
+    const tasks = [
+      {
+        id: "tasks/inbox.md:4",
+        filePath: "/tmp/tasks/inbox.md",
+        lineIndex: 4,
+        text: "Standup 🔁 every 2 days @2026-03-09",
+        done: false,
+        date: null,
+        dueDate: "2026-03-09",
+        tags: [],
+        recurrence: { interval: 2, unit: "day" as const, rule: "🔁 every 2 days" },
+      },
+      {
+        id: "tasks/inbox.md:5",
+        filePath: "/tmp/tasks/inbox.md",
+        lineIndex: 5,
+        text: "Review inbox 🔁 weekly",
+        done: false,
+        date: null,
+        dueDate: null,
+        tags: [],
+        recurrence: { interval: 1, unit: "week" as const, rule: "🔁 weekly" },
+      },
+    ];
+
+    const week = buildUpcomingWeek(tasks, "2026-03-10");
+    assert.deepStrictEqual(
+      week.map((day) => day.open),
+      [1, 1, 0, 1, 0, 1, 0],
+    );
+
+    const views = buildDashboardTaskViews(tasks, "2026-03-10");
+    assert.strictEqual(views.find((view) => view.id === "tasks/inbox.md:4")?.section, "overdue");
+    assert.strictEqual(views.find((view) => view.id === "tasks/inbox.md:5")?.section, "today");
+  });
+
+  test("indented tasks are collected as subtasks with progress on their ancestors", async () => {
+    const notesDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-subtasks-"));
+    fs.writeFileSync(
+      path.join(notesDir, "plan.md"),
+      [
+        "- [ ] Launch",
+        "  - [x] Write post",
+        "  - [ ] Ship build",
+        "    - [x] Tag release",
+        "",
+        "## Later",
+        "  - [ ] Loose item",
+      ].join("\n"),
+    );
+
+    try {
+      const tasks = await collectTasksFromNotes(notesDir);
+      const byText = new Map(tasks.map((task) => [task.text, task]));
+      const launch = byText.get("Launch");
+      const ship = byText.get("Ship build");
+
+      assert.strictEqual(launch?.parentId, undefined);
+      assert.deepStrictEqual(launch?.subtaskProgress, { done: 2, total: 3 });
+      assert.strictEqual(byText.get("Write post")?.parentId, launch?.id);
+      assert.strictEqual(byText.get("Tag release")?.parentId, ship?.id);
+      assert.deepStrictEqual(ship?.subtaskProgress, { done: 1, total: 1 });
+      assert.strictEqual(byText.get("Loose item")?.parentId, undefined);
+    } finally {
+      fs.rmSync(notesDir, { recursive: true, force: true });
+    }
+  });
+
+  test("moveTask reopens a done task and rewrites its due date for a board drop", async () => {
+    const notesDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-board-"));
+    const filePath = path.join(notesDir, "plan.md");
+    fs.writeFileSync(filePath, "- [x] Ship build @2026-03-01\n- [ ] Write post\n");
+
+    try {
+      const views = buildDashboardTaskViews(await collectTasksFromNotes(notesDir), "2026-03-10");
+      const move = (message: Record<string, unknown>) =>
+        new Promise<void>((resolve) => {
+          const handler = createDashboardMessageHandler({
+            getNotesDir: () => notesDir,
+            stateStore: createMementoStub(),
+            onRefresh: async () => resolve(),
+            postMessage: () => Promise.resolve(true),
+            getCancelToken: () => undefined,
+            setCancelToken: () => undefined,
+            notifyStatus: () => undefined,
+            dismissExtractedTaskInStore: () => undefined,
+            loadDismissed: () => [],
+            getTaskViews: () => views,
+          });
+          void handler.handleMessage({ command: "moveTask", ...message });
+        });
+
+      const shipped = views.find((view) => view.text.startsWith("Ship build"));
+      const post = views.find((view) => view.text === "Write post");
+      await move({ taskId: shipped?.id, done: false, dueDate: "2026-03-10" });
+      await move({ taskId: post?.id, done: true });
+
+      assert.strictEqual(
+        fs.readFileSync(filePath, "utf8"),
+        "- [ ] Ship build @2026-03-10\n- [x] Write post\n",
+      );
+    } finally {
+      fs.rmSync(notesDir, { recursive: true, force: true });
+    }
+  });
+
+  test("calendar marks list dates with a daily note or a Moments file", async () => {
+    const notesDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-calendar-"));
+    fs.mkdirSync(path.join(notesDir, "moments", "archive"), { recursive: true });
+    fs.writeFileSync(path.join(notesDir, "2026-03-02_daily.md"), "");
+    fs.writeFileSync(path.join(notesDir, "2026-03-01_daily.md"), "");
+    fs.writeFileSync(path.join(notesDir, "2026-03-03_meeting.md"), "");
+    fs.writeFileSync(path.join(notesDir, "moments", "2026-03-02.md"), "");
+    fs.writeFileSync(path.join(notesDir, "moments", "archive", "2026-01-01.md"), "");
+
+    try {
+      assert.deepStrictEqual(await collectCalendarMarks(notesDir, "moments"), {
+        dailyNotes: ["2026-03-01", "2026-03-02"],
+        moments: ["2026-03-02"],
+      });
+      assert.deepStrictEqual(
+        await collectCalendarMarks(path.join(notesDir, "missing"), "moments"),
+        {
+          dailyNotes: [],
+          moments: [],
+        },
+      );
+    } finally {
+      fs.rmSync(notesDir, { recursive: true, force: true });
+    }
+  });
+
   test("dashboard due date upsert replaces existing markers", () => {
     assert.strictEqual(
       upsertDashboardDueDate("Follow up due:2026-03-01 #work", "2026-03-05"),
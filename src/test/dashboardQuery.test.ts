@@ -0,0 +1,138 @@
+import * as assert from "assert";
+import { buildDashboardTaskViews } from "../dashboardClassification";
+import { createDashboardMessageHandler } from "../dashboardMessageHandler";
+import { matchesDashboardQuery, parseDashboardQuery } from "../dashboardQuery";
+import {
+  getSavedViewsStorageKey,
+  loadSavedViews,
+  saveView,
+  deleteView,
+} from "../dashboardSavedViews";
+import type { DashTask } from "../dashboardTypes";
+import { createMementoStub, createMementoStubWithValues } from "./dashboardTestHelpers";
+
+const TODAY = "2026-03-10";
+
+function task(id: string, text: string, extra: Partial<DashTask> = {}): DashTask {
+  return {
+    id,
+    filePath: `/notes/${id.split(":")[0]}`,
+    lineIndex: 0,
+    text,
+    done: false,
+    date: null,
+    dueDate: null,
+    tags: [],
+    ...extra,
+  };
+}
+
+const TASK_VIEWS = buildDashboardTaskViews(
+  [
+    task("projects/launch.md:0", "Ship build #work", { tags: ["#work"], dueDate: "2026-03-12" }),
+    task("projects/launch.md:1", "Write post #work", {
+      tags: ["#work"],
+      dueDate: "2026-03-30",
+      priority: "high",
+    }),
+    task("inbox.md:0", "Pay rent", { dueDate: "2026-03-08" }),
+    task("inbox.md:1", "Old review #work", { tags: ["#work"], done: true, date: "2026-03-01" }),
+  ],
+  TODAY,
+);
+
+function idsFor(query: string): string[] {
+  const { clauses } = parseDashboardQuery(query, TODAY);
+  return TASK_VIEWS.filter((view) => matchesDashboardQuery(view, clauses)).map((view) => view.id);
+}
+
+suite("Dashboard Query Test Suite", () => {
+  test("parser splits filters from words and resolves relative dates", () => {
+    const parsed = parseDashboardQuery(
+      'tag:Work due<+7d -done path:projects/ "weekly review" plan',
+      TODAY,
+    );
+
+    assert.strictEqual(parsed.text, '"weekly review" plan');
+    assert.deepStrictEqual(parsed.clauses, [
+      { field: "tag", operator: ":", value: "#work", negated: false },
+      { field: "due", operator: "<", value: "2026-03-17", negated: false },
+      { field: "status", operator: ":", value: "done", negated: true },
+      { field: "path", operator: ":", value: "projects/", negated: false },
+    ]);
+  });
+
+  test("filters with invalid values stay plain words", () => {
+    const parsed = parseDashboardQuery("due<soon is:blocked -", TODAY);
+
+    assert.strictEqual(parsed.text, "due<soon is:blocked -");
+    assert.deepStrictEqual(parsed.clauses, []);
+  });
+
+  test("clauses combine with AND and a leading minus negates", () => {
+    assert.deepStrictEqual(idsFor("tag:#work due<+7d -done path:projects/"), [
+      "projects/launch.md:0",
+    ]);
+    assert.deepStrictEqual(idsFor("done"), ["inbox.md:1"]);
+    assert.deepStrictEqual(idsFor("is:overdue"), ["inbox.md:0"]);
+    assert.deepStrictEqual(idsFor("due:none"), ["inbox.md:1"]);
+    assert.deepStrictEqual(idsFor("due>=2026-03-12 -priority:high"), ["projects/launch.md:0"]);
+    assert.deepStrictEqual(idsFor("date<today"), ["inbox.md:1"]);
+    assert.deepStrictEqual(idsFor("tag:work -post -done"), ["projects/launch.md:0"]);
+  });
+
+  test("searchTasks answers filter-only queries from the rendered task views", async () => {
+    const messages: Array<Record<string, unknown>> = [];
+    const handler = createDashboardMessageHandler({
+      getNotesDir: () => "/tmp/noteeees-query",
+      stateStore: createMementoStub(),
+      onRefresh: async () => undefined,
+      postMessage: (message) => {
+        messages.push(message);
+        return Promise.resolve(true);
+      },
+      getCancelToken: () => undefined,
+      setCancelToken: () => undefined,
+      notifyStatus: () => undefined,
+      dismissExtractedTaskInStore: () => undefined,
+      loadDismissed: () => [],
+      getTaskViews: () => TASK_VIEWS,
+    });
+
+    await handler.handleMessage({ command: "searchTasks", query: "tag:#work done" });
+    for (let attempt = 0; attempt < 10 && messages.length === 0; attempt += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    assert.deepStrictEqual(messages, [
+      { type: "taskSearchResults", query: "tag:#work done", ids: ["inbox.md:1"] },
+    ]);
+  });
+
+  test("saved views are stored per notes directory and replaced by name", async () => {
+    const store = createMementoStubWithValues({
+      [getSavedViewsStorageKey("/tmp/notes-a")]: [
+        { name: "Work", query: "tag:#work" },
+        { name: "", query: "broken" },
+        "not-a-view",
+      ],
+    });
+
+    assert.deepStrictEqual(loadSavedViews(store, "/tmp/notes-a"), [
+      { name: "Work", query: "tag:#work" },
+    ]);
+    assert.deepStrictEqual(loadSavedViews(store, "/tmp/notes-b"), []);
+
+    await saveView(store, "/tmp/notes-a", { name: "Soon", query: "due<+7d -done" });
+    await saveView(store, "/tmp/notes-a", { name: "Work", query: "tag:#work -done" });
+    assert.deepStrictEqual(loadSavedViews(store, "/tmp/notes-a"), [
+      { name: "Work", query: "tag:#work -done" },
+      { name: "Soon", query: "due<+7d -done" },
+    ]);
+
+    await deleteView(store, "/tmp/notes-a", "Work");
+    assert.deepStrictEqual(loadSavedViews(store, "/tmp/notes-a"), [
+      { name: "Soon", query: "due<+7d -done" },
+    ]);
+  });
+});
@@ -2,10 +2,14 @@ import * as assert from "assert";
 import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
+import { buildTaskId } from "../../shared/taskRef.js";
 import {
+  applyDashboardBulkOperation,
+  collectRollOverTasks,
   createDashboardTask,
   deleteDashboardTask,
   hasExistingDashboardTask,
+  rollOverDashboardTasks,
   toggleDashboardTask,
   updateDashboardTask,
 } from "../dashboardTaskPersistence";
@@ -87,6 +91,125 @@ suite("Dashboard Task Persistence Test Suite", () => {
     }
   });
 
+  test("toggleDashboardTask inserts the next occurrence when a recurring task is completed", async () => {
+    const tempDir = createTempNotesDir();
+    const inboxPath = path.join(tempDir.notesDir, "tasks", "inbox.md");
+    fs.mkdirSync(path.dirname(inboxPath), { recursive: true });
+    fs.writeFileSync(
+      inboxPath,
+      "---\ntype: tasks\n---\n\n- [ ] Water plants 🔁 every week @2026-03-10\n- [ ] Other\n",
+      "utf8",
+    );
+
+    try {
+      assert.strictEqual(
+        await toggleDashboardTask(tempDir.notesDir, "tasks/inbox.md:4", true),
+        true,
+      );
+      assert.strictEqual(
+        await toggleDashboardTask(tempDir.notesDir, "tasks/inbox.md:4", false),
+        true,
+      );
+      assert.strictEqual(
+        await toggleDashboardTask(tempDir.notesDir, "tasks/inbox.md:4", true),
+        true,
+      );
+
+      const lines = fs.readFileSync(inboxPath, "utf8").split("\n");
+      assert.deepStrictEqual(lines.slice(4), [
+        "- [x] Water plants 🔁 every week @2026-03-10",
+        "- [ ] Water plants 🔁 every week @2026-03-17",
+        "- [ ] Other",
+        "",
+      ]);
+    } finally {
+      tempDir.cleanup();
+    }
+  });
+
+  test("toggleDashboardTask keeps indentation and optionally completes subtasks", async () => {
+    const tempDir = createTempNotesDir();
+    const inboxPath = path.join(tempDir.notesDir, "tasks", "inbox.md");
+    fs.mkdirSync(path.dirname(inboxPath), { recursive: true });
+    fs.writeFileSync(
+      inboxPath,
+      "- [ ] Trip 🔁 every year @2026-05-01\n  - [ ] Book hotel\n    - [ ] Compare prices\n- [ ] Other\n",
+      "utf8",
+    );
+
+    try {
+      assert.strictEqual(
+        await toggleDashboardTask(tempDir.notesDir, "tasks/inbox.md:1", true),
+        true,
+      );
+      assert.strictEqual(
+        await toggleDashboardTask(tempDir.notesDir, "tasks/inbox.md:1", false),
+        true,
+      );
+      assert.strictEqual(
+        await toggleDashboardTask(tempDir.notesDir, "tasks/inbox.md:0", true, true),
+        true,
+      );
+
+      assert.deepStrictEqual(fs.readFileSync(inboxPath, "utf8").split("\n"), [
+        "- [x] Trip 🔁 every year @2026-05-01",
+        "  - [x] Book hotel",
+        "    - [x] Compare prices",
+        "- [ ] Trip 🔁 every year @2027-05-01",
+        "- [ ] Other",
+        "",
+      ]);
+    } finally {
+      tempDir.cleanup();
+    }
+  });
+
+  test("task persistence re-locates shifted lines and refuses changed tasks", async () => {
+    const tempDir = createTempNotesDir();
+    const inboxPath = path.join(tempDir.notesDir, "tasks", "inbox.md");
+    fs.mkdirSync(path.dirname(inboxPath), { recursive: true });
+    fs.writeFileSync(inboxPath, "- [ ] Alpha\n- [ ] Beta\n", "utf8");
+    const alphaId = buildTaskId("tasks/inbox.md", 0, "Alpha");
+    const betaId = buildTaskId("tasks/inbox.md", 1, "Beta");
+
+    try {
+      // Lines shifted after the dashboard rendered: Alpha is now on line 2.
+      fs.writeFileSync(inboxPath, "# Inbox\n\n- [ ] Alpha\n- [ ] Beta edited\n", "utf8");
+
+      assert.strictEqual(await toggleDashboardTask(tempDir.notesDir, alphaId, true), true);
+      assert.strictEqual(await toggleDashboardTask(tempDir.notesDir, betaId, true), false);
+      assert.strictEqual(
+        await updateDashboardTask(tempDir.notesDir, betaId, "Overwritten", null),
+        "missing",
+      );
+      assert.strictEqual(await deleteDashboardTask(tempDir.notesDir, betaId), false);
+
+      assert.strictEqual(
+        fs.readFileSync(inboxPath, "utf8"),
+        "# Inbox\n\n- [x] Alpha\n- [ ] Beta edited\n",
+      );
+    } finally {
+      tempDir.cleanup();
+    }
+  });
+
+  test("block-id anchors identify a task even after its text changes", async () => {
+    const tempDir = createTempNotesDir();
+    const inboxPath = path.join(tempDir.notesDir, "tasks", "inbox.md");
+    fs.mkdirSync(path.dirname(inboxPath), { recursive: true });
+    fs.writeFileSync(inboxPath, "- [ ] Draft plan ^plan-1\n", "utf8");
+    const taskId = buildTaskId("tasks/inbox.md", 0, "Draft plan ^plan-1");
+
+    try {
+      fs.writeFileSync(inboxPath, "- [ ] Other\n- [ ] Draft the plan #work ^plan-1\n", "utf8");
+
+      assert.strictEqual(await deleteDashboardTask(tempDir.notesDir, taskId), true);
+      assert.strictEqual(fs.readFileSync(inboxPath, "utf8"), "- [ ] Other\n");
+    } finally {
+      tempDir.cleanup();
+    }
+  });
+
   test("deleteDashboardTask removes only the targeted task line", async () => {
     const tempDir = createTempNotesDir();
     const inboxPath = path.join(tempDir.notesDir, "tasks", "inbox.md");
@@ -111,6 +234,235 @@ suite("Dashboard Task Persistence Test Suite", () => {
     }
   });
 
+  test("deleteDashboardTask removes the subtasks of a parent task", async () => {
+    const tempDir = createTempNotesDir();
+    const planPath = path.join(tempDir.notesDir, "plan.md");
+    const content =
+      "- [ ] Parent A\n- [ ] Parent B\n  - [ ] child 1\n  - [ ] child 2\n- [ ] Parent C\n  - [ ] child 3\n";
+    fs.writeFileSync(planPath, content, "utf8");
+
+    try {
+      assert.strictEqual(
+        await deleteDashboardTask(tempDir.notesDir, buildTaskId("plan.md", 1, "Parent B")),
+        true,
+      );
+      assert.strictEqual(
+        fs.readFileSync(planPath, "utf8"),
+        "- [ ] Parent A\n- [ ] Parent C\n  - [ ] child 3\n",
+      );
+    } finally {
+      tempDir.cleanup();
+    }
+  });
+
+  test("bulk delete removes the subtasks of selected parent tasks", async () => {
+    const tempDir = createTempNotesDir();
+    const planPath = path.join(tempDir.notesDir, "plan.md");
+    fs.writeFileSync(
+      planPath,
+      "- [ ] Parent A\n- [ ] Parent B\n  - [ ] child 1\n  - [ ] child 2\n- [ ] Parent C\n  - [ ] child 3\n",
+      "utf8",
+    );
+
+    try {
+      assert.deepStrictEqual(
+        await applyDashboardBulkOperation(
+          tempDir.notesDir,
+          [buildTaskId("plan.md", 1, "Parent B"), buildTaskId("plan.md", 4, "Parent C")],
+          { kind: "delete" },
+        ),
+        { applied: 2, missing: 0 },
+      );
+      assert.strictEqual(fs.readFileSync(planPath, "utf8"), "- [ ] Parent A\n");
+    } finally {
+      tempDir.cleanup();
+    }
+  });
+
+  test("bulk operations rewrite each file once and skip changed tasks", async () => {
+    const tempDir = createTempNotesDir();
+    const inboxPath = path.join(tempDir.notesDir, "tasks", "inbox.md");
+    const planPath = path.join(tempDir.notesDir, "plan.md");
+    fs.mkdirSync(path.dirname(inboxPath), { recursive: true });
+    fs.writeFileSync(inboxPath, "- [ ] Alpha\n- [ ] Beta #old\n- [ ] Gamma ^g-1\n", "utf8");
+    fs.writeFileSync(planPath, "# Plan\n\n- [ ] Delta\n", "utf8");
+    const ids = [
+      buildTaskId("tasks/inbox.md", 0, "Alpha"),
+      buildTaskId("tasks/inbox.md", 1, "Beta #old"),
+      buildTaskId("tasks/inbox.md", 2, "Gamma ^g-1"),
+      buildTaskId("plan.md", 2, "Delta"),
+    ];
+
+    try {
+      assert.deepStrictEqual(
+        await applyDashboardBulkOperation(tempDir.notesDir, ids, { kind: "addTag", tag: "#work" }),
+        { applied: 4, missing: 0 },
+      );
+      assert.strictEqual(
+        fs.readFileSync(inboxPath, "utf8"),
+        "- [ ] Alpha #work\n- [ ] Beta #old #work\n- [ ] Gamma #work ^g-1\n",
+      );
+
+      const tagged = [
+        buildTaskId("tasks/inbox.md", 0, "Alpha #work"),
+        buildTaskId("tasks/inbox.md", 1, "Beta #old #work"),
+        buildTaskId("plan.md", 2, "Delta #work"),
+        ids[0],
+      ];
+      assert.deepStrictEqual(
+        await applyDashboardBulkOperation(tempDir.notesDir, tagged, {
+          kind: "reschedule",
+          dueDate: "2026-05-01",
+        }),
+        { applied: 3, missing: 1 },
+      );
+      assert.strictEqual(
+        fs.readFileSync(planPath, "utf8"),
+        "# Plan\n\n- [ ] Delta #work @2026-05-01\n",
+      );
+
+      await applyDashboardBulkOperation(
+        tempDir.notesDir,
+        [buildTaskId("tasks/inbox.md", 1, "Beta #old #work @2026-05-01")],
+        { kind: "removeTag", tag: "#old" },
+      );
+      await applyDashboardBulkOperation(
+        tempDir.notesDir,
+        [buildTaskId("tasks/inbox.md", 0, "Alpha #work @2026-05-01")],
+        { kind: "complete" },
+      );
+      assert.strictEqual(
+        fs.readFileSync(inboxPath, "utf8"),
+        "- [x] Alpha #work @2026-05-01\n- [ ] Beta #work @2026-05-01\n- [ ] Gamma #work ^g-1\n",
+      );
+
+      await applyDashboardBulkOperation(
+        tempDir.notesDir,
+        [
+          buildTaskId("tasks/inbox.md", 0, "Alpha #work @2026-05-01"),
+          buildTaskId("tasks/inbox.md", 2, "Gamma #work ^g-1"),
+        ],
+        { kind: "delete" },
+      );
+      assert.strictEqual(fs.readFileSync(inboxPath, "utf8"), "- [ ] Beta #work @2026-05-01\n");
+    } finally {
+      tempDir.cleanup();
+    }
+  });
+
+  test("roll-over moves unfinished tasks from past day files and keeps their origin", async () => {
+    const tempDir = createTempNotesDir();
+    const taskDir = path.join(tempDir.notesDir, "tasks");
+    fs.mkdirSync(taskDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(taskDir, "2026-03-01.md"),
+      "---\ntype: tasks\ndate: 2026-03-01\n---\n\n- [x] Done\n- [ ] Open ^o-1\n  - [ ] Child\n",
+      "utf8",
+    );
+    fs.writeFileSync(
+      path.join(taskDir, "2026-03-02.md"),
+      "- [ ] Carried again (from 2026-02-20)\n",
+      "utf8",
+    );
+    fs.writeFileSync(path.join(taskDir, "2026-03-05.md"), "- [ ] Today already\n", "utf8");
+
+    try {
+      assert.strictEqual((await collectRollOverTasks(tempDir.notesDir, "2026-03-05")).length, 2);
+      assert.deepStrictEqual(
+        await rollOverDashboardTasks(tempDir.notesDir, "2026-03-05", "today"),
+        { applied: 2, missing: 0 },
+      );
+
+      assert.strictEqual(
+        fs.readFileSync(path.join(taskDir, "2026-03-01.md"), "utf8"),
+        "---\ntype: tasks\ndate: 2026-03-01\n---\n\n- [x] Done\n",
+      );
+      assert.strictEqual(
+        fs.readFileSync(path.join(taskDir, "2026-03-05.md"), "utf8"),
+        "- [ ] Today already\n- [ ] Open (from 2026-03-01) ^o-1\n  - [ ] Child\n- [ ] Carried again (from 2026-02-20)\n",
+      );
+      assert.deepStrictEqual(await collectRollOverTasks(tempDir.notesDir, "2026-03-05"), []);
+    } finally {
+      tempDir.cleanup();
+    }
+  });
+
+  test("bulk move appends tasks with their subtasks to the target file", async () => {
+    const tempDir = createTempNotesDir();
+    const sourcePath = path.join(tempDir.notesDir, "2026-03-01_sync.md");
+    const targetPath = path.join(tempDir.notesDir, "projects", "trip.md");
+    fs.writeFileSync(
+      sourcePath,
+      "# Sync\n\n  - [ ] Trip\n    - [ ] Book hotel\n  - [ ] Stay\n- [ ] Call Bob\n",
+      "utf8",
+    );
+    fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+    fs.writeFileSync(targetPath, "# Trip\n\n", "utf8");
+
+    try {
+      const result = await applyDashboardBulkOperation(
+        tempDir.notesDir,
+        [
+          buildTaskId("2026-03-01_sync.md", 2, "Trip"),
+          buildTaskId("2026-03-01_sync.md", 3, "Book hotel"),
+          buildTaskId("2026-03-01_sync.md", 5, "Call Bob"),
+        ],
+        { kind: "move", targetFile: "projects/trip.md" },
+      );
+
+      assert.deepStrictEqual(result, { applied: 3, missing: 0 });
+      assert.strictEqual(fs.readFileSync(sourcePath, "utf8"), "# Sync\n\n  - [ ] Stay\n");
+      assert.strictEqual(
+        fs.readFileSync(targetPath, "utf8"),
+        "# Trip\n\n- [ ] Trip (from 2026-03-01)\n  - [ ] Book hotel\n- [ ] Call Bob (from 2026-03-01)\n",
+      );
+      assert.deepStrictEqual(
+        await applyDashboardBulkOperation(tempDir.notesDir, ["plan.md:0"], {
+          kind: "move",
+          targetFile: "../outside.md",
+        }),
+        { applied: 0, missing: 1 },
+      );
+    } finally {
+      tempDir.cleanup();
+    }
+  });
+
+  test("bulk move creates a missing inbox only when tasks move into it", async () => {
+    const tempDir = createTempNotesDir();
+    const sourcePath = path.join(tempDir.notesDir, "2026-03-01_plan.md");
+    const inboxPath = path.join(tempDir.notesDir, "tasks", "inbox.md");
+    fs.writeFileSync(sourcePath, "- [ ] Call Bob\n", "utf8");
+    const operation = { kind: "move", targetFile: "tasks/inbox.md", createDate: null } as const;
+
+    try {
+      assert.deepStrictEqual(
+        await applyDashboardBulkOperation(
+          tempDir.notesDir,
+          [buildTaskId("2026-03-01_plan.md", 0, "Call Alice")],
+          operation,
+        ),
+        { applied: 0, missing: 1 },
+      );
+      assert.strictEqual(fs.existsSync(inboxPath), false);
+
+      assert.deepStrictEqual(
+        await applyDashboardBulkOperation(
+          tempDir.notesDir,
+          [buildTaskId("2026-03-01_plan.md", 0, "Call Bob")],
+          operation,
+        ),
+        { applied: 1, missing: 0 },
+      );
+      assert.strictEqual(
+        fs.readFileSync(inboxPath, "utf8"),
+        "---\ntype: tasks\n---\n\n- [ ] Call Bob (from 2026-03-01)\n",
+      );
+    } finally {
+      tempDir.cleanup();
+    }
+  });
+
   test("hasExistingDashboardTask normalizes due markers when checking duplicates", async () => {
     const tempDir = createTempNotesDir();
     const inboxPath = path.join(tempDir.notesDir, "tasks", "inbox.md");
@@ -64,6 +64,126 @@ suite("Dashboard Webview Test Suite", () => {
     );
   });
 
+  test("dashboard webview nests subtasks under their parent with a collapse toggle", async () => {
+    const html = await renderSettledDashboardWebviewHtml();
+
+    assert.ok(
+      html.includes("function groupSubtaskItems(items)"),
+      "expected subtasks to be grouped by parent id in browser scope",
+    );
+    assert.ok(
+      html.includes('data-action="toggle-subtasks"'),
+      "expected parent rows to render a subtask collapse toggle",
+    );
+    assert.ok(
+      html.includes("collapsedTaskIds: state.collapsedTaskIds"),
+      "expected collapsed parents to be persisted in webview state",
+    );
+    assert.ok(
+      html.includes("function getTaskCollapseKey(taskId)"),
+      "expected collapsed parents to be keyed without their line number",
+    );
+  });
+
+  test("dashboard webview renders saved views as tabs and can save the current query", async () => {
+    const html = await renderSettledDashboardWebviewHtml();
+
+    assert.ok(html.includes('id="view-tabs"'), "expected a view tab strip in the list bar");
+    assert.ok(
+      html.includes("function renderViewTabs()"),
+      "expected saved views to be rendered in browser scope",
+    );
+    assert.ok(
+      html.includes('data-action="save-view"'),
+      "expected a save button for unsaved queries",
+    );
+    assert.ok(
+      html.includes('message.type === "applyView"'),
+      "expected the quick pick command to be able to open a view",
+    );
+  });
+
+  test("dashboard webview offers a board layout with draggable cards", async () => {
+    const html = await renderSettledDashboardWebviewHtml();
+
+    assert.ok(html.includes('id="layout-switch"'), "expected a list/board layout switch");
+    assert.ok(
+      html.includes("function getBoardDropChange(task, columnKey)"),
+      "expected board drops to be mapped to due date or completion changes",
+    );
+    assert.ok(html.includes('draggable="true"'), "expected board cards to be draggable");
+    assert.ok(
+      html.includes('command: "moveTask"'),
+      "expected drops to be sent to the extension host",
+    );
+    assert.ok(
+      html.includes("layout: state.layout"),
+      "expected the chosen layout to be persisted in webview state",
+    );
+  });
+
+  test("dashboard webview offers a month calendar that opens days and accepts task drops", async () => {
+    const html = await renderSettledDashboardWebviewHtml();
+
+    assert.ok(html.includes("function renderCalendar()"), "expected a calendar renderer");
+    assert.ok(
+      html.includes('data-calendar-date="'),
+      "expected calendar days to be drop targets keyed by date",
+    );
+    assert.ok(
+      html.includes('command: "openCalendarDay"'),
+      "expected clicking a day to ask the host to open it",
+    );
+    assert.ok(
+      html.includes("calendarMonth: state.calendarMonth"),
+      "expected the shown month to be persisted in webview state",
+    );
+  });
+
+  test("dashboard webview offers a Moments stats layout with a heatmap that opens days", async () => {
+    const html = await renderSettledDashboardWebviewHtml();
+
+    assert.ok(html.includes("function renderMomentsStats()"), "expected a Moments stats renderer");
+    assert.ok(
+      html.includes("function renderMomentsHeatmap(stats)") &&
+        html.includes("function renderMomentsHours(stats)") &&
+        html.includes("function renderMomentsTags(stats)"),
+      "expected the heatmap, hour-of-day and hashtag sections",
+    );
+    assert.ok(
+      html.includes('command: "openMomentsDay"'),
+      "expected clicking a heatmap day to ask the host to open its Moments file",
+    );
+  });
+
+  test("dashboard webview shows an undo toast for journaled changes", async () => {
+    const html = await renderSettledDashboardWebviewHtml();
+
+    assert.ok(html.includes('id="undo-toast"'), "expected an undo toast container");
+    assert.ok(
+      html.includes('message.type === "journal"') && html.includes('"undoChange"'),
+      "expected journal events to offer undo through the host",
+    );
+  });
+
+  test("dashboard webview offers multi-select with a bulk action bar", async () => {
+    const html = await renderSettledDashboardWebviewHtml();
+
+    assert.ok(html.includes('id="bulk-bar"'), "expected a bulk action bar container");
+    assert.ok(
+      html.includes('data-action="select"') && html.includes('data-action="toggle-select"'),
+      "expected selection checkboxes and a select mode toggle",
+    );
+    assert.ok(
+      html.includes('command: "bulkTasks"'),
+      "expected bulk actions to be sent to the host as one message",
+    );
+    assert.ok(
+      html.includes('sendBulkAction("reschedule", shiftDateString(dashboardData.today, 7))'),
+      "expected a next-week reschedule shortcut",
+    );
+  });
+
   test("dashboard webview uses a flat list render path for non-All Task 1 listboard views", async () => {
     const html = await renderSettledDashboardWebviewHtml();
 
@@ -0,0 +1,165 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { getMomentDateString } from "../../shared/momentSyntax.js";
+import { handleMcpMessage, MCP_TOOLS } from "../mcp/server";
+import {
+  appendMoment,
+  listTags,
+  listTasks,
+  readNote,
+  searchNotes,
+  toggleTask,
+  type NotesToolContext,
+} from "../mcp/notesTools";
+
+function createNotesFixture(): NotesToolContext {
+  const notesDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-mcp-"));
+  fs.mkdirSync(path.join(notesDir, "moments"));
+  fs.writeFileSync(
+    path.join(notesDir, "2026-03-07_roadmap.md"),
+    [
+      "---",
+      "tags: [planning]",
+      "---",
+      "# Roadmap review",
+      "",
+      "Discuss milestone alignment with #team.",
+      "- [ ] Draft roadmap #planning due:2026-03-10",
+      "- [x] Book meeting room",
+    ].join("\n"),
+  );
+  fs.writeFileSync(
+    path.join(notesDir, "ideas.md"),
+    "# Ideas\n\nA roadmap side note.\n- [ ] Try #team retro\n",
+  );
+  fs.writeFileSync(
+    path.join(notesDir, "moments", "2026-03-07.md"),
+    "---\ntype: moments\ndate: 2026-03-07\n---\n\n- [ ] 09:00 roadmap moment task\n",
+  );
+  return { notesDir, momentsSubfolder: "moments" };
+}
+
+suite("MCP Server Test Suite", () => {
+  test("search_notes ranks title matches first and skips Moments by default", async () => {
+    const context = createNotesFixture();
+
+    const results = await searchNotes(context, { query: "roadmap" });
+    assert.deepStrictEqual(
+      results.map((result) => result.path),
+      ["2026-03-07_roadmap.md", "ideas.md"],
+    );
+    assert.strictEqual(results[0].title, "Roadmap review");
+    assert.ok(results[0].tags.includes("#planning"));
+
+    const withMoments = await searchNotes(context, { query: "moment task", includeMoments: true });
+    assert.deepStrictEqual(
+      withMoments.map((result) => result.path),
+      [path.join("moments", "2026-03-07.md")],
+    );
+
+    const tagged = await searchNotes(context, { query: "roadmap", tag: "team" });
+    assert.deepStrictEqual(
+      tagged.map((result) => result.path),
+      ["2026-03-07_roadmap.md", "ideas.md"],
+    );
+  });
+
+  test("read_note refuses paths outside the notes directory", async () => {
+    const context = createNotesFixture();
+
+    assert.ok((await readNote(context, "ideas.md")).startsWith("# Ideas"));
+    await assert.rejects(() => readNote(context, "../outside.md"));
+  });
+
+  test("list_tags counts notes per tag", async () => {
+    const context = createNotesFixture();
+
+    const tags = await listTags(context);
+    assert.deepStrictEqual(tags.slice(0, 2), [
+      { tag: "#team", count: 2 },
+      { tag: "#planning", count: 1 },
+    ]);
+  });
+
+  test("list_tasks and toggle_task use dashboard task ids", async () => {
+    const context = createNotesFixture();
+
+    const open = await listTasks(context);
+    assert.deepStrictEqual(
+      open.map((task) => task.id.replace(/@.*$/, "")),
+      ["2026-03-07_roadmap.md:6", "ideas.md:3"],
+    );
+    assert.strictEqual(open[0].dueDate, "2026-03-10");
+    assert.strictEqual(open[0].noteDate, "2026-03-07");
+
+    const toggled = await toggleTask(context, { id: open[0].id });
+    assert.strictEqual(toggled.done, true);
+    const content = fs.readFileSync(path.join(context.notesDir, "2026-03-07_roadmap.md"), "utf8");
+    assert.ok(content.includes("- [x] Draft roadmap #planning due:2026-03-10"));
+
+    const done = await listTasks(context, { status: "done" });
+    assert.strictEqual(done.length, 2);
+    await assert.rejects(() => toggleTask(context, { id: "ideas.md:0" }));
+  });
+
+  test("append_moment creates the day file with the Moments header", async () => {
+    const context = createNotesFixture();
+
+    const result = await appendMoment(context, { text: "Shipped #release", date: "2026-03-08" });
+    const content = fs.readFileSync(path.join(context.notesDir, result.path), "utf8");
+    assert.ok(content.startsWith("---\ntype: moments\ndate: 2026-03-08\n---\n\n"));
+    assert.match(content, /\n- \d{2}:\d{2} Shipped #release\n$/);
+    await assert.rejects(() => appendMoment(context, { text: "x", date: "tomorrow" }));
+  });
+
+  test("append_moment stamps entries with the Moments time settings", async () => {
+    const context = {
+      ...createNotesFixture(),
+      momentTimeOptions: { seconds: true, utcOffset: "frontMatter" as const },
+      momentsDayStartHour: 4,
+    };
+
+    const result = await appendMoment(context, { text: "Late call" });
+    const content = fs.readFileSync(path.join(context.notesDir, result.path), "utf8");
+    assert.strictEqual(path.basename(result.path, ".md"), getMomentDateString(new Date(), 4));
+    assert.match(content, /^---\ntype: moments\ndate: [\d-]+\nutcOffset: "[+-]\d{2}:\d{2}"\n---\n/);
+    assert.match(content, /\n- \d{2}:\d{2}:\d{2} Late call\n$/);
+  });
+
+  test("JSON-RPC handler lists tools and reports tool errors as results", async () => {
+    const context = createNotesFixture();
+
+    const init = await handleMcpMessage(context, {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "2025-03-26" },
+    });
+    assert.strictEqual((init?.result as { protocolVersion: string }).protocolVersion, "2025-03-26");
+
+    const list = await handleMcpMessage(context, { jsonrpc: "2.0", id: 2, method: "tools/list" });
+    assert.deepStrictEqual(
+      (list?.result as { tools: Array<{ name: string }> }).tools.map((tool) => tool.name),
+      MCP_TOOLS.map((tool) => tool.name),
+    );
+
+    const failed = await handleMcpMessage(context, {
+      jsonrpc: "2.0",
+      id: 3,
+      method: "tools/call",
+      params: { name: "read_note", arguments: { path: "../secret.md" } },
+    });
+    assert.strictEqual((failed?.result as { isError?: boolean }).isError, true);
+
+    const notification = await handleMcpMessage(context, {
+      jsonrpc: "2.0",
+      method: "notifications/initialized",
+    });
+    assert.strictEqual(notification, null);
+
+    const unknown = await handleMcpMessage(context, { jsonrpc: "2.0", id: 4, method: "nope" });
+    assert.strictEqual(unknown?.error?.code, -32601);
+  });
+});
@@ -5,24 +5,48 @@ import * as path from "path";
 import * as vscode from "vscode";
 import {
   appendMoment,
+  appendMomentReply,
+  archiveMoments,
   buildMomentsDateLabel,
   collectMomentsFeed,
+  collectMomentsTagCounts,
+  collectMomentsInRange,
   deleteMomentEntry,
+  getMomentHeadline,
   getMomentsFilePath,
+  getMomentsLinkTarget,
+  insertNextRecurringMoment,
   mapMomentBodyIndexToFileLine,
+  markMomentPromoted,
   readMoments,
+  renameMomentsTag,
+  saveMomentAttachment,
   saveMomentEdit,
   searchMomentsFeed,
   toggleMomentTaskLine,
+  unarchiveMoments,
 } from "../moments/fileIo";
 import {
   extractMomentTags,
   filterTaskOverviewItems,
   getNextInboxFilter,
+  isMomentTag,
+  momentTagMatches,
   normalizeInboxTaskFilter,
   normalizeMomentsFeedDayCount,
+  renameMomentTagInText,
   resolvePinnedEntries,
 } from "../moments/config";
+import { buildMomentsCsv, buildMomentsJson, renderMomentsExport } from "../moments/export";
+import {
+  buildMomentsRollup,
+  formatMomentTime,
+  getMomentDateString,
+  getMomentTimestamp,
+  parseMomentsFileUtcOffset,
+  splitMomentsRollup,
+} from "../../shared/momentSyntax";
+import { buildMomentsStats } from "../moments/stats";
 import { buildTaskSearchDetail, sortOpenTaskOverview } from "../moments/taskOverview";
 import { MomentsViewProvider } from "../moments/panel";
 import { shiftDate, todayDateString } from "../dashboardTaskUtils";
@@ -103,6 +127,55 @@ suite("Moments Core Test Suite", () => {
     assert.deepStrictEqual(extractMomentTags("No tags here"), []);
   });
 
+  test("nested tags match their parents and rename together across Moments files", async () => {
+    assert.deepStrictEqual(extractMomentTags("Kickoff #Work/ProjectA and #work"), [
+      "#work/projecta",
+      "#work",
+    ]);
+    assert.strictEqual(momentTagMatches("#work/projecta", "#work"), true);
+    assert.strictEqual(momentTagMatches("#workshop", "#work"), false);
+    assert.strictEqual(isMomentTag("#job/projectA"), true);
+    assert.strictEqual(isMomentTag("job"), false);
+    assert.deepStrictEqual(
+      renameMomentTagInText("#Work/ProjectA, #work and #workshop", "#work", "#job"),
+      { text: "#job/ProjectA, #job and #workshop", count: 2 },
+    );
+
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-moments-"));
+    try {
+      await appendMoment(tmpDir, "2026-03-01", "Plan #work/projectA");
+      await appendMoment(tmpDir, "2026-03-02", "Review #work");
+      await appendMoment(tmpDir, "2026-03-02", "Lunch #food");
+      const archived = path.join(tmpDir, "moments", "archive", "2020-01.md");
+      fs.mkdirSync(path.dirname(archived), { recursive: true });
+      fs.writeFileSync(
+        archived,
+        "---\ntype: moments-archive\nperiod: 2020-01\n---\n\n## 2020-01-05\n\n- 09:00 Old #work\n",
+      );
+
+      assert.deepStrictEqual(
+        (await searchMomentsFeed(tmpDir, "tag:#work")).sections.map((section) => section.date),
+        ["2026-03-02", "2026-03-01", "2020-01-05"],
+      );
+      assert.deepStrictEqual((await collectMomentsTagCounts(tmpDir)).slice(0, 2), [
+        { tag: "#work", count: 2 },
+        { tag: "#food", count: 1 },
+      ]);
+
+      assert.deepStrictEqual(await renameMomentsTag(tmpDir, "#work", "#job"), {
+        count: 3,
+        files: 3,
+      });
+      assert.deepStrictEqual(
+        (await readMoments(tmpDir, "2026-03-01")).map((entry) => entry.text),
+        ["Plan #job/projectA"],
+      );
+      assert.ok(fs.readFileSync(archived, "utf8").includes("- 09:00 Old #job\n"));
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
   test("inbox task filter narrows open and done items", () => {
     const items = [
       {
@@ -218,6 +291,97 @@ suite("Moments Core Test Suite", () => {
     ]);
   });
 
+  test("moment times with seconds and UTC offsets round-trip through read, edit and toggle", async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-moments-"));
+    const date = "2026-03-07";
+    const filePath = getMomentsFilePath(tmpDir, date);
+
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(
+        filePath,
+        `---\ntype: moments\ndate: ${date}\nutcOffset: "+09:00"\n---\n\n` +
+          "- 09:15:30 Tokyo\n- 23:40-05:00 New York\n  ↳ 23:50:10-05:00 Landed\n",
+        "utf8",
+      );
+
+      const raw = fs.readFileSync(filePath, "utf8");
+      assert.strictEqual(parseMomentsFileUtcOffset(raw), "+09:00");
+      const entries = await readMoments(tmpDir, date);
+      assert.deepStrictEqual(
+        entries.map((entry) => [entry.time, entry.text]),
+        [
+          ["09:15:30", "Tokyo"],
+          ["23:40-05:00", "New York"],
+        ],
+      );
+      assert.strictEqual(entries[1].replies?.[0].time, "23:50:10-05:00");
+
+      assert.strictEqual(await saveMomentEdit(tmpDir, date, 2, "New York, edited"), true);
+      assert.strictEqual(await saveMomentEdit(tmpDir, date, 3, "Landed at JFK"), true);
+      assert.strictEqual(
+        toggleMomentTaskLine("- 09:15:30+09:00 Tokyo").line,
+        "- [x] 09:15:30+09:00 Tokyo",
+      );
+      assert.ok(
+        fs
+          .readFileSync(filePath, "utf8")
+          .endsWith("- 23:40-05:00 New York, edited\n  ↳ 23:50:10-05:00 Landed at JFK\n"),
+      );
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test("moment time stamps follow the time format, offset mode and day start", () => {
+    const now = new Date(2026, 2, 8, 1, 30, 5);
+    const offset = -now.getTimezoneOffset();
+    const sign = offset < 0 ? "-" : "+";
+    const local = `${sign}${String(Math.floor(Math.abs(offset) / 60)).padStart(2, "0")}:${String(Math.abs(offset) % 60).padStart(2, "0")}`;
+
+    assert.strictEqual(formatMomentTime(now, { seconds: false, utcOffset: "off" }), "01:30");
+    assert.strictEqual(
+      formatMomentTime(now, { seconds: true, utcOffset: "entry" }),
+      `01:30:05${local}`,
+    );
+    assert.strictEqual(
+      formatMomentTime(now, { seconds: false, utcOffset: "frontMatter" }, local),
+      "01:30",
+    );
+    assert.strictEqual(
+      formatMomentTime(
+        now,
+        { seconds: false, utcOffset: "frontMatter" },
+        local === "+14:00" ? "-12:00" : "+14:00",
+      ),
+      `01:30${local}`,
+    );
+
+    assert.strictEqual(getMomentDateString(now), "2026-03-08");
+    assert.strictEqual(getMomentDateString(now, 4), "2026-03-07");
+
+    // 23:40 in New York is later than 09:15 the same day in Tokyo.
+    assert.ok(
+      getMomentTimestamp("2026-03-07", "23:40-05:00") >
+        getMomentTimestamp("2026-03-07", "09:15:30", "+09:00"),
+    );
+    // With the day starting at 04:00, a 01:30 post on the 7th belongs after its 23:00 post.
+    assert.ok(
+      getMomentTimestamp("2026-03-07", "01:30", null, 4) >
+        getMomentTimestamp("2026-03-07", "23:00", null, 4),
+    );
+    assert.deepStrictEqual(
+      sortOpenTaskOverview(
+        [
+          { date: "2026-03-07", time: "09:15", utcOffset: "+09:00" },
+          { date: "2026-03-07", time: "08:00-05:00" },
+        ],
+        0,
+      ).map((item) => item.time),
+      ["08:00-05:00", "09:15"],
+    );
+  });
+
   test("open task overview is sorted by date and time desc", () => {
     const sorted = sortOpenTaskOverview([
       { date: "2026-03-06", time: "09:00", done: true },
@@ -275,6 +439,25 @@ suite("Moments Core Test Suite", () => {
     });
   });
 
+  test("completed recurring moment gets its next occurrence after the entry", () => {
+    const lines = [
+      "- [x] 09:00 Weekly review 🔁 every week @2026-03-06",
+      "  with the team",
+      "",
+      "- 10:00 Coffee",
+      "",
+    ];
+
+    assert.strictEqual(insertNextRecurringMoment(lines, 0, "2026-03-06"), true);
+    assert.deepStrictEqual(lines.slice(0, 3), [
+      "- [x] 09:00 Weekly review 🔁 every week @2026-03-06",
+      "  with the team",
+      "- [ ] 09:00 Weekly review 🔁 every week @2026-03-13",
+    ]);
+    assert.strictEqual(insertNextRecurringMoment(lines, 0, "2026-03-06"), false);
+    assert.strictEqual(insertNextRecurringMoment(lines, 4, "2026-03-06"), false);
+  });
+
   test("multiline moments round-trip through append and read", async () => {
     const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-moments-"));
     try {
@@ -320,6 +503,7 @@ suite("Moments Core Test Suite", () => {
           text: "Next entry",
           done: false,
           tags: [],
+          replies: [],
         },
       ]);
     } finally {
@@ -327,6 +511,203 @@ suite("Moments Core Test Suite", () => {
     }
   });
 
+  test("moment replies nest under their entry and are edited and deleted one by one", async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-moments-"));
+    const date = "2026-03-07";
+    const filePath = getMomentsFilePath(tmpDir, date);
+
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(
+        filePath,
+        `---\ntype: moments\ndate: ${date}\n---\n\n- 09:00 Idea\nmore detail\n  ↳ 09:10 First follow-up #plan\n\n- 10:00 Next\n`,
+        "utf8",
+      );
+
+      assert.strictEqual(await appendMomentReply(tmpDir, date, 1, "Second\nspans lines"), true);
+      const entries = await readMoments(tmpDir, date);
+      assert.strictEqual(entries[0].text, "Idea\nmore detail");
+      assert.deepStrictEqual(entries[0].tags, ["#plan"]);
+      assert.deepStrictEqual(
+        entries[0].replies?.map((reply) => [reply.index, reply.text]),
+        [
+          [3, "First follow-up #plan"],
+          [4, "Second\nspans lines"],
+        ],
+      );
+      assert.strictEqual(entries[1].text, "Next");
+
+      assert.strictEqual(await saveMomentEdit(tmpDir, date, 1, "Idea, revised"), true);
+      assert.strictEqual(await saveMomentEdit(tmpDir, date, 2, "First, revised"), true);
+      assert.strictEqual(await deleteMomentEntry(tmpDir, date, 3), true);
+
+      const body = fs.readFileSync(filePath, "utf8").split("---\n").pop()!;
+      assert.match(body, /^\n- 09:00 Idea, revised\n {2}↳ 09:10 First, revised\n\n- 10:00 Next\n$/);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test("promoted moments get one marker per target and keep a clean headline", async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-moments-"));
+    const date = "2026-03-07";
+
+    try {
+      await appendMoment(tmpDir, date, "Call Bob #work\nabout the budget");
+      assert.strictEqual(await markMomentPromoted(tmpDir, date, 1, "tasks/2026-03-07"), true);
+      assert.strictEqual(await markMomentPromoted(tmpDir, date, 1, "tasks/2026-03-07"), false);
+      assert.strictEqual(await markMomentPromoted(tmpDir, date, 1, "2026-03-07_call-bob"), true);
+      assert.strictEqual(await markMomentPromoted(tmpDir, date, 2, "elsewhere"), false);
+
+      const [entry] = await readMoments(tmpDir, date);
+      assert.strictEqual(
+        entry.text,
+        "Call Bob #work ↗ [[tasks/2026-03-07]] ↗ [[2026-03-07_call-bob]]\nabout the budget",
+      );
+      assert.strictEqual(getMomentHeadline(entry.text), "Call Bob #work");
+      assert.strictEqual(getMomentsLinkTarget(date), "moments/2026-03-07");
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test("attachments are saved per day and move with the day file when archived", async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-moments-"));
+    const date = "2020-01-05";
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff]);
+    const assetsDir = path.join(tmpDir, "moments", "assets");
+
+    try {
+      const image = await saveMomentAttachment(tmpDir, date, "Screen shot (1).png", png);
+      assert.strictEqual(image, "![Screen-shot-1-.png](assets/2020-01-05/Screen-shot-1-.png)");
+      assert.strictEqual(
+        await saveMomentAttachment(tmpDir, date, "Screen shot (1).png", png),
+        "![Screen-shot-1--2.png](assets/2020-01-05/Screen-shot-1--2.png)",
+      );
+      const pdf = await saveMomentAttachment(tmpDir, date, "../notes.pdf", Buffer.from("%PDF"));
+      assert.strictEqual(pdf, "[notes.pdf](assets/2020-01-05/notes.pdf)");
+      await appendMoment(tmpDir, date, `Whiteboard ${image}`);
+      // Pasted into drafts that were discarded, or posted on the next day.
+      await saveMomentAttachment(tmpDir, "2020-01-06", "draft.png", png);
+      await appendMoment(tmpDir, "2020-01-07", `Late post ${pdf}`);
+
+      assert.deepStrictEqual(await archiveMoments(tmpDir), { archived: 2, skipped: 0 });
+      const archiveDir = path.join(tmpDir, "moments", "archive", "2020-01");
+      assert.ok(fs.existsSync(path.join(archiveDir, `${date}.md`)));
+      assert.deepStrictEqual(fs.readdirSync(path.join(archiveDir, "assets", date)), [
+        "Screen-shot-1-.png",
+        "notes.pdf",
+      ]);
+      assert.deepStrictEqual(
+        fs.readFileSync(path.join(archiveDir, "assets", date, "Screen-shot-1-.png")),
+        png,
+      );
+      assert.deepStrictEqual(fs.readdirSync(assetsDir), []);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test("archived days stay readable from day files and rollups, and unarchive restores them", async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-moments-"));
+    const archiveDir = path.join(tmpDir, "moments", "archive");
+    const rollupPath = path.join(archiveDir, "2020-02.md");
+    const day = (date: string, body: string, offset = "") =>
+      `---\ntype: moments\ndate: ${date}\n${offset}---\n\n${body}`;
+
+    try {
+      const rollup = buildMomentsRollup("2020-02", [
+        { date: "2020-02-03", content: day("2020-02-03", "- 10:00 Second\n") },
+        {
+          date: "2020-02-01",
+          content: day(
+            "2020-02-01",
+            "- 09:00 First #trip\n  ↳ 09:30 Reply\n",
+            'utcOffset: "+09:00"\n',
+          ),
+        },
+      ]);
+      assert.strictEqual(
+        rollup,
+        "---\ntype: moments-archive\nperiod: 2020-02\n---\n\n" +
+          "## 2020-02-01\n<!-- utcOffset: +09:00 -->\n\n- 09:00 First #trip\n  ↳ 09:30 Reply\n\n" +
+          "## 2020-02-03\n\n- 10:00 Second\n",
+      );
+      assert.deepStrictEqual(
+        splitMomentsRollup(rollup).map((entry) => entry.content),
+        [
+          day("2020-02-01", "- 09:00 First #trip\n  ↳ 09:30 Reply\n", 'utcOffset: "+09:00"\n'),
+          day("2020-02-03", "- 10:00 Second\n"),
+        ],
+      );
+
+      fs.mkdirSync(path.join(archiveDir, "2020-01"), { recursive: true });
+      fs.writeFileSync(
+        path.join(archiveDir, "2020-01", "2020-01-15.md"),
+        day("2020-01-15", "- 08:00 Daily archive ![a](assets/2020-01-15/a.png)\n"),
+      );
+      fs.mkdirSync(path.join(archiveDir, "assets", "2020-02-01"), { recursive: true });
+      fs.writeFileSync(path.join(archiveDir, "assets", "2020-02-01", "b.png"), "png");
+      fs.writeFileSync(rollupPath, rollup);
+      await appendMoment(tmpDir, "2020-02-03", "Written after archiving");
+
+      assert.deepStrictEqual(
+        (await collectMomentsInRange(tmpDir, "2020-01-01", "2020-02-29")).map(
+          (entry) => `${entry.date} ${entry.text}`,
+        ),
+        [
+          "2020-01-15 Daily archive ![a](assets/2020-01-15/a.png)",
+          "2020-02-01 First #trip",
+          "2020-02-03 Written after archiving",
+        ],
+      );
+      const feed = await collectMomentsFeed(tmpDir, "2020-02-04", 4);
+      assert.deepStrictEqual(
+        feed.sections.map((section) => [section.date, section.archive]),
+        [
+          ["2020-02-04", undefined],
+          ["2020-02-03", undefined],
+          ["2020-02-01", "archive"],
+          ["2020-01-15", "archive/2020-01"],
+        ],
+      );
+      assert.deepStrictEqual(
+        (await searchMomentsFeed(tmpDir, "tag:#trip")).sections.map((section) => [
+          section.date,
+          section.archive,
+          section.entries.map((entry) => entry.index),
+        ]),
+        [["2020-02-01", "archive", [1]]],
+      );
+
+      assert.deepStrictEqual(await unarchiveMoments(tmpDir, "2020-01-20", "2020-02-29"), {
+        restored: 1,
+        skipped: 1,
+      });
+      assert.strictEqual(
+        fs.readFileSync(getMomentsFilePath(tmpDir, "2020-02-01"), "utf8"),
+        day("2020-02-01", "- 09:00 First #trip\n  ↳ 09:30 Reply\n", 'utcOffset: "+09:00"\n'),
+      );
+      assert.strictEqual(
+        fs.readFileSync(path.join(tmpDir, "moments", "assets", "2020-02-01", "b.png"), "utf8"),
+        "png",
+      );
+      assert.deepStrictEqual(
+        splitMomentsRollup(fs.readFileSync(rollupPath, "utf8")).map((entry) => entry.date),
+        ["2020-02-03"],
+      );
+
+      assert.deepStrictEqual(await unarchiveMoments(tmpDir, "2020-01-01", "2020-01-31"), {
+        restored: 1,
+        skipped: 0,
+      });
+      assert.ok(fs.existsSync(getMomentsFilePath(tmpDir, "2020-01-15")));
+      assert.strictEqual(fs.existsSync(path.join(archiveDir, "2020-01")), false);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
   test("moments feed can load older visible days incrementally", async () => {
     const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-moments-"));
     const today = todayDateString();
@@ -420,4 +801,108 @@ suite("Moments Core Test Suite", () => {
       fs.rmSync(tmpDir, { recursive: true, force: true });
     }
   });
+
+  test("moments in a date range export through the template, as JSON and as CSV", async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-moments-"));
+    const writeDay = (date: string, body: string) => {
+      const filePath = getMomentsFilePath(tmpDir, date);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, `---\ntype: moments\ndate: ${date}\n---\n\n${body}`, "utf8");
+    };
+
+    try {
+      writeDay("2026-03-05", "- 08:00 Too early\n");
+      writeDay("2026-03-06", '- 09:00 Say "hi", #team\nsecond line\n  ↳ 09:30 Done\n');
+      writeDay("2026-03-07", "- [x] 10:00 Ship it\n");
+
+      const entries = await collectMomentsInRange(tmpDir, "2026-03-06", "2026-03-07");
+      assert.deepStrictEqual(
+        entries.map((entry) => [entry.date, entry.time]),
+        [
+          ["2026-03-06", "09:00"],
+          ["2026-03-07", "10:00"],
+        ],
+      );
+
+      assert.strictEqual(
+        renderMomentsExport(entries, "- {date} {time} {text} {tags}"),
+        '- 2026-03-06 09:00 Say "hi", #team\n  second line\n  ↳ 09:30 Done #team\n' +
+          "- 2026-03-07 10:00 Ship it",
+      );
+
+      const json = JSON.parse(buildMomentsJson(entries));
+      assert.deepStrictEqual(json[0].replies, [{ time: "09:30", text: "Done" }]);
+      assert.deepStrictEqual(json[0].tags, ["#team"]);
+      assert.strictEqual(json[1].done, true);
+
+      assert.strictEqual(
+        buildMomentsCsv(entries),
+        "date,time,type,done,tags,text\r\n" +
+          '2026-03-06,09:00,moment,false,#team,"Say ""hi"", #team\nsecond line"\r\n' +
+          "2026-03-06,09:30,reply,,,Done\r\n" +
+          "2026-03-07,10:00,moment,true,,Ship it\r\n",
+      );
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test("moments stats count posts per day and hour, top tags by month and streaks", () => {
+    const entry = (date: string, time: string, tags: string[] = [], replies: string[] = []) => ({
+      date,
+      index: 1,
+      time,
+      text: "post",
+      done: false,
+      tags,
+      replies: replies.map((replyTime, index) => ({
+        index: index + 2,
+        time: replyTime,
+        text: "reply",
+      })),
+    });
+
+    const stats = buildMomentsStats(
+      [
+        entry("2025-01-01", "09:00", ["#old"]),
+        entry("2026-01-10", "09:00"),
+        entry("2026-01-11", "09:30"),
+        entry("2026-01-12", "10:00"),
+        entry("2026-03-05", "22:15", ["#work"], ["23:00+09:00"]),
+        entry("2026-03-06", "08:00", ["#work", "#idea"]),
+        entry("2026-03-07", "21:00", ["#idea"]),
+        entry("2026-03-07", "21:30", ["#work"]),
+      ],
+      "2026-03-08",
+    );
+
+    assert.deepStrictEqual(stats.days, {
+      "2026-01-10": 1,
+      "2026-01-11": 1,
+      "2026-01-12": 1,
+      "2026-03-05": 2,
+      "2026-03-06": 1,
+      "2026-03-07": 2,
+    });
+    assert.strictEqual(stats.totalPosts, 8);
+    assert.strictEqual(stats.activeDays, 6);
+    assert.strictEqual(stats.hours[9], 2);
+    assert.strictEqual(stats.hours[21], 2);
+    assert.strictEqual(stats.hours[23], 1);
+    // Nothing posted on the 8th yet, so the streak still counts up to yesterday.
+    assert.strictEqual(stats.currentStreak, 3);
+    assert.strictEqual(stats.longestStreak, 3);
+    assert.deepStrictEqual(stats.months, [
+      "2025-10",
+      "2025-11",
+      "2025-12",
+      "2026-01",
+      "2026-02",
+      "2026-03",
+    ]);
+    assert.deepStrictEqual(stats.topTags, [
+      { tag: "#work", total: 3, months: [0, 0, 0, 0, 0, 3] },
+      { tag: "#idea", total: 2, months: [0, 0, 0, 0, 0, 2] },
+    ]);
+  });
 });
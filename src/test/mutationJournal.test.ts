@@ -0,0 +1,89 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  clearMutationJournal,
+  onDidChangeMutationJournal,
+  recordMutation,
+  redoLastMutation,
+  undoLastMutation,
+  type JournalEvent,
+} from "../mutationJournal";
+
+suite("Mutation Journal Test Suite", () => {
+  let notesDir: string;
+
+  setup(() => {
+    notesDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-journal-"));
+    clearMutationJournal();
+  });
+
+  teardown(() => {
+    clearMutationJournal();
+    fs.rmSync(notesDir, { recursive: true, force: true });
+  });
+
+  test("undo and redo restore the recorded file contents, including created files", async () => {
+    const inboxPath = path.join(notesDir, "inbox.md");
+    const archivedPath = path.join(notesDir, "archive", "inbox.md");
+    fs.writeFileSync(inboxPath, "- [ ] Alpha\n", "utf8");
+    const events: JournalEvent[] = [];
+    const listener = onDidChangeMutationJournal((event) => events.push(event));
+
+    try {
+      await recordMutation("Archive", [inboxPath, archivedPath], async () => {
+        fs.mkdirSync(path.dirname(archivedPath), { recursive: true });
+        fs.renameSync(inboxPath, archivedPath);
+      });
+      await recordMutation("Nothing", [inboxPath], async () => undefined);
+
+      assert.deepStrictEqual(await undoLastMutation(), { status: "done", label: "Archive" });
+      assert.strictEqual(fs.readFileSync(inboxPath, "utf8"), "- [ ] Alpha\n");
+      assert.strictEqual(fs.existsSync(archivedPath), false);
+
+      assert.deepStrictEqual(await redoLastMutation(), { status: "done", label: "Archive" });
+      assert.strictEqual(fs.existsSync(inboxPath), false);
+      assert.strictEqual(fs.readFileSync(archivedPath, "utf8"), "- [ ] Alpha\n");
+
+      assert.deepStrictEqual(await redoLastMutation(), { status: "empty" });
+      assert.deepStrictEqual(
+        events.map((event) => event.kind),
+        ["record", "undo", "redo"],
+      );
+    } finally {
+      listener.dispose();
+    }
+  });
+
+  test("undo refuses to overwrite a file that changed after the operation", async () => {
+    const filePath = path.join(notesDir, "note.md");
+    fs.writeFileSync(filePath, "before\n", "utf8");
+
+    await recordMutation("Edit", [filePath], async () => {
+      fs.writeFileSync(filePath, "after\n", "utf8");
+    });
+    fs.writeFileSync(filePath, "edited by hand\n", "utf8");
+
+    assert.deepStrictEqual(await undoLastMutation(), {
+      status: "conflict",
+      label: "Edit",
+      filePath,
+    });
+    assert.strictEqual(fs.readFileSync(filePath, "utf8"), "edited by hand\n");
+    assert.deepStrictEqual(await undoLastMutation(), { status: "empty" });
+  });
+
+  test("a new operation clears the redo history", async () => {
+    const filePath = path.join(notesDir, "note.md");
+    fs.writeFileSync(filePath, "one\n", "utf8");
+
+    await recordMutation("First", [filePath], async () => fs.writeFileSync(filePath, "two\n"));
+    await undoLastMutation();
+    await recordMutation("Second", [filePath], async () => fs.writeFileSync(filePath, "three\n"));
+
+    assert.deepStrictEqual(await redoLastMutation(), { status: "empty" });
+    assert.deepStrictEqual(await undoLastMutation(), { status: "done", label: "Second" });
+    assert.strictEqual(fs.readFileSync(filePath, "utf8"), "one\n");
+  });
+});
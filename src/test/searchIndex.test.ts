@@ -0,0 +1,162 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  parseSearchQuery,
+  SearchIndex,
+  tokenizeForSearch,
+  type SearchDocument,
+} from "../../shared/searchIndex.js";
+import {
+  flushSearchIndexStorage,
+  getNotesSearchIndex,
+  normalizeMomentsSubfolder,
+  setSearchIndexStorageDir,
+} from "../notesSearchIndex";
+
+function note(id: string, title: string, text: string, extra: Partial<SearchDocument> = {}) {
+  return {
+    id,
+    kind: "note" as const,
+    path: id,
+    date: "2026-03-01",
+    tags: [],
+    title,
+    text,
+    line: 0,
+    ...extra,
+  };
+}
+
+suite("Search Index Test Suite", () => {
+  test("tokenizer keeps Latin words and splits Japanese runs into bigrams", () => {
+    assert.deepStrictEqual(tokenizeForSearch("Roadmap v2 週次議事録"), [
+      "roadmap",
+      "v2",
+      "週次",
+      "次議",
+      "議事",
+      "事録",
+    ]);
+    assert.deepStrictEqual(tokenizeForSearch("ＡＢＣ と"), ["abc", "と"]);
+  });
+
+  test("query parser separates phrases and operators from words", () => {
+    assert.deepStrictEqual(
+      parseSearchQuery('plan "next steps" tag:Work path:meetings/ after:2026-03-01 before:soon'),
+      {
+        terms: ["plan", "before:soon"],
+        phrases: ["next steps"],
+        tags: ["#work"],
+        paths: ["meetings/"],
+        before: null,
+        after: "2026-03-01",
+      },
+    );
+  });
+
+  test("BM25 ranks title and repeated hits first and requires every word", () => {
+    const index = new SearchIndex();
+    index.add(note("a.md", "Groceries", "buy milk, mention the roadmap once"));
+    index.add(note("b.md", "Roadmap", "roadmap review with the team"));
+    index.add(note("c.md", "Team sync", "nothing relevant"));
+
+    assert.deepStrictEqual(
+      index.search("roadmap").map((hit) => hit.document.id),
+      ["b.md", "a.md"],
+    );
+    assert.deepStrictEqual(
+      index.search("road team").map((hit) => hit.document.id),
+      ["b.md"],
+    );
+    assert.deepStrictEqual(index.search("   "), []);
+  });
+
+  test("phrases, CJK substrings and operators narrow the results", () => {
+    const index = new SearchIndex();
+    index.add(
+      note("meetings/2026-03-02_sync.md", "週次定例", "議事録: next steps agreed", {
+        date: "2026-03-02",
+        tags: ["#work"],
+      }),
+    );
+    index.add(note("ideas.md", "Ideas", "steps toward the next idea", { date: "2026-02-10" }));
+
+    const ids = (query: string) => index.search(query).map((hit) => hit.document.id);
+    assert.deepStrictEqual(ids('"next steps"'), ["meetings/2026-03-02_sync.md"]);
+    assert.deepStrictEqual(ids("定例"), ["meetings/2026-03-02_sync.md"]);
+    assert.deepStrictEqual(ids("議"), ["meetings/2026-03-02_sync.md"]);
+    assert.deepStrictEqual(ids("steps tag:work"), ["meetings/2026-03-02_sync.md"]);
+    assert.deepStrictEqual(ids("steps path:ideas"), ["ideas.md"]);
+    assert.deepStrictEqual(ids("before:2026-03-01"), ["ideas.md"]);
+    assert.deepStrictEqual(ids("steps after:2026-03-01"), ["meetings/2026-03-02_sync.md"]);
+  });
+
+  test("index survives a JSON round trip and removes documents cleanly", () => {
+    const index = new SearchIndex();
+    index.add(note("a.md", "Alpha", "shared words"));
+    index.add(note("b.md", "Beta", "shared words"));
+    index.remove("a.md");
+
+    const restored = SearchIndex.fromJSON(JSON.parse(JSON.stringify(index)));
+    assert.ok(restored);
+    assert.deepStrictEqual(
+      restored.search("shared").map((hit) => hit.document.id),
+      ["b.md"],
+    );
+    assert.deepStrictEqual(restored.search('"shared words"'), []);
+    restored.restoreText(note("b.md", "Beta", "shared words"));
+    assert.strictEqual(restored.search('"shared words"')[0]?.document.text, "shared words");
+    assert.strictEqual(SearchIndex.fromJSON({ version: 0, documents: [] }), null);
+  });
+
+  test("notes search index re-reads only changed files and writes the index to storage", async () => {
+    const notesDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-search-"));
+    const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), "noteeees-search-store-"));
+    fs.mkdirSync(path.join(notesDir, "moments"));
+    fs.writeFileSync(path.join(notesDir, "plan.md"), "# Plan\n\n- [ ] Draft budget #work\n");
+    fs.writeFileSync(
+      path.join(notesDir, "moments", "2026-03-07.md"),
+      "---\ntype: moments\ndate: 2026-03-07\n---\n\n- 09:00 budget call\n- 10:00 coffee\n",
+    );
+    setSearchIndexStorageDir(storageDir);
+
+    try {
+      const index = await getNotesSearchIndex(notesDir, "moments");
+      const kinds = (query: string) =>
+        index
+          .search(query)
+          .map((hit) => `${hit.document.kind}:${hit.document.line}`)
+          .sort();
+      assert.deepStrictEqual(kinds("budget"), ["moment:1", "note:0", "task:2"]);
+      assert.deepStrictEqual(fs.readdirSync(storageDir), []);
+      await flushSearchIndexStorage();
+      const [stored] = fs.readdirSync(storageDir);
+      assert.ok(stored?.startsWith("search-index-"));
+      assert.ok(!fs.readFileSync(path.join(storageDir, stored), "utf8").includes("budget call"));
+
+      fs.rmSync(path.join(notesDir, "plan.md"));
+      const future = new Date(Date.now() + 5000);
+      fs.writeFileSync(
+        path.join(notesDir, "moments", "2026-03-07.md"),
+        "---\ntype: moments\ndate: 2026-03-07\n---\n\n- 10:00 coffee\n",
+      );
+      fs.utimesSync(path.join(notesDir, "moments", "2026-03-07.md"), future, future);
+
+      const updated = await getNotesSearchIndex(notesDir, "moments");
+      assert.deepStrictEqual(updated.search("budget"), []);
+      assert.strictEqual(updated.search("coffee")[0]?.document.id, "moments/2026-03-07.md#1");
+
+      // A trailing separator in the setting still names the Moments folder.
+      assert.strictEqual(normalizeMomentsSubfolder("moments/"), "moments");
+      const slashed = await getNotesSearchIndex(notesDir, "moments/");
+      assert.strictEqual(slashed.search("coffee")[0]?.document.kind, "moment");
+    } finally {
+      await flushSearchIndexStorage();
+      setSearchIndexStorageDir(undefined);
+      fs.rmSync(notesDir, { recursive: true, force: true });
+      fs.rmSync(storageDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,7 +1,22 @@
 import * as assert from "assert";
 import * as vscode from "vscode";
 import { MomentsViewProvider } from "../moments/panel";
-import { extractDueDate, stripDueDateTokens } from "../../shared/taskSyntax.js";
+import {
+  addTaskProvenance,
+  addTaskTag,
+  appendTaskMetadataTokens,
+  buildNextRecurringTaskText,
+  extractDueDate,
+  extractTaskMetadata,
+  findSubtaskLineIndexes,
+  getNextOccurrenceDate,
+  normalizeTaskTag,
+  parseRecurrence,
+  parseTaskLine,
+  removeTaskTag,
+  stripDueDateTokens,
+  stripTaskMetadataTokens,
+} from "../../shared/taskSyntax.js";
 import {
   createExtensionContextStub,
   renderSettledDashboardWebviewHtml,
@@ -57,6 +72,142 @@ suite("Task Syntax Test Suite", () => {
     assert.strictEqual(stripDueDateTokens("Meet @2026-04-04"), "Meet");
   });
 
+  test("inline priority, estimate, and category tokens are parsed and stripped", () => {
+    assert.deepStrictEqual(extractTaskMetadata("Write report !high ~1h30m category:work"), {
+      priority: "high",
+      timeEstimateMin: 90,
+      category: "work",
+    });
+    assert.deepStrictEqual(extractTaskMetadata("Stretch ⏫ ~15m"), {
+      priority: "high",
+      timeEstimateMin: 15,
+      category: null,
+    });
+    assert.deepStrictEqual(extractTaskMetadata("Hello!high ~later"), {
+      priority: null,
+      timeEstimateMin: null,
+      category: null,
+    });
+    assert.strictEqual(
+      stripTaskMetadataTokens("Write report 🔽 ~2h category:admin #work"),
+      "Write report #work",
+    );
+  });
+
+  test("metadata tokens are appended only for missing fields", () => {
+    assert.strictEqual(
+      appendTaskMetadataTokens("Write report !low", {
+        priority: "high",
+        timeEstimateMin: 120,
+        category: "work",
+      }),
+      "Write report !low ~2h category:work",
+    );
+    assert.strictEqual(
+      appendTaskMetadataTokens("Done ~5m", { priority: null, timeEstimateMin: 30 }),
+      "Done ~5m",
+    );
+  });
+
+  test("recurrence tokens parse into an interval and unit", () => {
+    assert.deepStrictEqual(parseRecurrence("Water plants 🔁 every week"), {
+      interval: 1,
+      unit: "week",
+      rule: "🔁 every week",
+    });
+    assert.deepStrictEqual(parseRecurrence("Pay rent repeat:monthly @2026-04-01"), {
+      interval: 1,
+      unit: "month",
+      rule: "repeat:monthly",
+    });
+    assert.deepStrictEqual(parseRecurrence("Standup every 2 weekdays"), {
+      interval: 2,
+      unit: "weekday",
+      rule: "every 2 weekdays",
+    });
+    assert.deepStrictEqual(parseRecurrence("Standup every day #team @2026-04-01 ^standup"), {
+      interval: 1,
+      unit: "day",
+      rule: "every day",
+    });
+    assert.strictEqual(parseRecurrence("Plan the week"), null);
+    assert.strictEqual(parseRecurrence("Review what we ship every week with the team"), null);
+    assert.strictEqual(parseRecurrence("Check every day-one signup #growth"), null);
+  });
+
+  test("next occurrence clamps month ends and skips weekends", () => {
+    const monthly = { interval: 1, unit: "month", rule: "repeat:monthly" } as const;
+    assert.strictEqual(getNextOccurrenceDate("2026-01-31", monthly), "2026-02-28");
+    assert.strictEqual(
+      getNextOccurrenceDate("2026-03-06", { interval: 1, unit: "weekday", rule: "every weekday" }),
+      "2026-03-09",
+    );
+    assert.strictEqual(
+      getNextOccurrenceDate("2026-12-30", { interval: 1, unit: "week", rule: "🔁 weekly" }),
+      "2027-01-06",
+    );
+
+    assert.strictEqual(
+      buildNextRecurringTaskText("Pay rent repeat:monthly 📅2026-01-31", "2026-02-02"),
+      "Pay rent repeat:monthly 📅2026-02-28",
+    );
+    assert.strictEqual(
+      buildNextRecurringTaskText("Stretch 🔁 every 2 days", "2026-03-10"),
+      "Stretch 🔁 every 2 days @2026-03-12",
+    );
+    assert.strictEqual(buildNextRecurringTaskText("One-off @2026-03-10", "2026-03-10"), null);
+  });
+
+  test("indented checkboxes parse as tasks and nest under the task above", () => {
+    assert.strictEqual(parseTaskLine("  - [x] Child")?.indent, "  ");
+    assert.strictEqual(parseTaskLine("\t- [ ] Tabbed child")?.text, "Tabbed child");
+
+    const lines = [
+      "- [ ] Parent",
+      "  - [ ] Child",
+      "    - [x] Grandchild",
+      "  Notes about the child",
+      "",
+      "  - [ ] Second child",
+      "- [ ] Sibling",
+      "  - [ ] Sibling child",
+    ];
+    assert.deepStrictEqual(findSubtaskLineIndexes(lines, 0), [1, 2, 5]);
+    assert.deepStrictEqual(findSubtaskLineIndexes(lines, 1), [2]);
+    assert.deepStrictEqual(findSubtaskLineIndexes(lines, 5), []);
+  });
+
+  test("tags are added once before a block id and removed as whole tokens", () => {
+    assert.strictEqual(normalizeTaskTag(" work "), "#work");
+    assert.strictEqual(normalizeTaskTag("#仕事"), "#仕事");
+    assert.strictEqual(normalizeTaskTag("two words"), null);
+    assert.strictEqual(normalizeTaskTag("#"), null);
+
+    assert.strictEqual(
+      addTaskTag("Draft plan @2026-05-01", "#work"),
+      "Draft plan @2026-05-01 #work",
+    );
+    assert.strictEqual(addTaskTag("Draft plan ^plan-1", "#work"), "Draft plan #work ^plan-1");
+    assert.strictEqual(addTaskTag("Draft #Work plan", "#work"), "Draft #Work plan");
+
+    assert.strictEqual(
+      removeTaskTag("#work Draft #work-log plan #Work", "#work"),
+      "Draft #work-log plan",
+    );
+  });
+
+  test("moved tasks keep their first provenance marker", () => {
+    assert.strictEqual(
+      addTaskProvenance("Call Bob ^b-1", "2026-03-01"),
+      "Call Bob (from 2026-03-01) ^b-1",
+    );
+    assert.strictEqual(
+      addTaskProvenance("Call Bob (from 2026-02-20)", "2026-03-01"),
+      "Call Bob (from 2026-02-20)",
+    );
+    assert.strictEqual(stripTaskMetadataTokens("Call Bob (from 2026-02-20) !high"), "Call Bob");
+  });
+
   test("dashboard webview browser normalization supports #due tokens", async () => {
     const html = await renderSettledDashboardWebviewHtml();
 
@@ -2,7 +2,19 @@ import * as assert from "assert";
 import * as path from "path";
 import * as fs from "fs";
 import * as os from "os";
-import { parseWikiLinks, resolveWikiLinkPath, collectBacklinks } from "../wikiLinks.js";
+import {
+  parseWikiLinks,
+  resolveWikiLinkPath,
+  collectBacklinks,
+  collectUnlinkedMentions,
+  collectWikiLinkProblems,
+  collectWikiLinkRenameEdits,
+  expandRenamedNotes,
+  findWikiLinkAnchorLine,
+  extractWikiLinkPreview,
+  getUnlinkedMentionLink,
+  parseWikiLinkTarget,
+} from "../wikiLinks.js";
 
 suite("WikiLinks - parseWikiLinks", () => {
   test("extracts single wiki link", () => {
@@ -46,6 +58,76 @@ suite("WikiLinks - parseWikiLinks", () => {
   });
 });
 
+suite("WikiLinks - heading and block anchors", () => {
+  const content = [
+    "# Project",
+    "```",
+    "# not a heading",
+    "```",
+    "## Next  Steps ##",
+    "- Ship it ^ship-1",
+    "",
+    "A paragraph",
+    "^para",
+  ].join("\n");
+
+  test("parses heading and block anchors", () => {
+    assert.deepStrictEqual(parseWikiLinkTarget("Note#Next Steps"), {
+      note: "Note",
+      anchor: "#Next Steps",
+      heading: "Next Steps",
+    });
+    assert.deepStrictEqual(parseWikiLinkTarget("Note^ship-1"), {
+      note: "Note",
+      anchor: "^ship-1",
+      blockId: "ship-1",
+    });
+    assert.deepStrictEqual(parseWikiLinkTarget("#^para").blockId, "para");
+    assert.deepStrictEqual(parseWikiLinkTarget("Note#Project#Next Steps").heading, "Next Steps");
+    assert.deepStrictEqual(parseWikiLinkTarget("Note"), { note: "Note", anchor: "" });
+  });
+
+  test("finds the anchored line", () => {
+    assert.strictEqual(findWikiLinkAnchorLine(content, parseWikiLinkTarget("N#next steps")), 4);
+    assert.strictEqual(
+      findWikiLinkAnchorLine(content, parseWikiLinkTarget("N#not a heading")),
+      undefined,
+    );
+    assert.strictEqual(findWikiLinkAnchorLine(content, parseWikiLinkTarget("N^ship-1")), 5);
+    assert.strictEqual(findWikiLinkAnchorLine(content, parseWikiLinkTarget("N^para")), 7);
+    assert.strictEqual(findWikiLinkAnchorLine(content, parseWikiLinkTarget("N")), 0);
+  });
+
+  test("previews the first paragraph or the referenced section", () => {
+    const note = [
+      "---",
+      "tags: [work]",
+      "---",
+      "# Plan",
+      "",
+      "First line",
+      "second line.",
+      "",
+      "## Goals",
+      "Ship v2 ^goal",
+      "### Detail",
+      "More",
+      "## Risks",
+      "None",
+    ].join("\n");
+
+    assert.strictEqual(
+      extractWikiLinkPreview(note, parseWikiLinkTarget("Plan")),
+      "First line second line.",
+    );
+    assert.strictEqual(
+      extractWikiLinkPreview(note, parseWikiLinkTarget("Plan#Goals")),
+      "Ship v2 ^goal ### Detail More",
+    );
+    assert.strictEqual(extractWikiLinkPreview(note, parseWikiLinkTarget("Plan^goal")), "Ship v2");
+  });
+});
+
 suite("WikiLinks - resolveWikiLinkPath", () => {
   let tmpDir: string;
 
@@ -90,6 +172,21 @@ suite("WikiLinks - resolveWikiLinkPath", () => {
     const result = await resolveWikiLinkPath("NonExistent", tmpDir);
     assert.strictEqual(result, undefined);
   });
+
+  test("resolves path links below the notes directory, including Moments files", async () => {
+    fs.mkdirSync(path.join(tmpDir, "moments"));
+    fs.writeFileSync(path.join(tmpDir, "moments", "2026-03-07.md"), "- 09:00 Idea", "utf8");
+
+    assert.strictEqual(
+      await resolveWikiLinkPath("moments/2026-03-07", tmpDir),
+      path.join(tmpDir, "moments", "2026-03-07.md"),
+    );
+    assert.strictEqual(
+      await resolveWikiLinkPath("projects/Alpha", tmpDir),
+      path.join(tmpDir, "projects", "Alpha.md"),
+    );
+    assert.strictEqual(await resolveWikiLinkPath("../outside", tmpDir), undefined);
+  });
 });
 
 suite("WikiLinks - collectBacklinks", () => {
@@ -141,6 +238,38 @@ suite("WikiLinks - collectBacklinks", () => {
     assert.strictEqual(result.size, 0);
   });
 
+  test("resolves section links and records the section", async () => {
+    fs.writeFileSync(
+      path.join(tmpDir, "SourceWithSection.md"),
+      "[[Target#Content|details]] and [[Target^abc]] and [[#Local]]",
+      "utf8",
+    );
+    const result = await collectBacklinks(path.join(tmpDir, "Target.md"), tmpDir);
+
+    assert.deepStrictEqual(
+      result.get(path.join(tmpDir, "SourceWithSection.md"))?.map((item) => item.section),
+      ["#Content", "^abc"],
+    );
+  });
+
+  test("resolves a note name containing # as a whole before splitting off an anchor", async () => {
+    fs.writeFileSync(path.join(tmpDir, "C.md"), "# C", "utf8");
+    fs.writeFileSync(path.join(tmpDir, "C# basics.md"), "# C# basics", "utf8");
+    fs.writeFileSync(path.join(tmpDir, "Links.md"), "[[C# basics]] and [[C#Intro]]", "utf8");
+
+    const sharp = await collectBacklinks(path.join(tmpDir, "C# basics.md"), tmpDir);
+    assert.deepStrictEqual(
+      sharp.get(path.join(tmpDir, "Links.md"))?.map((item) => [item.linkText, item.section]),
+      [["[[C# basics]]", undefined]],
+    );
+    const c = await collectBacklinks(path.join(tmpDir, "C.md"), tmpDir);
+    assert.deepStrictEqual(
+      c.get(path.join(tmpDir, "Links.md"))?.map((item) => [item.linkText, item.section]),
+      [["[[C#Intro]]", "#Intro"]],
+    );
+    assert.deepStrictEqual(await collectWikiLinkProblems("[[C# basics]]", tmpDir), []);
+  });
+
   test("finds backlinks with pipe aliases", async () => {
     fs.writeFileSync(
       path.join(tmpDir, "SourceWithAlias.md"),
@@ -155,3 +284,238 @@ suite("WikiLinks - collectBacklinks", () => {
     assert.strictEqual(aliasItems[0].linkText, "[[Target|My Custom Alias]]");
   });
 });
+
+suite("WikiLinks - collectWikiLinkRenameEdits", () => {
+  let tmpDir: string;
+
+  setup(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "wiki-rename-"));
+    fs.mkdirSync(path.join(tmpDir, "projects"));
+    fs.writeFileSync(path.join(tmpDir, "projects", "2025-01-15_Plan.md"), "# Plan", "utf8");
+    fs.writeFileSync(
+      path.join(tmpDir, "Source.md"),
+      "See [[Plan]] and [[2025-01-15_Plan|the plan]].\n- [[projects/2025-01-15_Plan]] [[Other]]",
+      "utf8",
+    );
+  });
+
+  teardown(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("rewrites title, file name and path links, keeping aliases", async () => {
+    const oldPath = path.join(tmpDir, "projects", "2025-01-15_Plan.md");
+    const newPath = path.join(tmpDir, "projects", "2025-01-15_Roadmap.md");
+    const edits = await collectWikiLinkRenameEdits(oldPath, newPath, tmpDir);
+
+    assert.deepStrictEqual(
+      edits.map(({ lineNumber, character, linkText, newText }) => ({
+        lineNumber,
+        character,
+        linkText,
+        newText,
+      })),
+      [
+        { lineNumber: 0, character: 4, linkText: "[[Plan]]", newText: "[[Roadmap]]" },
+        {
+          lineNumber: 0,
+          character: 17,
+          linkText: "[[2025-01-15_Plan|the plan]]",
+          newText: "[[2025-01-15_Roadmap|the plan]]",
+        },
+        {
+          lineNumber: 1,
+          character: 2,
+          linkText: "[[projects/2025-01-15_Plan]]",
+          newText: "[[projects/2025-01-15_Roadmap]]",
+        },
+      ],
+    );
+  });
+
+  test("keeps heading and block anchors", async () => {
+    fs.writeFileSync(path.join(tmpDir, "Anchors.md"), "[[Plan#Goals|goals]] [[Plan^abc]]", "utf8");
+    const edits = await collectWikiLinkRenameEdits(
+      path.join(tmpDir, "projects", "2025-01-15_Plan.md"),
+      path.join(tmpDir, "projects", "2025-01-15_Roadmap.md"),
+      tmpDir,
+    );
+
+    assert.deepStrictEqual(
+      edits.filter((edit) => edit.filePath.endsWith("Anchors.md")).map((edit) => edit.newText),
+      ["[[Roadmap#Goals|goals]]", "[[Roadmap^abc]]"],
+    );
+  });
+
+  test("resolves links as before the rename once the file has moved", async () => {
+    const oldPath = path.join(tmpDir, "projects", "2025-01-15_Plan.md");
+    const newPath = path.join(tmpDir, "2025-01-15_Plan.md");
+    fs.renameSync(oldPath, newPath);
+
+    const edits = await collectWikiLinkRenameEdits(oldPath, newPath, tmpDir);
+    assert.deepStrictEqual(
+      edits.map((edit) => edit.newText),
+      ["[[2025-01-15_Plan]]"],
+    );
+  });
+
+  test("expands a moved folder into its notes", async () => {
+    const oldDir = path.join(tmpDir, "projects");
+    const newDir = path.join(tmpDir, "archive", "projects");
+    fs.mkdirSync(path.dirname(newDir));
+    fs.renameSync(oldDir, newDir);
+
+    const renames = await expandRenamedNotes(
+      [{ oldUri: { fsPath: oldDir }, newUri: { fsPath: newDir } }] as unknown as Parameters<
+        typeof expandRenamedNotes
+      >[0],
+      tmpDir,
+    );
+    assert.deepStrictEqual(renames, [
+      {
+        oldPath: path.join(oldDir, "2025-01-15_Plan.md"),
+        newPath: path.join(newDir, "2025-01-15_Plan.md"),
+      },
+    ]);
+
+    const [{ oldPath, newPath }] = renames;
+    const edits = await collectWikiLinkRenameEdits(oldPath, newPath, tmpDir);
+    assert.deepStrictEqual(
+      edits.map((edit) => edit.newText),
+      ["[[archive/projects/2025-01-15_Plan]]"],
+    );
+
+    const outside = path.join(os.tmpdir(), "projects");
+    assert.deepStrictEqual(
+      await expandRenamedNotes(
+        [
+          { oldUri: { fsPath: outside }, newUri: { fsPath: `${outside}-renamed` } },
+        ] as unknown as Parameters<typeof expandRenamedNotes>[0],
+        tmpDir,
+      ),
+      [],
+    );
+  });
+});
+
+suite("WikiLinks - collectWikiLinkProblems", () => {
+  let tmpDir: string;
+
+  setup(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "wiki-problems-"));
+    fs.mkdirSync(path.join(tmpDir, "work"));
+    fs.mkdirSync(path.join(tmpDir, "home"));
+    fs.writeFileSync(path.join(tmpDir, "work", "2026-01-05_Plan.md"), "# Plan", "utf8");
+    fs.writeFileSync(path.join(tmpDir, "home", "2026-02-01_Plan.md"), "# Plan", "utf8");
+    fs.writeFileSync(path.join(tmpDir, "2026-03-01_10-00_Meeting_Notes.md"), "# Meeting", "utf8");
+  });
+
+  teardown(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("flags unresolved and ambiguous links only", async () => {
+    const problems = await collectWikiLinkProblems(
+      "[[Plan|my plan]] and [[Missing]]\n[[work/Plan]] [[Meeting Notes]] [[home/Missing]]",
+      tmpDir,
+    );
+
+    assert.deepStrictEqual(
+      problems.map(({ kind, target, lineNumber, character, candidates }) => ({
+        kind,
+        target,
+        lineNumber,
+        character,
+        candidates: candidates.map((file) => path.relative(tmpDir, file)),
+      })),
+      [
+        {
+          kind: "ambiguous",
+          target: "Plan",
+          lineNumber: 0,
+          character: 0,
+          candidates: [
+            path.join("home", "2026-02-01_Plan.md"),
+            path.join("work", "2026-01-05_Plan.md"),
+          ],
+        },
+        { kind: "unresolved", target: "Missing", lineNumber: 0, character: 21, candidates: [] },
+        {
+          kind: "unresolved",
+          target: "home/Missing",
+          lineNumber: 1,
+          character: 32,
+          candidates: [],
+        },
+      ],
+    );
+  });
+
+  test("resolves folder titles and titles with converted spaces", async () => {
+    assert.strictEqual(
+      await resolveWikiLinkPath("work/Plan", tmpDir),
+      path.join(tmpDir, "work", "2026-01-05_Plan.md"),
+    );
+    assert.strictEqual(
+      await resolveWikiLinkPath("Meeting Notes", tmpDir),
+      path.join(tmpDir, "2026-03-01_10-00_Meeting_Notes.md"),
+    );
+  });
+});
+
+suite("WikiLinks - unlinked mentions", () => {
+  let tmpDir: string;
+  let targetFile: string;
+
+  setup(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "wiki-mentions-"));
+    targetFile = path.join(tmpDir, "2026-04-01_Project_Alpha.md");
+    fs.writeFileSync(targetFile, "---\naliases: [PA]\n---\n# Project Alpha\n", "utf8");
+    fs.writeFileSync(
+      path.join(tmpDir, "Source.md"),
+      [
+        "---",
+        "title: project alpha",
+        "---",
+        "Kickoff for project alpha and PA today.",
+        "Already linked: [[Project Alpha]], not Project Alphabet or PAX.",
+        "```",
+        "Project Alpha in code",
+        "```",
+        "プロジェクトProject Alphaの件",
+      ].join("\n"),
+      "utf8",
+    );
+  });
+
+  teardown(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("finds plain-text mentions of the title and aliases", async () => {
+    const mentions = await collectUnlinkedMentions(targetFile, tmpDir);
+
+    assert.deepStrictEqual(
+      mentions
+        .get(path.join(tmpDir, "Source.md"))
+        ?.map(({ lineNumber, character, text }) => ({ lineNumber, character, text })),
+      [
+        { lineNumber: 3, character: 12, text: "project alpha" },
+        { lineNumber: 3, character: 30, text: "PA" },
+        { lineNumber: 8, character: 6, text: "Project Alpha" },
+      ],
+    );
+    assert.ok(!mentions.has(targetFile));
+  });
+
+  test("links a mention as written when it resolves, else with an alias", async () => {
+    assert.strictEqual(
+      await getUnlinkedMentionLink("project alpha", targetFile, tmpDir),
+      "[[project alpha]]",
+    );
+    assert.strictEqual(
+      await getUnlinkedMentionLink("PA", targetFile, tmpDir),
+      "[[Project_Alpha|PA]]",
+    );
+  });
+});
@@ -1,7 +1,7 @@
 // AUTO-GENERATED by scripts/embed-webview.mjs — do not edit by hand.
 // Run `bun run embed:webview` to regenerate.
 
-export const dashboardScript = "    const vscode = acquireVsCodeApi();\n    let dashboardData = __DASHBOARD_DATA__;\n    currentLocale = dashboardData.locale || 'en';\n    const savedState = vscode.getState() || {};\n    const pendingCandidateAdds = [];\n\n    // Populate model selector with available models\n    function populateModelSelector() {\n      const modelSelect = document.getElementById(\"ai-model-select\");\n      if (modelSelect && dashboardData.availableModels && dashboardData.availableModels.length > 0) {\n        // Keep the first \"Auto select\" option\n        const autoOption = modelSelect.querySelector('option[value=\"\"]');\n        modelSelect.innerHTML = \"\";\n        if (autoOption) {\n          modelSelect.appendChild(autoOption);\n        } else {\n          const defaultOption = document.createElement(\"option\");\n          defaultOption.value = \"\";\n          defaultOption.textContent = UI('autoSelect');\n          modelSelect.appendChild(defaultOption);\n        }\n\n        dashboardData.availableModels.forEach(function(model) {\n          const option = document.createElement(\"option\");\n          option.value = model.id;\n          option.textContent = model.name;\n          modelSelect.appendChild(option);\n        });\n\n        // Restore selected model if any\n        if (savedState.selectedModel) {\n          modelSelect.value = savedState.selectedModel;\n        }\n      }\n    }\n\n    const browserDueTokenPattern = new RegExp(__DUE_TOKEN_PATTERN_SOURCE__, \"i\");\n\n    function sanitizeBrowserTaskText(text) {\n      return String(text || \"\")\n        .replaceAll(String.fromCharCode(13) + String.fromCharCode(10), String.fromCharCode(10))\n        .split(String.fromCharCode(10))\n        .map(function (line) {\n          return line.trim();\n        })\n        .filter(Boolean)\n        .join(\" / \")\n        .split(/\\s+/)\n        .filter(Boolean)\n        .join(\" \")\n        .trim();\n    }\n\n    function normalizedCandidateIdentity(text) {\n      return sanitizeBrowserTaskText(text)\n        .split(\" \")\n        .filter(function (part) {\n          return !browserDueTokenPattern.test(part);\n        })\n        .join(\" \")\n        .trim()\n        .normalize(\"NFKC\")\n        .toLowerCase();\n    }\n\n    function normalizeStoredCandidateTask(task) {\n      if (!task || typeof task !== \"object\") {\n        return null;\n      }\n\n      const text = sanitizeBrowserTaskText(typeof task.text === \"string\" ? task.text : \"\");\n      if (!text) {\n        return null;\n      }\n\n      return {\n        kind: \"candidate\",\n        text: text,\n        dueDate:\n          typeof task.dueDate === \"string\" && task.dueDate.length === 10 && task.dueDate[4] === \"-\" && task.dueDate[7] === \"-\"\n            ? task.dueDate\n            : null,\n        category: typeof task.category === \"string\" && task.category.trim().length > 0 ? task.category : \"other\",\n        priority: typeof task.priority === \"string\" && task.priority.trim().length > 0 ? task.priority : \"medium\",\n        timeEstimateMin:\n          typeof task.timeEstimateMin === \"number\" && Number.isFinite(task.timeEstimateMin)\n            ? task.timeEstimateMin\n            : 0,\n        source: task.source === \"notes\" ? \"notes\" : \"moments\",\n        sourceLabel:\n          typeof task.sourceLabel === \"string\" && task.sourceLabel.trim().length > 0\n            ? task.sourceLabel\n            : task.source === \"notes\"\n              ? \"Notes\"\n              : \"Moments\",\n        existsAlready: Boolean(task.existsAlready),\n      };\n    }\n\n    function normalizeStoredCandidateTaskForSource(task, fallbackSource) {\n      if (!task || typeof task !== \"object\") {\n        return null;\n      }\n\n      const normalizedTask = normalizeStoredCandidateTask(task);\n      if (!normalizedTask) {\n        return null;\n      }\n\n      const legacySourceLabel =\n        typeof task.sourceLabel === \"string\" && task.sourceLabel.trim().length > 0\n          ? task.sourceLabel\n          : typeof task.sourceNote === \"string\" && task.sourceNote.trim().length > 0\n            ? task.sourceNote\n            : fallbackSource === \"notes\"\n              ? \"Notes\"\n              : \"Moments\";\n\n      return {\n        ...normalizedTask,\n        source: fallbackSource,\n        sourceLabel: legacySourceLabel,\n      };\n    }\n\n    function migrateLegacyCandidateState(savedState) {\n      if (Array.isArray(savedState.candidateTasks)) {\n        const candidateTasks = savedState.candidateTasks\n          .map(function (task) {\n            const normalizedTask = normalizeStoredCandidateTask(task);\n            if (!normalizedTask) {\n              return null;\n            }\n\n            return {\n              ...normalizedTask,\n              order: typeof task.order === \"number\" ? task.order : undefined,\n              added: Boolean(task.added),\n              extractRunAt: typeof task.extractRunAt === \"string\" ? task.extractRunAt : undefined,\n              extractionIndex:\n                typeof task.extractionIndex === \"number\"\n                  ? task.extractionIndex\n                  : typeof task.order === \"number\"\n                    ? task.order\n                    : 0,\n            };\n          })\n          .filter(Boolean);\n        const maxOrder = candidateTasks.reduce(function (highest, task) {\n          return typeof task.order === \"number\" && task.order > highest ? task.order : highest;\n        }, -1);\n        return {\n          candidateTasks: candidateTasks,\n          candidateOrderSeed:\n            typeof savedState.candidateOrderSeed === \"number\"\n              ? savedState.candidateOrderSeed\n              : maxOrder + 1,\n          addedCandidateKeys: Array.isArray(savedState.addedCandidateKeys)\n            ? savedState.addedCandidateKeys.filter(function (key) {\n                return typeof key === \"string\" && key.length > 0;\n              })\n            : [],\n        };\n      }\n\n      let nextOrder = 0;\n      const fromMoments = (Array.isArray(savedState.extractedTasks) ? savedState.extractedTasks : []).map(\n        function (task) {\n          const normalizedTask = normalizeStoredCandidateTaskForSource(task, \"moments\");\n          if (!normalizedTask) {\n            return null;\n          }\n\n          return {\n            ...normalizedTask,\n            order: nextOrder++,\n            added: Array.isArray(savedState.addedExtractedKeys)\n              ? savedState.addedExtractedKeys.includes(normalizedCandidateIdentity(normalizedTask.text))\n              : false,\n            extractionIndex: nextOrder - 1,\n          };\n        },\n      ).filter(Boolean);\n      const fromNotes = (Array.isArray(savedState.notesExtractedTasks) ? savedState.notesExtractedTasks : []).map(\n        function (task) {\n          const normalizedTask = normalizeStoredCandidateTaskForSource(task, \"notes\");\n          if (!normalizedTask) {\n            return null;\n          }\n\n          return {\n            ...normalizedTask,\n            order: nextOrder++,\n            added: Array.isArray(savedState.notesAddedExtractedKeys)\n              ? savedState.notesAddedExtractedKeys.includes(normalizedCandidateIdentity(normalizedTask.text))\n              : false,\n            extractionIndex: nextOrder - 1,\n          };\n        },\n      ).filter(Boolean);\n\n      return {\n        candidateTasks: fromMoments.concat(fromNotes),\n        candidateOrderSeed: nextOrder,\n        addedCandidateKeys: (Array.isArray(savedState.addedExtractedKeys) ? savedState.addedExtractedKeys : []).concat(\n          Array.isArray(savedState.notesAddedExtractedKeys) ? savedState.notesAddedExtractedKeys : [],\n        ),\n      };\n    }\n\n    const migratedCandidates = migrateLegacyCandidateState(savedState);\n\n    const state = {\n      filter: savedState.filter === \"focus\" ? \"attention\" : (savedState.filter || \"all\"),\n      search: savedState.search || \"\",\n      editingId: savedState.editingId || null,\n      candidateTasks: migratedCandidates.candidateTasks,\n      candidateOrderSeed: migratedCandidates.candidateOrderSeed,\n      addedCandidateKeys: Array.isArray(savedState.addedCandidateKeys)\n        ? savedState.addedCandidateKeys\n        : migratedCandidates.addedCandidateKeys,\n      aiStatus: savedState.aiStatus || \"\",\n      aiStatusType: savedState.aiStatusType || \"idle\",\n      notesFromDate: savedState.notesFromDate || getDefaultDate(7),\n      notesToDate: savedState.notesToDate || dashboardData.today,\n      notesAiStatus: savedState.notesAiStatus || \"\",\n      notesAiStatusType: savedState.notesAiStatusType || \"idle\",\n      candidateBlockShown: savedState.candidateBlockShown || false,\n      candidateBlockError: savedState.candidateBlockError || \"\",\n      selectedModel: savedState.selectedModel || \"\",\n      advancedPanelOpen: savedState.advancedPanelOpen || false,\n    };\n\n    function pad2(n) {\n      return String(n).padStart(2, \"0\");\n    }\n\n    function localDateString(d) {\n      return d.getFullYear() + \"-\" + pad2(d.getMonth() + 1) + \"-\" + pad2(d.getDate());\n    }\n\n    function getDefaultDate(daysAgo) {\n      const d = new Date();\n      d.setDate(d.getDate() - daysAgo);\n      return localDateString(d);\n    }\n\n    const simplifiedSectionOrder = [\"today\", \"planned\", \"unsorted\", \"done\"];\n    const simplifiedSectionTitles = {\n      today: UI('sectionToday'),\n      planned: UI('sectionPlanned'),\n      unsorted: UI('sectionUnsorted'),\n      done: UI('sectionDone'),\n    };\n    const simplifiedSectionDescriptions = {\n      today: UI('sectionTodayDesc'),\n      planned: UI('sectionPlannedDesc'),\n      unsorted: UI('sectionUnsortedDesc'),\n      done: UI('sectionDoneDesc'),\n    };\n\n    const filterDefinitions = [\n      { id: \"all\", label: UI('filterAll'), count: dashboardData.tasks.length },\n      { id: \"today\", label: UI('filterToday'), count: dashboardData.sectionCounts.overdue + dashboardData.sectionCounts.today },\n      { id: \"planned\", label: UI('filterPlanned'), count: dashboardData.sectionCounts.upcoming + dashboardData.sectionCounts.scheduled },\n      { id: \"done\", label: UI('filterDone'), count: dashboardData.sectionCounts.done },\n    ];\n\n    const taskSearchInput = document.getElementById(\"task-search\");\n    const filterRow = document.getElementById(\"filter-row\");\n    const taskList = document.getElementById(\"dashboard-main-list\");\n    const newTaskText = document.getElementById(\"new-task-text\");\n    const aiStatus = document.getElementById(\"ai-status\");\n    const notesFromDateInput = document.getElementById(\"notes-from-date\");\n    const notesToDateInput = document.getElementById(\"notes-to-date\");\n    const notesStatus = document.getElementById(\"notes-extract-status\");\n\n    if (!taskSearchInput || !filterRow || !taskList || !newTaskText || !aiStatus || !notesFromDateInput || !notesToDateInput || !notesStatus) {\n      throw new Error(\"Task Dashboard failed to initialize required webview controls.\");\n    }\n\n    function persistState() {\n      vscode.setState({\n        filter: state.filter,\n        search: state.search,\n\n        editingId: state.editingId,\n        candidateTasks: state.candidateTasks,\n        candidateOrderSeed: state.candidateOrderSeed,\n        addedCandidateKeys: state.addedCandidateKeys,\n        aiStatus: state.aiStatus,\n        aiStatusType: state.aiStatusType,\n        notesFromDate: state.notesFromDate,\n        notesToDate: state.notesToDate,\n        notesAiStatus: state.notesAiStatus,\n        notesAiStatusType: state.notesAiStatusType,\n        candidateBlockShown: state.candidateBlockShown,\n        candidateBlockError: state.candidateBlockError,\n        selectedModel: state.selectedModel,\n        advancedPanelOpen: state.advancedPanelOpen,\n      });\n    }\n\n    function esc(value) {\n      return String(value)\n        .replace(new RegExp(\"&\", \"g\"), \"&amp;\")\n        .replace(new RegExp(\"<\", \"g\"), \"&lt;\")\n        .replace(new RegExp(\">\", \"g\"), \"&gt;\")\n        .replace(new RegExp('\"', \"g\"), \"&quot;\");\n    }\n\n    function formatDateLabel(date) {\n      if (!date) {\n        return UI('noDate');\n      }\n\n      const parts = date.split(\"-\");\n      if (parts.length !== 3) {\n        return date;\n      }\n\n      return Number.parseInt(parts[1], 10) + \"/\" + Number.parseInt(parts[2], 10);\n    }\n\n    function canAddDashboardCandidate(task, existingTaskKeys) {\n      if (existingTaskKeys && existingTaskKeys.has(normalizedCandidateIdentity(task.text))) {\n        return false;\n      }\n\n      return !task.existsAlready;\n    }\n\n    function createPendingCandidateRequestId(task) {\n      return \"candidate-\" + String(task.order) + \"-\" + Date.now();\n    }\n\n    function removePendingCandidateAdd(requestId) {\n      const index = pendingCandidateAdds.findIndex(function (pending) {\n        return pending.requestId === requestId;\n      });\n      if (index < 0) {\n        return null;\n      }\n\n      const pending = pendingCandidateAdds[index];\n      pendingCandidateAdds.splice(index, 1);\n      return pending;\n    }\n\n    function getExistingTaskKeys() {\n      const persistedTaskKeys = (dashboardData.tasks || [])\n        .map(function (task) {\n          return normalizedCandidateIdentity(task.text);\n        })\n        .filter(Boolean);\n      state.addedCandidateKeys = (state.addedCandidateKeys || []).filter(function (key) {\n        return !persistedTaskKeys.includes(key);\n      });\n      const locallyAddedKeys = (state.addedCandidateKeys || []).filter(Boolean);\n      return new Set(\n        persistedTaskKeys\n          .concat(locallyAddedKeys)\n          .filter(Boolean),\n      );\n    }\n\n    function matchesDashboardListItemFilter(item, filter) {\n      if (filter === \"all\") {\n        return true;\n      }\n\n      if (item.kind === \"candidate\") {\n        return false;\n      }\n\n      if (filter === \"today\") {\n        return item.section === \"overdue\" || item.section === \"today\";\n      }\n\n      if (filter === \"planned\") {\n        return item.section === \"upcoming\" || item.section === \"scheduled\";\n      }\n\n      if (filter === \"done\") {\n        return item.section === \"done\";\n      }\n\n      return item.section === filter;\n    }\n\n    function matchesDashboardListItemSearch(item, query) {\n      const normalizedQuery = String(query || \"\").trim().toLowerCase();\n      if (!normalizedQuery) {\n        return true;\n      }\n\n      const haystack = item.kind === \"candidate\"\n        ? [\n            item.text,\n            item.sourceLabel || \"\",\n            item.source || \"\",\n            item.category || \"\",\n            item.priority || \"\",\n            item.dueDate || \"\",\n            item.existsAlready ? \"already exists\" : \"\",\n            \"candidate\",\n          ]\n        : [item.text, item.relativePath || \"\", item.date || \"\", item.dueDate || \"\"].concat(item.tags || []);\n\n      return haystack.join(\" \").toLowerCase().includes(normalizedQuery);\n    }\n\n    function buildDashboardListViewModel(items, filter, search) {\n      function buildDashboardEmptyMessage(filter) {\n        switch (filter) {\n          case \"all\":\n            return UI('noTasksYet') + \"||\" + UI('noTasksYetBody');\n          case \"today\":\n            return UI('nothingScheduledToday');\n          case \"planned\":\n            return UI('noPlannedTasks');\n          case \"done\":\n            return UI('noCompletedTasks');\n          default:\n            return UI('noItemsInFilter');\n        }\n      }\n\n      const normalizedSearch = String(search || \"\").trim();\n      const filteredItems = items.filter(function (item) {\n        return matchesDashboardListItemFilter(item, filter);\n      });\n      const visibleItems = filteredItems.filter(function (item) {\n        return matchesDashboardListItemSearch(item, search);\n      });\n      if (filter === \"all\") {\n        if (normalizedSearch && visibleItems.length === 0) {\n          return { sections: [], emptyMessage: UI('noMatchingTasks') };\n        }\n\n        if (!normalizedSearch && filteredItems.length === 0) {\n          return { sections: [], emptyMessage: buildDashboardEmptyMessage(\"all\") };\n        }\n\n        const sections = [];\n\n        simplifiedSectionOrder.forEach(function (simplifiedSection) {\n          let internalSections;\n          if (simplifiedSection === \"today\") {\n            internalSections = [\"overdue\", \"today\"];\n          } else if (simplifiedSection === \"planned\") {\n            internalSections = [\"upcoming\", \"scheduled\"];\n          } else if (simplifiedSection === \"unsorted\") {\n            internalSections = [\"backlog\"];\n          } else {\n            internalSections = [\"done\"];\n          }\n\n          const taskItems = visibleItems.filter(function (item) {\n            return item.kind === \"task\" && internalSections.includes(item.section);\n          });\n          if (!normalizedSearch || taskItems.length > 0) {\n            sections.push({\n              key: simplifiedSection,\n              title: simplifiedSectionTitles[simplifiedSection],\n              items: taskItems,\n            });\n          }\n        });\n\n        return { sections: sections, emptyMessage: null };\n      }\n\n      if (filteredItems.length === 0) {\n        return {\n          sections: [],\n          emptyMessage: buildDashboardEmptyMessage(filter),\n        };\n      }\n\n      if (visibleItems.length === 0) {\n        return {\n          sections: [],\n            emptyMessage: normalizedSearch ? UI('noMatchingTasks') : buildDashboardEmptyMessage(filter),\n        };\n      }\n\n      return {\n        sections: [],\n        flatItems: visibleItems,\n        emptyMessage: null,\n      };\n    }\n\n    function getVisibleCandidates() {\n      const existingTaskKeys = getExistingTaskKeys();\n      return (state.candidateTasks || [])\n        .map(function (task) {\n          return {\n            ...task,\n            existsAlready: existingTaskKeys.has(normalizedCandidateIdentity(task.text)) || Boolean(task.existsAlready),\n          };\n        })\n        .filter(function (task) {\n          return !task.added;\n        })\n        .sort(function (a, b) {\n          const aRunAt = a.extractRunAt || \"\";\n          const bRunAt = b.extractRunAt || \"\";\n          if (aRunAt !== bRunAt) {\n            return bRunAt.localeCompare(aRunAt);\n          }\n          return (a.order || 0) - (b.order || 0);\n        });\n    }\n\n    function mergeCandidateBatch(source, tasks) {\n      const retained = (state.candidateTasks || []).filter(function (task) {\n        return task.source !== source;\n      });\n      const extractRunAt = new Date().toISOString();\n      const merged = (tasks || []).map(function (task) {\n        return {\n          kind: \"candidate\",\n          source: source,\n          sourceLabel: task.sourceLabel || (source === \"notes\" ? \"Notes\" : \"Moments\"),\n          existsAlready: Boolean(task.existsAlready),\n          order: state.candidateOrderSeed++,\n          added: false,\n          ...task,\n          extractRunAt: extractRunAt,\n        };\n      });\n      state.candidateTasks = retained.concat(merged);\n    }\n\n    function getListViewModel() {\n      const listItems = (dashboardData.tasks || []).filter(function (item) {\n        return item.kind === \"task\";\n      });\n      return buildDashboardListViewModel(listItems, state.filter, state.search);\n    }\n\n    function renderFilters() {\n      filterDefinitions[0].count = dashboardData.tasks.length + getVisibleCandidates().length;\n      filterDefinitions[1].count = dashboardData.sectionCounts.overdue + dashboardData.sectionCounts.today;\n      filterDefinitions[2].count = dashboardData.sectionCounts.upcoming + dashboardData.sectionCounts.scheduled;\n      filterDefinitions[3].count = dashboardData.sectionCounts.done;\n      filterRow.innerHTML = filterDefinitions\n        .map(function (filter) {\n          const activeClass = filter.id === state.filter ? \" is-active\" : \"\";\n          return '<button type=\"button\" class=\"filter-chip' + activeClass + '\" data-filter=\"' + esc(filter.id) + '\">' +\n            '<span>' + esc(filter.label) + '</span>' +\n            '<strong>' + filter.count + '</strong>' +\n          \"</button>\";\n        })\n        .join(\"\");\n    }\n\n    function renderTaskMeta(task) {\n      const badges = [];\n      if (task.date) {\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-date\">' + esc(formatDateLabel(task.date)) + \"</span>\");\n      }\n      if (task.dueDate) {\n        const dueClass = task.section === \"overdue\" ? \" is-danger\" : task.section === \"today\" ? \" is-warning\" : \" is-accent\";\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-due' + dueClass + '\">' + UI('due') + ' ' + esc(formatDateLabel(task.dueDate)) + \"</span>\");\n      }\n      if (task.category) {\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-category\">' + esc(task.category) + \"</span>\");\n      }\n      if (task.priority) {\n        const priorityClass = task.priority === \"high\" ? \" is-danger\" : task.priority === \"medium\" ? \" is-warning\" : \"\";\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-priority' + priorityClass + '\">' + esc(task.priority) + \"</span>\");\n      }\n      if (task.timeEstimateMin) {\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-estimate\">' + task.timeEstimateMin + \"m</span>\");\n      }\n      for (const tag of task.tags || []) {\n        badges.push('<span class=\"badge is-accent task-row-meta-item task-row-meta-tag\">' + esc(tag) + \"</span>\");\n      }\n      badges.push('<span class=\"badge task-row-meta-item task-row-meta-source task-row-meta-source-saved\">' + esc(task.relativePath) + \"</span>\");\n      return '<div class=\"task-row-meta task-row-meta-saved\">' + badges.join(\"\") + \"</div>\";\n    }\n\n    function renderCandidateMeta(task) {\n      const badges = [];\n      if (task.dueDate) {\n        badges.push('<span class=\"badge is-accent task-row-meta-item task-row-meta-candidate-due\">' + UI('due') + ' ' + esc(formatDateLabel(task.dueDate)) + \"</span>\");\n      }\n      if (task.category) {\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-category\">' + esc(task.category) + \"</span>\");\n      }\n      if (task.priority) {\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-priority\">' + esc(task.priority) + \"</span>\");\n      }\n      badges.push('<span class=\"badge task-row-meta-item task-row-meta-source task-row-meta-source-candidate\">' + esc(task.sourceLabel || \"Unknown\") + \"</span>\");\n      return '<div class=\"task-row-meta task-row-meta-candidate\">' + badges.join(\"\") + \"</div>\";\n    }\n\n    function renderTaskActionIcon(action) {\n      const icons = {\n        edit: '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><path d=\"M17 3a2.828 2.828 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5L17 3z\"></path></svg>',\n        open: '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><path d=\"M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6\"></path><polyline points=\"15 3 21 3 21 9\"></polyline><line x1=\"10\" y1=\"14\" x2=\"21\" y2=\"3\"></line></svg>',\n        delete: '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><polyline points=\"3 6 5 6 21 6\"></polyline><path d=\"M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2\"></path><line x1=\"10\" y1=\"11\" x2=\"10\" y2=\"17\"></line><line x1=\"14\" y1=\"11\" x2=\"14\" y2=\"17\"></line></svg>',\n      };\n      return icons[action] || \"\";\n    }\n\n    function renderTaskItem(task) {\n      const itemClasses = [\n        \"task-row\",\n        \"task-row-saved\",\n        task.done ? \"is-done\" : \"\",\n        task.section === \"overdue\" ? \"is-overdue\" : \"\",\n        task.section === \"today\" ? \"is-today\" : \"\",\n      ]\n        .filter(Boolean)\n        .join(\" \");\n\n      if (state.editingId === task.id) {\n        return '<article class=\"' + itemClasses + '\" data-task-id=\"' + esc(task.id) + '\" tabindex=\"-1\">' +\n          '<label class=\"task-row-toggle-entry\"><input class=\"task-row-toggle\" type=\"checkbox\" data-action=\"toggle\" data-task-id=\"' + esc(task.id) + '\"' + (task.done ? \" checked\" : \"\") + \"></label>\" +\n          '<div class=\"task-row-body\">' +\n            '<div class=\"task-edit\">' +\n              '<label class=\"field\">' +\n                \"<span>\" + UI('taskField') + \"</span>\" +\n                '<textarea data-role=\"edit-text\">' + esc(task.text) + \"</textarea>\" +\n              \"</label>\" +\n              '<div class=\"field-grid\">' +\n                '<label class=\"field-compact\">' +\n                  \"<span>\" + UI('dueField') + \"</span>\" +\n                  '<input type=\"date\" data-role=\"edit-due\" value=\"' + esc(task.dueDate || \"\") + '\">' +\n                \"</label>\" +\n                '<div class=\"field-compact\">' +\n                  \"<span>\" + UI('sourceField') + \"</span>\" +\n                  '<input type=\"text\" value=\"' + esc(task.relativePath) + '\" disabled>' +\n                \"</div>\" +\n              \"</div>\" +\n              '<div class=\"inline-actions\">' +\n                '<button type=\"button\" class=\"btn btn-primary\" data-action=\"save-edit\" data-task-id=\"' + esc(task.id) + '\">' + UI('save') + '</button>' +\n                '<button type=\"button\" class=\"btn\" data-action=\"cancel-edit\">' + UI('cancelBtn') + '</button>' +\n                '<button type=\"button\" class=\"btn\" data-action=\"open\" data-file=\"' + esc(task.filePath) + '\" data-line=\"' + task.lineIndex + '\">' + UI('openFile') + '</button>' +\n              \"</div>\" +\n            \"</div>\" +\n          \"</div>\" +\n        \"</article>\";\n      }\n\n      return '<article class=\"' + itemClasses + '\" data-task-id=\"' + esc(task.id) + '\" tabindex=\"-1\">' +\n        '<label class=\"task-row-toggle-entry\"><input class=\"task-row-toggle\" type=\"checkbox\" data-action=\"toggle\" data-task-id=\"' + esc(task.id) + '\"' + (task.done ? \" checked\" : \"\") + \"></label>\" +\n        '<div class=\"task-row-body\">' +\n          '<div class=\"task-row-main\">' +\n            '<div class=\"task-row-title-entry\"><button type=\"button\" class=\"task-row-title\" data-action=\"open\" data-file=\"' + esc(task.filePath) + '\" data-line=\"' + task.lineIndex + '\">' + esc(task.text) + \"</button></div>\" +\n            '<div class=\"task-row-secondary-actions\">' +\n              '<button type=\"button\" class=\"task-row-action-icon\" data-action=\"edit\" data-task-id=\"' + esc(task.id) + '\" title=\"' + UI('edit') + '\" aria-label=\"' + UI('edit') + '\">' + renderTaskActionIcon(\"edit\") + '</button>' +\n              '<button type=\"button\" class=\"task-row-action-icon\" data-action=\"open\" data-file=\"' + esc(task.filePath) + '\" data-line=\"' + task.lineIndex + '\" title=\"' + UI('open') + '\" aria-label=\"' + UI('open') + '\">' + renderTaskActionIcon(\"open\") + '</button>' +\n              '<button type=\"button\" class=\"task-row-action-icon\" data-action=\"delete\" data-task-id=\"' + esc(task.id) + '\" title=\"' + UI('delete') + '\" aria-label=\"' + UI('delete') + '\">' + renderTaskActionIcon(\"delete\") + '</button>' +\n            \"</div>\" +\n            '<div class=\"task-row-more-menu\">' +\n              '<button type=\"button\" class=\"task-row-more-btn\" data-action=\"more\" data-task-id=\"' + esc(task.id) + '\">' + UI('more') + '</button>' +\n              '<div class=\"task-row-more-dropdown\" data-more-dropdown=\"' + esc(task.id) + '\">' +\n                '<button type=\"button\" data-action=\"edit\" data-task-id=\"' + esc(task.id) + '\">' + UI('edit') + '</button>' +\n                '<button type=\"button\" data-action=\"open\" data-file=\"' + esc(task.filePath) + '\" data-line=\"' + task.lineIndex + '\">' + UI('open') + '</button>' +\n                '<button type=\"button\" class=\"is-danger\" data-action=\"delete\" data-task-id=\"' + esc(task.id) + '\">' + UI('delete') + '</button>' +\n              \"</div>\" +\n            \"</div>\" +\n          \"</div>\" +\n          renderTaskMeta(task) +\n        \"</div>\" +\n      \"</article>\";\n    }\n\n    function renderCandidateItem(task, index) {\n      const canAdd = canAddDashboardCandidate(task, getExistingTaskKeys());\n      const itemClasses = [\"task-row\", \"task-row-candidate\", task.existsAlready ? \"is-candidate-blocked\" : \"\"]\n        .filter(Boolean)\n        .join(\" \");\n      return '<article class=\"' + itemClasses + '\">' +\n        '<div class=\"task-row-leading\"><span class=\"badge task-row-label\">' + UI('aiBadge') + '</span></div>' +\n        '<div class=\"task-row-body\">' +\n          '<div class=\"task-row-main\">' +\n            '<div class=\"task-row-title-entry\"><div class=\"task-row-title\">' + esc(task.text) + '</div></div>' +\n            '<div class=\"task-row-candidate-actions\">' +\n              '<span class=\"badge task-row-label\">' + UI('candidate') + '</span>' +\n              '<button type=\"button\" class=\"text-btn\" data-action=\"dismiss-candidate\" data-index=\"' + index + '\">' + UI('dismiss') + '</button>' +\n              '<button type=\"button\" class=\"text-btn' + (canAdd ? '' : ' is-danger') + '\"' + (canAdd ? '' : ' disabled') + ' data-action=\"add-candidate\" data-index=\"' + index + '\">' + UI('addBtn') + '</button>' +\n              (canAdd ? '' : '<span class=\"badge is-danger\">' + UI('alreadyExists') + '</span>') +\n            '</div>' +\n          '</div>' +\n          renderCandidateMeta(task) +\n        '</div>' +\n      '</article>';\n    }\n\n    function renderCandidateBlock() {\n      const candidateBlock = document.getElementById(\"candidate-block\");\n      const candidateItems = document.getElementById(\"candidate-items\");\n      if (!candidateBlock || !candidateItems) {\n        return;\n      }\n\n      const visibleCandidates = getVisibleCandidates();\n      const hasCandidates = visibleCandidates.length > 0;\n      const shouldShow = state.candidateBlockShown || hasCandidates;\n\n      if (!shouldShow) {\n        candidateBlock.style.display = \"none\";\n        return;\n      }\n\n      candidateBlock.style.display = \"\";\n      if (!state.candidateBlockShown) {\n        state.candidateBlockShown = true;\n      }\n\n      let html = \"\";\n      if (state.candidateBlockError) {\n        html += '<div class=\"candidate-block-error\">' +\n          '<span class=\"candidate-block-error-text\">' + esc(state.candidateBlockError) + '</span>' +\n          '<button type=\"button\" class=\"candidate-block-error-dismiss\" data-action=\"dismiss-candidate-error\" aria-label=\"' + UI('dismissError') + '\">&times;</button>' +\n          '</div>';\n      }\n\n      if (!hasCandidates) {\n        html += '<div class=\"empty-state\">' +\n          '<strong class=\"empty-state-title\">' + UI('noCandidatesYet') + '</strong>' +\n          '<p class=\"empty-state-body\">' + UI('noCandidatesBody') + '</p>' +\n        '</div>';\n        candidateItems.innerHTML = html;\n        return;\n      }\n\n      html += visibleCandidates\n        .map(function (task, index) {\n          return renderCandidateItem(task, index);\n        })\n        .join(\"\");\n\n      candidateItems.innerHTML = html;\n    }\n\n    var candidateBlockEl = document.getElementById(\"candidate-block\");\n    if (candidateBlockEl) {\n      candidateBlockEl.addEventListener(\"click\", function (event) {\n        var actionEl = event.target.closest(\"[data-action]\");\n        if (!actionEl) {\n          return;\n        }\n        var action = actionEl.dataset.action;\n        if (action === \"dismiss-candidate-error\") {\n          state.candidateBlockError = \"\";\n          persistState();\n          rerender();\n        } else if (action === \"add-extracted\" || action === \"add-candidate\") {\n          handleAddExtractedAction(actionEl);\n        } else if (action === \"dismiss-extracted\" || action === \"dismiss-candidate\") {\n          handleDismissExtractedAction(actionEl);\n        }\n      });\n    }\n\n    function renderEmptyState(message) {\n      const parts = String(message || \"\").split(\"||\");\n      const title = parts[0] || \"\";\n      const body = parts[1] || \"\";\n      return '<div class=\"empty-state\">' +\n        '<strong class=\"empty-state-title\">' + esc(title) + '</strong>' +\n        (body ? '<p class=\"empty-state-body\">' + esc(body) + '</p>' : '') +\n      '</div>';\n    }\n\n    function renderTasks() {\n      const viewModel = getListViewModel();\n      if (viewModel.emptyMessage) {\n        taskList.innerHTML = renderEmptyState(viewModel.emptyMessage);\n        return;\n      }\n\n      const visibleCandidates = getVisibleCandidates();\n      if (viewModel.flatItems && viewModel.flatItems.length > 0) {\n        taskList.innerHTML = viewModel.flatItems\n          .map(function (item) {\n            if (item.kind === \"candidate\") {\n              const index = visibleCandidates.findIndex(function (candidate) {\n                return candidate.order === item.order;\n              });\n              return renderCandidateItem(item, index);\n            }\n            return renderTaskItem(item);\n          })\n          .join(\"\");\n        return;\n      }\n\n      const html = viewModel.sections\n        .map(function (section) {\n          const subtitle = state.filter === \"all\"\n            ? simplifiedSectionDescriptions[section.key]\n            : UI('filteredItems');\n          const items = section.items\n            .map(function (item) {\n              if (item.kind === \"candidate\") {\n                const index = visibleCandidates.findIndex(function (candidate) {\n                  return candidate.order === item.order;\n                });\n                return renderCandidateItem(item, index);\n              }\n              return renderTaskItem(item);\n            })\n            .join(\"\");\n          return '<section class=\"task-section\">' +\n            '<div class=\"task-section-header\">' +\n              \"<h3>\" + esc(section.title) + \"</h3>\" +\n              \"<span>\" + section.items.length + \" · \" + esc(subtitle) + \"</span>\" +\n            \"</div>\" +\n            '<div class=\"task-items\">' + items + \"</div>\" +\n          \"</section>\";\n        })\n        .join(\"\");\n\n      taskList.innerHTML = html;\n    }\n\n    function setAiStatus(type, message) {\n      state.aiStatusType = type;\n      state.aiStatus = message || \"\";\n      persistState();\n\n      aiStatus.className = \"status-line\" + (type === \"error\" ? \" is-error\" : \"\");\n      aiStatus.textContent = state.aiStatus;\n    }\n\n    function setNotesAiStatus(type, message) {\n      state.notesAiStatusType = type;\n      state.notesAiStatus = message || \"\";\n      persistState();\n\n      notesStatus.className = \"status-line\" + (type === \"error\" ? \" is-error\" : \"\");\n      notesStatus.textContent = state.notesAiStatus;\n    }\n\n    function syncStaticInputs() {\n      taskSearchInput.value = state.search;\n      notesFromDateInput.value = state.notesFromDate;\n      notesToDateInput.value = state.notesToDate;\n      setAiStatus(state.aiStatusType, state.aiStatus);\n      setNotesAiStatus(state.notesAiStatusType, state.notesAiStatus);\n\n      // Sync advanced panel\n      const advancedPanel = document.getElementById(\"extract-advanced-panel\");\n      if (advancedPanel) {\n        advancedPanel.style.display = state.advancedPanelOpen ? \"block\" : \"none\";\n      }\n\n      // Sync model selector\n      const modelSelect = document.getElementById(\"ai-model-select\");\n      if (modelSelect) {\n        modelSelect.value = state.selectedModel;\n      }\n    }\n\n    function applyStaticStrings() {\n      newTaskText.placeholder = UI('addTaskPlaceholder');\n      taskSearchInput.placeholder = UI('searchTasksPlaceholder');\n      const refreshBtn = document.getElementById(\"btn-refresh\");\n      if (refreshBtn) refreshBtn.textContent = UI('refresh');\n      const createBtn = document.getElementById(\"btn-create-task\");\n      if (createBtn) createBtn.textContent = UI('addBtn');\n      const extractMomentsBtn = document.getElementById(\"btn-ai-extract\");\n      if (extractMomentsBtn) {\n        extractMomentsBtn.title = UI('fromMoments');\n        extractMomentsBtn.innerHTML = '<span class=\"extract-icon\">✦</span> ' + UI('fromMoments');\n      }\n      const extractNotesBtn = document.getElementById(\"btn-extract-notes\");\n      if (extractNotesBtn) {\n        extractNotesBtn.title = UI('fromNotes');\n        extractNotesBtn.innerHTML = '<span class=\"extract-icon\">📝</span> ' + UI('fromNotes');\n      }\n      const advancedBtn = document.getElementById(\"btn-extract-advanced\");\n      if (advancedBtn) advancedBtn.title = UI('advanced');\n      const modelLabel = document.querySelector(\".extract-model-select label\");\n      if (modelLabel) modelLabel.textContent = UI('aiModelLabel');\n      const periodLabel = document.querySelector(\".extract-date-range label\");\n      if (periodLabel) periodLabel.textContent = UI('periodLabel');\n      const searchShell = document.querySelector(\".search-shell\");\n      if (searchShell) searchShell.setAttribute(\"aria-label\", UI('searchTasksPlaceholder'));\n      const kpiLabels = {\n        \"dashboard-kpi-open\": UI('kpiOpen'),\n        \"dashboard-kpi-today\": UI('kpiToday'),\n        \"dashboard-kpi-done\": UI('kpiDone'),\n      };\n      Object.keys(kpiLabels).forEach(function (id) {\n        const labelEl = document.querySelector(\"#\" + id + \" .dashboard-kpi-label\");\n        if (labelEl) labelEl.textContent = kpiLabels[id];\n      });\n    }\n\n    function rerender() {\n      persistState();\n      renderFilters();\n      renderTasks();\n      renderCandidateBlock();\n    }\n\n    document.getElementById(\"btn-refresh\").addEventListener(\"click\", function () {\n      vscode.postMessage({ command: \"refresh\" });\n    });\n\n    document.getElementById(\"btn-create-task\").addEventListener(\"click\", function () {\n      const text = newTaskText.value.trim();\n      if (!text) {\n        setAiStatus(\"error\", UI('taskTextRequired'));\n        return;\n      }\n\n      newTaskText.value = \"\";\n      state.aiStatus = \"\";\n      state.aiStatusType = \"idle\";\n      if (state.filter !== \"all\") {\n        state.filter = \"all\";\n      }\n      persistState();\n      vscode.postMessage({\n        command: \"createTask\",\n        text,\n        targetDate: null,\n        dueDate: null,\n      });\n    });\n\n    newTaskText.addEventListener(\"keydown\", function (event) {\n      if (event.key === \"Enter\" && !event.shiftKey) {\n        event.preventDefault();\n        document.getElementById(\"btn-create-task\").click();\n      }\n    });\n\n    // Advanced panel toggle\n    const advancedToggleBtn = document.getElementById(\"btn-extract-advanced\");\n    const advancedPanel = document.getElementById(\"extract-advanced-panel\");\n    if (advancedToggleBtn && advancedPanel) {\n      advancedToggleBtn.addEventListener(\"click\", function () {\n        state.advancedPanelOpen = !state.advancedPanelOpen;\n        advancedPanel.style.display = state.advancedPanelOpen ? \"block\" : \"none\";\n        persistState();\n      });\n    }\n\n    // Model selection\n    const modelSelect = document.getElementById(\"ai-model-select\");\n    if (modelSelect) {\n      modelSelect.value = state.selectedModel;\n      modelSelect.addEventListener(\"change\", function (event) {\n        state.selectedModel = event.target.value;\n        persistState();\n      });\n    }\n\n    document.getElementById(\"btn-ai-extract\").addEventListener(\"click\", function () {\n      mergeCandidateBatch(\"moments\", []);\n      setAiStatus(\"processing\", UI('aiMomentsProcessing', { from: state.notesFromDate, to: state.notesToDate }));\n      rerender();\n      vscode.postMessage({\n        command: \"aiExtract\",\n        fromDate: state.notesFromDate,\n        toDate: state.notesToDate,\n        modelId: state.selectedModel,\n      });\n    });\n\n    document.getElementById(\"btn-extract-notes\").addEventListener(\"click\", function () {\n      mergeCandidateBatch(\"notes\", []);\n      setNotesAiStatus(\"processing\", UI('aiNotesProcessing', { from: state.notesFromDate, to: state.notesToDate }));\n      rerender();\n      vscode.postMessage({\n        command: \"extractFromNotes\",\n        fromDate: state.notesFromDate,\n        toDate: state.notesToDate,\n        modelId: state.selectedModel,\n      });\n    });\n\n    document.getElementById(\"notes-from-date\").addEventListener(\"input\", function (event) {\n      state.notesFromDate = event.target.value || dashboardData.today;\n      persistState();\n    });\n\n    document.getElementById(\"notes-to-date\").addEventListener(\"input\", function (event) {\n      state.notesToDate = event.target.value || dashboardData.today;\n      persistState();\n    });\n\n    taskSearchInput.addEventListener(\"input\", function (event) {\n      state.search = event.target.value;\n      rerender();\n    });\n\n\n\n    function handleAddExtractedAction(actionEl) {\n      const index = Number.parseInt(actionEl.dataset.index || \"-1\", 10);\n      const visibleCandidates = getVisibleCandidates();\n      if (Number.isNaN(index) || !visibleCandidates[index]) {\n        return;\n      }\n\n      const task = visibleCandidates[index];\n      if (!canAddDashboardCandidate(task, getExistingTaskKeys())) {\n        rerender();\n        return;\n      }\n\n      const requestId = createPendingCandidateRequestId(task);\n      pendingCandidateAdds.push({\n        requestId: requestId,\n        order: task.order,\n        key: normalizedCandidateIdentity(task.text),\n        source: task.source,\n      });\n\n      state.candidateTasks = (state.candidateTasks || []).map(function (candidate) {\n        return candidate.order === task.order ? { ...candidate, added: true } : candidate;\n      });\n      if (!state.addedCandidateKeys.includes(normalizedCandidateIdentity(task.text))) {\n        state.addedCandidateKeys = state.addedCandidateKeys.concat([normalizedCandidateIdentity(task.text)]);\n      }\n      persistState();\n\n      vscode.postMessage({\n        command: \"addExtractedTask\",\n        requestId: requestId,\n        text: task.text,\n        dueDate: task.dueDate || null,\n        targetDate: state.targetDate || null,\n      });\n      rerender();\n    }\n\n    function handleDismissExtractedAction(actionEl) {\n      const index = Number.parseInt(actionEl.dataset.index || \"-1\", 10);\n      const visibleCandidates = getVisibleCandidates();\n      if (Number.isNaN(index) || !visibleCandidates[index]) {\n        return;\n      }\n\n      const task = visibleCandidates[index];\n      state.candidateTasks = (state.candidateTasks || []).filter(function (candidate) {\n        return candidate.order !== task.order;\n      });\n      state.candidateBlockError = \"\";\n      persistState();\n      vscode.postMessage({\n        command: \"dismissExtractedTask\",\n        text: task.text,\n      });\n      rerender();\n    }\n\n    filterRow.addEventListener(\"click\", function (event) {\n      const button = event.target.closest(\"[data-filter]\");\n      if (!button) {\n        return;\n      }\n\n      state.filter = button.dataset.filter;\n      rerender();\n    });\n\n    taskList.addEventListener(\"click\", function (event) {\n      const actionEl = event.target.closest(\"[data-action]\");\n      if (!actionEl) {\n        return;\n      }\n\n      const action = actionEl.dataset.action;\n      if (action === \"edit\") {\n        state.editingId = actionEl.dataset.taskId || null;\n        rerender();\n        return;\n      }\n\n      if (action === \"cancel-edit\") {\n        state.editingId = null;\n        rerender();\n        return;\n      }\n\n      if (action === \"save-edit\") {\n        const taskEl = actionEl.closest(\"article[data-task-id]\");\n        if (!taskEl) {\n          return;\n        }\n\n        const textInput = taskEl.querySelector(\"[data-role='edit-text']\");\n        const dueInput = taskEl.querySelector(\"[data-role='edit-due']\");\n        const nextText = textInput ? textInput.value : \"\";\n        const nextDue = dueInput ? dueInput.value : \"\";\n        state.editingId = null;\n        persistState();\n        vscode.postMessage({\n          command: \"updateTask\",\n          taskId: actionEl.dataset.taskId,\n          text: nextText,\n          dueDate: nextDue || null,\n        });\n        return;\n      }\n\n      if (action === \"delete\") {\n        const taskId = actionEl.dataset.taskId;\n        if (!taskId) {\n          return;\n        }\n\n        vscode.postMessage({ command: \"deleteTask\", taskId });\n        return;\n      }\n\n      if (action === \"open\") {\n        vscode.postMessage({\n          command: \"openFile\",\n          filePath: actionEl.dataset.file || \"\",\n          lineIndex: Number.parseInt(actionEl.dataset.line || \"0\", 10),\n        });\n        return;\n      }\n\n      if (action === \"more\") {\n        const taskId = actionEl.dataset.taskId;\n        if (!taskId) {\n          return;\n        }\n        const dropdown = document.querySelector('[data-more-dropdown=\"' + taskId + '\"]');\n        if (!dropdown) {\n          return;\n        }\n        const isOpen = dropdown.classList.contains(\"is-open\");\n        document.querySelectorAll(\".task-row-more-dropdown.is-open\").forEach(function (d) {\n          d.classList.remove(\"is-open\");\n        });\n        if (!isOpen) {\n          dropdown.classList.add(\"is-open\");\n        }\n        return;\n      }\n\n      if (action === \"add-extracted\" || action === \"add-candidate\") {\n        handleAddExtractedAction(actionEl);\n        return;\n      }\n\n      if (action === \"dismiss-extracted\" || action === \"dismiss-candidate\") {\n        handleDismissExtractedAction(actionEl);\n        return;\n      }\n    });\n\n    taskList.addEventListener(\"change\", function (event) {\n      const checkbox = event.target.closest(\"[data-action='toggle']\");\n      if (!checkbox) {\n        return;\n      }\n\n      vscode.postMessage({\n        command: \"toggleTask\",\n        taskId: checkbox.dataset.taskId,\n        done: checkbox.checked,\n      });\n    });\n\n    document.addEventListener(\"click\", function (event) {\n      const moreBtn = event.target.closest(\"[data-action='more']\");\n      if (!moreBtn) {\n        const openDropdown = document.querySelector(\".task-row-more-dropdown.is-open\");\n        if (openDropdown) {\n          openDropdown.classList.remove(\"is-open\");\n        }\n      }\n    });\n\n    window.addEventListener(\"message\", function (event) {\n      const message = event.data;\n      if (message.type === \"aiStatus\") {\n        setAiStatus(message.status, message.message || \"\");\n        rerender();\n        return;\n      }\n\n      if (message.type === \"extractResult\") {\n        state.filter = \"all\";\n        state.candidateBlockShown = true;\n        state.candidateBlockError = \"\";\n        mergeCandidateBatch(\"moments\", message.tasks || []);\n        persistState();\n        rerender();\n        return;\n      }\n\n      if (message.type === \"candidateAddResult\") {\n        state.candidateBlockError = \"\";\n        removePendingCandidateAdd(message.requestId || null);\n        rerender();\n        return;\n      }\n\n      if (message.type === \"candidateAddFailed\") {\n        const pending = removePendingCandidateAdd(message.requestId || null);\n        if (pending) {\n          state.candidateTasks = (state.candidateTasks || []).map(function (candidate) {\n            return candidate.order === pending.order ? { ...candidate, added: false } : candidate;\n          });\n          state.addedCandidateKeys = (state.addedCandidateKeys || []).filter(function (key) {\n            return key !== pending.key;\n          });\n        }\n        state.candidateBlockError = message.message || \"Failed to add candidate task.\";\n        if (pending && pending.source === \"notes\") {\n          setNotesAiStatus(\"error\", message.message || \"Failed to add candidate task.\");\n        } else {\n          setAiStatus(\"error\", message.message || \"Failed to add candidate task.\");\n        }\n        rerender();\n        return;\n      }\n\n      if (message.type === \"notesAiStatus\") {\n        setNotesAiStatus(message.status, message.message || \"\");\n        rerender();\n        return;\n      }\n\n      if (message.type === \"notesExtractResult\") {\n        state.filter = \"all\";\n        state.candidateBlockShown = true;\n        state.candidateBlockError = \"\";\n        mergeCandidateBatch(\"notes\", message.tasks || []);\n        persistState();\n        rerender();\n        return;\n      }\n\n      if (message.type === \"dashboardData\") {\n        if (message.data) {\n          dashboardData = message.data;\n          currentLocale = dashboardData.locale || currentLocale;\n          populateModelSelector();\n          applyStaticStrings();\n          syncStaticInputs();\n          rerender();\n        }\n        return;\n      }\n    });\n\n    populateModelSelector();\n    applyStaticStrings();\n    syncStaticInputs();\n    rerender();\n";
-export const dashboardStyle = "  :root {\n    --bg: var(--vscode-editor-background, #111827);\n    --surface: var(--vscode-editorWidget-background, #161b22);\n    --border: var(--vscode-panel-border, #2d3748);\n    --text: var(--vscode-foreground, #dbe2ea);\n    --muted: var(--vscode-descriptionForeground, #8b98a5);\n    --accent: var(--vscode-textLink-foreground, #4f8cff);\n    --success: var(--vscode-testing-iconPassed, #2ea043);\n    --warning: var(--vscode-editorWarning-foreground, #d97706);\n    --danger: var(--vscode-errorForeground, #dc2626);\n    --radius: 12px;\n    --radius-sm: 8px;\n    --gap: 16px;\n    --shadow-sm: 0 1px 2px rgba(0, 0, 0, 0.1), 0 1px 1px rgba(0, 0, 0, 0.06);\n    --shadow-md: 0 4px 6px -1px rgba(0, 0, 0, 0.12), 0 2px 4px -1px rgba(0, 0, 0, 0.08);\n  }\n\n  * { box-sizing: border-box; }\n\n  body {\n    margin: 0;\n    padding: 20px;\n    background: var(--bg);\n    color: var(--text);\n    font-family: var(--vscode-font-family);\n    font-size: var(--vscode-font-size);\n    line-height: 1.5;\n  }\n\n  button,\n  input,\n  textarea {\n    font: inherit;\n  }\n\n  .page {\n    display: flex;\n    flex-direction: column;\n    gap: 10px;\n    max-width: 1320px;\n    margin: 0 auto;\n  }\n\n  .dashboard-header {\n    display: flex;\n    align-items: center;\n    justify-content: space-between;\n    gap: 12px;\n    padding: 8px 0;\n  }\n\n  .header-copy {\n    display: flex;\n    align-items: baseline;\n    gap: 10px;\n    min-width: 0;\n  }\n\n  .header-title {\n    margin: 0;\n    font-size: 15px;\n    font-weight: 600;\n  }\n\n  .header-right {\n    display: inline-flex;\n    flex-wrap: wrap;\n    justify-content: flex-end;\n    gap: 8px;\n    align-items: center;\n  }\n\n  .dashboard-kpi-row {\n    display: inline-flex;\n    flex-wrap: wrap;\n    justify-content: flex-end;\n    gap: 8px;\n  }\n\n   .dashboard-kpi-chip {\n     display: inline-flex;\n     align-items: center;\n     gap: 6px;\n     min-height: 28px;\n     padding: 4px 12px;\n     border-radius: 999px;\n     border: 1px solid color-mix(in srgb, var(--border) 60%, transparent);\n     background: color-mix(in srgb, var(--surface) 80%, transparent);\n     backdrop-filter: blur(4px);\n     -webkit-backdrop-filter: blur(4px);\n     color: var(--text);\n     font-size: 12px;\n     box-shadow: var(--shadow-sm);\n     transition: all 200ms cubic-bezier(0.4, 0, 0.2, 1);\n     cursor: default;\n   }\n\n   .dashboard-kpi-chip:hover {\n     border-color: color-mix(in srgb, var(--border) 100%, var(--accent) 30%);\n     background: color-mix(in srgb, var(--surface) 95%, transparent);\n     transform: translateY(-1px);\n     box-shadow: var(--shadow-md);\n   }\n\n  .dashboard-kpi-label {\n    color: var(--muted);\n    font-size: 11px;\n    font-weight: 600;\n    letter-spacing: 0.04em;\n    text-transform: uppercase;\n  }\n\n  .dashboard-kpi-value {\n    font-size: 13px;\n    font-weight: 700;\n    line-height: 1;\n    font-variant-numeric: tabular-nums;\n  }\n\n  .dashboard-kpi-note {\n    color: var(--muted);\n    font-size: 11px;\n    font-variant-numeric: tabular-nums;\n  }\n\n  .dashboard-toolbar,\n  .dashboard-action-bar,\n  .list-surface,\n  .analytics-strip,\n  .analytics-panel {\n    min-width: 0;\n    border: 1px solid color-mix(in srgb, var(--border) 78%, transparent);\n    border-radius: var(--radius-sm);\n    background: color-mix(in srgb, var(--surface) 65%, transparent);\n    backdrop-filter: blur(12px);\n    -webkit-backdrop-filter: blur(12px);\n    box-shadow: var(--shadow-sm);\n    transition: border-color 200ms ease, box-shadow 200ms ease;\n  }\n\n  .dash-add-row {\n    display: flex;\n    align-items: center;\n    gap: 8px;\n  }\n\n  .dash-add-input {\n    flex: 1;\n    min-width: 0;\n    border: 1px solid color-mix(in srgb, var(--border) 80%, transparent);\n    border-radius: 6px;\n    background: color-mix(in srgb, var(--bg) 95%, transparent);\n    color: var(--text);\n    padding: 8px 14px;\n    font-size: 13px;\n    outline: none;\n    transition: all 200ms ease;\n  }\n\n  .dash-add-input:focus {\n    border-color: var(--accent);\n    box-shadow: 0 0 0 3px color-mix(in srgb, var(--accent) 15%, transparent);\n    background: var(--bg);\n  }\n\n  .dash-add-input::placeholder {\n    color: var(--muted);\n  }\n\n  .dash-extract-row-compact {\n    display: flex;\n    flex-direction: column;\n    gap: 8px;\n  }\n\n  .dash-extract-main {\n    display: flex;\n    align-items: center;\n    gap: 8px;\n    flex-wrap: wrap;\n  }\n\n  .dash-extract-advanced {\n    display: flex;\n    flex-direction: column;\n    gap: 10px;\n    padding: 12px;\n    background: var(--surface);\n    border: 1px solid var(--border);\n    border-radius: 4px;\n  }\n\n  .extract-model-select,\n  .extract-date-range {\n    display: flex;\n    align-items: center;\n    gap: 8px;\n    flex-wrap: wrap;\n  }\n\n  .extract-model-select label,\n  .extract-date-range label {\n    font-size: 12px;\n    color: var(--muted);\n    min-width: 60px;\n  }\n\n  .extract-model-select select {\n    min-width: 200px;\n    padding: 4px 8px;\n    border: 1px solid var(--border);\n    border-radius: 4px;\n    background: var(--bg);\n    color: var(--text);\n    font-size: 13px;\n  }\n\n  .extract-date-range input[type=\"date\"] {\n    padding: 4px 8px;\n    border: 1px solid var(--border);\n    border-radius: 4px;\n    background: var(--bg);\n    color: var(--text);\n    font-size: 13px;\n  }\n\n  .extract-icon {\n    font-size: 14px;\n    opacity: 0.8;\n  }\n\n  .btn-extract {\n    background: color-mix(in srgb, var(--accent) 10%, var(--surface));\n  }\n\n  .btn-extract:hover {\n    background: color-mix(in srgb, var(--accent) 20%, var(--surface));\n  }\n\n  .dash-list-bar {\n    display: flex;\n    align-items: center;\n    gap: 10px;\n    flex-wrap: wrap;\n    padding: 8px 0;\n  }\n\n  .dash-list-bar .search-shell {\n    flex: 1;\n    min-width: 140px;\n    min-height: 34px;\n  }\n\n  .dash-list-bar .filter-row {\n    display: inline-flex;\n    flex-wrap: wrap;\n    gap: 6px;\n  }\n\n  .list-surface {\n    padding: 0;\n    border: none;\n    background: transparent;\n  }\n\n  .candidate-block {\n    min-width: 0;\n    border: 1px solid color-mix(in srgb, var(--border) 78%, transparent);\n    border-radius: var(--radius-sm);\n    background: color-mix(in srgb, var(--surface) 56%, transparent);\n    padding: 10px 12px;\n  }\n\n  .candidate-items {\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n  }\n\n  .candidate-block-error {\n    display: flex;\n    align-items: center;\n    justify-content: space-between;\n    gap: 8px;\n    padding: 8px 12px;\n    border-radius: var(--radius-sm);\n    background: var(--vscode-inputValidation-errorBackground, rgba(255, 0, 0, 0.1));\n    color: var(--vscode-errorForeground, var(--text));\n    font-size: 12px;\n    line-height: 1.4;\n  }\n\n  .candidate-block-error-text {\n    flex: 1;\n    min-width: 0;\n  }\n\n  .candidate-block-error-dismiss {\n    flex-shrink: 0;\n    background: none;\n    border: none;\n    color: inherit;\n    opacity: 0.6;\n    cursor: pointer;\n    font-size: 14px;\n    padding: 2px 4px;\n    line-height: 1;\n  }\n\n  .candidate-block-error-dismiss:hover {\n    opacity: 1;\n  }\n\n  .filter-row {\n    display: flex;\n    flex-wrap: wrap;\n    gap: 8px;\n  }\n\n  .filter-chip {\n    display: inline-flex;\n    align-items: center;\n    gap: 6px;\n    padding: 4px 10px;\n    border-radius: 4px;\n    border: 1px solid transparent;\n    background: transparent;\n    color: var(--muted);\n    cursor: pointer;\n    font-size: 13px;\n    transition: all 150ms ease;\n  }\n\n  .filter-chip:hover {\n    background: var(--vscode-toolbar-hoverBackground, color-mix(in srgb, var(--border) 50%, transparent));\n    color: var(--text);\n  }\n\n  .filter-chip.is-active {\n    background: var(--accent);\n    border-color: var(--accent);\n    color: var(--vscode-button-foreground, #fff);\n  }\n\n  .filter-chip strong {\n    font-weight: 600;\n    font-variant-numeric: tabular-nums;\n  }\n\n  .search-shell {\n    display: flex;\n    align-items: center;\n    gap: 8px;\n    border: 1px solid var(--border);\n    border-radius: 4px;\n    padding: 0 10px;\n    min-height: 32px;\n    background: var(--bg);\n    transition: border-color 150ms ease;\n  }\n\n  .search-shell:focus-within {\n    border-color: var(--accent);\n  }\n\n  .search-shell span {\n    color: var(--muted);\n    font-size: 13px;\n  }\n\n  .search-shell input {\n    border: none;\n    background: transparent;\n    color: var(--text);\n    width: 100%;\n    min-width: 0;\n    outline: none;\n    padding: 6px 0;\n    font-size: 13px;\n  }\n\n  .dashboard-main-list {\n    display: flex;\n    flex-direction: column;\n    gap: 16px;\n    min-width: 0;\n  }\n\n  .task-section {\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n  }\n\n  .task-section-header {\n    display: flex;\n    align-items: center;\n    justify-content: space-between;\n    gap: 8px;\n    padding: 4px 0;\n    border-bottom: 1px solid var(--border);\n  }\n\n  .task-section-header h3 {\n    margin: 0;\n    font-size: 11px;\n    font-weight: 600;\n    letter-spacing: 0.08em;\n    text-transform: uppercase;\n    color: var(--muted);\n  }\n\n  .task-section-header span {\n    color: var(--muted);\n    font-size: 11px;\n    font-variant-numeric: tabular-nums;\n  }\n\n  .task-items {\n    display: flex;\n    flex-direction: column;\n    gap: 2px;\n  }\n\n  .task-row {\n    display: flex;\n    align-items: flex-start;\n    gap: 10px;\n    padding: 10px 12px;\n    border-radius: var(--radius-sm);\n    border: 1px solid transparent;\n    background: transparent;\n    min-width: 0;\n    position: relative;\n    overflow: hidden;\n    transition: all 200ms cubic-bezier(0.4, 0, 0.2, 1);\n  }\n\n  .task-row::before {\n    content: \"\";\n    position: absolute;\n    left: 0;\n    top: 15%;\n    bottom: 15%;\n    width: 3px;\n    background: var(--accent);\n    border-radius: 0 2px 2px 0;\n    opacity: 0;\n    transform: scaleY(0.4);\n    transition: opacity 200ms ease, transform 200ms cubic-bezier(0.4, 0, 0.2, 1);\n  }\n\n  .task-row:hover {\n    background: var(--vscode-list-hoverBackground, color-mix(in srgb, var(--accent) 6%, transparent));\n    border-color: color-mix(in srgb, var(--border) 60%, transparent);\n    box-shadow: var(--shadow-sm);\n    transform: translateY(-1px);\n  }\n\n  .task-row:hover::before {\n    opacity: 1;\n    transform: scaleY(1);\n  }\n\n  .task-row.task-row-saved.is-overdue {\n    border-color: color-mix(in srgb, var(--danger) 35%, var(--border));\n  }\n\n  .task-row.task-row-saved.is-today {\n    border-color: color-mix(in srgb, var(--accent) 35%, var(--border));\n  }\n\n  .task-row.task-row-saved.is-done {\n    opacity: 0.76;\n  }\n\n  .task-row.task-row-candidate {\n    background: color-mix(in srgb, var(--surface) 84%, var(--bg));\n  }\n\n  .task-row.task-row-candidate.is-candidate-blocked {\n    opacity: 0.8;\n  }\n\n  .task-row-toggle-entry,\n  .task-row-leading {\n    position: relative;\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n    flex-shrink: 0;\n    margin-top: 2px;\n  }\n\n  .task-row-toggle-entry {\n    width: 18px;\n    height: 18px;\n  }\n\n  .task-row-toggle {\n    appearance: none;\n    -webkit-appearance: none;\n    width: 18px;\n    height: 18px;\n    margin: 0;\n    border-radius: 5px;\n    border: 1.5px solid color-mix(in srgb, var(--accent) 40%, var(--border));\n    background: transparent;\n    cursor: pointer;\n    transition: all 180ms ease;\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n  }\n\n  .task-row-toggle:hover {\n    border-color: var(--accent);\n    background: color-mix(in srgb, var(--accent) 8%, transparent);\n  }\n\n  .task-row-toggle:checked {\n    background: var(--success);\n    border-color: var(--success);\n  }\n\n  .task-row-toggle::after {\n    content: \"\";\n    position: absolute;\n    width: 10px;\n    height: 6px;\n    border-left: 2px solid var(--vscode-button-foreground, #fff);\n    border-bottom: 2px solid var(--vscode-button-foreground, #fff);\n    transform: rotate(-45deg) translate(1px, -1px) scale(0);\n    transition: transform 180ms cubic-bezier(0.175, 0.885, 0.32, 1.275);\n    transform-origin: center;\n    box-sizing: border-box;\n    margin-top: -2px;\n  }\n\n  .task-row-toggle:checked::after {\n    transform: rotate(-45deg) translate(1px, -1px) scale(1);\n  }\n\n  .task-row-body {\n    flex: 1;\n    min-width: 0;\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n  }\n\n  .task-row-main {\n    display: flex;\n    align-items: flex-start;\n    justify-content: space-between;\n    gap: 10px;\n    min-width: 0;\n  }\n\n  .task-row-title-entry {\n    flex: 1;\n    min-width: 0;\n  }\n\n  .task-row-title {\n    margin: 0;\n    border: none;\n    padding: 0;\n    background: transparent;\n    color: var(--text);\n    text-align: left;\n    font-size: 13px;\n    font-weight: 600;\n    line-height: 1.35;\n    cursor: pointer;\n    min-width: 0;\n    width: 100%;\n    overflow: hidden;\n    text-overflow: ellipsis;\n    white-space: nowrap;\n  }\n\n  .task-row-saved .task-row-title:hover {\n    color: var(--accent);\n  }\n\n  .task-row-candidate .task-row-title {\n    cursor: default;\n    white-space: normal;\n    display: -webkit-box;\n    -webkit-box-orient: vertical;\n    -webkit-line-clamp: 2;\n  }\n\n  .task-row.task-row-saved.is-done .task-row-title {\n    color: var(--muted);\n    text-decoration: line-through;\n  }\n\n  .task-row-secondary-actions,\n  .task-row-candidate-actions {\n    display: inline-flex;\n    align-items: center;\n    gap: 8px;\n    justify-content: flex-end;\n    flex-shrink: 0;\n  }\n\n  .task-row-secondary-actions {\n    opacity: 0;\n    pointer-events: none;\n    transition: opacity 120ms ease-out;\n  }\n\n  .task-row:hover .task-row-secondary-actions,\n  .task-row:focus-within .task-row-secondary-actions {\n    opacity: 1;\n    pointer-events: auto;\n  }\n\n  .task-row-action-icon {\n    width: 28px;\n    height: 28px;\n    padding: 0;\n    border-radius: 999px;\n    border: 1px solid transparent;\n    background: transparent;\n    color: var(--muted);\n    cursor: pointer;\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n    transition: color 150ms ease, background-color 150ms ease, border-color 150ms ease;\n  }\n\n  .task-row-action-icon:hover {\n    color: var(--text);\n    background: var(--vscode-toolbar-hoverBackground, color-mix(in srgb, var(--border) 50%, transparent));\n    border-color: color-mix(in srgb, var(--border) 70%, transparent);\n  }\n\n  .task-row-action-icon[data-action=\"delete\"] {\n    color: color-mix(in srgb, var(--danger) 78%, var(--muted));\n  }\n\n  .task-row-action-icon[data-action=\"delete\"]:hover {\n    color: var(--danger);\n    background: color-mix(in srgb, var(--danger) 12%, transparent);\n    border-color: color-mix(in srgb, var(--danger) 32%, transparent);\n  }\n\n  .task-row-action-icon svg {\n    width: 14px;\n    height: 14px;\n    display: block;\n  }\n\n  .task-row-more-menu { display: none; position: relative; }\n  .task-row-more-btn {\n    border-radius: 999px;\n    border: 1px solid var(--border);\n    background: transparent;\n    color: var(--text);\n    cursor: pointer;\n    padding: 8px 12px;\n  }\n  .task-row-more-dropdown {\n    display: none;\n    position: absolute;\n    right: 0;\n    top: 100%;\n    background: var(--surface);\n    border: 1px solid var(--border);\n    border-radius: var(--radius-sm);\n    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);\n    z-index: 10;\n    min-width: 120px;\n  }\n  .task-row-more-dropdown.is-open {\n    display: block;\n  }\n  .task-row-more-dropdown button {\n    display: block;\n    width: 100%;\n    border: none;\n    background: transparent;\n    color: var(--text);\n    padding: 8px 12px;\n    text-align: left;\n    cursor: pointer;\n  }\n  .task-row-more-dropdown button:hover {\n    background: color-mix(in srgb, var(--accent) 12%, transparent);\n  }\n  .task-row-more-dropdown button.is-danger {\n    color: var(--danger, #e54d42);\n  }\n  .task-row-more-dropdown button.is-danger:hover {\n    background: color-mix(in srgb, var(--danger, #e54d42) 12%, transparent);\n  }\n\n  .link-btn,\n  .text-btn,\n  .btn {\n    border-radius: 6px;\n    border: 1px solid color-mix(in srgb, var(--border) 70%, transparent);\n    background: color-mix(in srgb, var(--surface) 90%, transparent);\n    color: var(--text);\n    cursor: pointer;\n    padding: 6px 14px;\n    font-size: 13px;\n    transition: all 200ms cubic-bezier(0.4, 0, 0.2, 1);\n    display: inline-flex;\n    align-items: center;\n    gap: 6px;\n  }\n\n  .btn:hover {\n    background: var(--vscode-toolbar-hoverBackground, color-mix(in srgb, var(--accent) 10%, var(--surface)));\n    border-color: var(--accent);\n    transform: translateY(-1px);\n    box-shadow: var(--shadow-sm);\n  }\n\n  .btn:active {\n    transform: translateY(0);\n  }\n\n  .btn-primary {\n    background: var(--accent);\n    border-color: var(--accent);\n    color: var(--vscode-button-foreground, #fff);\n  }\n\n  .btn-primary:hover {\n    background: color-mix(in srgb, var(--accent) 85%, #000);\n    border-color: color-mix(in srgb, var(--accent) 85%, #000);\n  }\n\n  .btn-danger {\n    border-color: var(--danger);\n    color: var(--danger);\n  }\n\n  .btn-danger:hover {\n    background: color-mix(in srgb, var(--danger) 10%, transparent);\n  }\n\n  .btn:disabled,\n  .text-btn:disabled {\n    cursor: not-allowed;\n    opacity: 0.5;\n  }\n\n  .text-btn,\n  .link-btn {\n    padding: 4px 8px;\n    font-size: 12px;\n    color: var(--muted);\n    background: transparent;\n  }\n\n  .text-btn:hover,\n  .link-btn:hover {\n    color: var(--text);\n    background: var(--vscode-toolbar-hoverBackground, color-mix(in srgb, var(--border) 50%, transparent));\n  }\n\n  .task-row-meta {\n    display: flex;\n    flex-wrap: nowrap;\n    gap: 8px;\n    min-width: 0;\n    overflow: hidden;\n    white-space: nowrap;\n  }\n\n  .task-row-meta-item {\n    display: inline-flex;\n    align-items: center;\n    gap: 4px;\n    min-width: 0;\n    flex-shrink: 0;\n  }\n\n  .task-row-meta-source {\n    min-width: 0;\n    overflow: hidden;\n    text-overflow: ellipsis;\n    white-space: nowrap;\n    flex: 1 1 auto;\n  }\n\n  .badge {\n    display: inline-flex;\n    align-items: center;\n    gap: 4px;\n    padding: 4px 8px;\n    border-radius: 999px;\n    border: 1px solid var(--border);\n    font-size: 11px;\n    color: var(--muted);\n    background: color-mix(in srgb, var(--surface) 88%, var(--bg));\n  }\n\n  .badge.is-accent {\n    color: var(--accent);\n    border-color: color-mix(in srgb, var(--accent) 40%, var(--border));\n    background: color-mix(in srgb, var(--accent) 12%, transparent);\n  }\n\n  .badge.is-success {\n    color: var(--success);\n    border-color: color-mix(in srgb, var(--success) 40%, var(--border));\n    background: color-mix(in srgb, var(--success) 12%, transparent);\n  }\n\n  .badge.is-warning {\n    color: var(--warning);\n    border-color: color-mix(in srgb, var(--warning) 40%, var(--border));\n    background: color-mix(in srgb, var(--warning) 12%, transparent);\n  }\n\n  .badge.is-danger {\n    color: var(--danger);\n    border-color: color-mix(in srgb, var(--danger) 40%, var(--border));\n    background: color-mix(in srgb, var(--danger) 12%, transparent);\n  }\n\n  .task-row-meta-category {\n    color: var(--accent);\n    border-color: color-mix(in srgb, var(--accent) 30%, var(--border));\n    background: color-mix(in srgb, var(--accent) 6%, transparent);\n  }\n\n  .task-row-meta-priority {\n    font-weight: 600;\n    text-transform: uppercase;\n    font-size: 9px;\n    letter-spacing: 0.04em;\n  }\n\n  .task-row-meta-priority.is-danger {\n    color: var(--danger);\n    border-color: color-mix(in srgb, var(--danger) 40%, var(--border));\n    background: color-mix(in srgb, var(--danger) 12%, transparent);\n  }\n\n  .task-row-meta-priority.is-warning {\n    color: var(--warning);\n    border-color: color-mix(in srgb, var(--warning) 40%, var(--border));\n    background: color-mix(in srgb, var(--warning) 12%, transparent);\n  }\n\n  .task-row-meta-estimate {\n    color: var(--muted);\n    font-variant-numeric: tabular-nums;\n  }\n\n  .task-edit {\n    display: flex;\n    flex-direction: column;\n    gap: 10px;\n  }\n\n  .task-edit .field,\n  .task-edit .field-compact {\n    margin-bottom: 0;\n  }\n\n  .composer-body {\n    display: flex;\n    flex-direction: column;\n    gap: 12px;\n  }\n\n  .composer-body .field,\n  .composer-body .field-compact {\n    margin-bottom: 0;\n  }\n\n  .composer-body .helper {\n    margin: 0;\n  }\n\n  .field,\n  .field-compact {\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n    min-width: 0;\n    margin-bottom: 12px;\n  }\n\n  .field span,\n  .field-compact span {\n    color: var(--muted);\n    font-size: 12px;\n    font-weight: 600;\n  }\n\n  .field input,\n  .field textarea,\n  .field-compact input {\n    width: 100%;\n    border: 1px solid var(--border);\n    border-radius: var(--radius-sm);\n    background: color-mix(in srgb, var(--surface) 88%, var(--bg));\n    color: var(--text);\n    padding: 10px 12px;\n    outline: none;\n  }\n\n  .field textarea {\n    resize: vertical;\n    min-height: 92px;\n  }\n\n  .field input:focus,\n  .field textarea:focus,\n  .field-compact input:focus {\n    border-color: color-mix(in srgb, var(--accent) 55%, var(--border));\n  }\n\n  .field-grid {\n    display: grid;\n    grid-template-columns: repeat(2, minmax(0, 1fr));\n    gap: 10px;\n  }\n\n  .inline-actions {\n    display: flex;\n    flex-wrap: wrap;\n    gap: 8px;\n  }\n\n  .dash-extract-group {\n    display: inline-flex;\n    align-items: center;\n    gap: 6px;\n    flex-wrap: wrap;\n  }\n\n  .btn-extract {\n    white-space: nowrap;\n    font-size: 12px;\n    padding: 6px 10px;\n  }\n\n  .extract-date-inline {\n    border: 1px solid var(--border);\n    border-radius: var(--radius-sm);\n    background: color-mix(in srgb, var(--surface) 88%, var(--bg));\n    color: var(--text);\n    padding: 5px 8px;\n    outline: none;\n    font-family: inherit;\n    font-size: 12px;\n    width: auto;\n  }\n\n  .extract-date-inline:focus {\n    border-color: color-mix(in srgb, var(--accent) 55%, var(--border));\n  }\n\n  .extract-range-separator {\n    color: var(--muted);\n    flex-shrink: 0;\n    font-size: 12px;\n  }\n\n  .inline-fields {\n    display: flex;\n    gap: 12px;\n    flex-wrap: wrap;\n    margin-bottom: 12px;\n  }\n  .inline-fields .field-compact {\n    flex: 1;\n    min-width: 120px;\n  }\n\n  .helper {\n    color: var(--muted);\n    font-size: 12px;\n    text-wrap: pretty;\n  }\n\n  .mono {\n    font-variant-numeric: tabular-nums;\n  }\n\n  .empty-state {\n    border: 1px dashed var(--border);\n    border-radius: var(--radius-sm);\n    padding: 14px 16px;\n    color: var(--muted);\n    text-align: center;\n    max-width: 420px;\n    margin: 4px auto;\n  }\n\n  .empty-state-title {\n    display: block;\n    color: var(--text);\n    font-size: 13px;\n    font-weight: 600;\n    margin-bottom: 4px;\n  }\n\n  .empty-state-body {\n    margin: 0;\n    font-size: 12px;\n    line-height: 1.45;\n  }\n\n  .analytics-strip {\n    display: grid;\n    grid-template-columns: minmax(0, 1fr) minmax(260px, 320px);\n    gap: 10px;\n    align-items: start;\n    padding: 8px 10px;\n  }\n\n  .analytics-panel {\n    padding: 8px 10px;\n  }\n\n  .status-line {\n    min-height: 20px;\n    color: var(--muted);\n    font-size: 12px;\n    margin-top: 10px;\n  }\n\n  .status-line.is-error {\n    color: var(--danger);\n  }\n\n  .ai-result {\n    display: flex;\n    flex-direction: column;\n    gap: 10px;\n    margin-top: 12px;\n  }\n\n  .extract-item {\n    padding: 12px;\n    border-radius: var(--radius-sm);\n    border: 1px solid var(--border);\n    background: color-mix(in srgb, var(--surface) 88%, var(--bg));\n  }\n\n  .extract-head {\n    display: flex;\n    flex-direction: column;\n    gap: 4px;\n  }\n\n  .extract-actions {\n    display: flex;\n    justify-content: flex-end;\n    gap: 8px;\n    margin-top: 12px;\n  }\n\n  .extract-title {\n    font-weight: 600;\n    font-size: 13px;\n  }\n\n  .extract-meta {\n    color: var(--muted);\n    font-size: 12px;\n  }\n\n  @media (width < 1000px) {\n    .dashboard-action-bar {\n      grid-template-columns: 1fr;\n    }\n\n    .analytics-strip {\n      grid-template-columns: 1fr;\n    }\n  }\n\n  @media (max-width: 720px) {\n    body {\n      padding: 14px;\n    }\n\n    .dashboard-header {\n      flex-direction: column;\n      align-items: flex-start;\n    }\n\n    .header-right,\n    .dashboard-kpi-row {\n      justify-content: flex-start;\n    }\n\n    .field-grid {\n      grid-template-columns: 1fr;\n    }\n\n    .extract-range-row {\n      flex-direction: column;\n      align-items: stretch;\n    }\n\n    .extract-range-separator {\n      display: none;\n    }\n\n    .task-row-main,\n    .extract-head {\n      flex-direction: column;\n    }\n\n    .task-row-secondary-actions,\n    .task-row-candidate-actions {\n      justify-content: flex-start;\n    }\n\n    .task-row-secondary-actions {\n      display: none;\n    }\n\n    .task-row-more-menu {\n      display: block;\n    }\n\n    .dashboard-toolbar,\n    .dashboard-action-bar,\n    .list-surface,\n    .analytics-strip {\n      padding: 12px;\n    }\n\n    .dashboard-weekday-marker {\n      display: none;\n    }\n  }\n";
-export const momentsScript = "  const vscode = acquireVsCodeApi();\n  let sendOnEnter = true;\n  let isComposing = false; // IME composition guard\n\n  const inputBox = document.getElementById('inputBox');\n  const sendBtn = document.getElementById('sendBtn');\n  const timeline = document.getElementById('timeline');\n  const emptyState = document.getElementById('emptyState');\n  const topbarDate = document.getElementById('topbarDate');\n  const topbarCount = document.getElementById('topbarCount');\n  const inboxBtn = document.getElementById('inboxBtn');\n  const allBtn = document.getElementById('allBtn');\n  const activeTagBtn = document.getElementById('activeTagBtn');\n  const openFileBtn = document.getElementById('openFileBtn');\n  const jumpDateBtn = document.getElementById('jumpDateBtn');\n  const jumpDateInput = document.getElementById('jumpDateInput');\n  const backToTodayBtn = document.getElementById('backToTodayBtn');\n  const errorBanner = document.getElementById('errorBanner');\n  const searchInput = document.getElementById('searchInput');\n  const clearSearch = document.getElementById('clearSearch');\n  const exportBtn = document.getElementById('exportBtn');\n  const selectedCountLabel = document.getElementById('selectedCountLabel');\n  const exportNoteBtn = document.getElementById('exportNoteBtn');\n  const exportCancelBtn = document.getElementById('exportCancelBtn');\n  let activeTag = null;\n  let activeTagLabel = '';\n  let currentSearchText = '';\n  let latestSections = [];\n  let currentPinnedEntries = [];\n  let editingEntryKey = null;\n  let editingText = '';\n  let selectMode = false;\n  const selectedEntries = new Set();\n  let pendingScrollMode = 'top';\n  let pendingScrollTop = 0;\n  let hasMoreOlder = false;\n  let loadingOlder = false;\n  let todayDate = '';\n  let anchorDate = '';\n  const momentTagPattern = __MOMENT_TAG_PATTERN__;\n\n  // Notify extension we're ready\n  vscode.postMessage({ command: 'ready' });\n\n  // ---- Message from extension ----\n  window.addEventListener('message', (event) => {\n    const msg = event.data;\n    if (msg.command === 'update') {\n      sendOnEnter = msg.sendOnEnter;\n      currentLocale = msg.locale || 'en';\n      applyStaticStrings();\n      latestSections = msg.sections;\n      todayDate = msg.todayDate || '';\n      anchorDate = msg.anchorDate || todayDate;\n      currentPinnedEntries = msg.pinnedEntries || [];\n      hasMoreOlder = Boolean(msg.hasMoreOlder);\n      loadingOlder = false;\n      updateTopbar(todayDate, latestSections, anchorDate);\n      updateAnchorChip(anchorDate, todayDate);\n      if (\n        editingEntryKey !== null\n        && !latestSections.some((section) => section.entries.some((entry) => (section.date + ':' + entry.index) === editingEntryKey))\n      ) {\n        editingEntryKey = null;\n        editingText = '';\n      }\n      renderTimeline(latestSections);\n      if (pendingScrollMode === 'top') {\n        timeline.scrollTop = 0;\n      } else if (pendingScrollMode === 'preserve') {\n        timeline.scrollTop = pendingScrollTop;\n      }\n      pendingScrollMode = null;\n      window.requestAnimationFrame(() => {\n        maybeLoadOlderEntries();\n      });\n    } else if (msg.command === 'error') {\n      showError(msg.message);\n    }\n  });\n\n  function showError(msg) {\n    errorBanner.textContent = msg;\n    errorBanner.style.display = 'block';\n    setTimeout(() => { errorBanner.style.display = 'none'; }, 4000);\n  }\n\n  function applyStaticStrings() {\n    allBtn.title = UI('allMoments');\n    allBtn.setAttribute('aria-label', UI('allMoments'));\n    inboxBtn.title = UI('taskInbox');\n    inboxBtn.setAttribute('aria-label', UI('taskInbox'));\n    openFileBtn.title = UI('openTodayFile');\n    openFileBtn.setAttribute('aria-label', UI('openTodayFile'));\n    jumpDateBtn.title = UI('jumpToDate');\n    jumpDateBtn.setAttribute('aria-label', UI('jumpToDate'));\n    jumpDateInput.setAttribute('aria-label', UI('jumpToDate'));\n    backToTodayBtn.title = UI('backToToday');\n    backToTodayBtn.setAttribute('aria-label', UI('backToToday'));\n    backToTodayBtn.textContent = UI('backToToday');\n    exportBtn.title = UI('exportSelected');\n    exportBtn.setAttribute('aria-label', UI('exportSelected'));\n    clearSearch.title = UI('clearSearch');\n    searchInput.placeholder = UI('searchPlaceholder');\n    inputBox.placeholder = UI('capturePlaceholder');\n    sendBtn.title = UI('sendBtn');\n    exportNoteBtn.textContent = UI('exportAsNote');\n    exportCancelBtn.textContent = UI('cancelBtn');\n    const emptyTitle = document.getElementById('emptyTitle');\n    const emptyHint = document.getElementById('emptyHint');\n    if (emptyTitle) emptyTitle.textContent = UI('emptyToday');\n    if (emptyHint) emptyHint.textContent = UI('emptyHint');\n  }\n\n  function updateTopbar(dateStr, sections, anchorDate) {\n    // Format date label\n    const anchor = anchorDate || dateStr;\n    if (anchor) {\n      const d = new Date(anchor + 'T00:00:00');\n      const opts = { month: 'short', day: 'numeric', year: 'numeric' };\n      const dateLocale = currentLocale === 'ja' ? 'ja-JP' : 'en-US';\n      const label = d.toLocaleDateString(dateLocale, opts);\n      topbarDate.textContent = anchor === dateStr ? label + ' ' + UI('todaySuffix') : label;\n    } else {\n      topbarDate.textContent = '';\n    }\n\n    // Count today's entries\n    const todaySection = sections.find(s => s.isToday);\n    const todayCount = todaySection ? todaySection.entries.length : 0;\n    if (todayCount > 0) {\n      topbarCount.textContent = UI('momentCount', { count: todayCount });\n      topbarCount.style.display = '';\n    } else {\n      topbarCount.style.display = 'none';\n    }\n\n    // Highlight allBtn as active (default view)\n    allBtn.classList.add('active');\n    allBtn.setAttribute('aria-pressed', 'true');\n  }\n\n  function updateAnchorChip(anchorDate, todayDate) {\n    backToTodayBtn.style.display = anchorDate && anchorDate !== todayDate ? '' : 'none';\n  }\n\n  // ---- Render ----\n  function escapeHtml(text) {\n    return text\n      .replace(/&/g, '&amp;')\n      .replace(/</g, '&lt;')\n      .replace(/>/g, '&gt;')\n      .replace(/\"/g, '&quot;');\n  }\n\n  function renderText(text) {\n    // Highlight #tags\n    let html = escapeHtml(text);\n    html = html.replace(new RegExp(momentTagPattern, 'gu'), (tag) => '<button class=\"tag\" type=\"button\" data-tag=\"' + tag + '\">' + tag + '</button>');\n    // Highlight @YYYY-MM-DD due dates\n    html = html.replace(/@(\\d{4}-\\d{2}-\\d{2})/g, '<span class=\"due-date-inline\">@$1</span>');\n    // Auto-link URLs\n    html = html.replace(/(https?:\\/\\/[^\\s<]+)/g, '<a href=\"$1\" style=\"color:var(--moments-accent)\">$1</a>');\n    return html;\n  }\n\n  function matchMomentTags(text) {\n    return text.match(new RegExp(momentTagPattern, 'gu')) || [];\n  }\n\n  function normalizeTag(tag) {\n    return String(tag || '').normalize('NFKC').toLowerCase();\n  }\n\n  function getEntryTags(entry) {\n    if (Array.isArray(entry.tags) && entry.tags.length > 0) {\n      return entry.tags.map((tag) => normalizeTag(tag));\n    }\n\n    return matchMomentTags(entry.text).map((tag) => normalizeTag(tag));\n  }\n\n  function setActiveTag(tag) {\n    const normalizedTag = normalizeTag(tag);\n    if (!normalizedTag || activeTag === normalizedTag) {\n      activeTag = null;\n      activeTagLabel = '';\n    } else {\n      activeTag = normalizedTag;\n      activeTagLabel = tag;\n    }\n\n    timeline.scrollTop = 0;\n    renderTimeline(latestSections);\n  }\n\n  function autoResizeTextarea(textarea) {\n    textarea.style.height = 'auto';\n    textarea.style.height = Math.min(textarea.scrollHeight, 180) + 'px';\n  }\n\n  function requestLoadOlderEntries() {\n    if (loadingOlder || !hasMoreOlder) {\n      return;\n    }\n\n    loadingOlder = true;\n    pendingScrollMode = 'preserve';\n    pendingScrollTop = timeline.scrollTop;\n    vscode.postMessage({ command: 'loadMore' });\n  }\n\n  function maybeLoadOlderEntries() {\n    if (loadingOlder || !hasMoreOlder) {\n      return;\n    }\n\n    const threshold = 180;\n    const nearBottom = timeline.scrollTop + timeline.clientHeight >= timeline.scrollHeight - threshold;\n    const contentShort = timeline.scrollHeight <= timeline.clientHeight + threshold;\n\n    if (nearBottom || contentShort) {\n      requestLoadOlderEntries();\n    }\n  }\n\n  function renderTimeline(sections) {\n    const visibleSections = sections\n      .map((section) => ({\n        ...section,\n        entries: section.entries\n          .filter((entry) => !activeTag || getEntryTags(entry).includes(activeTag))\n          .filter((entry) => !currentSearchText || entry.text.toLowerCase().includes(currentSearchText))\n          .slice()\n          .reverse(),\n      }))\n      .filter((section) => section.entries.length > 0);\n\n    allBtn.classList.add('active');\n    allBtn.setAttribute('aria-pressed', 'true');\n    activeTagBtn.style.display = activeTag ? '' : 'none';\n    activeTagBtn.textContent = activeTag ? activeTagLabel + ' ×' : '';\n    activeTagBtn.title = activeTag ? UI('clearSearch') : UI('clearSearch');\n    activeTagBtn.setAttribute('aria-label', activeTag ? UI('clearSearch') : UI('clearSearch'));\n\n    if (visibleSections.length === 0) {\n      emptyState.style.display = 'block';\n      timeline.querySelectorAll('.day-section, .pinned-section').forEach(e => e.remove());\n      if (currentSearchText && activeTag) {\n        emptyState.textContent = UI('noMomentsSearchTag', { tag: activeTagLabel, query: currentSearchText });\n      } else if (currentSearchText) {\n        emptyState.textContent = UI('noMomentsSearch', { query: currentSearchText });\n      } else if (activeTag) {\n        emptyState.textContent = UI('noMomentsTagged', { tag: activeTagLabel });\n      } else {\n        emptyState.textContent = UI('noMomentsEmpty');\n      }\n      return;\n    }\n\n    emptyState.style.display = 'none';\n\n    timeline.querySelectorAll('.day-section, .pinned-section').forEach(e => e.remove());\n\n    // Render pinned section\n    if (currentPinnedEntries.length > 0) {\n      const pinnedSectionEl = document.createElement('section');\n      pinnedSectionEl.className = 'pinned-section';\n\n      const pinnedHeader = document.createElement('div');\n      pinnedHeader.className = 'pinned-section-header';\n      const pinnedLabel = document.createElement('span');\n      pinnedLabel.className = 'pinned-section-label';\n      pinnedLabel.textContent = '📌 ' + UI('pinnedHeader');\n      pinnedHeader.appendChild(pinnedLabel);\n      pinnedSectionEl.appendChild(pinnedHeader);\n\n      currentPinnedEntries.forEach((pinned) => {\n        const div = document.createElement('div');\n        div.className = 'entry pinned-entry';\n\n        const meta = document.createElement('div');\n        meta.className = 'entry-meta';\n\n        const dateBadge = document.createElement('span');\n        dateBadge.className = 'entry-time';\n        dateBadge.textContent = pinned.date + (pinned.time ? ' · ' + pinned.time : '');\n        meta.appendChild(dateBadge);\n\n        const header = document.createElement('div');\n        header.className = 'entry-header';\n\n        const headerLeading = document.createElement('div');\n        headerLeading.className = 'entry-header-leading';\n\n        const textSpan = document.createElement('div');\n        textSpan.className = 'entry-text';\n        textSpan.innerHTML = renderText(pinned.text);\n        textSpan.querySelectorAll('.tag').forEach((tagButton) => {\n          tagButton.addEventListener('click', (event) => {\n            event.preventDefault();\n            event.stopPropagation();\n            setActiveTag(tagButton.dataset.tag || '');\n          });\n        });\n\n        const content = document.createElement('div');\n        content.className = 'entry-content';\n\n        headerLeading.appendChild(meta);\n\n        const actions = document.createElement('div');\n        actions.className = 'entry-actions entry-header-actions';\n\n        const unpinButton = document.createElement('button');\n        unpinButton.className = 'pin-btn pinned';\n        unpinButton.type = 'button';\n        unpinButton.title = UI('unpin');\n        unpinButton.setAttribute('aria-label', UI('unpin'));\n        unpinButton.textContent = '📌';\n        unpinButton.addEventListener('click', () => {\n          vscode.postMessage({ command: 'unpinEntry', pinnedId: pinned.date + ':' + pinned.index });\n        });\n        actions.appendChild(unpinButton);\n\n        header.appendChild(headerLeading);\n        header.appendChild(actions);\n        content.appendChild(header);\n        content.appendChild(textSpan);\n        div.appendChild(content);\n        pinnedSectionEl.appendChild(div);\n      });\n\n      timeline.appendChild(pinnedSectionEl);\n    }\n\n    visibleSections.forEach((section) => {\n      const unpinnedEntries = section.entries.filter(\n        (e) => !currentPinnedEntries.some((p) => p.date === section.date && p.index === e.index)\n      );\n      if (unpinnedEntries.length === 0) return;\n\n      const sectionEl = document.createElement('section');\n      sectionEl.className = 'day-section';\n\n      const sectionHeader = document.createElement('div');\n      sectionHeader.className = 'day-section-header';\n\n      const sectionLabel = document.createElement('span');\n      sectionLabel.className = 'day-section-label' + (section.isToday ? ' is-today' : '');\n      sectionLabel.textContent = section.dateLabel;\n\n      sectionHeader.appendChild(sectionLabel);\n      sectionEl.appendChild(sectionHeader);\n\n      unpinnedEntries.forEach((entry) => {\n      const entryKey = section.date + ':' + entry.index;\n      const exportKey = JSON.stringify({ date: section.date, index: entry.index });\n      const div = document.createElement('div');\n      div.className = 'entry' + (selectMode && selectedEntries.has(exportKey) ? ' selected-for-export' : '');\n\n      const meta = document.createElement('div');\n      meta.className = 'entry-meta';\n\n      const timeBadge = document.createElement('span');\n      timeBadge.className = 'entry-time';\n      timeBadge.textContent = entry.time;\n\n      meta.appendChild(timeBadge);\n\n      const header = document.createElement('div');\n      header.className = 'entry-header';\n\n      const dueDateMatch = entry.text.match(new RegExp(__DUE_DATE_PATTERN_SOURCE__, \"i\"));\n      const dueDate = dueDateMatch ? dueDateMatch[1] : null;\n      if (dueDate) {\n        let dueDateStatus = null;\n        if (!entry.done && todayDate) {\n          if (dueDate < todayDate) {\n            dueDateStatus = 'overdue';\n          } else if (dueDate === todayDate) {\n            dueDateStatus = 'today';\n          } else {\n            dueDateStatus = 'upcoming';\n          }\n        }\n        if (dueDateStatus) {\n          div.classList.add('due-' + dueDateStatus);\n        }\n        const dueBadge = document.createElement('span');\n        dueBadge.className = 'due-badge';\n        dueBadge.textContent = dueDateStatus === 'today' ? UI('todayBadge') : dueDate;\n        meta.appendChild(dueBadge);\n      }\n\n      if (entryKey === editingEntryKey) {\n        const editWrap = document.createElement('div');\n        editWrap.className = 'entry-edit';\n\n        const editInput = document.createElement('textarea');\n        editInput.value = editingText;\n        editInput.setAttribute('aria-label', UI('edit'));\n        editInput.addEventListener('input', () => {\n          editingText = editInput.value;\n          autoResizeTextarea(editInput);\n        });\n        editInput.addEventListener('keydown', (event) => {\n          if (event.isComposing || event.keyCode === 229) {\n            return;\n          }\n          if (event.key === 'Enter') {\n            let shouldSave = false;\n            if (sendOnEnter && !event.shiftKey) {\n              shouldSave = true;\n            } else if (!sendOnEnter && (event.metaKey || event.ctrlKey)) {\n              shouldSave = true;\n            }\n\n            if (shouldSave) {\n              event.preventDefault();\n              const nextText = editInput.value.trim();\n              if (!nextText) {\n                showError(UI('momentTextEmpty'));\n                return;\n              }\n              editingEntryKey = null;\n              editingText = '';\n              vscode.postMessage({ command: 'saveEdit', date: section.date, index: entry.index, text: nextText });\n            }\n          }\n          if (event.key === 'Escape') {\n            event.preventDefault();\n            editingEntryKey = null;\n            editingText = '';\n            renderTimeline(latestSections);\n          }\n        });\n\n        const editActions = document.createElement('div');\n        editActions.className = 'entry-edit-actions';\n\n        const saveButton = document.createElement('button');\n        saveButton.className = 'entry-action save';\n        saveButton.type = 'button';\n        saveButton.title = UI('save');\n        saveButton.innerHTML = '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2.2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><polyline points=\"20 6 9 17 4 12\"></polyline></svg>';\n        saveButton.addEventListener('click', () => {\n          const nextText = editInput.value.trim();\n          if (!nextText) {\n            showError(UI('momentTextEmpty'));\n            return;\n          }\n          editingEntryKey = null;\n          editingText = '';\n          vscode.postMessage({ command: 'saveEdit', date: section.date, index: entry.index, text: nextText });\n        });\n\n        const cancelButton = document.createElement('button');\n        cancelButton.className = 'entry-action';\n        cancelButton.type = 'button';\n        cancelButton.title = UI('cancelBtn');\n        cancelButton.innerHTML = '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2.2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><line x1=\"18\" y1=\"6\" x2=\"6\" y2=\"18\"></line><line x1=\"6\" y1=\"6\" x2=\"18\" y2=\"18\"></line></svg>';\n        cancelButton.addEventListener('click', () => {\n          editingEntryKey = null;\n          editingText = '';\n          renderTimeline(latestSections);\n        });\n\n        editActions.appendChild(saveButton);\n        editActions.appendChild(cancelButton);\n        editWrap.appendChild(editInput);\n        editWrap.appendChild(editActions);\n        div.appendChild(editWrap);\n\n        sectionEl.appendChild(div);\n        setTimeout(() => {\n          editInput.focus();\n          editInput.selectionStart = editInput.value.length;\n          editInput.selectionEnd = editInput.value.length;\n          autoResizeTextarea(editInput);\n        }, 0);\n        return;\n      }\n\n      const textSpan = document.createElement('div');\n      textSpan.className = 'entry-text';\n      textSpan.innerHTML = renderText(entry.text);\n      textSpan.querySelectorAll('.tag').forEach((tagButton) => {\n        tagButton.addEventListener('click', (event) => {\n          event.preventDefault();\n          event.stopPropagation();\n          setActiveTag(tagButton.dataset.tag || '');\n        });\n      });\n\n      const content = document.createElement('div');\n      content.className = 'entry-content';\n\n      const selectCb = document.createElement('input');\n      selectCb.type = 'checkbox';\n      selectCb.className = 'select-entry-cb';\n      selectCb.checked = selectedEntries.has(exportKey);\n      selectCb.setAttribute('aria-label', 'Select entry for export');\n      selectCb.addEventListener('change', () => {\n        if (selectCb.checked) {\n          selectedEntries.add(exportKey);\n          div.classList.add('selected-for-export');\n        } else {\n          selectedEntries.delete(exportKey);\n          div.classList.remove('selected-for-export');\n        }\n        updateExportBar();\n      });\n\n      const actions = document.createElement('div');\n      actions.className = 'entry-actions entry-header-actions';\n\n      const editButton = document.createElement('button');\n      editButton.className = 'entry-action';\n      editButton.type = 'button';\n      editButton.title = UI('edit');\n      editButton.innerHTML = '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2.2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><path d=\"M17 3a2.828 2.828 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5L17 3z\"></path></svg>';\n      editButton.addEventListener('click', () => {\n        editingEntryKey = entryKey;\n        editingText = entry.text;\n        renderTimeline(latestSections);\n      });\n\n      const deleteButton = document.createElement('button');\n      deleteButton.className = 'entry-action danger';\n      deleteButton.type = 'button';\n      deleteButton.title = UI('delete');\n      deleteButton.innerHTML = '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2.2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><polyline points=\"3 6 5 6 21 6\"></polyline><path d=\"M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2\"></path><line x1=\"10\" y1=\"11\" x2=\"10\" y2=\"17\"></line><line x1=\"14\" y1=\"11\" x2=\"14\" y2=\"17\"></line></svg>';\n      deleteButton.addEventListener('click', () => {\n        if (editingEntryKey === entryKey) {\n          editingEntryKey = null;\n          editingText = '';\n        }\n        vscode.postMessage({ command: 'requestDeleteEntry', date: section.date, index: entry.index });\n      });\n\n      actions.appendChild(editButton);\n\n      const isPinned = currentPinnedEntries.some((p) => p.date === section.date && p.index === entry.index);\n      const pinButton = document.createElement('button');\n      pinButton.className = 'pin-btn' + (isPinned ? ' pinned' : '');\n      pinButton.type = 'button';\n      pinButton.title = isPinned ? UI('unpin') : UI('pin');\n      pinButton.setAttribute('aria-label', isPinned ? UI('unpin') : UI('pin'));\n      pinButton.innerHTML = '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2.2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><line x1=\"18\" y1=\"8\" x2=\"22\" y2=\"12\"></line><line x1=\"12\" y1=\"2\" x2=\"12\" y2=\"6\"></line><path d=\"M12 6H8a2 2 0 0 0-2 2v3.586a1 1 0 0 1-.293.707l-2.828 2.828a1 1 0 0 0 0 1.414L6 19.5a1 1 0 0 0 1.414 0l2.828-2.828a1 1 0 0 1 .707-.293H15a2 2 0 0 0 2-2V8\"></path></svg>';\n      pinButton.addEventListener('click', () => {\n        if (isPinned) {\n          vscode.postMessage({ command: 'unpinEntry', pinnedId: section.date + ':' + entry.index });\n        } else {\n          vscode.postMessage({ command: 'pinEntry', date: section.date, index: entry.index, text: entry.text, time: entry.time });\n        }\n      });\n      actions.appendChild(pinButton);\n      actions.appendChild(deleteButton);\n\n      const headerLeading = document.createElement('div');\n      headerLeading.className = 'entry-header-leading';\n      headerLeading.appendChild(selectCb);\n      headerLeading.appendChild(meta);\n\n      header.appendChild(headerLeading);\n      header.appendChild(actions);\n      content.appendChild(header);\n      content.appendChild(textSpan);\n      div.appendChild(content);\n      sectionEl.appendChild(div);\n    });\n\n      timeline.appendChild(sectionEl);\n    });\n  }\n\n  function send() {\n    const text = inputBox.value.trim();\n    if (!text) return;\n    pendingScrollMode = 'top';\n    vscode.postMessage({ command: 'addMoment', text });\n    inputBox.value = '';\n    autoResize();\n  }\n\n  sendBtn.addEventListener('click', send);\n\n  // Track IME composition to prevent sending on Japanese/CJK Enter confirmation\n  inputBox.addEventListener('compositionstart', () => { isComposing = true; });\n  inputBox.addEventListener('compositionend', () => { isComposing = false; });\n\n  inputBox.addEventListener('keydown', (e) => {\n    if (isComposing) { return; } // ignore Enter during IME composition\n    if (sendOnEnter) {\n      if (e.key === 'Enter' && !e.shiftKey) {\n        e.preventDefault();\n        send();\n      }\n    } else {\n      if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {\n        e.preventDefault();\n        send();\n      }\n    }\n  });\n\n  inputBox.addEventListener('input', autoResize);\n\n  function autoResize() {\n    autoResizeTextarea(inputBox);\n  }\n\n  openFileBtn.addEventListener('click', () => vscode.postMessage({ command: 'openFile' }));\n  inboxBtn.addEventListener('click', () => vscode.postMessage({ command: 'openInbox' }));\n\n  jumpDateBtn.addEventListener('click', () => {\n    if (typeof jumpDateInput.showPicker === 'function') {\n      jumpDateInput.showPicker();\n    } else {\n      jumpDateInput.click();\n    }\n  });\n  jumpDateInput.addEventListener('change', () => {\n    if (jumpDateInput.value) {\n      vscode.postMessage({ command: 'jumpToDate', date: jumpDateInput.value });\n    }\n    jumpDateInput.value = '';\n  });\n  backToTodayBtn.addEventListener('click', () => {\n    vscode.postMessage({ command: 'jumpToToday' });\n  });\n\n  timeline.addEventListener('scroll', () => {\n    maybeLoadOlderEntries();\n  }, { passive: true });\n  allBtn.addEventListener('click', () => {\n    renderTimeline(latestSections);\n  });\n  activeTagBtn.addEventListener('click', () => {\n    activeTag = null;\n    activeTagLabel = '';\n    renderTimeline(latestSections);\n  });\n\n  let searchDebounceTimer = null;\n\n  searchInput.addEventListener('input', () => {\n    const query = searchInput.value;\n    clearSearch.style.display = query ? '' : 'none';\n    if (searchDebounceTimer) {\n      clearTimeout(searchDebounceTimer);\n    }\n    searchDebounceTimer = setTimeout(() => {\n      const trimmed = query.trim();\n      if (trimmed) {\n        currentSearchText = trimmed.toLowerCase();\n        pendingScrollMode = 'top';\n        vscode.postMessage({ command: 'searchMoments', query });\n      } else {\n        currentSearchText = '';\n        vscode.postMessage({ command: 'refreshFeed' });\n      }\n    }, 250);\n  });\n\n  clearSearch.addEventListener('click', () => {\n    if (searchDebounceTimer) {\n      clearTimeout(searchDebounceTimer);\n      searchDebounceTimer = null;\n    }\n    searchInput.value = '';\n    currentSearchText = '';\n    clearSearch.style.display = 'none';\n    searchInput.focus();\n    vscode.postMessage({ command: 'refreshFeed' });\n  });\n\n  function updateExportBar() {\n    const count = selectedEntries.size;\n    selectedCountLabel.textContent = UI('selectedCount', { count: count });\n    exportNoteBtn.disabled = count === 0;\n  }\n\n  function enterSelectMode() {\n    selectMode = true;\n    document.body.classList.add('select-mode');\n    exportBtn.classList.add('active');\n    selectedEntries.clear();\n    updateExportBar();\n    renderTimeline(latestSections);\n  }\n\n  function exitSelectMode() {\n    selectMode = false;\n    document.body.classList.remove('select-mode');\n    exportBtn.classList.remove('active');\n    selectedEntries.clear();\n    renderTimeline(latestSections);\n  }\n\n  exportBtn.addEventListener('click', () => {\n    if (selectMode) {\n      exitSelectMode();\n    } else {\n      enterSelectMode();\n    }\n  });\n\n  exportCancelBtn.addEventListener('click', exitSelectMode);\n\n  exportNoteBtn.addEventListener('click', () => {\n    if (selectedEntries.size === 0) { return; }\n    const entriesData = [];\n    for (const key of selectedEntries) {\n      const { date, index } = JSON.parse(key);\n      const sectionData = latestSections.find(s => s.date === date);\n      if (sectionData) {\n        const entryData = sectionData.entries.find(e => e.index === index);\n        if (entryData) {\n          entriesData.push({ date, index, text: entryData.text });\n        }\n      }\n    }\n    if (entriesData.length > 0) {\n      vscode.postMessage({ command: 'exportToNote', entries: entriesData });\n    }\n    exitSelectMode();\n  });\n\n  document.addEventListener('keydown', (e) => {\n    if (e.key === 'Escape' && selectMode && editingEntryKey === null) {\n      exitSelectMode();\n    }\n  });\n";
-export const momentsStyle = "  *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }\n\n  body {\n    --moments-inline-padding: 10px;\n    --moments-control-radius: 6px;\n    --moments-surface: var(--vscode-editorWidget-background, var(--vscode-sideBar-background));\n    --moments-accent: var(--vscode-textLink-foreground);\n    --moments-muted: var(--vscode-descriptionForeground);\n    --moments-border: var(--vscode-panel-border);\n    font-family: var(--vscode-font-family);\n    font-size: var(--vscode-font-size);\n    color: var(--vscode-foreground);\n    background: var(--vscode-sideBar-background, var(--vscode-editor-background));\n    display: flex;\n    flex-direction: column;\n    height: 100vh;\n    overflow: hidden;\n  }\n\n  /* ---- Top bar ---- */\n  .topbar {\n    display: flex;\n    flex-direction: column;\n    align-items: stretch;\n    padding: 10px var(--moments-inline-padding) 8px;\n    background: var(--moments-surface);\n    border-bottom: 1px solid var(--moments-border);\n    flex-shrink: 0;\n    gap: 8px;\n  }\n\n  .topbar-row {\n    display: flex;\n    align-items: center;\n    min-width: 0;\n  }\n\n  .topbar-row-main {\n    flex-wrap: wrap;\n    justify-content: space-between;\n    gap: 10px;\n  }\n\n  .topbar-row-search {\n    align-items: stretch;\n    gap: 8px;\n    width: 100%;\n  }\n\n  .topbar-left {\n    display: flex;\n    align-items: center;\n    flex: 1 1 auto;\n    flex-wrap: wrap;\n    gap: 8px;\n    min-width: 0;\n  }\n\n  .topbar-date {\n    color: var(--vscode-foreground);\n    font-size: 12px;\n    font-weight: 600;\n    overflow: hidden;\n    text-overflow: ellipsis;\n    white-space: nowrap;\n    line-height: 1.3;\n  }\n\n  .topbar-count {\n    display: inline-flex;\n    align-items: center;\n    min-height: 22px;\n    padding: 0 8px;\n    border-radius: 999px;\n    background: color-mix(in srgb, var(--moments-accent) 12%, transparent);\n    color: var(--moments-accent);\n    font-size: 11px;\n    font-weight: 600;\n    white-space: nowrap;\n    line-height: 1;\n  }\n\n  .topbar-right {\n    display: flex;\n    align-items: center;\n    gap: 2px;\n    flex-shrink: 0;\n    padding: 2px;\n    border-radius: 999px;\n    background: color-mix(in srgb, var(--vscode-foreground) 6%, transparent);\n    border: 1px solid color-mix(in srgb, var(--moments-border) 85%, transparent);\n  }\n\n  .nav-btn {\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n    flex: none;\n    text-align: center;\n    background: none;\n    border: none;\n    color: var(--vscode-foreground);\n    cursor: pointer;\n    padding: 4px 6px;\n    border-radius: 4px;\n    font-size: 11px;\n    font-weight: 500;\n    opacity: 0.65;\n    transition: opacity 0.15s, background 0.15s;\n    min-width: 28px;\n    min-height: 28px;\n  }\n  .nav-btn svg {\n    width: 14px;\n    height: 14px;\n    fill: currentColor;\n  }\n  .nav-btn:hover { opacity: 1; background: var(--vscode-toolbar-hoverBackground); }\n\n  .nav-btn.active {\n    opacity: 1;\n    color: var(--vscode-foreground);\n    background: var(--vscode-button-secondaryBackground, color-mix(in srgb, var(--vscode-foreground) 10%, transparent));\n    border-radius: 4px;\n  }\n\n  .open-btn {\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n    background: none;\n    border: none;\n    color: var(--vscode-foreground);\n    cursor: pointer;\n    padding: 4px 6px;\n    border-radius: 4px;\n    opacity: 0.5;\n    min-width: 28px;\n    min-height: 28px;\n    transition: opacity 0.15s, background 0.15s;\n  }\n  .open-btn svg {\n    width: 13px;\n    height: 13px;\n    fill: currentColor;\n  }\n  .open-btn:hover { opacity: 1; background: var(--vscode-toolbar-hoverBackground); }\n\n  /* ---- Timeline ---- */\n  .timeline {\n    flex: 1;\n    overflow-y: auto;\n    padding: 0;\n    display: flex;\n    flex-direction: column;\n    gap: 0;\n    scroll-behavior: smooth;\n  }\n\n  .day-section {\n    display: flex;\n    flex-direction: column;\n    gap: 10px;\n    padding: 8px var(--moments-inline-padding) 12px 28px;\n    position: relative;\n  }\n\n  /* Vertical timeline line */\n  .day-section::before {\n    content: \"\";\n    position: absolute;\n    left: 17px;\n    top: 42px;\n    bottom: 12px;\n    width: 2px;\n    background: color-mix(in srgb, var(--moments-border) 60%, transparent);\n    border-radius: 999px;\n  }\n\n  .day-section-header {\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    padding: 10px 12px;\n    position: sticky;\n    top: 0;\n    z-index: 10;\n    background: color-mix(in srgb, var(--vscode-sideBar-background, var(--vscode-editor-background)) 75%, transparent);\n    backdrop-filter: blur(8px);\n    -webkit-backdrop-filter: blur(8px);\n    border-bottom: 1px solid color-mix(in srgb, var(--moments-border) 40%, transparent);\n    margin-bottom: 4px;\n    margin-left: -28px;\n  }\n\n  .day-section-label {\n    color: var(--moments-muted);\n    font-size: 11px;\n    font-weight: 600;\n    text-align: center;\n    white-space: nowrap;\n    letter-spacing: 0.05em;\n  }\n\n  .day-section-label.is-today {\n    color: var(--moments-accent);\n  }\n\n  .empty-state {\n    text-align: center;\n    color: var(--moments-muted);\n    font-size: 12px;\n    margin: 24px 12px 0;\n    opacity: 0.6;\n  }\n\n  .entry {\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n    padding: 12px 14px 10px;\n    background: var(--vscode-editor-background);\n    border: 1px solid color-mix(in srgb, var(--moments-border) 75%, transparent);\n    border-radius: 8px;\n    transition: all 0.2s cubic-bezier(0.4, 0, 0.2, 1);\n    word-break: break-word;\n    position: relative;\n    box-shadow: 0 1px 3px rgba(0, 0, 0, 0.05);\n  }\n\n  /* Timeline Dot */\n  .entry::before {\n    content: \"\";\n    position: absolute;\n    left: -16px;\n    top: 18px;\n    width: 8px;\n    height: 8px;\n    border-radius: 999px;\n    background: var(--moments-border);\n    border: 2px solid var(--vscode-sideBar-background, var(--vscode-editor-background));\n    transition: all 0.2s ease;\n    z-index: 2;\n  }\n\n  .entry:hover {\n    background: var(--vscode-list-hoverBackground);\n    border-color: color-mix(in srgb, var(--moments-accent) 45%, var(--moments-border));\n    transform: translateY(-1px);\n    box-shadow: 0 4px 8px -2px rgba(0, 0, 0, 0.12);\n  }\n\n  .entry:hover::before {\n    background: var(--moments-accent);\n    transform: scale(1.2);\n  }\n\n  .entry-meta {\n    display: flex;\n    align-items: center;\n    flex: 1 1 auto;\n    flex-wrap: wrap;\n    gap: 4px;\n    min-width: 0;\n    color: var(--moments-muted);\n    font-size: 11px;\n  }\n\n  .entry-header {\n    display: flex;\n    align-items: flex-start;\n    justify-content: space-between;\n    gap: 8px;\n    min-width: 0;\n  }\n\n  .entry-header-leading {\n    display: flex;\n    align-items: flex-start;\n    gap: 8px;\n    min-width: 0;\n    flex: 1 1 auto;\n  }\n\n  .entry-time {\n    display: inline-flex;\n    align-items: center;\n    min-height: 20px;\n    padding: 0 8px;\n    border-radius: 999px;\n    background: color-mix(in srgb, var(--vscode-foreground) 6%, transparent);\n    color: var(--moments-muted);\n    white-space: nowrap;\n    font-variant-numeric: tabular-nums;\n    font-weight: 500;\n    font-size: 10px;\n  }\n\n  .entry-content {\n    min-width: 0;\n    flex: 1;\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n  }\n\n  .entry-text {\n    line-height: 1.45;\n    font-size: 12.5px;\n    white-space: pre-wrap;\n    overflow-wrap: anywhere;\n  }\n\n  .entry-edit {\n    display: flex;\n    flex-direction: column;\n    gap: 8px;\n  }\n\n  .entry-edit textarea {\n    margin-bottom: 0;\n    min-height: 72px;\n    max-height: 180px;\n    font-size: 12.5px;\n    border-radius: 6px;\n    border: 1px solid var(--moments-border);\n    padding: 8px;\n  }\n\n  .entry-edit-actions,\n  .entry-actions {\n    display: flex;\n    align-items: center;\n    gap: 4px;\n    flex-wrap: wrap;\n  }\n\n  .entry-header-actions {\n    flex: none;\n    flex-wrap: nowrap;\n    justify-content: flex-end;\n    margin-left: auto;\n    gap: 2px;\n    padding: 2px;\n    border-radius: 999px;\n    background: color-mix(in srgb, var(--vscode-foreground) 4%, transparent);\n    border: 1px solid color-mix(in srgb, var(--moments-border) 90%, transparent);\n  }\n\n  .entry:hover .entry-header-actions,\n  .entry:focus-within .entry-header-actions {\n    background: color-mix(in srgb, var(--vscode-toolbar-hoverBackground, rgba(90, 93, 94, 0.31)) 80%, transparent);\n  }\n\n  .entry-action,\n  .pin-btn {\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n    background: none;\n    border: none;\n    color: var(--moments-muted);\n    cursor: pointer;\n    padding: 4px;\n    border-radius: 4px;\n    font-size: 11px;\n    opacity: 0.8;\n    transition: all 0.15s ease;\n  }\n\n  .pin-btn {\n    font-size: 12px;\n    line-height: 1;\n  }\n\n  .entry-action svg,\n  .pin-btn svg {\n    width: 14px;\n    height: 14px;\n    stroke-width: 2.2;\n  }\n\n  .entry-action:hover,\n  .pin-btn:hover {\n    color: var(--vscode-foreground);\n    background: var(--vscode-toolbar-hoverBackground, rgba(90, 93, 94, 0.31));\n    opacity: 1;\n    transform: translateY(-0.5px);\n  }\n\n  .entry-action.primary {\n    color: var(--moments-accent);\n  }\n\n  .entry-action.danger:hover {\n    color: var(--vscode-errorForeground);\n  }\n\n  .entry-action.save {\n    color: var(--moments-accent);\n  }\n\n  .tag {\n    display: inline-block;\n    border: none;\n    padding: 0 6px;\n    border-radius: 4px;\n    background: color-mix(in srgb, var(--moments-accent) 15%, transparent);\n    color: var(--moments-accent);\n    font-size: 11px;\n    font-weight: 500;\n    margin: 0 1px;\n    text-decoration: none;\n    font-family: inherit;\n    line-height: 1.4;\n    cursor: pointer;\n    transition: all 150ms ease;\n  }\n\n  .tag:hover {\n    background: color-mix(in srgb, var(--moments-accent) 25%, transparent);\n  }\n\n  .due-date-inline {\n    display: inline-block;\n    padding: 0 6px;\n    border-radius: 4px;\n    background: color-mix(in srgb, var(--vscode-charts-orange, #e8a838) 15%, transparent);\n    color: var(--vscode-charts-orange, #e8a838);\n    font-size: 11px;\n    font-weight: 500;\n    margin: 0 1px;\n    line-height: 1.4;\n    white-space: nowrap;\n  }\n\n  /* ---- Due date badges ---- */\n  .due-badge {\n    display: inline-flex;\n    align-items: center;\n    min-height: 20px;\n    padding: 0 8px;\n    border-radius: 999px;\n    font-size: 11px;\n    font-weight: 500;\n    line-height: 1.4;\n    white-space: nowrap;\n    background: color-mix(in srgb, var(--vscode-foreground) 10%, transparent);\n    color: var(--moments-muted);\n  }\n\n  .due-overdue .due-badge {\n    background: color-mix(in srgb, var(--vscode-errorForeground, #f44) 18%, transparent);\n    color: var(--vscode-errorForeground, #f44);\n  }\n\n  .due-today .due-badge {\n    background: color-mix(in srgb, var(--vscode-charts-orange, #e8a838) 18%, transparent);\n    color: var(--vscode-charts-orange, #e8a838);\n  }\n\n  .due-upcoming .due-badge {\n    background: color-mix(in srgb, var(--vscode-foreground) 8%, transparent);\n    color: var(--moments-muted);\n    opacity: 0.75;\n  }\n\n  /* ---- Input area ---- */\n  .input-area {\n    flex-shrink: 0;\n    padding: 10px var(--moments-inline-padding) 12px;\n    border-bottom: 1px solid color-mix(in srgb, var(--moments-border) 60%, transparent);\n    background: var(--vscode-editorWidget-background, var(--vscode-sideBar-background));\n    box-shadow: 0 2px 8px rgba(0, 0, 0, 0.05);\n  }\n\n  .input-container {\n    display: flex;\n    flex-direction: column;\n    width: 100%;\n    background: color-mix(in srgb, var(--vscode-input-background) 95%, transparent);\n    border: 1px solid color-mix(in srgb, var(--vscode-input-border, var(--moments-border)) 80%, transparent);\n    border-radius: 8px;\n    transition: all 0.2s cubic-bezier(0.4, 0, 0.2, 1);\n  }\n\n  .input-container:focus-within {\n    border-color: var(--vscode-focusBorder);\n    background: var(--vscode-input-background);\n    box-shadow: 0 0 0 3px color-mix(in srgb, var(--vscode-focusBorder) 15%, transparent);\n    outline: none;\n  }\n\n  textarea {\n    display: block;\n    width: 100%;\n    resize: none;\n    background: transparent;\n    color: var(--vscode-input-foreground);\n    border: none;\n    padding: 10px 12px;\n    font-family: var(--vscode-font-family);\n    font-size: var(--vscode-font-size);\n    line-height: 1.45;\n    outline: none;\n    min-height: 38px;\n    max-height: 120px;\n    overflow-y: auto;\n  }\n  textarea::placeholder { color: var(--vscode-input-placeholderForeground); }\n\n  /* Bottom row: send button */\n  .input-actions {\n    display: flex;\n    align-items: center;\n    justify-content: flex-end;\n    padding: 2px 6px 6px 8px;\n    gap: 5px;\n  }\n\n  .send-icon-btn {\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    width: 28px;\n    height: 28px;\n    background: transparent;\n    border: none;\n    color: var(--moments-muted);\n    cursor: pointer;\n    border-radius: 6px;\n    padding: 0;\n    transition: all 0.2s ease;\n  }\n\n  .send-icon-btn:hover {\n    color: var(--moments-accent);\n    background: color-mix(in srgb, var(--moments-accent) 12%, transparent);\n    transform: translateY(-0.5px);\n  }\n\n  .send-icon-btn svg {\n    width: 14px;\n    height: 14px;\n    stroke-width: 2.2;\n  }\n\n  .send-icon-btn:active {\n    background: var(--vscode-toolbar-activeBackground, rgba(90, 93, 94, 0.5));\n  }\n\n  .error-banner {\n    background: var(--vscode-inputValidation-errorBackground);\n    border: 1px solid var(--vscode-inputValidation-errorBorder);\n    color: var(--vscode-inputValidation-errorForeground);\n    padding: 6px 10px;\n    font-size: 11px;\n    border-radius: 4px;\n    margin-bottom: 6px;\n  }\n\n  /* ---- Search bar ---- */\n  .search-bar {\n    position: relative;\n    width: 100%;\n    flex: 1 1 auto;\n    min-width: 0;\n    display: flex;\n    align-items: center;\n  }\n\n  .search-icon {\n    position: absolute;\n    left: 7px;\n    top: 50%;\n    transform: translateY(-50%);\n    width: 13px;\n    height: 13px;\n    fill: var(--moments-muted);\n    opacity: 0.6;\n    pointer-events: none;\n  }\n\n  .search-bar input {\n    width: 100%;\n    background: var(--vscode-input-background);\n    color: var(--vscode-input-foreground);\n    border: 1px solid var(--vscode-input-border, transparent);\n    border-radius: var(--moments-control-radius);\n    padding: 5px 26px 5px 26px;\n    font-family: var(--vscode-font-family);\n    font-size: 12px;\n    outline: none;\n    box-sizing: border-box;\n  }\n\n  .search-bar input:focus {\n    border-color: var(--vscode-focusBorder);\n    outline: 1px solid var(--vscode-focusBorder);\n    outline-offset: -1px;\n  }\n\n  .search-bar input::placeholder {\n    color: var(--vscode-input-placeholderForeground);\n  }\n\n  .clear-search-btn {\n    position: absolute;\n    right: 4px;\n    top: 50%;\n    transform: translateY(-50%);\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n    background: none;\n    border: none;\n    color: var(--moments-muted);\n    cursor: pointer;\n    padding: 3px;\n    border-radius: 3px;\n    opacity: 0.6;\n    transition: opacity 0.15s, background 0.15s;\n  }\n  .clear-search-btn svg {\n    width: 12px;\n    height: 12px;\n    fill: currentColor;\n  }\n  .clear-search-btn:hover { opacity: 1; background: var(--vscode-toolbar-hoverBackground); }\n\n  .filter-chip-btn {\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n    flex: none;\n    min-height: 28px;\n    min-width: 0;\n    max-width: 40%;\n    border: 1px solid color-mix(in srgb, var(--moments-accent) 35%, var(--moments-border));\n    border-radius: 999px;\n    background: color-mix(in srgb, var(--moments-accent) 12%, transparent);\n    color: var(--moments-accent);\n    padding: 0 8px;\n    font-size: 11px;\n    font-weight: 500;\n    line-height: 1;\n    cursor: pointer;\n    white-space: nowrap;\n    overflow: hidden;\n    text-overflow: ellipsis;\n    transition: background 0.15s, border-color 0.15s, color 0.15s, opacity 0.15s;\n  }\n\n  .filter-chip-btn:hover {\n    background: color-mix(in srgb, var(--moments-accent) 18%, transparent);\n    border-color: color-mix(in srgb, var(--moments-accent) 50%, var(--moments-border));\n  }\n\n  /* ---- Export select mode ---- */\n  .export-btn.active {\n    opacity: 1;\n    color: var(--moments-accent);\n    background: color-mix(in srgb, var(--moments-accent) 12%, transparent);\n    border-radius: 4px;\n  }\n\n  .select-entry-cb {\n    display: none;\n    flex: none;\n    width: 15px;\n    height: 15px;\n    margin: 0;\n    accent-color: var(--moments-accent);\n    cursor: pointer;\n    margin-top: 1px;\n  }\n\n  body.select-mode .select-entry-cb {\n    display: block;\n  }\n\n  .entry.selected-for-export {\n    background: color-mix(in srgb, var(--moments-accent) 10%, var(--vscode-editor-background));\n    border-color: color-mix(in srgb, var(--moments-accent) 30%, var(--moments-border));\n  }\n\n  .export-action-bar {\n    flex-shrink: 0;\n    display: none;\n    align-items: center;\n    gap: 8px;\n    padding: 8px var(--moments-inline-padding);\n    border-top: 1px solid var(--vscode-focusBorder, var(--moments-border));\n    background: var(--vscode-editorWidget-background, var(--vscode-sideBar-background));\n  }\n\n  body.select-mode .export-action-bar {\n    display: flex;\n  }\n\n  .selected-count-label {\n    flex: 1;\n    font-size: 11px;\n    color: var(--moments-muted);\n  }\n\n  .export-note-btn {\n    background: var(--vscode-button-background);\n    color: var(--vscode-button-foreground);\n    border: none;\n    border-radius: 3px;\n    padding: 4px 10px;\n    font-size: 11px;\n    cursor: pointer;\n    transition: background 0.15s;\n  }\n  .export-note-btn:hover { background: var(--vscode-button-hoverBackground); }\n  .export-note-btn:disabled { opacity: 0.5; cursor: not-allowed; }\n\n  .export-cancel-btn {\n    background: var(--vscode-button-secondaryBackground);\n    color: var(--vscode-button-secondaryForeground);\n    border: none;\n    border-radius: 3px;\n    padding: 4px 10px;\n    font-size: 11px;\n    cursor: pointer;\n    transition: background 0.15s;\n  }\n  .export-cancel-btn:hover { background: var(--vscode-button-secondaryHoverBackground); }\n\n  /* ---- Pinned section ---- */\n  .pinned-section {\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n    padding: 6px var(--moments-inline-padding) 8px;\n    border-bottom: 2px solid var(--moments-accent);\n  }\n\n  .pinned-section-header {\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    padding: 10px 12px 6px;\n    position: sticky;\n    top: 0;\n    z-index: 1;\n    background: var(--vscode-sideBar-background, var(--vscode-editor-background));\n    border-bottom: 1px solid var(--moments-border);\n  }\n\n  .pinned-section-label {\n    color: var(--moments-accent);\n    font-size: 11px;\n    font-weight: 600;\n    text-align: center;\n    white-space: nowrap;\n  }\n\n  .pinned-entry {\n    background: color-mix(in srgb, var(--moments-accent) 6%, var(--vscode-editor-background));\n    border-color: color-mix(in srgb, var(--moments-accent) 40%, transparent);\n  }\n  .pinned-entry:hover { background: color-mix(in srgb, var(--moments-accent) 12%, var(--vscode-list-hoverBackground)); }\n\n  .pin-btn.pinned { opacity: 1; color: var(--moments-accent); }\n  .pin-btn:not(.pinned) { opacity: 0.45; }\n  .entry:hover .pin-btn:not(.pinned),\n  .entry:focus-within .pin-btn:not(.pinned) {\n    opacity: 0.8;\n    color: var(--vscode-foreground);\n  }\n\n  #jumpDateInput {\n    position: absolute;\n    opacity: 0;\n    pointer-events: none;\n    width: 1px;\n    height: 1px;\n    clip: rect(0 0 0 0);\n  }\n";
+export const dashboardScript = "    const vscode = acquireVsCodeApi();\n    let dashboardData = __DASHBOARD_DATA__;\n    currentLocale = dashboardData.locale || 'en';\n    const savedState = vscode.getState() || {};\n    const pendingCandidateAdds = [];\n\n    // Populate model selector with available models\n    function populateModelSelector() {\n      const modelSelect = document.getElementById(\"ai-model-select\");\n      if (modelSelect && dashboardData.availableModels && dashboardData.availableModels.length > 0) {\n        // Keep the first \"Auto select\" option\n        const autoOption = modelSelect.querySelector('option[value=\"\"]');\n        modelSelect.innerHTML = \"\";\n        if (autoOption) {\n          modelSelect.appendChild(autoOption);\n        } else {\n          const defaultOption = document.createElement(\"option\");\n          defaultOption.value = \"\";\n          defaultOption.textContent = UI('autoSelect');\n          modelSelect.appendChild(defaultOption);\n        }\n\n        dashboardData.availableModels.forEach(function(model) {\n          const option = document.createElement(\"option\");\n          option.value = model.id;\n          option.textContent = model.name;\n          modelSelect.appendChild(option);\n        });\n\n        // Restore selected model if any\n        if (savedState.selectedModel) {\n          modelSelect.value = savedState.selectedModel;\n        }\n      }\n    }\n\n    const browserDueTokenPattern = new RegExp(__DUE_TOKEN_PATTERN_SOURCE__, \"i\");\n\n    function sanitizeBrowserTaskText(text) {\n      return String(text || \"\")\n        .replaceAll(String.fromCharCode(13) + String.fromCharCode(10), String.fromCharCode(10))\n        .split(String.fromCharCode(10))\n        .map(function (line) {\n          return line.trim();\n        })\n        .filter(Boolean)\n        .join(\" / \")\n        .split(/\\s+/)\n        .filter(Boolean)\n        .join(\" \")\n        .trim();\n    }\n\n    function normalizedCandidateIdentity(text) {\n      return sanitizeBrowserTaskText(text)\n        .split(\" \")\n        .filter(function (part) {\n          return !browserDueTokenPattern.test(part);\n        })\n        .join(\" \")\n        .trim()\n        .normalize(\"NFKC\")\n        .toLowerCase();\n    }\n\n    function normalizeStoredCandidateTask(task) {\n      if (!task || typeof task !== \"object\") {\n        return null;\n      }\n\n      const text = sanitizeBrowserTaskText(typeof task.text === \"string\" ? task.text : \"\");\n      if (!text) {\n        return null;\n      }\n\n      return {\n        kind: \"candidate\",\n        text: text,\n        dueDate:\n          typeof task.dueDate === \"string\" && task.dueDate.length === 10 && task.dueDate[4] === \"-\" && task.dueDate[7] === \"-\"\n            ? task.dueDate\n            : null,\n        category: typeof task.category === \"string\" && task.category.trim().length > 0 ? task.category : \"other\",\n        priority: typeof task.priority === \"string\" && task.priority.trim().length > 0 ? task.priority : \"medium\",\n        timeEstimateMin:\n          typeof task.timeEstimateMin === \"number\" && Number.isFinite(task.timeEstimateMin)\n            ? task.timeEstimateMin\n            : 0,\n        source: task.source === \"notes\" ? \"notes\" : \"moments\",\n        sourceLabel:\n          typeof task.sourceLabel === \"string\" && task.sourceLabel.trim().length > 0\n            ? task.sourceLabel\n            : task.source === \"notes\"\n              ? \"Notes\"\n              : \"Moments\",\n        existsAlready: Boolean(task.existsAlready),\n      };\n    }\n\n    function normalizeStoredCandidateTaskForSource(task, fallbackSource) {\n      if (!task || typeof task !== \"object\") {\n        return null;\n      }\n\n      const normalizedTask = normalizeStoredCandidateTask(task);\n      if (!normalizedTask) {\n        return null;\n      }\n\n      const legacySourceLabel =\n        typeof task.sourceLabel === \"string\" && task.sourceLabel.trim().length > 0\n          ? task.sourceLabel\n          : typeof task.sourceNote === \"string\" && task.sourceNote.trim().length > 0\n            ? task.sourceNote\n            : fallbackSource === \"notes\"\n              ? \"Notes\"\n              : \"Moments\";\n\n      return {\n        ...normalizedTask,\n        source: fallbackSource,\n        sourceLabel: legacySourceLabel,\n      };\n    }\n\n    function migrateLegacyCandidateState(savedState) {\n      if (Array.isArray(savedState.candidateTasks)) {\n        const candidateTasks = savedState.candidateTasks\n          .map(function (task) {\n            const normalizedTask = normalizeStoredCandidateTask(task);\n            if (!normalizedTask) {\n              return null;\n            }\n\n            return {\n              ...normalizedTask,\n              order: typeof task.order === \"number\" ? task.order : undefined,\n              added: Boolean(task.added),\n              extractRunAt: typeof task.extractRunAt === \"string\" ? task.extractRunAt : undefined,\n              extractionIndex:\n                typeof task.extractionIndex === \"number\"\n                  ? task.extractionIndex\n                  : typeof task.order === \"number\"\n                    ? task.order\n                    : 0,\n            };\n          })\n          .filter(Boolean);\n        const maxOrder = candidateTasks.reduce(function (highest, task) {\n          return typeof task.order === \"number\" && task.order > highest ? task.order : highest;\n        }, -1);\n        return {\n          candidateTasks: candidateTasks,\n          candidateOrderSeed:\n            typeof savedState.candidateOrderSeed === \"number\"\n              ? savedState.candidateOrderSeed\n              : maxOrder + 1,\n          addedCandidateKeys: Array.isArray(savedState.addedCandidateKeys)\n            ? savedState.addedCandidateKeys.filter(function (key) {\n                return typeof key === \"string\" && key.length > 0;\n              })\n            : [],\n        };\n      }\n\n      let nextOrder = 0;\n      const fromMoments = (Array.isArray(savedState.extractedTasks) ? savedState.extractedTasks : []).map(\n        function (task) {\n          const normalizedTask = normalizeStoredCandidateTaskForSource(task, \"moments\");\n          if (!normalizedTask) {\n            return null;\n          }\n\n          return {\n            ...normalizedTask,\n            order: nextOrder++,\n            added: Array.isArray(savedState.addedExtractedKeys)\n              ? savedState.addedExtractedKeys.includes(normalizedCandidateIdentity(normalizedTask.text))\n              : false,\n            extractionIndex: nextOrder - 1,\n          };\n        },\n      ).filter(Boolean);\n      const fromNotes = (Array.isArray(savedState.notesExtractedTasks) ? savedState.notesExtractedTasks : []).map(\n        function (task) {\n          const normalizedTask = normalizeStoredCandidateTaskForSource(task, \"notes\");\n          if (!normalizedTask) {\n            return null;\n          }\n\n          return {\n            ...normalizedTask,\n            order: nextOrder++,\n            added: Array.isArray(savedState.notesAddedExtractedKeys)\n              ? savedState.notesAddedExtractedKeys.includes(normalizedCandidateIdentity(normalizedTask.text))\n              : false,\n            extractionIndex: nextOrder - 1,\n          };\n        },\n      ).filter(Boolean);\n\n      return {\n        candidateTasks: fromMoments.concat(fromNotes),\n        candidateOrderSeed: nextOrder,\n        addedCandidateKeys: (Array.isArray(savedState.addedExtractedKeys) ? savedState.addedExtractedKeys : []).concat(\n          Array.isArray(savedState.notesAddedExtractedKeys) ? savedState.notesAddedExtractedKeys : [],\n        ),\n      };\n    }\n\n    const migratedCandidates = migrateLegacyCandidateState(savedState);\n\n    // Collapsed parents are kept by file and fingerprint (`path@fingerprint`), which survive\n    // the line shifts that change a task id.\n    function getTaskCollapseKey(taskId) {\n      return String(taskId).replace(/:\\d+(?=@[^@:]+$)/, \"\");\n    }\n\n    function listPresentCollapsedKeys(collapsedKeys, tasks) {\n      const keys = new Set(\n        (tasks || []).map(function (task) {\n          return getTaskCollapseKey(task.id);\n        }),\n      );\n      return collapsedKeys.filter(function (key) {\n        return keys.has(key);\n      });\n    }\n\n    const state = {\n      filter: savedState.filter === \"focus\" ? \"attention\" : (savedState.filter || \"all\"),\n      search: savedState.search || \"\",\n      editingId: savedState.editingId || null,\n      candidateTasks: migratedCandidates.candidateTasks,\n      candidateOrderSeed: migratedCandidates.candidateOrderSeed,\n      addedCandidateKeys: Array.isArray(savedState.addedCandidateKeys)\n        ? savedState.addedCandidateKeys\n        : migratedCandidates.addedCandidateKeys,\n      aiStatus: savedState.aiStatus || \"\",\n      aiStatusType: savedState.aiStatusType || \"idle\",\n      notesFromDate: savedState.notesFromDate || getDefaultDate(7),\n      notesToDate: savedState.notesToDate || dashboardData.today,\n      notesAiStatus: savedState.notesAiStatus || \"\",\n      notesAiStatusType: savedState.notesAiStatusType || \"idle\",\n      candidateBlockShown: savedState.candidateBlockShown || false,\n      candidateBlockError: savedState.candidateBlockError || \"\",\n      selectedModel: savedState.selectedModel || \"\",\n      advancedPanelOpen: savedState.advancedPanelOpen || false,\n      collapsedTaskIds: listPresentCollapsedKeys(\n        Array.isArray(savedState.collapsedTaskIds) ? savedState.collapsedTaskIds.map(getTaskCollapseKey) : [],\n        dashboardData.tasks,\n      ),\n      layout: [\"board\", \"calendar\", \"moments\"].includes(savedState.layout) ? savedState.layout : \"list\",\n      boardGroup: savedState.boardGroup === \"tag\" ? \"tag\" : \"section\",\n      calendarMonth: /^\\d{4}-\\d{2}$/.test(savedState.calendarMonth || \"\") ? savedState.calendarMonth : dashboardData.today.slice(0, 7),\n      selecting: savedState.selecting === true,\n      // Selection is not persisted: task ids change whenever their file is edited.\n      selectedTaskIds: [],\n    };\n\n    // Ranked task ids from the host search index for the current query; until they arrive\n    // the list falls back to a plain substring match.\n    let taskSearchResult = null;\n    let taskSearchTimer = null;\n\n    function requestTaskSearch() {\n      if (taskSearchTimer) {\n        clearTimeout(taskSearchTimer);\n      }\n      if (!String(state.search || \"\").trim()) {\n        taskSearchResult = null;\n        return;\n      }\n      taskSearchTimer = setTimeout(function () {\n        taskSearchTimer = null;\n        vscode.postMessage({ command: \"searchTasks\", query: state.search });\n      }, 150);\n    }\n\n    function getTaskSearchRanks(query) {\n      return taskSearchResult && taskSearchResult.query === query ? taskSearchResult.ranks : null;\n    }\n\n    // Query filters (`tag:#work`, `due<+7d`, `-done`, …) are evaluated by the host; the\n    // substring fallback only looks at the plain words.\n    const QUERY_FILTER_TOKEN_RE = /^(-\\S|done$|open$|(tag|path|is|due|date|priority|category)(:|<|>|=))/i;\n\n    function getPlainSearchText(query) {\n      return String(query || \"\")\n        .split(/\\s+/)\n        .filter(function (word) {\n          return word && !QUERY_FILTER_TOKEN_RE.test(word);\n        })\n        .join(\" \");\n    }\n\n    function pad2(n) {\n      return String(n).padStart(2, \"0\");\n    }\n\n    function localDateString(d) {\n      return d.getFullYear() + \"-\" + pad2(d.getMonth() + 1) + \"-\" + pad2(d.getDate());\n    }\n\n    function getDefaultDate(daysAgo) {\n      const d = new Date();\n      d.setDate(d.getDate() - daysAgo);\n      return localDateString(d);\n    }\n\n    function shiftDateString(date, days) {\n      const d = new Date(date + \"T00:00:00\");\n      d.setDate(d.getDate() + days);\n      return localDateString(d);\n    }\n\n    function shiftMonthString(month, months) {\n      const d = new Date(month + \"-01T00:00:00\");\n      d.setMonth(d.getMonth() + months);\n      return localDateString(d).slice(0, 7);\n    }\n\n    const simplifiedSectionOrder = [\"today\", \"planned\", \"unsorted\", \"done\"];\n    const simplifiedSectionTitles = {\n      today: UI('sectionToday'),\n      planned: UI('sectionPlanned'),\n      unsorted: UI('sectionUnsorted'),\n      done: UI('sectionDone'),\n    };\n    const simplifiedSectionDescriptions = {\n      today: UI('sectionTodayDesc'),\n      planned: UI('sectionPlannedDesc'),\n      unsorted: UI('sectionUnsortedDesc'),\n      done: UI('sectionDoneDesc'),\n    };\n\n    // Board columns by date section. Overdue only receives cards from the classification, so\n    // it is not a drop target.\n    const boardSectionColumns = [\n      { key: \"overdue\", title: UI('boardOverdue'), sections: [\"overdue\"], droppable: false },\n      { key: \"today\", title: UI('boardToday'), sections: [\"today\"], droppable: true },\n      { key: \"upcoming\", title: UI('boardUpcoming'), sections: [\"upcoming\"], droppable: true },\n      { key: \"scheduled\", title: UI('boardScheduled'), sections: [\"scheduled\"], droppable: true },\n      { key: \"backlog\", title: UI('boardBacklog'), sections: [\"backlog\", \"unsorted\"], droppable: true },\n      { key: \"done\", title: UI('boardDone'), sections: [\"done\"], droppable: true },\n    ];\n\n    const filterDefinitions = [\n      { id: \"all\", label: UI('filterAll'), count: dashboardData.tasks.length },\n      { id: \"today\", label: UI('filterToday'), count: dashboardData.sectionCounts.overdue + dashboardData.sectionCounts.today },\n      { id: \"planned\", label: UI('filterPlanned'), count: dashboardData.sectionCounts.upcoming + dashboardData.sectionCounts.scheduled },\n      { id: \"done\", label: UI('filterDone'), count: dashboardData.sectionCounts.done },\n    ];\n\n    const taskSearchInput = document.getElementById(\"task-search\");\n    const filterRow = document.getElementById(\"filter-row\");\n    const viewTabs = document.getElementById(\"view-tabs\");\n    const layoutSwitch = document.getElementById(\"layout-switch\");\n    const bulkBar = document.getElementById(\"bulk-bar\");\n    const undoToast = document.getElementById(\"undo-toast\");\n    const taskList = document.getElementById(\"dashboard-main-list\");\n    const newTaskText = document.getElementById(\"new-task-text\");\n    const aiStatus = document.getElementById(\"ai-status\");\n    const notesFromDateInput = document.getElementById(\"notes-from-date\");\n    const notesToDateInput = document.getElementById(\"notes-to-date\");\n    const notesStatus = document.getElementById(\"notes-extract-status\");\n\n    if (!taskSearchInput || !filterRow || !taskList || !newTaskText || !aiStatus || !notesFromDateInput || !notesToDateInput || !notesStatus) {\n      throw new Error(\"Task Dashboard failed to initialize required webview controls.\");\n    }\n\n    function persistState() {\n      vscode.setState({\n        filter: state.filter,\n        search: state.search,\n\n        editingId: state.editingId,\n        candidateTasks: state.candidateTasks,\n        candidateOrderSeed: state.candidateOrderSeed,\n        addedCandidateKeys: state.addedCandidateKeys,\n        aiStatus: state.aiStatus,\n        aiStatusType: state.aiStatusType,\n        notesFromDate: state.notesFromDate,\n        notesToDate: state.notesToDate,\n        notesAiStatus: state.notesAiStatus,\n        notesAiStatusType: state.notesAiStatusType,\n        candidateBlockShown: state.candidateBlockShown,\n        candidateBlockError: state.candidateBlockError,\n        selectedModel: state.selectedModel,\n        advancedPanelOpen: state.advancedPanelOpen,\n        collapsedTaskIds: state.collapsedTaskIds,\n        layout: state.layout,\n        boardGroup: state.boardGroup,\n        calendarMonth: state.calendarMonth,\n        selecting: state.selecting,\n      });\n    }\n\n    function esc(value) {\n      return String(value)\n        .replace(new RegExp(\"&\", \"g\"), \"&amp;\")\n        .replace(new RegExp(\"<\", \"g\"), \"&lt;\")\n        .replace(new RegExp(\">\", \"g\"), \"&gt;\")\n        .replace(new RegExp('\"', \"g\"), \"&quot;\");\n    }\n\n    function formatDateLabel(date) {\n      if (!date) {\n        return UI('noDate');\n      }\n\n      const parts = date.split(\"-\");\n      if (parts.length !== 3) {\n        return date;\n      }\n\n      return Number.parseInt(parts[1], 10) + \"/\" + Number.parseInt(parts[2], 10);\n    }\n\n    function canAddDashboardCandidate(task, existingTaskKeys) {\n      if (existingTaskKeys && existingTaskKeys.has(normalizedCandidateIdentity(task.text))) {\n        return false;\n      }\n\n      return !task.existsAlready;\n    }\n\n    function createPendingCandidateRequestId(task) {\n      return \"candidate-\" + String(task.order) + \"-\" + Date.now();\n    }\n\n    function removePendingCandidateAdd(requestId) {\n      const index = pendingCandidateAdds.findIndex(function (pending) {\n        return pending.requestId === requestId;\n      });\n      if (index < 0) {\n        return null;\n      }\n\n      const pending = pendingCandidateAdds[index];\n      pendingCandidateAdds.splice(index, 1);\n      return pending;\n    }\n\n    function getExistingTaskKeys() {\n      const persistedTaskKeys = (dashboardData.tasks || [])\n        .map(function (task) {\n          return normalizedCandidateIdentity(task.text);\n        })\n        .filter(Boolean);\n      state.addedCandidateKeys = (state.addedCandidateKeys || []).filter(function (key) {\n        return !persistedTaskKeys.includes(key);\n      });\n      const locallyAddedKeys = (state.addedCandidateKeys || []).filter(Boolean);\n      return new Set(\n        persistedTaskKeys\n          .concat(locallyAddedKeys)\n          .filter(Boolean),\n      );\n    }\n\n    function matchesDashboardListItemFilter(item, filter) {\n      if (filter === \"all\") {\n        return true;\n      }\n\n      if (item.kind === \"candidate\") {\n        return false;\n      }\n\n      if (filter === \"today\") {\n        return item.section === \"overdue\" || item.section === \"today\";\n      }\n\n      if (filter === \"planned\") {\n        return item.section === \"upcoming\" || item.section === \"scheduled\";\n      }\n\n      if (filter === \"done\") {\n        return item.section === \"done\";\n      }\n\n      return item.section === filter;\n    }\n\n    function matchesDashboardListItemSearch(item, query) {\n      if (!String(query || \"\").trim()) {\n        return true;\n      }\n\n      const ranks = item.kind === \"task\" ? getTaskSearchRanks(query) : null;\n      if (ranks) {\n        return ranks.has(item.id);\n      }\n\n      const normalizedQuery = getPlainSearchText(query).trim().toLowerCase();\n      if (!normalizedQuery) {\n        return true;\n      }\n\n      const haystack = item.kind === \"candidate\"\n        ? [\n            item.text,\n            item.sourceLabel || \"\",\n            item.source || \"\",\n            item.category || \"\",\n            item.priority || \"\",\n            item.dueDate || \"\",\n            item.existsAlready ? \"already exists\" : \"\",\n            \"candidate\",\n          ]\n        : [item.text, item.relativePath || \"\", item.date || \"\", item.dueDate || \"\"].concat(item.tags || []);\n\n      return haystack.join(\" \").toLowerCase().includes(normalizedQuery);\n    }\n\n    function buildDashboardListViewModel(items, filter, search) {\n      function buildDashboardEmptyMessage(filter) {\n        switch (filter) {\n          case \"all\":\n            return UI('noTasksYet') + \"||\" + UI('noTasksYetBody');\n          case \"today\":\n            return UI('nothingScheduledToday');\n          case \"planned\":\n            return UI('noPlannedTasks');\n          case \"done\":\n            return UI('noCompletedTasks');\n          default:\n            return UI('noItemsInFilter');\n        }\n      }\n\n      const normalizedSearch = String(search || \"\").trim();\n      const filteredItems = items.filter(function (item) {\n        return matchesDashboardListItemFilter(item, filter);\n      });\n      const visibleItems = filteredItems.filter(function (item) {\n        return matchesDashboardListItemSearch(item, search);\n      });\n      if (filter === \"all\") {\n        if (normalizedSearch && visibleItems.length === 0) {\n          return { sections: [], emptyMessage: UI('noMatchingTasks') };\n        }\n\n        if (!normalizedSearch && filteredItems.length === 0) {\n          return { sections: [], emptyMessage: buildDashboardEmptyMessage(\"all\") };\n        }\n\n        const sections = [];\n\n        simplifiedSectionOrder.forEach(function (simplifiedSection) {\n          let internalSections;\n          if (simplifiedSection === \"today\") {\n            internalSections = [\"overdue\", \"today\"];\n          } else if (simplifiedSection === \"planned\") {\n            internalSections = [\"upcoming\", \"scheduled\"];\n          } else if (simplifiedSection === \"unsorted\") {\n            internalSections = [\"backlog\"];\n          } else {\n            internalSections = [\"done\"];\n          }\n\n          const taskItems = visibleItems.filter(function (item) {\n            return item.kind === \"task\" && internalSections.includes(item.section);\n          });\n          if (!normalizedSearch || taskItems.length > 0) {\n            sections.push({\n              key: simplifiedSection,\n              title: simplifiedSectionTitles[simplifiedSection],\n              items: taskItems,\n            });\n          }\n        });\n\n        return { sections: sections, emptyMessage: null };\n      }\n\n      if (filteredItems.length === 0) {\n        return {\n          sections: [],\n          emptyMessage: buildDashboardEmptyMessage(filter),\n        };\n      }\n\n      if (visibleItems.length === 0) {\n        return {\n          sections: [],\n            emptyMessage: normalizedSearch ? UI('noMatchingTasks') : buildDashboardEmptyMessage(filter),\n        };\n      }\n\n      const ranks = getTaskSearchRanks(search);\n      return {\n        sections: [],\n        flatItems: ranks\n          ? visibleItems.slice().sort(function (a, b) {\n              return (ranks.has(a.id) ? ranks.get(a.id) : Infinity) - (ranks.has(b.id) ? ranks.get(b.id) : Infinity);\n            })\n          : visibleItems,\n        emptyMessage: null,\n      };\n    }\n\n    function getVisibleCandidates() {\n      const existingTaskKeys = getExistingTaskKeys();\n      return (state.candidateTasks || [])\n        .map(function (task) {\n          return {\n            ...task,\n            existsAlready: existingTaskKeys.has(normalizedCandidateIdentity(task.text)) || Boolean(task.existsAlready),\n          };\n        })\n        .filter(function (task) {\n          return !task.added;\n        })\n        .sort(function (a, b) {\n          const aRunAt = a.extractRunAt || \"\";\n          const bRunAt = b.extractRunAt || \"\";\n          if (aRunAt !== bRunAt) {\n            return bRunAt.localeCompare(aRunAt);\n          }\n          return (a.order || 0) - (b.order || 0);\n        });\n    }\n\n    function mergeCandidateBatch(source, tasks) {\n      const retained = (state.candidateTasks || []).filter(function (task) {\n        return task.source !== source;\n      });\n      const extractRunAt = new Date().toISOString();\n      const merged = (tasks || []).map(function (task) {\n        return {\n          kind: \"candidate\",\n          source: source,\n          sourceLabel: task.sourceLabel || (source === \"notes\" ? \"Notes\" : \"Moments\"),\n          existsAlready: Boolean(task.existsAlready),\n          order: state.candidateOrderSeed++,\n          added: false,\n          ...task,\n          extractRunAt: extractRunAt,\n        };\n      });\n      state.candidateTasks = retained.concat(merged);\n    }\n\n    function getListViewModel() {\n      const listItems = (dashboardData.tasks || []).filter(function (item) {\n        return item.kind === \"task\";\n      });\n      return buildDashboardListViewModel(listItems, state.filter, state.search);\n    }\n\n    function renderLayoutSwitch() {\n      if (!layoutSwitch) {\n        return;\n      }\n\n      const isBoard = state.layout === \"board\";\n      const layouts = [\n        { id: \"list\", label: UI('layoutList') },\n        { id: \"board\", label: UI('layoutBoard') },\n        { id: \"calendar\", label: UI('layoutCalendar') },\n        { id: \"moments\", label: UI('layoutMoments') },\n      ];\n      layoutSwitch.innerHTML =\n        layouts\n          .map(function (layout) {\n            return '<button type=\"button\" class=\"filter-chip' + (layout.id === state.layout ? \" is-active\" : \"\") + '\" data-layout=\"' + layout.id + '\">' + esc(layout.label) + '</button>';\n          })\n          .join(\"\") +\n        (state.layout === \"list\"\n          ? '<button type=\"button\" class=\"filter-chip select-toggle' + (state.selecting ? \" is-active\" : \"\") + '\" data-action=\"toggle-select\" aria-pressed=\"' + state.selecting + '\" title=\"' + esc(UI('selectTasksTitle')) + '\">' + esc(UI('selectTasks')) + '</button>'\n          : \"\") +\n        (isBoard\n          ? '<select class=\"board-group-select\" data-role=\"board-group\" aria-label=\"' + esc(UI('boardGroupLabel')) + '\">' +\n              '<option value=\"section\"' + (state.boardGroup === \"section\" ? \" selected\" : \"\") + '>' + esc(UI('boardGroupBySection')) + '</option>' +\n              '<option value=\"tag\"' + (state.boardGroup === \"tag\" ? \" selected\" : \"\") + '>' + esc(UI('boardGroupByTag')) + '</option>' +\n            '</select>'\n          : \"\");\n    }\n\n    function renderBulkBar() {\n      if (!bulkBar) {\n        return;\n      }\n\n      bulkBar.hidden = !state.selecting || state.layout !== \"list\";\n      if (bulkBar.hidden) {\n        bulkBar.innerHTML = \"\";\n        return;\n      }\n\n      const count = state.selectedTaskIds.length;\n      const disabled = count === 0 ? \" disabled\" : \"\";\n      const actions = [\n        { id: \"complete\", label: UI('bulkComplete') },\n        { id: \"today\", label: UI('bulkToday') },\n        { id: \"tomorrow\", label: UI('bulkTomorrow') },\n        { id: \"next-week\", label: UI('bulkNextWeek') },\n      ];\n      const promptActions = [\n        { id: \"addTag\", label: UI('bulkAddTag') },\n        { id: \"removeTag\", label: UI('bulkRemoveTag') },\n        { id: \"move\", label: UI('bulkMove') },\n      ];\n      const renderAction = function (action) {\n        return '<button type=\"button\" class=\"btn\" data-bulk=\"' + action.id + '\"' + disabled + '>' + esc(action.label) + '</button>';\n      };\n      bulkBar.innerHTML =\n        '<span class=\"bulk-count\">' + esc(UI('bulkSelected', { count: count })) + '</span>' +\n        actions.map(renderAction).join(\"\") +\n        '<input type=\"date\" class=\"bulk-date\" data-role=\"bulk-date\" title=\"' + esc(UI('bulkPickDate')) + '\" aria-label=\"' + esc(UI('bulkPickDate')) + '\"' + disabled + '>' +\n        promptActions.map(renderAction).join(\"\") +\n        '<button type=\"button\" class=\"btn btn-danger\" data-bulk=\"delete\"' + disabled + '>' + esc(UI('bulkDelete')) + '</button>' +\n        '<button type=\"button\" class=\"btn btn-text\" data-bulk=\"clear\"' + disabled + '>' + esc(UI('bulkClear')) + '</button>';\n    }\n\n    function sendBulkAction(action, dueDate) {\n      if (state.selectedTaskIds.length === 0) {\n        return;\n      }\n\n      vscode.postMessage({\n        command: \"bulkTasks\",\n        taskIds: state.selectedTaskIds.slice(),\n        action: action,\n        dueDate: dueDate || null,\n      });\n      // Tag, move and delete ask on the host first and may be cancelled, so their selection\n      // is kept until the refreshed data drops the ids that changed.\n      if (action === \"complete\" || action === \"reschedule\") {\n        state.selectedTaskIds = [];\n        rerender();\n      }\n    }\n\n    function renderFilters() {\n      // Board columns and calendar days already split tasks by date, so the section chips only\n      // apply to the list.\n      filterRow.hidden = state.layout !== \"list\";\n      filterDefinitions[0].count = dashboardData.tasks.length + getVisibleCandidates().length;\n      filterDefinitions[1].count = dashboardData.sectionCounts.overdue + dashboardData.sectionCounts.today;\n      filterDefinitions[2].count = dashboardData.sectionCounts.upcoming + dashboardData.sectionCounts.scheduled;\n      filterDefinitions[3].count = dashboardData.sectionCounts.done;\n      filterRow.innerHTML = filterDefinitions\n        .map(function (filter) {\n          const activeClass = filter.id === state.filter ? \" is-active\" : \"\";\n          return '<button type=\"button\" class=\"filter-chip' + activeClass + '\" data-filter=\"' + esc(filter.id) + '\">' +\n            '<span>' + esc(filter.label) + '</span>' +\n            '<strong>' + filter.count + '</strong>' +\n          \"</button>\";\n        })\n        .join(\"\");\n    }\n\n    function renderViewTabs() {\n      if (!viewTabs) {\n        return;\n      }\n\n      const query = String(state.search || \"\").trim();\n      const views = dashboardData.savedViews || [];\n      const tabs = views.map(function (view) {\n        const isActive = view.query === query;\n        return '<span class=\"filter-chip view-tab' + (isActive ? \" is-active\" : \"\") + '\" role=\"tab\" aria-selected=\"' + isActive + '\">' +\n          '<button type=\"button\" class=\"view-tab-open\" data-action=\"open-view\" data-view-query=\"' + esc(view.query) + '\" title=\"' + esc(view.query) + '\">' + esc(view.name) + '</button>' +\n          '<button type=\"button\" class=\"view-tab-remove\" data-action=\"delete-view\" data-view-name=\"' + esc(view.name) + '\" title=\"' + esc(UI('removeView')) + '\" aria-label=\"' + esc(UI('removeView')) + '\">×</button>' +\n        '</span>';\n      });\n      const isSaved = views.some(function (view) {\n        return view.query === query;\n      });\n      if (query && !isSaved) {\n        tabs.push('<button type=\"button\" class=\"filter-chip view-tab-save\" data-action=\"save-view\" title=\"' + esc(UI('saveViewTitle')) + '\">＋ ' + esc(UI('saveView')) + '</button>');\n      }\n      viewTabs.innerHTML = tabs.join(\"\");\n    }\n\n    function applyViewQuery(query) {\n      state.search = query;\n      state.filter = \"all\";\n      taskSearchInput.value = query;\n      requestTaskSearch();\n      rerender();\n    }\n\n    function renderTaskMeta(task) {\n      const badges = [];\n      if (task.date) {\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-date\">' + esc(formatDateLabel(task.date)) + \"</span>\");\n      }\n      if (task.dueDate) {\n        const dueClass = task.section === \"overdue\" ? \" is-danger\" : task.section === \"today\" ? \" is-warning\" : \" is-accent\";\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-due' + dueClass + '\">' + UI('due') + ' ' + esc(formatDateLabel(task.dueDate)) + \"</span>\");\n      }\n      if (task.subtaskProgress) {\n        const progressClass = task.subtaskProgress.done === task.subtaskProgress.total ? \" is-accent\" : \"\";\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-subtasks' + progressClass + '\" title=\"' + esc(UI('subtasks')) + '\">☑ ' + task.subtaskProgress.done + \"/\" + task.subtaskProgress.total + \"</span>\");\n      }\n      if (task.recurrence) {\n        const rule = task.recurrence.rule.replace(/^(?:🔁\\s*|repeat:)/i, \"\");\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-recurrence\" title=\"' + esc(UI('repeats')) + '\">🔁 ' + esc(rule) + \"</span>\");\n      }\n      if (task.category) {\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-category\">' + esc(task.category) + \"</span>\");\n      }\n      if (task.priority) {\n        const priorityClass = task.priority === \"high\" ? \" is-danger\" : task.priority === \"medium\" ? \" is-warning\" : \"\";\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-priority' + priorityClass + '\">' + esc(task.priority) + \"</span>\");\n      }\n      if (task.timeEstimateMin) {\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-estimate\">' + task.timeEstimateMin + \"m</span>\");\n      }\n      for (const tag of task.tags || []) {\n        badges.push('<span class=\"badge is-accent task-row-meta-item task-row-meta-tag\">' + esc(tag) + \"</span>\");\n      }\n      badges.push('<span class=\"badge task-row-meta-item task-row-meta-source task-row-meta-source-saved\">' + esc(task.relativePath) + \"</span>\");\n      return '<div class=\"task-row-meta task-row-meta-saved\">' + badges.join(\"\") + \"</div>\";\n    }\n\n    function renderCandidateMeta(task) {\n      const badges = [];\n      if (task.dueDate) {\n        badges.push('<span class=\"badge is-accent task-row-meta-item task-row-meta-candidate-due\">' + UI('due') + ' ' + esc(formatDateLabel(task.dueDate)) + \"</span>\");\n      }\n      if (task.category) {\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-category\">' + esc(task.category) + \"</span>\");\n      }\n      if (task.priority) {\n        badges.push('<span class=\"badge task-row-meta-item task-row-meta-priority\">' + esc(task.priority) + \"</span>\");\n      }\n      badges.push('<span class=\"badge task-row-meta-item task-row-meta-source task-row-meta-source-candidate\">' + esc(task.sourceLabel || \"Unknown\") + \"</span>\");\n      return '<div class=\"task-row-meta task-row-meta-candidate\">' + badges.join(\"\") + \"</div>\";\n    }\n\n    function renderTaskActionIcon(action) {\n      const icons = {\n        edit: '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><path d=\"M17 3a2.828 2.828 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5L17 3z\"></path></svg>',\n        open: '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><path d=\"M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6\"></path><polyline points=\"15 3 21 3 21 9\"></polyline><line x1=\"10\" y1=\"14\" x2=\"21\" y2=\"3\"></line></svg>',\n        delete: '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><polyline points=\"3 6 5 6 21 6\"></polyline><path d=\"M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2\"></path><line x1=\"10\" y1=\"11\" x2=\"10\" y2=\"17\"></line><line x1=\"14\" y1=\"11\" x2=\"14\" y2=\"17\"></line></svg>',\n      };\n      return icons[action] || \"\";\n    }\n\n    function renderSubtaskToggle(task, subtaskCount) {\n      if (!subtaskCount) {\n        return \"\";\n      }\n      const collapsed = state.collapsedTaskIds.includes(getTaskCollapseKey(task.id));\n      const label = collapsed ? UI('expandSubtasks') : UI('collapseSubtasks');\n      return '<button type=\"button\" class=\"task-row-subtask-toggle\" data-action=\"toggle-subtasks\" data-task-id=\"' + esc(task.id) + '\" title=\"' + label + '\" aria-label=\"' + label + '\" aria-expanded=\"' + (collapsed ? \"false\" : \"true\") + '\">' + (collapsed ? \"▸\" : \"▾\") + \"</button>\";\n    }\n\n    function renderTaskItem(task, subtaskCount) {\n      const itemClasses = [\n        \"task-row\",\n        \"task-row-saved\",\n        task.done ? \"is-done\" : \"\",\n        task.section === \"overdue\" ? \"is-overdue\" : \"\",\n        task.section === \"today\" ? \"is-today\" : \"\",\n      ]\n        .filter(Boolean)\n        .join(\" \");\n\n      if (state.editingId === task.id) {\n        return '<article class=\"' + itemClasses + '\" data-task-id=\"' + esc(task.id) + '\" tabindex=\"-1\">' +\n          '<label class=\"task-row-toggle-entry\"><input class=\"task-row-toggle\" type=\"checkbox\" data-action=\"toggle\" data-task-id=\"' + esc(task.id) + '\"' + (task.done ? \" checked\" : \"\") + \"></label>\" +\n          '<div class=\"task-row-body\">' +\n            '<div class=\"task-edit\">' +\n              '<label class=\"field\">' +\n                \"<span>\" + UI('taskField') + \"</span>\" +\n                '<textarea data-role=\"edit-text\">' + esc(task.text) + \"</textarea>\" +\n              \"</label>\" +\n              '<div class=\"field-grid\">' +\n                '<label class=\"field-compact\">' +\n                  \"<span>\" + UI('dueField') + \"</span>\" +\n                  '<input type=\"date\" data-role=\"edit-due\" value=\"' + esc(task.dueDate || \"\") + '\">' +\n                \"</label>\" +\n                '<div class=\"field-compact\">' +\n                  \"<span>\" + UI('sourceField') + \"</span>\" +\n                  '<input type=\"text\" value=\"' + esc(task.relativePath) + '\" disabled>' +\n                \"</div>\" +\n              \"</div>\" +\n              '<div class=\"inline-actions\">' +\n                '<button type=\"button\" class=\"btn btn-primary\" data-action=\"save-edit\" data-task-id=\"' + esc(task.id) + '\">' + UI('save') + '</button>' +\n                '<button type=\"button\" class=\"btn\" data-action=\"cancel-edit\">' + UI('cancelBtn') + '</button>' +\n                '<button type=\"button\" class=\"btn\" data-action=\"open\" data-file=\"' + esc(task.filePath) + '\" data-line=\"' + task.lineIndex + '\">' + UI('openFile') + '</button>' +\n              \"</div>\" +\n            \"</div>\" +\n          \"</div>\" +\n        \"</article>\";\n      }\n\n      const selectEntry = state.selecting\n        ? '<label class=\"task-row-select-entry\" title=\"' + esc(UI('selectTask')) + '\"><input class=\"task-row-select\" type=\"checkbox\" data-action=\"select\" data-task-id=\"' + esc(task.id) + '\" aria-label=\"' + esc(UI('selectTask')) + '\"' + (state.selectedTaskIds.includes(task.id) ? \" checked\" : \"\") + \"></label>\"\n        : \"\";\n      return '<article class=\"' + itemClasses + (state.selectedTaskIds.includes(task.id) ? \" is-selected\" : \"\") + '\" data-task-id=\"' + esc(task.id) + '\" tabindex=\"-1\">' +\n        selectEntry +\n        '<label class=\"task-row-toggle-entry\"><input class=\"task-row-toggle\" type=\"checkbox\" data-action=\"toggle\" data-task-id=\"' + esc(task.id) + '\"' + (task.done ? \" checked\" : \"\") + \"></label>\" +\n        '<div class=\"task-row-body\">' +\n          '<div class=\"task-row-main\">' +\n            '<div class=\"task-row-title-entry\">' + renderSubtaskToggle(task, subtaskCount) + '<button type=\"button\" class=\"task-row-title\" data-action=\"open\" data-file=\"' + esc(task.filePath) + '\" data-line=\"' + task.lineIndex + '\">' + esc(task.text) + \"</button></div>\" +\n            '<div class=\"task-row-secondary-actions\">' +\n              '<button type=\"button\" class=\"task-row-action-icon\" data-action=\"edit\" data-task-id=\"' + esc(task.id) + '\" title=\"' + UI('edit') + '\" aria-label=\"' + UI('edit') + '\">' + renderTaskActionIcon(\"edit\") + '</button>' +\n              '<button type=\"button\" class=\"task-row-action-icon\" data-action=\"open\" data-file=\"' + esc(task.filePath) + '\" data-line=\"' + task.lineIndex + '\" title=\"' + UI('open') + '\" aria-label=\"' + UI('open') + '\">' + renderTaskActionIcon(\"open\") + '</button>' +\n              '<button type=\"button\" class=\"task-row-action-icon\" data-action=\"delete\" data-task-id=\"' + esc(task.id) + '\" title=\"' + UI('delete') + '\" aria-label=\"' + UI('delete') + '\">' + renderTaskActionIcon(\"delete\") + '</button>' +\n            \"</div>\" +\n            '<div class=\"task-row-more-menu\">' +\n              '<button type=\"button\" class=\"task-row-more-btn\" data-action=\"more\" data-task-id=\"' + esc(task.id) + '\">' + UI('more') + '</button>' +\n              '<div class=\"task-row-more-dropdown\" data-more-dropdown=\"' + esc(task.id) + '\">' +\n                '<button type=\"button\" data-action=\"edit\" data-task-id=\"' + esc(task.id) + '\">' + UI('edit') + '</button>' +\n                '<button type=\"button\" data-action=\"open\" data-file=\"' + esc(task.filePath) + '\" data-line=\"' + task.lineIndex + '\">' + UI('open') + '</button>' +\n                '<button type=\"button\" data-action=\"move-file\" data-task-id=\"' + esc(task.id) + '\">' + UI('moveToFile') + '</button>' +\n                '<button type=\"button\" class=\"is-danger\" data-action=\"delete\" data-task-id=\"' + esc(task.id) + '\">' + UI('delete') + '</button>' +\n              \"</div>\" +\n            \"</div>\" +\n          \"</div>\" +\n          renderTaskMeta(task) +\n        \"</div>\" +\n      \"</article>\";\n    }\n\n    function buildBoardColumns(items) {\n      if (state.boardGroup === \"tag\") {\n        const openItems = items.filter(function (item) {\n          return !item.done;\n        });\n        const tags = Array.from(\n          new Set(\n            openItems.flatMap(function (item) {\n              return item.tags || [];\n            }),\n          ),\n        ).sort();\n        const columns = tags.map(function (tag) {\n          return {\n            key: \"tag:\" + tag,\n            title: tag,\n            droppable: false,\n            items: openItems.filter(function (item) {\n              return (item.tags || []).includes(tag);\n            }),\n          };\n        });\n        columns.push({\n          key: \"untagged\",\n          title: UI('boardNoTag'),\n          droppable: false,\n          items: openItems.filter(function (item) {\n            return !(item.tags || []).length;\n          }),\n        });\n        columns.push({\n          key: \"done\",\n          title: UI('boardDone'),\n          droppable: true,\n          items: items.filter(function (item) {\n            return item.done;\n          }),\n        });\n        return columns;\n      }\n\n      return boardSectionColumns.map(function (column) {\n        return {\n          key: column.key,\n          title: column.title,\n          droppable: column.droppable,\n          items: items.filter(function (item) {\n            return column.sections.includes(item.section);\n          }),\n        };\n      });\n    }\n\n    /**\n     * What dropping a card on a board column changes: a new due date for date columns (a done\n     * task is reopened on the way), or completion for Done. Null when nothing would change.\n     */\n    function getBoardDropChange(task, columnKey) {\n      if (columnKey === \"done\") {\n        return task.done ? null : { done: true };\n      }\n\n      const dueDates = {\n        today: dashboardData.today,\n        upcoming: shiftDateString(dashboardData.today, 1),\n        scheduled: shiftDateString(dashboardData.today, 8),\n        backlog: null,\n      };\n      if (!Object.prototype.hasOwnProperty.call(dueDates, columnKey)) {\n        return null;\n      }\n      if (!task.done && (task.section === columnKey || (columnKey === \"backlog\" && !task.dueDate))) {\n        return null;\n      }\n\n      const change = { dueDate: dueDates[columnKey] };\n      if (task.done) {\n        change.done = false;\n      }\n      return change;\n    }\n\n    function renderBoardCard(task) {\n      const itemClasses = [\n        \"task-row\",\n        \"task-row-saved\",\n        \"board-card\",\n        task.done ? \"is-done\" : \"\",\n        task.section === \"overdue\" ? \"is-overdue\" : \"\",\n        task.section === \"today\" ? \"is-today\" : \"\",\n      ]\n        .filter(Boolean)\n        .join(\" \");\n\n      return '<article class=\"' + itemClasses + '\" draggable=\"true\" data-task-id=\"' + esc(task.id) + '\">' +\n        '<label class=\"task-row-toggle-entry\"><input class=\"task-row-toggle\" type=\"checkbox\" data-action=\"toggle\" data-task-id=\"' + esc(task.id) + '\"' + (task.done ? \" checked\" : \"\") + \"></label>\" +\n        '<div class=\"task-row-body\">' +\n          '<button type=\"button\" class=\"task-row-title\" data-action=\"open\" data-file=\"' + esc(task.filePath) + '\" data-line=\"' + task.lineIndex + '\">' + esc(task.text) + \"</button>\" +\n          renderTaskMeta(task) +\n        \"</div>\" +\n      \"</article>\";\n    }\n\n    function renderBoard() {\n      const items = (dashboardData.tasks || []).filter(function (item) {\n        return item.kind === \"task\" && matchesDashboardListItemSearch(item, state.search);\n      });\n\n      return '<div class=\"task-board\">' +\n        buildBoardColumns(items)\n          .map(function (column) {\n            return '<section class=\"board-column\" data-board-column=\"' + esc(column.key) + '\"' + (column.droppable ? ' data-droppable=\"true\"' : \"\") + '>' +\n              '<div class=\"task-section-header\">' +\n                \"<h3>\" + esc(column.title) + \"</h3>\" +\n                \"<span>\" + column.items.length + \"</span>\" +\n              \"</div>\" +\n              '<div class=\"board-column-items\">' + column.items.map(renderBoardCard).join(\"\") + \"</div>\" +\n            \"</section>\";\n          })\n          .join(\"\") +\n      \"</div>\";\n    }\n\n    /** A task dropped on a calendar day gets that day as its due date. */\n    function getCalendarDropChange(task, date) {\n      return task.dueDate === date ? null : { dueDate: date };\n    }\n\n    function renderCalendarTask(task) {\n      const classes = [\"calendar-task\", task.done ? \"is-done\" : \"\", task.section === \"overdue\" ? \"is-overdue\" : \"\"]\n        .filter(Boolean)\n        .join(\" \");\n      return '<div class=\"' + classes + '\" role=\"button\" tabindex=\"0\" draggable=\"true\" data-task-id=\"' + esc(task.id) + '\" data-action=\"open\" data-file=\"' + esc(task.filePath) + '\" data-line=\"' + task.lineIndex + '\" title=\"' + esc(task.text) + '\">' + esc(task.text) + \"</div>\";\n    }\n\n    function renderCalendar() {\n      const month = state.calendarMonth;\n      const firstDay = new Date(month + \"-01T00:00:00\");\n      const daysInMonth = new Date(firstDay.getFullYear(), firstDay.getMonth() + 1, 0).getDate();\n      const leadingDays = firstDay.getDay();\n      const weekCount = Math.ceil((leadingDays + daysInMonth) / 7);\n      const gridStart = shiftDateString(month + \"-01\", -leadingDays);\n\n      const tasksByDate = new Map();\n      (dashboardData.tasks || []).forEach(function (item) {\n        if (item.kind !== \"task\" || !item.effectiveDate || !matchesDashboardListItemSearch(item, state.search)) {\n          return;\n        }\n        const dayTasks = tasksByDate.get(item.effectiveDate) || [];\n        dayTasks.push(item);\n        tasksByDate.set(item.effectiveDate, dayTasks);\n      });\n      const calendarMarks = dashboardData.calendar || { dailyNotes: [], moments: [] };\n      const dailyNoteDates = new Set(calendarMarks.dailyNotes);\n      const momentsDates = new Set(calendarMarks.moments);\n\n      const weekdayLabels = [];\n      for (let i = 0; i < 7; i++) {\n        // 2026-01-04 is a Sunday.\n        weekdayLabels.push(new Date(2026, 0, 4 + i).toLocaleDateString(currentLocale, { weekday: \"short\" }));\n      }\n\n      const cells = [];\n      for (let i = 0; i < weekCount * 7; i++) {\n        const date = shiftDateString(gridStart, i);\n        const dayTasks = tasksByDate.get(date) || [];\n        const classes = [\n          \"calendar-day\",\n          date.slice(0, 7) !== month ? \"is-outside\" : \"\",\n          date === dashboardData.today ? \"is-today\" : \"\",\n        ]\n          .filter(Boolean)\n          .join(\" \");\n        const markers =\n          (dailyNoteDates.has(date) ? '<span class=\"calendar-marker\" title=\"' + esc(UI('calendarDailyNote')) + '\">📝</span>' : \"\") +\n          (momentsDates.has(date) ? '<span class=\"calendar-marker\" title=\"' + esc(UI('calendarMoments')) + '\">💬</span>' : \"\");\n        const visibleTasks = dayTasks.slice(0, 3).map(renderCalendarTask).join(\"\");\n        const moreTasks = dayTasks.length > 3\n          ? '<span class=\"calendar-more\">' + esc(UI('calendarMore', { count: dayTasks.length - 3 })) + \"</span>\"\n          : \"\";\n        cells.push(\n          '<div class=\"' + classes + '\" data-droppable=\"true\" data-calendar-date=\"' + date + '\" data-action=\"open-day\" data-date=\"' + date + '\" title=\"' + esc(UI('calendarOpenDay')) + '\">' +\n            '<div class=\"calendar-day-header\"><span class=\"calendar-day-number\">' + Number(date.slice(8)) + \"</span>\" + markers + \"</div>\" +\n            visibleTasks +\n            moreTasks +\n          \"</div>\",\n        );\n      }\n\n      const monthLabel = firstDay.toLocaleDateString(currentLocale, { year: \"numeric\", month: \"long\" });\n      return '<div class=\"task-calendar\">' +\n        '<div class=\"calendar-toolbar\">' +\n          '<button type=\"button\" class=\"btn btn-text\" data-action=\"calendar-month\" data-months=\"-1\" title=\"' + esc(UI('calendarPrevMonth')) + '\" aria-label=\"' + esc(UI('calendarPrevMonth')) + '\">‹</button>' +\n          '<h3 class=\"calendar-month-label\">' + esc(monthLabel) + \"</h3>\" +\n          '<button type=\"button\" class=\"btn btn-text\" data-action=\"calendar-month\" data-months=\"1\" title=\"' + esc(UI('calendarNextMonth')) + '\" aria-label=\"' + esc(UI('calendarNextMonth')) + '\">›</button>' +\n          '<button type=\"button\" class=\"btn\" data-action=\"calendar-month\" data-months=\"0\">' + esc(UI('calendarThisMonth')) + \"</button>\" +\n        \"</div>\" +\n        '<div class=\"calendar-grid\">' +\n          weekdayLabels\n            .map(function (label) {\n              return '<div class=\"calendar-weekday\">' + esc(label) + \"</div>\";\n            })\n            .join(\"\") +\n          cells.join(\"\") +\n        \"</div>\" +\n      \"</div>\";\n    }\n\n    /** Heat level 0-4 of a day, relative to the busiest day of the year. */\n    function getHeatLevel(count, max) {\n      return count > 0 ? Math.max(1, Math.ceil((count / max) * 4)) : 0;\n    }\n\n    function renderMomentsHeatmap(stats) {\n      const counts = stats.days || {};\n      const max = Math.max(1, ...Object.values(counts));\n      // 53 week columns ending with the week of today, Sunday first.\n      const lastDay = new Date(stats.today + \"T00:00:00\");\n      const gridStart = shiftDateString(stats.today, -(52 * 7 + lastDay.getDay()));\n      const cells = [];\n      for (let i = 0; i < 53 * 7; i++) {\n        const date = shiftDateString(gridStart, i);\n        if (date > stats.today) {\n          cells.push('<span class=\"heatmap-cell is-future\"></span>');\n          continue;\n        }\n        const count = counts[date] || 0;\n        const label = esc(UI('momentsStatsDayPosts', { date: date, count: count }));\n        cells.push(\n          count > 0\n            ? '<span class=\"heatmap-cell heat-' + getHeatLevel(count, max) + '\" role=\"button\" tabindex=\"0\" data-action=\"open-moments-day\" data-date=\"' + date + '\" title=\"' + label + '\" aria-label=\"' + label + '\"></span>'\n            : '<span class=\"heatmap-cell heat-0\" title=\"' + label + '\"></span>',\n        );\n      }\n      return '<div class=\"moments-heatmap\">' + cells.join(\"\") + \"</div>\";\n    }\n\n    function renderMomentsHours(stats) {\n      const max = Math.max(1, ...stats.hours);\n      return '<div class=\"moments-hours\">' +\n        stats.hours\n          .map(function (count, hour) {\n            const label = esc(UI('momentsStatsHourPosts', { hour: String(hour).padStart(2, \"0\"), count: count }));\n            return '<div class=\"hour-column\" title=\"' + label + '\">' +\n              '<span class=\"hour-bar\" data-ratio=\"' + (count / max).toFixed(2) + '\"></span>' +\n              '<span class=\"hour-label\">' + (hour % 6 === 0 ? hour : \"\") + \"</span>\" +\n            \"</div>\";\n          })\n          .join(\"\") +\n      \"</div>\";\n    }\n\n    function renderMomentsTags(stats) {\n      if (stats.topTags.length === 0) {\n        return '<p class=\"empty-state-body\">' + esc(UI('momentsStatsNoTags')) + \"</p>\";\n      }\n      const max = Math.max(1, ...stats.topTags.map(function (tag) {\n        return Math.max(...tag.months);\n      }));\n      const monthLabels = stats.months.map(function (month) {\n        return new Date(month + \"-01T00:00:00\").toLocaleDateString(currentLocale, { month: \"short\" });\n      });\n      return '<table class=\"moments-tags\">' +\n        \"<thead><tr><th></th>\" +\n          monthLabels\n            .map(function (label) {\n              return \"<th>\" + esc(label) + \"</th>\";\n            })\n            .join(\"\") +\n          \"<th>\" + esc(UI('momentsStatsTotal')) + \"</th></tr></thead>\" +\n        \"<tbody>\" +\n          stats.topTags\n            .map(function (tag) {\n              return \"<tr><th>\" + esc(tag.tag) + \"</th>\" +\n                tag.months\n                  .map(function (count, index) {\n                    return '<td title=\"' + esc(monthLabels[index] + \": \" + count) + '\"><span class=\"tag-month heat-' + getHeatLevel(count, max) + '\">' + (count || \"\") + \"</span></td>\";\n                  })\n                  .join(\"\") +\n                \"<td>\" + tag.total + \"</td></tr>\";\n            })\n            .join(\"\") +\n        \"</tbody>\" +\n      \"</table>\";\n    }\n\n    function renderMomentsStats() {\n      const stats = dashboardData.momentsStats;\n      if (!stats || stats.totalPosts === 0) {\n        return renderEmptyState(UI('momentsStatsEmpty'));\n      }\n\n      const figures = [\n        { label: UI('momentsStatsPosts'), value: stats.totalPosts },\n        { label: UI('momentsStatsActiveDays'), value: stats.activeDays },\n        { label: UI('momentsStatsCurrentStreak'), value: UI('momentsStatsDays', { count: stats.currentStreak }) },\n        { label: UI('momentsStatsLongestStreak'), value: UI('momentsStatsDays', { count: stats.longestStreak }) },\n      ];\n      return '<div class=\"moments-stats\">' +\n        '<div class=\"moments-stats-figures\">' +\n          figures\n            .map(function (figure) {\n              return '<div class=\"moments-stats-figure\"><strong>' + esc(figure.value) + \"</strong><span>\" + esc(figure.label) + \"</span></div>\";\n            })\n            .join(\"\") +\n        \"</div>\" +\n        '<h3 class=\"moments-stats-heading\">' + esc(UI('momentsStatsHeatmap')) + \"</h3>\" +\n        renderMomentsHeatmap(stats) +\n        '<h3 class=\"moments-stats-heading\">' + esc(UI('momentsStatsHours')) + \"</h3>\" +\n        renderMomentsHours(stats) +\n        '<h3 class=\"moments-stats-heading\">' + esc(UI('momentsStatsTags')) + \"</h3>\" +\n        renderMomentsTags(stats) +\n      \"</div>\";\n    }\n\n    /**\n     * Splits list items into top-level items and subtasks grouped by parent id. A subtask\n     * whose parent is not in the same list (another section, filtered out) stays top-level.\n     */\n    function groupSubtaskItems(items) {\n      const taskIds = new Set(\n        items\n          .filter(function (item) {\n            return item.kind === \"task\";\n          })\n          .map(function (item) {\n            return item.id;\n          }),\n      );\n      const roots = [];\n      const subtasksByParent = {};\n      items.forEach(function (item) {\n        if (item.kind === \"task\" && item.parentId && taskIds.has(item.parentId)) {\n          (subtasksByParent[item.parentId] = subtasksByParent[item.parentId] || []).push(item);\n        } else {\n          roots.push(item);\n        }\n      });\n      return { roots: roots, subtasksByParent: subtasksByParent };\n    }\n\n    function renderTaskTree(task, subtasksByParent) {\n      const subtasks = subtasksByParent[task.id] || [];\n      const row = renderTaskItem(task, subtasks.length);\n      if (subtasks.length === 0) {\n        return row;\n      }\n      if (state.collapsedTaskIds.includes(getTaskCollapseKey(task.id))) {\n        return '<div class=\"task-tree is-collapsed\">' + row + \"</div>\";\n      }\n      return '<div class=\"task-tree\">' + row +\n        '<div class=\"task-subtasks\">' +\n          subtasks\n            .map(function (subtask) {\n              return renderTaskTree(subtask, subtasksByParent);\n            })\n            .join(\"\") +\n        \"</div>\" +\n      \"</div>\";\n    }\n\n    function renderCandidateItem(task, index) {\n      const canAdd = canAddDashboardCandidate(task, getExistingTaskKeys());\n      const itemClasses = [\"task-row\", \"task-row-candidate\", task.existsAlready ? \"is-candidate-blocked\" : \"\"]\n        .filter(Boolean)\n        .join(\" \");\n      return '<article class=\"' + itemClasses + '\">' +\n        '<div class=\"task-row-leading\"><span class=\"badge task-row-label\">' + UI('aiBadge') + '</span></div>' +\n        '<div class=\"task-row-body\">' +\n          '<div class=\"task-row-main\">' +\n            '<div class=\"task-row-title-entry\"><div class=\"task-row-title\">' + esc(task.text) + '</div></div>' +\n            '<div class=\"task-row-candidate-actions\">' +\n              '<span class=\"badge task-row-label\">' + UI('candidate') + '</span>' +\n              '<button type=\"button\" class=\"text-btn\" data-action=\"dismiss-candidate\" data-index=\"' + index + '\">' + UI('dismiss') + '</button>' +\n              '<button type=\"button\" class=\"text-btn' + (canAdd ? '' : ' is-danger') + '\"' + (canAdd ? '' : ' disabled') + ' data-action=\"add-candidate\" data-index=\"' + index + '\">' + UI('addBtn') + '</button>' +\n              (canAdd ? '' : '<span class=\"badge is-danger\">' + UI('alreadyExists') + '</span>') +\n            '</div>' +\n          '</div>' +\n          renderCandidateMeta(task) +\n        '</div>' +\n      '</article>';\n    }\n\n    function renderCandidateBlock() {\n      const candidateBlock = document.getElementById(\"candidate-block\");\n      const candidateItems = document.getElementById(\"candidate-items\");\n      if (!candidateBlock || !candidateItems) {\n        return;\n      }\n\n      const visibleCandidates = getVisibleCandidates();\n      const hasCandidates = visibleCandidates.length > 0;\n      const shouldShow = state.candidateBlockShown || hasCandidates;\n\n      if (!shouldShow) {\n        candidateBlock.style.display = \"none\";\n        return;\n      }\n\n      candidateBlock.style.display = \"\";\n      if (!state.candidateBlockShown) {\n        state.candidateBlockShown = true;\n      }\n\n      let html = \"\";\n      if (state.candidateBlockError) {\n        html += '<div class=\"candidate-block-error\">' +\n          '<span class=\"candidate-block-error-text\">' + esc(state.candidateBlockError) + '</span>' +\n          '<button type=\"button\" class=\"candidate-block-error-dismiss\" data-action=\"dismiss-candidate-error\" aria-label=\"' + UI('dismissError') + '\">&times;</button>' +\n          '</div>';\n      }\n\n      if (!hasCandidates) {\n        html += '<div class=\"empty-state\">' +\n          '<strong class=\"empty-state-title\">' + UI('noCandidatesYet') + '</strong>' +\n          '<p class=\"empty-state-body\">' + UI('noCandidatesBody') + '</p>' +\n        '</div>';\n        candidateItems.innerHTML = html;\n        return;\n      }\n\n      html += visibleCandidates\n        .map(function (task, index) {\n          return renderCandidateItem(task, index);\n        })\n        .join(\"\");\n\n      candidateItems.innerHTML = html;\n    }\n\n    var candidateBlockEl = document.getElementById(\"candidate-block\");\n    if (candidateBlockEl) {\n      candidateBlockEl.addEventListener(\"click\", function (event) {\n        var actionEl = event.target.closest(\"[data-action]\");\n        if (!actionEl) {\n          return;\n        }\n        var action = actionEl.dataset.action;\n        if (action === \"dismiss-candidate-error\") {\n          state.candidateBlockError = \"\";\n          persistState();\n          rerender();\n        } else if (action === \"add-extracted\" || action === \"add-candidate\") {\n          handleAddExtractedAction(actionEl);\n        } else if (action === \"dismiss-extracted\" || action === \"dismiss-candidate\") {\n          handleDismissExtractedAction(actionEl);\n        }\n      });\n    }\n\n    function renderEmptyState(message) {\n      const parts = String(message || \"\").split(\"||\");\n      const title = parts[0] || \"\";\n      const body = parts[1] || \"\";\n      return '<div class=\"empty-state\">' +\n        '<strong class=\"empty-state-title\">' + esc(title) + '</strong>' +\n        (body ? '<p class=\"empty-state-body\">' + esc(body) + '</p>' : '') +\n      '</div>';\n    }\n\n    function renderTasks() {\n      if (state.layout === \"board\") {\n        taskList.innerHTML = renderBoard();\n        return;\n      }\n      if (state.layout === \"calendar\") {\n        taskList.innerHTML = renderCalendar();\n        return;\n      }\n      if (state.layout === \"moments\") {\n        taskList.innerHTML = renderMomentsStats();\n        // Bar heights go through the CSSOM; the CSP does not allow inline style attributes.\n        taskList.querySelectorAll(\".hour-bar\").forEach(function (bar) {\n          bar.style.height = \"calc((100% - 14px) * \" + bar.dataset.ratio + \")\";\n        });\n        return;\n      }\n\n      const viewModel = getListViewModel();\n      if (viewModel.emptyMessage) {\n        taskList.innerHTML = renderEmptyState(viewModel.emptyMessage);\n        return;\n      }\n\n      const visibleCandidates = getVisibleCandidates();\n      if (viewModel.flatItems && viewModel.flatItems.length > 0) {\n        const flatTree = groupSubtaskItems(viewModel.flatItems);\n        taskList.innerHTML = flatTree.roots\n          .map(function (item) {\n            if (item.kind === \"candidate\") {\n              const index = visibleCandidates.findIndex(function (candidate) {\n                return candidate.order === item.order;\n              });\n              return renderCandidateItem(item, index);\n            }\n            return renderTaskTree(item, flatTree.subtasksByParent);\n          })\n          .join(\"\");\n        return;\n      }\n\n      const html = viewModel.sections\n        .map(function (section) {\n          const subtitle = state.filter === \"all\"\n            ? simplifiedSectionDescriptions[section.key]\n            : UI('filteredItems');\n          const sectionTree = groupSubtaskItems(section.items);\n          const items = sectionTree.roots\n            .map(function (item) {\n              if (item.kind === \"candidate\") {\n                const index = visibleCandidates.findIndex(function (candidate) {\n                  return candidate.order === item.order;\n                });\n                return renderCandidateItem(item, index);\n              }\n              return renderTaskTree(item, sectionTree.subtasksByParent);\n            })\n            .join(\"\");\n          return '<section class=\"task-section\">' +\n            '<div class=\"task-section-header\">' +\n              \"<h3>\" + esc(section.title) + \"</h3>\" +\n              \"<span>\" + section.items.length + \" · \" + esc(subtitle) + \"</span>\" +\n            \"</div>\" +\n            '<div class=\"task-items\">' + items + \"</div>\" +\n          \"</section>\";\n        })\n        .join(\"\");\n\n      taskList.innerHTML = html;\n    }\n\n    // Offers to undo the change just made (or redo the one just undone) for a few seconds.\n    let undoToastTimer = null;\n    function showUndoToast(event) {\n      if (!undoToast) {\n        return;\n      }\n\n      const undone = event.kind === \"undo\";\n      const text = undone\n        ? UI('undoneChange', { label: event.label })\n        : event.kind === \"redo\" ? UI('redoneChange', { label: event.label }) : event.label;\n      undoToast.innerHTML =\n        '<span>' + esc(text) + '</span>' +\n        '<button type=\"button\" class=\"btn btn-text\" data-journal=\"' + (undone ? \"redoChange\" : \"undoChange\") + '\">' + esc(undone ? UI('redoBtn') : UI('undoBtn')) + '</button>';\n      undoToast.hidden = false;\n      clearTimeout(undoToastTimer);\n      undoToastTimer = setTimeout(function () {\n        undoToast.hidden = true;\n      }, 8000);\n    }\n\n    function setAiStatus(type, message) {\n      state.aiStatusType = type;\n      state.aiStatus = message || \"\";\n      persistState();\n\n      aiStatus.className = \"status-line\" + (type === \"error\" ? \" is-error\" : \"\");\n      aiStatus.textContent = state.aiStatus;\n    }\n\n    function setNotesAiStatus(type, message) {\n      state.notesAiStatusType = type;\n      state.notesAiStatus = message || \"\";\n      persistState();\n\n      notesStatus.className = \"status-line\" + (type === \"error\" ? \" is-error\" : \"\");\n      notesStatus.textContent = state.notesAiStatus;\n    }\n\n    function syncStaticInputs() {\n      taskSearchInput.value = state.search;\n      notesFromDateInput.value = state.notesFromDate;\n      notesToDateInput.value = state.notesToDate;\n      setAiStatus(state.aiStatusType, state.aiStatus);\n      setNotesAiStatus(state.notesAiStatusType, state.notesAiStatus);\n\n      // Sync advanced panel\n      const advancedPanel = document.getElementById(\"extract-advanced-panel\");\n      if (advancedPanel) {\n        advancedPanel.style.display = state.advancedPanelOpen ? \"block\" : \"none\";\n      }\n\n      // Sync model selector\n      const modelSelect = document.getElementById(\"ai-model-select\");\n      if (modelSelect) {\n        modelSelect.value = state.selectedModel;\n      }\n    }\n\n    function applyStaticStrings() {\n      newTaskText.placeholder = UI('addTaskPlaceholder');\n      taskSearchInput.placeholder = UI('searchTasksPlaceholder');\n      const refreshBtn = document.getElementById(\"btn-refresh\");\n      if (refreshBtn) refreshBtn.textContent = UI('refresh');\n      const createBtn = document.getElementById(\"btn-create-task\");\n      if (createBtn) createBtn.textContent = UI('addBtn');\n      const extractMomentsBtn = document.getElementById(\"btn-ai-extract\");\n      if (extractMomentsBtn) {\n        extractMomentsBtn.title = UI('fromMoments');\n        extractMomentsBtn.innerHTML = '<span class=\"extract-icon\">✦</span> ' + UI('fromMoments');\n      }\n      const extractNotesBtn = document.getElementById(\"btn-extract-notes\");\n      if (extractNotesBtn) {\n        extractNotesBtn.title = UI('fromNotes');\n        extractNotesBtn.innerHTML = '<span class=\"extract-icon\">📝</span> ' + UI('fromNotes');\n      }\n      const advancedBtn = document.getElementById(\"btn-extract-advanced\");\n      if (advancedBtn) advancedBtn.title = UI('advanced');\n      const modelLabel = document.querySelector(\".extract-model-select label\");\n      if (modelLabel) modelLabel.textContent = UI('aiModelLabel');\n      const periodLabel = document.querySelector(\".extract-date-range label\");\n      if (periodLabel) periodLabel.textContent = UI('periodLabel');\n      const searchShell = document.querySelector(\".search-shell\");\n      if (searchShell) searchShell.setAttribute(\"aria-label\", UI('searchTasksPlaceholder'));\n      const kpiLabels = {\n        \"dashboard-kpi-open\": UI('kpiOpen'),\n        \"dashboard-kpi-today\": UI('kpiToday'),\n        \"dashboard-kpi-done\": UI('kpiDone'),\n      };\n      Object.keys(kpiLabels).forEach(function (id) {\n        const labelEl = document.querySelector(\"#\" + id + \" .dashboard-kpi-label\");\n        if (labelEl) labelEl.textContent = kpiLabels[id];\n      });\n    }\n\n    function rerender() {\n      persistState();\n      renderViewTabs();\n      renderLayoutSwitch();\n      renderBulkBar();\n      renderFilters();\n      renderTasks();\n      renderCandidateBlock();\n    }\n\n    document.getElementById(\"btn-refresh\").addEventListener(\"click\", function () {\n      vscode.postMessage({ command: \"refresh\" });\n    });\n\n    document.getElementById(\"btn-create-task\").addEventListener(\"click\", function () {\n      const text = newTaskText.value.trim();\n      if (!text) {\n        setAiStatus(\"error\", UI('taskTextRequired'));\n        return;\n      }\n\n      newTaskText.value = \"\";\n      state.aiStatus = \"\";\n      state.aiStatusType = \"idle\";\n      if (state.filter !== \"all\") {\n        state.filter = \"all\";\n      }\n      persistState();\n      vscode.postMessage({\n        command: \"createTask\",\n        text,\n        targetDate: null,\n        dueDate: null,\n      });\n    });\n\n    newTaskText.addEventListener(\"keydown\", function (event) {\n      if (event.key === \"Enter\" && !event.shiftKey) {\n        event.preventDefault();\n        document.getElementById(\"btn-create-task\").click();\n      }\n    });\n\n    // Advanced panel toggle\n    const advancedToggleBtn = document.getElementById(\"btn-extract-advanced\");\n    const advancedPanel = document.getElementById(\"extract-advanced-panel\");\n    if (advancedToggleBtn && advancedPanel) {\n      advancedToggleBtn.addEventListener(\"click\", function () {\n        state.advancedPanelOpen = !state.advancedPanelOpen;\n        advancedPanel.style.display = state.advancedPanelOpen ? \"block\" : \"none\";\n        persistState();\n      });\n    }\n\n    // Model selection\n    const modelSelect = document.getElementById(\"ai-model-select\");\n    if (modelSelect) {\n      modelSelect.value = state.selectedModel;\n      modelSelect.addEventListener(\"change\", function (event) {\n        state.selectedModel = event.target.value;\n        persistState();\n      });\n    }\n\n    document.getElementById(\"btn-ai-extract\").addEventListener(\"click\", function () {\n      mergeCandidateBatch(\"moments\", []);\n      setAiStatus(\"processing\", UI('aiMomentsProcessing', { from: state.notesFromDate, to: state.notesToDate }));\n      rerender();\n      vscode.postMessage({\n        command: \"aiExtract\",\n        fromDate: state.notesFromDate,\n        toDate: state.notesToDate,\n        modelId: state.selectedModel,\n      });\n    });\n\n    document.getElementById(\"btn-extract-notes\").addEventListener(\"click\", function () {\n      mergeCandidateBatch(\"notes\", []);\n      setNotesAiStatus(\"processing\", UI('aiNotesProcessing', { from: state.notesFromDate, to: state.notesToDate }));\n      rerender();\n      vscode.postMessage({\n        command: \"extractFromNotes\",\n        fromDate: state.notesFromDate,\n        toDate: state.notesToDate,\n        modelId: state.selectedModel,\n      });\n    });\n\n    document.getElementById(\"notes-from-date\").addEventListener(\"input\", function (event) {\n      state.notesFromDate = event.target.value || dashboardData.today;\n      persistState();\n    });\n\n    document.getElementById(\"notes-to-date\").addEventListener(\"input\", function (event) {\n      state.notesToDate = event.target.value || dashboardData.today;\n      persistState();\n    });\n\n    taskSearchInput.addEventListener(\"input\", function (event) {\n      state.search = event.target.value;\n      requestTaskSearch();\n      rerender();\n    });\n\n\n\n    function handleAddExtractedAction(actionEl) {\n      const index = Number.parseInt(actionEl.dataset.index || \"-1\", 10);\n      const visibleCandidates = getVisibleCandidates();\n      if (Number.isNaN(index) || !visibleCandidates[index]) {\n        return;\n      }\n\n      const task = visibleCandidates[index];\n      if (!canAddDashboardCandidate(task, getExistingTaskKeys())) {\n        rerender();\n        return;\n      }\n\n      const requestId = createPendingCandidateRequestId(task);\n      pendingCandidateAdds.push({\n        requestId: requestId,\n        order: task.order,\n        key: normalizedCandidateIdentity(task.text),\n        source: task.source,\n      });\n\n      state.candidateTasks = (state.candidateTasks || []).map(function (candidate) {\n        return candidate.order === task.order ? { ...candidate, added: true } : candidate;\n      });\n      if (!state.addedCandidateKeys.includes(normalizedCandidateIdentity(task.text))) {\n        state.addedCandidateKeys = state.addedCandidateKeys.concat([normalizedCandidateIdentity(task.text)]);\n      }\n      persistState();\n\n      vscode.postMessage({\n        command: \"addExtractedTask\",\n        requestId: requestId,\n        text: task.text,\n        dueDate: task.dueDate || null,\n        targetDate: state.targetDate || null,\n      });\n      rerender();\n    }\n\n    function handleDismissExtractedAction(actionEl) {\n      const index = Number.parseInt(actionEl.dataset.index || \"-1\", 10);\n      const visibleCandidates = getVisibleCandidates();\n      if (Number.isNaN(index) || !visibleCandidates[index]) {\n        return;\n      }\n\n      const task = visibleCandidates[index];\n      state.candidateTasks = (state.candidateTasks || []).filter(function (candidate) {\n        return candidate.order !== task.order;\n      });\n      state.candidateBlockError = \"\";\n      persistState();\n      vscode.postMessage({\n        command: \"dismissExtractedTask\",\n        text: task.text,\n      });\n      rerender();\n    }\n\n    filterRow.addEventListener(\"click\", function (event) {\n      const button = event.target.closest(\"[data-filter]\");\n      if (!button) {\n        return;\n      }\n\n      state.filter = button.dataset.filter;\n      rerender();\n    });\n\n    if (viewTabs) {\n      viewTabs.addEventListener(\"click\", function (event) {\n        const actionEl = event.target.closest(\"[data-action]\");\n        if (!actionEl) {\n          return;\n        }\n\n        if (actionEl.dataset.action === \"open-view\") {\n          applyViewQuery(actionEl.dataset.viewQuery || \"\");\n        } else if (actionEl.dataset.action === \"delete-view\") {\n          vscode.postMessage({ command: \"deleteView\", name: actionEl.dataset.viewName || \"\" });\n        } else if (actionEl.dataset.action === \"save-view\") {\n          vscode.postMessage({ command: \"saveView\", query: String(state.search || \"\").trim() });\n        }\n      });\n    }\n\n    taskList.addEventListener(\"click\", function (event) {\n      const actionEl = event.target.closest(\"[data-action]\");\n      if (!actionEl) {\n        return;\n      }\n\n      const action = actionEl.dataset.action;\n      if (action === \"calendar-month\") {\n        const months = Number(actionEl.dataset.months || 0);\n        state.calendarMonth = months === 0 ? dashboardData.today.slice(0, 7) : shiftMonthString(state.calendarMonth, months);\n        rerender();\n        return;\n      }\n\n      if (action === \"open-day\") {\n        vscode.postMessage({ command: \"openCalendarDay\", date: actionEl.dataset.date });\n        return;\n      }\n\n      if (action === \"open-moments-day\") {\n        vscode.postMessage({ command: \"openMomentsDay\", date: actionEl.dataset.date });\n        return;\n      }\n\n      if (action === \"edit\") {\n        state.editingId = actionEl.dataset.taskId || null;\n        rerender();\n        return;\n      }\n\n      if (action === \"toggle-subtasks\") {\n        const taskId = actionEl.dataset.taskId;\n        if (!taskId) {\n          return;\n        }\n        const collapseKey = getTaskCollapseKey(taskId);\n        state.collapsedTaskIds = state.collapsedTaskIds.includes(collapseKey)\n          ? state.collapsedTaskIds.filter(function (key) {\n              return key !== collapseKey;\n            })\n          : state.collapsedTaskIds.concat(collapseKey);\n        persistState();\n        rerender();\n        return;\n      }\n\n      if (action === \"cancel-edit\") {\n        state.editingId = null;\n        rerender();\n        return;\n      }\n\n      if (action === \"save-edit\") {\n        const taskEl = actionEl.closest(\"article[data-task-id]\");\n        if (!taskEl) {\n          return;\n        }\n\n        const textInput = taskEl.querySelector(\"[data-role='edit-text']\");\n        const dueInput = taskEl.querySelector(\"[data-role='edit-due']\");\n        const nextText = textInput ? textInput.value : \"\";\n        const nextDue = dueInput ? dueInput.value : \"\";\n        state.editingId = null;\n        persistState();\n        vscode.postMessage({\n          command: \"updateTask\",\n          taskId: actionEl.dataset.taskId,\n          text: nextText,\n          dueDate: nextDue || null,\n        });\n        return;\n      }\n\n      if (action === \"delete\") {\n        const taskId = actionEl.dataset.taskId;\n        if (!taskId) {\n          return;\n        }\n\n        vscode.postMessage({ command: \"deleteTask\", taskId });\n        return;\n      }\n\n      if (action === \"move-file\") {\n        const taskId = actionEl.dataset.taskId;\n        if (!taskId) {\n          return;\n        }\n\n        vscode.postMessage({ command: \"moveTaskToFile\", taskId });\n        return;\n      }\n\n      if (action === \"open\") {\n        vscode.postMessage({\n          command: \"openFile\",\n          filePath: actionEl.dataset.file || \"\",\n          lineIndex: Number.parseInt(actionEl.dataset.line || \"0\", 10),\n        });\n        return;\n      }\n\n      if (action === \"more\") {\n        const taskId = actionEl.dataset.taskId;\n        if (!taskId) {\n          return;\n        }\n        const dropdown = document.querySelector('[data-more-dropdown=\"' + taskId + '\"]');\n        if (!dropdown) {\n          return;\n        }\n        const isOpen = dropdown.classList.contains(\"is-open\");\n        document.querySelectorAll(\".task-row-more-dropdown.is-open\").forEach(function (d) {\n          d.classList.remove(\"is-open\");\n        });\n        if (!isOpen) {\n          dropdown.classList.add(\"is-open\");\n        }\n        return;\n      }\n\n      if (action === \"add-extracted\" || action === \"add-candidate\") {\n        handleAddExtractedAction(actionEl);\n        return;\n      }\n\n      if (action === \"dismiss-extracted\" || action === \"dismiss-candidate\") {\n        handleDismissExtractedAction(actionEl);\n        return;\n      }\n    });\n\n    if (layoutSwitch) {\n      layoutSwitch.addEventListener(\"click\", function (event) {\n        if (event.target.closest(\"[data-action='toggle-select']\")) {\n          state.selecting = !state.selecting;\n          state.selectedTaskIds = [];\n          rerender();\n          return;\n        }\n\n        const button = event.target.closest(\"[data-layout]\");\n        if (!button) {\n          return;\n        }\n\n        state.layout = [\"board\", \"calendar\", \"moments\"].includes(button.dataset.layout) ? button.dataset.layout : \"list\";\n        rerender();\n      });\n\n      layoutSwitch.addEventListener(\"change\", function (event) {\n        if (event.target.dataset.role !== \"board-group\") {\n          return;\n        }\n\n        state.boardGroup = event.target.value === \"tag\" ? \"tag\" : \"section\";\n        rerender();\n      });\n    }\n\n    if (bulkBar) {\n      bulkBar.addEventListener(\"click\", function (event) {\n        const button = event.target.closest(\"[data-bulk]\");\n        if (!button || button.disabled) {\n          return;\n        }\n\n        switch (button.dataset.bulk) {\n          case \"clear\":\n            state.selectedTaskIds = [];\n            rerender();\n            return;\n          case \"today\":\n            sendBulkAction(\"reschedule\", dashboardData.today);\n            return;\n          case \"tomorrow\":\n            sendBulkAction(\"reschedule\", shiftDateString(dashboardData.today, 1));\n            return;\n          case \"next-week\":\n            sendBulkAction(\"reschedule\", shiftDateString(dashboardData.today, 7));\n            return;\n          default:\n            sendBulkAction(button.dataset.bulk);\n        }\n      });\n\n      bulkBar.addEventListener(\"change\", function (event) {\n        if (event.target.dataset.role === \"bulk-date\" && event.target.value) {\n          sendBulkAction(\"reschedule\", event.target.value);\n        }\n      });\n    }\n\n    if (undoToast) {\n      undoToast.addEventListener(\"click\", function (event) {\n        const button = event.target.closest(\"[data-journal]\");\n        if (!button) {\n          return;\n        }\n\n        undoToast.hidden = true;\n        vscode.postMessage({ command: button.dataset.journal });\n      });\n    }\n\n    let draggedTaskId = null;\n\n    function clearDropTargets() {\n      taskList.querySelectorAll(\".is-drop-target\").forEach(function (target) {\n        target.classList.remove(\"is-drop-target\");\n      });\n    }\n\n    taskList.addEventListener(\"dragstart\", function (event) {\n      const card = event.target.closest(\"[draggable='true'][data-task-id]\");\n      if (!card) {\n        return;\n      }\n\n      draggedTaskId = card.dataset.taskId || null;\n      event.dataTransfer.effectAllowed = \"move\";\n      event.dataTransfer.setData(\"text/plain\", draggedTaskId || \"\");\n      card.classList.add(\"is-dragging\");\n    });\n\n    taskList.addEventListener(\"dragend\", function (event) {\n      const card = event.target.closest(\"[draggable='true'][data-task-id]\");\n      if (card) {\n        card.classList.remove(\"is-dragging\");\n      }\n      draggedTaskId = null;\n      clearDropTargets();\n    });\n\n    taskList.addEventListener(\"dragover\", function (event) {\n      const target = event.target.closest(\"[data-droppable]\");\n      if (!target || !draggedTaskId) {\n        return;\n      }\n\n      event.preventDefault();\n      event.dataTransfer.dropEffect = \"move\";\n      if (!target.classList.contains(\"is-drop-target\")) {\n        clearDropTargets();\n        target.classList.add(\"is-drop-target\");\n      }\n    });\n\n    taskList.addEventListener(\"dragleave\", function (event) {\n      const target = event.target.closest(\"[data-droppable]\");\n      if (target && !target.contains(event.relatedTarget)) {\n        target.classList.remove(\"is-drop-target\");\n      }\n    });\n\n    taskList.addEventListener(\"drop\", function (event) {\n      const target = event.target.closest(\"[data-droppable]\");\n      const taskId = draggedTaskId;\n      draggedTaskId = null;\n      clearDropTargets();\n      if (!target || !taskId) {\n        return;\n      }\n\n      event.preventDefault();\n      const task = (dashboardData.tasks || []).find(function (item) {\n        return item.id === taskId;\n      });\n      let change = null;\n      if (task) {\n        change = target.dataset.calendarDate\n          ? getCalendarDropChange(task, target.dataset.calendarDate)\n          : getBoardDropChange(task, target.dataset.boardColumn);\n      }\n      if (!change) {\n        return;\n      }\n\n      const message = { command: \"moveTask\", taskId: taskId };\n      if (\"dueDate\" in change) {\n        message.dueDate = change.dueDate;\n      }\n      if (\"done\" in change) {\n        message.done = change.done;\n      }\n      vscode.postMessage(message);\n    });\n\n    taskList.addEventListener(\"change\", function (event) {\n      const selectBox = event.target.closest(\"[data-action='select']\");\n      if (selectBox) {\n        const taskId = selectBox.dataset.taskId;\n        state.selectedTaskIds = state.selectedTaskIds.filter(function (id) {\n          return id !== taskId;\n        });\n        if (selectBox.checked) {\n          state.selectedTaskIds.push(taskId);\n        }\n        rerender();\n        return;\n      }\n\n      const checkbox = event.target.closest(\"[data-action='toggle']\");\n      if (!checkbox) {\n        return;\n      }\n\n      vscode.postMessage({\n        command: \"toggleTask\",\n        taskId: checkbox.dataset.taskId,\n        done: checkbox.checked,\n      });\n    });\n\n    document.addEventListener(\"click\", function (event) {\n      const moreBtn = event.target.closest(\"[data-action='more']\");\n      if (!moreBtn) {\n        const openDropdown = document.querySelector(\".task-row-more-dropdown.is-open\");\n        if (openDropdown) {\n          openDropdown.classList.remove(\"is-open\");\n        }\n      }\n    });\n\n    window.addEventListener(\"message\", function (event) {\n      const message = event.data;\n      if (message.type === \"aiStatus\") {\n        setAiStatus(message.status, message.message || \"\");\n        rerender();\n        return;\n      }\n\n      if (message.type === \"extractResult\") {\n        state.filter = \"all\";\n        state.candidateBlockShown = true;\n        state.candidateBlockError = \"\";\n        mergeCandidateBatch(\"moments\", message.tasks || []);\n        persistState();\n        rerender();\n        return;\n      }\n\n      if (message.type === \"candidateAddResult\") {\n        state.candidateBlockError = \"\";\n        removePendingCandidateAdd(message.requestId || null);\n        rerender();\n        return;\n      }\n\n      if (message.type === \"candidateAddFailed\") {\n        const pending = removePendingCandidateAdd(message.requestId || null);\n        if (pending) {\n          state.candidateTasks = (state.candidateTasks || []).map(function (candidate) {\n            return candidate.order === pending.order ? { ...candidate, added: false } : candidate;\n          });\n          state.addedCandidateKeys = (state.addedCandidateKeys || []).filter(function (key) {\n            return key !== pending.key;\n          });\n        }\n        state.candidateBlockError = message.message || \"Failed to add candidate task.\";\n        if (pending && pending.source === \"notes\") {\n          setNotesAiStatus(\"error\", message.message || \"Failed to add candidate task.\");\n        } else {\n          setAiStatus(\"error\", message.message || \"Failed to add candidate task.\");\n        }\n        rerender();\n        return;\n      }\n\n      if (message.type === \"notesAiStatus\") {\n        setNotesAiStatus(message.status, message.message || \"\");\n        rerender();\n        return;\n      }\n\n      if (message.type === \"notesExtractResult\") {\n        state.filter = \"all\";\n        state.candidateBlockShown = true;\n        state.candidateBlockError = \"\";\n        mergeCandidateBatch(\"notes\", message.tasks || []);\n        persistState();\n        rerender();\n        return;\n      }\n\n      if (message.type === \"taskSearchResults\") {\n        if (message.query === state.search) {\n          taskSearchResult = {\n            query: message.query,\n            ranks: new Map(\n              (message.ids || []).map(function (id, rank) {\n                return [id, rank];\n              }),\n            ),\n          };\n          rerender();\n        }\n        return;\n      }\n\n      if (message.type === \"journal\") {\n        showUndoToast(message);\n        return;\n      }\n\n      if (message.type === \"applyView\") {\n        applyViewQuery(typeof message.query === \"string\" ? message.query : \"\");\n        return;\n      }\n\n      if (message.type === \"dashboardData\") {\n        if (message.data) {\n          dashboardData = message.data;\n          currentLocale = dashboardData.locale || currentLocale;\n          const taskIds = new Set(\n            (dashboardData.tasks || []).map(function (item) {\n              return item.id;\n            }),\n          );\n          state.selectedTaskIds = state.selectedTaskIds.filter(function (id) {\n            return taskIds.has(id);\n          });\n          const collapsedCount = state.collapsedTaskIds.length;\n          state.collapsedTaskIds = listPresentCollapsedKeys(state.collapsedTaskIds, dashboardData.tasks);\n          if (state.collapsedTaskIds.length !== collapsedCount) {\n            persistState();\n          }\n          populateModelSelector();\n          applyStaticStrings();\n          syncStaticInputs();\n          requestTaskSearch();\n          rerender();\n        }\n        return;\n      }\n    });\n\n    populateModelSelector();\n    applyStaticStrings();\n    syncStaticInputs();\n    requestTaskSearch();\n    rerender();\n";
+export const dashboardStyle = "  :root {\n    --bg: var(--vscode-editor-background, #111827);\n    --surface: var(--vscode-editorWidget-background, #161b22);\n    --border: var(--vscode-panel-border, #2d3748);\n    --text: var(--vscode-foreground, #dbe2ea);\n    --muted: var(--vscode-descriptionForeground, #8b98a5);\n    --accent: var(--vscode-textLink-foreground, #4f8cff);\n    --success: var(--vscode-testing-iconPassed, #2ea043);\n    --warning: var(--vscode-editorWarning-foreground, #d97706);\n    --danger: var(--vscode-errorForeground, #dc2626);\n    --radius: 12px;\n    --radius-sm: 8px;\n    --gap: 16px;\n    --shadow-sm: 0 1px 2px rgba(0, 0, 0, 0.1), 0 1px 1px rgba(0, 0, 0, 0.06);\n    --shadow-md: 0 4px 6px -1px rgba(0, 0, 0, 0.12), 0 2px 4px -1px rgba(0, 0, 0, 0.08);\n  }\n\n  * { box-sizing: border-box; }\n\n  body {\n    margin: 0;\n    padding: 20px;\n    background: var(--bg);\n    color: var(--text);\n    font-family: var(--vscode-font-family);\n    font-size: var(--vscode-font-size);\n    line-height: 1.5;\n  }\n\n  button,\n  input,\n  textarea {\n    font: inherit;\n  }\n\n  .page {\n    display: flex;\n    flex-direction: column;\n    gap: 10px;\n    max-width: 1320px;\n    margin: 0 auto;\n  }\n\n  .dashboard-header {\n    display: flex;\n    align-items: center;\n    justify-content: space-between;\n    gap: 12px;\n    padding: 8px 0;\n  }\n\n  .header-copy {\n    display: flex;\n    align-items: baseline;\n    gap: 10px;\n    min-width: 0;\n  }\n\n  .header-title {\n    margin: 0;\n    font-size: 15px;\n    font-weight: 600;\n  }\n\n  .header-right {\n    display: inline-flex;\n    flex-wrap: wrap;\n    justify-content: flex-end;\n    gap: 8px;\n    align-items: center;\n  }\n\n  .dashboard-kpi-row {\n    display: inline-flex;\n    flex-wrap: wrap;\n    justify-content: flex-end;\n    gap: 8px;\n  }\n\n   .dashboard-kpi-chip {\n     display: inline-flex;\n     align-items: center;\n     gap: 6px;\n     min-height: 28px;\n     padding: 4px 12px;\n     border-radius: 999px;\n     border: 1px solid color-mix(in srgb, var(--border) 60%, transparent);\n     background: color-mix(in srgb, var(--surface) 80%, transparent);\n     backdrop-filter: blur(4px);\n     -webkit-backdrop-filter: blur(4px);\n     color: var(--text);\n     font-size: 12px;\n     box-shadow: var(--shadow-sm);\n     transition: all 200ms cubic-bezier(0.4, 0, 0.2, 1);\n     cursor: default;\n   }\n\n   .dashboard-kpi-chip:hover {\n     border-color: color-mix(in srgb, var(--border) 100%, var(--accent) 30%);\n     background: color-mix(in srgb, var(--surface) 95%, transparent);\n     transform: translateY(-1px);\n     box-shadow: var(--shadow-md);\n   }\n\n  .dashboard-kpi-label {\n    color: var(--muted);\n    font-size: 11px;\n    font-weight: 600;\n    letter-spacing: 0.04em;\n    text-transform: uppercase;\n  }\n\n  .dashboard-kpi-value {\n    font-size: 13px;\n    font-weight: 700;\n    line-height: 1;\n    font-variant-numeric: tabular-nums;\n  }\n\n  .dashboard-kpi-note {\n    color: var(--muted);\n    font-size: 11px;\n    font-variant-numeric: tabular-nums;\n  }\n\n  .dashboard-toolbar,\n  .dashboard-action-bar,\n  .list-surface,\n  .analytics-strip,\n  .analytics-panel {\n    min-width: 0;\n    border: 1px solid color-mix(in srgb, var(--border) 78%, transparent);\n    border-radius: var(--radius-sm);\n    background: color-mix(in srgb, var(--surface) 65%, transparent);\n    backdrop-filter: blur(12px);\n    -webkit-backdrop-filter: blur(12px);\n    box-shadow: var(--shadow-sm);\n    transition: border-color 200ms ease, box-shadow 200ms ease;\n  }\n\n  .dash-add-row {\n    display: flex;\n    align-items: center;\n    gap: 8px;\n  }\n\n  .dash-add-input {\n    flex: 1;\n    min-width: 0;\n    border: 1px solid color-mix(in srgb, var(--border) 80%, transparent);\n    border-radius: 6px;\n    background: color-mix(in srgb, var(--bg) 95%, transparent);\n    color: var(--text);\n    padding: 8px 14px;\n    font-size: 13px;\n    outline: none;\n    transition: all 200ms ease;\n  }\n\n  .dash-add-input:focus {\n    border-color: var(--accent);\n    box-shadow: 0 0 0 3px color-mix(in srgb, var(--accent) 15%, transparent);\n    background: var(--bg);\n  }\n\n  .dash-add-input::placeholder {\n    color: var(--muted);\n  }\n\n  .dash-extract-row-compact {\n    display: flex;\n    flex-direction: column;\n    gap: 8px;\n  }\n\n  .dash-extract-main {\n    display: flex;\n    align-items: center;\n    gap: 8px;\n    flex-wrap: wrap;\n  }\n\n  .dash-extract-advanced {\n    display: flex;\n    flex-direction: column;\n    gap: 10px;\n    padding: 12px;\n    background: var(--surface);\n    border: 1px solid var(--border);\n    border-radius: 4px;\n  }\n\n  .extract-model-select,\n  .extract-date-range {\n    display: flex;\n    align-items: center;\n    gap: 8px;\n    flex-wrap: wrap;\n  }\n\n  .extract-model-select label,\n  .extract-date-range label {\n    font-size: 12px;\n    color: var(--muted);\n    min-width: 60px;\n  }\n\n  .extract-model-select select {\n    min-width: 200px;\n    padding: 4px 8px;\n    border: 1px solid var(--border);\n    border-radius: 4px;\n    background: var(--bg);\n    color: var(--text);\n    font-size: 13px;\n  }\n\n  .extract-date-range input[type=\"date\"] {\n    padding: 4px 8px;\n    border: 1px solid var(--border);\n    border-radius: 4px;\n    background: var(--bg);\n    color: var(--text);\n    font-size: 13px;\n  }\n\n  .extract-icon {\n    font-size: 14px;\n    opacity: 0.8;\n  }\n\n  .btn-extract {\n    background: color-mix(in srgb, var(--accent) 10%, var(--surface));\n  }\n\n  .btn-extract:hover {\n    background: color-mix(in srgb, var(--accent) 20%, var(--surface));\n  }\n\n  .dash-list-bar {\n    display: flex;\n    align-items: center;\n    gap: 10px;\n    flex-wrap: wrap;\n    padding: 8px 0;\n  }\n\n  .dash-list-bar .search-shell {\n    flex: 1;\n    min-width: 140px;\n    min-height: 34px;\n  }\n\n  .dash-list-bar .filter-row {\n    display: inline-flex;\n    flex-wrap: wrap;\n    gap: 6px;\n  }\n\n  .view-tabs {\n    display: flex;\n    flex-wrap: wrap;\n    align-items: center;\n    gap: 4px;\n    padding: 0 0 8px;\n    border-bottom: 1px solid var(--border);\n    margin-bottom: 8px;\n  }\n\n  .view-tabs:empty {\n    display: none;\n  }\n\n  .view-tab {\n    display: inline-flex;\n    align-items: center;\n    gap: 4px;\n  }\n\n  .view-tab-open,\n  .view-tab-remove {\n    padding: 0;\n    border: none;\n    background: transparent;\n    color: inherit;\n    font: inherit;\n    cursor: pointer;\n  }\n\n  .view-tab-remove {\n    padding: 0 2px;\n    opacity: 0.6;\n  }\n\n  .view-tab-remove:hover {\n    opacity: 1;\n  }\n\n  .undo-toast {\n    position: fixed;\n    right: 16px;\n    bottom: 16px;\n    z-index: 20;\n    display: flex;\n    align-items: center;\n    gap: 10px;\n    padding: 8px 12px;\n    border: 1px solid var(--border);\n    border-radius: 8px;\n    background: var(--surface);\n    box-shadow: 0 4px 16px rgba(0, 0, 0, 0.2);\n  }\n\n  .undo-toast[hidden] {\n    display: none;\n  }\n\n  .bulk-bar {\n    display: flex;\n    flex-wrap: wrap;\n    align-items: center;\n    gap: 6px;\n    padding: 6px 8px;\n    margin-bottom: 8px;\n    border: 1px solid var(--border);\n    border-radius: 8px;\n    background: color-mix(in srgb, var(--accent) 6%, var(--surface));\n  }\n\n  .bulk-bar[hidden] {\n    display: none;\n  }\n\n  .bulk-count {\n    margin-right: 4px;\n    font-weight: 600;\n  }\n\n  .bulk-date {\n    font: inherit;\n  }\n\n  .task-row-select-entry {\n    display: inline-flex;\n    align-items: center;\n    flex-shrink: 0;\n    margin-top: 2px;\n  }\n\n  .task-row.is-selected {\n    background: color-mix(in srgb, var(--accent) 10%, var(--surface));\n  }\n\n  .layout-switch {\n    display: inline-flex;\n    align-items: center;\n    gap: 6px;\n  }\n\n  .board-group-select {\n    background: var(--vscode-dropdown-background, var(--surface));\n    color: var(--vscode-dropdown-foreground, var(--text));\n    border: 1px solid var(--vscode-dropdown-border, var(--border));\n    border-radius: 4px;\n    padding: 3px 6px;\n    font-size: 12px;\n  }\n\n  .task-board {\n    display: grid;\n    grid-auto-flow: column;\n    grid-auto-columns: minmax(220px, 1fr);\n    gap: 10px;\n    overflow-x: auto;\n    padding-bottom: 8px;\n  }\n\n  .board-column {\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n    min-height: 160px;\n    padding: 8px;\n    border: 1px solid var(--border);\n    border-radius: var(--radius-sm);\n    background: color-mix(in srgb, var(--surface) 70%, var(--bg));\n  }\n\n  .board-column.is-drop-target {\n    border-color: var(--accent);\n    background: color-mix(in srgb, var(--accent) 10%, var(--surface));\n  }\n\n  .board-column-items {\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n  }\n\n  .task-row.board-card {\n    padding: 8px;\n    border-color: var(--border);\n    background: var(--surface);\n    cursor: grab;\n  }\n\n  .task-row.board-card.is-dragging {\n    opacity: 0.5;\n  }\n\n  .task-calendar {\n    display: flex;\n    flex-direction: column;\n    gap: 8px;\n  }\n\n  .calendar-toolbar {\n    display: flex;\n    align-items: center;\n    gap: 6px;\n  }\n\n  .calendar-month-label {\n    min-width: 140px;\n    margin: 0;\n    font-size: 14px;\n    text-align: center;\n  }\n\n  .calendar-grid {\n    display: grid;\n    grid-template-columns: repeat(7, minmax(0, 1fr));\n    gap: 4px;\n  }\n\n  .calendar-weekday {\n    padding: 2px 4px;\n    color: var(--muted);\n    font-size: 11px;\n    text-align: center;\n  }\n\n  .calendar-day {\n    display: flex;\n    flex-direction: column;\n    gap: 2px;\n    min-height: 84px;\n    padding: 4px;\n    border: 1px solid var(--border);\n    border-radius: 4px;\n    background: var(--surface);\n    cursor: pointer;\n    min-width: 0;\n  }\n\n  .calendar-day.is-outside {\n    opacity: 0.55;\n  }\n\n  .calendar-day.is-today {\n    border-color: var(--accent);\n  }\n\n  .calendar-day.is-drop-target {\n    background: color-mix(in srgb, var(--accent) 14%, var(--surface));\n  }\n\n  .calendar-day-header {\n    display: flex;\n    align-items: center;\n    gap: 4px;\n    font-size: 12px;\n  }\n\n  .calendar-day-number {\n    flex: 1;\n    font-variant-numeric: tabular-nums;\n  }\n\n  .calendar-marker {\n    font-size: 11px;\n  }\n\n  .calendar-task {\n    overflow: hidden;\n    padding: 1px 4px;\n    border-radius: 3px;\n    background: color-mix(in srgb, var(--accent) 16%, transparent);\n    font-size: 11px;\n    white-space: nowrap;\n    text-overflow: ellipsis;\n    cursor: grab;\n  }\n\n  .calendar-task.is-overdue {\n    background: color-mix(in srgb, var(--danger) 18%, transparent);\n  }\n\n  .calendar-task.is-done {\n    opacity: 0.6;\n    text-decoration: line-through;\n  }\n\n  .calendar-more {\n    color: var(--muted);\n    font-size: 11px;\n  }\n\n  .moments-stats {\n    display: flex;\n    flex-direction: column;\n    gap: 10px;\n    padding: 12px;\n    border: 1px solid var(--border);\n    border-radius: var(--radius-sm);\n    background: var(--surface);\n  }\n\n  .moments-stats-figures {\n    display: flex;\n    flex-wrap: wrap;\n    gap: 8px;\n  }\n\n  .moments-stats-figure {\n    display: flex;\n    flex-direction: column;\n    min-width: 110px;\n    padding: 6px 10px;\n    border: 1px solid var(--border);\n    border-radius: var(--radius-sm);\n  }\n\n  .moments-stats-figure strong {\n    font-size: 18px;\n    font-variant-numeric: tabular-nums;\n  }\n\n  .moments-stats-figure span,\n  .moments-stats-heading {\n    color: var(--muted);\n    font-size: 12px;\n  }\n\n  .moments-stats-heading {\n    margin: 6px 0 0;\n    font-weight: 600;\n  }\n\n  .moments-heatmap {\n    display: grid;\n    grid-auto-flow: column;\n    grid-template-rows: repeat(7, 11px);\n    grid-auto-columns: 11px;\n    gap: 3px;\n    overflow-x: auto;\n  }\n\n  .heatmap-cell {\n    border-radius: 2px;\n  }\n\n  .heatmap-cell.is-future {\n    visibility: hidden;\n  }\n\n  .heatmap-cell[data-action] {\n    cursor: pointer;\n  }\n\n  .heat-0 {\n    background: color-mix(in srgb, var(--border) 60%, transparent);\n  }\n\n  .heat-1 {\n    background: color-mix(in srgb, var(--success) 30%, transparent);\n  }\n\n  .heat-2 {\n    background: color-mix(in srgb, var(--success) 55%, transparent);\n  }\n\n  .heat-3 {\n    background: color-mix(in srgb, var(--success) 80%, transparent);\n  }\n\n  .heat-4 {\n    background: var(--success);\n  }\n\n  .moments-hours {\n    display: grid;\n    grid-template-columns: repeat(24, minmax(0, 1fr));\n    gap: 2px;\n    height: 80px;\n  }\n\n  .hour-column {\n    display: flex;\n    flex-direction: column;\n    justify-content: flex-end;\n    min-width: 0;\n  }\n\n  .hour-bar {\n    min-height: 1px;\n    border-radius: 2px 2px 0 0;\n    background: var(--accent);\n  }\n\n  .hour-label {\n    height: 14px;\n    color: var(--muted);\n    font-size: 10px;\n  }\n\n  .moments-tags {\n    border-collapse: collapse;\n    font-size: 12px;\n  }\n\n  .moments-tags th,\n  .moments-tags td {\n    padding: 2px 6px;\n    text-align: center;\n    font-variant-numeric: tabular-nums;\n  }\n\n  .moments-tags tbody th {\n    text-align: left;\n    font-weight: normal;\n  }\n\n  .moments-tags thead th {\n    color: var(--muted);\n    font-weight: normal;\n  }\n\n  .tag-month {\n    display: inline-block;\n    min-width: 24px;\n    border-radius: 3px;\n  }\n\n  .list-surface {\n    padding: 0;\n    border: none;\n    background: transparent;\n  }\n\n  .candidate-block {\n    min-width: 0;\n    border: 1px solid color-mix(in srgb, var(--border) 78%, transparent);\n    border-radius: var(--radius-sm);\n    background: color-mix(in srgb, var(--surface) 56%, transparent);\n    padding: 10px 12px;\n  }\n\n  .candidate-items {\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n  }\n\n  .candidate-block-error {\n    display: flex;\n    align-items: center;\n    justify-content: space-between;\n    gap: 8px;\n    padding: 8px 12px;\n    border-radius: var(--radius-sm);\n    background: var(--vscode-inputValidation-errorBackground, rgba(255, 0, 0, 0.1));\n    color: var(--vscode-errorForeground, var(--text));\n    font-size: 12px;\n    line-height: 1.4;\n  }\n\n  .candidate-block-error-text {\n    flex: 1;\n    min-width: 0;\n  }\n\n  .candidate-block-error-dismiss {\n    flex-shrink: 0;\n    background: none;\n    border: none;\n    color: inherit;\n    opacity: 0.6;\n    cursor: pointer;\n    font-size: 14px;\n    padding: 2px 4px;\n    line-height: 1;\n  }\n\n  .candidate-block-error-dismiss:hover {\n    opacity: 1;\n  }\n\n  .filter-row {\n    display: flex;\n    flex-wrap: wrap;\n    gap: 8px;\n  }\n\n  .filter-chip {\n    display: inline-flex;\n    align-items: center;\n    gap: 6px;\n    padding: 4px 10px;\n    border-radius: 4px;\n    border: 1px solid transparent;\n    background: transparent;\n    color: var(--muted);\n    cursor: pointer;\n    font-size: 13px;\n    transition: all 150ms ease;\n  }\n\n  .filter-chip:hover {\n    background: var(--vscode-toolbar-hoverBackground, color-mix(in srgb, var(--border) 50%, transparent));\n    color: var(--text);\n  }\n\n  .filter-chip.is-active {\n    background: var(--accent);\n    border-color: var(--accent);\n    color: var(--vscode-button-foreground, #fff);\n  }\n\n  .filter-chip strong {\n    font-weight: 600;\n    font-variant-numeric: tabular-nums;\n  }\n\n  .search-shell {\n    display: flex;\n    align-items: center;\n    gap: 8px;\n    border: 1px solid var(--border);\n    border-radius: 4px;\n    padding: 0 10px;\n    min-height: 32px;\n    background: var(--bg);\n    transition: border-color 150ms ease;\n  }\n\n  .search-shell:focus-within {\n    border-color: var(--accent);\n  }\n\n  .search-shell span {\n    color: var(--muted);\n    font-size: 13px;\n  }\n\n  .search-shell input {\n    border: none;\n    background: transparent;\n    color: var(--text);\n    width: 100%;\n    min-width: 0;\n    outline: none;\n    padding: 6px 0;\n    font-size: 13px;\n  }\n\n  .dashboard-main-list {\n    display: flex;\n    flex-direction: column;\n    gap: 16px;\n    min-width: 0;\n  }\n\n  .task-section {\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n  }\n\n  .task-section-header {\n    display: flex;\n    align-items: center;\n    justify-content: space-between;\n    gap: 8px;\n    padding: 4px 0;\n    border-bottom: 1px solid var(--border);\n  }\n\n  .task-section-header h3 {\n    margin: 0;\n    font-size: 11px;\n    font-weight: 600;\n    letter-spacing: 0.08em;\n    text-transform: uppercase;\n    color: var(--muted);\n  }\n\n  .task-section-header span {\n    color: var(--muted);\n    font-size: 11px;\n    font-variant-numeric: tabular-nums;\n  }\n\n  .task-items {\n    display: flex;\n    flex-direction: column;\n    gap: 2px;\n  }\n\n  .task-subtasks {\n    display: flex;\n    flex-direction: column;\n    gap: 2px;\n    margin-left: 22px;\n    padding-left: 6px;\n    border-left: 1px solid color-mix(in srgb, var(--border) 70%, transparent);\n  }\n\n  .task-row {\n    display: flex;\n    align-items: flex-start;\n    gap: 10px;\n    padding: 10px 12px;\n    border-radius: var(--radius-sm);\n    border: 1px solid transparent;\n    background: transparent;\n    min-width: 0;\n    position: relative;\n    overflow: hidden;\n    transition: all 200ms cubic-bezier(0.4, 0, 0.2, 1);\n  }\n\n  .task-row::before {\n    content: \"\";\n    position: absolute;\n    left: 0;\n    top: 15%;\n    bottom: 15%;\n    width: 3px;\n    background: var(--accent);\n    border-radius: 0 2px 2px 0;\n    opacity: 0;\n    transform: scaleY(0.4);\n    transition: opacity 200ms ease, transform 200ms cubic-bezier(0.4, 0, 0.2, 1);\n  }\n\n  .task-row:hover {\n    background: var(--vscode-list-hoverBackground, color-mix(in srgb, var(--accent) 6%, transparent));\n    border-color: color-mix(in srgb, var(--border) 60%, transparent);\n    box-shadow: var(--shadow-sm);\n    transform: translateY(-1px);\n  }\n\n  .task-row:hover::before {\n    opacity: 1;\n    transform: scaleY(1);\n  }\n\n  .task-row.task-row-saved.is-overdue {\n    border-color: color-mix(in srgb, var(--danger) 35%, var(--border));\n  }\n\n  .task-row.task-row-saved.is-today {\n    border-color: color-mix(in srgb, var(--accent) 35%, var(--border));\n  }\n\n  .task-row.task-row-saved.is-done {\n    opacity: 0.76;\n  }\n\n  .task-row.task-row-candidate {\n    background: color-mix(in srgb, var(--surface) 84%, var(--bg));\n  }\n\n  .task-row.task-row-candidate.is-candidate-blocked {\n    opacity: 0.8;\n  }\n\n  .task-row-toggle-entry,\n  .task-row-leading {\n    position: relative;\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n    flex-shrink: 0;\n    margin-top: 2px;\n  }\n\n  .task-row-toggle-entry {\n    width: 18px;\n    height: 18px;\n  }\n\n  .task-row-toggle {\n    appearance: none;\n    -webkit-appearance: none;\n    width: 18px;\n    height: 18px;\n    margin: 0;\n    border-radius: 5px;\n    border: 1.5px solid color-mix(in srgb, var(--accent) 40%, var(--border));\n    background: transparent;\n    cursor: pointer;\n    transition: all 180ms ease;\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n  }\n\n  .task-row-toggle:hover {\n    border-color: var(--accent);\n    background: color-mix(in srgb, var(--accent) 8%, transparent);\n  }\n\n  .task-row-toggle:checked {\n    background: var(--success);\n    border-color: var(--success);\n  }\n\n  .task-row-toggle::after {\n    content: \"\";\n    position: absolute;\n    width: 10px;\n    height: 6px;\n    border-left: 2px solid var(--vscode-button-foreground, #fff);\n    border-bottom: 2px solid var(--vscode-button-foreground, #fff);\n    transform: rotate(-45deg) translate(1px, -1px) scale(0);\n    transition: transform 180ms cubic-bezier(0.175, 0.885, 0.32, 1.275);\n    transform-origin: center;\n    box-sizing: border-box;\n    margin-top: -2px;\n  }\n\n  .task-row-toggle:checked::after {\n    transform: rotate(-45deg) translate(1px, -1px) scale(1);\n  }\n\n  .task-row-body {\n    flex: 1;\n    min-width: 0;\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n  }\n\n  .task-row-main {\n    display: flex;\n    align-items: flex-start;\n    justify-content: space-between;\n    gap: 10px;\n    min-width: 0;\n  }\n\n  .task-row-title-entry {\n    flex: 1;\n    min-width: 0;\n    display: flex;\n    align-items: baseline;\n    gap: 4px;\n  }\n\n  .task-row-subtask-toggle {\n    flex: none;\n    margin: 0;\n    border: none;\n    padding: 0 2px;\n    background: transparent;\n    color: var(--muted);\n    font-size: 11px;\n    line-height: 1;\n    cursor: pointer;\n  }\n\n  .task-row-subtask-toggle:hover {\n    color: var(--accent);\n  }\n\n  .task-row-title {\n    margin: 0;\n    border: none;\n    padding: 0;\n    background: transparent;\n    color: var(--text);\n    text-align: left;\n    font-size: 13px;\n    font-weight: 600;\n    line-height: 1.35;\n    cursor: pointer;\n    min-width: 0;\n    width: 100%;\n    overflow: hidden;\n    text-overflow: ellipsis;\n    white-space: nowrap;\n  }\n\n  .task-row-saved .task-row-title:hover {\n    color: var(--accent);\n  }\n\n  .task-row-candidate .task-row-title {\n    cursor: default;\n    white-space: normal;\n    display: -webkit-box;\n    -webkit-box-orient: vertical;\n    -webkit-line-clamp: 2;\n  }\n\n  .task-row.task-row-saved.is-done .task-row-title {\n    color: var(--muted);\n    text-decoration: line-through;\n  }\n\n  .task-row-secondary-actions,\n  .task-row-candidate-actions {\n    display: inline-flex;\n    align-items: center;\n    gap: 8px;\n    justify-content: flex-end;\n    flex-shrink: 0;\n  }\n\n  .task-row-secondary-actions {\n    opacity: 0;\n    pointer-events: none;\n    transition: opacity 120ms ease-out;\n  }\n\n  .task-row:hover .task-row-secondary-actions,\n  .task-row:focus-within .task-row-secondary-actions {\n    opacity: 1;\n    pointer-events: auto;\n  }\n\n  .task-row-action-icon {\n    width: 28px;\n    height: 28px;\n    padding: 0;\n    border-radius: 999px;\n    border: 1px solid transparent;\n    background: transparent;\n    color: var(--muted);\n    cursor: pointer;\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n    transition: color 150ms ease, background-color 150ms ease, border-color 150ms ease;\n  }\n\n  .task-row-action-icon:hover {\n    color: var(--text);\n    background: var(--vscode-toolbar-hoverBackground, color-mix(in srgb, var(--border) 50%, transparent));\n    border-color: color-mix(in srgb, var(--border) 70%, transparent);\n  }\n\n  .task-row-action-icon[data-action=\"delete\"] {\n    color: color-mix(in srgb, var(--danger) 78%, var(--muted));\n  }\n\n  .task-row-action-icon[data-action=\"delete\"]:hover {\n    color: var(--danger);\n    background: color-mix(in srgb, var(--danger) 12%, transparent);\n    border-color: color-mix(in srgb, var(--danger) 32%, transparent);\n  }\n\n  .task-row-action-icon svg {\n    width: 14px;\n    height: 14px;\n    display: block;\n  }\n\n  .task-row-more-menu { display: none; position: relative; }\n  .task-row-more-btn {\n    border-radius: 999px;\n    border: 1px solid var(--border);\n    background: transparent;\n    color: var(--text);\n    cursor: pointer;\n    padding: 8px 12px;\n  }\n  .task-row-more-dropdown {\n    display: none;\n    position: absolute;\n    right: 0;\n    top: 100%;\n    background: var(--surface);\n    border: 1px solid var(--border);\n    border-radius: var(--radius-sm);\n    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);\n    z-index: 10;\n    min-width: 120px;\n  }\n  .task-row-more-dropdown.is-open {\n    display: block;\n  }\n  .task-row-more-dropdown button {\n    display: block;\n    width: 100%;\n    border: none;\n    background: transparent;\n    color: var(--text);\n    padding: 8px 12px;\n    text-align: left;\n    cursor: pointer;\n  }\n  .task-row-more-dropdown button:hover {\n    background: color-mix(in srgb, var(--accent) 12%, transparent);\n  }\n  .task-row-more-dropdown button.is-danger {\n    color: var(--danger, #e54d42);\n  }\n  .task-row-more-dropdown button.is-danger:hover {\n    background: color-mix(in srgb, var(--danger, #e54d42) 12%, transparent);\n  }\n\n  .link-btn,\n  .text-btn,\n  .btn {\n    border-radius: 6px;\n    border: 1px solid color-mix(in srgb, var(--border) 70%, transparent);\n    background: color-mix(in srgb, var(--surface) 90%, transparent);\n    color: var(--text);\n    cursor: pointer;\n    padding: 6px 14px;\n    font-size: 13px;\n    transition: all 200ms cubic-bezier(0.4, 0, 0.2, 1);\n    display: inline-flex;\n    align-items: center;\n    gap: 6px;\n  }\n\n  .btn:hover {\n    background: var(--vscode-toolbar-hoverBackground, color-mix(in srgb, var(--accent) 10%, var(--surface)));\n    border-color: var(--accent);\n    transform: translateY(-1px);\n    box-shadow: var(--shadow-sm);\n  }\n\n  .btn:active {\n    transform: translateY(0);\n  }\n\n  .btn-primary {\n    background: var(--accent);\n    border-color: var(--accent);\n    color: var(--vscode-button-foreground, #fff);\n  }\n\n  .btn-primary:hover {\n    background: color-mix(in srgb, var(--accent) 85%, #000);\n    border-color: color-mix(in srgb, var(--accent) 85%, #000);\n  }\n\n  .btn-danger {\n    border-color: var(--danger);\n    color: var(--danger);\n  }\n\n  .btn-danger:hover {\n    background: color-mix(in srgb, var(--danger) 10%, transparent);\n  }\n\n  .btn:disabled,\n  .text-btn:disabled {\n    cursor: not-allowed;\n    opacity: 0.5;\n  }\n\n  .text-btn,\n  .link-btn {\n    padding: 4px 8px;\n    font-size: 12px;\n    color: var(--muted);\n    background: transparent;\n  }\n\n  .text-btn:hover,\n  .link-btn:hover {\n    color: var(--text);\n    background: var(--vscode-toolbar-hoverBackground, color-mix(in srgb, var(--border) 50%, transparent));\n  }\n\n  .task-row-meta {\n    display: flex;\n    flex-wrap: nowrap;\n    gap: 8px;\n    min-width: 0;\n    overflow: hidden;\n    white-space: nowrap;\n  }\n\n  .task-row-meta-item {\n    display: inline-flex;\n    align-items: center;\n    gap: 4px;\n    min-width: 0;\n    flex-shrink: 0;\n  }\n\n  .task-row-meta-source {\n    min-width: 0;\n    overflow: hidden;\n    text-overflow: ellipsis;\n    white-space: nowrap;\n    flex: 1 1 auto;\n  }\n\n  .badge {\n    display: inline-flex;\n    align-items: center;\n    gap: 4px;\n    padding: 4px 8px;\n    border-radius: 999px;\n    border: 1px solid var(--border);\n    font-size: 11px;\n    color: var(--muted);\n    background: color-mix(in srgb, var(--surface) 88%, var(--bg));\n  }\n\n  .badge.is-accent {\n    color: var(--accent);\n    border-color: color-mix(in srgb, var(--accent) 40%, var(--border));\n    background: color-mix(in srgb, var(--accent) 12%, transparent);\n  }\n\n  .badge.is-success {\n    color: var(--success);\n    border-color: color-mix(in srgb, var(--success) 40%, var(--border));\n    background: color-mix(in srgb, var(--success) 12%, transparent);\n  }\n\n  .badge.is-warning {\n    color: var(--warning);\n    border-color: color-mix(in srgb, var(--warning) 40%, var(--border));\n    background: color-mix(in srgb, var(--warning) 12%, transparent);\n  }\n\n  .badge.is-danger {\n    color: var(--danger);\n    border-color: color-mix(in srgb, var(--danger) 40%, var(--border));\n    background: color-mix(in srgb, var(--danger) 12%, transparent);\n  }\n\n  .task-row-meta-category {\n    color: var(--accent);\n    border-color: color-mix(in srgb, var(--accent) 30%, var(--border));\n    background: color-mix(in srgb, var(--accent) 6%, transparent);\n  }\n\n  .task-row-meta-priority {\n    font-weight: 600;\n    text-transform: uppercase;\n    font-size: 9px;\n    letter-spacing: 0.04em;\n  }\n\n  .task-row-meta-priority.is-danger {\n    color: var(--danger);\n    border-color: color-mix(in srgb, var(--danger) 40%, var(--border));\n    background: color-mix(in srgb, var(--danger) 12%, transparent);\n  }\n\n  .task-row-meta-priority.is-warning {\n    color: var(--warning);\n    border-color: color-mix(in srgb, var(--warning) 40%, var(--border));\n    background: color-mix(in srgb, var(--warning) 12%, transparent);\n  }\n\n  .task-row-meta-estimate {\n    color: var(--muted);\n    font-variant-numeric: tabular-nums;\n  }\n\n  .task-edit {\n    display: flex;\n    flex-direction: column;\n    gap: 10px;\n  }\n\n  .task-edit .field,\n  .task-edit .field-compact {\n    margin-bottom: 0;\n  }\n\n  .composer-body {\n    display: flex;\n    flex-direction: column;\n    gap: 12px;\n  }\n\n  .composer-body .field,\n  .composer-body .field-compact {\n    margin-bottom: 0;\n  }\n\n  .composer-body .helper {\n    margin: 0;\n  }\n\n  .field,\n  .field-compact {\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n    min-width: 0;\n    margin-bottom: 12px;\n  }\n\n  .field span,\n  .field-compact span {\n    color: var(--muted);\n    font-size: 12px;\n    font-weight: 600;\n  }\n\n  .field input,\n  .field textarea,\n  .field-compact input {\n    width: 100%;\n    border: 1px solid var(--border);\n    border-radius: var(--radius-sm);\n    background: color-mix(in srgb, var(--surface) 88%, var(--bg));\n    color: var(--text);\n    padding: 10px 12px;\n    outline: none;\n  }\n\n  .field textarea {\n    resize: vertical;\n    min-height: 92px;\n  }\n\n  .field input:focus,\n  .field textarea:focus,\n  .field-compact input:focus {\n    border-color: color-mix(in srgb, var(--accent) 55%, var(--border));\n  }\n\n  .field-grid {\n    display: grid;\n    grid-template-columns: repeat(2, minmax(0, 1fr));\n    gap: 10px;\n  }\n\n  .inline-actions {\n    display: flex;\n    flex-wrap: wrap;\n    gap: 8px;\n  }\n\n  .dash-extract-group {\n    display: inline-flex;\n    align-items: center;\n    gap: 6px;\n    flex-wrap: wrap;\n  }\n\n  .btn-extract {\n    white-space: nowrap;\n    font-size: 12px;\n    padding: 6px 10px;\n  }\n\n  .extract-date-inline {\n    border: 1px solid var(--border);\n    border-radius: var(--radius-sm);\n    background: color-mix(in srgb, var(--surface) 88%, var(--bg));\n    color: var(--text);\n    padding: 5px 8px;\n    outline: none;\n    font-family: inherit;\n    font-size: 12px;\n    width: auto;\n  }\n\n  .extract-date-inline:focus {\n    border-color: color-mix(in srgb, var(--accent) 55%, var(--border));\n  }\n\n  .extract-range-separator {\n    color: var(--muted);\n    flex-shrink: 0;\n    font-size: 12px;\n  }\n\n  .inline-fields {\n    display: flex;\n    gap: 12px;\n    flex-wrap: wrap;\n    margin-bottom: 12px;\n  }\n  .inline-fields .field-compact {\n    flex: 1;\n    min-width: 120px;\n  }\n\n  .helper {\n    color: var(--muted);\n    font-size: 12px;\n    text-wrap: pretty;\n  }\n\n  .mono {\n    font-variant-numeric: tabular-nums;\n  }\n\n  .empty-state {\n    border: 1px dashed var(--border);\n    border-radius: var(--radius-sm);\n    padding: 14px 16px;\n    color: var(--muted);\n    text-align: center;\n    max-width: 420px;\n    margin: 4px auto;\n  }\n\n  .empty-state-title {\n    display: block;\n    color: var(--text);\n    font-size: 13px;\n    font-weight: 600;\n    margin-bottom: 4px;\n  }\n\n  .empty-state-body {\n    margin: 0;\n    font-size: 12px;\n    line-height: 1.45;\n  }\n\n  .analytics-strip {\n    display: grid;\n    grid-template-columns: minmax(0, 1fr) minmax(260px, 320px);\n    gap: 10px;\n    align-items: start;\n    padding: 8px 10px;\n  }\n\n  .analytics-panel {\n    padding: 8px 10px;\n  }\n\n  .status-line {\n    min-height: 20px;\n    color: var(--muted);\n    font-size: 12px;\n    margin-top: 10px;\n  }\n\n  .status-line.is-error {\n    color: var(--danger);\n  }\n\n  .ai-result {\n    display: flex;\n    flex-direction: column;\n    gap: 10px;\n    margin-top: 12px;\n  }\n\n  .extract-item {\n    padding: 12px;\n    border-radius: var(--radius-sm);\n    border: 1px solid var(--border);\n    background: color-mix(in srgb, var(--surface) 88%, var(--bg));\n  }\n\n  .extract-head {\n    display: flex;\n    flex-direction: column;\n    gap: 4px;\n  }\n\n  .extract-actions {\n    display: flex;\n    justify-content: flex-end;\n    gap: 8px;\n    margin-top: 12px;\n  }\n\n  .extract-title {\n    font-weight: 600;\n    font-size: 13px;\n  }\n\n  .extract-meta {\n    color: var(--muted);\n    font-size: 12px;\n  }\n\n  @media (width < 1000px) {\n    .dashboard-action-bar {\n      grid-template-columns: 1fr;\n    }\n\n    .analytics-strip {\n      grid-template-columns: 1fr;\n    }\n  }\n\n  @media (max-width: 720px) {\n    body {\n      padding: 14px;\n    }\n\n    .dashboard-header {\n      flex-direction: column;\n      align-items: flex-start;\n    }\n\n    .header-right,\n    .dashboard-kpi-row {\n      justify-content: flex-start;\n    }\n\n    .field-grid {\n      grid-template-columns: 1fr;\n    }\n\n    .extract-range-row {\n      flex-direction: column;\n      align-items: stretch;\n    }\n\n    .extract-range-separator {\n      display: none;\n    }\n\n    .task-row-main,\n    .extract-head {\n      flex-direction: column;\n    }\n\n    .task-row-secondary-actions,\n    .task-row-candidate-actions {\n      justify-content: flex-start;\n    }\n\n    .task-row-secondary-actions {\n      display: none;\n    }\n\n    .task-row-more-menu {\n      display: block;\n    }\n\n    .dashboard-toolbar,\n    .dashboard-action-bar,\n    .list-surface,\n    .analytics-strip {\n      padding: 12px;\n    }\n\n    .dashboard-weekday-marker {\n      display: none;\n    }\n  }\n";
+export const momentsScript = "  const vscode = acquireVsCodeApi();\n  let sendOnEnter = true;\n  let isComposing = false; // IME composition guard\n\n  const inputBox = document.getElementById('inputBox');\n  const inputContainer = document.getElementById('inputContainer');\n  const sendBtn = document.getElementById('sendBtn');\n  const timeline = document.getElementById('timeline');\n  const emptyState = document.getElementById('emptyState');\n  const topbarDate = document.getElementById('topbarDate');\n  const topbarCount = document.getElementById('topbarCount');\n  const inboxBtn = document.getElementById('inboxBtn');\n  const allBtn = document.getElementById('allBtn');\n  const tagFilterBar = document.getElementById('tagFilterBar');\n  const tagSuggestions = document.getElementById('tagSuggestions');\n  const openFileBtn = document.getElementById('openFileBtn');\n  const jumpDateBtn = document.getElementById('jumpDateBtn');\n  const jumpDateInput = document.getElementById('jumpDateInput');\n  const backToTodayBtn = document.getElementById('backToTodayBtn');\n  const errorBanner = document.getElementById('errorBanner');\n  const undoToast = document.getElementById('undoToast');\n  const searchInput = document.getElementById('searchInput');\n  const clearSearch = document.getElementById('clearSearch');\n  const exportBtn = document.getElementById('exportBtn');\n  const selectedCountLabel = document.getElementById('selectedCountLabel');\n  const exportNoteBtn = document.getElementById('exportNoteBtn');\n  const exportCancelBtn = document.getElementById('exportCancelBtn');\n  // Hashtag filters: { tag: normalized, label: as clicked }. An entry matches a filter tag\n  // or one nested below it (#work/projecta matches #work); tagMatchMode combines several.\n  let activeTags = [];\n  let tagMatchMode = 'and';\n  // Historical tags for composer autocomplete; fetched on first use after each update.\n  let knownTags = null;\n  let tagSuggestionItems = [];\n  let tagSuggestionIndex = 0;\n  let currentSearchText = '';\n  let latestSections = [];\n  let currentPinnedEntries = [];\n  let editingEntryKey = null;\n  let editingText = '';\n  let replyingEntryKey = null;\n  let assetsBaseUri = '';\n  const expandedThreads = new Set();\n  let selectMode = false;\n  const selectedEntries = new Set();\n  let pendingScrollMode = 'top';\n  let pendingScrollTop = 0;\n  let hasMoreOlder = false;\n  let loadingOlder = false;\n  let todayDate = '';\n  let anchorDate = '';\n  const momentTagPattern = __MOMENT_TAG_PATTERN__;\n  const editIcon = '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2.2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><path d=\"M17 3a2.828 2.828 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5L17 3z\"></path></svg>';\n  const deleteIcon = '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2.2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><polyline points=\"3 6 5 6 21 6\"></polyline><path d=\"M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2\"></path><line x1=\"10\" y1=\"11\" x2=\"10\" y2=\"17\"></line><line x1=\"14\" y1=\"11\" x2=\"14\" y2=\"17\"></line></svg>';\n  const taskIcon = '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2.2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><polyline points=\"9 11 12 14 22 4\"></polyline><path d=\"M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11\"></path></svg>';\n  const noteIcon = '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2.2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><path d=\"M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z\"></path><polyline points=\"14 2 14 8 20 8\"></polyline><line x1=\"12\" y1=\"18\" x2=\"12\" y2=\"12\"></line><line x1=\"9\" y1=\"15\" x2=\"15\" y2=\"15\"></line></svg>';\n  const replyIcon = '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2.2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><polyline points=\"15 10 20 15 15 20\"></polyline><path d=\"M4 4v7a4 4 0 0 0 4 4h12\"></path></svg>';\n\n  // Notify extension we're ready\n  vscode.postMessage({ command: 'ready' });\n\n  // ---- Message from extension ----\n  window.addEventListener('message', (event) => {\n    const msg = event.data;\n    if (msg.command === 'update') {\n      sendOnEnter = msg.sendOnEnter;\n      currentLocale = msg.locale || 'en';\n      applyStaticStrings();\n      latestSections = msg.sections;\n      assetsBaseUri = msg.assetsBaseUri || '';\n      todayDate = msg.todayDate || '';\n      anchorDate = msg.anchorDate || todayDate;\n      currentPinnedEntries = msg.pinnedEntries || [];\n      hasMoreOlder = Boolean(msg.hasMoreOlder);\n      loadingOlder = false;\n      updateTopbar(todayDate, latestSections, anchorDate);\n      updateAnchorChip(anchorDate, todayDate);\n      if (\n        editingEntryKey !== null\n        && !latestSections.some((section) => section.entries.some((entry) => [entry, ...(entry.replies || [])].some((item) => (section.date + ':' + item.index) === editingEntryKey)))\n      ) {\n        editingEntryKey = null;\n        editingText = '';\n      }\n      renderTimeline(latestSections);\n      if (pendingScrollMode === 'top') {\n        timeline.scrollTop = 0;\n      } else if (pendingScrollMode === 'preserve') {\n        timeline.scrollTop = pendingScrollTop;\n      }\n      pendingScrollMode = null;\n      knownTags = null;\n      window.requestAnimationFrame(() => {\n        maybeLoadOlderEntries();\n      });\n    } else if (msg.command === 'tagSuggestions') {\n      knownTags = msg.tags || [];\n      updateTagSuggestions();\n    } else if (msg.command === 'error') {\n      showError(msg.message);\n    } else if (msg.command === 'journal') {\n      showUndoToast(msg);\n    } else if (msg.command === 'attachmentSaved') {\n      insertIntoComposer(msg.markdown);\n    }\n  });\n\n  function showError(msg) {\n    errorBanner.textContent = msg;\n    errorBanner.style.display = 'block';\n    setTimeout(() => { errorBanner.style.display = 'none'; }, 4000);\n  }\n\n  // Offers to undo the change just made (or redo the one just undone) for a few seconds.\n  let undoToastTimer = null;\n  function showUndoToast(event) {\n    const undone = event.kind === 'undo';\n    const label = document.createElement('span');\n    label.textContent = undone\n      ? UI('undoneChange', { label: event.label })\n      : event.kind === 'redo' ? UI('redoneChange', { label: event.label }) : event.label;\n    const button = document.createElement('button');\n    button.type = 'button';\n    button.className = 'undo-toast-btn';\n    button.textContent = undone ? UI('redoBtn') : UI('undoBtn');\n    button.addEventListener('click', () => {\n      undoToast.hidden = true;\n      vscode.postMessage({ command: undone ? 'redoChange' : 'undoChange' });\n    });\n\n    undoToast.replaceChildren(label, button);\n    undoToast.hidden = false;\n    clearTimeout(undoToastTimer);\n    undoToastTimer = setTimeout(() => { undoToast.hidden = true; }, 8000);\n  }\n\n  function applyStaticStrings() {\n    allBtn.title = UI('allMoments');\n    allBtn.setAttribute('aria-label', UI('allMoments'));\n    inboxBtn.title = UI('taskInbox');\n    inboxBtn.setAttribute('aria-label', UI('taskInbox'));\n    openFileBtn.title = UI('openTodayFile');\n    openFileBtn.setAttribute('aria-label', UI('openTodayFile'));\n    jumpDateBtn.title = UI('jumpToDate');\n    jumpDateBtn.setAttribute('aria-label', UI('jumpToDate'));\n    jumpDateInput.setAttribute('aria-label', UI('jumpToDate'));\n    backToTodayBtn.title = UI('backToToday');\n    backToTodayBtn.setAttribute('aria-label', UI('backToToday'));\n    backToTodayBtn.textContent = UI('backToToday');\n    exportBtn.title = UI('exportSelected');\n    exportBtn.setAttribute('aria-label', UI('exportSelected'));\n    clearSearch.title = UI('clearSearch');\n    searchInput.placeholder = UI('searchPlaceholder');\n    inputBox.placeholder = UI('capturePlaceholder');\n    sendBtn.title = UI('sendBtn');\n    exportNoteBtn.textContent = UI('exportAsNote');\n    exportCancelBtn.textContent = UI('cancelBtn');\n    const emptyTitle = document.getElementById('emptyTitle');\n    const emptyHint = document.getElementById('emptyHint');\n    if (emptyTitle) emptyTitle.textContent = UI('emptyToday');\n    if (emptyHint) emptyHint.textContent = UI('emptyHint');\n  }\n\n  function updateTopbar(dateStr, sections, anchorDate) {\n    // Format date label\n    const anchor = anchorDate || dateStr;\n    if (anchor) {\n      const d = new Date(anchor + 'T00:00:00');\n      const opts = { month: 'short', day: 'numeric', year: 'numeric' };\n      const dateLocale = currentLocale === 'ja' ? 'ja-JP' : 'en-US';\n      const label = d.toLocaleDateString(dateLocale, opts);\n      topbarDate.textContent = anchor === dateStr ? label + ' ' + UI('todaySuffix') : label;\n    } else {\n      topbarDate.textContent = '';\n    }\n\n    // Count today's entries\n    const todaySection = sections.find(s => s.isToday);\n    const todayCount = todaySection ? todaySection.entries.length : 0;\n    if (todayCount > 0) {\n      topbarCount.textContent = UI('momentCount', { count: todayCount });\n      topbarCount.style.display = '';\n    } else {\n      topbarCount.style.display = 'none';\n    }\n\n    // Highlight allBtn as active (default view)\n    allBtn.classList.add('active');\n    allBtn.setAttribute('aria-pressed', 'true');\n  }\n\n  function updateAnchorChip(anchorDate, todayDate) {\n    backToTodayBtn.style.display = anchorDate && anchorDate !== todayDate ? '' : 'none';\n  }\n\n  // ---- Render ----\n  // `09:15:30+09:00` reads as `09:15:30 +09:00`; times without an offset are shown as written.\n  function formatEntryTime(time) {\n    return String(time || '').replace(/(Z|[+-]\\d{2}:\\d{2})$/, ' $1');\n  }\n\n  function escapeHtml(text) {\n    return text\n      .replace(/&/g, '&amp;')\n      .replace(/</g, '&lt;')\n      .replace(/>/g, '&gt;')\n      .replace(/\"/g, '&quot;');\n  }\n\n  function renderText(text) {\n    // Highlight #tags\n    let html = escapeHtml(text);\n    // Attachments saved under assets/ — bindEntryText() sets the thumbnail source\n    html = html.replace(/(!?)\\[([^\\]#:]*)\\]\\((assets\\/[\\w\\u00C0-\\uFFFF./-]+)\\)/g, (match, bang, label, assetPath) => {\n      if (assetPath.includes('..')) {\n        return match;\n      }\n      return bang\n        ? '<img class=\"entry-thumb\" data-attachment=\"' + assetPath + '\" alt=\"' + label + '\" title=\"' + label + '\">'\n        : '<a class=\"entry-attachment\" href=\"#\" data-attachment=\"' + assetPath + '\">📎 ' + label + '</a>';\n    });\n    // ↗ [[target]] markers left by \"Make task\" / \"Make note\"\n    html = html.replace(/\\s*↗ \\[\\[([^\\]|#]+)\\]\\]/g, (match, target) => {\n      const isTask = target.startsWith('tasks/');\n      const label = UI(isTask ? 'promotedTask' : 'promotedNote', { target });\n      return ' <span class=\"promoted-badge\" title=\"' + label + '\">↗ ' + (isTask ? UI('makeTask') : UI('makeNote')) + '</span>';\n    });\n    html = html.replace(new RegExp(momentTagPattern, 'gu'), (tag) => '<button class=\"tag\" type=\"button\" data-tag=\"' + tag + '\">' + tag + '</button>');\n    // Highlight @YYYY-MM-DD due dates\n    html = html.replace(/@(\\d{4}-\\d{2}-\\d{2})/g, '<span class=\"due-date-inline\">@$1</span>');\n    // Auto-link URLs\n    html = html.replace(/(https?:\\/\\/[^\\s<]+)/g, '<a href=\"$1\" style=\"color:var(--moments-accent)\">$1</a>');\n    return html;\n  }\n\n  function matchMomentTags(text) {\n    return text.match(new RegExp(momentTagPattern, 'gu')) || [];\n  }\n\n  function normalizeTag(tag) {\n    return String(tag || '').normalize('NFKC').toLowerCase();\n  }\n\n  function getEntryTags(entry) {\n    if (Array.isArray(entry.tags) && entry.tags.length > 0) {\n      return entry.tags.map((tag) => normalizeTag(tag));\n    }\n\n    return matchMomentTags(entry.text).map((tag) => normalizeTag(tag));\n  }\n\n  function getThreadText(entry) {\n    return [entry.text, ...(entry.replies || []).map((reply) => reply.text)].join('\\n');\n  }\n\n  // Archived days keep their attachments next to the archived file, so their links are\n  // resolved under that folder (e.g. archive/2026-03/).\n  function bindEntryText(element, assetsPrefix = '') {\n    element.querySelectorAll('.tag').forEach((tagButton) => {\n      tagButton.addEventListener('click', (event) => {\n        event.preventDefault();\n        event.stopPropagation();\n        toggleTagFilter(tagButton.dataset.tag || '');\n      });\n    });\n    element.querySelectorAll('[data-attachment]').forEach((attachment) => {\n      if (attachment.tagName === 'IMG') {\n        attachment.src = assetsBaseUri + '/' + assetsPrefix + attachment.dataset.attachment;\n      }\n      attachment.addEventListener('click', (event) => {\n        event.preventDefault();\n        event.stopPropagation();\n        vscode.postMessage({ command: 'openAttachment', path: assetsPrefix + attachment.dataset.attachment });\n      });\n    });\n  }\n\n  function tagMatches(tag, filter) {\n    return tag === filter || tag.startsWith(filter + '/');\n  }\n\n  function matchesTagFilters(entry) {\n    if (activeTags.length === 0) {\n      return true;\n    }\n    const tags = getEntryTags(entry);\n    const hasTag = (filter) => tags.some((tag) => tagMatches(tag, filter.tag));\n    return tagMatchMode === 'and' ? activeTags.every(hasTag) : activeTags.some(hasTag);\n  }\n\n  function getTagFilterLabel() {\n    return activeTags.map((filter) => filter.label).join(tagMatchMode === 'and' ? ' + ' : ' / ');\n  }\n\n  // Clicking a tag adds it to the filters, clicking it again removes it.\n  function toggleTagFilter(tag) {\n    const normalizedTag = normalizeTag(tag);\n    if (!normalizedTag) {\n      return;\n    }\n    if (activeTags.some((filter) => filter.tag === normalizedTag)) {\n      activeTags = activeTags.filter((filter) => filter.tag !== normalizedTag);\n    } else {\n      activeTags = [...activeTags, { tag: normalizedTag, label: tag }];\n    }\n\n    timeline.scrollTop = 0;\n    renderTimeline(latestSections);\n  }\n\n  function renderTagFilters() {\n    tagFilterBar.hidden = activeTags.length === 0;\n    tagFilterBar.replaceChildren();\n    activeTags.forEach((filter) => {\n      const chip = document.createElement('button');\n      chip.className = 'filter-chip-btn';\n      chip.type = 'button';\n      chip.textContent = filter.label + ' ×';\n      chip.title = UI('removeTagFilter', { tag: filter.label });\n      chip.setAttribute('aria-label', chip.title);\n      chip.addEventListener('click', () => toggleTagFilter(filter.tag));\n      tagFilterBar.appendChild(chip);\n    });\n\n    if (activeTags.length > 1) {\n      const modeButton = document.createElement('button');\n      modeButton.className = 'tag-mode-btn';\n      modeButton.type = 'button';\n      modeButton.textContent = UI(tagMatchMode === 'and' ? 'tagModeAll' : 'tagModeAny');\n      modeButton.title = UI('tagModeToggle');\n      modeButton.addEventListener('click', () => {\n        tagMatchMode = tagMatchMode === 'and' ? 'or' : 'and';\n        renderTimeline(latestSections);\n      });\n      tagFilterBar.appendChild(modeButton);\n    } else if (activeTags.length === 1) {\n      const renameButton = document.createElement('button');\n      renameButton.className = 'tag-mode-btn';\n      renameButton.type = 'button';\n      renameButton.innerHTML = editIcon;\n      renameButton.title = UI('renameTag', { tag: activeTags[0].label });\n      renameButton.setAttribute('aria-label', renameButton.title);\n      renameButton.addEventListener('click', () => {\n        vscode.postMessage({ command: 'renameTag', tag: activeTags[0].tag });\n      });\n      tagFilterBar.appendChild(renameButton);\n    }\n  }\n\n  function autoResizeTextarea(textarea) {\n    textarea.style.height = 'auto';\n    textarea.style.height = Math.min(textarea.scrollHeight, 180) + 'px';\n  }\n\n  function requestLoadOlderEntries() {\n    if (loadingOlder || !hasMoreOlder) {\n      return;\n    }\n\n    loadingOlder = true;\n    pendingScrollMode = 'preserve';\n    pendingScrollTop = timeline.scrollTop;\n    vscode.postMessage({ command: 'loadMore' });\n  }\n\n  function maybeLoadOlderEntries() {\n    if (loadingOlder || !hasMoreOlder) {\n      return;\n    }\n\n    const threshold = 180;\n    const nearBottom = timeline.scrollTop + timeline.clientHeight >= timeline.scrollHeight - threshold;\n    const contentShort = timeline.scrollHeight <= timeline.clientHeight + threshold;\n\n    if (nearBottom || contentShort) {\n      requestLoadOlderEntries();\n    }\n  }\n\n  function cancelEditing() {\n    editingEntryKey = null;\n    editingText = '';\n    replyingEntryKey = null;\n    renderTimeline(latestSections);\n  }\n\n  // Textarea with save / cancel used to edit entries and replies and to write new replies.\n  // `editingText` keeps the draft across re-renders while it is open.\n  function createInlineEditor(value, label, onSave, onCancel) {\n    const editWrap = document.createElement('div');\n    editWrap.className = 'entry-edit';\n\n    const editInput = document.createElement('textarea');\n    editInput.value = value;\n    editInput.setAttribute('aria-label', label);\n    editInput.placeholder = label;\n    editInput.addEventListener('input', () => {\n      editingText = editInput.value;\n      autoResizeTextarea(editInput);\n    });\n\n    const submit = () => {\n      const nextText = editInput.value.trim();\n      if (!nextText) {\n        showError(UI('momentTextEmpty'));\n        return;\n      }\n      onSave(nextText);\n    };\n\n    editInput.addEventListener('keydown', (event) => {\n      if (event.isComposing || event.keyCode === 229) {\n        return;\n      }\n      if (event.key === 'Enter') {\n        let shouldSave = false;\n        if (sendOnEnter && !event.shiftKey) {\n          shouldSave = true;\n        } else if (!sendOnEnter && (event.metaKey || event.ctrlKey)) {\n          shouldSave = true;\n        }\n\n        if (shouldSave) {\n          event.preventDefault();\n          submit();\n        }\n      }\n      if (event.key === 'Escape') {\n        event.preventDefault();\n        onCancel();\n      }\n    });\n\n    const editActions = document.createElement('div');\n    editActions.className = 'entry-edit-actions';\n\n    const saveButton = document.createElement('button');\n    saveButton.className = 'entry-action save';\n    saveButton.type = 'button';\n    saveButton.title = UI('save');\n    saveButton.innerHTML = '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2.2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><polyline points=\"20 6 9 17 4 12\"></polyline></svg>';\n    saveButton.addEventListener('click', submit);\n\n    const cancelButton = document.createElement('button');\n    cancelButton.className = 'entry-action';\n    cancelButton.type = 'button';\n    cancelButton.title = UI('cancelBtn');\n    cancelButton.innerHTML = '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2.2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><line x1=\"18\" y1=\"6\" x2=\"6\" y2=\"18\"></line><line x1=\"6\" y1=\"6\" x2=\"18\" y2=\"18\"></line></svg>';\n    cancelButton.addEventListener('click', onCancel);\n\n    editActions.appendChild(saveButton);\n    editActions.appendChild(cancelButton);\n    editWrap.appendChild(editInput);\n    editWrap.appendChild(editActions);\n\n    setTimeout(() => {\n      editInput.focus();\n      editInput.selectionStart = editInput.value.length;\n      editInput.selectionEnd = editInput.value.length;\n      autoResizeTextarea(editInput);\n    }, 0);\n    return editWrap;\n  }\n\n  function renderTimeline(sections) {\n    const visibleSections = sections\n      .map((section) => ({\n        ...section,\n        entries: section.entries\n          .filter((entry) => matchesTagFilters(entry))\n          .filter((entry) => !currentSearchText || getThreadText(entry).toLowerCase().includes(currentSearchText))\n          .slice()\n          .reverse(),\n      }))\n      .filter((section) => section.entries.length > 0);\n\n    allBtn.classList.add('active');\n    allBtn.setAttribute('aria-pressed', 'true');\n    renderTagFilters();\n\n    if (visibleSections.length === 0) {\n      emptyState.style.display = 'block';\n      timeline.querySelectorAll('.day-section, .pinned-section').forEach(e => e.remove());\n      if (currentSearchText && activeTags.length > 0) {\n        emptyState.textContent = UI('noMomentsSearchTag', { tag: getTagFilterLabel(), query: currentSearchText });\n      } else if (currentSearchText) {\n        emptyState.textContent = UI('noMomentsSearch', { query: currentSearchText });\n      } else if (activeTags.length > 0) {\n        emptyState.textContent = UI('noMomentsTagged', { tag: getTagFilterLabel() });\n      } else {\n        emptyState.textContent = UI('noMomentsEmpty');\n      }\n      return;\n    }\n\n    emptyState.style.display = 'none';\n\n    timeline.querySelectorAll('.day-section, .pinned-section').forEach(e => e.remove());\n\n    // Render pinned section\n    if (currentPinnedEntries.length > 0) {\n      const pinnedSectionEl = document.createElement('section');\n      pinnedSectionEl.className = 'pinned-section';\n\n      const pinnedHeader = document.createElement('div');\n      pinnedHeader.className = 'pinned-section-header';\n      const pinnedLabel = document.createElement('span');\n      pinnedLabel.className = 'pinned-section-label';\n      pinnedLabel.textContent = '📌 ' + UI('pinnedHeader');\n      pinnedHeader.appendChild(pinnedLabel);\n      pinnedSectionEl.appendChild(pinnedHeader);\n\n      currentPinnedEntries.forEach((pinned) => {\n        const div = document.createElement('div');\n        div.className = 'entry pinned-entry';\n\n        const meta = document.createElement('div');\n        meta.className = 'entry-meta';\n\n        const dateBadge = document.createElement('span');\n        dateBadge.className = 'entry-time';\n        dateBadge.textContent = pinned.date + (pinned.time ? ' · ' + formatEntryTime(pinned.time) : '');\n        meta.appendChild(dateBadge);\n\n        const header = document.createElement('div');\n        header.className = 'entry-header';\n\n        const headerLeading = document.createElement('div');\n        headerLeading.className = 'entry-header-leading';\n\n        const textSpan = document.createElement('div');\n        textSpan.className = 'entry-text';\n        textSpan.innerHTML = renderText(pinned.text);\n        bindEntryText(textSpan);\n\n        const content = document.createElement('div');\n        content.className = 'entry-content';\n\n        headerLeading.appendChild(meta);\n\n        const actions = document.createElement('div');\n        actions.className = 'entry-actions entry-header-actions';\n\n        const unpinButton = document.createElement('button');\n        unpinButton.className = 'pin-btn pinned';\n        unpinButton.type = 'button';\n        unpinButton.title = UI('unpin');\n        unpinButton.setAttribute('aria-label', UI('unpin'));\n        unpinButton.textContent = '📌';\n        unpinButton.addEventListener('click', () => {\n          vscode.postMessage({ command: 'unpinEntry', pinnedId: pinned.date + ':' + pinned.index });\n        });\n        actions.appendChild(unpinButton);\n\n        header.appendChild(headerLeading);\n        header.appendChild(actions);\n        content.appendChild(header);\n        content.appendChild(textSpan);\n        div.appendChild(content);\n        pinnedSectionEl.appendChild(div);\n      });\n\n      timeline.appendChild(pinnedSectionEl);\n    }\n\n    visibleSections.forEach((section) => {\n      const unpinnedEntries = section.entries.filter(\n        (e) => !currentPinnedEntries.some((p) => p.date === section.date && p.index === e.index)\n      );\n      if (unpinnedEntries.length === 0) return;\n\n      const sectionEl = document.createElement('section');\n      sectionEl.className = 'day-section';\n\n      const sectionHeader = document.createElement('div');\n      sectionHeader.className = 'day-section-header';\n\n      const sectionLabel = document.createElement('span');\n      sectionLabel.className = 'day-section-label' + (section.isToday ? ' is-today' : '');\n      sectionLabel.textContent = section.dateLabel;\n\n      sectionHeader.appendChild(sectionLabel);\n      if (section.archive) {\n        const archivedBadge = document.createElement('span');\n        archivedBadge.className = 'archived-badge';\n        archivedBadge.textContent = UI('archivedBadge');\n        archivedBadge.title = UI('archivedReadOnly');\n        sectionHeader.appendChild(archivedBadge);\n      }\n      sectionEl.appendChild(sectionHeader);\n      const assetsPrefix = section.archive ? section.archive + '/' : '';\n\n      unpinnedEntries.forEach((entry) => {\n      const entryKey = section.date + ':' + entry.index;\n      const exportKey = JSON.stringify({ date: section.date, index: entry.index });\n      const div = document.createElement('div');\n      div.className = 'entry' + (selectMode && selectedEntries.has(exportKey) ? ' selected-for-export' : '');\n\n      const meta = document.createElement('div');\n      meta.className = 'entry-meta';\n\n      const timeBadge = document.createElement('span');\n      timeBadge.className = 'entry-time';\n      timeBadge.textContent = formatEntryTime(entry.time);\n\n      meta.appendChild(timeBadge);\n\n      const header = document.createElement('div');\n      header.className = 'entry-header';\n\n      const dueDateMatch = entry.text.match(new RegExp(__DUE_DATE_PATTERN_SOURCE__, \"i\"));\n      const dueDate = dueDateMatch ? dueDateMatch[1] : null;\n      if (dueDate) {\n        let dueDateStatus = null;\n        if (!entry.done && todayDate) {\n          if (dueDate < todayDate) {\n            dueDateStatus = 'overdue';\n          } else if (dueDate === todayDate) {\n            dueDateStatus = 'today';\n          } else {\n            dueDateStatus = 'upcoming';\n          }\n        }\n        if (dueDateStatus) {\n          div.classList.add('due-' + dueDateStatus);\n        }\n        const dueBadge = document.createElement('span');\n        dueBadge.className = 'due-badge';\n        dueBadge.textContent = dueDateStatus === 'today' ? UI('todayBadge') : dueDate;\n        meta.appendChild(dueBadge);\n      }\n\n      if (entryKey === editingEntryKey) {\n        div.appendChild(createInlineEditor(editingText, UI('edit'), (nextText) => {\n          editingEntryKey = null;\n          editingText = '';\n          vscode.postMessage({ command: 'saveEdit', date: section.date, index: entry.index, text: nextText });\n        }, cancelEditing));\n        sectionEl.appendChild(div);\n        return;\n      }\n\n      const replies = entry.replies || [];\n      const textSpan = document.createElement('div');\n      textSpan.className = 'entry-text';\n      textSpan.innerHTML = renderText(entry.text);\n      bindEntryText(textSpan, assetsPrefix);\n\n      const content = document.createElement('div');\n      content.className = 'entry-content';\n\n      const selectCb = document.createElement('input');\n      selectCb.type = 'checkbox';\n      selectCb.className = 'select-entry-cb';\n      selectCb.checked = selectedEntries.has(exportKey);\n      selectCb.setAttribute('aria-label', 'Select entry for export');\n      selectCb.addEventListener('change', () => {\n        if (selectCb.checked) {\n          selectedEntries.add(exportKey);\n          div.classList.add('selected-for-export');\n        } else {\n          selectedEntries.delete(exportKey);\n          div.classList.remove('selected-for-export');\n        }\n        updateExportBar();\n      });\n\n      const actions = document.createElement('div');\n      actions.className = 'entry-actions entry-header-actions';\n\n      const editButton = document.createElement('button');\n      editButton.className = 'entry-action';\n      editButton.type = 'button';\n      editButton.title = UI('edit');\n      editButton.innerHTML = editIcon;\n      editButton.addEventListener('click', () => {\n        editingEntryKey = entryKey;\n        editingText = entry.text;\n        replyingEntryKey = null;\n        renderTimeline(latestSections);\n      });\n\n      const replyButton = document.createElement('button');\n      replyButton.className = 'entry-action';\n      replyButton.type = 'button';\n      replyButton.title = UI('reply');\n      replyButton.setAttribute('aria-label', UI('reply'));\n      replyButton.innerHTML = replyIcon;\n      replyButton.addEventListener('click', () => {\n        editingEntryKey = null;\n        editingText = '';\n        replyingEntryKey = entryKey;\n        renderTimeline(latestSections);\n      });\n\n      const deleteButton = document.createElement('button');\n      deleteButton.className = 'entry-action danger';\n      deleteButton.type = 'button';\n      deleteButton.title = UI('delete');\n      deleteButton.innerHTML = deleteIcon;\n      deleteButton.addEventListener('click', () => {\n        if (editingEntryKey === entryKey) {\n          editingEntryKey = null;\n          editingText = '';\n        }\n        vscode.postMessage({\n          command: 'requestDeleteEntry',\n          date: section.date,\n          index: entry.index,\n          replyCount: replies.length,\n        });\n      });\n\n      const makeTaskButton = document.createElement('button');\n      makeTaskButton.className = 'entry-action';\n      makeTaskButton.type = 'button';\n      makeTaskButton.title = UI('makeTask');\n      makeTaskButton.setAttribute('aria-label', UI('makeTask'));\n      makeTaskButton.innerHTML = taskIcon;\n      makeTaskButton.addEventListener('click', () => {\n        vscode.postMessage({ command: 'makeTask', date: section.date, index: entry.index });\n      });\n\n      const makeNoteButton = document.createElement('button');\n      makeNoteButton.className = 'entry-action';\n      makeNoteButton.type = 'button';\n      makeNoteButton.title = UI('makeNote');\n      makeNoteButton.setAttribute('aria-label', UI('makeNote'));\n      makeNoteButton.innerHTML = noteIcon;\n      makeNoteButton.addEventListener('click', () => {\n        vscode.postMessage({ command: 'makeNote', date: section.date, index: entry.index });\n      });\n\n      // Archived days are read-only: only pinning and selecting for export are offered.\n      if (!section.archive) {\n        actions.appendChild(editButton);\n        actions.appendChild(replyButton);\n        actions.appendChild(makeTaskButton);\n        actions.appendChild(makeNoteButton);\n      }\n\n      const isPinned = currentPinnedEntries.some((p) => p.date === section.date && p.index === entry.index);\n      const pinButton = document.createElement('button');\n      pinButton.className = 'pin-btn' + (isPinned ? ' pinned' : '');\n      pinButton.type = 'button';\n      pinButton.title = isPinned ? UI('unpin') : UI('pin');\n      pinButton.setAttribute('aria-label', isPinned ? UI('unpin') : UI('pin'));\n      pinButton.innerHTML = '<svg viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2.2\" stroke-linecap=\"round\" stroke-linejoin=\"round\" aria-hidden=\"true\" focusable=\"false\"><line x1=\"18\" y1=\"8\" x2=\"22\" y2=\"12\"></line><line x1=\"12\" y1=\"2\" x2=\"12\" y2=\"6\"></line><path d=\"M12 6H8a2 2 0 0 0-2 2v3.586a1 1 0 0 1-.293.707l-2.828 2.828a1 1 0 0 0 0 1.414L6 19.5a1 1 0 0 0 1.414 0l2.828-2.828a1 1 0 0 1 .707-.293H15a2 2 0 0 0 2-2V8\"></path></svg>';\n      pinButton.addEventListener('click', () => {\n        if (isPinned) {\n          vscode.postMessage({ command: 'unpinEntry', pinnedId: section.date + ':' + entry.index });\n        } else {\n          vscode.postMessage({ command: 'pinEntry', date: section.date, index: entry.index, text: entry.text, time: entry.time });\n        }\n      });\n      actions.appendChild(pinButton);\n      if (!section.archive) {\n        actions.appendChild(deleteButton);\n      }\n\n      const headerLeading = document.createElement('div');\n      headerLeading.className = 'entry-header-leading';\n      headerLeading.appendChild(selectCb);\n      headerLeading.appendChild(meta);\n\n      header.appendChild(headerLeading);\n      header.appendChild(actions);\n      content.appendChild(header);\n      content.appendChild(textSpan);\n      appendThread(content, section, entry, entryKey);\n      div.appendChild(content);\n      sectionEl.appendChild(div);\n    });\n\n      timeline.appendChild(sectionEl);\n    });\n  }\n\n  // Replies render collapsed behind a \"N replies\" toggle; the thread opens while one of\n  // its replies is being edited or a new reply is being written.\n  function appendThread(content, section, entry, entryKey) {\n    const date = section.date;\n    const replies = entry.replies || [];\n    const threadOpen = expandedThreads.has(entryKey)\n      || replyingEntryKey === entryKey\n      || replies.some((reply) => (date + ':' + reply.index) === editingEntryKey);\n\n    if (replies.length > 0) {\n      const toggle = document.createElement('button');\n      toggle.className = 'thread-toggle';\n      toggle.type = 'button';\n      toggle.setAttribute('aria-expanded', String(threadOpen));\n      toggle.textContent = '↳ ' + (threadOpen ? UI('hideReplies') : UI('showReplies', { count: replies.length }));\n      toggle.addEventListener('click', () => {\n        if (threadOpen) {\n          expandedThreads.delete(entryKey);\n          if (replyingEntryKey === entryKey) {\n            replyingEntryKey = null;\n          }\n        } else {\n          expandedThreads.add(entryKey);\n        }\n        renderTimeline(latestSections);\n      });\n      content.appendChild(toggle);\n    }\n\n    if (!threadOpen) {\n      return;\n    }\n\n    const thread = document.createElement('div');\n    thread.className = 'thread';\n    replies.forEach((reply) => thread.appendChild(renderReply(section, reply)));\n    if (replyingEntryKey === entryKey) {\n      thread.appendChild(createInlineEditor(editingText, UI('replyPlaceholder'), (nextText) => {\n        replyingEntryKey = null;\n        editingText = '';\n        expandedThreads.add(entryKey);\n        vscode.postMessage({ command: 'addReply', date, index: entry.index, text: nextText });\n      }, cancelEditing));\n    }\n    content.appendChild(thread);\n  }\n\n  function renderReply(section, reply) {\n    const date = section.date;\n    const replyKey = date + ':' + reply.index;\n    const replyEl = document.createElement('div');\n    replyEl.className = 'reply';\n\n    if (replyKey === editingEntryKey) {\n      replyEl.appendChild(createInlineEditor(editingText, UI('edit'), (nextText) => {\n        editingEntryKey = null;\n        editingText = '';\n        vscode.postMessage({ command: 'saveEdit', date, index: reply.index, text: nextText });\n      }, cancelEditing));\n      return replyEl;\n    }\n\n    const header = document.createElement('div');\n    header.className = 'reply-header';\n\n    const timeBadge = document.createElement('span');\n    timeBadge.className = 'entry-time';\n    timeBadge.textContent = formatEntryTime(reply.time);\n\n    const actions = document.createElement('div');\n    actions.className = 'entry-actions';\n\n    const editButton = document.createElement('button');\n    editButton.className = 'entry-action';\n    editButton.type = 'button';\n    editButton.title = UI('edit');\n    editButton.innerHTML = editIcon;\n    editButton.addEventListener('click', () => {\n      editingEntryKey = replyKey;\n      editingText = reply.text;\n      replyingEntryKey = null;\n      renderTimeline(latestSections);\n    });\n\n    const deleteButton = document.createElement('button');\n    deleteButton.className = 'entry-action danger';\n    deleteButton.type = 'button';\n    deleteButton.title = UI('delete');\n    deleteButton.innerHTML = deleteIcon;\n    deleteButton.addEventListener('click', () => {\n      vscode.postMessage({ command: 'requestDeleteEntry', date, index: reply.index });\n    });\n\n    if (!section.archive) {\n      actions.appendChild(editButton);\n      actions.appendChild(deleteButton);\n    }\n    header.appendChild(timeBadge);\n    header.appendChild(actions);\n\n    const textSpan = document.createElement('div');\n    textSpan.className = 'entry-text';\n    textSpan.innerHTML = renderText(reply.text);\n    bindEntryText(textSpan, section.archive ? section.archive + '/' : '');\n\n    replyEl.appendChild(header);\n    replyEl.appendChild(textSpan);\n    return replyEl;\n  }\n\n  function send() {\n    const text = inputBox.value.trim();\n    if (!text) return;\n    pendingScrollMode = 'top';\n    vscode.postMessage({ command: 'addMoment', text });\n    inputBox.value = '';\n    autoResize();\n  }\n\n  sendBtn.addEventListener('click', send);\n\n  const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;\n\n  function insertIntoComposer(markdown) {\n    const start = inputBox.selectionStart;\n    const before = inputBox.value.slice(0, start);\n    const after = inputBox.value.slice(inputBox.selectionEnd);\n    const prefix = before && !/\\s$/.test(before) ? ' ' : '';\n    inputBox.value = before + prefix + markdown + after;\n    inputBox.selectionStart = inputBox.selectionEnd = (before + prefix + markdown).length;\n    inputBox.focus();\n    autoResize();\n  }\n\n  // Pasted or dropped files are saved by the extension, which answers with the Markdown link.\n  function attachFiles(files) {\n    files.forEach((file) => {\n      if (file.size > MAX_ATTACHMENT_BYTES) {\n        showError(UI('attachmentTooLarge', { name: file.name }));\n        return;\n      }\n      const reader = new FileReader();\n      reader.addEventListener('load', () => {\n        const dataUrl = String(reader.result || '');\n        const extension = (file.type.split('/')[1] || 'png').replace('jpeg', 'jpg').replace(/\\+.*$/, '');\n        vscode.postMessage({\n          command: 'saveAttachment',\n          name: file.name || 'pasted-' + Date.now() + '.' + extension,\n          data: dataUrl.slice(dataUrl.indexOf(',') + 1),\n        });\n      });\n      reader.readAsDataURL(file);\n    });\n  }\n\n  inputBox.addEventListener('paste', (e) => {\n    const files = Array.from((e.clipboardData && e.clipboardData.files) || []);\n    if (files.length > 0) {\n      e.preventDefault();\n      attachFiles(files);\n    }\n  });\n\n  inputContainer.addEventListener('dragover', (e) => {\n    if (e.dataTransfer && Array.from(e.dataTransfer.types).includes('Files')) {\n      e.preventDefault();\n      inputContainer.classList.add('drop-target');\n    }\n  });\n  inputContainer.addEventListener('dragleave', () => inputContainer.classList.remove('drop-target'));\n  inputContainer.addEventListener('drop', (e) => {\n    inputContainer.classList.remove('drop-target');\n    const files = Array.from((e.dataTransfer && e.dataTransfer.files) || []);\n    if (files.length > 0) {\n      e.preventDefault();\n      attachFiles(files);\n    }\n  });\n\n  // Track IME composition to prevent sending on Japanese/CJK Enter confirmation\n  inputBox.addEventListener('compositionstart', () => { isComposing = true; });\n  inputBox.addEventListener('compositionend', () => { isComposing = false; });\n\n  inputBox.addEventListener('keydown', (e) => {\n    if (isComposing) { return; } // ignore Enter during IME composition\n    if (handleTagSuggestionKey(e)) {\n      return;\n    }\n    if (sendOnEnter) {\n      if (e.key === 'Enter' && !e.shiftKey) {\n        e.preventDefault();\n        send();\n      }\n    } else {\n      if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {\n        e.preventDefault();\n        send();\n      }\n    }\n  });\n\n  inputBox.addEventListener('input', () => {\n    autoResize();\n    updateTagSuggestions();\n  });\n  inputBox.addEventListener('click', updateTagSuggestions);\n  inputBox.addEventListener('blur', hideTagSuggestions);\n\n  // ---- Tag autocomplete ----\n  // The `#partial` tag right before the caret, or null.\n  function getTagQuery() {\n    const before = inputBox.value.slice(0, inputBox.selectionStart);\n    const match = before.match(/(^|\\s)(#[\\p{L}\\p{M}\\p{N}_\\p{Pd}/]*)$/u);\n    return match ? { text: match[2], start: before.length - match[2].length } : null;\n  }\n\n  function hideTagSuggestions() {\n    tagSuggestionItems = [];\n    tagSuggestions.hidden = true;\n  }\n\n  function updateTagSuggestions() {\n    const query = getTagQuery();\n    if (!query) {\n      hideTagSuggestions();\n      return;\n    }\n    if (knownTags === null) {\n      knownTags = [];\n      vscode.postMessage({ command: 'requestTags' });\n      return;\n    }\n\n    const prefix = normalizeTag(query.text);\n    tagSuggestionItems = knownTags\n      .filter((item) => item.tag.startsWith(prefix) && item.tag !== prefix)\n      .slice(0, 8);\n    tagSuggestionIndex = 0;\n    renderTagSuggestions();\n  }\n\n  function renderTagSuggestions() {\n    tagSuggestions.hidden = tagSuggestionItems.length === 0;\n    tagSuggestions.setAttribute('aria-label', UI('tagSuggestions'));\n    tagSuggestions.replaceChildren(...tagSuggestionItems.map((item, index) => {\n      const option = document.createElement('div');\n      option.className = 'tag-suggestion' + (index === tagSuggestionIndex ? ' active' : '');\n      option.setAttribute('role', 'option');\n      option.setAttribute('aria-selected', String(index === tagSuggestionIndex));\n      const label = document.createElement('span');\n      label.textContent = item.tag;\n      const count = document.createElement('span');\n      count.className = 'tag-suggestion-count';\n      count.textContent = String(item.count);\n      option.appendChild(label);\n      option.appendChild(count);\n      // mousedown, so the pick happens before the textarea blurs and hides the list.\n      option.addEventListener('mousedown', (event) => {\n        event.preventDefault();\n        acceptTagSuggestion(item.tag);\n      });\n      return option;\n    }));\n  }\n\n  function acceptTagSuggestion(tag) {\n    const query = getTagQuery();\n    if (!query) {\n      return;\n    }\n    const caret = inputBox.selectionStart;\n    inputBox.value = inputBox.value.slice(0, query.start) + tag + ' ' + inputBox.value.slice(caret);\n    const nextCaret = query.start + tag.length + 1;\n    inputBox.setSelectionRange(nextCaret, nextCaret);\n    hideTagSuggestions();\n    autoResize();\n  }\n\n  // Arrow keys move through the suggestions, Enter / Tab pick one and Escape closes them.\n  function handleTagSuggestionKey(event) {\n    if (tagSuggestions.hidden || tagSuggestionItems.length === 0) {\n      return false;\n    }\n    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {\n      const step = event.key === 'ArrowDown' ? 1 : -1;\n      tagSuggestionIndex = (tagSuggestionIndex + step + tagSuggestionItems.length) % tagSuggestionItems.length;\n      renderTagSuggestions();\n    } else if (event.key === 'Enter' || event.key === 'Tab') {\n      acceptTagSuggestion(tagSuggestionItems[tagSuggestionIndex].tag);\n    } else if (event.key === 'Escape') {\n      hideTagSuggestions();\n    } else {\n      return false;\n    }\n    event.preventDefault();\n    return true;\n  }\n\n  function autoResize() {\n    autoResizeTextarea(inputBox);\n  }\n\n  openFileBtn.addEventListener('click', () => vscode.postMessage({ command: 'openFile' }));\n  inboxBtn.addEventListener('click', () => vscode.postMessage({ command: 'openInbox' }));\n\n  jumpDateBtn.addEventListener('click', () => {\n    if (typeof jumpDateInput.showPicker === 'function') {\n      jumpDateInput.showPicker();\n    } else {\n      jumpDateInput.click();\n    }\n  });\n  jumpDateInput.addEventListener('change', () => {\n    if (jumpDateInput.value) {\n      vscode.postMessage({ command: 'jumpToDate', date: jumpDateInput.value });\n    }\n    jumpDateInput.value = '';\n  });\n  backToTodayBtn.addEventListener('click', () => {\n    vscode.postMessage({ command: 'jumpToToday' });\n  });\n\n  timeline.addEventListener('scroll', () => {\n    maybeLoadOlderEntries();\n  }, { passive: true });\n  allBtn.addEventListener('click', () => {\n    renderTimeline(latestSections);\n  });\n\n  let searchDebounceTimer = null;\n\n  searchInput.addEventListener('input', () => {\n    const query = searchInput.value;\n    clearSearch.style.display = query ? '' : 'none';\n    if (searchDebounceTimer) {\n      clearTimeout(searchDebounceTimer);\n    }\n    searchDebounceTimer = setTimeout(() => {\n      const trimmed = query.trim();\n      if (trimmed) {\n        currentSearchText = trimmed.toLowerCase();\n        pendingScrollMode = 'top';\n        vscode.postMessage({ command: 'searchMoments', query });\n      } else {\n        currentSearchText = '';\n        vscode.postMessage({ command: 'refreshFeed' });\n      }\n    }, 250);\n  });\n\n  clearSearch.addEventListener('click', () => {\n    if (searchDebounceTimer) {\n      clearTimeout(searchDebounceTimer);\n      searchDebounceTimer = null;\n    }\n    searchInput.value = '';\n    currentSearchText = '';\n    clearSearch.style.display = 'none';\n    searchInput.focus();\n    vscode.postMessage({ command: 'refreshFeed' });\n  });\n\n  function updateExportBar() {\n    const count = selectedEntries.size;\n    selectedCountLabel.textContent = UI('selectedCount', { count: count });\n    exportNoteBtn.disabled = count === 0;\n  }\n\n  function enterSelectMode() {\n    selectMode = true;\n    document.body.classList.add('select-mode');\n    exportBtn.classList.add('active');\n    selectedEntries.clear();\n    updateExportBar();\n    renderTimeline(latestSections);\n  }\n\n  function exitSelectMode() {\n    selectMode = false;\n    document.body.classList.remove('select-mode');\n    exportBtn.classList.remove('active');\n    selectedEntries.clear();\n    renderTimeline(latestSections);\n  }\n\n  exportBtn.addEventListener('click', () => {\n    if (selectMode) {\n      exitSelectMode();\n    } else {\n      enterSelectMode();\n    }\n  });\n\n  exportCancelBtn.addEventListener('click', exitSelectMode);\n\n  exportNoteBtn.addEventListener('click', () => {\n    if (selectedEntries.size === 0) { return; }\n    const entriesData = [];\n    for (const key of selectedEntries) {\n      const { date, index } = JSON.parse(key);\n      const sectionData = latestSections.find(s => s.date === date);\n      if (sectionData) {\n        const entryData = sectionData.entries.find(e => e.index === index);\n        if (entryData) {\n          entriesData.push({ date, index, text: entryData.text });\n        }\n      }\n    }\n    if (entriesData.length > 0) {\n      vscode.postMessage({ command: 'exportToNote', entries: entriesData });\n    }\n    exitSelectMode();\n  });\n\n  document.addEventListener('keydown', (e) => {\n    if (e.key === 'Escape' && selectMode && editingEntryKey === null) {\n      exitSelectMode();\n    }\n  });\n";
+export const momentsStyle = "  *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }\n\n  body {\n    --moments-inline-padding: 10px;\n    --moments-control-radius: 6px;\n    --moments-surface: var(--vscode-editorWidget-background, var(--vscode-sideBar-background));\n    --moments-accent: var(--vscode-textLink-foreground);\n    --moments-muted: var(--vscode-descriptionForeground);\n    --moments-border: var(--vscode-panel-border);\n    font-family: var(--vscode-font-family);\n    font-size: var(--vscode-font-size);\n    color: var(--vscode-foreground);\n    background: var(--vscode-sideBar-background, var(--vscode-editor-background));\n    display: flex;\n    flex-direction: column;\n    height: 100vh;\n    overflow: hidden;\n  }\n\n  /* ---- Top bar ---- */\n  .topbar {\n    display: flex;\n    flex-direction: column;\n    align-items: stretch;\n    padding: 10px var(--moments-inline-padding) 8px;\n    background: var(--moments-surface);\n    border-bottom: 1px solid var(--moments-border);\n    flex-shrink: 0;\n    gap: 8px;\n  }\n\n  .topbar-row {\n    display: flex;\n    align-items: center;\n    min-width: 0;\n  }\n\n  .topbar-row-main {\n    flex-wrap: wrap;\n    justify-content: space-between;\n    gap: 10px;\n  }\n\n  .topbar-row-search {\n    align-items: stretch;\n    gap: 8px;\n    width: 100%;\n  }\n\n  .topbar-left {\n    display: flex;\n    align-items: center;\n    flex: 1 1 auto;\n    flex-wrap: wrap;\n    gap: 8px;\n    min-width: 0;\n  }\n\n  .topbar-date {\n    color: var(--vscode-foreground);\n    font-size: 12px;\n    font-weight: 600;\n    overflow: hidden;\n    text-overflow: ellipsis;\n    white-space: nowrap;\n    line-height: 1.3;\n  }\n\n  .topbar-count {\n    display: inline-flex;\n    align-items: center;\n    min-height: 22px;\n    padding: 0 8px;\n    border-radius: 999px;\n    background: color-mix(in srgb, var(--moments-accent) 12%, transparent);\n    color: var(--moments-accent);\n    font-size: 11px;\n    font-weight: 600;\n    white-space: nowrap;\n    line-height: 1;\n  }\n\n  .topbar-right {\n    display: flex;\n    align-items: center;\n    gap: 2px;\n    flex-shrink: 0;\n    padding: 2px;\n    border-radius: 999px;\n    background: color-mix(in srgb, var(--vscode-foreground) 6%, transparent);\n    border: 1px solid color-mix(in srgb, var(--moments-border) 85%, transparent);\n  }\n\n  .nav-btn {\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n    flex: none;\n    text-align: center;\n    background: none;\n    border: none;\n    color: var(--vscode-foreground);\n    cursor: pointer;\n    padding: 4px 6px;\n    border-radius: 4px;\n    font-size: 11px;\n    font-weight: 500;\n    opacity: 0.65;\n    transition: opacity 0.15s, background 0.15s;\n    min-width: 28px;\n    min-height: 28px;\n  }\n  .nav-btn svg {\n    width: 14px;\n    height: 14px;\n    fill: currentColor;\n  }\n  .nav-btn:hover { opacity: 1; background: var(--vscode-toolbar-hoverBackground); }\n\n  .nav-btn.active {\n    opacity: 1;\n    color: var(--vscode-foreground);\n    background: var(--vscode-button-secondaryBackground, color-mix(in srgb, var(--vscode-foreground) 10%, transparent));\n    border-radius: 4px;\n  }\n\n  .open-btn {\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n    background: none;\n    border: none;\n    color: var(--vscode-foreground);\n    cursor: pointer;\n    padding: 4px 6px;\n    border-radius: 4px;\n    opacity: 0.5;\n    min-width: 28px;\n    min-height: 28px;\n    transition: opacity 0.15s, background 0.15s;\n  }\n  .open-btn svg {\n    width: 13px;\n    height: 13px;\n    fill: currentColor;\n  }\n  .open-btn:hover { opacity: 1; background: var(--vscode-toolbar-hoverBackground); }\n\n  /* ---- Timeline ---- */\n  .timeline {\n    flex: 1;\n    overflow-y: auto;\n    padding: 0;\n    display: flex;\n    flex-direction: column;\n    gap: 0;\n    scroll-behavior: smooth;\n  }\n\n  .day-section {\n    display: flex;\n    flex-direction: column;\n    gap: 10px;\n    padding: 8px var(--moments-inline-padding) 12px 28px;\n    position: relative;\n  }\n\n  /* Vertical timeline line */\n  .day-section::before {\n    content: \"\";\n    position: absolute;\n    left: 17px;\n    top: 42px;\n    bottom: 12px;\n    width: 2px;\n    background: color-mix(in srgb, var(--moments-border) 60%, transparent);\n    border-radius: 999px;\n  }\n\n  .day-section-header {\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    padding: 10px 12px;\n    position: sticky;\n    top: 0;\n    z-index: 10;\n    background: color-mix(in srgb, var(--vscode-sideBar-background, var(--vscode-editor-background)) 75%, transparent);\n    backdrop-filter: blur(8px);\n    -webkit-backdrop-filter: blur(8px);\n    border-bottom: 1px solid color-mix(in srgb, var(--moments-border) 40%, transparent);\n    margin-bottom: 4px;\n    margin-left: -28px;\n  }\n\n  .day-section-label {\n    color: var(--moments-muted);\n    font-size: 11px;\n    font-weight: 600;\n    text-align: center;\n    white-space: nowrap;\n    letter-spacing: 0.05em;\n  }\n\n  .day-section-label.is-today {\n    color: var(--moments-accent);\n  }\n\n  .archived-badge {\n    margin-left: 8px;\n    padding: 0 6px;\n    border-radius: 999px;\n    font-size: 10px;\n    line-height: 1.6;\n    white-space: nowrap;\n    background: color-mix(in srgb, var(--vscode-foreground) 10%, transparent);\n    color: var(--moments-muted);\n  }\n\n  .empty-state {\n    text-align: center;\n    color: var(--moments-muted);\n    font-size: 12px;\n    margin: 24px 12px 0;\n    opacity: 0.6;\n  }\n\n  .entry {\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n    padding: 12px 14px 10px;\n    background: var(--vscode-editor-background);\n    border: 1px solid color-mix(in srgb, var(--moments-border) 75%, transparent);\n    border-radius: 8px;\n    transition: all 0.2s cubic-bezier(0.4, 0, 0.2, 1);\n    word-break: break-word;\n    position: relative;\n    box-shadow: 0 1px 3px rgba(0, 0, 0, 0.05);\n  }\n\n  /* Timeline Dot */\n  .entry::before {\n    content: \"\";\n    position: absolute;\n    left: -16px;\n    top: 18px;\n    width: 8px;\n    height: 8px;\n    border-radius: 999px;\n    background: var(--moments-border);\n    border: 2px solid var(--vscode-sideBar-background, var(--vscode-editor-background));\n    transition: all 0.2s ease;\n    z-index: 2;\n  }\n\n  .entry:hover {\n    background: var(--vscode-list-hoverBackground);\n    border-color: color-mix(in srgb, var(--moments-accent) 45%, var(--moments-border));\n    transform: translateY(-1px);\n    box-shadow: 0 4px 8px -2px rgba(0, 0, 0, 0.12);\n  }\n\n  .entry:hover::before {\n    background: var(--moments-accent);\n    transform: scale(1.2);\n  }\n\n  .entry-meta {\n    display: flex;\n    align-items: center;\n    flex: 1 1 auto;\n    flex-wrap: wrap;\n    gap: 4px;\n    min-width: 0;\n    color: var(--moments-muted);\n    font-size: 11px;\n  }\n\n  .entry-header {\n    display: flex;\n    align-items: flex-start;\n    justify-content: space-between;\n    gap: 8px;\n    min-width: 0;\n  }\n\n  .entry-header-leading {\n    display: flex;\n    align-items: flex-start;\n    gap: 8px;\n    min-width: 0;\n    flex: 1 1 auto;\n  }\n\n  .entry-time {\n    display: inline-flex;\n    align-items: center;\n    min-height: 20px;\n    padding: 0 8px;\n    border-radius: 999px;\n    background: color-mix(in srgb, var(--vscode-foreground) 6%, transparent);\n    color: var(--moments-muted);\n    white-space: nowrap;\n    font-variant-numeric: tabular-nums;\n    font-weight: 500;\n    font-size: 10px;\n  }\n\n  .entry-content {\n    min-width: 0;\n    flex: 1;\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n  }\n\n  .entry-text {\n    line-height: 1.45;\n    font-size: 12.5px;\n    white-space: pre-wrap;\n    overflow-wrap: anywhere;\n  }\n\n  .entry-thumb {\n    display: block;\n    max-width: 100%;\n    max-height: 160px;\n    margin: 4px 0;\n    border-radius: 6px;\n    border: 1px solid var(--moments-border);\n    cursor: pointer;\n  }\n\n  .promoted-badge {\n    display: inline-flex;\n    align-items: center;\n    padding: 0 6px;\n    border-radius: 999px;\n    background: color-mix(in srgb, var(--moments-accent) 14%, transparent);\n    color: var(--moments-accent);\n    font-size: 10px;\n    white-space: nowrap;\n  }\n\n  .entry-attachment {\n    color: var(--moments-accent);\n    text-decoration: none;\n  }\n\n  .entry-attachment:hover {\n    text-decoration: underline;\n  }\n\n  .thread-toggle {\n    align-self: flex-start;\n    background: none;\n    border: none;\n    padding: 0;\n    color: var(--vscode-textLink-foreground);\n    cursor: pointer;\n    font-size: 11px;\n  }\n\n  .thread-toggle:hover {\n    text-decoration: underline;\n  }\n\n  .thread {\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n    padding-left: 10px;\n    border-left: 2px solid var(--moments-border);\n  }\n\n  .reply {\n    display: flex;\n    flex-direction: column;\n    gap: 4px;\n  }\n\n  .reply-header {\n    display: flex;\n    align-items: center;\n    justify-content: space-between;\n    gap: 8px;\n  }\n\n  .reply-header .entry-actions {\n    opacity: 0;\n  }\n\n  .reply:hover .reply-header .entry-actions,\n  .reply:focus-within .reply-header .entry-actions {\n    opacity: 1;\n  }\n\n  .entry-edit {\n    display: flex;\n    flex-direction: column;\n    gap: 8px;\n  }\n\n  .entry-edit textarea {\n    margin-bottom: 0;\n    min-height: 72px;\n    max-height: 180px;\n    font-size: 12.5px;\n    border-radius: 6px;\n    border: 1px solid var(--moments-border);\n    padding: 8px;\n  }\n\n  .entry-edit-actions,\n  .entry-actions {\n    display: flex;\n    align-items: center;\n    gap: 4px;\n    flex-wrap: wrap;\n  }\n\n  .entry-header-actions {\n    flex: none;\n    flex-wrap: nowrap;\n    justify-content: flex-end;\n    margin-left: auto;\n    gap: 2px;\n    padding: 2px;\n    border-radius: 999px;\n    background: color-mix(in srgb, var(--vscode-foreground) 4%, transparent);\n    border: 1px solid color-mix(in srgb, var(--moments-border) 90%, transparent);\n  }\n\n  .entry:hover .entry-header-actions,\n  .entry:focus-within .entry-header-actions {\n    background: color-mix(in srgb, var(--vscode-toolbar-hoverBackground, rgba(90, 93, 94, 0.31)) 80%, transparent);\n  }\n\n  .entry-action,\n  .pin-btn {\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n    background: none;\n    border: none;\n    color: var(--moments-muted);\n    cursor: pointer;\n    padding: 4px;\n    border-radius: 4px;\n    font-size: 11px;\n    opacity: 0.8;\n    transition: all 0.15s ease;\n  }\n\n  .pin-btn {\n    font-size: 12px;\n    line-height: 1;\n  }\n\n  .entry-action svg,\n  .pin-btn svg {\n    width: 14px;\n    height: 14px;\n    stroke-width: 2.2;\n  }\n\n  .entry-action:hover,\n  .pin-btn:hover {\n    color: var(--vscode-foreground);\n    background: var(--vscode-toolbar-hoverBackground, rgba(90, 93, 94, 0.31));\n    opacity: 1;\n    transform: translateY(-0.5px);\n  }\n\n  .entry-action.primary {\n    color: var(--moments-accent);\n  }\n\n  .entry-action.danger:hover {\n    color: var(--vscode-errorForeground);\n  }\n\n  .entry-action.save {\n    color: var(--moments-accent);\n  }\n\n  .tag {\n    display: inline-block;\n    border: none;\n    padding: 0 6px;\n    border-radius: 4px;\n    background: color-mix(in srgb, var(--moments-accent) 15%, transparent);\n    color: var(--moments-accent);\n    font-size: 11px;\n    font-weight: 500;\n    margin: 0 1px;\n    text-decoration: none;\n    font-family: inherit;\n    line-height: 1.4;\n    cursor: pointer;\n    transition: all 150ms ease;\n  }\n\n  .tag:hover {\n    background: color-mix(in srgb, var(--moments-accent) 25%, transparent);\n  }\n\n  .due-date-inline {\n    display: inline-block;\n    padding: 0 6px;\n    border-radius: 4px;\n    background: color-mix(in srgb, var(--vscode-charts-orange, #e8a838) 15%, transparent);\n    color: var(--vscode-charts-orange, #e8a838);\n    font-size: 11px;\n    font-weight: 500;\n    margin: 0 1px;\n    line-height: 1.4;\n    white-space: nowrap;\n  }\n\n  /* ---- Due date badges ---- */\n  .due-badge {\n    display: inline-flex;\n    align-items: center;\n    min-height: 20px;\n    padding: 0 8px;\n    border-radius: 999px;\n    font-size: 11px;\n    font-weight: 500;\n    line-height: 1.4;\n    white-space: nowrap;\n    background: color-mix(in srgb, var(--vscode-foreground) 10%, transparent);\n    color: var(--moments-muted);\n  }\n\n  .due-overdue .due-badge {\n    background: color-mix(in srgb, var(--vscode-errorForeground, #f44) 18%, transparent);\n    color: var(--vscode-errorForeground, #f44);\n  }\n\n  .due-today .due-badge {\n    background: color-mix(in srgb, var(--vscode-charts-orange, #e8a838) 18%, transparent);\n    color: var(--vscode-charts-orange, #e8a838);\n  }\n\n  .due-upcoming .due-badge {\n    background: color-mix(in srgb, var(--vscode-foreground) 8%, transparent);\n    color: var(--moments-muted);\n    opacity: 0.75;\n  }\n\n  /* ---- Input area ---- */\n  .input-area {\n    flex-shrink: 0;\n    padding: 10px var(--moments-inline-padding) 12px;\n    border-bottom: 1px solid color-mix(in srgb, var(--moments-border) 60%, transparent);\n    background: var(--vscode-editorWidget-background, var(--vscode-sideBar-background));\n    box-shadow: 0 2px 8px rgba(0, 0, 0, 0.05);\n  }\n\n  .input-container {\n    position: relative;\n    display: flex;\n    flex-direction: column;\n    width: 100%;\n    background: color-mix(in srgb, var(--vscode-input-background) 95%, transparent);\n    border: 1px solid color-mix(in srgb, var(--vscode-input-border, var(--moments-border)) 80%, transparent);\n    border-radius: 8px;\n    transition: all 0.2s cubic-bezier(0.4, 0, 0.2, 1);\n  }\n\n  .input-container:focus-within {\n    border-color: var(--vscode-focusBorder);\n    background: var(--vscode-input-background);\n    box-shadow: 0 0 0 3px color-mix(in srgb, var(--vscode-focusBorder) 15%, transparent);\n    outline: none;\n  }\n\n  .input-container.drop-target {\n    border-style: dashed;\n    border-color: var(--vscode-focusBorder);\n  }\n\n  .tag-suggestions {\n    position: absolute;\n    top: 100%;\n    left: 0;\n    z-index: 20;\n    min-width: 160px;\n    max-width: 100%;\n    margin-top: 4px;\n    padding: 4px 0;\n    border: 1px solid var(--vscode-editorSuggestWidget-border, var(--moments-border));\n    border-radius: 6px;\n    background: var(--vscode-editorSuggestWidget-background, var(--vscode-editorWidget-background));\n    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.2);\n  }\n\n  .tag-suggestion {\n    display: flex;\n    justify-content: space-between;\n    gap: 12px;\n    padding: 3px 10px;\n    font-size: 12px;\n    cursor: pointer;\n  }\n\n  .tag-suggestion.active {\n    background: var(--vscode-editorSuggestWidget-selectedBackground, var(--vscode-list-activeSelectionBackground));\n    color: var(--vscode-editorSuggestWidget-selectedForeground, var(--vscode-list-activeSelectionForeground));\n  }\n\n  .tag-suggestion-count {\n    color: var(--moments-muted);\n  }\n\n  textarea {\n    display: block;\n    width: 100%;\n    resize: none;\n    background: transparent;\n    color: var(--vscode-input-foreground);\n    border: none;\n    padding: 10px 12px;\n    font-family: var(--vscode-font-family);\n    font-size: var(--vscode-font-size);\n    line-height: 1.45;\n    outline: none;\n    min-height: 38px;\n    max-height: 120px;\n    overflow-y: auto;\n  }\n  textarea::placeholder { color: var(--vscode-input-placeholderForeground); }\n\n  /* Bottom row: send button */\n  .input-actions {\n    display: flex;\n    align-items: center;\n    justify-content: flex-end;\n    padding: 2px 6px 6px 8px;\n    gap: 5px;\n  }\n\n  .send-icon-btn {\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    width: 28px;\n    height: 28px;\n    background: transparent;\n    border: none;\n    color: var(--moments-muted);\n    cursor: pointer;\n    border-radius: 6px;\n    padding: 0;\n    transition: all 0.2s ease;\n  }\n\n  .send-icon-btn:hover {\n    color: var(--moments-accent);\n    background: color-mix(in srgb, var(--moments-accent) 12%, transparent);\n    transform: translateY(-0.5px);\n  }\n\n  .send-icon-btn svg {\n    width: 14px;\n    height: 14px;\n    stroke-width: 2.2;\n  }\n\n  .send-icon-btn:active {\n    background: var(--vscode-toolbar-activeBackground, rgba(90, 93, 94, 0.5));\n  }\n\n  .error-banner {\n    background: var(--vscode-inputValidation-errorBackground);\n    border: 1px solid var(--vscode-inputValidation-errorBorder);\n    color: var(--vscode-inputValidation-errorForeground);\n    padding: 6px 10px;\n    font-size: 11px;\n    border-radius: 4px;\n    margin-bottom: 6px;\n  }\n\n  .undo-toast {\n    display: flex;\n    align-items: center;\n    justify-content: space-between;\n    gap: 8px;\n    padding: 6px 10px;\n    margin-bottom: 6px;\n    font-size: 11px;\n    border-radius: 4px;\n    border: 1px solid var(--vscode-widget-border, transparent);\n    background: var(--vscode-editorWidget-background);\n  }\n  .undo-toast[hidden] { display: none; }\n\n  .undo-toast-btn {\n    border: none;\n    background: transparent;\n    color: var(--vscode-textLink-foreground);\n    font: inherit;\n    cursor: pointer;\n  }\n\n  /* ---- Search bar ---- */\n  .search-bar {\n    position: relative;\n    width: 100%;\n    flex: 1 1 auto;\n    min-width: 0;\n    display: flex;\n    align-items: center;\n  }\n\n  .search-icon {\n    position: absolute;\n    left: 7px;\n    top: 50%;\n    transform: translateY(-50%);\n    width: 13px;\n    height: 13px;\n    fill: var(--moments-muted);\n    opacity: 0.6;\n    pointer-events: none;\n  }\n\n  .search-bar input {\n    width: 100%;\n    background: var(--vscode-input-background);\n    color: var(--vscode-input-foreground);\n    border: 1px solid var(--vscode-input-border, transparent);\n    border-radius: var(--moments-control-radius);\n    padding: 5px 26px 5px 26px;\n    font-family: var(--vscode-font-family);\n    font-size: 12px;\n    outline: none;\n    box-sizing: border-box;\n  }\n\n  .search-bar input:focus {\n    border-color: var(--vscode-focusBorder);\n    outline: 1px solid var(--vscode-focusBorder);\n    outline-offset: -1px;\n  }\n\n  .search-bar input::placeholder {\n    color: var(--vscode-input-placeholderForeground);\n  }\n\n  .clear-search-btn {\n    position: absolute;\n    right: 4px;\n    top: 50%;\n    transform: translateY(-50%);\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n    background: none;\n    border: none;\n    color: var(--moments-muted);\n    cursor: pointer;\n    padding: 3px;\n    border-radius: 3px;\n    opacity: 0.6;\n    transition: opacity 0.15s, background 0.15s;\n  }\n  .clear-search-btn svg {\n    width: 12px;\n    height: 12px;\n    fill: currentColor;\n  }\n  .clear-search-btn:hover { opacity: 1; background: var(--vscode-toolbar-hoverBackground); }\n\n  .filter-chip-btn {\n    display: inline-flex;\n    align-items: center;\n    justify-content: center;\n    flex: none;\n    min-height: 28px;\n    min-width: 0;\n    max-width: 40%;\n    border: 1px solid color-mix(in srgb, var(--moments-accent) 35%, var(--moments-border));\n    border-radius: 999px;\n    background: color-mix(in srgb, var(--moments-accent) 12%, transparent);\n    color: var(--moments-accent);\n    padding: 0 8px;\n    font-size: 11px;\n    font-weight: 500;\n    line-height: 1;\n    cursor: pointer;\n    white-space: nowrap;\n    overflow: hidden;\n    text-overflow: ellipsis;\n    transition: background 0.15s, border-color 0.15s, color 0.15s, opacity 0.15s;\n  }\n\n  .filter-chip-btn:hover {\n    background: color-mix(in srgb, var(--moments-accent) 18%, transparent);\n    border-color: color-mix(in srgb, var(--moments-accent) 50%, var(--moments-border));\n  }\n\n  .tag-filter-bar {\n    flex-wrap: wrap;\n    gap: 6px;\n  }\n\n  .tag-filter-bar[hidden] {\n    display: none;\n  }\n\n  .tag-filter-bar .filter-chip-btn {\n    max-width: 100%;\n    min-height: 24px;\n  }\n\n  .tag-mode-btn {\n    display: inline-flex;\n    align-items: center;\n    min-height: 24px;\n    padding: 0 8px;\n    border: 1px solid var(--moments-border);\n    border-radius: 999px;\n    background: transparent;\n    color: var(--moments-muted);\n    font-size: 11px;\n    cursor: pointer;\n  }\n\n  .tag-mode-btn svg {\n    width: 12px;\n    height: 12px;\n  }\n\n  .tag-mode-btn:hover {\n    color: var(--vscode-foreground);\n    background: var(--vscode-toolbar-hoverBackground);\n  }\n\n  /* ---- Export select mode ---- */\n  .export-btn.active {\n    opacity: 1;\n    color: var(--moments-accent);\n    background: color-mix(in srgb, var(--moments-accent) 12%, transparent);\n    border-radius: 4px;\n  }\n\n  .select-entry-cb {\n    display: none;\n    flex: none;\n    width: 15px;\n    height: 15px;\n    margin: 0;\n    accent-color: var(--moments-accent);\n    cursor: pointer;\n    margin-top: 1px;\n  }\n\n  body.select-mode .select-entry-cb {\n    display: block;\n  }\n\n  .entry.selected-for-export {\n    background: color-mix(in srgb, var(--moments-accent) 10%, var(--vscode-editor-background));\n    border-color: color-mix(in srgb, var(--moments-accent) 30%, var(--moments-border));\n  }\n\n  .export-action-bar {\n    flex-shrink: 0;\n    display: none;\n    align-items: center;\n    gap: 8px;\n    padding: 8px var(--moments-inline-padding);\n    border-top: 1px solid var(--vscode-focusBorder, var(--moments-border));\n    background: var(--vscode-editorWidget-background, var(--vscode-sideBar-background));\n  }\n\n  body.select-mode .export-action-bar {\n    display: flex;\n  }\n\n  .selected-count-label {\n    flex: 1;\n    font-size: 11px;\n    color: var(--moments-muted);\n  }\n\n  .export-note-btn {\n    background: var(--vscode-button-background);\n    color: var(--vscode-button-foreground);\n    border: none;\n    border-radius: 3px;\n    padding: 4px 10px;\n    font-size: 11px;\n    cursor: pointer;\n    transition: background 0.15s;\n  }\n  .export-note-btn:hover { background: var(--vscode-button-hoverBackground); }\n  .export-note-btn:disabled { opacity: 0.5; cursor: not-allowed; }\n\n  .export-cancel-btn {\n    background: var(--vscode-button-secondaryBackground);\n    color: var(--vscode-button-secondaryForeground);\n    border: none;\n    border-radius: 3px;\n    padding: 4px 10px;\n    font-size: 11px;\n    cursor: pointer;\n    transition: background 0.15s;\n  }\n  .export-cancel-btn:hover { background: var(--vscode-button-secondaryHoverBackground); }\n\n  /* ---- Pinned section ---- */\n  .pinned-section {\n    display: flex;\n    flex-direction: column;\n    gap: 6px;\n    padding: 6px var(--moments-inline-padding) 8px;\n    border-bottom: 2px solid var(--moments-accent);\n  }\n\n  .pinned-section-header {\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    padding: 10px 12px 6px;\n    position: sticky;\n    top: 0;\n    z-index: 1;\n    background: var(--vscode-sideBar-background, var(--vscode-editor-background));\n    border-bottom: 1px solid var(--moments-border);\n  }\n\n  .pinned-section-label {\n    color: var(--moments-accent);\n    font-size: 11px;\n    font-weight: 600;\n    text-align: center;\n    white-space: nowrap;\n  }\n\n  .pinned-entry {\n    background: color-mix(in srgb, var(--moments-accent) 6%, var(--vscode-editor-background));\n    border-color: color-mix(in srgb, var(--moments-accent) 40%, transparent);\n  }\n  .pinned-entry:hover { background: color-mix(in srgb, var(--moments-accent) 12%, var(--vscode-list-hoverBackground)); }\n\n  .pin-btn.pinned { opacity: 1; color: var(--moments-accent); }\n  .pin-btn:not(.pinned) { opacity: 0.45; }\n  .entry:hover .pin-btn:not(.pinned),\n  .entry:focus-within .pin-btn:not(.pinned) {\n    opacity: 0.8;\n    color: var(--vscode-foreground);\n  }\n\n  #jumpDateInput {\n    position: absolute;\n    opacity: 0;\n    pointer-events: none;\n    width: 1px;\n    height: 1px;\n    clip: rect(0 0 0 0);\n  }\n";
@@ -2,7 +2,17 @@ import * as fs from "fs/promises";
 import * as path from "path";
 import * as vscode from "vscode";
 import { collectNoteFiles } from "../shared/collectNoteFiles.js";
+import {
+  extractFrontMatterAliases,
+  extractNoteMetadata,
+  extractPreviewText,
+  stripFrontMatter,
+} from "../shared/noteContent.js";
 import { stripDatePrefixTitle } from "../shared/noteFilename.js";
+import { isPathInside } from "../shared/pathSafety.js";
+import { extractBlockId } from "../shared/taskRef.js";
+import { t } from "./i18n.js";
+import { getNoteTitleConvertSpacesSetting, getWikiLinkDiagnosticsSetting } from "./notesConfig.js";
 
 // Regex to find [[...]] links (supports [[Target|Alias]])
 const WIKI_LINK_RE = /\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g;
@@ -13,6 +23,138 @@ export function parseWikiLinks(text: string): string[] {
   return [...text.matchAll(WIKI_LINK_RE)].map((m) => m[1]);
 }
 
+export interface WikiLinkTarget {
+  /** The note part; empty in `[[#Heading]]` links into the same note. */
+  note: string;
+  /** The `#Heading` or `^block-id` part as written, or "". */
+  anchor: string;
+  heading?: string;
+  blockId?: string;
+}
+
+export interface NoteHeading {
+  level: number;
+  text: string;
+  line: number;
+}
+
+/**
+ * Splits a link target into the note and its anchor: `Note#Heading`, `Note^block-id` or
+ * `Note#^block-id`. Of a heading path such as `Note#Chapter#Section`, the last heading counts.
+ */
+export function parseWikiLinkTarget(target: string): WikiLinkTarget {
+  const index = target.search(/[#^]/);
+  if (index < 0) {
+    return { note: target, anchor: "" };
+  }
+
+  const note = target.slice(0, index);
+  const anchor = target.slice(index);
+  const block = anchor.match(/^#?\^([A-Za-z0-9-]+)$/);
+  if (block) {
+    return { note, anchor, blockId: block[1] };
+  }
+  const heading = anchor.startsWith("#") ? anchor.split("#").pop()!.trim() : "";
+  return heading ? { note, anchor, heading } : { note, anchor };
+}
+
+/** ATX headings outside fenced code blocks. */
+export function listNoteHeadings(content: string): NoteHeading[] {
+  const headings: NoteHeading[] = [];
+  let fence: string | undefined;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (fence === fenceMatch[1]) {
+        fence = undefined;
+      }
+      return;
+    }
+    const match = fence ? null : line.match(/^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/);
+    if (match) {
+      headings.push({ level: match[1].length, text: match[2], line: index });
+    }
+  });
+  return headings;
+}
+
+function normalizeHeading(text: string): string {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * The line a link anchor points at: the heading (case-insensitive), or the line ending in
+ * `^block-id` (the paragraph above when the id stands on its own line). 0 without an
+ * anchor; undefined when the anchor is not found.
+ */
+export function findWikiLinkAnchorLine(
+  content: string,
+  target: WikiLinkTarget,
+): number | undefined {
+  if (target.heading) {
+    const heading = normalizeHeading(target.heading);
+    return listNoteHeadings(content).find((entry) => normalizeHeading(entry.text) === heading)
+      ?.line;
+  }
+  if (!target.blockId) {
+    return 0;
+  }
+
+  const lines = content.split(/\r?\n/);
+  const index = lines.findIndex((line) => extractBlockId(` ${line}`) === target.blockId);
+  if (index < 0) {
+    return undefined;
+  }
+  if (lines[index].trim().startsWith("^")) {
+    for (let line = index - 1; line >= 0; line--) {
+      if (lines[line].trim()) {
+        return line;
+      }
+    }
+  }
+  return index;
+}
+
+/**
+ * The text a hover shows for a link: the section below an anchored heading (up to the next
+ * heading of the same or a higher level), the `^block-id` line, or else the first paragraph
+ * below the note's title.
+ */
+export function extractWikiLinkPreview(content: string, target: WikiLinkTarget): string {
+  const lines = content.split(/\r?\n/);
+  const anchorLine =
+    target.heading || target.blockId ? findWikiLinkAnchorLine(content, target) : undefined;
+
+  if (anchorLine !== undefined && target.blockId) {
+    return extractPreviewText(lines[anchorLine].replace(/\s\^[A-Za-z0-9-]+\s*$/, ""), 300);
+  }
+  if (anchorLine !== undefined) {
+    const headings = listNoteHeadings(content);
+    const index = headings.findIndex((heading) => heading.line === anchorLine);
+    const next = headings
+      .slice(index + 1)
+      .find((heading) => heading.level <= headings[index].level);
+    return extractPreviewText(lines.slice(anchorLine + 1, next?.line).join("\n"), 300);
+  }
+
+  const paragraph = stripFrontMatter(content)
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .find((block) => block && !/^#{1,6}\s/.test(block));
+  return paragraph ? extractPreviewText(paragraph, 300) : "";
+}
+
+/** The "#Heading" / "^block-id" label of the section a link points at, if any. */
+function getWikiLinkSectionLabel(target: WikiLinkTarget): string | undefined {
+  if (target.blockId) {
+    return `^${target.blockId}`;
+  }
+  return target.heading ? `#${target.heading}` : undefined;
+}
+
 type NoteFileCache = {
   files: Array<{ filePath: string; mtime: number }>;
   signature: string;
@@ -41,39 +183,154 @@ async function getAllNoteFiles(notesDir: string): Promise<string[]> {
   return (await getAllNoteFilesWithMtime(notesDir)).map((f) => f.filePath);
 }
 
-function resolveWikiLinkFromFiles(title: string, files: string[]): string | undefined {
-  const titleLower = title.toLowerCase();
+/**
+ * The files `[[title]]` matches, by the first rule any file meets: the exact file name,
+ * a `_Title` suffix, then both case-insensitively. The title with spaces converted as by
+ * `notes.noteTitleConvertSpaces` is tried after the title itself. More than one file
+ * means the link is ambiguous.
+ */
+function findWikiLinkTitleMatches(title: string, files: string[]): string[] {
+  const convertSpaces = getNoteTitleConvertSpacesSetting();
+  const titles = [...new Set([title, convertSpaces ? title.replace(/ /g, convertSpaces) : title])];
+  const stems = files.map((file) => path.basename(file, ".md"));
+  const rules: Array<(stem: string, title: string) => boolean> = [
+    (stem, candidate) => stem === candidate,
+    (stem, candidate) => stem.endsWith("_" + candidate),
+    (stem, candidate) => stem.toLowerCase() === candidate.toLowerCase(),
+    (stem, candidate) => stem.toLowerCase().endsWith("_" + candidate.toLowerCase()),
+  ];
 
-  for (const file of files) {
-    if (path.basename(file) === title + ".md") {
-      return file;
+  for (const rule of rules) {
+    for (const candidate of titles) {
+      const matches = files.filter((_, index) => rule(stems[index], candidate));
+      if (matches.length > 0) {
+        return matches;
+      }
     }
   }
-  for (const file of files) {
-    const stem = path.basename(file, ".md");
-    if (stem.endsWith("_" + title)) {
-      return file;
-    }
+  return [];
+}
+
+/**
+ * The files a link target matches. `folder/Title` names a path below the notes directory,
+ * or else a title matched among the notes directly in that folder.
+ */
+function findWikiLinkTargets(title: string, files: string[], notesDir: string): string[] {
+  if (!title.includes("/")) {
+    return findWikiLinkTitleMatches(title, files);
   }
-  for (const file of files) {
-    if (path.basename(file).toLowerCase() === titleLower + ".md") {
-      return file;
-    }
+
+  const filePath = path.join(notesDir, `${title}.md`);
+  if (!isPathInside(notesDir, filePath)) {
+    return [];
   }
-  for (const file of files) {
-    const stem = path.basename(file, ".md").toLowerCase();
-    if (stem.endsWith("_" + titleLower)) {
-      return file;
-    }
+  if (files.includes(filePath)) {
+    return [filePath];
   }
-  return undefined;
+  const folder = path.dirname(filePath);
+  return findWikiLinkTitleMatches(
+    path.basename(filePath, ".md"),
+    files.filter((file) => path.dirname(file) === folder),
+  );
+}
+
+/** Whether the whole of `target`, `#` and `^` included, may name a note such as `C# basics`. */
+function mayBeWholeNoteName(target: string): boolean {
+  return /^[^#^]+[#^]/.test(target);
+}
+
+/**
+ * `parseWikiLinkTarget`, unless the whole target names one of `files`: `[[C# basics]]` links
+ * to `C# basics.md` rather than to the `basics` heading of `C`.
+ */
+function parseWikiLinkTargetInFiles(
+  target: string,
+  files: string[],
+  notesDir: string,
+): WikiLinkTarget {
+  return mayBeWholeNoteName(target) && findWikiLinkTargets(target, files, notesDir).length > 0
+    ? { note: target, anchor: "" }
+    : parseWikiLinkTarget(target);
+}
+
+/** Like `resolveWikiLinkPath`, against a known file list instead of the disk. */
+function resolveWikiLinkFromFiles(
+  title: string,
+  files: string[],
+  notesDir: string,
+): string | undefined {
+  return findWikiLinkTargets(title, files, notesDir)[0];
+}
+
+/** `folder/Title`, the unambiguous link target for a note below `notesDir`. */
+function getWikiLinkPathTarget(notesDir: string, filePath: string): string {
+  return path.relative(notesDir, filePath).split(path.sep).join("/").replace(/\.md$/, "");
 }
 
 export async function resolveWikiLinkPath(
   title: string,
   notesDir: string,
 ): Promise<string | undefined> {
-  return resolveWikiLinkFromFiles(title, await getAllNoteFiles(notesDir));
+  // `[[moments/2026-03-07]]` style links name a path below the notes directory.
+  if (title.includes("/")) {
+    const filePath = path.join(notesDir, `${title}.md`);
+    try {
+      if (isPathInside(notesDir, filePath) && (await fs.stat(filePath)).isFile()) {
+        return filePath;
+      }
+    } catch {
+      // Fall back to matching the file name.
+    }
+  }
+  return resolveWikiLinkFromFiles(title, await getAllNoteFiles(notesDir), notesDir);
+}
+
+/** The text of an open document (which may be unsaved), else the file on disk. */
+async function readNoteText(filePath: string, mtime?: number): Promise<string | undefined> {
+  const document = vscode.workspace.textDocuments.find((doc) => doc.uri.fsPath === filePath);
+  if (document) {
+    return document.getText();
+  }
+  if (mtime !== undefined) {
+    return readCachedNote(filePath, mtime);
+  }
+  try {
+    return await fs.readFile(filePath, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The note and line a link target points at, with the target as parsed. `[[#Heading]]` points
+ * into `currentFile`, and an anchor that is not found falls back to the top of the note.
+ */
+export async function resolveWikiLinkLocation(
+  target: string,
+  notesDir: string,
+  currentFile: string,
+): Promise<{ filePath: string; line: number; target: WikiLinkTarget } | undefined> {
+  const wholeNote = mayBeWholeNoteName(target)
+    ? await resolveWikiLinkPath(target, notesDir)
+    : undefined;
+  if (wholeNote) {
+    return { filePath: wholeNote, line: 0, target: { note: target, anchor: "" } };
+  }
+
+  const parsed = parseWikiLinkTarget(target);
+  const filePath = parsed.note ? await resolveWikiLinkPath(parsed.note, notesDir) : currentFile;
+  if (!filePath) {
+    return undefined;
+  }
+  if (!parsed.anchor) {
+    return { filePath, line: 0, target: parsed };
+  }
+  const content = await readNoteText(filePath);
+  return {
+    filePath,
+    line: (content && findWikiLinkAnchorLine(content, parsed)) || 0,
+    target: parsed,
+  };
 }
 
 // --- DocumentLinkProvider ---
@@ -91,16 +348,20 @@ export class WikiLinkDocumentLinkProvider implements vscode.DocumentLinkProvider
     const links: vscode.DocumentLink[] = [];
 
     for (const match of text.matchAll(/\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g)) {
-      const title = match[1];
-      const filePath = await resolveWikiLinkPath(title, notesDir);
-      if (!filePath) {
+      const location = await resolveWikiLinkLocation(match[1], notesDir, document.uri.fsPath);
+      if (!location) {
         continue;
       }
 
       const start = document.positionAt(match.index!);
       const end = document.positionAt(match.index! + match[0].length);
-      const link = new vscode.DocumentLink(new vscode.Range(start, end), vscode.Uri.file(filePath));
-      link.tooltip = `Open: ${path.basename(filePath)}`;
+      const uri = vscode.Uri.file(location.filePath);
+      const link = new vscode.DocumentLink(
+        new vscode.Range(start, end),
+        location.line > 0 ? uri.with({ fragment: `L${location.line + 1}` }) : uri,
+      );
+      const section = getWikiLinkSectionLabel(location.target);
+      link.tooltip = `Open: ${path.basename(location.filePath)}${section ? ` ${section}` : ""}`;
       links.push(link);
     }
 
@@ -124,6 +385,16 @@ export class WikiLinkCompletionProvider implements vscode.CompletionItemProvider
 
     const lineText = document.lineAt(position).text;
     const textBefore = lineText.substring(0, position.character);
+    const headingQuery = textBefore.match(/\[\[([^\]|#^]*)#([^\]|#^]*)$/);
+    if (headingQuery) {
+      return this.provideHeadingItems(
+        document,
+        position,
+        headingQuery[1],
+        headingQuery[2],
+        notesDir,
+      );
+    }
     if (!textBefore.endsWith("[[")) {
       return;
     }
@@ -144,6 +415,35 @@ export class WikiLinkCompletionProvider implements vscode.CompletionItemProvider
         return item;
       });
   }
+
+  /** Headings of the linked note (the current one for `[[#`), offered after `[[Note#`. */
+  private async provideHeadingItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    note: string,
+    query: string,
+    notesDir: string,
+  ): Promise<vscode.CompletionItem[] | undefined> {
+    const filePath = note ? await resolveWikiLinkPath(note, notesDir) : document.uri.fsPath;
+    const content = filePath ? await readNoteText(filePath) : undefined;
+    if (!content) {
+      return;
+    }
+
+    const range = new vscode.Range(
+      position.line,
+      position.character - query.length,
+      position.line,
+      position.character,
+    );
+    return listNoteHeadings(content).map((heading, index) => {
+      const item = new vscode.CompletionItem(heading.text, vscode.CompletionItemKind.Reference);
+      item.detail = `${"#".repeat(heading.level)} ${path.basename(filePath!)}`;
+      item.range = range;
+      item.sortText = String(index).padStart(4, "0");
+      return item;
+    });
+  }
 }
 
 // --- DefinitionProvider ---
@@ -171,12 +471,279 @@ export class WikiLinkDefinitionProvider implements vscode.DefinitionProvider {
       return;
     }
 
-    const filePath = await resolveWikiLinkPath(match[1], notesDir);
-    if (!filePath) {
+    const location = await resolveWikiLinkLocation(match[1], notesDir, document.uri.fsPath);
+    if (!location) {
       return;
     }
 
-    return new vscode.Location(vscode.Uri.file(filePath), new vscode.Position(0, 0));
+    return new vscode.Location(
+      vscode.Uri.file(location.filePath),
+      new vscode.Position(location.line, 0),
+    );
+  }
+}
+
+// --- HoverProvider ---
+
+/** Previews the linked note (or section) with its title, tags and modified time. */
+export class WikiLinkHoverProvider implements vscode.HoverProvider {
+  constructor(private getNotesDir: () => string | undefined) {}
+
+  async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.Hover | undefined> {
+    const notesDir = this.getNotesDir();
+    if (!notesDir) {
+      return;
+    }
+
+    const range = document.getWordRangeAtPosition(position, /\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/);
+    const match = range && document.getText(range).match(/\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/);
+    if (!match) {
+      return;
+    }
+
+    const location = await resolveWikiLinkLocation(match[1], notesDir, document.uri.fsPath);
+    const content = location && (await readNoteText(location.filePath));
+    if (!location || content === undefined) {
+      return;
+    }
+
+    const target = location.target;
+    const metadata = extractNoteMetadata(
+      content,
+      stripDatePrefixTitle(path.basename(location.filePath, ".md")),
+    );
+    // A missing anchor previews the top of the note, so it is not labelled as the section.
+    const section =
+      findWikiLinkAnchorLine(content, target) !== undefined
+        ? getWikiLinkSectionLabel(target)
+        : undefined;
+    const md = new vscode.MarkdownString();
+    md.supportThemeIcons = true;
+
+    md.appendMarkdown(`**${metadata.title}**${section ? ` › ${section}` : ""}\n\n`);
+    md.appendMarkdown(`*\`${path.relative(notesDir, location.filePath)}\`*\n\n`);
+    if (metadata.tags.length > 0) {
+      md.appendMarkdown(`$(tag) ${metadata.tags.join(" ")}\n\n`);
+    }
+    try {
+      const { mtime } = await fs.stat(location.filePath);
+      md.appendMarkdown(
+        `$(clock) ${t("wikiLinkHoverUpdated", { time: mtime.toLocaleString() })}\n\n`,
+      );
+    } catch {
+      // Not saved yet.
+    }
+
+    const preview = extractWikiLinkPreview(content, target);
+    if (preview) {
+      md.appendMarkdown(`---\n${preview}\n`);
+    }
+    return new vscode.Hover(md, range);
+  }
+}
+
+// --- Diagnostics ---
+
+export interface WikiLinkProblem {
+  kind: "unresolved" | "ambiguous";
+  target: string;
+  linkText: string;
+  lineNumber: number;
+  character: number;
+  /** The notes an ambiguous link matches. */
+  candidates: string[];
+}
+
+const DIAGNOSTIC_SOURCE = "Noteeees";
+const DIAGNOSTICS_DELAY_MS = 300;
+
+/** Links in `text` that match no note, or several notes of which the first one wins. */
+export async function collectWikiLinkProblems(
+  text: string,
+  notesDir: string,
+): Promise<WikiLinkProblem[]> {
+  const files = await getAllNoteFiles(notesDir);
+  const problems: WikiLinkProblem[] = [];
+
+  text.split("\n").forEach((line, lineNumber) => {
+    for (const match of line.matchAll(WIKI_LINK_RE)) {
+      const { note } = parseWikiLinkTargetInFiles(match[1], files, notesDir);
+      const candidates = note ? findWikiLinkTargets(note, files, notesDir) : [];
+      if (!note || candidates.length === 1) {
+        continue;
+      }
+      problems.push({
+        kind: candidates.length === 0 ? "unresolved" : "ambiguous",
+        target: note,
+        linkText: match[0],
+        lineNumber,
+        character: match.index!,
+        candidates,
+      });
+    }
+  });
+  return problems;
+}
+
+/** Flags unresolved and ambiguous links in the open Markdown files under the notes directory. */
+export class WikiLinkDiagnostics implements vscode.Disposable {
+  private readonly collection = vscode.languages.createDiagnosticCollection("noteeees-wiki-links");
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly disposables: vscode.Disposable[];
+
+  constructor(private getNotesDir: () => string | undefined) {
+    this.disposables = [
+      this.collection,
+      vscode.workspace.onDidOpenTextDocument((document) => this.schedule(document)),
+      vscode.workspace.onDidChangeTextDocument((event) => this.schedule(event.document)),
+      vscode.workspace.onDidCloseTextDocument((document) => this.collection.delete(document.uri)),
+    ];
+    this.refresh();
+  }
+
+  /** Re-checks every open document, e.g. after notes were created, deleted or renamed. */
+  refresh(): void {
+    for (const document of vscode.workspace.textDocuments) {
+      this.schedule(document);
+    }
+  }
+
+  private schedule(document: vscode.TextDocument): void {
+    if (document.languageId !== "markdown") {
+      return;
+    }
+    const key = document.uri.toString();
+    clearTimeout(this.timers.get(key));
+    this.timers.set(
+      key,
+      setTimeout(() => {
+        this.timers.delete(key);
+        void this.update(document);
+      }, DIAGNOSTICS_DELAY_MS),
+    );
+  }
+
+  private async update(document: vscode.TextDocument): Promise<void> {
+    const notesDir = this.getNotesDir();
+    if (
+      !notesDir ||
+      !getWikiLinkDiagnosticsSetting() ||
+      document.uri.scheme !== "file" ||
+      !isPathInside(notesDir, document.uri.fsPath)
+    ) {
+      this.collection.delete(document.uri);
+      return;
+    }
+
+    const problems = await collectWikiLinkProblems(document.getText(), notesDir);
+    if (document.isClosed) {
+      return;
+    }
+    this.collection.set(
+      document.uri,
+      problems.map((problem) => {
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(
+            problem.lineNumber,
+            problem.character,
+            problem.lineNumber,
+            problem.character + problem.linkText.length,
+          ),
+          problem.kind === "unresolved"
+            ? t("wikiLinkUnresolved", { target: problem.target })
+            : t("wikiLinkAmbiguous", {
+                target: problem.target,
+                count: problem.candidates.length,
+                name: getWikiLinkPathTarget(notesDir, problem.candidates[0]),
+              }),
+          problem.kind === "unresolved"
+            ? vscode.DiagnosticSeverity.Warning
+            : vscode.DiagnosticSeverity.Information,
+        );
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        diagnostic.code = problem.kind;
+        return diagnostic;
+      }),
+    );
+  }
+
+  dispose(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+}
+
+// --- CodeActionProvider ---
+
+/** Quick fixes for the link diagnostics: create the missing note, or link to one path. */
+export class WikiLinkCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(private getNotesDir: () => string | undefined) {}
+
+  async provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext,
+  ): Promise<vscode.CodeAction[]> {
+    const notesDir = this.getNotesDir();
+    if (!notesDir) {
+      return [];
+    }
+
+    const files = await getAllNoteFiles(notesDir);
+    const actions: vscode.CodeAction[] = [];
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== DIAGNOSTIC_SOURCE) {
+        continue;
+      }
+      const match = document.getText(diagnostic.range).match(/^\[\[([^\]|]+)(\|[^\]]*)?\]\]$/);
+      if (!match) {
+        continue;
+      }
+      const { note, anchor } = parseWikiLinkTargetInFiles(match[1], files, notesDir);
+
+      if (diagnostic.code === "unresolved") {
+        const action = new vscode.CodeAction(
+          t("wikiLinkCreateNote", { title: note }),
+          vscode.CodeActionKind.QuickFix,
+        );
+        action.command = {
+          command: "notes.createLinkedNote",
+          title: action.title,
+          arguments: [note],
+        };
+        action.diagnostics = [diagnostic];
+        action.isPreferred = true;
+        actions.push(action);
+        continue;
+      }
+
+      for (const filePath of findWikiLinkTargets(note, files, notesDir)) {
+        const target = getWikiLinkPathTarget(notesDir, filePath);
+        const action = new vscode.CodeAction(
+          t("wikiLinkUsePath", { path: target }),
+          vscode.CodeActionKind.QuickFix,
+        );
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(
+          document.uri,
+          diagnostic.range,
+          `[[${target}${anchor}${match[2] ?? ""}]]`,
+        );
+        action.diagnostics = [diagnostic];
+        actions.push(action);
+      }
+    }
+    return actions;
   }
 }
 
@@ -186,6 +753,10 @@ export interface BacklinkItem {
   sourceFile: string;
   linkText: string;
   lineNumber: number;
+  /** Offset of `linkText` in its line. */
+  character: number;
+  /** The referenced `#Heading` or `^block-id`, for links to a section. */
+  section?: string;
 }
 
 /**
@@ -194,12 +765,35 @@ export interface BacklinkItem {
  */
 const backlinkContentCache = new Map<string, { mtime: number; content: string }>();
 
+async function readCachedNote(file: string, mtime: number): Promise<string | undefined> {
+  const cached = backlinkContentCache.get(file);
+  if (cached && cached.mtime === mtime) {
+    return cached.content;
+  }
+  try {
+    const content = await fs.readFile(file, "utf8");
+    backlinkContentCache.set(file, { mtime, content });
+    return content;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The `[[...]]` links in other notes that resolve to `targetFile`. With `renamedFrom`,
+ * `targetFile` was just renamed from that path and links are resolved as they were before.
+ */
 export async function collectBacklinks(
   targetFile: string,
   notesDir: string,
+  renamedFrom?: string,
 ): Promise<Map<string, BacklinkItem[]>> {
   const collected = await getAllNoteFilesWithMtime(notesDir);
   const files = collected.map((f) => f.filePath);
+  const linkedFile = renamedFrom ?? targetFile;
+  const resolveFiles = renamedFrom
+    ? files.map((file) => (file === targetFile ? renamedFrom : file))
+    : files;
   const mtimes = new Map(collected.map((f) => [f.filePath, f.mtime]));
   const result = new Map<string, BacklinkItem[]>();
 
@@ -208,18 +802,10 @@ export async function collectBacklinks(
       continue;
     }
 
-    const mtime = mtimes.get(file)!;
-    const cached = backlinkContentCache.get(file);
-    let content: string;
-    if (cached && cached.mtime === mtime) {
-      content = cached.content;
-    } else {
-      try {
-        content = await fs.readFile(file, "utf8");
-      } catch {
-        continue;
-      }
-      backlinkContentCache.set(file, { mtime, content });
+    // Open documents are read as edited, so rename edits land on the text they apply to.
+    const content = await readNoteText(file, mtimes.get(file)!);
+    if (content === undefined) {
+      continue;
     }
 
     const lines = content.split("\n");
@@ -227,8 +813,18 @@ export async function collectBacklinks(
 
     for (let i = 0; i < lines.length; i++) {
       for (const match of lines[i].matchAll(/\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g)) {
-        if (resolveWikiLinkFromFiles(match[1], files) === targetFile) {
-          items.push({ sourceFile: file, linkText: match[0], lineNumber: i });
+        const target = parseWikiLinkTargetInFiles(match[1], resolveFiles, notesDir);
+        if (
+          target.note &&
+          resolveWikiLinkFromFiles(target.note, resolveFiles, notesDir) === linkedFile
+        ) {
+          items.push({
+            sourceFile: file,
+            linkText: match[0],
+            lineNumber: i,
+            character: match.index!,
+            section: getWikiLinkSectionLabel(target),
+          });
         }
       }
     }
@@ -248,13 +844,356 @@ export async function collectBacklinks(
   return result;
 }
 
-type BacklinkTreeItemKind = "file" | "line";
+// --- Unlinked mentions ---
+
+export interface UnlinkedMention {
+  sourceFile: string;
+  lineNumber: number;
+  character: number;
+  /** The mention as written. */
+  text: string;
+  lineText: string;
+}
+
+/**
+ * The names other notes may mention a note by: its title (from the file name, also with
+ * `notes.noteTitleConvertSpaces` turned back into spaces), its `# Title` heading and its
+ * front matter aliases.
+ */
+export function getNoteMentionNames(filePath: string, content: string): string[] {
+  const title = stripDatePrefixTitle(path.basename(filePath, ".md"));
+  const convertSpaces = getNoteTitleConvertSpacesSetting();
+  const names = [
+    title,
+    convertSpaces ? title.split(convertSpaces).join(" ") : title,
+    extractNoteMetadata(content, title).title,
+    ...extractFrontMatterAliases(content),
+  ].map((name) => name.trim());
+  return [...new Set(names)].filter((name) => name.length >= 2);
+}
+
+/** Matches any of `names` case-insensitively, not inside a longer ASCII word. */
+function buildMentionPattern(names: string[]): RegExp {
+  const alternatives = [...names]
+    .sort((a, b) => b.length - a.length)
+    .map((name) => {
+      const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      return `${/^\w/.test(name) ? "(?<!\\w)" : ""}${escaped}${/\w$/.test(name) ? "(?!\\w)" : ""}`;
+    });
+  return new RegExp(alternatives.join("|"), "giu");
+}
+
+/**
+ * Plain-text mentions of `targetFile`'s names in other notes, outside `[[...]]` links,
+ * front matter and fenced code blocks.
+ */
+export async function collectUnlinkedMentions(
+  targetFile: string,
+  notesDir: string,
+): Promise<Map<string, UnlinkedMention[]>> {
+  const result = new Map<string, UnlinkedMention[]>();
+  const names = getNoteMentionNames(targetFile, (await readNoteText(targetFile)) ?? "");
+  if (names.length === 0) {
+    return result;
+  }
+  const pattern = buildMentionPattern(names);
+
+  for (const { filePath, mtime } of await getAllNoteFilesWithMtime(notesDir)) {
+    // Open notes are read from their editors, so the offsets match what `linkUnlinkedMention` edits.
+    const content = filePath === targetFile ? undefined : await readNoteText(filePath, mtime);
+    if (content === undefined) {
+      continue;
+    }
+
+    const lines = content.split("\n");
+    const mentions: UnlinkedMention[] = [];
+    let skipUntil: string | undefined = lines[0]?.trim() === "---" ? "---" : undefined;
+
+    lines.forEach((line, lineNumber) => {
+      const fence = line.match(/^\s*(```|~~~)/)?.[1];
+      if (skipUntil) {
+        if (lineNumber > 0 && (skipUntil === "---" ? line.trim() === "---" : fence === skipUntil)) {
+          skipUntil = undefined;
+        }
+        return;
+      }
+      if (fence) {
+        skipUntil = fence;
+        return;
+      }
+
+      const links = [...line.matchAll(WIKI_LINK_RE)].map((link) => ({
+        start: link.index!,
+        end: link.index! + link[0].length,
+      }));
+      for (const match of line.matchAll(pattern)) {
+        const start = match.index!;
+        if (links.some((link) => start < link.end && start + match[0].length > link.start)) {
+          continue;
+        }
+        mentions.push({
+          sourceFile: filePath,
+          lineNumber,
+          character: start,
+          text: match[0],
+          lineText: line,
+        });
+      }
+    });
+
+    if (mentions.length > 0) {
+      result.set(filePath, mentions);
+    }
+  }
+  return result;
+}
+
+/** `[[text]]` when the mention resolves to the note as written, else `[[Title|text]]`. */
+export async function getUnlinkedMentionLink(
+  text: string,
+  targetFile: string,
+  notesDir: string,
+): Promise<string> {
+  const files = await getAllNoteFiles(notesDir);
+  const stem = path.basename(targetFile, ".md");
+  const pathTarget = getWikiLinkPathTarget(notesDir, targetFile);
+  const target =
+    [text, stripDatePrefixTitle(stem), stem].find(
+      (candidate) => resolveWikiLinkFromFiles(candidate, files, notesDir) === targetFile,
+    ) ?? pathTarget;
+  return target === text ? `[[${text}]]` : `[[${target}|${text}]]`;
+}
+
+/**
+ * Turns a mention into a link to `targetFile`, leaving the note to be saved by the user.
+ * False when the text at the mention changed since it was found.
+ */
+export async function linkUnlinkedMention(
+  mention: UnlinkedMention,
+  targetFile: string,
+  notesDir: string,
+): Promise<boolean> {
+  const document = await vscode.workspace.openTextDocument(mention.sourceFile);
+  const range = new vscode.Range(
+    mention.lineNumber,
+    mention.character,
+    mention.lineNumber,
+    mention.character + mention.text.length,
+  );
+  if (document.getText(range) !== mention.text) {
+    return false;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(
+    document.uri,
+    range,
+    await getUnlinkedMentionLink(mention.text, targetFile, notesDir),
+  );
+  return vscode.workspace.applyEdit(edit);
+}
+
+// --- Rename ---
+
+export interface WikiLinkRenameEdit {
+  filePath: string;
+  lineNumber: number;
+  character: number;
+  /** The link being replaced, e.g. `[[Old Title|alias]]`. */
+  linkText: string;
+  newText: string;
+}
+
+/**
+ * The link target that resolves to `newPath` once a note is renamed: the link unchanged
+ * when it still does, else the same form (title, file name or path) for the new name,
+ * falling back to a path below `notesDir` when the file name is ambiguous.
+ */
+function getRenamedWikiLinkTarget(
+  target: string,
+  oldPath: string,
+  newPath: string,
+  notesDir: string,
+  files: string[],
+): string {
+  if (resolveWikiLinkFromFiles(target, files, notesDir) === newPath) {
+    return target;
+  }
+
+  const newStem = path.basename(newPath, ".md");
+  const relative = getWikiLinkPathTarget(notesDir, newPath);
+  const candidates = target.includes("/")
+    ? [relative]
+    : target.toLowerCase() === path.basename(oldPath, ".md").toLowerCase()
+      ? [newStem]
+      : [stripDatePrefixTitle(newStem), newStem];
+  return (
+    candidates.find(
+      (candidate) => resolveWikiLinkFromFiles(candidate, files, notesDir) === newPath,
+    ) ?? relative
+  );
+}
+
+/**
+ * Rewrites of every `[[...]]` link to a note renamed from `oldPath` to `newPath`, keeping
+ * `#Heading` / `^block-id` anchors and `|alias` parts. Works both before the file is moved and right after.
+ */
+export async function collectWikiLinkRenameEdits(
+  oldPath: string,
+  newPath: string,
+  notesDir: string,
+): Promise<WikiLinkRenameEdit[]> {
+  const files = await getAllNoteFiles(notesDir);
+  const renamed = files.includes(newPath) && !files.includes(oldPath);
+  const backlinks = renamed
+    ? await collectBacklinks(newPath, notesDir, oldPath)
+    : await collectBacklinks(oldPath, notesDir);
+  const filesBefore = renamed ? files.map((file) => (file === newPath ? oldPath : file)) : files;
+  const filesAfter = renamed ? files : files.map((file) => (file === oldPath ? newPath : file));
+
+  const edits: WikiLinkRenameEdit[] = [];
+  for (const items of backlinks.values()) {
+    for (const item of items) {
+      const match = item.linkText.match(/^\[\[([^\]|]+)(\|[^\]]*)?\]\]$/);
+      if (!match) {
+        continue;
+      }
+      const { note, anchor } = parseWikiLinkTargetInFiles(match[1], filesBefore, notesDir);
+      const target = getRenamedWikiLinkTarget(note, oldPath, newPath, notesDir, filesAfter);
+      if (target !== note) {
+        edits.push({
+          filePath: item.sourceFile,
+          lineNumber: item.lineNumber,
+          character: item.character,
+          linkText: item.linkText,
+          newText: `[[${target}${anchor}${match[2] ?? ""}]]`,
+        });
+      }
+    }
+  }
+  return edits;
+}
+
+/** Adds `edits` to `workspaceEdit` as replacements shown in the refactor preview. */
+export function addWikiLinkRenameEdits(
+  workspaceEdit: vscode.WorkspaceEdit,
+  edits: WikiLinkRenameEdit[],
+  newPath: string,
+): void {
+  const metadata: vscode.WorkspaceEditEntryMetadata = {
+    needsConfirmation: true,
+    label: t("wikiLinkRenameLabel", { name: path.basename(newPath, ".md") }),
+  };
+  for (const edit of edits) {
+    workspaceEdit.replace(
+      vscode.Uri.file(edit.filePath),
+      new vscode.Range(
+        edit.lineNumber,
+        edit.character,
+        edit.lineNumber,
+        edit.character + edit.linkText.length,
+      ),
+      edit.newText,
+      metadata,
+    );
+  }
+}
+
+/** Notes renamed by `renameNoteWithLinks`, whose links the rename edit already updates. */
+const renamesWithLinkEdits = new Set<string>();
+
+/** Renames a note and updates the links to it in one previewed WorkspaceEdit. */
+export async function renameNoteWithLinks(
+  oldPath: string,
+  newPath: string,
+  notesDir: string,
+): Promise<boolean> {
+  const workspaceEdit = new vscode.WorkspaceEdit();
+  workspaceEdit.renameFile(vscode.Uri.file(oldPath), vscode.Uri.file(newPath));
+  addWikiLinkRenameEdits(
+    workspaceEdit,
+    await collectWikiLinkRenameEdits(oldPath, newPath, notesDir),
+    newPath,
+  );
+
+  renamesWithLinkEdits.add(oldPath);
+  const applied = await vscode.workspace.applyEdit(workspaceEdit);
+  if (!applied) {
+    renamesWithLinkEdits.delete(oldPath);
+  }
+  return applied;
+}
+
+/**
+ * The notes behind `workspace.onDidRenameFiles` pairs, after the move: a renamed note as is,
+ * and each note inside a folder renamed or moved within `notesDir`, paired with its old path.
+ */
+export async function expandRenamedNotes(
+  files: ReadonlyArray<{ readonly oldUri: vscode.Uri; readonly newUri: vscode.Uri }>,
+  notesDir: string,
+): Promise<Array<{ oldPath: string; newPath: string }>> {
+  const renames: Array<{ oldPath: string; newPath: string }> = [];
+  for (const { oldUri, newUri } of files) {
+    if (newUri.fsPath.endsWith(".md")) {
+      renames.push({ oldPath: oldUri.fsPath, newPath: newUri.fsPath });
+      continue;
+    }
+    if (!isPathInside(notesDir, oldUri.fsPath) || !isPathInside(notesDir, newUri.fsPath)) {
+      continue;
+    }
+    for (const note of await collectNoteFiles(newUri.fsPath)) {
+      renames.push({
+        oldPath: path.join(oldUri.fsPath, note.relativePath),
+        newPath: note.filePath,
+      });
+    }
+  }
+  return renames;
+}
+
+/**
+ * `renames` without the ones `renameNoteWithLinks` already updated the links of. Called for
+ * every `workspace.onDidRenameFiles` event, so those renames are forgotten either way.
+ */
+export function skipRenamesWithLinkEdits<T extends { oldPath: string }>(
+  renames: ReadonlyArray<T>,
+): T[] {
+  return renames.filter(({ oldPath }) => !renamesWithLinkEdits.delete(oldPath));
+}
+
+/** `workspace.onDidRenameFiles`: offers to update the links to notes renamed or moved elsewhere. */
+export async function updateWikiLinksAfterRename(
+  renames: ReadonlyArray<{ oldPath: string; newPath: string }>,
+  notesDir: string,
+): Promise<void> {
+  const workspaceEdit = new vscode.WorkspaceEdit();
+  for (const { oldPath, newPath } of renames) {
+    if (!isPathInside(notesDir, oldPath) || !isPathInside(notesDir, newPath)) {
+      continue;
+    }
+    addWikiLinkRenameEdits(
+      workspaceEdit,
+      await collectWikiLinkRenameEdits(oldPath, newPath, notesDir),
+      newPath,
+    );
+  }
+
+  if (workspaceEdit.size > 0) {
+    await vscode.workspace.applyEdit(workspaceEdit);
+  }
+}
+
+type BacklinkTreeItemKind = "file" | "line" | "mentions" | "mentionFile" | "mention";
 
 class BacklinkTreeItem extends vscode.TreeItem {
   readonly kind: BacklinkTreeItemKind;
   readonly sourceFile: string;
   readonly lineNumber: number | undefined;
   readonly fileBacklinks: BacklinkItem[] | undefined;
+  readonly fileMentions: UnlinkedMention[] | undefined;
+  readonly mention: UnlinkedMention | undefined;
+  /** The note whose backlinks are shown, for the mention items. */
+  readonly targetFile: string | undefined;
 
   constructor(opts: {
     label: string;
@@ -262,34 +1201,49 @@ class BacklinkTreeItem extends vscode.TreeItem {
     sourceFile: string;
     lineNumber?: number;
     fileBacklinks?: BacklinkItem[];
+    fileMentions?: UnlinkedMention[];
+    mention?: UnlinkedMention;
+    targetFile?: string;
     description?: string;
   }) {
     super(
       opts.label,
-      opts.kind === "file"
-        ? vscode.TreeItemCollapsibleState.Collapsed
-        : vscode.TreeItemCollapsibleState.None,
+      opts.kind === "line" || opts.kind === "mention"
+        ? vscode.TreeItemCollapsibleState.None
+        : vscode.TreeItemCollapsibleState.Collapsed,
     );
     this.kind = opts.kind;
     this.sourceFile = opts.sourceFile;
     this.lineNumber = opts.lineNumber;
     this.fileBacklinks = opts.fileBacklinks;
+    this.fileMentions = opts.fileMentions;
+    this.mention = opts.mention;
+    this.targetFile = opts.targetFile;
 
     if (opts.description !== undefined) {
       this.description = opts.description;
     }
 
-    if (opts.kind === "file") {
+    if (opts.kind === "mentions") {
+      this.iconPath = new vscode.ThemeIcon("mention");
+    } else if (opts.kind === "file" || opts.kind === "mentionFile") {
       this.iconPath = new vscode.ThemeIcon("file");
     } else {
-      this.iconPath = new vscode.ThemeIcon("arrow-right");
+      this.iconPath = new vscode.ThemeIcon(
+        opts.kind === "mention" ? "debug-disconnect" : "arrow-right",
+      );
+      if (opts.kind === "mention") {
+        this.contextValue = "unlinkedMention";
+      }
       if (opts.lineNumber !== undefined) {
+        const start = opts.mention?.character ?? 0;
+        const end = opts.mention ? start + opts.mention.text.length : 0;
         this.command = {
           command: "vscode.open",
           title: "Open",
           arguments: [
             vscode.Uri.file(opts.sourceFile),
-            { selection: new vscode.Range(opts.lineNumber, 0, opts.lineNumber, 0) },
+            { selection: new vscode.Range(opts.lineNumber, start, opts.lineNumber, end) },
           ],
         };
       }
@@ -330,7 +1284,7 @@ export class BacklinksProvider implements vscode.TreeDataProvider<BacklinkTreeIt
 
       const backlinks = await collectBacklinks(currentFile, notesDir);
 
-      return [...backlinks.entries()].map(([file, items]) => {
+      const items = [...backlinks.entries()].map(([file, items]) => {
         const title = stripDatePrefixTitle(path.basename(file, ".md"));
         return new BacklinkTreeItem({
           label: title,
@@ -340,6 +1294,16 @@ export class BacklinksProvider implements vscode.TreeDataProvider<BacklinkTreeIt
           description: `${items.length} link${items.length === 1 ? "" : "s"}`,
         });
       });
+      // Mentions are searched only once the group is expanded.
+      items.push(
+        new BacklinkTreeItem({
+          label: t("unlinkedMentions"),
+          kind: "mentions",
+          sourceFile: currentFile,
+          targetFile: currentFile,
+        }),
+      );
+      return items;
     }
 
     if (element.kind === "file" && element.fileBacklinks) {
@@ -349,6 +1313,35 @@ export class BacklinksProvider implements vscode.TreeDataProvider<BacklinkTreeIt
           kind: "line",
           sourceFile: element.sourceFile,
           lineNumber: item.lineNumber,
+          description: item.section,
+        });
+      });
+    }
+
+    if (element.kind === "mentions") {
+      const mentions = await collectUnlinkedMentions(element.sourceFile, notesDir);
+      return [...mentions.entries()].map(([file, items]) => {
+        return new BacklinkTreeItem({
+          label: stripDatePrefixTitle(path.basename(file, ".md")),
+          kind: "mentionFile",
+          sourceFile: file,
+          fileMentions: items,
+          targetFile: element.targetFile,
+          description: t("unlinkedMentionCount", { count: items.length }),
+        });
+      });
+    }
+
+    if (element.kind === "mentionFile" && element.fileMentions) {
+      return element.fileMentions.map((mention) => {
+        return new BacklinkTreeItem({
+          label: `Line ${mention.lineNumber + 1}: ${mention.lineText.trim()}`,
+          kind: "mention",
+          sourceFile: element.sourceFile,
+          lineNumber: mention.lineNumber,
+          mention,
+          targetFile: element.targetFile,
+          description: mention.text,
         });
       });
     }
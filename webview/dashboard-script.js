@@ -210,6 +210,23 @@
 
     const migratedCandidates = migrateLegacyCandidateState(savedState);
 
+    // Collapsed parents are kept by file and fingerprint (`path@fingerprint`), which survive
+    // the line shifts that change a task id.
+    function getTaskCollapseKey(taskId) {
+      return String(taskId).replace(/:\d+(?=@[^@:]+$)/, "");
+    }
+
+    function listPresentCollapsedKeys(collapsedKeys, tasks) {
+      const keys = new Set(
+        (tasks || []).map(function (task) {
+          return getTaskCollapseKey(task.id);
+        }),
+      );
+      return collapsedKeys.filter(function (key) {
+        return keys.has(key);
+      });
+    }
+
     const state = {
       filter: savedState.filter === "focus" ? "attention" : (savedState.filter || "all"),
       search: savedState.search || "",
@@ -229,8 +246,54 @@
       candidateBlockError: savedState.candidateBlockError || "",
       selectedModel: savedState.selectedModel || "",
       advancedPanelOpen: savedState.advancedPanelOpen || false,
+      collapsedTaskIds: listPresentCollapsedKeys(
+        Array.isArray(savedState.collapsedTaskIds) ? savedState.collapsedTaskIds.map(getTaskCollapseKey) : [],
+        dashboardData.tasks,
+      ),
+      layout: ["board", "calendar", "moments"].includes(savedState.layout) ? savedState.layout : "list",
+      boardGroup: savedState.boardGroup === "tag" ? "tag" : "section",
+      calendarMonth: /^\d{4}-\d{2}$/.test(savedState.calendarMonth || "") ? savedState.calendarMonth : dashboardData.today.slice(0, 7),
+      selecting: savedState.selecting === true,
+      // Selection is not persisted: task ids change whenever their file is edited.
+      selectedTaskIds: [],
     };
 
+    // Ranked task ids from the host search index for the current query; until they arrive
+    // the list falls back to a plain substring match.
+    let taskSearchResult = null;
+    let taskSearchTimer = null;
+
+    function requestTaskSearch() {
+      if (taskSearchTimer) {
+        clearTimeout(taskSearchTimer);
+      }
+      if (!String(state.search || "").trim()) {
+        taskSearchResult = null;
+        return;
+      }
+      taskSearchTimer = setTimeout(function () {
+        taskSearchTimer = null;
+        vscode.postMessage({ command: "searchTasks", query: state.search });
+      }, 150);
+    }
+
+    function getTaskSearchRanks(query) {
+      return taskSearchResult && taskSearchResult.query === query ? taskSearchResult.ranks : null;
+    }
+
+    // Query filters (`tag:#work`, `due<+7d`, `-done`, …) are evaluated by the host; the
+    // substring fallback only looks at the plain words.
+    const QUERY_FILTER_TOKEN_RE = /^(-\S|done$|open$|(tag|path|is|due|date|priority|category)(:|<|>|=))/i;
+
+    function getPlainSearchText(query) {
+      return String(query || "")
+        .split(/\s+/)
+        .filter(function (word) {
+          return word && !QUERY_FILTER_TOKEN_RE.test(word);
+        })
+        .join(" ");
+    }
+
     function pad2(n) {
       return String(n).padStart(2, "0");
     }
@@ -245,6 +308,18 @@
       return localDateString(d);
     }
 
+    function shiftDateString(date, days) {
+      const d = new Date(date + "T00:00:00");
+      d.setDate(d.getDate() + days);
+      return localDateString(d);
+    }
+
+    function shiftMonthString(month, months) {
+      const d = new Date(month + "-01T00:00:00");
+      d.setMonth(d.getMonth() + months);
+      return localDateString(d).slice(0, 7);
+    }
+
     const simplifiedSectionOrder = ["today", "planned", "unsorted", "done"];
     const simplifiedSectionTitles = {
       today: UI('sectionToday'),
@@ -259,6 +334,17 @@
       done: UI('sectionDoneDesc'),
     };
 
+    // Board columns by date section. Overdue only receives cards from the classification, so
+    // it is not a drop target.
+    const boardSectionColumns = [
+      { key: "overdue", title: UI('boardOverdue'), sections: ["overdue"], droppable: false },
+      { key: "today", title: UI('boardToday'), sections: ["today"], droppable: true },
+      { key: "upcoming", title: UI('boardUpcoming'), sections: ["upcoming"], droppable: true },
+      { key: "scheduled", title: UI('boardScheduled'), sections: ["scheduled"], droppable: true },
+      { key: "backlog", title: UI('boardBacklog'), sections: ["backlog", "unsorted"], droppable: true },
+      { key: "done", title: UI('boardDone'), sections: ["done"], droppable: true },
+    ];
+
     const filterDefinitions = [
       { id: "all", label: UI('filterAll'), count: dashboardData.tasks.length },
       { id: "today", label: UI('filterToday'), count: dashboardData.sectionCounts.overdue + dashboardData.sectionCounts.today },
@@ -268,6 +354,10 @@
 
     const taskSearchInput = document.getElementById("task-search");
     const filterRow = document.getElementById("filter-row");
+    const viewTabs = document.getElementById("view-tabs");
+    const layoutSwitch = document.getElementById("layout-switch");
+    const bulkBar = document.getElementById("bulk-bar");
+    const undoToast = document.getElementById("undo-toast");
     const taskList = document.getElementById("dashboard-main-list");
     const newTaskText = document.getElementById("new-task-text");
     const aiStatus = document.getElementById("ai-status");
@@ -298,6 +388,11 @@
         candidateBlockError: state.candidateBlockError,
         selectedModel: state.selectedModel,
         advancedPanelOpen: state.advancedPanelOpen,
+        collapsedTaskIds: state.collapsedTaskIds,
+        layout: state.layout,
+        boardGroup: state.boardGroup,
+        calendarMonth: state.calendarMonth,
+        selecting: state.selecting,
       });
     }
 
@@ -389,7 +484,16 @@
     }
 
     function matchesDashboardListItemSearch(item, query) {
-      const normalizedQuery = String(query || "").trim().toLowerCase();
+      if (!String(query || "").trim()) {
+        return true;
+      }
+
+      const ranks = item.kind === "task" ? getTaskSearchRanks(query) : null;
+      if (ranks) {
+        return ranks.has(item.id);
+      }
+
+      const normalizedQuery = getPlainSearchText(query).trim().toLowerCase();
       if (!normalizedQuery) {
         return true;
       }
@@ -485,9 +589,14 @@
         };
       }
 
+      const ranks = getTaskSearchRanks(search);
       return {
         sections: [],
-        flatItems: visibleItems,
+        flatItems: ranks
+          ? visibleItems.slice().sort(function (a, b) {
+              return (ranks.has(a.id) ? ranks.get(a.id) : Infinity) - (ranks.has(b.id) ? ranks.get(b.id) : Infinity);
+            })
+          : visibleItems,
         emptyMessage: null,
       };
     }
@@ -541,7 +650,94 @@
       return buildDashboardListViewModel(listItems, state.filter, state.search);
     }
 
+    function renderLayoutSwitch() {
+      if (!layoutSwitch) {
+        return;
+      }
+
+      const isBoard = state.layout === "board";
+      const layouts = [
+        { id: "list", label: UI('layoutList') },
+        { id: "board", label: UI('layoutBoard') },
+        { id: "calendar", label: UI('layoutCalendar') },
+        { id: "moments", label: UI('layoutMoments') },
+      ];
+      layoutSwitch.innerHTML =
+        layouts
+          .map(function (layout) {
+            return '<button type="button" class="filter-chip' + (layout.id === state.layout ? " is-active" : "") + '" data-layout="' + layout.id + '">' + esc(layout.label) + '</button>';
+          })
+          .join("") +
+        (state.layout === "list"
+          ? '<button type="button" class="filter-chip select-toggle' + (state.selecting ? " is-active" : "") + '" data-action="toggle-select" aria-pressed="' + state.selecting + '" title="' + esc(UI('selectTasksTitle')) + '">' + esc(UI('selectTasks')) + '</button>'
+          : "") +
+        (isBoard
+          ? '<select class="board-group-select" data-role="board-group" aria-label="' + esc(UI('boardGroupLabel')) + '">' +
+              '<option value="section"' + (state.boardGroup === "section" ? " selected" : "") + '>' + esc(UI('boardGroupBySection')) + '</option>' +
+              '<option value="tag"' + (state.boardGroup === "tag" ? " selected" : "") + '>' + esc(UI('boardGroupByTag')) + '</option>' +
+            '</select>'
+          : "");
+    }
+
+    function renderBulkBar() {
+      if (!bulkBar) {
+        return;
+      }
+
+      bulkBar.hidden = !state.selecting || state.layout !== "list";
+      if (bulkBar.hidden) {
+        bulkBar.innerHTML = "";
+        return;
+      }
+
+      const count = state.selectedTaskIds.length;
+      const disabled = count === 0 ? " disabled" : "";
+      const actions = [
+        { id: "complete", label: UI('bulkComplete') },
+        { id: "today", label: UI('bulkToday') },
+        { id: "tomorrow", label: UI('bulkTomorrow') },
+        { id: "next-week", label: UI('bulkNextWeek') },
+      ];
+      const promptActions = [
+        { id: "addTag", label: UI('bulkAddTag') },
+        { id: "removeTag", label: UI('bulkRemoveTag') },
+        { id: "move", label: UI('bulkMove') },
+      ];
+      const renderAction = function (action) {
+        return '<button type="button" class="btn" data-bulk="' + action.id + '"' + disabled + '>' + esc(action.label) + '</button>';
+      };
+      bulkBar.innerHTML =
+        '<span class="bulk-count">' + esc(UI('bulkSelected', { count: count })) + '</span>' +
+        actions.map(renderAction).join("") +
+        '<input type="date" class="bulk-date" data-role="bulk-date" title="' + esc(UI('bulkPickDate')) + '" aria-label="' + esc(UI('bulkPickDate')) + '"' + disabled + '>' +
+        promptActions.map(renderAction).join("") +
+        '<button type="button" class="btn btn-danger" data-bulk="delete"' + disabled + '>' + esc(UI('bulkDelete')) + '</button>' +
+        '<button type="button" class="btn btn-text" data-bulk="clear"' + disabled + '>' + esc(UI('bulkClear')) + '</button>';
+    }
+
+    function sendBulkAction(action, dueDate) {
+      if (state.selectedTaskIds.length === 0) {
+        return;
+      }
+
+      vscode.postMessage({
+        command: "bulkTasks",
+        taskIds: state.selectedTaskIds.slice(),
+        action: action,
+        dueDate: dueDate || null,
+      });
+      // Tag, move and delete ask on the host first and may be cancelled, so their selection
+      // is kept until the refreshed data drops the ids that changed.
+      if (action === "complete" || action === "reschedule") {
+        state.selectedTaskIds = [];
+        rerender();
+      }
+    }
+
     function renderFilters() {
+      // Board columns and calendar days already split tasks by date, so the section chips only
+      // apply to the list.
+      filterRow.hidden = state.layout !== "list";
       filterDefinitions[0].count = dashboardData.tasks.length + getVisibleCandidates().length;
       filterDefinitions[1].count = dashboardData.sectionCounts.overdue + dashboardData.sectionCounts.today;
       filterDefinitions[2].count = dashboardData.sectionCounts.upcoming + dashboardData.sectionCounts.scheduled;
@@ -557,6 +753,37 @@
         .join("");
     }
 
+    function renderViewTabs() {
+      if (!viewTabs) {
+        return;
+      }
+
+      const query = String(state.search || "").trim();
+      const views = dashboardData.savedViews || [];
+      const tabs = views.map(function (view) {
+        const isActive = view.query === query;
+        return '<span class="filter-chip view-tab' + (isActive ? " is-active" : "") + '" role="tab" aria-selected="' + isActive + '">' +
+          '<button type="button" class="view-tab-open" data-action="open-view" data-view-query="' + esc(view.query) + '" title="' + esc(view.query) + '">' + esc(view.name) + '</button>' +
+          '<button type="button" class="view-tab-remove" data-action="delete-view" data-view-name="' + esc(view.name) + '" title="' + esc(UI('removeView')) + '" aria-label="' + esc(UI('removeView')) + '">×</button>' +
+        '</span>';
+      });
+      const isSaved = views.some(function (view) {
+        return view.query === query;
+      });
+      if (query && !isSaved) {
+        tabs.push('<button type="button" class="filter-chip view-tab-save" data-action="save-view" title="' + esc(UI('saveViewTitle')) + '">＋ ' + esc(UI('saveView')) + '</button>');
+      }
+      viewTabs.innerHTML = tabs.join("");
+    }
+
+    function applyViewQuery(query) {
+      state.search = query;
+      state.filter = "all";
+      taskSearchInput.value = query;
+      requestTaskSearch();
+      rerender();
+    }
+
     function renderTaskMeta(task) {
       const badges = [];
       if (task.date) {
@@ -566,6 +793,14 @@
         const dueClass = task.section === "overdue" ? " is-danger" : task.section === "today" ? " is-warning" : " is-accent";
         badges.push('<span class="badge task-row-meta-item task-row-meta-due' + dueClass + '">' + UI('due') + ' ' + esc(formatDateLabel(task.dueDate)) + "</span>");
       }
+      if (task.subtaskProgress) {
+        const progressClass = task.subtaskProgress.done === task.subtaskProgress.total ? " is-accent" : "";
+        badges.push('<span class="badge task-row-meta-item task-row-meta-subtasks' + progressClass + '" title="' + esc(UI('subtasks')) + '">☑ ' + task.subtaskProgress.done + "/" + task.subtaskProgress.total + "</span>");
+      }
+      if (task.recurrence) {
+        const rule = task.recurrence.rule.replace(/^(?:🔁\s*|repeat:)/i, "");
+        badges.push('<span class="badge task-row-meta-item task-row-meta-recurrence" title="' + esc(UI('repeats')) + '">🔁 ' + esc(rule) + "</span>");
+      }
       if (task.category) {
         badges.push('<span class="badge task-row-meta-item task-row-meta-category">' + esc(task.category) + "</span>");
       }
@@ -607,7 +842,16 @@
       return icons[action] || "";
     }
 
-    function renderTaskItem(task) {
+    function renderSubtaskToggle(task, subtaskCount) {
+      if (!subtaskCount) {
+        return "";
+      }
+      const collapsed = state.collapsedTaskIds.includes(getTaskCollapseKey(task.id));
+      const label = collapsed ? UI('expandSubtasks') : UI('collapseSubtasks');
+      return '<button type="button" class="task-row-subtask-toggle" data-action="toggle-subtasks" data-task-id="' + esc(task.id) + '" title="' + label + '" aria-label="' + label + '" aria-expanded="' + (collapsed ? "false" : "true") + '">' + (collapsed ? "▸" : "▾") + "</button>";
+    }
+
+    function renderTaskItem(task, subtaskCount) {
       const itemClasses = [
         "task-row",
         "task-row-saved",
@@ -647,11 +891,15 @@
         "</article>";
       }
 
-      return '<article class="' + itemClasses + '" data-task-id="' + esc(task.id) + '" tabindex="-1">' +
+      const selectEntry = state.selecting
+        ? '<label class="task-row-select-entry" title="' + esc(UI('selectTask')) + '"><input class="task-row-select" type="checkbox" data-action="select" data-task-id="' + esc(task.id) + '" aria-label="' + esc(UI('selectTask')) + '"' + (state.selectedTaskIds.includes(task.id) ? " checked" : "") + "></label>"
+        : "";
+      return '<article class="' + itemClasses + (state.selectedTaskIds.includes(task.id) ? " is-selected" : "") + '" data-task-id="' + esc(task.id) + '" tabindex="-1">' +
+        selectEntry +
         '<label class="task-row-toggle-entry"><input class="task-row-toggle" type="checkbox" data-action="toggle" data-task-id="' + esc(task.id) + '"' + (task.done ? " checked" : "") + "></label>" +
         '<div class="task-row-body">' +
           '<div class="task-row-main">' +
-            '<div class="task-row-title-entry"><button type="button" class="task-row-title" data-action="open" data-file="' + esc(task.filePath) + '" data-line="' + task.lineIndex + '">' + esc(task.text) + "</button></div>" +
+            '<div class="task-row-title-entry">' + renderSubtaskToggle(task, subtaskCount) + '<button type="button" class="task-row-title" data-action="open" data-file="' + esc(task.filePath) + '" data-line="' + task.lineIndex + '">' + esc(task.text) + "</button></div>" +
             '<div class="task-row-secondary-actions">' +
               '<button type="button" class="task-row-action-icon" data-action="edit" data-task-id="' + esc(task.id) + '" title="' + UI('edit') + '" aria-label="' + UI('edit') + '">' + renderTaskActionIcon("edit") + '</button>' +
               '<button type="button" class="task-row-action-icon" data-action="open" data-file="' + esc(task.filePath) + '" data-line="' + task.lineIndex + '" title="' + UI('open') + '" aria-label="' + UI('open') + '">' + renderTaskActionIcon("open") + '</button>' +
@@ -662,6 +910,7 @@
               '<div class="task-row-more-dropdown" data-more-dropdown="' + esc(task.id) + '">' +
                 '<button type="button" data-action="edit" data-task-id="' + esc(task.id) + '">' + UI('edit') + '</button>' +
                 '<button type="button" data-action="open" data-file="' + esc(task.filePath) + '" data-line="' + task.lineIndex + '">' + UI('open') + '</button>' +
+                '<button type="button" data-action="move-file" data-task-id="' + esc(task.id) + '">' + UI('moveToFile') + '</button>' +
                 '<button type="button" class="is-danger" data-action="delete" data-task-id="' + esc(task.id) + '">' + UI('delete') + '</button>' +
               "</div>" +
             "</div>" +
@@ -671,6 +920,367 @@
       "</article>";
     }
 
+    function buildBoardColumns(items) {
+      if (state.boardGroup === "tag") {
+        const openItems = items.filter(function (item) {
+          return !item.done;
+        });
+        const tags = Array.from(
+          new Set(
+            openItems.flatMap(function (item) {
+              return item.tags || [];
+            }),
+          ),
+        ).sort();
+        const columns = tags.map(function (tag) {
+          return {
+            key: "tag:" + tag,
+            title: tag,
+            droppable: false,
+            items: openItems.filter(function (item) {
+              return (item.tags || []).includes(tag);
+            }),
+          };
+        });
+        columns.push({
+          key: "untagged",
+          title: UI('boardNoTag'),
+          droppable: false,
+          items: openItems.filter(function (item) {
+            return !(item.tags || []).length;
+          }),
+        });
+        columns.push({
+          key: "done",
+          title: UI('boardDone'),
+          droppable: true,
+          items: items.filter(function (item) {
+            return item.done;
+          }),
+        });
+        return columns;
+      }
+
+      return boardSectionColumns.map(function (column) {
+        return {
+          key: column.key,
+          title: column.title,
+          droppable: column.droppable,
+          items: items.filter(function (item) {
+            return column.sections.includes(item.section);
+          }),
+        };
+      });
+    }
+
+    /**
+     * What dropping a card on a board column changes: a new due date for date columns (a done
+     * task is reopened on the way), or completion for Done. Null when nothing would change.
+     */
+    function getBoardDropChange(task, columnKey) {
+      if (columnKey === "done") {
+        return task.done ? null : { done: true };
+      }
+
+      const dueDates = {
+        today: dashboardData.today,
+        upcoming: shiftDateString(dashboardData.today, 1),
+        scheduled: shiftDateString(dashboardData.today, 8),
+        backlog: null,
+      };
+      if (!Object.prototype.hasOwnProperty.call(dueDates, columnKey)) {
+        return null;
+      }
+      if (!task.done && (task.section === columnKey || (columnKey === "backlog" && !task.dueDate))) {
+        return null;
+      }
+
+      const change = { dueDate: dueDates[columnKey] };
+      if (task.done) {
+        change.done = false;
+      }
+      return change;
+    }
+
+    function renderBoardCard(task) {
+      const itemClasses = [
+        "task-row",
+        "task-row-saved",
+        "board-card",
+        task.done ? "is-done" : "",
+        task.section === "overdue" ? "is-overdue" : "",
+        task.section === "today" ? "is-today" : "",
+      ]
+        .filter(Boolean)
+        .join(" ");
+
+      return '<article class="' + itemClasses + '" draggable="true" data-task-id="' + esc(task.id) + '">' +
+        '<label class="task-row-toggle-entry"><input class="task-row-toggle" type="checkbox" data-action="toggle" data-task-id="' + esc(task.id) + '"' + (task.done ? " checked" : "") + "></label>" +
+        '<div class="task-row-body">' +
+          '<button type="button" class="task-row-title" data-action="open" data-file="' + esc(task.filePath) + '" data-line="' + task.lineIndex + '">' + esc(task.text) + "</button>" +
+          renderTaskMeta(task) +
+        "</div>" +
+      "</article>";
+    }
+
+    function renderBoard() {
+      const items = (dashboardData.tasks || []).filter(function (item) {
+        return item.kind === "task" && matchesDashboardListItemSearch(item, state.search);
+      });
+
+      return '<div class="task-board">' +
+        buildBoardColumns(items)
+          .map(function (column) {
+            return '<section class="board-column" data-board-column="' + esc(column.key) + '"' + (column.droppable ? ' data-droppable="true"' : "") + '>' +
+              '<div class="task-section-header">' +
+                "<h3>" + esc(column.title) + "</h3>" +
+                "<span>" + column.items.length + "</span>" +
+              "</div>" +
+              '<div class="board-column-items">' + column.items.map(renderBoardCard).join("") + "</div>" +
+            "</section>";
+          })
+          .join("") +
+      "</div>";
+    }
+
+    /** A task dropped on a calendar day gets that day as its due date. */
+    function getCalendarDropChange(task, date) {
+      return task.dueDate === date ? null : { dueDate: date };
+    }
+
+    function renderCalendarTask(task) {
+      const classes = ["calendar-task", task.done ? "is-done" : "", task.section === "overdue" ? "is-overdue" : ""]
+        .filter(Boolean)
+        .join(" ");
+      return '<div class="' + classes + '" role="button" tabindex="0" draggable="true" data-task-id="' + esc(task.id) + '" data-action="open" data-file="' + esc(task.filePath) + '" data-line="' + task.lineIndex + '" title="' + esc(task.text) + '">' + esc(task.text) + "</div>";
+    }
+
+    function renderCalendar() {
+      const month = state.calendarMonth;
+      const firstDay = new Date(month + "-01T00:00:00");
+      const daysInMonth = new Date(firstDay.getFullYear(), firstDay.getMonth() + 1, 0).getDate();
+      const leadingDays = firstDay.getDay();
+      const weekCount = Math.ceil((leadingDays + daysInMonth) / 7);
+      const gridStart = shiftDateString(month + "-01", -leadingDays);
+
+      const tasksByDate = new Map();
+      (dashboardData.tasks || []).forEach(function (item) {
+        if (item.kind !== "task" || !item.effectiveDate || !matchesDashboardListItemSearch(item, state.search)) {
+          return;
+        }
+        const dayTasks = tasksByDate.get(item.effectiveDate) || [];
+        dayTasks.push(item);
+        tasksByDate.set(item.effectiveDate, dayTasks);
+      });
+      const calendarMarks = dashboardData.calendar || { dailyNotes: [], moments: [] };
+      const dailyNoteDates = new Set(calendarMarks.dailyNotes);
+      const momentsDates = new Set(calendarMarks.moments);
+
+      const weekdayLabels = [];
+      for (let i = 0; i < 7; i++) {
+        // 2026-01-04 is a Sunday.
+        weekdayLabels.push(new Date(2026, 0, 4 + i).toLocaleDateString(currentLocale, { weekday: "short" }));
+      }
+
+      const cells = [];
+      for (let i = 0; i < weekCount * 7; i++) {
+        const date = shiftDateString(gridStart, i);
+        const dayTasks = tasksByDate.get(date) || [];
+        const classes = [
+          "calendar-day",
+          date.slice(0, 7) !== month ? "is-outside" : "",
+          date === dashboardData.today ? "is-today" : "",
+        ]
+          .filter(Boolean)
+          .join(" ");
+        const markers =
+          (dailyNoteDates.has(date) ? '<span class="calendar-marker" title="' + esc(UI('calendarDailyNote')) + '">📝</span>' : "") +
+          (momentsDates.has(date) ? '<span class="calendar-marker" title="' + esc(UI('calendarMoments')) + '">💬</span>' : "");
+        const visibleTasks = dayTasks.slice(0, 3).map(renderCalendarTask).join("");
+        const moreTasks = dayTasks.length > 3
+          ? '<span class="calendar-more">' + esc(UI('calendarMore', { count: dayTasks.length - 3 })) + "</span>"
+          : "";
+        cells.push(
+          '<div class="' + classes + '" data-droppable="true" data-calendar-date="' + date + '" data-action="open-day" data-date="' + date + '" title="' + esc(UI('calendarOpenDay')) + '">' +
+            '<div class="calendar-day-header"><span class="calendar-day-number">' + Number(date.slice(8)) + "</span>" + markers + "</div>" +
+            visibleTasks +
+            moreTasks +
+          "</div>",
+        );
+      }
+
+      const monthLabel = firstDay.toLocaleDateString(currentLocale, { year: "numeric", month: "long" });
+      return '<div class="task-calendar">' +
+        '<div class="calendar-toolbar">' +
+          '<button type="button" class="btn btn-text" data-action="calendar-month" data-months="-1" title="' + esc(UI('calendarPrevMonth')) + '" aria-label="' + esc(UI('calendarPrevMonth')) + '">‹</button>' +
+          '<h3 class="calendar-month-label">' + esc(monthLabel) + "</h3>" +
+          '<button type="button" class="btn btn-text" data-action="calendar-month" data-months="1" title="' + esc(UI('calendarNextMonth')) + '" aria-label="' + esc(UI('calendarNextMonth')) + '">›</button>' +
+          '<button type="button" class="btn" data-action="calendar-month" data-months="0">' + esc(UI('calendarThisMonth')) + "</button>" +
+        "</div>" +
+        '<div class="calendar-grid">' +
+          weekdayLabels
+            .map(function (label) {
+              return '<div class="calendar-weekday">' + esc(label) + "</div>";
+            })
+            .join("") +
+          cells.join("") +
+        "</div>" +
+      "</div>";
+    }
+
+    /** Heat level 0-4 of a day, relative to the busiest day of the year. */
+    function getHeatLevel(count, max) {
+      return count > 0 ? Math.max(1, Math.ceil((count / max) * 4)) : 0;
+    }
+
+    function renderMomentsHeatmap(stats) {
+      const counts = stats.days || {};
+      const max = Math.max(1, ...Object.values(counts));
+      // 53 week columns ending with the week of today, Sunday first.
+      const lastDay = new Date(stats.today + "T00:00:00");
+      const gridStart = shiftDateString(stats.today, -(52 * 7 + lastDay.getDay()));
+      const cells = [];
+      for (let i = 0; i < 53 * 7; i++) {
+        const date = shiftDateString(gridStart, i);
+        if (date > stats.today) {
+          cells.push('<span class="heatmap-cell is-future"></span>');
+          continue;
+        }
+        const count = counts[date] || 0;
+        const label = esc(UI('momentsStatsDayPosts', { date: date, count: count }));
+        cells.push(
+          count > 0
+            ? '<span class="heatmap-cell heat-' + getHeatLevel(count, max) + '" role="button" tabindex="0" data-action="open-moments-day" data-date="' + date + '" title="' + label + '" aria-label="' + label + '"></span>'
+            : '<span class="heatmap-cell heat-0" title="' + label + '"></span>',
+        );
+      }
+      return '<div class="moments-heatmap">' + cells.join("") + "</div>";
+    }
+
+    function renderMomentsHours(stats) {
+      const max = Math.max(1, ...stats.hours);
+      return '<div class="moments-hours">' +
+        stats.hours
+          .map(function (count, hour) {
+            const label = esc(UI('momentsStatsHourPosts', { hour: String(hour).padStart(2, "0"), count: count }));
+            return '<div class="hour-column" title="' + label + '">' +
+              '<span class="hour-bar" data-ratio="' + (count / max).toFixed(2) + '"></span>' +
+              '<span class="hour-label">' + (hour % 6 === 0 ? hour : "") + "</span>" +
+            "</div>";
+          })
+          .join("") +
+      "</div>";
+    }
+
+    function renderMomentsTags(stats) {
+      if (stats.topTags.length === 0) {
+        return '<p class="empty-state-body">' + esc(UI('momentsStatsNoTags')) + "</p>";
+      }
+      const max = Math.max(1, ...stats.topTags.map(function (tag) {
+        return Math.max(...tag.months);
+      }));
+      const monthLabels = stats.months.map(function (month) {
+        return new Date(month + "-01T00:00:00").toLocaleDateString(currentLocale, { month: "short" });
+      });
+      return '<table class="moments-tags">' +
+        "<thead><tr><th></th>" +
+          monthLabels
+            .map(function (label) {
+              return "<th>" + esc(label) + "</th>";
+            })
+            .join("") +
+          "<th>" + esc(UI('momentsStatsTotal')) + "</th></tr></thead>" +
+        "<tbody>" +
+          stats.topTags
+            .map(function (tag) {
+              return "<tr><th>" + esc(tag.tag) + "</th>" +
+                tag.months
+                  .map(function (count, index) {
+                    return '<td title="' + esc(monthLabels[index] + ": " + count) + '"><span class="tag-month heat-' + getHeatLevel(count, max) + '">' + (count || "") + "</span></td>";
+                  })
+                  .join("") +
+                "<td>" + tag.total + "</td></tr>";
+            })
+            .join("") +
+        "</tbody>" +
+      "</table>";
+    }
+
+    function renderMomentsStats() {
+      const stats = dashboardData.momentsStats;
+      if (!stats || stats.totalPosts === 0) {
+        return renderEmptyState(UI('momentsStatsEmpty'));
+      }
+
+      const figures = [
+        { label: UI('momentsStatsPosts'), value: stats.totalPosts },
+        { label: UI('momentsStatsActiveDays'), value: stats.activeDays },
+        { label: UI('momentsStatsCurrentStreak'), value: UI('momentsStatsDays', { count: stats.currentStreak }) },
+        { label: UI('momentsStatsLongestStreak'), value: UI('momentsStatsDays', { count: stats.longestStreak }) },
+      ];
+      return '<div class="moments-stats">' +
+        '<div class="moments-stats-figures">' +
+          figures
+            .map(function (figure) {
+              return '<div class="moments-stats-figure"><strong>' + esc(figure.value) + "</strong><span>" + esc(figure.label) + "</span></div>";
+            })
+            .join("") +
+        "</div>" +
+        '<h3 class="moments-stats-heading">' + esc(UI('momentsStatsHeatmap')) + "</h3>" +
+        renderMomentsHeatmap(stats) +
+        '<h3 class="moments-stats-heading">' + esc(UI('momentsStatsHours')) + "</h3>" +
+        renderMomentsHours(stats) +
+        '<h3 class="moments-stats-heading">' + esc(UI('momentsStatsTags')) + "</h3>" +
+        renderMomentsTags(stats) +
+      "</div>";
+    }
+
+    /**
+     * Splits list items into top-level items and subtasks grouped by parent id. A subtask
+     * whose parent is not in the same list (another section, filtered out) stays top-level.
+     */
+    function groupSubtaskItems(items) {
+      const taskIds = new Set(
+        items
+          .filter(function (item) {
+            return item.kind === "task";
+          })
+          .map(function (item) {
+            return item.id;
+          }),
+      );
+      const roots = [];
+      const subtasksByParent = {};
+      items.forEach(function (item) {
+        if (item.kind === "task" && item.parentId && taskIds.has(item.parentId)) {
+          (subtasksByParent[item.parentId] = subtasksByParent[item.parentId] || []).push(item);
+        } else {
+          roots.push(item);
+        }
+      });
+      return { roots: roots, subtasksByParent: subtasksByParent };
+    }
+
+    function renderTaskTree(task, subtasksByParent) {
+      const subtasks = subtasksByParent[task.id] || [];
+      const row = renderTaskItem(task, subtasks.length);
+      if (subtasks.length === 0) {
+        return row;
+      }
+      if (state.collapsedTaskIds.includes(getTaskCollapseKey(task.id))) {
+        return '<div class="task-tree is-collapsed">' + row + "</div>";
+      }
+      return '<div class="task-tree">' + row +
+        '<div class="task-subtasks">' +
+          subtasks
+            .map(function (subtask) {
+              return renderTaskTree(subtask, subtasksByParent);
+            })
+            .join("") +
+        "</div>" +
+      "</div>";
+    }
+
     function renderCandidateItem(task, index) {
       const canAdd = canAddDashboardCandidate(task, getExistingTaskKeys());
       const itemClasses = ["task-row", "task-row-candidate", task.existsAlready ? "is-candidate-blocked" : ""]
@@ -771,6 +1381,23 @@
     }
 
     function renderTasks() {
+      if (state.layout === "board") {
+        taskList.innerHTML = renderBoard();
+        return;
+      }
+      if (state.layout === "calendar") {
+        taskList.innerHTML = renderCalendar();
+        return;
+      }
+      if (state.layout === "moments") {
+        taskList.innerHTML = renderMomentsStats();
+        // Bar heights go through the CSSOM; the CSP does not allow inline style attributes.
+        taskList.querySelectorAll(".hour-bar").forEach(function (bar) {
+          bar.style.height = "calc((100% - 14px) * " + bar.dataset.ratio + ")";
+        });
+        return;
+      }
+
       const viewModel = getListViewModel();
       if (viewModel.emptyMessage) {
         taskList.innerHTML = renderEmptyState(viewModel.emptyMessage);
@@ -779,7 +1406,8 @@
 
       const visibleCandidates = getVisibleCandidates();
       if (viewModel.flatItems && viewModel.flatItems.length > 0) {
-        taskList.innerHTML = viewModel.flatItems
+        const flatTree = groupSubtaskItems(viewModel.flatItems);
+        taskList.innerHTML = flatTree.roots
           .map(function (item) {
             if (item.kind === "candidate") {
               const index = visibleCandidates.findIndex(function (candidate) {
@@ -787,7 +1415,7 @@
               });
               return renderCandidateItem(item, index);
             }
-            return renderTaskItem(item);
+            return renderTaskTree(item, flatTree.subtasksByParent);
           })
           .join("");
         return;
@@ -798,7 +1426,8 @@
           const subtitle = state.filter === "all"
             ? simplifiedSectionDescriptions[section.key]
             : UI('filteredItems');
-          const items = section.items
+          const sectionTree = groupSubtaskItems(section.items);
+          const items = sectionTree.roots
             .map(function (item) {
               if (item.kind === "candidate") {
                 const index = visibleCandidates.findIndex(function (candidate) {
@@ -806,7 +1435,7 @@
                 });
                 return renderCandidateItem(item, index);
               }
-              return renderTaskItem(item);
+              return renderTaskTree(item, sectionTree.subtasksByParent);
             })
             .join("");
           return '<section class="task-section">' +
@@ -822,6 +1451,27 @@
       taskList.innerHTML = html;
     }
 
+    // Offers to undo the change just made (or redo the one just undone) for a few seconds.
+    let undoToastTimer = null;
+    function showUndoToast(event) {
+      if (!undoToast) {
+        return;
+      }
+
+      const undone = event.kind === "undo";
+      const text = undone
+        ? UI('undoneChange', { label: event.label })
+        : event.kind === "redo" ? UI('redoneChange', { label: event.label }) : event.label;
+      undoToast.innerHTML =
+        '<span>' + esc(text) + '</span>' +
+        '<button type="button" class="btn btn-text" data-journal="' + (undone ? "redoChange" : "undoChange") + '">' + esc(undone ? UI('redoBtn') : UI('undoBtn')) + '</button>';
+      undoToast.hidden = false;
+      clearTimeout(undoToastTimer);
+      undoToastTimer = setTimeout(function () {
+        undoToast.hidden = true;
+      }, 8000);
+    }
+
     function setAiStatus(type, message) {
       state.aiStatusType = type;
       state.aiStatus = message || "";
@@ -898,6 +1548,9 @@
 
     function rerender() {
       persistState();
+      renderViewTabs();
+      renderLayoutSwitch();
+      renderBulkBar();
       renderFilters();
       renderTasks();
       renderCandidateBlock();
@@ -993,6 +1646,7 @@
 
     taskSearchInput.addEventListener("input", function (event) {
       state.search = event.target.value;
+      requestTaskSearch();
       rerender();
     });
 
@@ -1067,6 +1721,23 @@
       rerender();
     });
 
+    if (viewTabs) {
+      viewTabs.addEventListener("click", function (event) {
+        const actionEl = event.target.closest("[data-action]");
+        if (!actionEl) {
+          return;
+        }
+
+        if (actionEl.dataset.action === "open-view") {
+          applyViewQuery(actionEl.dataset.viewQuery || "");
+        } else if (actionEl.dataset.action === "delete-view") {
+          vscode.postMessage({ command: "deleteView", name: actionEl.dataset.viewName || "" });
+        } else if (actionEl.dataset.action === "save-view") {
+          vscode.postMessage({ command: "saveView", query: String(state.search || "").trim() });
+        }
+      });
+    }
+
     taskList.addEventListener("click", function (event) {
       const actionEl = event.target.closest("[data-action]");
       if (!actionEl) {
@@ -1074,12 +1745,45 @@
       }
 
       const action = actionEl.dataset.action;
+      if (action === "calendar-month") {
+        const months = Number(actionEl.dataset.months || 0);
+        state.calendarMonth = months === 0 ? dashboardData.today.slice(0, 7) : shiftMonthString(state.calendarMonth, months);
+        rerender();
+        return;
+      }
+
+      if (action === "open-day") {
+        vscode.postMessage({ command: "openCalendarDay", date: actionEl.dataset.date });
+        return;
+      }
+
+      if (action === "open-moments-day") {
+        vscode.postMessage({ command: "openMomentsDay", date: actionEl.dataset.date });
+        return;
+      }
+
       if (action === "edit") {
         state.editingId = actionEl.dataset.taskId || null;
         rerender();
         return;
       }
 
+      if (action === "toggle-subtasks") {
+        const taskId = actionEl.dataset.taskId;
+        if (!taskId) {
+          return;
+        }
+        const collapseKey = getTaskCollapseKey(taskId);
+        state.collapsedTaskIds = state.collapsedTaskIds.includes(collapseKey)
+          ? state.collapsedTaskIds.filter(function (key) {
+              return key !== collapseKey;
+            })
+          : state.collapsedTaskIds.concat(collapseKey);
+        persistState();
+        rerender();
+        return;
+      }
+
       if (action === "cancel-edit") {
         state.editingId = null;
         rerender();
@@ -1117,6 +1821,16 @@
         return;
       }
 
+      if (action === "move-file") {
+        const taskId = actionEl.dataset.taskId;
+        if (!taskId) {
+          return;
+        }
+
+        vscode.postMessage({ command: "moveTaskToFile", taskId });
+        return;
+      }
+
       if (action === "open") {
         vscode.postMessage({
           command: "openFile",
@@ -1156,7 +1870,176 @@
       }
     });
 
+    if (layoutSwitch) {
+      layoutSwitch.addEventListener("click", function (event) {
+        if (event.target.closest("[data-action='toggle-select']")) {
+          state.selecting = !state.selecting;
+          state.selectedTaskIds = [];
+          rerender();
+          return;
+        }
+
+        const button = event.target.closest("[data-layout]");
+        if (!button) {
+          return;
+        }
+
+        state.layout = ["board", "calendar", "moments"].includes(button.dataset.layout) ? button.dataset.layout : "list";
+        rerender();
+      });
+
+      layoutSwitch.addEventListener("change", function (event) {
+        if (event.target.dataset.role !== "board-group") {
+          return;
+        }
+
+        state.boardGroup = event.target.value === "tag" ? "tag" : "section";
+        rerender();
+      });
+    }
+
+    if (bulkBar) {
+      bulkBar.addEventListener("click", function (event) {
+        const button = event.target.closest("[data-bulk]");
+        if (!button || button.disabled) {
+          return;
+        }
+
+        switch (button.dataset.bulk) {
+          case "clear":
+            state.selectedTaskIds = [];
+            rerender();
+            return;
+          case "today":
+            sendBulkAction("reschedule", dashboardData.today);
+            return;
+          case "tomorrow":
+            sendBulkAction("reschedule", shiftDateString(dashboardData.today, 1));
+            return;
+          case "next-week":
+            sendBulkAction("reschedule", shiftDateString(dashboardData.today, 7));
+            return;
+          default:
+            sendBulkAction(button.dataset.bulk);
+        }
+      });
+
+      bulkBar.addEventListener("change", function (event) {
+        if (event.target.dataset.role === "bulk-date" && event.target.value) {
+          sendBulkAction("reschedule", event.target.value);
+        }
+      });
+    }
+
+    if (undoToast) {
+      undoToast.addEventListener("click", function (event) {
+        const button = event.target.closest("[data-journal]");
+        if (!button) {
+          return;
+        }
+
+        undoToast.hidden = true;
+        vscode.postMessage({ command: button.dataset.journal });
+      });
+    }
+
+    let draggedTaskId = null;
+
+    function clearDropTargets() {
+      taskList.querySelectorAll(".is-drop-target").forEach(function (target) {
+        target.classList.remove("is-drop-target");
+      });
+    }
+
+    taskList.addEventListener("dragstart", function (event) {
+      const card = event.target.closest("[draggable='true'][data-task-id]");
+      if (!card) {
+        return;
+      }
+
+      draggedTaskId = card.dataset.taskId || null;
+      event.dataTransfer.effectAllowed = "move";
+      event.dataTransfer.setData("text/plain", draggedTaskId || "");
+      card.classList.add("is-dragging");
+    });
+
+    taskList.addEventListener("dragend", function (event) {
+      const card = event.target.closest("[draggable='true'][data-task-id]");
+      if (card) {
+        card.classList.remove("is-dragging");
+      }
+      draggedTaskId = null;
+      clearDropTargets();
+    });
+
+    taskList.addEventListener("dragover", function (event) {
+      const target = event.target.closest("[data-droppable]");
+      if (!target || !draggedTaskId) {
+        return;
+      }
+
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "move";
+      if (!target.classList.contains("is-drop-target")) {
+        clearDropTargets();
+        target.classList.add("is-drop-target");
+      }
+    });
+
+    taskList.addEventListener("dragleave", function (event) {
+      const target = event.target.closest("[data-droppable]");
+      if (target && !target.contains(event.relatedTarget)) {
+        target.classList.remove("is-drop-target");
+      }
+    });
+
+    taskList.addEventListener("drop", function (event) {
+      const target = event.target.closest("[data-droppable]");
+      const taskId = draggedTaskId;
+      draggedTaskId = null;
+      clearDropTargets();
+      if (!target || !taskId) {
+        return;
+      }
+
+      event.preventDefault();
+      const task = (dashboardData.tasks || []).find(function (item) {
+        return item.id === taskId;
+      });
+      let change = null;
+      if (task) {
+        change = target.dataset.calendarDate
+          ? getCalendarDropChange(task, target.dataset.calendarDate)
+          : getBoardDropChange(task, target.dataset.boardColumn);
+      }
+      if (!change) {
+        return;
+      }
+
+      const message = { command: "moveTask", taskId: taskId };
+      if ("dueDate" in change) {
+        message.dueDate = change.dueDate;
+      }
+      if ("done" in change) {
+        message.done = change.done;
+      }
+      vscode.postMessage(message);
+    });
+
     taskList.addEventListener("change", function (event) {
+      const selectBox = event.target.closest("[data-action='select']");
+      if (selectBox) {
+        const taskId = selectBox.dataset.taskId;
+        state.selectedTaskIds = state.selectedTaskIds.filter(function (id) {
+          return id !== taskId;
+        });
+        if (selectBox.checked) {
+          state.selectedTaskIds.push(taskId);
+        }
+        rerender();
+        return;
+      }
+
       const checkbox = event.target.closest("[data-action='toggle']");
       if (!checkbox) {
         return;
@@ -1240,13 +2123,52 @@
         return;
       }
 
+      if (message.type === "taskSearchResults") {
+        if (message.query === state.search) {
+          taskSearchResult = {
+            query: message.query,
+            ranks: new Map(
+              (message.ids || []).map(function (id, rank) {
+                return [id, rank];
+              }),
+            ),
+          };
+          rerender();
+        }
+        return;
+      }
+
+      if (message.type === "journal") {
+        showUndoToast(message);
+        return;
+      }
+
+      if (message.type === "applyView") {
+        applyViewQuery(typeof message.query === "string" ? message.query : "");
+        return;
+      }
+
       if (message.type === "dashboardData") {
         if (message.data) {
           dashboardData = message.data;
           currentLocale = dashboardData.locale || currentLocale;
+          const taskIds = new Set(
+            (dashboardData.tasks || []).map(function (item) {
+              return item.id;
+            }),
+          );
+          state.selectedTaskIds = state.selectedTaskIds.filter(function (id) {
+            return taskIds.has(id);
+          });
+          const collapsedCount = state.collapsedTaskIds.length;
+          state.collapsedTaskIds = listPresentCollapsedKeys(state.collapsedTaskIds, dashboardData.tasks);
+          if (state.collapsedTaskIds.length !== collapsedCount) {
+            persistState();
+          }
           populateModelSelector();
           applyStaticStrings();
           syncStaticInputs();
+          requestTaskSearch();
           rerender();
         }
         return;
@@ -1256,4 +2178,5 @@
     populateModelSelector();
     applyStaticStrings();
     syncStaticInputs();
+    requestTaskSearch();
     rerender();
@@ -3,6 +3,7 @@
   let isComposing = false; // IME composition guard
 
   const inputBox = document.getElementById('inputBox');
+  const inputContainer = document.getElementById('inputContainer');
   const sendBtn = document.getElementById('sendBtn');
   const timeline = document.getElementById('timeline');
   const emptyState = document.getElementById('emptyState');
@@ -10,25 +11,36 @@
   const topbarCount = document.getElementById('topbarCount');
   const inboxBtn = document.getElementById('inboxBtn');
   const allBtn = document.getElementById('allBtn');
-  const activeTagBtn = document.getElementById('activeTagBtn');
+  const tagFilterBar = document.getElementById('tagFilterBar');
+  const tagSuggestions = document.getElementById('tagSuggestions');
   const openFileBtn = document.getElementById('openFileBtn');
   const jumpDateBtn = document.getElementById('jumpDateBtn');
   const jumpDateInput = document.getElementById('jumpDateInput');
   const backToTodayBtn = document.getElementById('backToTodayBtn');
   const errorBanner = document.getElementById('errorBanner');
+  const undoToast = document.getElementById('undoToast');
   const searchInput = document.getElementById('searchInput');
   const clearSearch = document.getElementById('clearSearch');
   const exportBtn = document.getElementById('exportBtn');
   const selectedCountLabel = document.getElementById('selectedCountLabel');
   const exportNoteBtn = document.getElementById('exportNoteBtn');
   const exportCancelBtn = document.getElementById('exportCancelBtn');
-  let activeTag = null;
-  let activeTagLabel = '';
+  // Hashtag filters: { tag: normalized, label: as clicked }. An entry matches a filter tag
+  // or one nested below it (#work/projecta matches #work); tagMatchMode combines several.
+  let activeTags = [];
+  let tagMatchMode = 'and';
+  // Historical tags for composer autocomplete; fetched on first use after each update.
+  let knownTags = null;
+  let tagSuggestionItems = [];
+  let tagSuggestionIndex = 0;
   let currentSearchText = '';
   let latestSections = [];
   let currentPinnedEntries = [];
   let editingEntryKey = null;
   let editingText = '';
+  let replyingEntryKey = null;
+  let assetsBaseUri = '';
+  const expandedThreads = new Set();
   let selectMode = false;
   const selectedEntries = new Set();
   let pendingScrollMode = 'top';
@@ -38,6 +50,11 @@
   let todayDate = '';
   let anchorDate = '';
   const momentTagPattern = __MOMENT_TAG_PATTERN__;
+  const editIcon = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><path d="M17 3a2.828 2.828 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5L17 3z"></path></svg>';
+  const deleteIcon = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path><line x1="10" y1="11" x2="10" y2="17"></line><line x1="14" y1="11" x2="14" y2="17"></line></svg>';
+  const taskIcon = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><polyline points="9 11 12 14 22 4"></polyline><path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11"></path></svg>';
+  const noteIcon = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="12" y1="18" x2="12" y2="12"></line><line x1="9" y1="15" x2="15" y2="15"></line></svg>';
+  const replyIcon = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><polyline points="15 10 20 15 15 20"></polyline><path d="M4 4v7a4 4 0 0 0 4 4h12"></path></svg>';
 
   // Notify extension we're ready
   vscode.postMessage({ command: 'ready' });
@@ -50,6 +67,7 @@
       currentLocale = msg.locale || 'en';
       applyStaticStrings();
       latestSections = msg.sections;
+      assetsBaseUri = msg.assetsBaseUri || '';
       todayDate = msg.todayDate || '';
       anchorDate = msg.anchorDate || todayDate;
       currentPinnedEntries = msg.pinnedEntries || [];
@@ -59,7 +77,7 @@
       updateAnchorChip(anchorDate, todayDate);
       if (
         editingEntryKey !== null
-        && !latestSections.some((section) => section.entries.some((entry) => (section.date + ':' + entry.index) === editingEntryKey))
+        && !latestSections.some((section) => section.entries.some((entry) => [entry, ...(entry.replies || [])].some((item) => (section.date + ':' + item.index) === editingEntryKey)))
       ) {
         editingEntryKey = null;
         editingText = '';
@@ -71,11 +89,19 @@
         timeline.scrollTop = pendingScrollTop;
       }
       pendingScrollMode = null;
+      knownTags = null;
       window.requestAnimationFrame(() => {
         maybeLoadOlderEntries();
       });
+    } else if (msg.command === 'tagSuggestions') {
+      knownTags = msg.tags || [];
+      updateTagSuggestions();
     } else if (msg.command === 'error') {
       showError(msg.message);
+    } else if (msg.command === 'journal') {
+      showUndoToast(msg);
+    } else if (msg.command === 'attachmentSaved') {
+      insertIntoComposer(msg.markdown);
     }
   });
 
@@ -85,6 +111,29 @@
     setTimeout(() => { errorBanner.style.display = 'none'; }, 4000);
   }
 
+  // Offers to undo the change just made (or redo the one just undone) for a few seconds.
+  let undoToastTimer = null;
+  function showUndoToast(event) {
+    const undone = event.kind === 'undo';
+    const label = document.createElement('span');
+    label.textContent = undone
+      ? UI('undoneChange', { label: event.label })
+      : event.kind === 'redo' ? UI('redoneChange', { label: event.label }) : event.label;
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'undo-toast-btn';
+    button.textContent = undone ? UI('redoBtn') : UI('undoBtn');
+    button.addEventListener('click', () => {
+      undoToast.hidden = true;
+      vscode.postMessage({ command: undone ? 'redoChange' : 'undoChange' });
+    });
+
+    undoToast.replaceChildren(label, button);
+    undoToast.hidden = false;
+    clearTimeout(undoToastTimer);
+    undoToastTimer = setTimeout(() => { undoToast.hidden = true; }, 8000);
+  }
+
   function applyStaticStrings() {
     allBtn.title = UI('allMoments');
     allBtn.setAttribute('aria-label', UI('allMoments'));
@@ -145,6 +194,11 @@
   }
 
   // ---- Render ----
+  // `09:15:30+09:00` reads as `09:15:30 +09:00`; times without an offset are shown as written.
+  function formatEntryTime(time) {
+    return String(time || '').replace(/(Z|[+-]\d{2}:\d{2})$/, ' $1');
+  }
+
   function escapeHtml(text) {
     return text
       .replace(/&/g, '&amp;')
@@ -156,6 +210,21 @@
   function renderText(text) {
     // Highlight #tags
     let html = escapeHtml(text);
+    // Attachments saved under assets/ — bindEntryText() sets the thumbnail source
+    html = html.replace(/(!?)\[([^\]#:]*)\]\((assets\/[\w\u00C0-\uFFFF./-]+)\)/g, (match, bang, label, assetPath) => {
+      if (assetPath.includes('..')) {
+        return match;
+      }
+      return bang
+        ? '<img class="entry-thumb" data-attachment="' + assetPath + '" alt="' + label + '" title="' + label + '">'
+        : '<a class="entry-attachment" href="#" data-attachment="' + assetPath + '">📎 ' + label + '</a>';
+    });
+    // ↗ [[target]] markers left by "Make task" / "Make note"
+    html = html.replace(/\s*↗ \[\[([^\]|#]+)\]\]/g, (match, target) => {
+      const isTask = target.startsWith('tasks/');
+      const label = UI(isTask ? 'promotedTask' : 'promotedNote', { target });
+      return ' <span class="promoted-badge" title="' + label + '">↗ ' + (isTask ? UI('makeTask') : UI('makeNote')) + '</span>';
+    });
     html = html.replace(new RegExp(momentTagPattern, 'gu'), (tag) => '<button class="tag" type="button" data-tag="' + tag + '">' + tag + '</button>');
     // Highlight @YYYY-MM-DD due dates
     html = html.replace(/@(\d{4}-\d{2}-\d{2})/g, '<span class="due-date-inline">@$1</span>');
@@ -180,20 +249,104 @@
     return matchMomentTags(entry.text).map((tag) => normalizeTag(tag));
   }
 
-  function setActiveTag(tag) {
+  function getThreadText(entry) {
+    return [entry.text, ...(entry.replies || []).map((reply) => reply.text)].join('\n');
+  }
+
+  // Archived days keep their attachments next to the archived file, so their links are
+  // resolved under that folder (e.g. archive/2026-03/).
+  function bindEntryText(element, assetsPrefix = '') {
+    element.querySelectorAll('.tag').forEach((tagButton) => {
+      tagButton.addEventListener('click', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        toggleTagFilter(tagButton.dataset.tag || '');
+      });
+    });
+    element.querySelectorAll('[data-attachment]').forEach((attachment) => {
+      if (attachment.tagName === 'IMG') {
+        attachment.src = assetsBaseUri + '/' + assetsPrefix + attachment.dataset.attachment;
+      }
+      attachment.addEventListener('click', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        vscode.postMessage({ command: 'openAttachment', path: assetsPrefix + attachment.dataset.attachment });
+      });
+    });
+  }
+
+  function tagMatches(tag, filter) {
+    return tag === filter || tag.startsWith(filter + '/');
+  }
+
+  function matchesTagFilters(entry) {
+    if (activeTags.length === 0) {
+      return true;
+    }
+    const tags = getEntryTags(entry);
+    const hasTag = (filter) => tags.some((tag) => tagMatches(tag, filter.tag));
+    return tagMatchMode === 'and' ? activeTags.every(hasTag) : activeTags.some(hasTag);
+  }
+
+  function getTagFilterLabel() {
+    return activeTags.map((filter) => filter.label).join(tagMatchMode === 'and' ? ' + ' : ' / ');
+  }
+
+  // Clicking a tag adds it to the filters, clicking it again removes it.
+  function toggleTagFilter(tag) {
     const normalizedTag = normalizeTag(tag);
-    if (!normalizedTag || activeTag === normalizedTag) {
-      activeTag = null;
-      activeTagLabel = '';
+    if (!normalizedTag) {
+      return;
+    }
+    if (activeTags.some((filter) => filter.tag === normalizedTag)) {
+      activeTags = activeTags.filter((filter) => filter.tag !== normalizedTag);
     } else {
-      activeTag = normalizedTag;
-      activeTagLabel = tag;
+      activeTags = [...activeTags, { tag: normalizedTag, label: tag }];
     }
 
     timeline.scrollTop = 0;
     renderTimeline(latestSections);
   }
 
+  function renderTagFilters() {
+    tagFilterBar.hidden = activeTags.length === 0;
+    tagFilterBar.replaceChildren();
+    activeTags.forEach((filter) => {
+      const chip = document.createElement('button');
+      chip.className = 'filter-chip-btn';
+      chip.type = 'button';
+      chip.textContent = filter.label + ' ×';
+      chip.title = UI('removeTagFilter', { tag: filter.label });
+      chip.setAttribute('aria-label', chip.title);
+      chip.addEventListener('click', () => toggleTagFilter(filter.tag));
+      tagFilterBar.appendChild(chip);
+    });
+
+    if (activeTags.length > 1) {
+      const modeButton = document.createElement('button');
+      modeButton.className = 'tag-mode-btn';
+      modeButton.type = 'button';
+      modeButton.textContent = UI(tagMatchMode === 'and' ? 'tagModeAll' : 'tagModeAny');
+      modeButton.title = UI('tagModeToggle');
+      modeButton.addEventListener('click', () => {
+        tagMatchMode = tagMatchMode === 'and' ? 'or' : 'and';
+        renderTimeline(latestSections);
+      });
+      tagFilterBar.appendChild(modeButton);
+    } else if (activeTags.length === 1) {
+      const renameButton = document.createElement('button');
+      renameButton.className = 'tag-mode-btn';
+      renameButton.type = 'button';
+      renameButton.innerHTML = editIcon;
+      renameButton.title = UI('renameTag', { tag: activeTags[0].label });
+      renameButton.setAttribute('aria-label', renameButton.title);
+      renameButton.addEventListener('click', () => {
+        vscode.postMessage({ command: 'renameTag', tag: activeTags[0].tag });
+      });
+      tagFilterBar.appendChild(renameButton);
+    }
+  }
+
   function autoResizeTextarea(textarea) {
     textarea.style.height = 'auto';
     textarea.style.height = Math.min(textarea.scrollHeight, 180) + 'px';
@@ -224,13 +377,98 @@
     }
   }
 
+  function cancelEditing() {
+    editingEntryKey = null;
+    editingText = '';
+    replyingEntryKey = null;
+    renderTimeline(latestSections);
+  }
+
+  // Textarea with save / cancel used to edit entries and replies and to write new replies.
+  // `editingText` keeps the draft across re-renders while it is open.
+  function createInlineEditor(value, label, onSave, onCancel) {
+    const editWrap = document.createElement('div');
+    editWrap.className = 'entry-edit';
+
+    const editInput = document.createElement('textarea');
+    editInput.value = value;
+    editInput.setAttribute('aria-label', label);
+    editInput.placeholder = label;
+    editInput.addEventListener('input', () => {
+      editingText = editInput.value;
+      autoResizeTextarea(editInput);
+    });
+
+    const submit = () => {
+      const nextText = editInput.value.trim();
+      if (!nextText) {
+        showError(UI('momentTextEmpty'));
+        return;
+      }
+      onSave(nextText);
+    };
+
+    editInput.addEventListener('keydown', (event) => {
+      if (event.isComposing || event.keyCode === 229) {
+        return;
+      }
+      if (event.key === 'Enter') {
+        let shouldSave = false;
+        if (sendOnEnter && !event.shiftKey) {
+          shouldSave = true;
+        } else if (!sendOnEnter && (event.metaKey || event.ctrlKey)) {
+          shouldSave = true;
+        }
+
+        if (shouldSave) {
+          event.preventDefault();
+          submit();
+        }
+      }
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        onCancel();
+      }
+    });
+
+    const editActions = document.createElement('div');
+    editActions.className = 'entry-edit-actions';
+
+    const saveButton = document.createElement('button');
+    saveButton.className = 'entry-action save';
+    saveButton.type = 'button';
+    saveButton.title = UI('save');
+    saveButton.innerHTML = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><polyline points="20 6 9 17 4 12"></polyline></svg>';
+    saveButton.addEventListener('click', submit);
+
+    const cancelButton = document.createElement('button');
+    cancelButton.className = 'entry-action';
+    cancelButton.type = 'button';
+    cancelButton.title = UI('cancelBtn');
+    cancelButton.innerHTML = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>';
+    cancelButton.addEventListener('click', onCancel);
+
+    editActions.appendChild(saveButton);
+    editActions.appendChild(cancelButton);
+    editWrap.appendChild(editInput);
+    editWrap.appendChild(editActions);
+
+    setTimeout(() => {
+      editInput.focus();
+      editInput.selectionStart = editInput.value.length;
+      editInput.selectionEnd = editInput.value.length;
+      autoResizeTextarea(editInput);
+    }, 0);
+    return editWrap;
+  }
+
   function renderTimeline(sections) {
     const visibleSections = sections
       .map((section) => ({
         ...section,
         entries: section.entries
-          .filter((entry) => !activeTag || getEntryTags(entry).includes(activeTag))
-          .filter((entry) => !currentSearchText || entry.text.toLowerCase().includes(currentSearchText))
+          .filter((entry) => matchesTagFilters(entry))
+          .filter((entry) => !currentSearchText || getThreadText(entry).toLowerCase().includes(currentSearchText))
           .slice()
           .reverse(),
       }))
@@ -238,20 +476,17 @@
 
     allBtn.classList.add('active');
     allBtn.setAttribute('aria-pressed', 'true');
-    activeTagBtn.style.display = activeTag ? '' : 'none';
-    activeTagBtn.textContent = activeTag ? activeTagLabel + ' ×' : '';
-    activeTagBtn.title = activeTag ? UI('clearSearch') : UI('clearSearch');
-    activeTagBtn.setAttribute('aria-label', activeTag ? UI('clearSearch') : UI('clearSearch'));
+    renderTagFilters();
 
     if (visibleSections.length === 0) {
       emptyState.style.display = 'block';
       timeline.querySelectorAll('.day-section, .pinned-section').forEach(e => e.remove());
-      if (currentSearchText && activeTag) {
-        emptyState.textContent = UI('noMomentsSearchTag', { tag: activeTagLabel, query: currentSearchText });
+      if (currentSearchText && activeTags.length > 0) {
+        emptyState.textContent = UI('noMomentsSearchTag', { tag: getTagFilterLabel(), query: currentSearchText });
       } else if (currentSearchText) {
         emptyState.textContent = UI('noMomentsSearch', { query: currentSearchText });
-      } else if (activeTag) {
-        emptyState.textContent = UI('noMomentsTagged', { tag: activeTagLabel });
+      } else if (activeTags.length > 0) {
+        emptyState.textContent = UI('noMomentsTagged', { tag: getTagFilterLabel() });
       } else {
         emptyState.textContent = UI('noMomentsEmpty');
       }
@@ -284,7 +519,7 @@
 
         const dateBadge = document.createElement('span');
         dateBadge.className = 'entry-time';
-        dateBadge.textContent = pinned.date + (pinned.time ? ' · ' + pinned.time : '');
+        dateBadge.textContent = pinned.date + (pinned.time ? ' · ' + formatEntryTime(pinned.time) : '');
         meta.appendChild(dateBadge);
 
         const header = document.createElement('div');
@@ -296,13 +531,7 @@
         const textSpan = document.createElement('div');
         textSpan.className = 'entry-text';
         textSpan.innerHTML = renderText(pinned.text);
-        textSpan.querySelectorAll('.tag').forEach((tagButton) => {
-          tagButton.addEventListener('click', (event) => {
-            event.preventDefault();
-            event.stopPropagation();
-            setActiveTag(tagButton.dataset.tag || '');
-          });
-        });
+        bindEntryText(textSpan);
 
         const content = document.createElement('div');
         content.className = 'entry-content';
@@ -351,7 +580,15 @@
       sectionLabel.textContent = section.dateLabel;
 
       sectionHeader.appendChild(sectionLabel);
+      if (section.archive) {
+        const archivedBadge = document.createElement('span');
+        archivedBadge.className = 'archived-badge';
+        archivedBadge.textContent = UI('archivedBadge');
+        archivedBadge.title = UI('archivedReadOnly');
+        sectionHeader.appendChild(archivedBadge);
+      }
       sectionEl.appendChild(sectionHeader);
+      const assetsPrefix = section.archive ? section.archive + '/' : '';
 
       unpinnedEntries.forEach((entry) => {
       const entryKey = section.date + ':' + entry.index;
@@ -364,7 +601,7 @@
 
       const timeBadge = document.createElement('span');
       timeBadge.className = 'entry-time';
-      timeBadge.textContent = entry.time;
+      timeBadge.textContent = formatEntryTime(entry.time);
 
       meta.appendChild(timeBadge);
 
@@ -394,104 +631,20 @@
       }
 
       if (entryKey === editingEntryKey) {
-        const editWrap = document.createElement('div');
-        editWrap.className = 'entry-edit';
-
-        const editInput = document.createElement('textarea');
-        editInput.value = editingText;
-        editInput.setAttribute('aria-label', UI('edit'));
-        editInput.addEventListener('input', () => {
-          editingText = editInput.value;
-          autoResizeTextarea(editInput);
-        });
-        editInput.addEventListener('keydown', (event) => {
-          if (event.isComposing || event.keyCode === 229) {
-            return;
-          }
-          if (event.key === 'Enter') {
-            let shouldSave = false;
-            if (sendOnEnter && !event.shiftKey) {
-              shouldSave = true;
-            } else if (!sendOnEnter && (event.metaKey || event.ctrlKey)) {
-              shouldSave = true;
-            }
-
-            if (shouldSave) {
-              event.preventDefault();
-              const nextText = editInput.value.trim();
-              if (!nextText) {
-                showError(UI('momentTextEmpty'));
-                return;
-              }
-              editingEntryKey = null;
-              editingText = '';
-              vscode.postMessage({ command: 'saveEdit', date: section.date, index: entry.index, text: nextText });
-            }
-          }
-          if (event.key === 'Escape') {
-            event.preventDefault();
-            editingEntryKey = null;
-            editingText = '';
-            renderTimeline(latestSections);
-          }
-        });
-
-        const editActions = document.createElement('div');
-        editActions.className = 'entry-edit-actions';
-
-        const saveButton = document.createElement('button');
-        saveButton.className = 'entry-action save';
-        saveButton.type = 'button';
-        saveButton.title = UI('save');
-        saveButton.innerHTML = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><polyline points="20 6 9 17 4 12"></polyline></svg>';
-        saveButton.addEventListener('click', () => {
-          const nextText = editInput.value.trim();
-          if (!nextText) {
-            showError(UI('momentTextEmpty'));
-            return;
-          }
+        div.appendChild(createInlineEditor(editingText, UI('edit'), (nextText) => {
           editingEntryKey = null;
           editingText = '';
           vscode.postMessage({ command: 'saveEdit', date: section.date, index: entry.index, text: nextText });
-        });
-
-        const cancelButton = document.createElement('button');
-        cancelButton.className = 'entry-action';
-        cancelButton.type = 'button';
-        cancelButton.title = UI('cancelBtn');
-        cancelButton.innerHTML = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>';
-        cancelButton.addEventListener('click', () => {
-          editingEntryKey = null;
-          editingText = '';
-          renderTimeline(latestSections);
-        });
-
-        editActions.appendChild(saveButton);
-        editActions.appendChild(cancelButton);
-        editWrap.appendChild(editInput);
-        editWrap.appendChild(editActions);
-        div.appendChild(editWrap);
-
+        }, cancelEditing));
         sectionEl.appendChild(div);
-        setTimeout(() => {
-          editInput.focus();
-          editInput.selectionStart = editInput.value.length;
-          editInput.selectionEnd = editInput.value.length;
-          autoResizeTextarea(editInput);
-        }, 0);
         return;
       }
 
+      const replies = entry.replies || [];
       const textSpan = document.createElement('div');
       textSpan.className = 'entry-text';
       textSpan.innerHTML = renderText(entry.text);
-      textSpan.querySelectorAll('.tag').forEach((tagButton) => {
-        tagButton.addEventListener('click', (event) => {
-          event.preventDefault();
-          event.stopPropagation();
-          setActiveTag(tagButton.dataset.tag || '');
-        });
-      });
+      bindEntryText(textSpan, assetsPrefix);
 
       const content = document.createElement('div');
       content.className = 'entry-content';
@@ -519,10 +672,24 @@
       editButton.className = 'entry-action';
       editButton.type = 'button';
       editButton.title = UI('edit');
-      editButton.innerHTML = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><path d="M17 3a2.828 2.828 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5L17 3z"></path></svg>';
+      editButton.innerHTML = editIcon;
       editButton.addEventListener('click', () => {
         editingEntryKey = entryKey;
         editingText = entry.text;
+        replyingEntryKey = null;
+        renderTimeline(latestSections);
+      });
+
+      const replyButton = document.createElement('button');
+      replyButton.className = 'entry-action';
+      replyButton.type = 'button';
+      replyButton.title = UI('reply');
+      replyButton.setAttribute('aria-label', UI('reply'));
+      replyButton.innerHTML = replyIcon;
+      replyButton.addEventListener('click', () => {
+        editingEntryKey = null;
+        editingText = '';
+        replyingEntryKey = entryKey;
         renderTimeline(latestSections);
       });
 
@@ -530,16 +697,47 @@
       deleteButton.className = 'entry-action danger';
       deleteButton.type = 'button';
       deleteButton.title = UI('delete');
-      deleteButton.innerHTML = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path><line x1="10" y1="11" x2="10" y2="17"></line><line x1="14" y1="11" x2="14" y2="17"></line></svg>';
+      deleteButton.innerHTML = deleteIcon;
       deleteButton.addEventListener('click', () => {
         if (editingEntryKey === entryKey) {
           editingEntryKey = null;
           editingText = '';
         }
-        vscode.postMessage({ command: 'requestDeleteEntry', date: section.date, index: entry.index });
+        vscode.postMessage({
+          command: 'requestDeleteEntry',
+          date: section.date,
+          index: entry.index,
+          replyCount: replies.length,
+        });
       });
 
-      actions.appendChild(editButton);
+      const makeTaskButton = document.createElement('button');
+      makeTaskButton.className = 'entry-action';
+      makeTaskButton.type = 'button';
+      makeTaskButton.title = UI('makeTask');
+      makeTaskButton.setAttribute('aria-label', UI('makeTask'));
+      makeTaskButton.innerHTML = taskIcon;
+      makeTaskButton.addEventListener('click', () => {
+        vscode.postMessage({ command: 'makeTask', date: section.date, index: entry.index });
+      });
+
+      const makeNoteButton = document.createElement('button');
+      makeNoteButton.className = 'entry-action';
+      makeNoteButton.type = 'button';
+      makeNoteButton.title = UI('makeNote');
+      makeNoteButton.setAttribute('aria-label', UI('makeNote'));
+      makeNoteButton.innerHTML = noteIcon;
+      makeNoteButton.addEventListener('click', () => {
+        vscode.postMessage({ command: 'makeNote', date: section.date, index: entry.index });
+      });
+
+      // Archived days are read-only: only pinning and selecting for export are offered.
+      if (!section.archive) {
+        actions.appendChild(editButton);
+        actions.appendChild(replyButton);
+        actions.appendChild(makeTaskButton);
+        actions.appendChild(makeNoteButton);
+      }
 
       const isPinned = currentPinnedEntries.some((p) => p.date === section.date && p.index === entry.index);
       const pinButton = document.createElement('button');
@@ -556,7 +754,9 @@
         }
       });
       actions.appendChild(pinButton);
-      actions.appendChild(deleteButton);
+      if (!section.archive) {
+        actions.appendChild(deleteButton);
+      }
 
       const headerLeading = document.createElement('div');
       headerLeading.className = 'entry-header-leading';
@@ -567,6 +767,7 @@
       header.appendChild(actions);
       content.appendChild(header);
       content.appendChild(textSpan);
+      appendThread(content, section, entry, entryKey);
       div.appendChild(content);
       sectionEl.appendChild(div);
     });
@@ -575,6 +776,116 @@
     });
   }
 
+  // Replies render collapsed behind a "N replies" toggle; the thread opens while one of
+  // its replies is being edited or a new reply is being written.
+  function appendThread(content, section, entry, entryKey) {
+    const date = section.date;
+    const replies = entry.replies || [];
+    const threadOpen = expandedThreads.has(entryKey)
+      || replyingEntryKey === entryKey
+      || replies.some((reply) => (date + ':' + reply.index) === editingEntryKey);
+
+    if (replies.length > 0) {
+      const toggle = document.createElement('button');
+      toggle.className = 'thread-toggle';
+      toggle.type = 'button';
+      toggle.setAttribute('aria-expanded', String(threadOpen));
+      toggle.textContent = '↳ ' + (threadOpen ? UI('hideReplies') : UI('showReplies', { count: replies.length }));
+      toggle.addEventListener('click', () => {
+        if (threadOpen) {
+          expandedThreads.delete(entryKey);
+          if (replyingEntryKey === entryKey) {
+            replyingEntryKey = null;
+          }
+        } else {
+          expandedThreads.add(entryKey);
+        }
+        renderTimeline(latestSections);
+      });
+      content.appendChild(toggle);
+    }
+
+    if (!threadOpen) {
+      return;
+    }
+
+    const thread = document.createElement('div');
+    thread.className = 'thread';
+    replies.forEach((reply) => thread.appendChild(renderReply(section, reply)));
+    if (replyingEntryKey === entryKey) {
+      thread.appendChild(createInlineEditor(editingText, UI('replyPlaceholder'), (nextText) => {
+        replyingEntryKey = null;
+        editingText = '';
+        expandedThreads.add(entryKey);
+        vscode.postMessage({ command: 'addReply', date, index: entry.index, text: nextText });
+      }, cancelEditing));
+    }
+    content.appendChild(thread);
+  }
+
+  function renderReply(section, reply) {
+    const date = section.date;
+    const replyKey = date + ':' + reply.index;
+    const replyEl = document.createElement('div');
+    replyEl.className = 'reply';
+
+    if (replyKey === editingEntryKey) {
+      replyEl.appendChild(createInlineEditor(editingText, UI('edit'), (nextText) => {
+        editingEntryKey = null;
+        editingText = '';
+        vscode.postMessage({ command: 'saveEdit', date, index: reply.index, text: nextText });
+      }, cancelEditing));
+      return replyEl;
+    }
+
+    const header = document.createElement('div');
+    header.className = 'reply-header';
+
+    const timeBadge = document.createElement('span');
+    timeBadge.className = 'entry-time';
+    timeBadge.textContent = formatEntryTime(reply.time);
+
+    const actions = document.createElement('div');
+    actions.className = 'entry-actions';
+
+    const editButton = document.createElement('button');
+    editButton.className = 'entry-action';
+    editButton.type = 'button';
+    editButton.title = UI('edit');
+    editButton.innerHTML = editIcon;
+    editButton.addEventListener('click', () => {
+      editingEntryKey = replyKey;
+      editingText = reply.text;
+      replyingEntryKey = null;
+      renderTimeline(latestSections);
+    });
+
+    const deleteButton = document.createElement('button');
+    deleteButton.className = 'entry-action danger';
+    deleteButton.type = 'button';
+    deleteButton.title = UI('delete');
+    deleteButton.innerHTML = deleteIcon;
+    deleteButton.addEventListener('click', () => {
+      vscode.postMessage({ command: 'requestDeleteEntry', date, index: reply.index });
+    });
+
+    if (!section.archive) {
+      actions.appendChild(editButton);
+      actions.appendChild(deleteButton);
+    }
+    header.appendChild(timeBadge);
+    header.appendChild(actions);
+
+    const textSpan = document.createElement('div');
+    textSpan.className = 'entry-text';
+    textSpan.innerHTML = renderText(reply.text);
+    bindEntryText(textSpan, section.archive ? section.archive + '/' : '');
+
+    replyEl.appendChild(header);
+    replyEl.appendChild(textSpan);
+    return replyEl;
+  }
+
   function send() {
     const text = inputBox.value.trim();
     if (!text) return;
@@ -586,12 +897,73 @@
 
   sendBtn.addEventListener('click', send);
 
+  const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+  function insertIntoComposer(markdown) {
+    const start = inputBox.selectionStart;
+    const before = inputBox.value.slice(0, start);
+    const after = inputBox.value.slice(inputBox.selectionEnd);
+    const prefix = before && !/\s$/.test(before) ? ' ' : '';
+    inputBox.value = before + prefix + markdown + after;
+    inputBox.selectionStart = inputBox.selectionEnd = (before + prefix + markdown).length;
+    inputBox.focus();
+    autoResize();
+  }
+
+  // Pasted or dropped files are saved by the extension, which answers with the Markdown link.
+  function attachFiles(files) {
+    files.forEach((file) => {
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        showError(UI('attachmentTooLarge', { name: file.name }));
+        return;
+      }
+      const reader = new FileReader();
+      reader.addEventListener('load', () => {
+        const dataUrl = String(reader.result || '');
+        const extension = (file.type.split('/')[1] || 'png').replace('jpeg', 'jpg').replace(/\+.*$/, '');
+        vscode.postMessage({
+          command: 'saveAttachment',
+          name: file.name || 'pasted-' + Date.now() + '.' + extension,
+          data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+        });
+      });
+      reader.readAsDataURL(file);
+    });
+  }
+
+  inputBox.addEventListener('paste', (e) => {
+    const files = Array.from((e.clipboardData && e.clipboardData.files) || []);
+    if (files.length > 0) {
+      e.preventDefault();
+      attachFiles(files);
+    }
+  });
+
+  inputContainer.addEventListener('dragover', (e) => {
+    if (e.dataTransfer && Array.from(e.dataTransfer.types).includes('Files')) {
+      e.preventDefault();
+      inputContainer.classList.add('drop-target');
+    }
+  });
+  inputContainer.addEventListener('dragleave', () => inputContainer.classList.remove('drop-target'));
+  inputContainer.addEventListener('drop', (e) => {
+    inputContainer.classList.remove('drop-target');
+    const files = Array.from((e.dataTransfer && e.dataTransfer.files) || []);
+    if (files.length > 0) {
+      e.preventDefault();
+      attachFiles(files);
+    }
+  });
+
   // Track IME composition to prevent sending on Japanese/CJK Enter confirmation
   inputBox.addEventListener('compositionstart', () => { isComposing = true; });
   inputBox.addEventListener('compositionend', () => { isComposing = false; });
 
   inputBox.addEventListener('keydown', (e) => {
     if (isComposing) { return; } // ignore Enter during IME composition
+    if (handleTagSuggestionKey(e)) {
+      return;
+    }
     if (sendOnEnter) {
       if (e.key === 'Enter' && !e.shiftKey) {
         e.preventDefault();
@@ -605,7 +977,102 @@
     }
   });
 
-  inputBox.addEventListener('input', autoResize);
+  inputBox.addEventListener('input', () => {
+    autoResize();
+    updateTagSuggestions();
+  });
+  inputBox.addEventListener('click', updateTagSuggestions);
+  inputBox.addEventListener('blur', hideTagSuggestions);
+
+  // ---- Tag autocomplete ----
+  // The `#partial` tag right before the caret, or null.
+  function getTagQuery() {
+    const before = inputBox.value.slice(0, inputBox.selectionStart);
+    const match = before.match(/(^|\s)(#[\p{L}\p{M}\p{N}_\p{Pd}/]*)$/u);
+    return match ? { text: match[2], start: before.length - match[2].length } : null;
+  }
+
+  function hideTagSuggestions() {
+    tagSuggestionItems = [];
+    tagSuggestions.hidden = true;
+  }
+
+  function updateTagSuggestions() {
+    const query = getTagQuery();
+    if (!query) {
+      hideTagSuggestions();
+      return;
+    }
+    if (knownTags === null) {
+      knownTags = [];
+      vscode.postMessage({ command: 'requestTags' });
+      return;
+    }
+
+    const prefix = normalizeTag(query.text);
+    tagSuggestionItems = knownTags
+      .filter((item) => item.tag.startsWith(prefix) && item.tag !== prefix)
+      .slice(0, 8);
+    tagSuggestionIndex = 0;
+    renderTagSuggestions();
+  }
+
+  function renderTagSuggestions() {
+    tagSuggestions.hidden = tagSuggestionItems.length === 0;
+    tagSuggestions.setAttribute('aria-label', UI('tagSuggestions'));
+    tagSuggestions.replaceChildren(...tagSuggestionItems.map((item, index) => {
+      const option = document.createElement('div');
+      option.className = 'tag-suggestion' + (index === tagSuggestionIndex ? ' active' : '');
+      option.setAttribute('role', 'option');
+      option.setAttribute('aria-selected', String(index === tagSuggestionIndex));
+      const label = document.createElement('span');
+      label.textContent = item.tag;
+      const count = document.createElement('span');
+      count.className = 'tag-suggestion-count';
+      count.textContent = String(item.count);
+      option.appendChild(label);
+      option.appendChild(count);
+      // mousedown, so the pick happens before the textarea blurs and hides the list.
+      option.addEventListener('mousedown', (event) => {
+        event.preventDefault();
+        acceptTagSuggestion(item.tag);
+      });
+      return option;
+    }));
+  }
+
+  function acceptTagSuggestion(tag) {
+    const query = getTagQuery();
+    if (!query) {
+      return;
+    }
+    const caret = inputBox.selectionStart;
+    inputBox.value = inputBox.value.slice(0, query.start) + tag + ' ' + inputBox.value.slice(caret);
+    const nextCaret = query.start + tag.length + 1;
+    inputBox.setSelectionRange(nextCaret, nextCaret);
+    hideTagSuggestions();
+    autoResize();
+  }
+
+  // Arrow keys move through the suggestions, Enter / Tab pick one and Escape closes them.
+  function handleTagSuggestionKey(event) {
+    if (tagSuggestions.hidden || tagSuggestionItems.length === 0) {
+      return false;
+    }
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      tagSuggestionIndex = (tagSuggestionIndex + step + tagSuggestionItems.length) % tagSuggestionItems.length;
+      renderTagSuggestions();
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      acceptTagSuggestion(tagSuggestionItems[tagSuggestionIndex].tag);
+    } else if (event.key === 'Escape') {
+      hideTagSuggestions();
+    } else {
+      return false;
+    }
+    event.preventDefault();
+    return true;
+  }
 
   function autoResize() {
     autoResizeTextarea(inputBox);
@@ -637,11 +1104,6 @@
   allBtn.addEventListener('click', () => {
     renderTimeline(latestSections);
   });
-  activeTagBtn.addEventListener('click', () => {
-    activeTag = null;
-    activeTagLabel = '';
-    renderTimeline(latestSections);
-  });
 
   let searchDebounceTimer = null;
 